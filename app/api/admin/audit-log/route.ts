@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requireAdmin } from '../../../../lib/serverAuth'
+import { AdminAuthError, listAdminAuditLog } from '../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/admin/audit-log?action=&actorId=&targetId=&limit=
+ * Admin-only: most recent admin actions first. action matches by prefix,
+ * so action=kyc returns every kyc.* entry.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request, supabase)
+
+    const searchParams = request.nextUrl.searchParams
+    const entries = await listAdminAuditLog({
+      supabase,
+      action: searchParams.get('action') || undefined,
+      actorId: searchParams.get('actorId') || undefined,
+      targetId: searchParams.get('targetId') || undefined,
+      limit: Number(searchParams.get('limit')) || undefined
+    })
+
+    return NextResponse.json({ success: true, entries })
+
+  } catch (error: any) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('List admin audit log error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load audit log' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requireAdmin } from '../../../../../lib/serverAuth'
+import { AdminAuthError, revokeAdminRole } from '../../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * DELETE /api/admin/roles/[userId]
+ * Super-admin only: revokes a user's admin role
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { userId } = await params
+    const { user } = await requireAdmin(request, supabase, 'super_admin')
+
+    await revokeAdminRole({ supabase, actor: user, userId, request })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error: any) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Revoke admin role error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to revoke admin role' },
+      { status: 500 }
+    )
+  }
+}
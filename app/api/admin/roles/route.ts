@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requireAdmin } from '../../../../lib/serverAuth'
+import { AdminAuthError, grantAdminRole, listAdmins } from '../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/admin/roles
+ * Admin-only: everyone with an admin role, and the caller's own role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, role } = await requireAdmin(request, supabase)
+    const admins = await listAdmins(supabase)
+
+    return NextResponse.json({ success: true, admins, me: { id: user.id, role } })
+
+  } catch (error: any) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('List admin roles error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list admins' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/roles
+ * Super-admin only: grants a role, or changes an existing one
+ * Body: { email, role: 'admin' | 'super_admin', note? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAdmin(request, supabase, 'super_admin')
+    const { email, role = 'admin', note } = await request.json()
+
+    const grant = await grantAdminRole({ supabase, actor: user, email, role, note, request })
+
+    return NextResponse.json({ success: true, grant })
+
+  } catch (error: any) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Grant admin role error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to grant admin role' },
+      { status: 500 }
+    )
+  }
+}
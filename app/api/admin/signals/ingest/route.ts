@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requireAdmin } from '../../../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../../../lib/adminRoles'
+import { SignalSourceError } from '../../../../../lib/signalAdapters'
+import { runSignalIngest } from '../../../../../lib/signalIngest'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/admin/signals/ingest
+ * Admin-only: runs signal ingestion now instead of waiting for the cron.
+ * sourceId limits the run to one source (active or not); offline reads only
+ * the sources' fixture files.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAdmin(request, supabase)
+
+    const { sourceId, offline } = await request.json().catch(() => ({}))
+
+    const summary = await runSignalIngest({
+      supabase,
+      sourceIds: sourceId ? [sourceId] : undefined,
+      offline: offline === true || undefined
+    })
+
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'signals.ingest',
+      targetType: 'signal_source',
+      targetId: sourceId || null,
+      details: {
+        offline: offline === true,
+        sources: summary.sources,
+        expired: summary.expired,
+        matched: summary.matched
+      },
+      request
+    })
+
+    return NextResponse.json({ success: true, ...summary })
+
+  } catch (error: any) {
+    if (error instanceof SignalSourceError || error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Signal ingest error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to ingest signals' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requireAdmin } from '../../../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../../../lib/adminRoles'
+import {
+  WebhookReplayError,
+  replayFailedStripeEvents,
+  replayStripeEvent
+} from '../../../../../lib/stripeWebhook'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/admin/stripe-events/replay
+ * Admin-only: re-applies stored Stripe webhook events from their saved payloads.
+ * Body: { eventId?: string, limit?: number }
+ * With eventId only that event is replayed; otherwise every failed event is,
+ * oldest first, up to limit (default 50).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireAdmin(request, supabase)
+    const { eventId, limit } = await request.json().catch(() => ({}))
+
+    const results = eventId
+      ? [await replayStripeEvent(supabase, eventId)]
+      : await replayFailedStripeEvents(supabase, Number(limit) || undefined)
+
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'stripe.replay_events',
+      targetType: 'stripe_webhook_event',
+      targetId: eventId || null,
+      details: {
+        replayed: results.length,
+        failed: results.filter(result => result.status === 'failed').map(result => result.eventId)
+      },
+      request
+    })
+
+    return NextResponse.json({ success: true, results })
+
+  } catch (error: any) {
+    if (error instanceof WebhookReplayError || error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Replay Stripe events error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to replay Stripe events' },
+      { status: 500 }
+    )
+  }
+}
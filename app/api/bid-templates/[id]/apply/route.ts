@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+import { getTemplateVariables, renderBidTemplate } from '../../../../../lib/bidTemplates'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/bid-templates/[id]/apply
+ * Renders a template for a job. Body: { jobId }
+ * Returns the filled-in message and the template's default price
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { jobId } = await request.json()
+
+    if (!jobId) {
+      return NextResponse.json({ error: 'Missing required field: jobId' }, { status: 400 })
+    }
+
+    const { data: template } = await supabase
+      .from('bid_templates')
+      .select('*')
+      .eq('id', id)
+      .eq('contractor_id', user.id)
+      .maybeSingle()
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    const variables = await getTemplateVariables(supabase, { contractorId: user.id, jobId })
+
+    if (!variables) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      body: renderBidTemplate(template.body, variables),
+      price: template.default_price != null ? Number(template.default_price) : null,
+      variables
+    })
+
+  } catch (error: any) {
+    console.error('Error applying bid template:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to apply template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { categoryPattern } from '../../../../lib/bidTemplates'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+async function getOwnTemplate(id: string, contractorId: string) {
+  const { data } = await supabase
+    .from('bid_templates')
+    .select('*')
+    .eq('id', id)
+    .eq('contractor_id', contractorId)
+    .maybeSingle()
+
+  return data
+}
+
+/**
+ * PATCH /api/bid-templates/[id]
+ * Updates any of { name, category, body, defaultPrice, isDefault }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await getOwnTemplate(id, user.id)
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    const { name, category, body, defaultPrice, isDefault } = await request.json()
+    const updates: Record<string, any> = {}
+
+    if (name !== undefined) updates.name = String(name).trim()
+    if (category !== undefined) updates.category = String(category).trim()
+    if (body !== undefined) updates.body = String(body).trim()
+    if (defaultPrice !== undefined) {
+      if (defaultPrice !== null && (!Number.isFinite(Number(defaultPrice)) || Number(defaultPrice) < 0)) {
+        return NextResponse.json(
+          { error: 'defaultPrice must be a positive number' },
+          { status: 400 }
+        )
+      }
+      updates.default_price = defaultPrice === null ? null : Number(defaultPrice)
+    }
+    if (isDefault !== undefined) updates.is_default = !!isDefault
+
+    if (updates.name === '' || updates.category === '' || updates.body === '') {
+      return NextResponse.json(
+        { error: 'name, category and body cannot be empty' },
+        { status: 400 }
+      )
+    }
+
+    // Only one default per category
+    if (updates.is_default) {
+      await supabase
+        .from('bid_templates')
+        .update({ is_default: false })
+        .eq('contractor_id', user.id)
+        .ilike('category', categoryPattern(updates.category ?? existing.category))
+        .neq('id', id)
+    }
+
+    const { data: template, error } = await supabase
+      .from('bid_templates')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, template })
+
+  } catch (error: any) {
+    console.error('Error updating bid template:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/bid-templates/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await getOwnTemplate(id, user.id)
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    const { error } = await supabase
+      .from('bid_templates')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+
+  } catch (error: any) {
+    console.error('Error deleting bid template:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete template' },
+      { status: 500 }
+    )
+  }
+}
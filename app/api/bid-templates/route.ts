@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../lib/serverAuth'
+import { categoryPattern } from '../../../lib/bidTemplates'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/bid-templates?category=HVAC
+ * Lists the authenticated contractor's quick-bid templates
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const category = request.nextUrl.searchParams.get('category')
+
+    let query = supabase
+      .from('bid_templates')
+      .select('*')
+      .eq('contractor_id', user.id)
+
+    if (category) {
+      query = query.ilike('category', categoryPattern(category))
+    }
+
+    const { data, error } = await query
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ templates: data || [] })
+
+  } catch (error: any) {
+    console.error('Error listing bid templates:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load templates' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/bid-templates
+ * Creates a template. Body: { name, category, body, defaultPrice?, isDefault? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { name, category, body, defaultPrice, isDefault } = await request.json()
+
+    if (!name?.trim() || !category?.trim() || !body?.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required fields: name, category, body' },
+        { status: 400 }
+      )
+    }
+
+    if (defaultPrice != null && (!Number.isFinite(Number(defaultPrice)) || Number(defaultPrice) < 0)) {
+      return NextResponse.json(
+        { error: 'defaultPrice must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    const { data: contractor } = await supabase
+      .from('pro_contractors')
+      .select('id')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    if (!contractor) {
+      return NextResponse.json(
+        { error: 'Only contractors can create bid templates' },
+        { status: 403 }
+      )
+    }
+
+    // Only one default per category
+    if (isDefault) {
+      await supabase
+        .from('bid_templates')
+        .update({ is_default: false })
+        .eq('contractor_id', user.id)
+        .ilike('category', categoryPattern(category.trim()))
+    }
+
+    const { data: template, error } = await supabase
+      .from('bid_templates')
+      .insert({
+        contractor_id: user.id,
+        name: name.trim(),
+        category: category.trim(),
+        body: body.trim(),
+        default_price: defaultPrice != null ? Number(defaultPrice) : null,
+        is_default: !!isDefault
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, template })
+
+  } catch (error: any) {
+    console.error('Error creating bid template:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create template' },
+      { status: 500 }
+    )
+  }
+}
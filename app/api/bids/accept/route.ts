@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { notifyBidAccepted } from '../../../../lib/emailService'
-import { sendBidAcceptedSMS } from '../../../../lib/smsService'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { acceptBid, LifecycleError, transitionBid } from '../../../../lib/bidLifecycle'
+import { isBidExpired } from '../../../../lib/bids'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -10,15 +11,26 @@ const supabase = createClient(
 
 /**
  * POST /api/bids/accept
- * Accepts a bid and sends email notification to contractor
+ * Accepts a pending bid on the authenticated homeowner's job and rejects the
+ * competing bids. The contractor's email and SMS are queued by the job_bids
+ * trigger in the same transaction as the accept.
  */
 export async function POST(request: NextRequest) {
   try {
-    const { bidId, jobId } = await request.json()
+    const user = await getRequestUser(request, supabase)
 
-    if (!bidId || !jobId) {
+    if (!user) {
       return NextResponse.json(
-        { error: 'Missing required fields: bidId, jobId' },
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bidId } = await request.json()
+
+    if (!bidId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bidId' },
         { status: 400 }
       )
     }
@@ -38,86 +50,32 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 2. Update bid status to accepted
-    const { error: updateBidError } = await supabase
-      .from('job_bids')
-      .update({ status: 'accepted', accepted_at: new Date().toISOString() })
-      .eq('id', bidId)
+    const jobId = bid.job_id
 
-    if (updateBidError) {
-      console.error('Error updating bid:', updateBidError)
+    if (isBidExpired(bid)) {
+      await transitionBid(supabase, bid, 'expired', { expired_at: new Date().toISOString() }).catch(() => {})
       return NextResponse.json(
-        { error: 'Failed to accept bid', details: updateBidError.message },
-        { status: 500 }
+        { error: 'This bid has expired' },
+        { status: 409 }
       )
     }
 
-    // 3. Update job status
-    const { error: updateJobError } = await supabase
-      .from('homeowner_jobs')
-      .update({
-        status: 'in_progress',
-        final_cost: bid.bid_amount,
-        accepted_bid_id: bidId
-      })
-      .eq('id', jobId)
-
-    if (updateJobError) {
-      console.error('Error updating job:', updateJobError)
-    }
-
-    // 4. Send email & SMS notifications to contractor (non-blocking)
+    // 2. Accept the bid, reject competing bids and start the job atomically
     try {
-      const { data: job } = await supabase
-        .from('homeowner_jobs')
-        .select('title, address, homeowner_id')
-        .eq('id', jobId)
-        .single()
-
-      const { data: homeowner } = await supabase
-        .from('user_profiles')
-        .select('name, phone')
-        .eq('id', job?.homeowner_id)
-        .single()
-
-      const { data: contractor } = await supabase
-        .from('pro_contractors')
-        .select('name, business_name, phone')
-        .eq('id', bid.contractor_id)
-        .single()
-
-      const { data: contractorAuth } = await supabase.auth.admin.getUserById(bid.contractor_id)
-
-      const contractorName = contractor?.business_name || contractor?.name || 'Contractor'
-
-      // Send email notification
-      if (contractorAuth?.user?.email && job && homeowner && contractor) {
-        await notifyBidAccepted({
-          contractorEmail: contractorAuth.user.email,
-          contractorName: contractorName,
-          jobTitle: job.title,
-          homeownerName: homeowner.name,
-          homeownerPhone: homeowner.phone || 'Not provided',
-          jobAddress: job.address || 'Address in job details'
-        })
-      }
-
-      // Send SMS notification
-      if (contractor?.phone && job && homeowner) {
-        await sendBidAcceptedSMS({
-          contractorPhone: contractor.phone,
-          contractorName: contractorName,
-          homeownerName: homeowner.name,
-          jobTitle: job.title
-        })
+      await acceptBid(supabase, { bidId, homeownerId: user.id })
+    } catch (error: any) {
+      if (error instanceof LifecycleError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.status }
+        )
       }
-    } catch (error) {
-      console.error('Failed to send bid accepted notification:', error)
-      // Don't fail the request if notification fails
+      throw error
     }
 
     return NextResponse.json({
       success: true,
+      jobId,
       message: 'Bid accepted successfully'
     })
 
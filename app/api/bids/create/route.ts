@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { notifyBidReceived } from '../../../../lib/emailService'
 import { sendBidReceivedSMS } from '../../../../lib/smsService'
+import { dispatchNotification } from '../../../../lib/notificationDispatcher'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -78,38 +79,32 @@ export async function POST(request: NextRequest) {
       // The job is still created
     }
 
-    // 3. Create notification for contractor
-    const { data: contractor } = await supabase
+    // 3. Notify the contractor, per their notification settings
+    const { data: homeownerUser } = await supabase
       .from('user_profiles')
-      .select('name')
+      .select('name, phone')
       .eq('id', homeownerId)
       .single()
 
-    await supabase
-      .from('notifications')
-      .insert({
-        user_id: contractorId,
-        type: 'job_request',
-        title: 'New job request',
-        message: `${contractor?.name || 'A homeowner'} sent you a job request: "${title}"`,
-        metadata: {
+    try {
+      await dispatchNotification(supabase, {
+        userId: contractorId,
+        event: 'job_request_received',
+        emergency: urgency === 'emergency',
+        inApp: {
+          type: 'job_request_received',
+          title: 'New job request',
+          message: `${homeownerUser?.name || 'A homeowner'} sent you a job request: "${title}"`,
           job_id: job.id,
-          bid_id: bid?.id,
-          homeowner_id: homeownerId,
-          urgency
-        },
-        read: false,
-        created_at: new Date().toISOString()
+          bid_id: bid?.id || null
+        }
       })
+    } catch (error) {
+      console.error('Failed to notify contractor of job request:', error)
+    }
 
     // 4. Send email & SMS notifications to homeowner (non-blocking)
     try {
-      const { data: homeownerUser } = await supabase
-        .from('user_profiles')
-        .select('name, phone')
-        .eq('id', homeownerId)
-        .single()
-
       const { data: contractorProfile } = await supabase
         .from('pro_contractors')
         .select('name, business_name')
@@ -119,29 +114,34 @@ export async function POST(request: NextRequest) {
       const { data: authUser } = await supabase.auth.admin.getUserById(homeownerId)
 
       const contractorName = contractorProfile?.business_name || contractorProfile?.name || 'Contractor'
-
-      // Send email notification
-      if (authUser?.user?.email && homeownerUser) {
-        await notifyBidReceived({
-          homeownerEmail: authUser.user.email,
-          homeownerName: homeownerUser.name,
-          contractorName: contractorName,
-          jobTitle: title,
-          bidAmount: priceOffer || 0,
-          estimatedArrival: urgency === 'emergency' ? '15 minutes' : '30 minutes'
-        })
-      }
-
-      // Send SMS notification
-      if (homeownerUser?.phone) {
-        await sendBidReceivedSMS({
-          homeownerPhone: homeownerUser.phone,
-          homeownerName: homeownerUser.name,
-          contractorName: contractorName,
-          jobTitle: title,
-          bidAmount: priceOffer || 0
-        })
-      }
+      const homeownerName = homeownerUser?.name || 'there'
+
+      await dispatchNotification(supabase, {
+        userId: homeownerId,
+        event: 'bid_received',
+        jobId: job.id,
+        email: {
+          to: authUser?.user?.email,
+          send: (to) => notifyBidReceived({
+            homeownerEmail: to,
+            homeownerName,
+            contractorName: contractorName,
+            jobTitle: title,
+            bidAmount: priceOffer || 0,
+            estimatedArrival: urgency === 'emergency' ? '15 minutes' : '30 minutes'
+          })
+        },
+        sms: {
+          to: homeownerUser?.phone,
+          send: (to) => sendBidReceivedSMS({
+            homeownerPhone: to,
+            homeownerName,
+            contractorName: contractorName,
+            jobTitle: title,
+            bidAmount: priceOffer || 0
+          })
+        }
+      })
     } catch (error) {
       console.error('Failed to send bid notification:', error)
       // Don't fail the request if notification fails
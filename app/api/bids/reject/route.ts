@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { LifecycleError, transitionBid } from '../../../../lib/bidLifecycle'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/bids/reject
+ * Homeowner declines a pending bid on their job
+ * The contractor is notified by the on_bid_status_change trigger
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bidId } = await request.json()
+
+    if (!bidId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bidId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: bid, error: bidError } = await supabase
+      .from('job_bids')
+      .select('id, status, homeowner_id')
+      .eq('id', bidId)
+      .single()
+
+    if (bidError || !bid) {
+      return NextResponse.json(
+        { error: 'Bid not found' },
+        { status: 404 }
+      )
+    }
+
+    if (bid.homeowner_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the homeowner who posted this job can reject bids' },
+        { status: 403 }
+      )
+    }
+
+    const updated = await transitionBid(supabase, bid, 'rejected')
+
+    return NextResponse.json({
+      success: true,
+      bid: updated
+    })
+
+  } catch (error: any) {
+    if (error instanceof LifecycleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error in /api/bids/reject:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to reject bid' },
+      { status: 500 }
+    )
+  }
+}
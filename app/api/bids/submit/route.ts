@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { LifecycleError } from '../../../../lib/bidLifecycle'
+import { submitContractorBid } from '../../../../lib/bids'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/bids/submit
+ * Contractor submits an itemized bid on an open job
+ * Body: { jobId, lineItems: [{ kind, description, quantity, unit_price?, rate_type? }],
+ *         etaMinutes?, validForHours?, message? }
+ * The homeowner is notified by the bid insert trigger
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { jobId, lineItems, etaMinutes, validForHours, message } = await request.json()
+
+    if (!jobId || !Array.isArray(lineItems)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: jobId, lineItems' },
+        { status: 400 }
+      )
+    }
+
+    const bid = await submitContractorBid({
+      supabase,
+      contractorId: user.id,
+      jobId,
+      lineItems,
+      etaMinutes,
+      validForHours,
+      message
+    })
+
+    return NextResponse.json({
+      success: true,
+      bid
+    })
+
+  } catch (error: any) {
+    if (error instanceof LifecycleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error in /api/bids/submit:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to submit bid' },
+      { status: 500 }
+    )
+  }
+}
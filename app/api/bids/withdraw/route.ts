@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { LifecycleError } from '../../../../lib/bidLifecycle'
+import { withdrawContractorBid } from '../../../../lib/bids'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/bids/withdraw
+ * Contractor withdraws their own pending bid
+ * The homeowner is notified by the on_bid_status_change trigger
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bidId } = await request.json()
+
+    if (!bidId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bidId' },
+        { status: 400 }
+      )
+    }
+
+    const bid = await withdrawContractorBid(supabase, { bidId, contractorId: user.id })
+
+    return NextResponse.json({
+      success: true,
+      bid
+    })
+
+  } catch (error: any) {
+    if (error instanceof LifecycleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error in /api/bids/withdraw:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to withdraw bid' },
+      { status: 500 }
+    )
+  }
+}
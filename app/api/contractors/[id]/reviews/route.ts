@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { summarizeReviews } from '../../../../../lib/reviews'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/contractors/[id]/reviews
+ * Public homeowner reviews of a contractor with sub-score averages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*, job:homeowner_jobs(title, category)')
+      .eq('contractor_id', id)
+      .eq('reviewer_role', 'homeowner')
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    const reviews = data || []
+
+    // Reviewers are shown by first name only
+    const reviewerIds = [...new Set(reviews.map(r => r.reviewer_id))]
+    const { data: profiles } = reviewerIds.length
+      ? await supabase.from('user_profiles').select('id, name').in('id', reviewerIds)
+      : { data: [] }
+
+    const firstNames = new Map(
+      (profiles || []).map(p => [p.id, (p.name || '').split(' ')[0] || 'Homeowner'])
+    )
+
+    return NextResponse.json({
+      success: true,
+      summary: summarizeReviews(reviews),
+      reviews: reviews.map(r => ({
+        ...r,
+        reviewer_name: firstNames.get(r.reviewer_id) || 'Homeowner'
+      }))
+    })
+
+  } catch (error: any) {
+    console.error('List contractor reviews error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load reviews' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { hasEntitlement } from '../../../../lib/billing'
+import { getContractorAnalytics } from '../../../../lib/contractorAnalytics'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const PERIODS = [30, 90, 365]
+
+/**
+ * GET /api/contractors/analytics?days=90
+ * Returns win rate, response time and earnings for the authenticated
+ * contractor. Requires a plan with advanced analytics.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await hasEntitlement(supabase, user, 'advanced_analytics'))) {
+      return NextResponse.json(
+        { error: 'Advanced analytics are part of the Pro Plus plan' },
+        { status: 403 }
+      )
+    }
+
+    const days = Number(request.nextUrl.searchParams.get('days'))
+    const analytics = await getContractorAnalytics({
+      supabase,
+      contractorId: user.id,
+      periodDays: PERIODS.includes(days) ? days : 90
+    })
+
+    return NextResponse.json({ analytics })
+
+  } catch (error: any) {
+    console.error('Error loading contractor analytics:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load analytics' },
+      { status: 500 }
+    )
+  }
+}
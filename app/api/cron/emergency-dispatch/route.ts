@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { runDispatchTick } from '../../../../lib/emergencyDispatch'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/cron/emergency-dispatch
+ * Scheduled job: escalates emergency dispatch cascades whose acknowledgement
+ * window has closed to their next ring.
+ * Vercel Cron calls this with `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const summary = await runDispatchTick({ supabase })
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    })
+
+  } catch (error: any) {
+    console.error('Emergency dispatch error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to advance emergency dispatches' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { runEscrowAutoRelease } from '../../../../lib/escrowAutoRelease'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Initialize Stripe only if key is available
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2024-11-20.acacia'
+    })
+  : null
+
+/**
+ * GET /api/cron/escrow-auto-release
+ * Scheduled job: reminds homeowners to confirm completion and auto-releases
+ * escrow once the confirmation window has passed without a dispute.
+ * Vercel Cron calls this with `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!stripe) {
+      return NextResponse.json(
+        { error: 'Payment system not configured. Please add STRIPE_SECRET_KEY to environment variables.' },
+        { status: 503 }
+      )
+    }
+
+    const summary = await runEscrowAutoRelease({ supabase, stripe })
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    })
+
+  } catch (error: any) {
+    console.error('Escrow auto-release error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to run escrow auto-release' },
+      { status: 500 }
+    )
+  }
+}
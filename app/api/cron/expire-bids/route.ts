@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { expireStaleBids } from '../../../../lib/bids'
+import { expireMessageOffers } from '../../../../lib/messageOffers'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/cron/expire-bids
+ * Scheduled job: expires pending bids whose validity window has passed and
+ * in-chat offers past their expires_at.
+ * Vercel Cron calls this with `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const expired = await expireStaleBids(supabase)
+    const expiredOffers = await expireMessageOffers(supabase)
+
+    return NextResponse.json({
+      success: true,
+      expired,
+      expiredOffers
+    })
+
+  } catch (error: any) {
+    console.error('Expire bids error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to expire bids' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { processOutbox } from '../../../../lib/outbox'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/cron/outbox
+ * Scheduled job: delivers queued email and SMS, rescheduling failures with
+ * backoff and dead-lettering messages that ran out of attempts.
+ * Vercel Cron calls this with `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const summary = await processOutbox({ supabase })
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    })
+
+  } catch (error: any) {
+    console.error('Outbox worker error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to process outbox' },
+      { status: 500 }
+    )
+  }
+}
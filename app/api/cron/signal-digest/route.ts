@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { sendSignalDigests } from '../../../../lib/signalMatching'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/cron/signal-digest
+ * Scheduled job: emails each contractor with a daily digest subscription
+ * the signals matched for them in the last day.
+ * Vercel Cron calls this with `Authorization: Bearer ${CRON_SECRET}`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const summary = await sendSignalDigests({ supabase })
+
+    return NextResponse.json({
+      success: true,
+      ...summary
+    })
+
+  } catch (error: any) {
+    console.error('Signal digest cron error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to send signal digests' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+import { DispatchError, respondToOffer } from '../../../../../lib/emergencyDispatch'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/dispatch/offers/[id]
+ * Contractor accepts or declines an emergency offer.
+ * Body: { action: 'accept' | 'decline' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { action } = await request.json()
+
+    if (!['accept', 'decline'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action. Must be accept or decline' },
+        { status: 400 }
+      )
+    }
+
+    const result = await respondToOffer({ supabase }, {
+      offerId: id,
+      contractorId: user.id,
+      accept: action === 'accept'
+    })
+
+    return NextResponse.json({
+      success: true,
+      jobId: result.offer.job_id,
+      status: result.offer.status,
+      bidId: result.bidId
+    })
+
+  } catch (error: any) {
+    console.error('Error responding to dispatch offer:', error)
+
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to respond to offer' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/dispatch/offers
+ * The authenticated contractor's open emergency offers
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('dispatch_offers')
+      .select('*, homeowner_jobs(id, title, category, address, zip_code)')
+      .eq('contractor_id', user.id)
+      .eq('status', 'offered')
+      .gt('expires_at', new Date().toISOString())
+      .order('offered_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ offers: data || [] })
+
+  } catch (error: any) {
+    console.error('Error listing dispatch offers:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load offers' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { EscrowError } from '../../../../../lib/escrow'
+import { addDisputeEvidence } from '../../../../../lib/disputes'
+import { getRequestUser, isAdmin } from '../../../../../lib/serverAuth'
+import { VisitReportError } from '../../../../../lib/visitReport'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/disputes/[id]/evidence
+ * Attaches a photo (filePath in the dispute-evidence bucket), a message from
+ * the job conversation, a note, or a snapshot of the job's proof-of-visit
+ * report (type visit_report) to an open dispute
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { type, filePath, messageId, content } = await request.json()
+
+    if (!type) {
+      return NextResponse.json({ error: 'Missing evidence type' }, { status: 400 })
+    }
+
+    const { data: dispute, error } = await supabase
+      .from('payment_disputes')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error || !dispute) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 })
+    }
+
+    const isParty = dispute.homeowner_id === user.id || dispute.contractor_id === user.id
+
+    if (!isParty && !(await isAdmin(supabase, user))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const evidence = await addDisputeEvidence({
+      supabase,
+      dispute,
+      userId: user.id,
+      type,
+      filePath,
+      messageId,
+      content
+    })
+
+    return NextResponse.json({ success: true, evidence })
+
+  } catch (error: any) {
+    if (error instanceof EscrowError || error instanceof VisitReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Add dispute evidence error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to add evidence' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { EscrowError } from '../../../../../lib/escrow'
+import { resolveDispute } from '../../../../../lib/disputes'
+import { requireAdmin } from '../../../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Initialize Stripe only if key is available
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2024-11-20.acacia'
+    })
+  : null
+
+/**
+ * POST /api/disputes/[id]/resolve
+ * Admin-only: resolves a dispute as 'release', 'split' or 'refund'
+ * and sends the rationale to both parties
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    if (!stripe) {
+      return NextResponse.json(
+        { error: 'Payment system not configured. Please add STRIPE_SECRET_KEY to environment variables.' },
+        { status: 503 }
+      )
+    }
+
+    const { id } = await params
+    const { user } = await requireAdmin(request, supabase)
+
+    const { resolution, contractorAmount, rationale } = await request.json()
+
+    if (!resolution || !rationale?.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required fields: resolution, rationale' },
+        { status: 400 }
+      )
+    }
+
+    const { data: dispute, error } = await supabase
+      .from('payment_disputes')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error || !dispute) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 })
+    }
+
+    const resolved = await resolveDispute({
+      supabase,
+      stripe,
+      dispute,
+      adminId: user.id,
+      resolution,
+      contractorAmount: contractorAmount !== undefined ? Number(contractorAmount) : undefined,
+      rationale: rationale.trim()
+    })
+
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'dispute.resolve',
+      targetType: 'payment_dispute',
+      targetId: id,
+      details: {
+        before: { status: dispute.status },
+        after: {
+          status: resolved.status,
+          resolution: resolved.resolution,
+          contractor_amount: resolved.contractor_amount,
+          refund_amount: resolved.refund_amount
+        },
+        rationale: rationale.trim()
+      },
+      request
+    })
+
+    return NextResponse.json({ success: true, dispute: resolved })
+
+  } catch (error: any) {
+    if (error instanceof EscrowError || error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Resolve dispute error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to resolve dispute' },
+      { status: 500 }
+    )
+  }
+}
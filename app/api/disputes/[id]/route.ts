@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { signEvidenceUrls } from '../../../../lib/disputes'
+import { getRequestUser, isAdmin } from '../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/disputes/[id]
+ * Returns a dispute with its payment hold and evidence (photos as signed URLs)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: dispute, error } = await supabase
+      .from('payment_disputes')
+      .select('*, payment_hold:payment_holds(*), job:homeowner_jobs(id, title, address)')
+      .eq('id', id)
+      .single()
+
+    if (error || !dispute) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 })
+    }
+
+    const isParty = dispute.homeowner_id === user.id || dispute.contractor_id === user.id
+
+    if (!isParty && !(await isAdmin(supabase, user))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const { data: evidence } = await supabase
+      .from('dispute_evidence')
+      .select('*')
+      .eq('dispute_id', id)
+      .order('created_at', { ascending: true })
+
+    return NextResponse.json({
+      success: true,
+      dispute,
+      evidence: await signEvidenceUrls(supabase, evidence || [])
+    })
+
+  } catch (error: any) {
+    console.error('Get dispute error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load dispute' },
+      { status: 500 }
+    )
+  }
+}
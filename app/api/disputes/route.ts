@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { EscrowError } from '../../../lib/escrow'
+import { openDispute } from '../../../lib/disputes'
+import { getRequestUser, isAdmin } from '../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/disputes?status=open
+ * Admins see every dispute; other users see disputes on their own jobs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const status = request.nextUrl.searchParams.get('status')
+
+    let query = supabase
+      .from('payment_disputes')
+      .select('*, payment_hold:payment_holds(id, amount, status, refunded_amount, contractor_payout), job:homeowner_jobs(id, title)')
+      .order('created_at', { ascending: false })
+
+    if (!(await isAdmin(supabase, user))) {
+      query = query.or(`homeowner_id.eq.${user.id},contractor_id.eq.${user.id}`)
+    }
+
+    if (status === 'active') {
+      query = query.in('status', ['open', 'under_review'])
+    } else if (status) {
+      query = query.eq('status', status)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, disputes: data || [] })
+
+  } catch (error: any) {
+    console.error('List disputes error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list disputes' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/disputes
+ * Opens a dispute on a payment hold and freezes auto-release
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { paymentHoldId, reason, description } = await request.json()
+
+    if (!paymentHoldId || !reason || !description?.trim()) {
+      return NextResponse.json(
+        { error: 'Missing required fields: paymentHoldId, reason, description' },
+        { status: 400 }
+      )
+    }
+
+    const { data: paymentHold, error: holdError } = await supabase
+      .from('payment_holds')
+      .select('*')
+      .eq('id', paymentHoldId)
+      .single()
+
+    if (holdError || !paymentHold) {
+      return NextResponse.json(
+        { error: 'Payment hold not found' },
+        { status: 404 }
+      )
+    }
+
+    const dispute = await openDispute({
+      supabase,
+      hold: paymentHold,
+      userId: user.id,
+      reason,
+      description: description.trim()
+    })
+
+    return NextResponse.json({ success: true, dispute })
+
+  } catch (error: any) {
+    if (error instanceof EscrowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Open dispute error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to open dispute' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser, isAdmin } from '../../../lib/serverAuth'
+import { EmailType, captureEmails } from '../../../lib/emailService'
+import { EMAIL_PREVIEWS } from '../../../lib/emailPreviews'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/email-preview?type=bid_received&format=html&index=0
+ * Render an EmailType with sample data. Nothing is queued or sent.
+ * - Without type: lists every type and whether it has a preview
+ * - format: 'html' (default, open in a browser), 'text' (the plain-text part)
+ *   or 'json' (every email the type produces, with subjects and recipients)
+ * - index: which email to show when a type sends more than one (one per party)
+ * Open in development; in production only admins (or EMAIL_PREVIEW_ENABLED=true).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (process.env.NODE_ENV === 'production' && process.env.EMAIL_PREVIEW_ENABLED !== 'true') {
+      const user = await getRequestUser(request, supabase)
+
+      if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+      }
+
+      if (!(await isAdmin(supabase, user))) {
+        return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+      }
+    }
+
+    const params = request.nextUrl.searchParams
+    const type = params.get('type')
+
+    if (!type) {
+      return NextResponse.json({
+        success: true,
+        types: Object.entries(EMAIL_PREVIEWS).map(([name, preview]) => ({
+          type: name,
+          description: preview?.description || null,
+          available: !!preview
+        }))
+      })
+    }
+
+    if (!(type in EMAIL_PREVIEWS)) {
+      return NextResponse.json({ error: `Unknown email type "${type}"` }, { status: 400 })
+    }
+
+    const preview = EMAIL_PREVIEWS[type as EmailType]
+
+    if (!preview) {
+      return NextResponse.json({ error: `No email is sent for "${type}" yet` }, { status: 404 })
+    }
+
+    const emails = await captureEmails(preview.render)
+    const format = params.get('format') || 'html'
+
+    if (format === 'json') {
+      return NextResponse.json({ success: true, type, emails })
+    }
+
+    const email = emails[Number(params.get('index')) || 0]
+
+    if (!email) {
+      return NextResponse.json({ error: `"${type}" rendered ${emails.length} email(s)` }, { status: 404 })
+    }
+
+    return new NextResponse(format === 'text' ? email.text : email.html, {
+      headers: {
+        'Content-Type': `${format === 'text' ? 'text/plain' : 'text/html'}; charset=utf-8`,
+        'X-Email-Subject': encodeURIComponent(email.subject),
+        'X-Email-Count': String(emails.length)
+      }
+    })
+
+  } catch (error: any) {
+    console.error('Email preview error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to render email preview' },
+      { status: 500 }
+    )
+  }
+}
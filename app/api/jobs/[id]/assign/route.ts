@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { CompanyError, assignJob, getMembership } from '../../../../../lib/companies'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/jobs/[id]/assign
+ * Company owner or dispatcher sends one of their technicians to a job the
+ * company won.
+ * Body: { techId }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const membership = await getMembership(supabase, user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: 'You are not on a team' }, { status: 403 })
+    }
+
+    const { techId } = await request.json()
+
+    if (!techId) {
+      return NextResponse.json({ error: 'Missing techId' }, { status: 400 })
+    }
+
+    const job = await assignJob({ supabase, actor: membership, jobId: id, techId })
+
+    return NextResponse.json({ success: true, job })
+
+  } catch (error: any) {
+    if (error instanceof CompanyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Assign job error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to assign job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser, isAdmin } from '../../../../../lib/serverAuth'
+import { getDispatchStatus } from '../../../../../lib/emergencyDispatch'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/jobs/[id]/dispatch
+ * Live emergency dispatch status for the homeowner's track page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: job } = await supabase
+      .from('homeowner_jobs')
+      .select('id, homeowner_id')
+      .eq('id', id)
+      .single()
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (job.homeowner_id !== user.id && !(await isAdmin(supabase, user))) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      )
+    }
+
+    const status = await getDispatchStatus({ supabase }, id)
+
+    return NextResponse.json({ dispatch: null, ...status })
+
+  } catch (error: any) {
+    console.error('Error loading dispatch status:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load dispatch status' },
+      { status: 500 }
+    )
+  }
+}
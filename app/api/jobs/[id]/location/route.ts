@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+import { TrackingError, getTrackingConfig, ingestLocation } from '../../../../../lib/liveTracking'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/jobs/[id]/location
+ * The assigned contractor's device reports a GPS fix:
+ * { latitude, longitude, accuracy?, heading?, speed?, timestamp? }
+ * Returns the server-computed distance, ETA and arrival status. Fixes sent
+ * faster than the rate limit get a 429 with Retry-After.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = await request.json().catch(() => null)
+
+    const tracking = await ingestLocation({ supabase }, {
+      jobId: id,
+      contractorId: user.id,
+      input
+    })
+
+    return NextResponse.json({ success: true, tracking })
+
+  } catch (error: any) {
+    if (error instanceof TrackingError) {
+      return NextResponse.json(
+        { error: error.message },
+        {
+          status: error.status,
+          headers: error.status === 429 ? { 'Retry-After': String(getTrackingConfig().minIntervalSeconds) } : undefined
+        }
+      )
+    }
+
+    console.error('Location ingest error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to record location' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser, isAdmin } from '../../../../../lib/serverAuth'
+import { dispatchJobMatches, isEmergencyJob } from '../../../../../lib/jobMatching'
+import { DispatchError, startDispatch } from '../../../../../lib/emergencyDispatch'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/jobs/[id]/match
+ * Matches a newly posted job to contractors and alerts the best ones.
+ * Called by the homeowner right after posting; runs once per job.
+ * Emergency jobs start the dispatch cascade instead of a broadcast.
+ * Admins may pass { force: true } to re-run matching.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    const { data: job, error: jobError } = await supabase
+      .from('homeowner_jobs')
+      .select('id, homeowner_id, priority, requested_contractor_id')
+      .eq('id', id)
+      .single()
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    const admin = await isAdmin(supabase, user)
+
+    if (job.homeowner_id !== user.id && !admin) {
+      return NextResponse.json(
+        { error: 'Only the job owner can request matching' },
+        { status: 403 }
+      )
+    }
+
+    if (isEmergencyJob(job) && !job.requested_contractor_id) {
+      const dispatch = await startDispatch({ supabase }, id)
+      return NextResponse.json({ success: true, jobId: id, dispatch })
+    }
+
+    const summary = await dispatchJobMatches({
+      supabase,
+      jobId: id,
+      force: admin && body.force === true
+    })
+
+    return NextResponse.json({ success: true, ...summary })
+
+  } catch (error: any) {
+    console.error('Error matching job:', error)
+
+    if (error instanceof DispatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to match job' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+import { LifecycleError, transitionJob } from '../../../../../lib/bidLifecycle'
+import { cancelDispatch } from '../../../../../lib/emergencyDispatch'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/jobs/[id]/status
+ * Moves a job along its lifecycle:
+ * - 'cancelled' by the homeowner (pending bids expire, emergency dispatch stops),
+ *   refused while a payment is held for the job
+ * - 'completed' by the assigned contractor
+ * Starting a job happens through /api/bids/accept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { status } = await request.json()
+
+    if (!['cancelled', 'completed'].includes(status)) {
+      return NextResponse.json(
+        { error: 'Invalid status. Must be cancelled or completed' },
+        { status: 400 }
+      )
+    }
+
+    const { data: job, error: jobError } = await supabase
+      .from('homeowner_jobs')
+      .select('id, status, homeowner_id, contractor_id, assigned_tech_id')
+      .eq('id', id)
+      .single()
+
+    if (jobError || !job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (status === 'cancelled') {
+      if (job.homeowner_id !== user.id) {
+        return NextResponse.json(
+          { error: 'Only the homeowner can cancel this job' },
+          { status: 403 }
+        )
+      }
+
+      // Money held for the job has to be returned (or disputed) first
+      const { data: heldPayment } = await supabase
+        .from('payment_holds')
+        .select('id, status')
+        .eq('job_id', id)
+        .in('status', ['authorized', 'captured', 'partial_refund', 'released', 'disputed'])
+        .limit(1)
+        .maybeSingle()
+
+      if (heldPayment) {
+        return NextResponse.json(
+          { error: 'This job has a payment on hold. Request a refund or open a dispute instead of cancelling.' },
+          { status: 409 }
+        )
+      }
+
+      const updated = await transitionJob(supabase, job, 'cancelled')
+
+      await supabase
+        .from('job_bids')
+        .update({ status: 'expired', updated_at: new Date().toISOString() })
+        .eq('job_id', id)
+        .eq('status', 'pending')
+
+      await cancelDispatch({ supabase }, id)
+
+      return NextResponse.json({ success: true, job: updated })
+    }
+
+    // Jobs accepted before contractor_id was recorded fall back to the accepted bid
+    let contractorId = job.contractor_id
+
+    if (!contractorId) {
+      const { data: acceptedBid } = await supabase
+        .from('job_bids')
+        .select('contractor_id')
+        .eq('job_id', id)
+        .eq('status', 'accepted')
+        .maybeSingle()
+
+      contractorId = acceptedBid?.contractor_id
+    }
+
+    // A company tech dispatched to the job can complete it too
+    if (contractorId !== user.id && job.assigned_tech_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the assigned contractor can complete this job' },
+        { status: 403 }
+      )
+    }
+
+    const updated = await transitionJob(supabase, job, 'completed', {
+      contractor_marked_complete: true,
+      completed_date: new Date().toISOString()
+    })
+
+    return NextResponse.json({ success: true, job: updated })
+
+  } catch (error: any) {
+    if (error instanceof LifecycleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('Error in /api/jobs/[id]/status:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update job status' },
+      { status: 500 }
+    )
+  }
+}
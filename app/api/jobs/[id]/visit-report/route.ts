@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser, isAdmin } from '../../../../../lib/serverAuth'
+import { VisitReportError, getVisitReport, toGeoJSON, toGpx } from '../../../../../lib/visitReport'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/jobs/[id]/visit-report?format=json|geojson|gpx&download=1
+ * Proof-of-visit report for a job, built from location_history: timeline,
+ * time on site and the driven path. json returns { summary, points };
+ * geojson and gpx are map exports. download=1 sends the body as an attachment.
+ * Available to the homeowner, the contractor or technician on the job, and admins.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const format = searchParams.get('format') || 'json'
+
+    if (!['json', 'geojson', 'gpx'].includes(format)) {
+      return NextResponse.json({ error: 'format must be json, geojson or gpx' }, { status: 400 })
+    }
+
+    const report = await getVisitReport({
+      supabase,
+      jobId: id,
+      viewerId: user.id,
+      viewerIsAdmin: await isAdmin(supabase, user)
+    })
+
+    const headers: Record<string, string> = {}
+    if (searchParams.get('download')) {
+      const extension = format === 'json' ? 'summary.json' : format
+      headers['Content-Disposition'] = `attachment; filename="rushr-visit-${id}.${extension}"`
+    }
+
+    if (format === 'gpx') {
+      return new NextResponse(toGpx(report), {
+        headers: { ...headers, 'Content-Type': 'application/gpx+xml; charset=utf-8' }
+      })
+    }
+
+    if (format === 'geojson') {
+      return NextResponse.json(toGeoJSON(report), {
+        headers: { ...headers, 'Content-Type': 'application/geo+json' }
+      })
+    }
+
+    // The summary export leaves out the raw fixes; the page needs them for playback
+    return NextResponse.json(
+      searchParams.get('download') ? report.summary : report,
+      { headers }
+    )
+
+  } catch (error: any) {
+    if (error instanceof VisitReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Visit report error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to build visit report' },
+      { status: 500 }
+    )
+  }
+}
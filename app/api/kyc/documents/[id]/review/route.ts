@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { KycReviewError, reviewKycDocument } from '../../../../../../lib/kycReview'
+import { requireAdmin } from '../../../../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/kyc/documents/[id]/review
+ * Admin-only: approves a document, rejects it, or requests a replacement.
+ * Rejections and replacement requests need a reason, which is sent to the
+ * user with the list of documents to resubmit. Approving a license or
+ * insurance certificate needs its expiry date.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { user } = await requireAdmin(request, supabase)
+
+    const { decision, reason, expiresAt } = await request.json()
+
+    if (!decision) {
+      return NextResponse.json({ error: 'Missing required field: decision' }, { status: 400 })
+    }
+
+    const { before, document, summary } = await reviewKycDocument({
+      supabase,
+      documentId: id,
+      reviewerId: user.id,
+      decision,
+      reason,
+      expiresAt
+    })
+
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'kyc.document_review',
+      targetType: 'kyc_document',
+      targetId: id,
+      details: {
+        user_id: document.user_id,
+        document_type: document.document_type,
+        before: { status: before.status, expires_at: before.expires_at },
+        after: { status: document.status, expires_at: document.expires_at },
+        reason: document.rejection_reason,
+        kyc_status: summary.status
+      },
+      request
+    })
+
+    return NextResponse.json({ success: true, document, summary })
+
+  } catch (error: any) {
+    if (error instanceof KycReviewError || error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Review KYC document error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to review document' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser, isAdmin } from '../../../../lib/serverAuth'
+import { summarizeKyc } from '../../../../lib/kycDocuments'
+import {
+  KycReviewError,
+  findExpiringSoon,
+  getKycHistory,
+  listKycDocuments,
+  submitKycDocument
+} from '../../../../lib/kycReview'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/kyc/documents?userId=
+ * The caller's KYC documents, decision history and overall status, plus the
+ * approved documents that expire soon. Admins can pass userId to see anyone's.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId') || user.id
+
+    if (userId !== user.id && !(await isAdmin(supabase, user))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
+    }
+
+    const [documents, history] = await Promise.all([
+      listKycDocuments(supabase, userId),
+      getKycHistory(supabase, userId)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      documents,
+      history,
+      summary: summarizeKyc(documents),
+      expiringSoon: findExpiringSoon(documents, new Date())
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching KYC documents:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to fetch KYC documents' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/kyc/documents
+ * Submit a document already uploaded to the caller's folder in the
+ * kyc-documents bucket. replacesDocumentId resubmits a rejected, expired or
+ * expiring document.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { documentType, documentUrl, expiresAt, replacesDocumentId } = await request.json()
+
+    if (!documentType || !documentUrl) {
+      return NextResponse.json(
+        { error: 'Missing required fields: documentType, documentUrl' },
+        { status: 400 }
+      )
+    }
+
+    const { document, summary } = await submitKycDocument({
+      supabase,
+      userId: user.id,
+      documentType,
+      documentUrl,
+      expiresAt,
+      replacesDocumentId
+    })
+
+    return NextResponse.json({ success: true, document, summary })
+
+  } catch (error: any) {
+    if (error instanceof KycReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error submitting KYC document:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to submit KYC document' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
-import { notifyKYCRefused } from '../../../../lib/emailService'
+import { KycOverallStatus, summarizeKyc } from '../../../../lib/kycDocuments'
+import { listKycDocuments, sendKycRefusal } from '../../../../lib/kycReview'
+import { requireAdmin } from '../../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../../lib/adminRoles'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
 
+// The admin UI speaks verified/rejected/pending; pro_contractors.kyc_status
+// is a pro_kyc_status enum
+const CONTRACTOR_KYC_STATUS: Record<string, KycOverallStatus> = {
+  verified: 'completed',
+  rejected: 'failed',
+  pending: 'in_progress'
+}
+
 /**
  * POST /api/kyc/update-status
- * Updates KYC status and sends email if rejected
- * This should be called from the admin panel
+ * Admin-only: overrides the contractor's overall KYC status and sends email
+ * if rejected. Unless requestedDocuments is given, the email asks for the
+ * documents that were rejected, need replacing or are missing.
  */
 export async function POST(request: NextRequest) {
   try {
+    const { user } = await requireAdmin(request, supabase)
+
     const {
       contractorId,
       status,
@@ -29,20 +43,34 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!['verified', 'rejected', 'pending'].includes(status)) {
+    const kycStatus = CONTRACTOR_KYC_STATUS[status]
+
+    if (!kycStatus) {
       return NextResponse.json(
         { error: 'Invalid status. Must be verified, rejected, or pending' },
         { status: 400 }
       )
     }
 
+    const { data: before } = await supabase
+      .from('pro_contractors')
+      .select('kyc_status, kyc_verified')
+      .eq('id', contractorId)
+      .maybeSingle()
+
+    if (!before) {
+      return NextResponse.json({ error: 'Contractor not found' }, { status: 404 })
+    }
+
     // Update contractor KYC status
+    const now = new Date().toISOString()
     const { error: updateError } = await supabase
       .from('pro_contractors')
       .update({
-        kyc_verified: status === 'verified',
-        kyc_status: status,
-        updated_at: new Date().toISOString()
+        kyc_verified: kycStatus === 'completed',
+        kyc_status: kycStatus,
+        ...(kycStatus === 'completed' ? { kyc_completed_at: now } : {}),
+        updated_at: now
       })
       .eq('id', contractorId)
 
@@ -54,34 +82,33 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'kyc.update_status',
+      targetType: 'contractor',
+      targetId: contractorId,
+      details: {
+        before,
+        after: { kyc_status: kycStatus, kyc_verified: kycStatus === 'completed' },
+        rejectionReason: rejectionReason || null
+      },
+      request
+    })
+
     // Send email if rejected
     if (status === 'rejected') {
       try {
-        const { data: contractorAuth } = await supabase.auth.admin.getUserById(contractorId)
-        const { data: contractor } = await supabase
-          .from('pro_contractors')
-          .select('name, business_name')
-          .eq('id', contractorId)
-          .single()
-
-        if (contractorAuth?.user?.email && contractor) {
-          const caseId = `KYC-${Date.now()}`
-          const decisionDate = new Date().toLocaleDateString('en-US', {
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric'
-          })
-
-          await notifyKYCRefused({
-            contractorEmail: contractorAuth.user.email,
-            contractorName: contractor.business_name || contractor.name || 'Professional',
-            caseId: caseId,
-            decisionDate: decisionDate,
-            reasonPrimary: rejectionReason || 'Document Verification Failed',
-            reasonDetails: rejectionDetails || 'The provided documents could not be verified. Please review and resubmit.',
-            requestedDocuments: requestedDocuments || 'Valid government-issued ID, Business license (if applicable), Proof of insurance'
-          })
-        }
+        const summary = summarizeKyc(await listKycDocuments(supabase, contractorId))
+
+        await sendKycRefusal({
+          supabase,
+          userId: contractorId,
+          summary,
+          reasonPrimary: rejectionReason || 'Document Verification Failed',
+          reasonDetails: rejectionDetails || 'The provided documents could not be verified. Please review and resubmit.',
+          requestedDocuments
+        })
       } catch (emailError) {
         console.error('Failed to send KYC refusal email:', emailError)
         // Don't fail the request if email fails
@@ -95,6 +122,10 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error: any) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Error in /api/kyc/update-status:', error)
     return NextResponse.json(
       { error: 'Internal server error', details: error?.message },
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import {
+  MessageOfferError,
+  acceptMessageOffer,
+  counterMessageOffer,
+  declineMessageOffer
+} from '../../../../lib/messageOffers'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/message-offers/[id]
+ * The participant who received an in-chat offer accepts, declines or counters it.
+ * Body: { action: 'accept' | 'decline' | 'counter', price?, delivery_days?, notes?, expires_at? }
+ * Accepting returns the job and bid the homeowner pays into escrow for.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { action } = body
+
+    if (!['accept', 'decline', 'counter'].includes(action)) {
+      return NextResponse.json(
+        { error: 'Invalid action. Must be accept, decline or counter' },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'accept') {
+      const accepted = await acceptMessageOffer(supabase, { offerId: id, userId: user.id })
+
+      return NextResponse.json({
+        success: true,
+        status: 'accepted',
+        jobId: accepted.jobId,
+        bidId: accepted.bidId,
+        homeownerId: accepted.homeownerId,
+        amount: accepted.amount
+      })
+    }
+
+    if (action === 'decline') {
+      await declineMessageOffer(supabase, { offerId: id, userId: user.id })
+
+      return NextResponse.json({ success: true, status: 'declined' })
+    }
+
+    const price = Number(body.price)
+    const deliveryDays = Number(body.delivery_days)
+
+    if (!Number.isFinite(price) || price <= 0 || !Number.isInteger(deliveryDays) || deliveryDays <= 0) {
+      return NextResponse.json(
+        { error: 'A counter-offer needs a price and whole number of delivery days' },
+        { status: 400 }
+      )
+    }
+
+    const counterOfferId = await counterMessageOffer(supabase, {
+      offerId: id,
+      userId: user.id,
+      terms: {
+        price,
+        deliveryDays,
+        notes: body.notes,
+        expiresAt: body.expires_at
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      status: 'countered',
+      counterOfferId
+    })
+
+  } catch (error: any) {
+    console.error('Error responding to message offer:', error)
+
+    if (error instanceof MessageOfferError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to respond to offer' },
+      { status: 500 }
+    )
+  }
+}
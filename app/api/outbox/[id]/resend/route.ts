@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { OutboxError, resendMessage } from '../../../../../lib/outbox'
+import { requireAdmin } from '../../../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/outbox/[id]/resend
+ * Admin-only: puts a dead-lettered message back in the queue; the next
+ * worker run delivers it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { user } = await requireAdmin(request, supabase)
+
+    const message = await resendMessage({ supabase, messageId: id, adminId: user.id })
+
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'outbox.resend',
+      targetType: 'outbound_message',
+      targetId: id,
+      details: { channel: message.channel, recipient: message.recipient },
+      request
+    })
+
+    return NextResponse.json({ success: true, message })
+
+  } catch (error: any) {
+    if (error instanceof OutboxError || error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Resend outbox message error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to resend message' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { requireAdmin } from '../../../lib/serverAuth'
+import { AdminAuthError } from '../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/outbox?view=failed
+ * Admin-only: queued email and SMS. view is 'failed' (dead-lettered, the
+ * default), 'retrying' (pending after a failed attempt), 'sent' or 'all'.
+ * Also returns the number of messages in each view.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request, supabase)
+
+    const view = request.nextUrl.searchParams.get('view') || 'failed'
+
+    let query = supabase
+      .from('message_outbox')
+      .select('*')
+      .order('updated_at', { ascending: false })
+      .limit(200)
+
+    if (view === 'failed') {
+      query = query.eq('status', 'dead')
+    } else if (view === 'retrying') {
+      query = query.in('status', ['pending', 'sending']).gt('attempts', 0)
+    } else if (view === 'sent') {
+      query = query.eq('status', 'sent')
+    }
+
+    const count = (status: string[], retried = false) => {
+      let q = supabase.from('message_outbox').select('id', { count: 'exact', head: true }).in('status', status)
+      if (retried) q = q.gt('attempts', 0)
+      return q
+    }
+
+    const [{ data, error }, failed, retrying] = await Promise.all([
+      query,
+      count(['dead']),
+      count(['pending', 'sending'], true)
+    ])
+
+    if (error) throw error
+
+    return NextResponse.json({
+      success: true,
+      messages: data || [],
+      counts: { failed: failed.count || 0, retrying: retrying.count || 0 }
+    })
+
+  } catch (error: any) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('List outbox error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list outbox' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { EscrowError, refundPaymentHold } from '../../../../lib/escrow'
+import { getRequestUser, isAdmin } from '../../../../lib/serverAuth'
+import { recordAdminAction } from '../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Initialize Stripe only if key is available
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2024-11-20.acacia'
+    })
+  : null
+
+/**
+ * POST /api/payments/refund
+ * Cancels an uncaptured authorization or refunds a captured payment in full or in part
+ * Admins can refund any refundable hold that is not frozen by a dispute; homeowners can
+ * only cancel their own authorization before it is captured
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!stripe) {
+      return NextResponse.json(
+        { error: 'Payment system not configured. Please add STRIPE_SECRET_KEY to environment variables.' },
+        { status: 503 }
+      )
+    }
+
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { paymentHoldId, amount, reason } = await request.json()
+
+    if (!paymentHoldId || !reason?.trim()) {
+      return NextResponse.json(
+        { error: 'Missing paymentHoldId or reason' },
+        { status: 400 }
+      )
+    }
+
+    if (amount !== undefined && amount !== null && !(Number(amount) > 0)) {
+      return NextResponse.json(
+        { error: 'Refund amount must be a positive number' },
+        { status: 400 }
+      )
+    }
+
+    // 1. Get payment hold
+    const { data: paymentHold, error: holdError } = await supabase
+      .from('payment_holds')
+      .select('*')
+      .eq('id', paymentHoldId)
+      .single()
+
+    if (holdError || !paymentHold) {
+      return NextResponse.json(
+        { error: 'Payment hold not found' },
+        { status: 404 }
+      )
+    }
+
+    // 2. Authorize caller
+    const callerIsAdmin = await isAdmin(supabase, user)
+
+    if (!callerIsAdmin && paymentHold.homeowner_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    // 3. Issue refund
+    const result = await refundPaymentHold({
+      supabase,
+      stripe,
+      hold: paymentHold,
+      amount: amount !== undefined && amount !== null ? Number(amount) : undefined,
+      reason: reason.trim(),
+      initiatedBy: user.id,
+      initiator: callerIsAdmin ? 'admin' : 'homeowner'
+    })
+
+    if (callerIsAdmin && paymentHold.homeowner_id !== user.id) {
+      await recordAdminAction({
+        supabase,
+        actor: user,
+        action: 'payment.refund',
+        targetType: 'payment_hold',
+        targetId: paymentHold.id,
+        details: {
+          before: { status: paymentHold.status },
+          amount: amount ?? null,
+          reason: reason.trim()
+        },
+        request
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error: any) {
+    if (error instanceof EscrowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Refund payment error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to refund payment' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import Stripe from 'stripe'
+import { EscrowError, releasePaymentHold } from '../../../../lib/escrow'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -41,71 +42,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 2. Verify both parties confirmed
-    if (!paymentHold.homeowner_confirmed_complete || !paymentHold.contractor_confirmed_complete) {
-      return NextResponse.json(
-        { error: 'Both parties must confirm completion before releasing payment' },
-        { status: 400 }
-      )
-    }
-
-    if (paymentHold.status === 'released') {
-      return NextResponse.json(
-        { error: 'Payment already released' },
-        { status: 400 }
-      )
-    }
-
-    // 3. Get contractor's Stripe Connect account
-    const { data: connectAccount } = await supabase
-      .from('stripe_connect_accounts')
-      .select('stripe_account_id, payouts_enabled')
-      .eq('contractor_id', paymentHold.contractor_id)
-      .single()
-
-    if (!connectAccount || !connectAccount.payouts_enabled) {
-      return NextResponse.json(
-        { error: 'Contractor has not completed Stripe Connect onboarding' },
-        { status: 400 }
-      )
-    }
-
-    // 4. Create Stripe Transfer to contractor
-    const transfer = await stripe.transfers.create({
-      amount: Math.round(paymentHold.contractor_payout * 100), // Convert to cents
-      currency: 'usd',
-      destination: connectAccount.stripe_account_id,
-      transfer_group: paymentHold.job_id,
-      metadata: {
-        payment_hold_id: paymentHoldId,
-        job_id: paymentHold.job_id,
-        bid_id: paymentHold.bid_id
-      },
-      description: `Payment for job completion`
-    })
-
-    // 5. Update payment hold with transfer details
-    const { error: updateError } = await supabase
-      .from('payment_holds')
-      .update({
-        status: 'released',
-        stripe_transfer_id: transfer.id,
-        released_at: new Date().toISOString()
-      })
-      .eq('id', paymentHoldId)
-
-    if (updateError) {
-      throw updateError
-    }
+    // 2. Verify confirmations and transfer to contractor
+    const result = await releasePaymentHold({ supabase, stripe, hold: paymentHold })
 
     return NextResponse.json({
       success: true,
-      transferId: transfer.id,
-      amount: paymentHold.contractor_payout,
-      releasedAt: new Date().toISOString()
+      ...result
     })
 
   } catch (error: any) {
+    if (error instanceof EscrowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Release payment error:', error)
     return NextResponse.json(
       { error: error.message || 'Failed to release payment' },
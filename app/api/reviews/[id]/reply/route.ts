@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { ReviewError, replyToReview } from '../../../../../lib/reviews'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/reviews/[id]/reply
+ * The reviewed contractor posts a single public reply.
+ * Body: { reply }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { reply } = await request.json()
+
+    const review = await replyToReview({
+      supabase,
+      reviewId: id,
+      contractorId: user.id,
+      reply
+    })
+
+    return NextResponse.json({ success: true, review })
+
+  } catch (error: any) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Review reply error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to post reply' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { ReviewError, createReview, getReviewEligibility, normalizeReviewInput } from '../../../lib/reviews'
+import { getRequestUser } from '../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/reviews?jobId=...
+ * Whether the user can review the other party on a job, and the reviews
+ * already left on it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const jobId = request.nextUrl.searchParams.get('jobId')
+
+    if (!jobId) {
+      return NextResponse.json({ error: 'Missing jobId' }, { status: 400 })
+    }
+
+    const eligibility = await getReviewEligibility({ supabase, jobId, userId: user.id })
+
+    return NextResponse.json({ success: true, ...eligibility })
+
+  } catch (error: any) {
+    console.error('Review eligibility error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load reviews' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/reviews
+ * Leaves a review of the other party once the job's payment is released.
+ * Body: { jobId, rating, punctuality_rating?, quality_rating?,
+ *         communication_rating?, comment?, photos? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    if (!body.jobId) {
+      return NextResponse.json({ error: 'Missing jobId' }, { status: 400 })
+    }
+
+    const review = await createReview({
+      supabase,
+      jobId: body.jobId,
+      userId: user.id,
+      input: normalizeReviewInput(body)
+    })
+
+    return NextResponse.json({ success: true, review })
+
+  } catch (error: any) {
+    if (error instanceof ReviewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Create review error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to submit review' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { sendEmail } from '../../../lib/emailService'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -83,23 +84,17 @@ Click here to place payment: ${appUrl}/dashboard/homeowner/bids
 Questions? Contact support@userushr.com
     `
 
-    // Send via Supabase Edge Function
-    const emailResponse = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/send-email`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        to: homeownerEmail,
-        subject,
-        html,
-        text
-      })
+    // Queue in the outbox; the worker delivers via the Supabase Edge Function
+    const result = await sendEmail({
+      to: homeownerEmail,
+      subject,
+      html,
+      text,
+      idempotencyKey: bidId ? `bid-accepted-homeowner:${bidId}` : undefined
     })
 
-    if (!emailResponse.ok) {
-      console.error('[Bid Accepted Email] Failed to send:', await emailResponse.text())
+    if (!result.success) {
+      console.error('[Bid Accepted Email] Failed to queue:', result.error)
       return NextResponse.json({ error: 'Failed to send email' }, { status: 500 })
     }
 
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { sendEmail } from '../../../lib/emailService'
+import { dispatchEmailByAddress } from '../../../lib/notificationDispatcher'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -65,25 +67,20 @@ export async function POST(request: NextRequest) {
 
     const text = `New message from ${senderName}${jobTitle ? ` about "${jobTitle}"` : ''}. View at: ${appUrl}/dashboard/contractor/messages`
 
-    // Send email via Supabase Edge Function
-    const emailResponse = await fetch(`${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/send-email`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY}`,
-      },
-      body: JSON.stringify({
-        to: recipientEmail,
-        subject,
-        html,
-        text
-      }),
+    // Queue the email, per the recipient's notification settings
+    const result = await dispatchEmailByAddress(supabase, {
+      event: 'new_message',
+      email: recipientEmail,
+      send: (to) => sendEmail({ to, subject, html, text })
     })
 
-    const emailData = await emailResponse.json()
+    if (result.status === 'failed') {
+      throw new Error(result.reason || 'Failed to send email')
+    }
 
-    if (!emailResponse.ok) {
-      throw new Error(emailData.error || 'Failed to send email')
+    if (result.status === 'skipped') {
+      console.log('[Message Notification] Email skipped for', recipientEmail, '-', result.reason)
+      return NextResponse.json({ success: true, skipped: result.reason })
     }
 
     console.log('[Message Notification] Email sent to', recipientEmail)
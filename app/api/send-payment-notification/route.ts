@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { sendEmail } from '../../../lib/emailService'
+import { dispatchEmailByAddress } from '../../../lib/notificationDispatcher'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -112,58 +114,41 @@ export async function POST(request: NextRequest) {
       </div>
     `
 
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-    const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-
-    // Send email to CONTRACTOR
-    const contractorEmailResponse = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseKey}`,
-      },
-      body: JSON.stringify({
-        to: contractorEmail,
+    // Send email to CONTRACTOR, per their notification settings
+    const contractorResult = await dispatchEmailByAddress(supabase, {
+      event: 'payment_completed',
+      email: contractorEmail,
+      jobId,
+      send: (to) => sendEmail({
+        to,
         subject: contractorSubject,
         html: contractorHtml,
-        text: `Payment Received: $${amount} from ${homeownerName || 'Homeowner'} for ${jobTitle || 'your job'}. View at: ${appUrl}/dashboard/contractor`
-      }),
+        text: `Payment Received: $${amount} from ${homeownerName || 'Homeowner'} for ${jobTitle || 'your job'}. View at: ${appUrl}/dashboard/contractor`,
+        idempotencyKey: jobId ? `payment-notification:${jobId}:contractor` : undefined
+      })
     })
-
-    const contractorEmailData = await contractorEmailResponse.json()
-    if (!contractorEmailResponse.ok) {
-      console.error('[Payment Notification] Contractor email failed:', contractorEmailData.error)
-    } else {
-      console.log('[Payment Notification] Contractor email sent to', contractorEmail)
-    }
-
-    // Send email to HOMEOWNER
-    const homeownerEmailResponse = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseKey}`,
-      },
-      body: JSON.stringify({
-        to: homeownerEmail,
+    console.log('[Payment Notification] Contractor email', contractorResult.status, contractorResult.reason || '')
+
+    // Send email to HOMEOWNER, per their notification settings
+    const homeownerResult = await dispatchEmailByAddress(supabase, {
+      event: 'payment_completed',
+      email: homeownerEmail,
+      jobId,
+      send: (to) => sendEmail({
+        to,
         subject: homeownerSubject,
         html: homeownerHtml,
-        text: `Payment Confirmed: $${amount} paid to ${contractorName || 'contractor'} for ${jobTitle || 'job'}. View at: ${appUrl}/dashboard/homeowner`
-      }),
+        text: `Payment Confirmed: $${amount} paid to ${contractorName || 'contractor'} for ${jobTitle || 'job'}. View at: ${appUrl}/dashboard/homeowner`,
+        idempotencyKey: jobId ? `payment-notification:${jobId}:homeowner` : undefined
+      })
     })
-
-    const homeownerEmailData = await homeownerEmailResponse.json()
-    if (!homeownerEmailResponse.ok) {
-      console.error('[Payment Notification] Homeowner email failed:', homeownerEmailData.error)
-    } else {
-      console.log('[Payment Notification] Homeowner email sent to', homeownerEmail)
-    }
+    console.log('[Payment Notification] Homeowner email', homeownerResult.status, homeownerResult.reason || '')
 
     return NextResponse.json({
       success: true,
       message: 'Payment notifications sent successfully',
-      contractorEmailSent: contractorEmailResponse.ok,
-      homeownerEmailSent: homeownerEmailResponse.ok
+      contractorEmailSent: ['queued', 'sent'].includes(contractorResult.status),
+      homeownerEmailSent: ['queued', 'sent'].includes(homeownerResult.status)
     })
 
   } catch (error: any) {
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../lib/serverAuth'
+import {
+  ServiceAreaError,
+  explicitZips,
+  getServiceArea,
+  mergeServiceArea,
+  normalizeServiceAreaInput,
+  saveServiceArea
+} from '../../../lib/serviceArea'
+import { ZctaDatasetError, resolveCoverage } from '../../../lib/zcta'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/service-area
+ * Returns the authenticated contractor's service area
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const serviceArea = await getServiceArea(supabase, user.id)
+
+    if (!serviceArea) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ serviceArea })
+
+  } catch (error: any) {
+    console.error('Error loading service area:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load service area' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/service-area
+ * Updates the contractor's service area and re-resolves its coverage ZIPs.
+ * Body (all optional): { baseZip, zips, radiusMiles, polygons, travelFee }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // 1. Validate the update and merge it onto the stored area
+    const input = normalizeServiceAreaInput(await request.json())
+    const current = await getServiceArea(supabase, user.id)
+
+    if (!current) {
+      return NextResponse.json({ error: 'Contractor profile not found' }, { status: 404 })
+    }
+
+    const area = mergeServiceArea(current, input)
+
+    // 2. Resolve radius and polygons to ZIPs. Without the ZCTA dataset the
+    //    explicit ZIPs are stored and the radius is still matched by distance.
+    let coverageZips = explicitZips(area)
+    let resolvedAt: string | null = null
+    let warning: string | undefined
+
+    try {
+      const resolved = await resolveCoverage(area)
+      coverageZips = resolved.coverageZips
+      resolvedAt = new Date().toISOString()
+
+      if (resolved.center && (area.latitude == null || area.longitude == null)) {
+        area.longitude = resolved.center[0]
+        area.latitude = resolved.center[1]
+      }
+    } catch (error) {
+      if (!(error instanceof ZctaDatasetError)) throw error
+      console.warn('[SERVICE-AREA]', error.message)
+      warning = 'Coverage map data is unavailable; only your listed ZIP codes were saved as coverage.'
+    }
+
+    // 3. Save
+    const serviceArea = await saveServiceArea(supabase, user.id, area, { coverageZips, resolvedAt })
+
+    return NextResponse.json({ serviceArea, ...(warning ? { warning } : {}) })
+
+  } catch (error: any) {
+    console.error('Error saving service area:', error)
+
+    if (error instanceof ServiceAreaError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to save service area' },
+      { status: 500 }
+    )
+  }
+}
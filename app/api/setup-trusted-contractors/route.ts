@@ -1,8 +1,21 @@
 import { NextRequest } from 'next/server'
-import { supabase } from '../../../lib/supabaseClient'
+import { createClient } from '@supabase/supabase-js'
+import { requireAdmin } from '../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../lib/adminRoles'
 
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/setup-trusted-contractors
+ * Super-admin only: creates the trusted_contractors table, policies and view
+ */
 export async function POST(request: NextRequest) {
   try {
+    const { user } = await requireAdmin(request, supabase, 'super_admin')
+
     // Create trusted_contractors table
     const createTableQuery = `
       CREATE TABLE IF NOT EXISTS trusted_contractors (
@@ -104,12 +117,25 @@ export async function POST(request: NextRequest) {
     await supabase.rpc('exec', { sql: createPoliciesQuery })
     await supabase.rpc('exec', { sql: createViewQuery })
 
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'schema.setup_trusted_contractors',
+      targetType: 'table',
+      targetId: 'trusted_contractors',
+      request
+    })
+
     return Response.json({
       success: true,
       message: 'Trusted contractors system created successfully!'
     })
 
   } catch (error) {
+    if (error instanceof AdminAuthError) {
+      return Response.json({ success: false, error: error.message }, { status: error.status })
+    }
+
     console.error('Error setting up trusted contractors:', error)
     return Response.json({
       success: false,
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+import { SignalMatchError, recordSignalEngagement } from '../../../../../lib/signalMatching'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/signals/[id]/engagement
+ * Records that the contractor opened a matched signal or converted it.
+ * Body: { action: 'opened' | 'acted_on' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { action } = await request.json()
+
+    const result = await recordSignalEngagement({
+      supabase,
+      contractorId: user.id,
+      signalId: id,
+      action
+    })
+
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error: any) {
+    if (error instanceof SignalMatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error recording signal engagement:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to record signal engagement' },
+      { status: 500 }
+    )
+  }
+}
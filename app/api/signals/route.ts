@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../lib/serverAuth'
+import { listSignalMatches } from '../../../lib/signalMatching'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/signals
+ * Returns the signals matched to the authenticated contractor, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const matches = await listSignalMatches(supabase, user.id)
+
+    return NextResponse.json({ matches })
+
+  } catch (error: any) {
+    console.error('Error loading signal matches:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load signals' },
+      { status: 500 }
+    )
+  }
+}
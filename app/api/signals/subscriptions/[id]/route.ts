@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+import {
+  SignalMatchError,
+  deleteSignalSubscription,
+  requireSignalsPlan,
+  saveSignalSubscription
+} from '../../../../../lib/signalMatching'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * PUT /api/signals/subscriptions/[id]
+ * Updates one of the contractor's signal subscriptions. Plans with Signals
+ * only.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await requireSignalsPlan(supabase, user.id)
+
+    const subscription = await saveSignalSubscription({
+      supabase,
+      contractorId: user.id,
+      subscriptionId: id,
+      input: await request.json()
+    })
+
+    return NextResponse.json({ subscription })
+
+  } catch (error: any) {
+    if (error instanceof SignalMatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating signal subscription:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update signal subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/signals/subscriptions/[id]
+ * Deletes one of the contractor's signal subscriptions. Allowed after the
+ * plan lapses so contractors can clean up.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await deleteSignalSubscription(supabase, user.id, id)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error: any) {
+    if (error instanceof SignalMatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error deleting signal subscription:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to delete signal subscription' },
+      { status: 500 }
+    )
+  }
+}
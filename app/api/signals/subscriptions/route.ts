@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { hasEntitlement } from '../../../../lib/billing'
+import {
+  SignalMatchError,
+  listSignalSubscriptions,
+  requireSignalsPlan,
+  saveSignalSubscription
+} from '../../../../lib/signalMatching'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/signals/subscriptions
+ * Returns the contractor's signal subscriptions and whether their plan
+ * includes Signals
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hasPlan = await hasEntitlement(supabase, user, 'signals')
+
+    const subscriptions = await listSignalSubscriptions(supabase, user.id)
+
+    return NextResponse.json({ hasPlan, subscriptions })
+
+  } catch (error: any) {
+    console.error('Error loading signal subscriptions:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load signal subscriptions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/signals/subscriptions
+ * Creates a signal subscription. Plans with Signals only.
+ * Body: the subscription fields (see SignalSubscriptionInput)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    await requireSignalsPlan(supabase, user.id)
+
+    const subscription = await saveSignalSubscription({
+      supabase,
+      contractorId: user.id,
+      input: await request.json()
+    })
+
+    return NextResponse.json({ subscription })
+
+  } catch (error: any) {
+    if (error instanceof SignalMatchError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error creating signal subscription:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create signal subscription' },
+      { status: 500 }
+    )
+  }
+}
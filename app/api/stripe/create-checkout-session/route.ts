@@ -1,13 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
 import Stripe from 'stripe'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { BillingError, createSubscriptionCheckout } from '../../../../lib/billing'
+import { isBillingInterval, isPaidPlan } from '../../../../lib/billingPlans'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-09-30.clover'
 })
 
+/**
+ * POST /api/stripe/create-checkout-session
+ * Creates a Stripe Checkout session.
+ * Job payment body: { job_id, amount, description, type, customer_email }
+ * Subscription body: { mode: 'subscription', plan: 'pro' | 'signals', interval: 'month' | 'year' }
+ * (signed in)
+ */
 export async function POST(request: NextRequest) {
   try {
-    const { job_id, amount, description, type, customer_email } = await request.json()
+    const body = await request.json()
+
+    if (body.mode === 'subscription') {
+      return await createSubscriptionSession(request, body)
+    }
+
+    const { job_id, amount, description, type, customer_email } = body
 
     if (!job_id || !amount) {
       return NextResponse.json(
@@ -48,6 +70,10 @@ export async function POST(request: NextRequest) {
       url: session.url
     })
   } catch (error: any) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Stripe checkout session error:', error)
     return NextResponse.json(
       { error: error.message || 'Failed to create checkout session' },
@@ -55,3 +81,34 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+interface SubscriptionSessionBody {
+  mode: 'subscription'
+  plan?: unknown
+  interval?: unknown
+}
+
+async function createSubscriptionSession(request: NextRequest, body: SubscriptionSessionBody) {
+  const user = await getRequestUser(request, supabase)
+
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  if (!isPaidPlan(body.plan) || !isBillingInterval(body.interval)) {
+    return NextResponse.json(
+      { error: "plan must be 'pro' or 'signals' and interval 'month' or 'year'" },
+      { status: 400 }
+    )
+  }
+
+  const session = await createSubscriptionCheckout({
+    supabase,
+    stripe,
+    user,
+    plan: body.plan,
+    interval: body.interval
+  })
+
+  return NextResponse.json(session)
+}
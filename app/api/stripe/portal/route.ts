@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { BillingError, createBillingPortalSession } from '../../../../lib/billing'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-09-30.clover'
+})
+
+/**
+ * POST /api/stripe/portal
+ * Opens the Stripe customer portal, where subscribers update their card,
+ * download invoices and cancel
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { url } = await createBillingPortalSession({ supabase, stripe, userId: user.id })
+
+    return NextResponse.json({ url })
+
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error opening billing portal:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to open billing portal' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+import { BillingError, previewPlanChange } from '../../../../../lib/billing'
+import { isBillingInterval, isPaidPlan } from '../../../../../lib/billingPlans'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-09-30.clover'
+})
+
+/**
+ * POST /api/stripe/subscription/preview
+ * Returns what switching to another plan or interval would cost today
+ * Body: { plan: 'pro' | 'signals', interval: 'month' | 'year' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { plan, interval } = await request.json()
+
+    if (!isPaidPlan(plan) || !isBillingInterval(interval)) {
+      return NextResponse.json(
+        { error: "plan must be 'pro' or 'signals' and interval 'month' or 'year'" },
+        { status: 400 }
+      )
+    }
+
+    const preview = await previewPlanChange({
+      supabase,
+      stripe,
+      userId: user.id,
+      plan,
+      interval
+    })
+
+    return NextResponse.json(preview)
+
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error previewing plan change:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to preview plan change' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { getRequestUser } from '../../../../lib/serverAuth'
+import { BillingError, changeSubscriptionPlan, getBillingSubscription } from '../../../../lib/billing'
+import { entitlementsFor, graceEndsAt, isBillingInterval, isPaidPlan } from '../../../../lib/billingPlans'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-09-30.clover'
+})
+
+/**
+ * GET /api/stripe/subscription
+ * Returns the user's subscription, the features it unlocks and, while a
+ * renewal is failing, when those features switch off
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const subscription = await getBillingSubscription(supabase, user.id)
+
+    return NextResponse.json({
+      subscription,
+      entitlements: entitlementsFor(subscription),
+      graceEndsAt: subscription ? graceEndsAt(subscription)?.toISOString() || null : null
+    })
+
+  } catch (error: any) {
+    console.error('Error loading subscription:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load subscription' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/stripe/subscription
+ * Switches the user's subscription to another plan or interval, charging or
+ * crediting the prorated difference now.
+ * Body: { plan: 'pro' | 'signals', interval: 'month' | 'year' }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { plan, interval } = await request.json()
+
+    if (!isPaidPlan(plan) || !isBillingInterval(interval)) {
+      return NextResponse.json(
+        { error: "plan must be 'pro' or 'signals' and interval 'month' or 'year'" },
+        { status: 400 }
+      )
+    }
+
+    const subscription = await changeSubscriptionPlan({
+      supabase,
+      stripe,
+      userId: user.id,
+      plan,
+      interval
+    })
+
+    return NextResponse.json({ subscription, entitlements: entitlementsFor(subscription) })
+
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    // Stripe refuses the switch when the prorated charge fails
+    if (error instanceof Stripe.errors.StripeCardError) {
+      return NextResponse.json({ error: error.message }, { status: 402 })
+    }
+
+    console.error('Error changing subscription plan:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to change plan' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import Stripe from 'stripe'
+import { processStripeEvent } from '../../../../lib/stripeWebhook'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+// Initialize Stripe only if key is available
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2024-11-20.acacia'
+    })
+  : null
+
+/**
+ * POST /api/stripe/webhook
+ * Receives signature-verified Stripe events and applies them to escrow and
+ * subscription state
+ * Returns 500 when an event fails to apply so Stripe retries the delivery
+ */
+export async function POST(request: NextRequest) {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET
+
+  if (!stripe || !webhookSecret) {
+    return NextResponse.json(
+      { error: 'Webhook not configured. Please add STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET to environment variables.' },
+      { status: 503 }
+    )
+  }
+
+  const signature = request.headers.get('stripe-signature')
+
+  if (!signature) {
+    return NextResponse.json(
+      { error: 'Missing stripe-signature header' },
+      { status: 400 }
+    )
+  }
+
+  // Signature is computed over the raw body, so it must not be parsed first
+  const rawBody = await request.text()
+
+  let event: Stripe.Event
+  try {
+    event = stripe.webhooks.constructEvent(rawBody, signature, webhookSecret)
+  } catch (error: any) {
+    console.error('Stripe webhook signature verification failed:', error.message)
+    return NextResponse.json(
+      { error: 'Invalid signature' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const result = await processStripeEvent(supabase, event)
+
+    if (result.status === 'failed') {
+      return NextResponse.json(
+        { error: result.error || 'Failed to process event', eventId: event.id },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      received: true,
+      eventId: event.id,
+      status: result.status
+    })
+
+  } catch (error: any) {
+    console.error('Stripe webhook error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to process webhook' },
+      { status: 500 }
+    )
+  }
+}
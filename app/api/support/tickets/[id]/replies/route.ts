@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { SupportError } from '../../../../../../lib/supportTickets'
+import { replyToTicket } from '../../../../../../lib/supportDesk'
+import { getRequestUser, isAdmin } from '../../../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/support/tickets/[id]/replies
+ * Adds a reply to the ticket's thread and emails the other side.
+ * Admins answer as support unless they own the ticket.
+ * Body: { body, resolve? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const { body, resolve } = await request.json()
+
+    const { data: ticket } = await supabase
+      .from('support_tickets')
+      .select('user_id')
+      .eq('id', id)
+      .maybeSingle()
+
+    const asAdmin = ticket?.user_id !== user.id && (await isAdmin(supabase, user))
+
+    const result = await replyToTicket({
+      supabase,
+      ticketId: id,
+      authorId: user.id,
+      role: asAdmin ? 'admin' : 'user',
+      body,
+      resolve: asAdmin && !!resolve
+    })
+
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error: any) {
+    if (error instanceof SupportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Support reply error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to send reply' },
+      { status: 500 }
+    )
+  }
+}
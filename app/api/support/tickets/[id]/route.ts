@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { SupportError } from '../../../../../lib/supportTickets'
+import { getTicket, updateTicket } from '../../../../../lib/supportDesk'
+import { getRequestUser, isAdmin, requireAdmin } from '../../../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../../../lib/adminRoles'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/support/tickets/[id]
+ * A ticket and its reply thread, for its owner or an admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const result = await getTicket({
+      supabase,
+      ticketId: id,
+      userId: user.id,
+      admin: await isAdmin(supabase, user)
+    })
+
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error: any) {
+    if (error instanceof SupportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Get support ticket error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load support ticket' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/support/tickets/[id]
+ * Admin triage.
+ * Body: { status?, priority?, category?, assignedAdminId? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user } = await requireAdmin(request, supabase)
+
+    const { id } = await params
+    const { status, priority, category, assignedAdminId } = await request.json()
+
+    const ticket = await updateTicket({
+      supabase,
+      ticketId: id,
+      update: { status, priority, category, assignedAdminId }
+    })
+
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'support_ticket.update',
+      targetType: 'support_ticket',
+      targetId: id,
+      details: { after: { status, priority, category, assignedAdminId } },
+      request
+    })
+
+    return NextResponse.json({ success: true, ticket })
+
+  } catch (error: any) {
+    if (error instanceof SupportError || error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Update support ticket error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update support ticket' },
+      { status: 500 }
+    )
+  }
+}
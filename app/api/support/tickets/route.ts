@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { SupportError, normalizeTicketInput } from '../../../../lib/supportTickets'
+import { listSupportAdmins, openTicket } from '../../../../lib/supportDesk'
+import { getRequestUser, isAdmin } from '../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/support/tickets?scope=all&status=new&assigned=me
+ * The user's own tickets; with scope=all, admins see every ticket along
+ * with the admins tickets can be assigned to
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const allTickets = searchParams.get('scope') === 'all'
+
+    if (allTickets && !(await isAdmin(supabase, user))) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    let query = supabase
+      .from('support_tickets')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (!allTickets) {
+      query = query.eq('user_id', user.id)
+    }
+
+    const status = searchParams.get('status')
+    if (status === 'active') {
+      query = query.neq('status', 'resolved')
+    } else if (status) {
+      query = query.eq('status', status)
+    }
+
+    const assigned = searchParams.get('assigned')
+    if (assigned === 'me') {
+      query = query.eq('assigned_admin_id', user.id)
+    } else if (assigned === 'none') {
+      query = query.is('assigned_admin_id', null)
+    }
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({
+      success: true,
+      tickets: data || [],
+      ...(allTickets ? { admins: await listSupportAdmins(supabase) } : {})
+    })
+
+  } catch (error: any) {
+    console.error('List support tickets error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to list support tickets' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/support/tickets
+ * Opens a ticket and emails the user a confirmation.
+ * Body: { subject, message, category, priority, jobId?, paymentHoldId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const ticket = await openTicket({
+      supabase,
+      userId: user.id,
+      userEmail: user.email,
+      input: normalizeTicketInput(await request.json())
+    })
+
+    return NextResponse.json({ success: true, ticket })
+
+  } catch (error: any) {
+    if (error instanceof SupportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Open support ticket error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to open support ticket' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { CompanyError, getMembership, respondToInvite, revokeInvite } from '../../../../../lib/companies'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/teams/invites/[id]
+ * The invited contractor accepts or declines a team invite.
+ * Body: { action: 'accept' | 'decline' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { action } = await request.json()
+
+    if (action !== 'accept' && action !== 'decline') {
+      return NextResponse.json(
+        { error: 'Invalid action. Must be accept or decline' },
+        { status: 400 }
+      )
+    }
+
+    const membership = await respondToInvite({
+      supabase,
+      userId: user.id,
+      inviteId: id,
+      accept: action === 'accept'
+    })
+
+    return NextResponse.json({ success: true, membership })
+
+  } catch (error: any) {
+    if (error instanceof CompanyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Respond to team invite error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to respond to invite' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/teams/invites/[id]
+ * Owner withdraws a pending invite
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const membership = await getMembership(supabase, user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: 'You are not on a team' }, { status: 403 })
+    }
+
+    await revokeInvite({ supabase, actor: membership, inviteId: id })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error: any) {
+    if (error instanceof CompanyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Withdraw team invite error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to withdraw invite' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { CompanyError, getMembership, removeMember, updateMemberRole } from '../../../../../lib/companies'
+import { getRequestUser } from '../../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * PATCH /api/teams/members/[id]
+ * Owner changes a member's role.
+ * Body: { role: 'dispatcher' | 'tech' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const membership = await getMembership(supabase, user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: 'You are not on a team' }, { status: 403 })
+    }
+
+    const { role } = await request.json()
+
+    const member = await updateMemberRole({ supabase, actor: membership, memberId: id, role })
+
+    return NextResponse.json({ success: true, member })
+
+  } catch (error: any) {
+    if (error instanceof CompanyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Update team member error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to update member' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/teams/members/[id]
+ * Owner removes a member, or a member leaves the company
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const membership = await getMembership(supabase, user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: 'You are not on a team' }, { status: 403 })
+    }
+
+    await removeMember({ supabase, actor: membership, memberId: id })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error: any) {
+    if (error instanceof CompanyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Remove team member error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to remove member' },
+      { status: 500 }
+    )
+  }
+}
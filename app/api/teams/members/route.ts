@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { CompanyError, getMembership, inviteMember } from '../../../../lib/companies'
+import { getRequestUser } from '../../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/teams/members
+ * Owner invites an existing contractor account to the company; they join
+ * once they accept through /api/teams/invites/[id].
+ * Body: { email, role: 'dispatcher' | 'tech' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const membership = await getMembership(supabase, user.id)
+
+    if (!membership) {
+      return NextResponse.json({ error: 'You are not on a team' }, { status: 403 })
+    }
+
+    const { email, role } = await request.json()
+
+    const invite = await inviteMember({ supabase, actor: membership, email, role })
+
+    return NextResponse.json({ success: true, invite })
+
+  } catch (error: any) {
+    if (error instanceof CompanyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Invite team member error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to invite member' },
+      { status: 500 }
+    )
+  }
+}
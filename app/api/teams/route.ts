@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { CompanyError, createCompany, getMembership, listInvites, loadCrewBoard } from '../../../lib/companies'
+import { getRequestUser } from '../../../lib/serverAuth'
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * GET /api/teams
+ * The caller's company crew board: roster with live status and crew jobs,
+ * plus the team invites waiting on the caller.
+ * Returns { board: null } when the caller is not on a team.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [membership, invites] = await Promise.all([
+      getMembership(supabase, user.id),
+      listInvites(supabase, user.id)
+    ])
+
+    if (!membership) {
+      return NextResponse.json({ success: true, board: null, invites })
+    }
+
+    const board = await loadCrewBoard(supabase, membership)
+
+    return NextResponse.json({ success: true, board, invites })
+
+  } catch (error: any) {
+    console.error('Load crew board error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to load team' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/teams
+ * Creates a company owned by the caller.
+ * Body: { name }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request, supabase)
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { name } = await request.json()
+
+    const membership = await createCompany({ supabase, ownerId: user.id, name })
+
+    return NextResponse.json({ success: true, ...membership })
+
+  } catch (error: any) {
+    if (error instanceof CompanyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Create company error:', error)
+    return NextResponse.json(
+      { error: error.message || 'Failed to create company' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
 import { notifyBidReceived, notifyPaymentCompleted } from '../../../lib/emailService'
+import { requireAdmin } from '../../../lib/serverAuth'
+import { AdminAuthError, recordAdminAction } from '../../../lib/adminRoles'
 
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+)
+
+/**
+ * POST /api/test-email
+ * Admin-only: sends a sample bid or payment email to testEmail
+ */
 export async function POST(request: NextRequest) {
   try {
+    const { user } = await requireAdmin(request, supabase)
+
     const body = await request.json()
     const { testEmail, type = 'bid' } = body
 
@@ -37,6 +51,20 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    if (!result) {
+      return NextResponse.json({ error: 'type must be bid or payment' }, { status: 400 })
+    }
+
+    await recordAdminAction({
+      supabase,
+      actor: user,
+      action: 'email.test_send',
+      targetType: 'email',
+      targetId: testEmail,
+      details: { type, success: result.success },
+      request
+    })
+
     if (result.success) {
       return NextResponse.json({
         success: true,
@@ -50,6 +78,10 @@ export async function POST(request: NextRequest) {
       )
     }
   } catch (error: any) {
+    if (error instanceof AdminAuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Test email error:', error)
     return NextResponse.json(
       { error: error.message || 'Internal server error' },
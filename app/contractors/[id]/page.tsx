@@ -7,6 +7,8 @@ import { supabase } from '../../../lib/supabaseClient'
 import { useAuth } from '../../../contexts/AuthContext'
 import OfferJobModal from '../../../components/OfferJobModal'
 import { openAuth } from '../../../components/AuthModal'
+import ReviewCard, { Stars } from '../../../components/ReviewCard'
+import { REVIEW_SUB_SCORES, Review, ReviewSubScore, ReviewSummary } from '../../../lib/reviews'
 import {
   MapPin,
   Star,
@@ -47,6 +49,8 @@ interface ContractorProfile {
   avatar_url?: string
 }
 
+type ContractorReview = Review & { reviewer_name: string }
+
 export default function ContractorProfilePage() {
   const params = useParams()
   const router = useRouter()
@@ -57,6 +61,8 @@ export default function ContractorProfilePage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showOfferModal, setShowOfferModal] = useState(false)
+  const [reviews, setReviews] = useState<ContractorReview[]>([])
+  const [reviewSummary, setReviewSummary] = useState<ReviewSummary | null>(null)
 
   useEffect(() => {
     const loadContractorProfile = async () => {
@@ -109,8 +115,21 @@ export default function ContractorProfilePage() {
       }
     }
 
+    const loadReviews = async () => {
+      try {
+        const response = await fetch(`/api/contractors/${contractorId}/reviews`)
+        if (!response.ok) return
+        const result = await response.json()
+        setReviews(result.reviews)
+        setReviewSummary(result.summary)
+      } catch (err) {
+        console.error('Error loading reviews:', err)
+      }
+    }
+
     if (contractorId) {
       loadContractorProfile()
+      loadReviews()
     }
   }, [contractorId])
 
@@ -155,8 +174,9 @@ export default function ContractorProfilePage() {
     )
   }
 
-  const displayRating = contractor.rating || 0
-  const displayReviews = contractor.total_reviews || 0
+  const displayRating = reviewSummary?.count ? reviewSummary.average : contractor.rating || 0
+  const displayReviews = reviewSummary?.count ?? contractor.total_reviews ?? 0
+  const isOwnProfile = user?.id === contractor.id
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
@@ -327,7 +347,7 @@ export default function ContractorProfilePage() {
 
         {/* Service Area */}
         {contractor.service_area_zips && contractor.service_area_zips.length > 0 && (
-          <div className="bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700">
+          <div className="bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700 mb-6">
             <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-100 mb-4 flex items-center gap-2">
               <MapPin className="h-5 w-5" />
               Service Area
@@ -341,6 +361,56 @@ export default function ContractorProfilePage() {
             </div>
           </div>
         )}
+
+        {/* Reviews */}
+        <div className="bg-white dark:bg-slate-800 rounded-xl p-6 border border-slate-200 dark:border-slate-700">
+          <h2 className="text-xl font-semibold text-slate-900 dark:text-slate-100 mb-4 flex items-center gap-2">
+            <Star className="h-5 w-5" />
+            Reviews
+          </h2>
+          {reviewSummary && reviewSummary.count > 0 ? (
+            <>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-6 pb-4 border-b border-slate-200 dark:border-slate-700">
+                <div className="flex items-center gap-3">
+                  <span className="text-4xl font-bold text-slate-900 dark:text-slate-100">
+                    {reviewSummary.average.toFixed(1)}
+                  </span>
+                  <div>
+                    <Stars value={reviewSummary.average} size="h-5 w-5" />
+                    <span className="text-sm text-slate-500 dark:text-slate-400">
+                      {reviewSummary.count} {reviewSummary.count === 1 ? 'review' : 'reviews'}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {(Object.keys(REVIEW_SUB_SCORES) as ReviewSubScore[]).map(key => reviewSummary.subScores[key] != null && (
+                    <div key={key} className="text-slate-600 dark:text-slate-400">
+                      {REVIEW_SUB_SCORES[key]}{' '}
+                      <span className="font-semibold text-slate-900 dark:text-slate-100">
+                        {reviewSummary.subScores[key]!.toFixed(1)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div className="divide-y divide-slate-200 dark:divide-slate-700">
+                {reviews.map(review => (
+                  <ReviewCard
+                    key={review.id}
+                    review={review}
+                    reviewerName={review.reviewer_name}
+                    canReply={isOwnProfile}
+                    onReplied={updated => setReviews(prev =>
+                      prev.map(r => r.id === updated.id ? { ...r, ...updated } : r)
+                    )}
+                  />
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-slate-600 dark:text-slate-400">No reviews yet.</p>
+          )}
+        </div>
       </div>
 
       {/* Offer Job Modal */}
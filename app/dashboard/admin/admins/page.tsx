@@ -0,0 +1,282 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../../../../lib/supabaseClient'
+import LoadingSpinner from '../../../../components/LoadingSpinner'
+import { ADMIN_ROLE_LABELS } from '../../../../lib/adminRoles'
+import type { AdminAuditEntry, AdminListEntry, AdminRole } from '../../../../lib/adminRoles'
+import { History, Shield, ShieldCheck, UserMinus, UserPlus } from 'lucide-react'
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('No session token available. Please log in again.')
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  }
+}
+
+export default function AdminRolesPage() {
+  const [admins, setAdmins] = useState<AdminListEntry[]>([])
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([])
+  const [me, setMe] = useState<{ id: string; role: AdminRole } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<AdminRole>('admin')
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [actionFilter, setActionFilter] = useState('')
+
+  const fetchAdmins = async () => {
+    try {
+      const response = await fetch('/api/admin/roles', { headers: await authHeaders() })
+      const result = await response.json()
+
+      if (!result.success) throw new Error(result.error)
+
+      setAdmins(result.admins)
+      setMe(result.me)
+    } catch (error) {
+      console.error('Error fetching admins:', error)
+    }
+  }
+
+  const fetchAuditLog = async () => {
+    try {
+      const query = actionFilter ? `?action=${encodeURIComponent(actionFilter)}` : ''
+      const response = await fetch(`/api/admin/audit-log${query}`, { headers: await authHeaders() })
+      const result = await response.json()
+
+      if (!result.success) throw new Error(result.error)
+
+      setEntries(result.entries)
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+    }
+  }
+
+  useEffect(() => {
+    Promise.all([fetchAdmins(), fetchAuditLog()]).finally(() => setLoading(false))
+  }, [])
+
+  useEffect(() => {
+    if (!loading) fetchAuditLog()
+  }, [actionFilter])
+
+  const canManage = me?.role === 'super_admin'
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/roles', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ email: email.trim(), role, note: note.trim() || undefined })
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to grant role')
+      }
+
+      setEmail('')
+      setNote('')
+      await Promise.all([fetchAdmins(), fetchAuditLog()])
+    } catch (error: any) {
+      alert(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (admin: AdminListEntry) => {
+    if (!confirm(`Revoke admin access for ${admin.email || admin.name || admin.user_id}?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/admin/roles/${admin.user_id}`, {
+        method: 'DELETE',
+        headers: await authHeaders(),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke role')
+      }
+
+      await Promise.all([fetchAdmins(), fetchAuditLog()])
+    } catch (error: any) {
+      alert(error.message)
+    }
+  }
+
+  const actorLabel = (entry: AdminAuditEntry) => {
+    const admin = admins.find(a => a.user_id === entry.actor_id)
+    return admin?.name || entry.actor_email || entry.actor_id
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" text="Loading admins..." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Admins & Audit Log</h1>
+        <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">
+          Who has admin access, and every change made from the admin panel
+        </p>
+      </div>
+
+      {/* Grant */}
+      {canManage ? (
+        <form
+          onSubmit={handleGrant}
+          className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-6 flex flex-wrap items-end gap-3"
+        >
+          <div className="flex-1 min-w-[220px]">
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Role</label>
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as AdminRole)}
+              className="px-3 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm"
+            >
+              {(Object.keys(ADMIN_ROLE_LABELS) as AdminRole[]).map(value => (
+                <option key={value} value={value}>{ADMIN_ROLE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1 min-w-[200px]">
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">Note</label>
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Why they need access"
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !email.trim()}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium"
+          >
+            <UserPlus className="h-4 w-4" />
+            {saving ? 'Granting...' : 'Grant'}
+          </button>
+        </form>
+      ) : (
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-4 text-sm text-gray-600 dark:text-slate-400">
+          Only super admins can grant or revoke admin access.
+        </div>
+      )}
+
+      {/* Admins */}
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 divide-y divide-gray-200 dark:divide-slate-800">
+        {admins.map(admin => (
+          <div key={admin.user_id} className="flex items-center gap-4 p-4">
+            {admin.role === 'super_admin' ? (
+              <ShieldCheck className="h-5 w-5 text-blue-600 flex-shrink-0" />
+            ) : (
+              <Shield className="h-5 w-5 text-gray-500 flex-shrink-0" />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-900 dark:text-white truncate">
+                {admin.name || admin.email || admin.user_id}
+                {admin.user_id === me?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                {admin.email}
+                {' • '}
+                since {new Date(admin.granted_at).toLocaleDateString()}
+                {admin.note && ` • ${admin.note}`}
+              </div>
+            </div>
+            <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300">
+              {ADMIN_ROLE_LABELS[admin.role]}
+            </span>
+            {canManage && admin.user_id !== me?.id && (
+              <button
+                onClick={() => handleRevoke(admin)}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-rose-700 hover:bg-rose-50 dark:text-rose-300 dark:hover:bg-rose-950"
+              >
+                <UserMinus className="h-4 w-4" />
+                Revoke
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Audit log */}
+      <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-slate-800">
+          <h2 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+            <History className="h-5 w-5" />
+            Audit Log
+          </h2>
+          <input
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value)}
+            placeholder="Filter by action, e.g. kyc"
+            className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm"
+          />
+        </div>
+        {entries.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 dark:text-slate-400 text-center">No admin actions recorded.</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-slate-800">
+            {entries.map(entry => (
+              <details key={entry.id} className="p-4 text-sm">
+                <summary className="cursor-pointer flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <span className="font-mono text-xs px-2 py-0.5 rounded bg-gray-100 dark:bg-slate-800 text-gray-800 dark:text-slate-200">
+                    {entry.action}
+                  </span>
+                  <span className="text-gray-900 dark:text-white">{actorLabel(entry)}</span>
+                  {entry.target_id && (
+                    <span className="text-gray-500 dark:text-slate-400 truncate">
+                      {entry.target_type}: {entry.target_id}
+                    </span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500 dark:text-slate-400">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </span>
+                </summary>
+                <pre className="mt-3 p-3 rounded-lg bg-gray-50 dark:bg-slate-800 text-xs text-gray-700 dark:text-slate-300 overflow-x-auto">
+                  {JSON.stringify(entry.details, null, 2)}
+                </pre>
+                {entry.ip_address && (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+                    {entry.ip_address}{entry.user_agent && ` • ${entry.user_agent}`}
+                  </p>
+                )}
+              </details>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
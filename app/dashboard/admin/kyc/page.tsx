@@ -2,6 +2,8 @@
 
 import React, { useEffect, useState } from 'react'
 import { supabase } from '../../../../lib/supabaseClient'
+import { KYC_HISTORY_LABELS, daysUntil, documentLabel, isExpiringType } from '../../../../lib/kycDocuments'
+import type { KycDecision, KycDocument, KycHistoryEntry } from '../../../../lib/kycDocuments'
 import {
   Shield,
   CheckCircle,
@@ -11,20 +13,31 @@ import {
   FileText,
   User,
   AlertCircle,
-  Download,
+  RefreshCw,
+  History,
+  CalendarClock,
 } from 'lucide-react'
 
-interface KYCDocument {
-  id: string
-  user_id: string
-  document_type: string
-  document_url: string
-  status: 'pending' | 'under_review' | 'verified' | 'rejected'
-  rejection_reason: string | null
-  verified_by: string | null
-  verified_at: string | null
-  created_at: string
-  updated_at: string
+const DECISION_TITLES: Record<KycDecision, string> = {
+  approve: 'Approve Document',
+  reject: 'Reject Document',
+  request_replacement: 'Request Replacement'
+}
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('No session token available. Please log in again.')
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  }
+}
+
+interface KYCDocument extends KycDocument {
   user_profile?: {
     name: string
     email: string
@@ -38,8 +51,12 @@ export default function AdminKYCPage() {
   const [loading, setLoading] = useState(true)
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [searchTerm, setSearchTerm] = useState('')
-  const [selectedDoc, setSelectedDoc] = useState<KYCDocument | null>(null)
-  const [rejectionReason, setRejectionReason] = useState('')
+  const [review, setReview] = useState<{ doc: KYCDocument; decision: KycDecision } | null>(null)
+  const [reviewReason, setReviewReason] = useState('')
+  const [reviewExpiresAt, setReviewExpiresAt] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [historyFor, setHistoryFor] = useState<KYCDocument | null>(null)
+  const [history, setHistory] = useState<KycHistoryEntry[]>([])
 
   useEffect(() => {
     fetchDocuments()
@@ -55,6 +72,7 @@ export default function AdminKYCPage() {
           *,
           user_profile:user_profiles!user_id(name, email, role, company_name)
         `)
+        .is('superseded_at', null)
         .order('created_at', { ascending: false })
 
       if (statusFilter !== 'all') {
@@ -84,61 +102,60 @@ export default function AdminKYCPage() {
     }
   }
 
-  const updateDocumentStatus = async (
-    documentId: string,
-    status: 'verified' | 'rejected',
-    reason?: string
-  ) => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) throw new Error('Not authenticated')
+  const openReview = (doc: KYCDocument, decision: KycDecision) => {
+    setReview({ doc, decision })
+    setReviewReason('')
+    setReviewExpiresAt(doc.expires_at || '')
+  }
 
-      const updateData: any = {
-        status,
-        updated_at: new Date().toISOString(),
-      }
+  const submitReview = async () => {
+    if (!review) return
 
-      if (status === 'verified') {
-        updateData.verified_at = new Date().toISOString()
-        updateData.verified_by = user.id
-      }
+    if (review.decision !== 'approve' && !reviewReason.trim()) {
+      alert('Please provide a reason')
+      return
+    }
 
-      if (status === 'rejected' && reason) {
-        updateData.rejection_reason = reason
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/kyc/documents/${review.doc.id}/review`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          decision: review.decision,
+          reason: reviewReason.trim() || undefined,
+          expiresAt: reviewExpiresAt || undefined
+        })
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to review document')
       }
 
-      const { error } = await supabase
-        .from('kyc_documents')
-        .update(updateData)
-        .eq('id', documentId)
+      setReview(null)
+      fetchDocuments()
+    } catch (error: any) {
+      console.error('Error reviewing document:', error)
+      alert(error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
 
-      if (error) throw error
+  const openHistory = async (doc: KYCDocument) => {
+    setHistoryFor(doc)
+    setHistory([])
 
-      // Check if user has at least 2 verified documents after this update
-      const { data: userDocs } = await supabase
-        .from('kyc_documents')
-        .select('status, user_id')
-        .eq('user_id', documents.find(d => d.id === documentId)?.user_id)
-
-      if (userDocs) {
-        const verifiedCount = userDocs.filter(d => d.status === 'verified').length
-        const shouldMarkKYCVerified = verifiedCount >= 2
-
-        if (shouldMarkKYCVerified) {
-          // Update user profile to mark KYC as verified
-          await supabase
-            .from('user_profiles')
-            .update({ kyc_verified: true })
-            .eq('id', userDocs[0].user_id)
-        }
-      }
+    try {
+      const response = await fetch(`/api/kyc/documents?userId=${doc.user_id}`, { headers: await authHeaders() })
+      const result = await response.json()
 
-      fetchDocuments()
-      setSelectedDoc(null)
-      setRejectionReason('')
+      if (!result.success) throw new Error(result.error)
+
+      setHistory(result.history)
     } catch (error) {
-      console.error('Error updating document status:', error)
-      alert('Failed to update document status')
+      console.error('Error fetching KYC history:', error)
     }
   }
 
@@ -150,6 +167,10 @@ export default function AdminKYCPage() {
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300'
       case 'under_review':
         return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300'
+      case 'replacement_requested':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300'
+      case 'expired':
+        return 'bg-gray-100 text-gray-800 dark:bg-slate-800 dark:text-slate-300'
       default:
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300'
     }
@@ -163,17 +184,15 @@ export default function AdminKYCPage() {
         return <XCircle className="w-4 h-4" />
       case 'under_review':
         return <Eye className="w-4 h-4" />
+      case 'replacement_requested':
+        return <RefreshCw className="w-4 h-4" />
+      case 'expired':
+        return <CalendarClock className="w-4 h-4" />
       default:
         return <Clock className="w-4 h-4" />
     }
   }
 
-  const getDocumentLabel = (type: string) => {
-    return type.split('_').map(word =>
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ')
-  }
-
   const filteredDocuments = documents.filter(doc => {
     const matchesSearch =
       doc.user_profile?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -187,7 +206,7 @@ export default function AdminKYCPage() {
     total: filteredDocuments.length,
     pending: filteredDocuments.filter(d => d.status === 'pending').length,
     verified: filteredDocuments.filter(d => d.status === 'verified').length,
-    rejected: filteredDocuments.filter(d => d.status === 'rejected').length,
+    awaitingResubmission: filteredDocuments.filter(d => ['rejected', 'replacement_requested', 'expired'].includes(d.status)).length,
   }
 
   if (loading) {
@@ -257,8 +276,8 @@ export default function AdminKYCPage() {
               <XCircle className="w-6 h-6 text-red-600 dark:text-red-400" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600 dark:text-slate-400">Rejected</p>
-              <p className="text-2xl font-bold text-gray-900 dark:text-white">{stats.rejected}</p>
+              <p className="text-sm font-medium text-gray-600 dark:text-slate-400">Awaiting Resubmission</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{stats.awaitingResubmission}</p>
             </div>
           </div>
         </div>
@@ -285,6 +304,8 @@ export default function AdminKYCPage() {
           <option value="under_review">Under Review</option>
           <option value="verified">Verified</option>
           <option value="rejected">Rejected</option>
+          <option value="replacement_requested">Replacement Requested</option>
+          <option value="expired">Expired</option>
         </select>
       </div>
 
@@ -306,6 +327,9 @@ export default function AdminKYCPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
                   Submitted
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
+                  Expires
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-slate-400 uppercase tracking-wider">
                   Actions
                 </th>
@@ -331,18 +355,35 @@ export default function AdminKYCPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900 dark:text-white">
-                      {getDocumentLabel(doc.document_type)}
+                      {documentLabel(doc.document_type)}
                     </div>
+                    {doc.replaces_document_id && (
+                      <div className="text-xs text-gray-500 dark:text-slate-400">Resubmission</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadge(doc.status)}`}>
                       {getStatusIcon(doc.status)}
                       <span className="ml-1 capitalize">{doc.status.replace('_', ' ')}</span>
                     </span>
+                    {doc.rejection_reason && (
+                      <div className="mt-1 max-w-xs truncate text-xs text-gray-500 dark:text-slate-400" title={doc.rejection_reason}>
+                        {doc.rejection_reason}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-slate-400">
                     {new Date(doc.created_at).toLocaleDateString()}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {doc.expires_at ? (
+                      <span className={daysUntil(doc.expires_at, new Date()) <= 30 ? 'text-orange-600 dark:text-orange-400' : 'text-gray-500 dark:text-slate-400'}>
+                        {new Date(`${doc.expires_at}T00:00:00`).toLocaleDateString()}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400 dark:text-slate-600">{isExpiringType(doc.document_type) ? 'Not set' : '-'}</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex justify-end gap-2">
                       <a
@@ -354,17 +395,17 @@ export default function AdminKYCPage() {
                       >
                         <Eye className="w-4 h-4" />
                       </a>
-                      {doc.status === 'pending' && (
+                      {(doc.status === 'pending' || doc.status === 'under_review') && (
                         <>
                           <button
-                            onClick={() => updateDocumentStatus(doc.id, 'verified')}
+                            onClick={() => openReview(doc, 'approve')}
                             className="text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300"
                             title="Approve"
                           >
                             <CheckCircle className="w-4 h-4" />
                           </button>
                           <button
-                            onClick={() => setSelectedDoc(doc)}
+                            onClick={() => openReview(doc, 'reject')}
                             className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
                             title="Reject"
                           >
@@ -372,6 +413,22 @@ export default function AdminKYCPage() {
                           </button>
                         </>
                       )}
+                      {(doc.status === 'pending' || doc.status === 'under_review' || doc.status === 'verified') && (
+                        <button
+                          onClick={() => openReview(doc, 'request_replacement')}
+                          className="text-orange-600 hover:text-orange-800 dark:text-orange-400 dark:hover:text-orange-300"
+                          title="Request Replacement"
+                        >
+                          <RefreshCw className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => openHistory(doc)}
+                        className="text-gray-600 hover:text-gray-800 dark:text-slate-400 dark:hover:text-slate-200"
+                        title="History"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
                     </div>
                   </td>
                 </tr>
@@ -391,55 +448,124 @@ export default function AdminKYCPage() {
         )}
       </div>
 
-      {/* Rejection Modal */}
-      {selectedDoc && (
+      {/* Review Modal */}
+      {review && (
         <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
           <div className="bg-white dark:bg-slate-900 rounded-lg max-w-md w-full p-6">
             <div className="flex items-center gap-3 mb-4">
-              <div className="p-2 bg-red-100 dark:bg-red-900 rounded-lg">
-                <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+              <div className={`p-2 rounded-lg ${review.decision === 'approve' ? 'bg-green-100 dark:bg-green-900' : 'bg-red-100 dark:bg-red-900'}`}>
+                {review.decision === 'approve' ? (
+                  <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+                ) : (
+                  <AlertCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
+                )}
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{DECISION_TITLES[review.decision]}</h3>
+                <p className="text-sm text-gray-500 dark:text-slate-400">
+                  {documentLabel(review.doc.document_type)} - {review.doc.user_profile?.name || 'Unknown'}
+                </p>
               </div>
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Reject Document</h3>
             </div>
 
-            <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">
-              Please provide a reason for rejecting this document:
-            </p>
-
-            <textarea
-              value={rejectionReason}
-              onChange={(e) => setRejectionReason(e.target.value)}
-              placeholder="e.g., Document is unclear, personal information is not visible, etc."
-              className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-red-500 resize-none"
-              rows={4}
-            />
+            {isExpiringType(review.doc.document_type) && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Expiry date on the document{review.decision === 'approve' && ' *'}
+                </label>
+                <input
+                  type="date"
+                  value={reviewExpiresAt}
+                  onChange={(e) => setReviewExpiresAt(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            {review.decision !== 'approve' && (
+              <>
+                <p className="text-sm text-gray-600 dark:text-slate-400 mb-2">
+                  {review.decision === 'reject'
+                    ? 'Please provide a reason for rejecting this document:'
+                    : 'Tell the user what the replacement must show:'}
+                </p>
+                <textarea
+                  value={reviewReason}
+                  onChange={(e) => setReviewReason(e.target.value)}
+                  placeholder={review.decision === 'reject'
+                    ? 'e.g., Document is unclear, personal information is not visible, etc.'
+                    : 'e.g., Please upload the back of the license as well'}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-red-500 focus:border-red-500 resize-none"
+                  rows={4}
+                />
+                <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+                  The user is emailed this reason with the list of documents to resubmit.
+                </p>
+              </>
+            )}
 
             <div className="flex gap-3 mt-6">
               <button
-                onClick={() => {
-                  setSelectedDoc(null)
-                  setRejectionReason('')
-                }}
+                onClick={() => setReview(null)}
                 className="flex-1 px-4 py-2 border border-gray-300 dark:border-slate-700 rounded-lg text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-800 transition-colors"
               >
                 Cancel
               </button>
               <button
-                onClick={() => {
-                  if (rejectionReason.trim()) {
-                    updateDocumentStatus(selectedDoc.id, 'rejected', rejectionReason)
-                  } else {
-                    alert('Please provide a rejection reason')
-                  }
-                }}
-                className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors"
+                onClick={submitReview}
+                disabled={saving}
+                className={`flex-1 px-4 py-2 disabled:opacity-50 text-white rounded-lg transition-colors ${
+                  review.decision === 'approve' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                }`}
               >
-                Reject Document
+                {saving ? 'Saving...' : DECISION_TITLES[review.decision]}
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* History Modal */}
+      {historyFor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white dark:bg-slate-900 rounded-lg max-w-lg w-full p-6 max-h-[80vh] flex flex-col">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="p-2 bg-gray-100 dark:bg-slate-800 rounded-lg">
+                <History className="h-5 w-5 text-gray-600 dark:text-slate-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Verification History</h3>
+                <p className="text-sm text-gray-500 dark:text-slate-400">{historyFor.user_profile?.name || historyFor.user_profile?.email || historyFor.user_id}</p>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto divide-y divide-gray-200 dark:divide-slate-800">
+              {history.length === 0 ? (
+                <p className="py-6 text-sm text-center text-gray-500 dark:text-slate-400">No history recorded.</p>
+              ) : history.map(entry => (
+                <div key={entry.id} className="py-3 text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {documentLabel(entry.document_type)}: {KYC_HISTORY_LABELS[entry.action]}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-slate-400">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  {entry.reason && <p className="mt-1 text-gray-600 dark:text-slate-400">{entry.reason}</p>}
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={() => setHistoryFor(null)}
+              className="mt-4 px-4 py-2 border border-gray-300 dark:border-slate-700 rounded-lg text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-800 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
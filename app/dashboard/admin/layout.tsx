@@ -4,7 +4,7 @@ import React, { useState } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { useAuth } from '../../../contexts/AuthContext'
-import { isAdminUser } from '../../../lib/adminConfig'
+import { useAdminRole } from '../../../lib/hooks/useAdminRole'
 import {
   Users,
   UserCheck,
@@ -17,12 +17,14 @@ import {
   Menu,
   X,
   DollarSign,
+  Send,
 } from 'lucide-react'
 
 export default function AdminLayout({ children }: { children: React.ReactNode }) {
-  const { userProfile } = useAuth()
+  const { user, userProfile } = useAuth()
   const pathname = usePathname()
   const [sidebarOpen, setSidebarOpen] = useState(false)
+  const { isAdmin: hasAdminRole, loading: roleLoading } = useAdminRole(user?.id)
 
   // Check if running on localhost
   const isLocalhost = typeof window !== 'undefined' &&
@@ -30,8 +32,12 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
      window.location.hostname === '127.0.0.1' ||
      window.location.hostname.includes('localhost'))
 
-  // Check if user is admin (skip check on localhost)
-  const isAdmin = isLocalhost || isAdminUser(userProfile?.email, userProfile?.role)
+  // Check if user is admin (skip check on localhost; admin API routes still enforce roles)
+  const isAdmin = isLocalhost || hasAdminRole
+
+  if (!isAdmin && roleLoading) {
+    return <div className="min-h-screen bg-gray-50 dark:bg-slate-950" />
+  }
 
   if (!isAdmin) {
     return (
@@ -97,11 +103,21 @@ export default function AdminLayout({ children }: { children: React.ReactNode })
       icon: MessageSquare,
       badge: 'new',
     },
+    {
+      name: 'Outbound Messages',
+      href: '/dashboard/admin/outbox',
+      icon: Send,
+    },
     {
       name: 'Contact Submissions',
       href: '/dashboard/admin/contact-submissions',
       icon: MessageSquare,
     },
+    {
+      name: 'Admins & Audit Log',
+      href: '/dashboard/admin/admins',
+      icon: Shield,
+    },
     {
       name: 'Settings',
       href: '/dashboard/admin/settings',
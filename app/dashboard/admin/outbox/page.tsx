@@ -0,0 +1,205 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../../../../lib/supabaseClient'
+import LoadingSpinner from '../../../../components/LoadingSpinner'
+import type { OutboxMessage } from '../../../../lib/outbox'
+import { Mail, MessageSquare, RotateCcw, Send } from 'lucide-react'
+
+type View = 'failed' | 'retrying' | 'sent' | 'all'
+
+const VIEW_LABELS: Record<View, string> = {
+  failed: 'Failed',
+  retrying: 'Retrying',
+  sent: 'Sent',
+  all: 'All',
+}
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('No session token available. Please log in again.')
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  }
+}
+
+export default function OutboxPage() {
+  const [messages, setMessages] = useState<OutboxMessage[]>([])
+  const [counts, setCounts] = useState({ failed: 0, retrying: 0 })
+  const [view, setView] = useState<View>('failed')
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [resending, setResending] = useState<string | null>(null)
+
+  const fetchMessages = async () => {
+    try {
+      const response = await fetch(`/api/outbox?view=${view}`, { headers: await authHeaders() })
+      const result = await response.json()
+
+      if (!result.success) throw new Error(result.error)
+
+      setMessages(result.messages)
+      setCounts(result.counts)
+    } catch (error) {
+      console.error('Error fetching outbox:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchMessages()
+  }, [view])
+
+  const handleResend = async (message: OutboxMessage) => {
+    if (!confirm(`Resend this ${message.channel === 'sms' ? 'text' : 'email'} to ${message.recipient}?`)) {
+      return
+    }
+
+    setResending(message.id)
+    try {
+      const response = await fetch(`/api/outbox/${message.id}/resend`, {
+        method: 'POST',
+        headers: await authHeaders(),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to resend message')
+      }
+
+      await fetchMessages()
+    } catch (error: any) {
+      alert(`Failed to resend: ${error.message}`)
+    } finally {
+      setResending(null)
+    }
+  }
+
+  const getStatusColor = (message: OutboxMessage) => {
+    switch (message.status) {
+      case 'dead':
+        return 'bg-rose-100 text-rose-800 dark:bg-rose-950 dark:text-rose-300'
+      case 'sent':
+        return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-300'
+      default:
+        return message.attempts > 0
+          ? 'bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300'
+          : 'bg-gray-100 text-gray-800 dark:bg-gray-950 dark:text-gray-300'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" text="Loading outbox..." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Outbound Messages</h1>
+          <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">
+            Email and SMS that could not be delivered, with the provider's last error
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex items-center gap-2">
+          {(Object.keys(VIEW_LABELS) as View[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                view === value
+                  ? 'bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300'
+                  : 'bg-gray-100 text-gray-700 dark:bg-slate-800 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              {VIEW_LABELS[value]}
+              {value in counts && counts[value as keyof typeof counts] > 0 && (
+                <span className="ml-1.5">({counts[value as keyof typeof counts]})</span>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Messages */}
+      {messages.length === 0 ? (
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-12 text-center">
+          <Send className="h-12 w-12 text-gray-400 dark:text-slate-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Nothing here</h3>
+          <p className="text-sm text-gray-600 dark:text-slate-400">
+            {view === 'failed' ? 'Every message has been delivered or is still being retried.' : 'Change filter to see more.'}
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 divide-y divide-gray-100 dark:divide-slate-800">
+          {messages.map((message) => (
+            <div key={message.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <button
+                  onClick={() => setExpanded(expanded === message.id ? null : message.id)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    {message.channel === 'email' ? (
+                      <Mail className="h-4 w-4 text-gray-500" />
+                    ) : (
+                      <MessageSquare className="h-4 w-4 text-gray-500" />
+                    )}
+                    <span className="font-medium text-gray-900 dark:text-white truncate">{message.recipient}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(message)}`}>
+                      {message.status === 'dead' ? 'failed' : message.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 dark:text-slate-300 truncate">
+                    {message.subject || message.body || message.template}
+                  </p>
+                  {message.last_error && message.status !== 'sent' && (
+                    <p className="text-xs text-rose-700 dark:text-rose-400 mt-1">{message.last_error}</p>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">
+                    Attempt {message.attempts} of {message.max_attempts} • Queued {new Date(message.created_at).toLocaleString()}
+                    {message.status === 'pending' && message.attempts > 0 && (
+                      <> • Next try {new Date(message.next_attempt_at).toLocaleString()}</>
+                    )}
+                    {message.sent_at && <> • Sent {new Date(message.sent_at).toLocaleString()}</>}
+                    {message.resent_at && <> • Resent {new Date(message.resent_at).toLocaleString()}</>}
+                  </p>
+                </button>
+
+                {message.status === 'dead' && (
+                  <button
+                    onClick={() => handleResend(message)}
+                    disabled={resending === message.id}
+                    className="px-3 py-2 bg-blue-100 hover:bg-blue-200 dark:bg-blue-950 dark:hover:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    {resending === message.id ? 'Queuing...' : 'Resend'}
+                  </button>
+                )}
+              </div>
+
+              {expanded === message.id && (
+                <pre className="mt-3 p-3 bg-gray-50 dark:bg-slate-800 rounded-lg text-xs text-gray-700 dark:text-slate-300 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                  {message.body || 'No plain-text body'}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
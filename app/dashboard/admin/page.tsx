@@ -124,17 +124,17 @@ export default function AdminDashboard() {
       let newTickets = 0
       try {
         const { count: total } = await supabase
-          .from('support_messages')
+          .from('support_tickets')
           .select('*', { count: 'exact', head: true })
         totalTickets = total || 0
 
         const { count: newCount } = await supabase
-          .from('support_messages')
+          .from('support_tickets')
           .select('*', { count: 'exact', head: true })
           .eq('status', 'new')
         newTickets = newCount || 0
       } catch (err) {
-        console.log('Support messages table not found')
+        console.log('Support tickets table not found')
       }
 
       // Fetch jobs data
@@ -194,7 +194,7 @@ export default function AdminDashboard() {
       )
       .subscribe()
 
-    // Subscribe to support messages
+    // Subscribe to support tickets
     const supportSubscription = supabase
       .channel('admin-support')
       .on(
@@ -202,7 +202,7 @@ export default function AdminDashboard() {
         {
           event: '*',
           schema: 'public',
-          table: 'support_messages',
+          table: 'support_tickets',
         },
         () => {
           setRealtimeUpdate((prev) => prev + 1)
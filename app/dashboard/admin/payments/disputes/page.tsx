@@ -0,0 +1,454 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../../../../../lib/supabaseClient'
+import LoadingSpinner from '../../../../../components/LoadingSpinner'
+import {
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Image as ImageIcon,
+  MessageSquare,
+  FileText,
+  MapPin,
+  Scale,
+} from 'lucide-react'
+
+type Dispute = {
+  id: string
+  payment_hold_id: string
+  job_id: string | null
+  homeowner_id: string
+  contractor_id: string
+  opened_by_role: 'homeowner' | 'contractor'
+  reason: string
+  description: string
+  status: 'open' | 'under_review' | 'resolved' | 'cancelled'
+  resolution: 'release' | 'split' | 'refund' | null
+  contractor_amount: number | null
+  refund_amount: number | null
+  resolution_rationale: string | null
+  resolved_at: string | null
+  created_at: string
+  payment_hold: {
+    id: string
+    amount: number
+    status: string
+    refunded_amount: number | null
+    contractor_payout: number
+  } | null
+  job: { id: string; title: string } | null
+}
+
+type Evidence = {
+  id: string
+  submitted_by: string
+  evidence_type: 'photo' | 'message' | 'note' | 'visit_report'
+  file_url: string | null
+  content: string | null
+  visit_report: { summary: { pointCount: number; timeOnSiteMinutes: number } } | null
+  created_at: string
+}
+
+const REASON_LABELS: Record<string, string> = {
+  work_incomplete: 'Work not completed',
+  poor_quality: 'Poor quality of work',
+  no_show: 'Contractor did not show up',
+  damage: 'Property damage',
+  payment_not_confirmed: 'Homeowner will not confirm completion',
+  other: 'Other',
+}
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('No session token available. Please log in again.')
+  }
+
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session.access_token}`,
+  }
+}
+
+export default function DisputesPage() {
+  const [disputes, setDisputes] = useState<Dispute[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<'active' | 'resolved' | 'all'>('active')
+  const [selected, setSelected] = useState<Dispute | null>(null)
+  const [evidence, setEvidence] = useState<Evidence[]>([])
+  const [resolution, setResolution] = useState<'release' | 'split' | 'refund'>('release')
+  const [contractorAmount, setContractorAmount] = useState('')
+  const [rationale, setRationale] = useState('')
+  const [actionLoading, setActionLoading] = useState(false)
+
+  const fetchDisputes = async () => {
+    try {
+      const query = filter === 'all' ? '' : `?status=${filter}`
+      const response = await fetch(`/api/disputes${query}`, { headers: await authHeaders() })
+      const result = await response.json()
+
+      if (!result.success) throw new Error(result.error)
+
+      setDisputes(result.disputes)
+    } catch (error) {
+      console.error('Error fetching disputes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDisputes()
+
+    const subscription = supabase
+      .channel('payment-disputes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'payment_disputes' }, () => {
+        fetchDisputes()
+      })
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [filter])
+
+  const openDispute = async (dispute: Dispute) => {
+    setSelected(dispute)
+    setEvidence([])
+    setResolution('release')
+    setContractorAmount('')
+    setRationale('')
+
+    try {
+      const response = await fetch(`/api/disputes/${dispute.id}`, { headers: await authHeaders() })
+      const result = await response.json()
+      if (result.success) setEvidence(result.evidence)
+    } catch (error) {
+      console.error('Error fetching dispute evidence:', error)
+    }
+  }
+
+  const handleResolve = async () => {
+    if (!selected || !rationale.trim()) return
+
+    if (!confirm('Resolve this dispute? Funds will move immediately and both parties will be notified.')) {
+      return
+    }
+
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/disputes/${selected.id}/resolve`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          resolution,
+          contractorAmount: resolution === 'split' ? parseFloat(contractorAmount) : undefined,
+          rationale: rationale.trim(),
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to resolve dispute')
+      }
+
+      alert('Dispute resolved. Both parties have been notified.')
+      setSelected(null)
+      await fetchDisputes()
+    } catch (error: any) {
+      console.error('Error resolving dispute:', error)
+      alert(`Failed to resolve dispute: ${error.message}`)
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
+  }
+
+  const remaining = (dispute: Dispute) =>
+    dispute.payment_hold
+      ? dispute.payment_hold.amount - (dispute.payment_hold.refunded_amount || 0)
+      : 0
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'open':
+        return 'bg-rose-100 text-rose-800 dark:bg-rose-950 dark:text-rose-300'
+      case 'under_review':
+        return 'bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-300'
+      case 'resolved':
+        return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-300'
+      default:
+        return 'bg-gray-100 text-gray-800 dark:bg-gray-950 dark:text-gray-300'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" text="Loading disputes..." />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Payment Disputes</h1>
+          <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">
+            Review evidence and adjudicate completion disputes
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex items-center gap-2">
+          {(['active', 'resolved', 'all'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                filter === value
+                  ? 'bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300'
+                  : 'bg-gray-100 text-gray-700 dark:bg-slate-800 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-700'
+              }`}
+            >
+              {value === 'active' ? 'Open' : value === 'resolved' ? 'Resolved' : 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Disputes List */}
+      {disputes.length === 0 ? (
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-12 text-center">
+          <Scale className="h-12 w-12 text-gray-400 dark:text-slate-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">No disputes</h3>
+          <p className="text-sm text-gray-600 dark:text-slate-400">
+            {filter === 'active' ? 'There are no disputes waiting for review.' : 'Change filter to see more.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {disputes.map((dispute) => (
+            <div
+              key={dispute.id}
+              className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-6 hover:shadow-md transition-shadow"
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2">
+                    <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                      {dispute.job?.title || 'Direct Offer'}
+                    </h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(dispute.status)}`}>
+                      {dispute.status.replace('_', ' ')}
+                    </span>
+                    {dispute.resolution && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300">
+                        {dispute.resolution}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700 dark:text-slate-300">
+                    <span className="font-medium">{REASON_LABELS[dispute.reason] || dispute.reason}</span>
+                    {' '}— opened by the {dispute.opened_by_role}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-slate-400 mt-1 line-clamp-2">{dispute.description}</p>
+                  <div className="mt-3 text-xs text-gray-500 dark:text-slate-500">
+                    {dispute.payment_hold && <>In escrow: {formatCurrency(remaining(dispute))} • </>}
+                    Opened {new Date(dispute.created_at).toLocaleString()}
+                  </div>
+                </div>
+
+                <button
+                  onClick={() => openDispute(dispute)}
+                  className="ml-4 px-3 py-2 bg-blue-100 hover:bg-blue-200 dark:bg-blue-950 dark:hover:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg text-sm font-medium transition-colors"
+                >
+                  {dispute.status === 'resolved' ? 'View' : 'Review'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Detail Modal */}
+      {selected && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white dark:bg-slate-900 rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white dark:bg-slate-900 border-b border-gray-200 dark:border-slate-800 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Dispute Details</h2>
+              <button
+                onClick={() => setSelected(null)}
+                className="text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200"
+              >
+                <XCircle className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-5">
+              <div>
+                <h3 className="font-semibold text-gray-900 dark:text-white mb-1">
+                  {REASON_LABELS[selected.reason] || selected.reason}
+                </h3>
+                <p className="text-sm text-gray-700 dark:text-slate-300 whitespace-pre-wrap">{selected.description}</p>
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Evidence ({evidence.length})</h3>
+                {evidence.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-slate-400">No evidence submitted yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {evidence.map((item) => (
+                      <div
+                        key={item.id}
+                        className="flex items-start gap-3 p-3 rounded-lg bg-gray-50 dark:bg-slate-800 text-sm"
+                      >
+                        {item.evidence_type === 'photo' ? (
+                          <ImageIcon className="h-4 w-4 mt-0.5 text-gray-500 flex-shrink-0" />
+                        ) : item.evidence_type === 'message' ? (
+                          <MessageSquare className="h-4 w-4 mt-0.5 text-gray-500 flex-shrink-0" />
+                        ) : item.evidence_type === 'visit_report' ? (
+                          <MapPin className="h-4 w-4 mt-0.5 text-gray-500 flex-shrink-0" />
+                        ) : (
+                          <FileText className="h-4 w-4 mt-0.5 text-gray-500 flex-shrink-0" />
+                        )}
+                        <div className="flex-1">
+                          <div className="text-xs text-gray-500 dark:text-slate-400 mb-1">
+                            {item.submitted_by === selected.homeowner_id ? 'Homeowner' : item.submitted_by === selected.contractor_id ? 'Contractor' : 'Admin'}
+                            {' • '}
+                            {new Date(item.created_at).toLocaleString()}
+                          </div>
+                          {item.file_url && (
+                            <a href={item.file_url} target="_blank" rel="noopener noreferrer">
+                              <img src={item.file_url} alt="Evidence" className="max-h-48 rounded-lg border border-gray-200 dark:border-slate-700" />
+                            </a>
+                          )}
+                          {item.content && (
+                            <p className="text-gray-700 dark:text-slate-300 whitespace-pre-wrap">{item.content}</p>
+                          )}
+                          {item.visit_report && selected.job_id && (
+                            <a
+                              href={`/jobs/${selected.job_id}/visit`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-blue-600 hover:underline"
+                            >
+                              Open route playback ({item.visit_report.summary.pointCount} GPS fixes)
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {selected.status === 'resolved' ? (
+                <div className="p-4 rounded-lg bg-emerald-50 dark:bg-emerald-950 text-sm">
+                  <div className="flex items-center gap-2 font-semibold text-emerald-800 dark:text-emerald-300 mb-1">
+                    <CheckCircle className="h-4 w-4" />
+                    Resolved: {selected.resolution}
+                  </div>
+                  <p className="text-emerald-800 dark:text-emerald-300">
+                    Contractor: {formatCurrency(selected.contractor_amount || 0)} • Refunded: {formatCurrency(selected.refund_amount || 0)}
+                  </p>
+                  <p className="text-emerald-700 dark:text-emerald-400 mt-2">{selected.resolution_rationale}</p>
+                </div>
+              ) : (
+                <div className="space-y-4 pt-4 border-t border-gray-200 dark:border-slate-800">
+                  <h3 className="font-semibold text-gray-900 dark:text-white">
+                    Resolve ({formatCurrency(remaining(selected))} in escrow)
+                  </h3>
+
+                  <div className="grid grid-cols-3 gap-2">
+                    {([
+                      ['release', 'Full release'],
+                      ['split', 'Split'],
+                      ['refund', 'Full refund'],
+                    ] as const).map(([value, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => setResolution(value)}
+                        className={`px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
+                          resolution === value
+                            ? 'border-blue-600 bg-blue-50 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
+                            : 'border-gray-200 dark:border-slate-700 text-gray-700 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-800'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
+                  {resolution === 'split' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                        Amount kept for contractor (before platform fee)
+                      </label>
+                      <input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        max={remaining(selected)}
+                        value={contractorAmount}
+                        onChange={(e) => setContractorAmount(e.target.value)}
+                        className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-gray-900 dark:text-white text-sm"
+                      />
+                      {contractorAmount && (
+                        <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                          Homeowner refund: {formatCurrency(Math.max(0, remaining(selected) - parseFloat(contractorAmount)))}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                      Resolution rationale
+                    </label>
+                    <textarea
+                      value={rationale}
+                      onChange={(e) => setRationale(e.target.value)}
+                      rows={4}
+                      placeholder="Sent to both parties by email and notification"
+                      className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-gray-900 dark:text-white text-sm"
+                    />
+                  </div>
+
+                  <button
+                    onClick={handleResolve}
+                    disabled={actionLoading || !rationale.trim() || (resolution === 'split' && !contractorAmount)}
+                    className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                  >
+                    {actionLoading ? (
+                      <LoadingSpinner size="sm" />
+                    ) : (
+                      <>
+                        <Scale className="h-5 w-5" />
+                        Resolve Dispute
+                      </>
+                    )}
+                  </button>
+
+                  <p className="text-xs text-gray-500 dark:text-slate-400 flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    Refunds and payouts are processed through Stripe immediately.
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -28,6 +28,8 @@ type EscrowHold = {
   homeowner_confirmed_at: string | null
   contractor_confirmed_at: string | null
   stripe_payment_intent_id: string
+  refunded_amount: number | null
+  refund_reason: string | null
   homeowner_id: string
   contractor_id: string
   job_id: string | null
@@ -46,6 +48,9 @@ export default function EscrowManagementPage() {
   const [filter, setFilter] = useState<'all' | 'active' | 'stuck'>((filterParam as any) || 'active')
   const [selectedHold, setSelectedHold] = useState<EscrowHold | null>(null)
   const [actionLoading, setActionLoading] = useState(false)
+  const [refundHold, setRefundHold] = useState<EscrowHold | null>(null)
+  const [refundReason, setRefundReason] = useState('')
+  const [refundAmount, setRefundAmount] = useState('')
 
   const fetchEscrowHolds = async () => {
     try {
@@ -160,25 +165,48 @@ export default function EscrowManagementPage() {
     }
   }
 
-  const handleRefund = async (holdId: string) => {
-    const reason = prompt('Enter refund reason:')
-    if (!reason) return
+  const openRefund = (hold: EscrowHold) => {
+    setRefundHold(hold)
+    setRefundReason('')
+    setRefundAmount('')
+  }
+
+  const handleRefund = async () => {
+    if (!refundHold || !refundReason.trim()) return
 
     setActionLoading(true)
     try {
-      // For now, just update status - full refund implementation needs Stripe API call
-      const { error } = await supabase
-        .from('payment_holds')
-        .update({
-          status: 'refunded',
-          refund_reason: reason,
-          refunded_at: new Date().toISOString(),
-        })
-        .eq('id', holdId)
+      const { data: { session } } = await supabase.auth.getSession()
 
-      if (error) throw error
+      if (!session?.access_token) {
+        throw new Error('No session token available. Please log in again.')
+      }
 
-      alert('Payment marked as refunded. Note: Stripe refund must be processed separately.')
+      const response = await fetch('/api/payments/refund', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          paymentHoldId: refundHold.id,
+          reason: refundReason.trim(),
+          amount: refundAmount ? parseFloat(refundAmount) : undefined,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to refund payment')
+      }
+
+      alert(
+        result.status === 'cancelled'
+          ? 'Authorization cancelled. The homeowner will not be charged.'
+          : `Refunded ${formatCurrency(result.refundedAmount)} successfully.`
+      )
+      setRefundHold(null)
       setSelectedHold(null)
       await fetchEscrowHolds()
     } catch (error: any) {
@@ -189,6 +217,11 @@ export default function EscrowManagementPage() {
     }
   }
 
+  const isRefundable = (hold: EscrowHold) =>
+    ['pending', 'authorized', 'captured', 'released', 'partial_refund'].includes(hold.status)
+
+  const refundableAmount = (hold: EscrowHold) => hold.amount - (hold.refunded_amount || 0)
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount)
   }
@@ -200,6 +233,7 @@ export default function EscrowManagementPage() {
       case 'released':
         return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-300'
       case 'refunded':
+      case 'partial_refund':
         return 'bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300'
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-950 dark:text-gray-300'
@@ -384,13 +418,20 @@ export default function EscrowManagementPage() {
                     </div>
                   </div>
 
+                  {(hold.refunded_amount || 0) > 0 && (
+                    <div className="mt-3 text-sm text-blue-700 dark:text-blue-300">
+                      Refunded {formatCurrency(hold.refunded_amount || 0)}
+                      {hold.refund_reason ? ` — ${hold.refund_reason}` : ''}
+                    </div>
+                  )}
+
                   <div className="mt-3 text-xs text-gray-500 dark:text-slate-500">
                     Created: {new Date(hold.created_at).toLocaleString()} • {hold.days_in_escrow} days ago
                   </div>
                 </div>
 
                 {/* Actions */}
-                {hold.status === 'captured' && (
+                {isRefundable(hold) && (
                   <div className="flex items-center gap-2 ml-4">
                     <button
                       onClick={() => setSelectedHold(hold)}
@@ -398,7 +439,15 @@ export default function EscrowManagementPage() {
                     >
                       Details
                     </button>
-                    {hold.days_in_escrow > 7 && (
+                    <button
+                      onClick={() => openRefund(hold)}
+                      disabled={actionLoading}
+                      className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                      Refund
+                    </button>
+                    {hold.status === 'captured' && hold.days_in_escrow > 7 && (
                       <button
                         onClick={() => handleForceRelease(hold.id)}
                         disabled={actionLoading}
@@ -478,24 +527,26 @@ export default function EscrowManagementPage() {
                 </p>
               </div>
 
-              {selectedHold.status === 'captured' && (
+              {isRefundable(selectedHold) && (
                 <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-slate-800">
+                  {selectedHold.status === 'captured' && (
+                    <button
+                      onClick={() => handleForceRelease(selectedHold.id)}
+                      disabled={actionLoading}
+                      className="flex-1 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                    >
+                      {actionLoading ? (
+                        <LoadingSpinner size="sm" />
+                      ) : (
+                        <>
+                          <Send className="h-5 w-5" />
+                          Force Release Payment
+                        </>
+                      )}
+                    </button>
+                  )}
                   <button
-                    onClick={() => handleForceRelease(selectedHold.id)}
-                    disabled={actionLoading}
-                    className="flex-1 px-4 py-3 bg-emerald-600 hover:bg-emerald-700 disabled:bg-emerald-400 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
-                  >
-                    {actionLoading ? (
-                      <LoadingSpinner size="sm" />
-                    ) : (
-                      <>
-                        <Send className="h-5 w-5" />
-                        Force Release Payment
-                      </>
-                    )}
-                  </button>
-                  <button
-                    onClick={() => handleRefund(selectedHold.id)}
+                    onClick={() => openRefund(selectedHold)}
                     disabled={actionLoading}
                     className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
                   >
@@ -508,6 +559,89 @@ export default function EscrowManagementPage() {
           </div>
         </div>
       )}
+
+      {/* Refund Modal */}
+      {refundHold && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white dark:bg-slate-900 rounded-2xl max-w-md w-full">
+            <div className="border-b border-gray-200 dark:border-slate-800 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Issue Refund</h2>
+              <button
+                onClick={() => setRefundHold(null)}
+                className="text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200"
+              >
+                <XCircle className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="text-sm text-gray-700 dark:text-slate-300">
+                <p className="font-medium text-gray-900 dark:text-white">{refundHold.job_title}</p>
+                <p className="mt-1">
+                  {['pending', 'authorized'].includes(refundHold.status)
+                    ? 'Payment is not captured yet. The authorization will be cancelled in full.'
+                    : `Refundable: ${formatCurrency(refundableAmount(refundHold))}`}
+                </p>
+                {refundHold.status === 'released' && (
+                  <p className="mt-1 text-amber-700 dark:text-amber-300 flex items-center gap-1">
+                    <AlertTriangle className="h-4 w-4" />
+                    Funds were released. The contractor&apos;s share will be reversed.
+                  </p>
+                )}
+              </div>
+
+              {!['pending', 'authorized'].includes(refundHold.status) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                    Amount (leave empty for full refund)
+                  </label>
+                  <div className="relative">
+                    <DollarSign className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      max={refundableAmount(refundHold)}
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                      placeholder={refundableAmount(refundHold).toFixed(2)}
+                      className="w-full pl-9 pr-3 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-gray-900 dark:text-white text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
+                  Reason
+                </label>
+                <textarea
+                  value={refundReason}
+                  onChange={(e) => setRefundReason(e.target.value)}
+                  rows={3}
+                  placeholder="Shared with the homeowner and contractor"
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-800 text-gray-900 dark:text-white text-sm"
+                />
+              </div>
+
+              <button
+                onClick={handleRefund}
+                disabled={actionLoading || !refundReason.trim()}
+                className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+              >
+                {actionLoading ? (
+                  <LoadingSpinner size="sm" />
+                ) : (
+                  <>
+                    <RefreshCw className="h-5 w-5" />
+                    Confirm Refund
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -15,6 +15,7 @@ import {
   CreditCard,
   Banknote,
   AlertCircle,
+  Scale,
 } from 'lucide-react'
 
 type FinancialStats = {
@@ -166,11 +167,11 @@ export default function PaymentsOverviewPage() {
 
       const stuckCount = stuckPayments?.length || 0
 
-      // Disputed payments
+      // Disputed payments (Stripe chargebacks and open completion disputes)
       const { count: disputedCount } = await supabase
         .from('payment_holds')
         .select('*', { count: 'exact', head: true })
-        .eq('status', 'disputed')
+        .or('status.eq.disputed,escrow_frozen.eq.true')
 
       // Recent transactions with job details
       const { data: recent } = await supabase
@@ -349,6 +350,7 @@ export default function PaymentsOverviewPage() {
             hint="Requires resolution"
             icon={<AlertCircle className="h-4 w-4" />}
             tone={stats && stats.disputedPaymentsCount > 0 ? 'rose' : 'blue'}
+            href="/dashboard/admin/payments/disputes"
           />
           <StatCard
             label="Completed"
@@ -460,7 +462,7 @@ export default function PaymentsOverviewPage() {
       </div>
 
       {/* Quick Links */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Link
           href="/dashboard/admin/payments/escrow"
           className="rounded-2xl border border-gray-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-6 hover:shadow-md transition-shadow"
@@ -493,6 +495,17 @@ export default function PaymentsOverviewPage() {
             View detailed revenue reports
           </p>
         </Link>
+
+        <Link
+          href="/dashboard/admin/payments/disputes"
+          className="rounded-2xl border border-gray-200 dark:border-slate-800 bg-white dark:bg-slate-900 p-6 hover:shadow-md transition-shadow"
+        >
+          <Scale className="h-8 w-8 text-rose-600 mb-3" />
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-1">Disputes</h3>
+          <p className="text-sm text-gray-600 dark:text-slate-400">
+            Review evidence and resolve disputes
+          </p>
+        </Link>
       </div>
     </div>
   )
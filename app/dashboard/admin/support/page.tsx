@@ -1,139 +1,191 @@
 'use client'
 
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
 import { supabase } from '../../../../lib/supabaseClient'
 import LoadingSpinner from '../../../../components/LoadingSpinner'
+import {
+  SUPPORT_CATEGORIES,
+  SUPPORT_PRIORITIES,
+  SUPPORT_STATUSES,
+  SlaState,
+  SupportCategory,
+  SupportPriority,
+  SupportReply,
+  SupportStatus,
+  SupportTicket,
+  ticketSla,
+} from '../../../../lib/supportTickets'
 import {
   MessageSquare,
-  Mail,
   Clock,
   CheckCircle,
   XCircle,
   Send,
   User,
+  Briefcase,
+  DollarSign,
 } from 'lucide-react'
 
-type SupportTicket = {
+type SupportAdmin = {
   id: string
-  user_id: string | null
-  user_email: string
-  user_name: string
-  message: string
-  status: 'new' | 'read' | 'responded' | 'closed'
-  priority: 'low' | 'medium' | 'high' | 'urgent'
-  created_at: string
-  admin_reply: string | null
-  admin_reply_timestamp: string | null
+  name: string | null
+  email: string
 }
 
+type StatusFilter = 'active' | SupportStatus | 'all'
+type AssigneeFilter = 'anyone' | 'me' | 'none'
+
 export default function SupportTicketsPage() {
   const [tickets, setTickets] = useState<SupportTicket[]>([])
+  const [admins, setAdmins] = useState<SupportAdmin[]>([])
   const [loading, setLoading] = useState(true)
-  const [selectedTicket, setSelectedTicket] = useState<SupportTicket | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [replies, setReplies] = useState<SupportReply[]>([])
   const [replyText, setReplyText] = useState('')
   const [actionLoading, setActionLoading] = useState(false)
-  const [filter, setFilter] = useState<'all' | 'new' | 'read' | 'responded'>('new')
-
-  useEffect(() => {
-    fetchTickets()
+  const [filter, setFilter] = useState<StatusFilter>('active')
+  const [assignee, setAssignee] = useState<AssigneeFilter>('anyone')
+  const selectedIdRef = useRef<string | null>(null)
 
-    const subscription = supabase
-      .channel('support-tickets')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'support_messages' }, () => {
-        fetchTickets()
-      })
-      .subscribe()
+  const selectedTicket = tickets.find((t) => t.id === selectedId) || null
 
-    return () => {
-      subscription.unsubscribe()
+  const authHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session?.access_token}`,
     }
-  }, [filter])
+  }
 
   const fetchTickets = async () => {
     try {
-      let query = supabase
-        .from('support_messages')
-        .select('*')
-        .order('created_at', { ascending: false })
-
-      if (filter !== 'all') {
-        query = query.eq('status', filter)
-      }
+      const params = new URLSearchParams({ scope: 'all' })
+      if (filter !== 'all') params.set('status', filter)
+      if (assignee !== 'anyone') params.set('assigned', assignee)
 
-      const { data, error } = await query
+      const response = await fetch(`/api/support/tickets?${params}`, { headers: await authHeaders() })
+      const result = await response.json()
 
-      if (error) {
-        // Only log if it's not a "table doesn't exist" error
-        if (error.code !== '42P01' && error.code !== 'PGRST116') {
-          console.error('Error fetching tickets:', error)
-        }
+      if (!response.ok) {
+        console.error('Error fetching tickets:', result.error)
         setTickets([])
         return
       }
-      setTickets(data || [])
-    } catch (error: any) {
-      // Only log actual errors
-      if (error?.code !== '42P01' && error?.code !== 'PGRST116') {
-        console.error('Error fetching tickets:', error)
-      }
+
+      setTickets(result.tickets)
+      setAdmins(result.admins || [])
+    } catch (error) {
+      console.error('Error fetching tickets:', error)
       setTickets([])
     } finally {
       setLoading(false)
     }
   }
 
-  const handleMarkAsRead = async (ticketId: string) => {
-    try {
-      const { error } = await supabase
-        .from('support_messages')
-        .update({ status: 'read' })
-        .eq('id', ticketId)
+  const fetchThread = async (ticketId: string) => {
+    const response = await fetch(`/api/support/tickets/${ticketId}`, { headers: await authHeaders() })
+    if (!response.ok) return
 
-      if (error) throw error
-      await fetchTickets()
-    } catch (error) {
-      console.error('Error marking as read:', error)
+    const result = await response.json()
+    if (selectedIdRef.current !== ticketId) return
+
+    setReplies(result.replies)
+    setTickets((prev) => prev.map((t) => (t.id === ticketId ? result.ticket : t)))
+  }
+
+  useEffect(() => {
+    fetchTickets()
+
+    const subscription = supabase
+      .channel('support-tickets')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'support_tickets' }, () => {
+        fetchTickets()
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'support_ticket_replies' }, (payload) => {
+        const reply = payload.new as SupportReply
+        if (reply.ticket_id === selectedIdRef.current) {
+          setReplies((prev) => (prev.some((r) => r.id === reply.id) ? prev : [...prev, reply]))
+        }
+      })
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
     }
+  }, [filter, assignee])
+
+  // Open the ticket linked from a reply email
+  useEffect(() => {
+    const ticketId = new URLSearchParams(window.location.search).get('ticket')
+    if (ticketId) openTicket(ticketId)
+  }, [])
+
+  const openTicket = (ticketId: string) => {
+    selectedIdRef.current = ticketId
+    setSelectedId(ticketId)
+    setReplies([])
+    setReplyText('')
+    fetchThread(ticketId)
   }
 
-  const handleReply = async () => {
-    if (!selectedTicket || !replyText.trim()) return
+  const closeThread = () => {
+    selectedIdRef.current = null
+    setSelectedId(null)
+    setReplies([])
+    setReplyText('')
+  }
+
+  const updateTicket = async (changes: {
+    status?: SupportStatus
+    priority?: SupportPriority
+    category?: SupportCategory
+    assignedAdminId?: string | null
+  }) => {
+    if (!selectedTicket) return
 
     setActionLoading(true)
     try {
-      const { error } = await supabase
-        .from('support_messages')
-        .update({
-          admin_reply: replyText.trim(),
-          admin_reply_timestamp: new Date().toISOString(),
-          status: 'responded',
-        })
-        .eq('id', selectedTicket.id)
+      const response = await fetch(`/api/support/tickets/${selectedTicket.id}`, {
+        method: 'PATCH',
+        headers: await authHeaders(),
+        body: JSON.stringify(changes),
+      })
+      const result = await response.json()
 
-      if (error) throw error
+      if (!response.ok) {
+        alert(result.error || 'Failed to update ticket')
+        return
+      }
 
-      setReplyText('')
-      setSelectedTicket(null)
-      await fetchTickets()
-    } catch (error) {
-      console.error('Error sending reply:', error)
-      alert('Failed to send reply. Check console for details.')
+      setTickets((prev) => prev.map((t) => (t.id === result.ticket.id ? result.ticket : t)))
     } finally {
       setActionLoading(false)
     }
   }
 
-  const handleClose = async (ticketId: string) => {
+  const handleReply = async (resolve: boolean) => {
+    if (!selectedTicket || !replyText.trim()) return
+
+    setActionLoading(true)
     try {
-      const { error } = await supabase
-        .from('support_messages')
-        .update({ status: 'closed' })
-        .eq('id', ticketId)
+      const response = await fetch(`/api/support/tickets/${selectedTicket.id}/replies`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ body: replyText.trim(), resolve }),
+      })
+      const result = await response.json()
 
-      if (error) throw error
-      await fetchTickets()
-    } catch (error) {
-      console.error('Error closing ticket:', error)
+      if (!response.ok) {
+        alert(result.error || 'Failed to send reply')
+        return
+      }
+
+      setReplyText('')
+      setReplies((prev) => (prev.some((r) => r.id === result.reply.id) ? prev : [...prev, result.reply]))
+      setTickets((prev) => prev.map((t) => (t.id === result.ticket.id ? result.ticket : t)))
+    } finally {
+      setActionLoading(false)
     }
   }
 
@@ -141,11 +193,11 @@ export default function SupportTicketsPage() {
     switch (status) {
       case 'new':
         return 'bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-300'
-      case 'read':
+      case 'open':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-300'
-      case 'responded':
+      case 'waiting':
         return 'bg-emerald-100 text-emerald-800 dark:bg-emerald-950 dark:text-emerald-300'
-      case 'closed':
+      case 'resolved':
         return 'bg-gray-100 text-gray-800 dark:bg-gray-950 dark:text-gray-300'
       default:
         return 'bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-300'
@@ -165,6 +217,44 @@ export default function SupportTicketsPage() {
     }
   }
 
+  const getSlaColor = (state: SlaState) => {
+    switch (state) {
+      case 'breached':
+        return 'text-red-600 dark:text-red-400'
+      case 'due_soon':
+        return 'text-amber-600 dark:text-amber-400'
+      case 'met':
+        return 'text-emerald-600 dark:text-emerald-400'
+      default:
+        return 'text-gray-500 dark:text-slate-400'
+    }
+  }
+
+  // The timer that still matters: first response until answered, then resolution
+  const slaLabel = (ticket: SupportTicket) => {
+    const sla = ticketSla(ticket)
+    if (ticket.status === 'resolved') {
+      return { state: sla.resolution, text: sla.resolution === 'met' ? 'Resolved within SLA' : 'Resolved late' }
+    }
+
+    const [state, dueAt, label] = ticket.first_responded_at
+      ? [sla.resolution, ticket.resolution_due_at, 'Resolve']
+      : [sla.firstResponse, ticket.first_response_due_at, 'Respond']
+    const minutes = Math.round((new Date(dueAt).getTime() - Date.now()) / 60000)
+    const span = Math.abs(minutes) >= 120 ? `${Math.round(Math.abs(minutes) / 60)}h` : `${Math.abs(minutes)}m`
+
+    return {
+      state,
+      text: minutes < 0 ? `${label} overdue by ${span}` : `${label} within ${span}`,
+    }
+  }
+
+  const adminName = (adminId: string | null) => {
+    if (!adminId) return 'Unassigned'
+    const admin = admins.find((a) => a.id === adminId)
+    return admin?.name || admin?.email || 'Admin'
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -176,7 +266,7 @@ export default function SupportTicketsPage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-4">
         <div>
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Support Tickets</h1>
           <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">
@@ -185,8 +275,8 @@ export default function SupportTicketsPage() {
         </div>
 
         {/* Filters */}
-        <div className="flex items-center gap-2">
-          {(['all', 'new', 'read', 'responded'] as const).map((status) => (
+        <div className="flex flex-wrap items-center gap-2">
+          {(['active', ...SUPPORT_STATUSES, 'all'] as StatusFilter[]).map((status) => (
             <button
               key={status}
               onClick={() => setFilter(status)}
@@ -197,155 +287,195 @@ export default function SupportTicketsPage() {
               }`}
             >
               {status.charAt(0).toUpperCase() + status.slice(1)}
-              {status !== 'all' && (
-                <span className="ml-2">
-                  ({tickets.filter((t) => t.status === status).length})
-                </span>
-              )}
             </button>
           ))}
+          <select
+            value={assignee}
+            onChange={(e) => setAssignee(e.target.value as AssigneeFilter)}
+            className="px-3 py-2 rounded-lg text-sm border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-gray-700 dark:text-slate-300"
+          >
+            <option value="anyone">Anyone</option>
+            <option value="me">Assigned to me</option>
+            <option value="none">Unassigned</option>
+          </select>
         </div>
       </div>
 
-      {/* Tickets List */}
-      {tickets.length === 0 ? (
-        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-12 text-center">
-          <MessageSquare className="h-12 w-12 text-gray-400 dark:text-slate-600 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
-            No {filter !== 'all' ? filter : ''} tickets
-          </h3>
-          <p className="text-sm text-gray-600 dark:text-slate-400">
-            {filter === 'new' ? 'All caught up! New tickets will appear here.' : 'Change filter to see more tickets.'}
-          </p>
-        </div>
-      ) : (
-        <div className="grid gap-4">
-          {tickets.map((ticket) => (
-            <div
-              key={ticket.id}
-              className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-6 hover:shadow-md transition-shadow"
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-2">
-                    <User className="h-5 w-5 text-gray-400" />
-                    <span className="font-semibold text-gray-900 dark:text-white">
-                      {ticket.user_name}
-                    </span>
-                    <span className="text-sm text-gray-500 dark:text-slate-400">
-                      ({ticket.user_email})
-                    </span>
+      <div className={`grid gap-6 ${selectedTicket ? 'lg:grid-cols-[minmax(0,2fr),minmax(0,3fr)]' : ''}`}>
+        {/* Tickets List */}
+        {tickets.length === 0 ? (
+          <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 p-12 text-center">
+            <MessageSquare className="h-12 w-12 text-gray-400 dark:text-slate-600 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              No {filter !== 'all' ? filter : ''} tickets
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-slate-400">
+              {filter === 'new' || filter === 'active'
+                ? 'All caught up! New tickets will appear here.'
+                : 'Change filter to see more tickets.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-3 content-start">
+            {tickets.map((ticket) => {
+              const sla = slaLabel(ticket)
+              return (
+                <button
+                  key={ticket.id}
+                  onClick={() => openTicket(ticket.id)}
+                  className={`text-left bg-white dark:bg-slate-900 rounded-2xl border p-5 hover:shadow-md transition-shadow ${
+                    ticket.id === selectedId
+                      ? 'border-blue-400 dark:border-blue-600'
+                      : 'border-gray-200 dark:border-slate-800'
+                  }`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 mb-1">
                     <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(ticket.status)}`}>
                       {ticket.status}
                     </span>
-                    {ticket.priority && (
-                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(ticket.priority)}`}>
-                        {ticket.priority}
-                      </span>
-                    )}
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(ticket.priority)}`}>
+                      {ticket.priority}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-slate-400">
+                      {SUPPORT_CATEGORIES[ticket.category]}
+                    </span>
                   </div>
 
-                  <p className="text-sm text-gray-700 dark:text-slate-300 mb-2">{ticket.message}</p>
-
-                  {ticket.admin_reply && (
-                    <div className="mt-3 p-3 bg-blue-50 dark:bg-blue-950 rounded-lg">
-                      <div className="flex items-center gap-2 mb-1">
-                        <Send className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-                        <span className="text-xs font-medium text-blue-900 dark:text-blue-300">
-                          Your Reply:
-                        </span>
-                      </div>
-                      <p className="text-sm text-blue-900 dark:text-blue-300">{ticket.admin_reply}</p>
-                      <p className="text-xs text-blue-600 dark:text-blue-400 mt-1">
-                        {new Date(ticket.admin_reply_timestamp!).toLocaleString()}
-                      </p>
-                    </div>
-                  )}
+                  <p className="font-semibold text-gray-900 dark:text-white">{ticket.subject}</p>
 
-                  <div className="mt-2 text-xs text-gray-500 dark:text-slate-500 flex items-center gap-1">
-                    <Clock className="h-3 w-3" />
-                    {new Date(ticket.created_at).toLocaleString()}
+                  <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-slate-500">
+                    <span className="flex items-center gap-1">
+                      <User className="h-3 w-3" />
+                      {ticket.user_name}
+                    </span>
+                    <span className={`flex items-center gap-1 ${getSlaColor(sla.state)}`}>
+                      <Clock className="h-3 w-3" />
+                      {sla.text}
+                    </span>
+                    <span>{adminName(ticket.assigned_admin_id)}</span>
                   </div>
-                </div>
+                </button>
+              )
+            })}
+          </div>
+        )}
 
-                {/* Actions */}
-                <div className="flex items-center gap-2 ml-4">
-                  {ticket.status === 'new' && (
-                    <button
-                      onClick={() => handleMarkAsRead(ticket.id)}
-                      className="px-3 py-2 bg-yellow-100 hover:bg-yellow-200 dark:bg-yellow-950 dark:hover:bg-yellow-900 text-yellow-700 dark:text-yellow-300 rounded-lg text-sm font-medium transition-colors"
-                    >
-                      Mark Read
-                    </button>
-                  )}
-                  {!ticket.admin_reply && (
-                    <button
-                      onClick={() => setSelectedTicket(ticket)}
-                      className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
-                    >
-                      <Send className="h-4 w-4" />
-                      Reply
-                    </button>
-                  )}
-                  {ticket.status !== 'closed' && (
-                    <button
-                      onClick={() => handleClose(ticket.id)}
-                      className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-slate-800 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-lg text-sm font-medium transition-colors flex items-center gap-1"
-                    >
-                      <CheckCircle className="h-4 w-4" />
-                      Close
-                    </button>
-                  )}
-                </div>
+        {/* Ticket Thread */}
+        {selectedTicket && (
+          <div className="bg-white dark:bg-slate-900 rounded-2xl border border-gray-200 dark:border-slate-800 flex flex-col lg:sticky lg:top-6 lg:max-h-[calc(100vh-3rem)]">
+            <div className="border-b border-gray-200 dark:border-slate-800 px-6 py-4 flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">{selectedTicket.subject}</h2>
+                <p className="text-sm text-gray-500 dark:text-slate-400 mt-1">
+                  {selectedTicket.user_name} ({selectedTicket.user_email}) &middot;{' '}
+                  {new Date(selectedTicket.created_at).toLocaleString()}
+                </p>
+                {(selectedTicket.job_id || selectedTicket.payment_hold_id) && (
+                  <div className="flex flex-wrap gap-3 mt-2 text-xs">
+                    {selectedTicket.job_id && (
+                      <Link
+                        href={`/jobs/${selectedTicket.job_id}`}
+                        className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Briefcase className="h-3 w-3" />
+                        Linked job
+                      </Link>
+                    )}
+                    {selectedTicket.payment_hold_id && (
+                      <Link
+                        href="/dashboard/admin/payments"
+                        className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <DollarSign className="h-3 w-3" />
+                        Payment {selectedTicket.payment_hold_id.slice(0, 8)}
+                      </Link>
+                    )}
+                  </div>
+                )}
               </div>
-            </div>
-          ))}
-        </div>
-      )}
-
-      {/* Reply Modal */}
-      {selectedTicket && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white dark:bg-slate-900 rounded-2xl max-w-2xl w-full">
-            <div className="border-b border-gray-200 dark:border-slate-800 px-6 py-4 flex items-center justify-between">
-              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
-                Reply to {selectedTicket.user_name}
-              </h2>
               <button
-                onClick={() => {
-                  setSelectedTicket(null)
-                  setReplyText('')
-                }}
+                onClick={closeThread}
                 className="text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200"
               >
                 <XCircle className="h-6 w-6" />
               </button>
             </div>
 
-            <div className="p-6 space-y-4">
-              <div className="p-4 bg-gray-50 dark:bg-slate-800 rounded-lg">
-                <p className="text-sm font-medium text-gray-500 dark:text-slate-400 mb-1">
-                  Original Message:
-                </p>
-                <p className="text-sm text-gray-900 dark:text-white">{selectedTicket.message}</p>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
-                  Your Reply:
+            {/* Triage */}
+            <div className="px-6 py-3 border-b border-gray-200 dark:border-slate-800 grid grid-cols-2 md:grid-cols-4 gap-3">
+              {([
+                ['Status', selectedTicket.status, SUPPORT_STATUSES.map((s) => [s, s]), (value: string) => updateTicket({ status: value as SupportStatus })],
+                ['Priority', selectedTicket.priority, SUPPORT_PRIORITIES.map((p) => [p, p]), (value: string) => updateTicket({ priority: value as SupportPriority })],
+                ['Category', selectedTicket.category, Object.entries(SUPPORT_CATEGORIES), (value: string) => updateTicket({ category: value as SupportCategory })],
+                [
+                  'Assignee',
+                  selectedTicket.assigned_admin_id || '',
+                  [['', 'Unassigned'], ...admins.map((a) => [a.id, a.name || a.email])],
+                  (value: string) => updateTicket({ assignedAdminId: value || null }),
+                ],
+              ] as [string, string, string[][], (value: string) => void][]).map(([label, value, options, onChange]) => (
+                <label key={label} className="text-xs font-medium text-gray-500 dark:text-slate-400">
+                  {label}
+                  <select
+                    value={value}
+                    disabled={actionLoading}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="mt-1 w-full px-2 py-1.5 rounded-lg text-sm border border-gray-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-gray-900 dark:text-white"
+                  >
+                    {options.map(([optionValue, optionLabel]) => (
+                      <option key={optionValue} value={optionValue}>{optionLabel}</option>
+                    ))}
+                  </select>
                 </label>
-                <textarea
-                  value={replyText}
-                  onChange={(e) => setReplyText(e.target.value)}
-                  placeholder="Type your reply..."
-                  className="w-full p-3 border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  rows={6}
-                />
-              </div>
+              ))}
+            </div>
 
+            {/* Replies */}
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+              {replies.length === 0 && (
+                <div className="flex justify-center py-6">
+                  <LoadingSpinner size="sm" />
+                </div>
+              )}
+              {replies.map((reply) => (
+                <div
+                  key={reply.id}
+                  className={`p-3 rounded-lg ${
+                    reply.author_role === 'admin'
+                      ? 'ml-8 bg-blue-50 dark:bg-blue-950'
+                      : 'mr-8 bg-gray-50 dark:bg-slate-800'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    {reply.author_role === 'admin' ? (
+                      <Send className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+                    ) : (
+                      <User className="h-4 w-4 text-gray-400" />
+                    )}
+                    <span className="text-xs font-medium text-gray-700 dark:text-slate-300">
+                      {reply.author_role === 'admin' ? adminName(reply.author_id) : selectedTicket.user_name}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-slate-500">
+                      {new Date(reply.created_at).toLocaleString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap">{reply.body}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Reply box */}
+            <div className="border-t border-gray-200 dark:border-slate-800 p-4 space-y-3">
+              <textarea
+                value={replyText}
+                onChange={(e) => setReplyText(e.target.value)}
+                placeholder="Type your reply..."
+                className="w-full p-3 border border-gray-300 dark:border-slate-700 rounded-lg bg-white dark:bg-slate-900 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                rows={4}
+              />
               <div className="flex gap-3">
                 <button
-                  onClick={handleReply}
+                  onClick={() => handleReply(false)}
                   disabled={!replyText.trim() || actionLoading}
                   className="flex-1 px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
                 >
@@ -359,19 +489,18 @@ export default function SupportTicketsPage() {
                   )}
                 </button>
                 <button
-                  onClick={() => {
-                    setSelectedTicket(null)
-                    setReplyText('')
-                  }}
-                  className="px-4 py-3 bg-gray-200 hover:bg-gray-300 dark:bg-slate-800 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-lg font-medium transition-colors"
+                  onClick={() => handleReply(true)}
+                  disabled={!replyText.trim() || actionLoading}
+                  className="px-4 py-3 bg-gray-200 hover:bg-gray-300 disabled:opacity-50 dark:bg-slate-800 dark:hover:bg-slate-700 text-gray-700 dark:text-slate-300 rounded-lg font-medium transition-colors flex items-center gap-2"
                 >
-                  Cancel
+                  <CheckCircle className="h-5 w-5" />
+                  Reply &amp; Resolve
                 </button>
               </div>
             </div>
           </div>
-        </div>
-      )}
+        )}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,200 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useProAuth } from '../../../../contexts/ProAuthContext'
+import { supabase } from '../../../../lib/supabaseClient'
+import type { ContractorAnalytics } from '../../../../lib/contractorAnalytics'
+import {
+  ArrowLeft,
+  AlertCircle,
+  BarChart3,
+  Trophy,
+  Clock,
+  DollarSign,
+  Lock
+} from 'lucide-react'
+
+const PERIODS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '12 months' }
+]
+
+function percent(value: number | null): string {
+  return value == null ? '—' : `${Math.round(value * 100)}%`
+}
+
+function money(value: number | null): string {
+  return value == null ? '—' : `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+}
+
+function duration(minutes: number | null): string {
+  if (minutes == null) return '—'
+  if (minutes < 60) return `${minutes} min`
+  if (minutes < 48 * 60) return `${Math.round(minutes / 6) / 10} hr`
+  return `${Math.round(minutes / 1440)} days`
+}
+
+export default function ContractorAnalyticsPage() {
+  const { user, contractorProfile } = useProAuth()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [locked, setLocked] = useState(false)
+  const [days, setDays] = useState(90)
+  const [analytics, setAnalytics] = useState<ContractorAnalytics | null>(null)
+
+  const loadAnalytics = useCallback(async (periodDays: number) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/api/contractors/analytics?days=${periodDays}`, {
+        headers: { 'Authorization': `Bearer ${session?.access_token}` }
+      })
+      const result = await response.json()
+
+      if (response.status === 403) {
+        setLocked(true)
+        return
+      }
+      if (!response.ok) throw new Error(result.error || 'Failed to load analytics')
+
+      setAnalytics(result.analytics)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load analytics')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user && contractorProfile) loadAnalytics(days)
+  }, [user, contractorProfile, days, loadAnalytics])
+
+  if (!user || !contractorProfile) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-4">Contractor access required</h2>
+          <Link href="/pro" className="btn-primary">Go to Pro Dashboard</Link>
+        </div>
+      </div>
+    )
+  }
+
+  const stats = analytics ? [
+    { label: 'Win rate', value: percent(analytics.winRate), detail: `${analytics.won} of ${analytics.bids} bids won`, icon: Trophy },
+    { label: 'Median response', value: duration(analytics.medianResponseMinutes), detail: 'From job posted to your bid', icon: Clock },
+    { label: 'Won bid value', value: money(analytics.wonValue), detail: `Average ${money(analytics.averageWonBid)}`, icon: BarChart3 },
+    { label: 'Payouts', value: money(analytics.payouts), detail: 'Released from escrow', icon: DollarSign }
+  ] : []
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6">
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          href="/dashboard/contractor"
+          className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Link>
+
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-3 rounded-xl bg-blue-100">
+              <BarChart3 className="h-6 w-6 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+              <p className="text-gray-600">How your bids are performing</p>
+            </div>
+          </div>
+
+          {!locked && (
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {PERIODS.map(period => (
+                <option key={period.days} value={period.days}>{period.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+          <span className="text-red-700">{error}</span>
+        </div>
+      )}
+
+      {locked ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Lock className="h-5 w-5 text-gray-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Upgrade to Pro Plus</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            See your win rate, response time and earnings by category, and find out where your
+            bids are landing.
+          </p>
+          <Link href="/pricing" className="btn-primary">View Plans</Link>
+        </div>
+      ) : loading ? (
+        <div className="text-center text-gray-500 py-12">Loading analytics...</div>
+      ) : analytics && (
+        <div className="space-y-8">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-white rounded-xl border border-gray-200 p-6">
+                <div className="flex items-center gap-2 text-sm text-gray-500 mb-2">
+                  <stat.icon className="h-4 w-4" />
+                  {stat.label}
+                </div>
+                <div className="text-2xl font-bold text-gray-900">{stat.value}</div>
+                <div className="text-sm text-gray-500 mt-1">{stat.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">By Category</h2>
+
+            {analytics.byCategory.length === 0 ? (
+              <p className="text-sm text-gray-500">No bids in this period.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-100">
+                    <th className="py-2 font-medium">Category</th>
+                    <th className="py-2 font-medium text-right">Bids</th>
+                    <th className="py-2 font-medium text-right">Won</th>
+                    <th className="py-2 font-medium text-right">Win rate</th>
+                    <th className="py-2 font-medium text-right">Won value</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {analytics.byCategory.map(row => (
+                    <tr key={row.category}>
+                      <td className="py-2 text-gray-900">{row.category}</td>
+                      <td className="py-2 text-right text-gray-700">{row.bids}</td>
+                      <td className="py-2 text-right text-gray-700">{row.won}</td>
+                      <td className="py-2 text-right text-gray-700">{percent(row.winRate)}</td>
+                      <td className="py-2 text-right text-gray-700">{money(row.wonValue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,6 +5,13 @@ import Link from 'next/link'
 import { useProAuth } from '../../../../contexts/ProAuthContext'
 import { supabase } from '../../../../lib/supabaseClient'
 import LoadingSpinner from '../../../../components/LoadingSpinner'
+import {
+  BILLING_PLANS,
+  BILLING_STATUS_LABELS,
+  BillingInterval,
+  BillingSubscription,
+  PaidPlan
+} from '../../../../lib/billingPlans'
 import {
   ArrowLeft,
   CreditCard,
@@ -19,9 +26,18 @@ import {
   AlertCircle,
   Banknote,
   Receipt,
-  Wallet
+  Wallet,
+  Sparkles
 } from 'lucide-react'
 
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`
+  }
+}
+
 interface Transaction {
   id: string
   job_id: string
@@ -44,6 +60,27 @@ export default function ContractorBillingPage() {
     completedPayouts: 0,
     thisMonthEarnings: 0
   })
+  const [subscription, setSubscription] = useState<BillingSubscription | null>(null)
+  const [graceEndsAt, setGraceEndsAt] = useState<string | null>(null)
+  const [nextPlan, setNextPlan] = useState<PaidPlan>('pro')
+  const [nextInterval, setNextInterval] = useState<BillingInterval>('month')
+  const [planPreview, setPlanPreview] = useState<{ amountDue: number; currency: string } | null>(null)
+  const [subscriptionBusy, setSubscriptionBusy] = useState(false)
+  const [subscriptionError, setSubscriptionError] = useState<string | null>(null)
+  const [subscriptionMessage, setSubscriptionMessage] = useState<string | null>(null)
+
+  const loadSubscription = async () => {
+    const response = await fetch('/api/stripe/subscription', { headers: await authHeaders() })
+    if (!response.ok) return
+
+    const result = await response.json()
+    setSubscription(result.subscription)
+    setGraceEndsAt(result.graceEndsAt)
+    if (result.subscription) {
+      setNextPlan(result.subscription.plan)
+      setNextInterval(result.subscription.billing_interval)
+    }
+  }
 
   useEffect(() => {
     const loadData = async () => {
@@ -62,6 +99,11 @@ export default function ContractorBillingPage() {
           setStripeConnectStatus(stripeData)
         }
 
+        await loadSubscription()
+        if (new URLSearchParams(window.location.search).get('subscription') === 'success') {
+          setSubscriptionMessage('Thanks for subscribing! Your plan is active as soon as Stripe confirms the payment.')
+        }
+
         // Load transactions (mock data for now - replace with real data)
         // TODO: Create a transactions table and fetch real payment data
         const mockTransactions: Transaction[] = []
@@ -118,6 +160,69 @@ export default function ContractorBillingPage() {
     }
   }
 
+  const handleManageSubscription = async () => {
+    setSubscriptionError(null)
+    setSubscriptionBusy(true)
+    try {
+      const response = await fetch('/api/stripe/portal', { method: 'POST', headers: await authHeaders() })
+      const result = await response.json()
+
+      if (!response.ok || !result.url) {
+        throw new Error(result.error || 'Failed to open billing portal')
+      }
+
+      window.location.href = result.url
+    } catch (err: any) {
+      setSubscriptionError(err.message || 'Failed to open billing portal')
+      setSubscriptionBusy(false)
+    }
+  }
+
+  const handlePreviewPlanChange = async () => {
+    setSubscriptionError(null)
+    setSubscriptionMessage(null)
+    setSubscriptionBusy(true)
+    try {
+      const response = await fetch('/api/stripe/subscription/preview', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ plan: nextPlan, interval: nextInterval })
+      })
+      const result = await response.json()
+
+      if (!response.ok) throw new Error(result.error || 'Failed to preview plan change')
+
+      setPlanPreview(result)
+    } catch (err: any) {
+      setSubscriptionError(err.message || 'Failed to preview plan change')
+    } finally {
+      setSubscriptionBusy(false)
+    }
+  }
+
+  const handleConfirmPlanChange = async () => {
+    setSubscriptionError(null)
+    setSubscriptionBusy(true)
+    try {
+      const response = await fetch('/api/stripe/subscription', {
+        method: 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify({ plan: nextPlan, interval: nextInterval })
+      })
+      const result = await response.json()
+
+      if (!response.ok) throw new Error(result.error || 'Failed to change plan')
+
+      setPlanPreview(null)
+      setSubscriptionMessage(`You're now on ${BILLING_PLANS[nextPlan].name}, billed ${nextInterval === 'year' ? 'annually' : 'monthly'}.`)
+      await loadSubscription()
+    } catch (err: any) {
+      setSubscriptionError(err.message || 'Failed to change plan')
+    } finally {
+      setSubscriptionBusy(false)
+    }
+  }
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'completed':
@@ -161,7 +266,146 @@ export default function ContractorBillingPage() {
           </Link>
           <div>
             <h1 className="text-2xl font-bold text-slate-900">Billing & Payments</h1>
-            <p className="text-sm text-slate-600 mt-1">Manage your Stripe account and view transaction history</p>
+            <p className="text-sm text-slate-600 mt-1">Manage your subscription, Stripe account and transaction history</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Subscription */}
+      <div className="bg-white rounded-2xl border border-slate-200 p-6 shadow-sm">
+        <div className="flex items-start gap-4">
+          <div className="p-3 bg-emerald-100 rounded-lg">
+            <Sparkles className="h-6 w-6 text-emerald-600" />
+          </div>
+          <div className="flex-1 space-y-4">
+            <h2 className="text-lg font-semibold text-slate-900">Subscription</h2>
+
+            {subscriptionMessage && (
+              <div className="flex items-start gap-2 p-3 bg-emerald-50 rounded-lg">
+                <CheckCircle className="h-4 w-4 text-emerald-600 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-emerald-800">{subscriptionMessage}</p>
+              </div>
+            )}
+
+            {subscriptionError && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 rounded-lg">
+                <AlertCircle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-red-800">{subscriptionError}</p>
+              </div>
+            )}
+
+            {!subscription || ['canceled', 'incomplete_expired'].includes(subscription.status) ? (
+              <div className="space-y-3">
+                <p className="text-slate-600">
+                  You&apos;re on the free plan. Upgrade to Pro Plus for priority job access and analytics, or add Signals
+                  for permits and leads in your area.
+                </p>
+                <Link
+                  href="/pricing"
+                  className="inline-flex px-6 py-3 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors items-center gap-2"
+                >
+                  View Plans
+                </Link>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                  <span className="font-medium text-slate-900">{BILLING_PLANS[subscription.plan].name}</span>
+                  <span className="text-sm text-slate-600">
+                    Billed {subscription.billing_interval === 'year' ? 'annually' : 'monthly'}
+                  </span>
+                  <span className="text-sm text-slate-600">{BILLING_STATUS_LABELS[subscription.status]}</span>
+                  {subscription.current_period_end && (
+                    <span className="text-sm text-slate-600">
+                      {subscription.cancel_at_period_end ? 'Ends' : 'Renews'} {new Date(subscription.current_period_end).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+
+                {subscription.status === 'past_due' && (
+                  <div className="flex items-start gap-2 p-3 bg-amber-50 rounded-lg">
+                    <AlertCircle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-amber-800">
+                      Your last renewal payment failed. Update your card to keep your plan
+                      {graceEndsAt ? ` — features switch off on ${new Date(graceEndsAt).toLocaleDateString()}` : ''}.
+                    </p>
+                  </div>
+                )}
+
+                {subscription.status === 'unpaid' && (
+                  <div className="flex items-start gap-2 p-3 bg-red-50 rounded-lg">
+                    <AlertCircle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-red-800">
+                      We couldn&apos;t collect payment, so your plan features are off. Update your card to restore them.
+                    </p>
+                  </div>
+                )}
+
+                {(subscription.status === 'active' || subscription.status === 'trialing') && (
+                  <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1">Plan</label>
+                      <select
+                        value={nextPlan}
+                        onChange={(e) => { setNextPlan(e.target.value as PaidPlan); setPlanPreview(null) }}
+                        className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {(Object.keys(BILLING_PLANS) as PaidPlan[]).map(plan => (
+                          <option key={plan} value={plan}>{BILLING_PLANS[plan].name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-600 mb-1">Billing</label>
+                      <select
+                        value={nextInterval}
+                        onChange={(e) => { setNextInterval(e.target.value as BillingInterval); setPlanPreview(null) }}
+                        className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        <option value="month">Monthly</option>
+                        <option value="year">Annually</option>
+                      </select>
+                    </div>
+                    {planPreview ? (
+                      <button
+                        onClick={handleConfirmPlanChange}
+                        disabled={subscriptionBusy}
+                        className="px-6 py-2 bg-emerald-600 hover:bg-emerald-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {planPreview.amountDue > 0
+                          ? `Pay $${planPreview.amountDue.toFixed(2)} and switch`
+                          : 'Confirm switch'}
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handlePreviewPlanChange}
+                        disabled={subscriptionBusy || (nextPlan === subscription.plan && nextInterval === subscription.billing_interval)}
+                        className="px-6 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 font-medium rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Change Plan
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {planPreview && (
+                  <p className="text-xs text-slate-500">
+                    {planPreview.amountDue > 0
+                      ? 'The prorated difference for the rest of this billing period is charged to your card on file now.'
+                      : 'Unused time on your current plan is credited to your next invoice.'}
+                  </p>
+                )}
+
+                <button
+                  onClick={handleManageSubscription}
+                  disabled={subscriptionBusy}
+                  className="px-6 py-3 bg-slate-600 hover:bg-slate-700 text-white font-medium rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                  Manage Billing
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
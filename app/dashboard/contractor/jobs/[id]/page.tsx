@@ -6,7 +6,11 @@ import { useProAuth } from '../../../../../contexts/ProAuthContext'
 import { supabase } from '../../../../../lib/supabaseClient'
 import dynamic from 'next/dynamic'
 import LoadingSpinner from '../../../../../components/LoadingSpinner'
-import { ArrowLeft, MapPin, Clock, DollarSign, User, Phone, Mail, Navigation, CheckCircle, Send, MessageSquare, AlertCircle } from 'lucide-react'
+import JobReview from '../../../../../components/JobReview'
+import BidLineItemsEditor, { BidDraft } from '../../../../../components/BidLineItemsEditor'
+import { BID_LINE_KINDS, BidLineItem, DEFAULT_BID_VALIDITY_HOURS, bidTotal, defaultLineItems, lineItemTotal } from '../../../../../lib/bids'
+import { OPEN_JOB_STATUSES } from '../../../../../lib/bidLifecycle'
+import { ArrowLeft, MapPin, Clock, DollarSign, User, Phone, Mail, Navigation, CheckCircle, Send, MessageSquare, AlertCircle, LifeBuoy } from 'lucide-react'
 import Link from 'next/link'
 
 // Dynamic imports
@@ -23,9 +27,10 @@ export default function ContractorJobDetailsPage() {
   const [markingComplete, setMarkingComplete] = useState(false)
 
   // Bidding state
-  const [bidAmount, setBidAmount] = useState('')
+  const [bidDraft, setBidDraft] = useState<BidDraft>({ lineItems: [], etaMinutes: '', validForHours: String(DEFAULT_BID_VALIDITY_HOURS) })
   const [bidMessage, setBidMessage] = useState('')
   const [submittingBid, setSubmittingBid] = useState(false)
+  const [withdrawingBid, setWithdrawingBid] = useState(false)
   const [showSuccessModal, setShowSuccessModal] = useState(false)
   const [successMessage, setSuccessMessage] = useState('')
 
@@ -87,6 +92,15 @@ export default function ContractorJobDetailsPage() {
     fetchJobDetails()
   }, [user, jobId, router])
 
+  // Prefill the bid with the contractor's diagnostic fee and peak/surge rate
+  useEffect(() => {
+    if (!job) return
+    setBidDraft(prev => ({
+      ...prev,
+      lineItems: defaultLineItems(contractorProfile || {}, job.priority === 'emergency')
+    }))
+  }, [job?.id, job?.priority, contractorProfile])
+
   const openInMaps = () => {
     if (!job?.address) return
 
@@ -105,19 +119,22 @@ export default function ContractorJobDetailsPage() {
     setMarkingComplete(true)
 
     try {
-      // Update job status to 'completed' and mark contractor_marked_complete
-      const { error } = await supabase
-        .from('homeowner_jobs')
-        .update({
-          status: 'completed',
-          contractor_marked_complete: true,
-          completed_date: new Date().toISOString()
-        })
-        .eq('id', jobId)
-
-      if (error) {
-        console.error('Error marking job as complete:', error)
-        setSuccessMessage('Failed to mark job as complete. Please try again.')
+      const { data: { session } } = await supabase.auth.getSession()
+
+      // Move the job to 'completed' and mark contractor_marked_complete
+      const response = await fetch(`/api/jobs/${jobId}/status`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ status: 'completed' })
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        console.error('Error marking job as complete:', result.error)
+        setSuccessMessage(result.error || 'Failed to mark job as complete. Please try again.')
         setShowSuccessModal(true)
       } else {
         setSuccessMessage('Job marked as complete! The homeowner will review and release payment.')
@@ -144,8 +161,10 @@ export default function ContractorJobDetailsPage() {
       return
     }
 
-    if (!bidAmount || parseFloat(bidAmount) <= 0) {
-      setSuccessMessage('Please enter a valid bid amount')
+    const total = bidTotal(bidDraft.lineItems)
+
+    if (total <= 0) {
+      setSuccessMessage('Please add at least one priced line item')
       setShowSuccessModal(true)
       return
     }
@@ -155,29 +174,31 @@ export default function ContractorJobDetailsPage() {
     setSubmittingBid(true)
 
     try {
-      const { error } = await supabase
-        .from('job_bids')
-        .insert([{
-          job_id: jobId,
-          contractor_id: user.id,
-          homeowner_id: job.homeowner_id,
-          bid_amount: parseFloat(bidAmount),
-          description: bidMessage || '',
-          status: 'pending'
-        }])
-
-      if (error) {
-        console.error('Error submitting bid:', error)
-
-        // Check if it's a duplicate bid error
-        if (error.message.includes('duplicate key') || error.message.includes('job_bids_job_id_contractor_id_key')) {
-          setSuccessMessage('You have already submitted a bid for this job. Your bid is awaiting approval from the homeowner. You can message them in the Messages section.')
-        } else {
-          setSuccessMessage('Failed to submit bid. Please try again.')
-        }
+      const { data: { session } } = await supabase.auth.getSession()
+
+      const response = await fetch('/api/bids/submit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({
+          jobId,
+          lineItems: bidDraft.lineItems,
+          etaMinutes: bidDraft.etaMinutes ? Number(bidDraft.etaMinutes) : null,
+          validForHours: Number(bidDraft.validForHours),
+          message: bidMessage || ''
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error('Error submitting bid:', result.error)
+        setSuccessMessage(result.error || 'Failed to submit bid. Please try again.')
         setShowSuccessModal(true)
       } else {
-        setSuccessMessage(`Bid of $${parseFloat(bidAmount).toFixed(2)} submitted successfully! The homeowner will be notified.`)
+        setSuccessMessage(`Bid of $${total.toFixed(2)} submitted successfully! The homeowner will be notified.`)
         setShowSuccessModal(true)
         // Redirect after modal is shown
         setTimeout(() => {
@@ -186,17 +207,49 @@ export default function ContractorJobDetailsPage() {
       }
     } catch (err: any) {
       console.error('Error submitting bid:', err)
+      setSuccessMessage('Failed to submit bid. Please try again.')
+      setShowSuccessModal(true)
+    } finally {
+      setSubmittingBid(false)
+    }
+  }
+
+  const handleWithdrawBid = async () => {
+    if (!job?.myBid) return
+
+    if (!confirm('Withdraw your bid? The homeowner will be notified and you cannot bid on this job again.')) {
+      return
+    }
+
+    setWithdrawingBid(true)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+
+      const response = await fetch('/api/bids/withdraw', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ bidId: job.myBid.id })
+      })
 
-      // Check if it's a duplicate bid error
-      const errorMsg = err?.message || ''
-      if (errorMsg.includes('duplicate key') || errorMsg.includes('job_bids_job_id_contractor_id_key')) {
-        setSuccessMessage('You have already submitted a bid for this job. Your bid is awaiting approval from the homeowner. You can message them in the Messages section.')
+      const result = await response.json()
+
+      if (!response.ok) {
+        setSuccessMessage(result.error || 'Failed to withdraw bid. Please try again.')
       } else {
-        setSuccessMessage('Failed to submit bid. Please try again.')
+        setJob((prev: any) => ({ ...prev, myBid: result.bid }))
+        setSuccessMessage('Your bid has been withdrawn.')
       }
       setShowSuccessModal(true)
+    } catch (err) {
+      console.error('Error withdrawing bid:', err)
+      setSuccessMessage('Failed to withdraw bid. Please try again.')
+      setShowSuccessModal(true)
     } finally {
-      setSubmittingBid(false)
+      setWithdrawingBid(false)
     }
   }
 
@@ -268,6 +321,22 @@ export default function ContractorJobDetailsPage() {
             <div className="text-sm text-slate-500">
               Posted {new Date(job.created_at).toLocaleDateString()}
             </div>
+            <Link
+              href={`/support/tickets?jobId=${jobId}`}
+              className="inline-flex items-center gap-1 mt-2 text-sm text-slate-500 hover:text-slate-900"
+            >
+              <LifeBuoy className="w-4 h-4" />
+              Get help with this job
+            </Link>
+            {job.contractor_en_route_at && (
+              <Link
+                href={`/jobs/${jobId}/visit`}
+                className="flex items-center justify-end gap-1 mt-1 text-sm text-slate-500 hover:text-slate-900"
+              >
+                <MapPin className="w-4 h-4" />
+                Visit report
+              </Link>
+            )}
           </div>
         </div>
 
@@ -357,7 +426,7 @@ export default function ContractorJobDetailsPage() {
       )}
 
       {/* Bidding Section - Show if contractor hasn't bid yet */}
-      {!job.myBid && job.status === 'pending' && (
+      {!job.myBid && OPEN_JOB_STATUSES.includes(job.status) && (
         <div className="bg-white rounded-lg border border-blue-200 p-6">
           <div className="flex items-center gap-3 mb-4">
             <DollarSign className="h-6 w-6 text-blue-600" />
@@ -365,23 +434,11 @@ export default function ContractorJobDetailsPage() {
           </div>
 
           <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-700 mb-1">
-                Your Bid Amount ($) <span className="text-red-500">*</span>
-              </label>
-              <div className="relative">
-                <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-400" />
-                <input
-                  type="number"
-                  placeholder="Enter amount"
-                  value={bidAmount}
-                  onChange={(e) => setBidAmount(e.target.value)}
-                  className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  min="0"
-                  step="0.01"
-                />
-              </div>
-            </div>
+            <BidLineItemsEditor
+              value={bidDraft}
+              onChange={setBidDraft}
+              rates={contractorProfile || {}}
+            />
 
             <div>
               <label className="block text-sm font-medium text-slate-700 mb-1">
@@ -401,7 +458,7 @@ export default function ContractorJobDetailsPage() {
 
             <button
               onClick={handleSubmitBid}
-              disabled={submittingBid || !bidAmount}
+              disabled={submittingBid || bidDraft.lineItems.length === 0}
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
             >
               <Send className="h-4 w-4" />
@@ -432,6 +489,8 @@ export default function ContractorJobDetailsPage() {
               }`}>
                 {job.myBid.status === 'accepted' ? '✅ Your Bid Was Accepted!' :
                  job.myBid.status === 'rejected' ? '❌ Your Bid Was Not Accepted' :
+                 job.myBid.status === 'withdrawn' ? 'Your Bid Was Withdrawn' :
+                 job.myBid.status === 'expired' ? 'Your Bid Expired' :
                  '⏳ Your Bid Is Pending'}
               </h3>
               <p className={`text-sm ${
@@ -442,12 +501,38 @@ export default function ContractorJobDetailsPage() {
                 Your bid: <strong>${job.myBid.bid_amount?.toFixed(2)}</strong>
                 {job.myBid.status === 'pending' && ' - Waiting for homeowner to review'}
                 {job.myBid.status === 'rejected' && ' - The homeowner chose another contractor'}
+                {job.myBid.status === 'withdrawn' && ' - You withdrew this bid'}
+                {job.myBid.status === 'expired' && ' - This bid expired before the homeowner responded'}
               </p>
               {job.myBid.description && (
                 <p className="text-sm text-slate-600 mt-2 italic">
                   Your message: "{job.myBid.description}"
                 </p>
               )}
+              {job.myBid.line_items?.length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm text-slate-700">
+                  {job.myBid.line_items.map((item: BidLineItem, index: number) => (
+                    <li key={index} className="flex justify-between gap-4">
+                      <span>{BID_LINE_KINDS[item.kind]}: {item.description} ({item.quantity} × ${item.unit_price.toFixed(2)})</span>
+                      <span className="font-medium">${lineItemTotal(item).toFixed(2)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {job.myBid.status === 'pending' && job.myBid.valid_until && (
+                <p className="text-xs text-slate-500 mt-2">
+                  Valid until {new Date(job.myBid.valid_until).toLocaleString()}
+                </p>
+              )}
+              {job.myBid.status === 'pending' && (
+                <button
+                  onClick={handleWithdrawBid}
+                  disabled={withdrawingBid}
+                  className="mt-3 px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-200 hover:bg-red-50 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  {withdrawingBid ? 'Withdrawing...' : 'Withdraw Bid'}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -518,12 +603,20 @@ export default function ContractorJobDetailsPage() {
         </div>
       )}
 
+      {/* Reviews (once payment is released) */}
+      {job.status === 'completed' && (
+        <JobReview jobId={jobId} otherPartyName={homeowner?.name || 'the homeowner'} />
+      )}
+
       {/* Live Chat */}
       {showChat && (
         <div className="bg-white rounded-lg border border-slate-200 p-6">
           <h2 className="text-lg font-semibold text-slate-900 mb-4">💬 Live Chat</h2>
           <JobChat
             jobId={jobId}
+            jobTitle={job.title}
+            homeownerId={job.homeowner_id}
+            contractorId={user.id}
             homeownerName={homeowner.name || 'Homeowner'}
             contractorName={user.email?.split('@')[0] || 'You'}
           />
@@ -6,6 +6,8 @@ import { useRouter } from 'next/navigation'
 import { useProAuth } from '../../../../contexts/ProAuthContext'
 import { supabase } from '../../../../lib/supabaseClient'
 import LoadingSpinner from '../../../../components/LoadingSpinner'
+import BidLineItemsEditor, { BidDraft } from '../../../../components/BidLineItemsEditor'
+import { DEFAULT_BID_VALIDITY_HOURS, bidTotal, defaultLineItems } from '../../../../lib/bids'
 import { useSearchParams } from 'next/navigation'
 import {
   ArrowLeft,
@@ -83,7 +85,7 @@ export default function ContractorJobsPage() {
 
   // Bidding state
   const [bidding, setBidding] = useState<string | null>(null)
-  const [bidAmount, setBidAmount] = useState<Record<string, string>>({})
+  const [bidDraft, setBidDraft] = useState<BidDraft>({ lineItems: [], etaMinutes: '', validForHours: String(DEFAULT_BID_VALIDITY_HOURS) })
   const [bidMessage, setBidMessage] = useState<Record<string, string>>({})
   const [showSuccessModal, setShowSuccessModal] = useState(false)
   const [successMessage, setSuccessMessage] = useState('')
@@ -168,7 +170,18 @@ export default function ContractorJobsPage() {
         console.error('Error fetching direct offers:', directOffersError);
       }
 
-      // 3. Fetch jobs for my bids
+      // 3. Fetch jobs my company dispatched to me
+      const { data: assignedJobs, error: assignedError } = await supabase
+        .from('homeowner_jobs')
+        .select('*')
+        .eq('assigned_tech_id', user.id)
+        .order('created_at', { ascending: false});
+
+      if (assignedError && assignedError.code !== 'PGRST116') {
+        console.error('Error fetching assigned jobs:', assignedError);
+      }
+
+      // 4. Fetch jobs for my bids
       let jobsFromBids: any[] = [];
       if (myBids && myBids.length > 0) {
         const jobIds = myBids.map(bid => bid.job_id);
@@ -194,15 +207,21 @@ export default function ContractorJobsPage() {
         }
       }
 
-      // 4. Transform direct offers to include source marker
+      // 5. Transform direct offers and assignments to include source marker
       const transformedDirectOffers = (directOffers || []).map(job => ({
         ...job,
         source: 'direct_offer',
         bid_status: 'direct_offer' // Special status for direct offers
       }));
 
-      // 5. Combine both lists, removing duplicates (prefer bid version if exists)
-      const allJobs = [...transformedDirectOffers, ...jobsFromBids];
+      const transformedAssignments = (assignedJobs || []).map(job => ({
+        ...job,
+        source: 'assignment',
+        bid_status: 'accepted' // Won by my company
+      }));
+
+      // 6. Combine the lists, removing duplicates (prefer bid version if exists)
+      const allJobs = [...transformedAssignments, ...transformedDirectOffers, ...jobsFromBids];
       const uniqueJobs = allJobs.filter((job, index, self) =>
         index === self.findIndex(j => j.id === job.id)
       );
@@ -260,11 +279,11 @@ export default function ContractorJobsPage() {
       return
     }
 
-    const amount = bidAmount[job.id]
     const message = bidMessage[job.id]
+    const total = bidTotal(bidDraft.lineItems)
 
-    if (!amount || parseFloat(amount) <= 0) {
-      setSuccessMessage('Please enter a valid bid amount')
+    if (total <= 0) {
+      setSuccessMessage('Please add at least one priced line item')
       setShowSuccessModal(true)
       return
     }
@@ -272,38 +291,34 @@ export default function ContractorJobsPage() {
     setBidding(job.id)
 
     try {
-      console.log('[BID] Submitting bid:', {
-        job_id: job.id,
-        contractor_id: user.id,
-        homeowner_id: job.homeowner_id,
-        bid_amount: parseFloat(amount),
-        message: message || '',
-        status: 'pending'
+      const { data: { session } } = await supabase.auth.getSession()
+
+      const response = await fetch('/api/bids/submit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({
+          jobId: job.id,
+          lineItems: bidDraft.lineItems,
+          etaMinutes: bidDraft.etaMinutes ? Number(bidDraft.etaMinutes) : null,
+          validForHours: Number(bidDraft.validForHours),
+          message: message || ''
+        })
       })
 
-      const { data, error } = await supabase
-        .from('job_bids')
-        .insert([{
-          job_id: job.id,
-          contractor_id: user.id,
-          homeowner_id: job.homeowner_id,
-          bid_amount: parseFloat(amount),
-          message: message || '',
-          status: 'pending'
-        }])
-        .select()
-
-      if (error) {
-        console.error('[BID] Error submitting bid:', error)
-        console.error('[BID] Error details:', JSON.stringify(error, null, 2))
-        setSuccessMessage(`Failed to submit bid: ${error.message}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        console.error('[BID] Error submitting bid:', result.error)
+        setSuccessMessage(`Failed to submit bid: ${result.error}`)
         setShowSuccessModal(true)
       } else {
-        setSuccessMessage(`Bid of $${parseFloat(amount).toFixed(2)} submitted successfully! The homeowner will be notified.`)
+        setSuccessMessage(`Bid of $${total.toFixed(2)} submitted successfully! The homeowner will be notified.`)
         setShowSuccessModal(true)
         fetchJobs()
         fetchMyJobs() // Refresh my jobs list
-        setBidAmount(prev => ({ ...prev, [job.id]: '' }))
         setBidMessage(prev => ({ ...prev, [job.id]: '' }))
         setShowBidModal(false) // Close the bid modal
         setSelectedJobForBid(null)
@@ -317,6 +332,16 @@ export default function ContractorJobsPage() {
     }
   }
 
+  const openBidModal = (job: Job) => {
+    setBidDraft({
+      lineItems: defaultLineItems(contractorProfile || {}, job.priority === 'emergency'),
+      etaMinutes: '',
+      validForHours: String(DEFAULT_BID_VALIDITY_HOURS)
+    })
+    setSelectedJobForBid(job)
+    setShowBidModal(true)
+  }
+
   const exportCSV = ()=>{
     const rows = [
       ['Title','Category','ZIP','Priority','Status','Created Date'],
@@ -602,10 +627,7 @@ export default function ContractorJobsPage() {
                         View Details
                       </Link>
                       <button
-                        onClick={() => {
-                          setSelectedJobForBid(job)
-                          setShowBidModal(true)
-                        }}
+                        onClick={() => openBidModal(job)}
                         className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium text-sm rounded-lg transition-colors"
                       >
                         Bid Now
@@ -718,10 +740,7 @@ export default function ContractorJobsPage() {
                     {/* Action Buttons */}
                     {job.bid_status === 'direct_offer' ? (
                       <button
-                        onClick={() => {
-                          setSelectedJobForBid(job)
-                          setShowBidModal(true)
-                        }}
+                        onClick={() => openBidModal(job)}
                         className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-medium rounded-lg transition-all text-sm shadow-md hover:shadow-lg"
                       >
                         <DollarSign className="h-4 w-4" />
@@ -868,23 +887,11 @@ export default function ContractorJobsPage() {
               <div className="border-t border-slate-200 pt-6">
                 <h4 className="font-semibold text-slate-900 mb-4">Submit Your Bid</h4>
                 <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-slate-700 mb-1">
-                      Your Bid Amount ($) <span className="text-red-500">*</span>
-                    </label>
-                    <div className="relative">
-                      <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-400" />
-                      <input
-                        type="number"
-                        placeholder="Enter amount"
-                        value={bidAmount[selectedJobForBid.id] || ''}
-                        onChange={(e) => setBidAmount(prev => ({ ...prev, [selectedJobForBid.id]: e.target.value }))}
-                        className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        min="0"
-                        step="0.01"
-                      />
-                    </div>
-                  </div>
+                  <BidLineItemsEditor
+                    value={bidDraft}
+                    onChange={setBidDraft}
+                    rates={contractorProfile || {}}
+                  />
 
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">
@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { useProAuth } from '../../../../contexts/ProAuthContext'
 import { supabase } from '../../../../lib/supabaseClient'
+import { MessagingAPI } from '../../../../lib/messaging'
 import { ArrowLeft, Send, MessageSquare } from 'lucide-react'
 
 interface Conversation {
@@ -223,10 +224,11 @@ export default function ContractorMessagesPage() {
   const markAsRead = async () => {
     if (!conversationId || !user) return
 
-    await supabase
-      .from('conversations')
-      .update({ contractor_unread_count: 0 })
-      .eq('id', conversationId)
+    try {
+      await MessagingAPI.markAsRead(conversationId, user.id)
+    } catch (error) {
+      console.error('Error marking conversation as read:', error)
+    }
   }
 
   // Handle typing indicator
@@ -5,6 +5,8 @@ import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useProAuth } from '../../../contexts/ProAuthContext'
 import { supabase } from '../../../lib/supabaseClient'
+import { coverageZips } from '../../../lib/serviceArea'
+import EmergencyOffers from '../../../components/EmergencyOffers'
 import dynamic from 'next/dynamic'
 
 const PaymentHistory = dynamic(() => import('../../../components/PaymentHistory'), { ssr: false })
@@ -166,7 +168,7 @@ export default function ContractorDashboardPage() {
 
           if (contractor) {
             setContractorData(contractor)
-            setContractorZips(contractor.service_area_zips || [contractor.base_zip || ''].filter(Boolean))
+            setContractorZips(coverageZips(contractor))
             // Set initial availability from the availability field (not status field)
             setAvailability(contractor.availability || 'offline')
           }
@@ -525,6 +527,9 @@ export default function ContractorDashboardPage() {
         </div>
       )}
 
+      {/* Emergency dispatch offers awaiting a response */}
+      {contractorData?.status === 'approved' && <EmergencyOffers />}
+
       {/* KYC Status Banners */}
 
       {/* 1. NOT STARTED - Need to complete wizard */}
@@ -733,6 +738,20 @@ export default function ContractorDashboardPage() {
             <DollarSign className="w-4 h-4" />
             Billing
           </Link>
+          <Link
+            href={isVerified ? "/dashboard/contractor/signals" : "#"}
+            className={`btn whitespace-nowrap flex-shrink-0 ${!isVerified ? 'opacity-50 cursor-not-allowed pointer-events-none' : ''}`}
+            onClick={(e) => !isVerified && e.preventDefault()}
+          >
+            Signals
+          </Link>
+          <Link
+            href={isVerified ? "/dashboard/contractor/analytics" : "#"}
+            className={`btn whitespace-nowrap flex-shrink-0 ${!isVerified ? 'opacity-50 cursor-not-allowed pointer-events-none' : ''}`}
+            onClick={(e) => !isVerified && e.preventDefault()}
+          >
+            Analytics
+          </Link>
           <Link
             href="/dashboard/contractor/settings"
             className="btn whitespace-nowrap flex-shrink-0"
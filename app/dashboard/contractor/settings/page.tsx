@@ -5,6 +5,8 @@ import Link from 'next/link'
 import { useProAuth } from '../../../../contexts/ProAuthContext'
 import { useRouter } from 'next/navigation'
 import { supabase } from '../../../../lib/supabaseClient'
+import { DEFAULT_JOB_ALERT_PREFERENCES, JobAlertPreferences } from '../../../../lib/jobAlertPreferences'
+import NotificationPreferences from '../../../../components/NotificationPreferences'
 import {
   User,
   Mail,
@@ -23,7 +25,8 @@ import {
   Plus,
   X,
   Briefcase,
-  LogOut
+  LogOut,
+  Bell
 } from 'lucide-react'
 
 interface ContractorProfileData {
@@ -66,6 +69,7 @@ export default function ContractorSettingsPage() {
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [newZip, setNewZip] = useState('')
+  const [jobAlerts, setJobAlerts] = useState<JobAlertPreferences>(DEFAULT_JOB_ALERT_PREFERENCES)
   const [profileData, setProfileData] = useState<ContractorProfileData>({
     name: '',
     email: '',
@@ -106,6 +110,7 @@ export default function ContractorSettingsPage() {
         emergencyAvailable: contractorProfile.emergency_services ?? true,
         weekendAvailable: contractorProfile.weekend_services ?? true
       })
+      setJobAlerts({ emergency_only: !!contractorProfile.job_alert_preferences?.emergency_only })
     }
   }, [contractorProfile, user])
 
@@ -175,13 +180,11 @@ export default function ContractorSettingsPage() {
           license_number: profileData.licenseNumber,
           license_state: profileData.licenseState,
           insurance_carrier: profileData.insuranceCarrier,
-          base_zip: profileData.baseZip,
-          service_area_zips: profileData.serviceAreaZips,
-          service_radius_miles: profileData.serviceRadiusMiles,
           hourly_rate: profileData.hourlyRate,
           categories: profileData.categories,
           emergency_services: profileData.emergencyAvailable,
           weekend_services: profileData.weekendAvailable,
+          job_alert_preferences: jobAlerts,
           updated_at: new Date().toISOString()
         })
         .eq('id', user.id)
@@ -191,6 +194,27 @@ export default function ContractorSettingsPage() {
         return
       }
 
+      // Service area goes through the API so coverage ZIPs are re-resolved
+      const { data: { session } } = await supabase.auth.getSession()
+      const areaResponse = await fetch('/api/service-area', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({
+          baseZip: profileData.baseZip || null,
+          zips: profileData.serviceAreaZips,
+          radiusMiles: profileData.serviceRadiusMiles
+        })
+      })
+
+      if (!areaResponse.ok) {
+        const result = await areaResponse.json()
+        setError(result.error || 'Failed to update service area')
+        return
+      }
+
       setSuccess('Profile updated successfully!')
 
       // Refresh the profile context
@@ -522,6 +546,31 @@ export default function ContractorSettingsPage() {
           </div>
         </div>
 
+        {/* Job Alerts */}
+        <div className="bg-white rounded-xl border border-gray-200 p-6">
+          <div className="flex items-center gap-2 mb-6">
+            <Bell className="h-5 w-5 text-gray-600" />
+            <h2 className="text-lg font-semibold text-gray-900">New Job Alerts</h2>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-4">
+            We alert you when a job matching your categories and service area is posted.
+            Choose how you hear about it under Notification Preferences below.
+          </p>
+
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={jobAlerts.emergency_only}
+              onChange={(e) => setJobAlerts(prev => ({ ...prev, emergency_only: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">Only alert me for emergency jobs</span>
+          </label>
+        </div>
+
+        <NotificationPreferences audience="contractor" />
+
         {/* Save Button */}
         <div className="flex justify-between items-center">
           <button
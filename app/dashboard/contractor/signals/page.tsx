@@ -0,0 +1,631 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useProAuth } from '../../../../contexts/ProAuthContext'
+import { supabase } from '../../../../lib/supabaseClient'
+import {
+  DEFAULT_SIGNAL_SUBSCRIPTION,
+  MAX_SIGNAL_DISTANCE_MILES,
+  SIGNAL_CATEGORIES,
+  SIGNAL_TYPE_LABELS,
+  SignalEngagement,
+  SignalMatch,
+  SignalSubscription,
+  SignalSubscriptionInput,
+  signalTypeLabel
+} from '../../../../lib/signalSubscriptions'
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle2,
+  Radio,
+  Bell,
+  MapPin,
+  Plus,
+  X,
+  Save,
+  Pencil,
+  Trash2,
+  ExternalLink,
+  Lock
+} from 'lucide-react'
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`
+  }
+}
+
+function subscriptionInput(subscription: SignalSubscription): SignalSubscriptionInput {
+  const { name, is_active, signal_types, categories, zip_codes, max_distance_miles, min_estimated_value,
+    max_estimated_value, min_urgency_score, email_notifications, sms_notifications, instant_notifications,
+    daily_digest } = subscription
+  return {
+    name, is_active, signal_types, categories, zip_codes, max_distance_miles, min_estimated_value,
+    max_estimated_value, min_urgency_score, email_notifications, sms_notifications, instant_notifications,
+    daily_digest
+  }
+}
+
+function urgencyColor(score: number): string {
+  if (score >= 70) return 'bg-red-100 text-red-800'
+  if (score >= 40) return 'bg-amber-100 text-amber-800'
+  return 'bg-gray-100 text-gray-700'
+}
+
+export default function ContractorSignalsPage() {
+  const { user, contractorProfile } = useProAuth()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [hasPlan, setHasPlan] = useState(false)
+  const [matches, setMatches] = useState<SignalMatch[]>([])
+  const [subscriptions, setSubscriptions] = useState<SignalSubscription[]>([])
+  const [openSignalId, setOpenSignalId] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<SignalSubscriptionInput>(DEFAULT_SIGNAL_SUBSCRIPTION)
+  const [newZip, setNewZip] = useState('')
+
+  const loadData = useCallback(async () => {
+    try {
+      const headers = await authHeaders()
+      const [subscriptionsResponse, matchesResponse] = await Promise.all([
+        fetch('/api/signals/subscriptions', { headers }),
+        fetch('/api/signals', { headers })
+      ])
+      const subscriptionsResult = await subscriptionsResponse.json()
+      const matchesResult = await matchesResponse.json()
+
+      if (!subscriptionsResponse.ok) throw new Error(subscriptionsResult.error || 'Failed to load subscriptions')
+      if (!matchesResponse.ok) throw new Error(matchesResult.error || 'Failed to load signals')
+
+      setHasPlan(subscriptionsResult.hasPlan)
+      setSubscriptions(subscriptionsResult.subscriptions)
+      setMatches(matchesResult.matches)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load signals')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user && contractorProfile) loadData()
+  }, [user, contractorProfile, loadData])
+
+  const recordEngagement = useCallback(async (signalId: string, action: SignalEngagement) => {
+    const response = await fetch(`/api/signals/${signalId}/engagement`, {
+      method: 'POST',
+      headers: await authHeaders(),
+      body: JSON.stringify({ action })
+    })
+
+    if (!response.ok) {
+      const result = await response.json()
+      throw new Error(result.error || 'Failed to update signal')
+    }
+
+    const now = new Date().toISOString()
+    setMatches(prev => prev.map(match => match.signal_id !== signalId ? match : {
+      ...match,
+      opened_at: match.opened_at || now,
+      acted_on_at: action === 'acted_on' ? match.acted_on_at || now : match.acted_on_at
+    }))
+  }, [])
+
+  const openSignal = useCallback((signalId: string) => {
+    setOpenSignalId(current => current === signalId ? null : signalId)
+    recordEngagement(signalId, 'opened').catch(err => console.error('Failed to record signal open:', err))
+  }, [recordEngagement])
+
+  // Alert links point at /dashboard/contractor/signals?signal=<id>
+  useEffect(() => {
+    if (loading) return
+    const signalId = new URLSearchParams(window.location.search).get('signal')
+    if (signalId && matches.some(match => match.signal_id === signalId)) {
+      openSignal(signalId)
+    }
+    // Only once, after the first load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading])
+
+  if (!user || !contractorProfile) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-4">Contractor access required</h2>
+          <Link href="/pro" className="btn-primary">Go to Pro Dashboard</Link>
+        </div>
+      </div>
+    )
+  }
+
+  const handleConvert = async (signalId: string) => {
+    setError(null)
+    try {
+      await recordEngagement(signalId, 'acted_on')
+      setSuccess('Signal marked as converted')
+      await loadData()
+      setTimeout(() => setSuccess(null), 3000)
+    } catch (err: any) {
+      setError(err.message || 'Failed to update signal')
+    }
+  }
+
+  const startEditing = (subscription?: SignalSubscription) => {
+    setError(null)
+    setEditingId(subscription ? subscription.id : 'new')
+    setForm(subscription ? subscriptionInput(subscription) : DEFAULT_SIGNAL_SUBSCRIPTION)
+    setNewZip('')
+  }
+
+  const updateForm = (field: keyof SignalSubscriptionInput, value: any) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const toggleListValue = (field: 'signal_types' | 'categories', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(item => item !== value)
+        : [...prev[field], value]
+    }))
+  }
+
+  const addZip = () => {
+    const zip = newZip.trim()
+    if (zip && !form.zip_codes.includes(zip)) {
+      updateForm('zip_codes', [...form.zip_codes, zip])
+    }
+    setNewZip('')
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const isNew = editingId === 'new'
+      const response = await fetch(isNew ? '/api/signals/subscriptions' : `/api/signals/subscriptions/${editingId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify(form)
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to save subscription')
+        return
+      }
+
+      setEditingId(null)
+      setSuccess(isNew ? 'Subscription created' : 'Subscription updated')
+      await loadData()
+      setTimeout(() => setSuccess(null), 3000)
+    } catch (err: any) {
+      setError(err.message || 'Failed to save subscription')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (subscription: SignalSubscription) => {
+    if (!confirm(`Delete the subscription "${subscription.name || 'Untitled'}"?`)) return
+
+    setError(null)
+    try {
+      const response = await fetch(`/api/signals/subscriptions/${subscription.id}`, {
+        method: 'DELETE',
+        headers: await authHeaders()
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        setError(result.error || 'Failed to delete subscription')
+        return
+      }
+
+      if (editingId === subscription.id) setEditingId(null)
+      await loadData()
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete subscription')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+  const checkboxClass = 'rounded border-gray-300 text-blue-600 focus:ring-blue-500'
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-6">
+      {/* Header */}
+      <div className="mb-6">
+        <Link
+          href="/dashboard/contractor"
+          className="inline-flex items-center gap-2 text-blue-600 hover:text-blue-800 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Link>
+
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 rounded-xl bg-blue-100">
+            <Radio className="h-6 w-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Signals</h1>
+            <p className="text-gray-600">Permits, violations and leads matched to your subscriptions</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Status Messages */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center gap-3">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0" />
+          <span className="text-red-700">{error}</span>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-3">
+          <CheckCircle2 className="h-5 w-5 text-green-600 flex-shrink-0" />
+          <span className="text-green-700">{success}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center text-gray-500 py-12">Loading signals...</div>
+      ) : (
+        <div className="space-y-8">
+          {!hasPlan && (
+            <div className="bg-white rounded-xl border border-gray-200 p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <Lock className="h-5 w-5 text-gray-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Upgrade to Pro Plus + Signals</h2>
+              </div>
+              <p className="text-sm text-gray-600 mb-4">
+                Subscribe to building permits, code violations and homeowner leads in your area and
+                hear about them before anyone posts a job.
+              </p>
+              <Link href="/pricing" className="btn-primary">View Plans</Link>
+            </div>
+          )}
+
+          {/* Matched Signals */}
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center gap-2 mb-6">
+              <Bell className="h-5 w-5 text-gray-600" />
+              <h2 className="text-lg font-semibold text-gray-900">Matched Signals</h2>
+            </div>
+
+            {matches.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No signals yet. New signals matching your subscriptions show up here.
+              </p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {matches.map(match => {
+                  const signal = match.signal
+                  const isOpen = openSignalId === match.signal_id
+                  return (
+                    <div key={match.id} className="py-4">
+                      <button
+                        onClick={() => openSignal(match.signal_id)}
+                        className="w-full text-left flex items-start justify-between gap-4"
+                      >
+                        <div>
+                          <div className="flex items-center gap-2 mb-1">
+                            {!match.opened_at && <span className="h-2 w-2 rounded-full bg-blue-600" />}
+                            <span className="font-medium text-gray-900">{signal.title}</span>
+                          </div>
+                          <div className="text-sm text-gray-500 flex flex-wrap items-center gap-x-3">
+                            <span>{signalTypeLabel(signal.signal_type)}</span>
+                            {signal.category && <span>{signal.category}</span>}
+                            <span className="inline-flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {[signal.city, signal.zip_code].filter(Boolean).join(' ') || 'Unknown location'}
+                              {match.distance_miles != null && ` · ${match.distance_miles} mi`}
+                            </span>
+                          </div>
+                        </div>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${urgencyColor(signal.urgency_score)}`}>
+                          Urgency {signal.urgency_score}
+                        </span>
+                      </button>
+
+                      {isOpen && (
+                        <div className="mt-3 p-4 bg-gray-50 rounded-lg text-sm text-gray-700 space-y-2">
+                          {signal.description && <p>{signal.description}</p>}
+                          {signal.address && <p><span className="font-medium">Address:</span> {signal.address}</p>}
+                          {signal.estimated_value != null && (
+                            <p><span className="font-medium">Estimated value:</span> ${Number(signal.estimated_value).toLocaleString()}</p>
+                          )}
+                          {signal.signal_date && (
+                            <p><span className="font-medium">Date:</span> {new Date(signal.signal_date).toLocaleDateString()}</p>
+                          )}
+                          <div className="flex flex-wrap items-center gap-3 pt-2">
+                            {signal.source_url && (
+                              <a
+                                href={signal.source_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                              >
+                                <ExternalLink className="h-4 w-4" />
+                                View source
+                              </a>
+                            )}
+                            {match.acted_on_at ? (
+                              <span className="inline-flex items-center gap-1 text-green-700">
+                                <CheckCircle2 className="h-4 w-4" />
+                                Converted {new Date(match.acted_on_at).toLocaleDateString()}
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => handleConvert(match.signal_id)}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                              >
+                                Mark as converted
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Subscriptions */}
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <div className="flex items-center justify-between gap-2 mb-6">
+              <div className="flex items-center gap-2">
+                <Radio className="h-5 w-5 text-gray-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Subscriptions</h2>
+              </div>
+              {hasPlan && editingId === null && (
+                <button
+                  onClick={() => startEditing()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2 transition-colors"
+                >
+                  <Plus className="h-4 w-4" />
+                  New Subscription
+                </button>
+              )}
+            </div>
+
+            {subscriptions.length === 0 && editingId === null && (
+              <p className="text-sm text-gray-500">
+                {hasPlan ? 'Create a subscription to start receiving signals.' : 'You have no signal subscriptions.'}
+              </p>
+            )}
+
+            <div className="space-y-3">
+              {subscriptions.map(subscription => (
+                <div key={subscription.id} className="p-4 border border-gray-200 rounded-lg flex items-start justify-between gap-4">
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium text-gray-900">{subscription.name || 'Untitled subscription'}</span>
+                      {!subscription.is_active && (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">Paused</span>
+                      )}
+                    </div>
+                    <div className="text-gray-500">
+                      {subscription.signal_types.length ? subscription.signal_types.map(signalTypeLabel).join(', ') : 'All types'}
+                      {' · '}
+                      {subscription.categories.length ? subscription.categories.join(', ') : 'All categories'}
+                      {' · '}
+                      {subscription.zip_codes.length ? `${subscription.zip_codes.length} ZIPs` : `${subscription.max_distance_miles} mi`}
+                    </div>
+                    <div className="text-gray-500 mt-1">
+                      {subscription.signals_received} opened · {subscription.signals_acted_on} converted
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {hasPlan && (
+                      <button
+                        onClick={() => startEditing(subscription)}
+                        className="p-2 text-gray-600 hover:text-blue-600"
+                        aria-label="Edit subscription"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(subscription)}
+                      className="p-2 text-gray-600 hover:text-red-600"
+                      aria-label="Delete subscription"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {editingId !== null && (
+              <div className="mt-6 pt-6 border-t border-gray-200 space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={form.name || ''}
+                    onChange={(e) => updateForm('name', e.target.value)}
+                    placeholder="e.g. Brooklyn plumbing permits"
+                    className={inputClass}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Signal Types</label>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {Object.keys(SIGNAL_TYPE_LABELS).map(type => (
+                      <label key={type} className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={form.signal_types.includes(type)}
+                          onChange={() => toggleListValue('signal_types', type)}
+                          className={checkboxClass}
+                        />
+                        <span className="text-sm text-gray-700">{SIGNAL_TYPE_LABELS[type]}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Leave empty for all types</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Categories</label>
+                  <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
+                    {SIGNAL_CATEGORIES.map(category => (
+                      <label key={category} className="flex items-center gap-2 p-3 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={form.categories.includes(category)}
+                          onChange={() => toggleListValue('categories', category)}
+                          className={checkboxClass}
+                        />
+                        <span className="text-sm text-gray-700">{category}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Leave empty for all categories</p>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">ZIP Codes</label>
+                    <div className="flex gap-2 mb-3">
+                      <input
+                        type="text"
+                        value={newZip}
+                        onChange={(e) => setNewZip(e.target.value)}
+                        placeholder="Add ZIP code"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <button
+                        onClick={addZip}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                      >
+                        <Plus className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {form.zip_codes.map(zip => (
+                        <span key={zip} className="inline-flex items-center gap-1 px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm">
+                          {zip}
+                          <button
+                            onClick={() => updateForm('zip_codes', form.zip_codes.filter(z => z !== zip))}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Distance (miles)</label>
+                    <input
+                      type="number"
+                      value={form.max_distance_miles ?? ''}
+                      onChange={(e) => updateForm('max_distance_miles', e.target.value === '' ? null : parseInt(e.target.value))}
+                      className={inputClass}
+                      min="1"
+                      max={MAX_SIGNAL_DISTANCE_MILES}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">From your base location; signals in a listed ZIP always match</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Value ($)</label>
+                    <input
+                      type="number"
+                      value={form.min_estimated_value ?? ''}
+                      onChange={(e) => updateForm('min_estimated_value', e.target.value === '' ? null : parseFloat(e.target.value))}
+                      className={inputClass}
+                      min="0"
+                      step="100"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Maximum Value ($)</label>
+                    <input
+                      type="number"
+                      value={form.max_estimated_value ?? ''}
+                      onChange={(e) => updateForm('max_estimated_value', e.target.value === '' ? null : parseFloat(e.target.value))}
+                      className={inputClass}
+                      min="0"
+                      step="100"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Minimum Urgency: {form.min_urgency_score}
+                    </label>
+                    <input
+                      type="range"
+                      value={form.min_urgency_score}
+                      onChange={(e) => updateForm('min_urgency_score', parseInt(e.target.value))}
+                      className="w-full"
+                      min="0"
+                      max="100"
+                      step="5"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-4">
+                  {([
+                    ['instant_notifications', 'Alert me as soon as a signal matches'],
+                    ['email_notifications', 'Send alerts by email'],
+                    ['sms_notifications', 'Send alerts by text message'],
+                    ['daily_digest', 'Email me a daily digest'],
+                    ['is_active', 'Subscription active']
+                  ] as [keyof SignalSubscriptionInput, string][]).map(([field, label]) => (
+                    <label key={field} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={!!form[field]}
+                        onChange={(e) => updateForm(field, e.target.checked)}
+                        className={checkboxClass}
+                      />
+                      <span className="text-sm text-gray-700">{label}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
+                  >
+                    <Save className="h-4 w-4" />
+                    {saving ? 'Saving...' : 'Save Subscription'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
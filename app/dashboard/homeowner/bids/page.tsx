@@ -115,32 +115,25 @@ export default function HomeownerBidsPage() {
     setAcceptingBid(bid.id)
 
     try {
-      // Update bid status to accepted
-      const { error: bidError } = await supabase
-        .from('job_bids')
-        .update({ status: 'accepted' })
-        .eq('id', bid.id)
-
-      if (bidError) {
-        alert('Error accepting bid: ' + bidError.message)
+      const { data: { session } } = await supabase.auth.getSession()
+
+      // Accept bid (rejects the other bids and starts the job)
+      const response = await fetch('/api/bids/accept', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ bidId: bid.id })
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        alert('Error accepting bid: ' + result.error)
         setAcceptingBid(null)
         return
       }
 
-      // Update job status to bid_accepted
-      const { error: jobError } = await supabase
-        .from('homeowner_jobs')
-        .update({
-          status: 'bid_accepted',
-          final_cost: bid.bid_amount,
-          contractor_id: bid.contractor_id
-        })
-        .eq('id', bid.job_id)
-
-      if (jobError) {
-        console.error('Error updating job status:', jobError)
-      }
-
       alert('✅ Bid accepted! You will receive a notification to proceed with payment.')
 
       // Refresh bids to show updated status
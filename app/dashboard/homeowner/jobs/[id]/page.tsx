@@ -6,7 +6,8 @@ import { useAuth } from '../../../../../contexts/AuthContext'
 import { supabase } from '../../../../../lib/supabaseClient'
 import dynamic from 'next/dynamic'
 import LoadingSpinner from '../../../../../components/LoadingSpinner'
-import { ArrowLeft, MapPin, Clock, DollarSign, User, Phone, Mail } from 'lucide-react'
+import JobReview from '../../../../../components/JobReview'
+import { ArrowLeft, MapPin, Clock, DollarSign, User, Phone, Mail, LifeBuoy } from 'lucide-react'
 import Link from 'next/link'
 
 // Dynamic imports for real-time components
@@ -144,6 +145,13 @@ export default function JobDetailsPage() {
             <div className="text-sm text-slate-500">
               Posted {new Date(job.created_at).toLocaleDateString()}
             </div>
+            <Link
+              href={`/support/tickets?jobId=${jobId}`}
+              className="inline-flex items-center gap-1 mt-2 text-sm text-slate-500 hover:text-slate-900"
+            >
+              <LifeBuoy className="w-4 h-4" />
+              Get help with this job
+            </Link>
           </div>
         </div>
 
@@ -221,6 +229,11 @@ export default function JobDetailsPage() {
         </div>
       )}
 
+      {/* Reviews (once payment is released) */}
+      {job.status === 'completed' && contractor && (
+        <JobReview jobId={jobId} otherPartyName={contractor.business_name || contractor.name} />
+      )}
+
       {/* Real-time Tracking & Chat Section */}
       {showTracking && (
         <div className="bg-white rounded-lg border border-slate-200 p-6" style={{ height: '600px' }}>
@@ -244,6 +257,9 @@ export default function JobDetailsPage() {
           <h2 className="text-lg font-semibold text-slate-900 mb-4">💬 Live Chat</h2>
           <JobChat
             jobId={jobId}
+            jobTitle={job.title}
+            homeownerId={user.id}
+            contractorId={contractor.id}
             contractorName={contractor.business_name || contractor.name}
             homeownerName={user.email?.split('@')[0] || 'You'}
           />
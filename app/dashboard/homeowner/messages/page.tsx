@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { useSearchParams, useRouter } from 'next/navigation'
 import { useAuth } from '../../../../contexts/AuthContext'
 import { supabase } from '../../../../lib/supabaseClient'
+import { MessagingAPI } from '../../../../lib/messaging'
 import { ArrowLeft, Send, MessageSquare, Briefcase } from 'lucide-react'
 
 interface Conversation {
@@ -299,10 +300,11 @@ function MessagesContent() {
   const markAsRead = async () => {
     if (!conversationId || !user) return
 
-    await supabase
-      .from('conversations')
-      .update({ homeowner_unread_count: 0 })
-      .eq('id', conversationId)
+    try {
+      await MessagingAPI.markAsRead(conversationId, user.id)
+    } catch (error) {
+      console.error('Error marking conversation as read:', error)
+    }
   }
 
   // Handle typing indicator
@@ -5,6 +5,7 @@ import { useParams, useRouter } from 'next/navigation'
 import { useAuth } from '../../../../contexts/AuthContext'
 import { supabase } from '../../../../lib/supabaseClient'
 import PaymentModal from '../../../../components/PaymentModal'
+import { BID_LINE_KINDS, BidLineItem, BidLineKind, isBidExpired, totalByKind } from '../../../../lib/bids'
 import { Capacitor } from '@capacitor/core'
 import { ArrowLeft, DollarSign, Clock, CheckCircle } from 'lucide-react'
 
@@ -16,6 +17,9 @@ interface Bid {
   message: string | null
   status: string
   created_at: string
+  line_items: BidLineItem[] | null
+  eta_minutes: number | null
+  valid_until: string | null
   contractor_name?: string
   contractor_business_name?: string
 }
@@ -26,6 +30,13 @@ interface Job {
   description: string
 }
 
+function formatEta(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest ? `${hours}h ${rest}m` : `${hours}h`
+}
+
 export default function CompareBids() {
   const { user } = useAuth()
   const router = useRouter()
@@ -40,6 +51,9 @@ export default function CompareBids() {
 
   const isNative = typeof window !== 'undefined' && Capacitor.isNativePlatform()
 
+  const comparableBids = bids.filter(b => b.status === 'pending' && !isBidExpired(b))
+  const lowestTotal = Math.min(...comparableBids.map(b => b.bid_amount ?? Infinity))
+
   useEffect(() => {
     const fetchData = async () => {
       if (!user || !id) return
@@ -150,8 +164,6 @@ export default function CompareBids() {
   }
 
   const handleAcceptBid = async (bidId: string) => {
-    console.log('bidId', bidId)
-    console.log('bids', bids)
     if (!user || accepting) return
 
     const bid = bids.find(b => b.id === bidId)
@@ -163,33 +175,25 @@ export default function CompareBids() {
     setAccepting(bidId)
 
     try {
-      // Update bid status
-      const { error: bidError } = await supabase
-        .from('job_bids')
-        .update({ status: 'accepted' })
-        .eq('id', bidId)
-
-        console.log('bidError',bidError)
-
-      if (bidError) {
-        alert('Error accepting bid: ' + bidError.message)
+      const { data: { session } } = await supabase.auth.getSession()
+
+      // Accept bid (rejects the other bids and starts the job)
+      const response = await fetch('/api/bids/accept', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ bidId })
+      })
+
+      if (!response.ok) {
+        const result = await response.json()
+        alert('Error accepting bid: ' + result.error)
         setAccepting(null)
         return
       }
 
-      // Update job status and final cost
-      const { error: jobError } = await supabase
-        .from('homeowner_jobs')
-        .update({
-          status: 'in_progress',
-          final_cost: bid.bid_amount
-        })
-        .eq('id', id)
-
-      if (jobError) {
-        console.error('Error updating job:', jobError)
-      }
-
       // Open payment modal
       setSelectedBid(bid)
       setShowPaymentModal(true)
@@ -310,6 +314,63 @@ export default function CompareBids() {
             </div>
           )}
 
+          {/* Side-by-side line item comparison */}
+          {comparableBids.length > 1 && (
+            <div className="bg-white border border-slate-200 rounded-2xl shadow-sm mb-4 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200">
+                    <th className="text-left font-medium text-slate-500 px-4 py-3"></th>
+                    {comparableBids.map(bid => (
+                      <th key={bid.id} className="text-right font-semibold text-slate-900 px-4 py-3 whitespace-nowrap">
+                        {bid.contractor_business_name || bid.contractor_name || 'Contractor'}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(BID_LINE_KINDS) as BidLineKind[]).map(kind => (
+                    <tr key={kind} className="border-b border-slate-100">
+                      <td className="text-slate-600 px-4 py-2">{BID_LINE_KINDS[kind]}</td>
+                      {comparableBids.map(bid => {
+                        const amount = totalByKind(bid.line_items || [], kind)
+                        return (
+                          <td key={bid.id} className="text-right text-slate-900 px-4 py-2">
+                            {amount > 0 ? `$${amount.toFixed(2)}` : '—'}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                  <tr className="border-b border-slate-100">
+                    <td className="text-slate-600 px-4 py-2">ETA</td>
+                    {comparableBids.map(bid => (
+                      <td key={bid.id} className="text-right text-slate-900 px-4 py-2">
+                        {bid.eta_minutes != null ? formatEta(bid.eta_minutes) : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr className="border-b border-slate-100">
+                    <td className="text-slate-600 px-4 py-2">Valid until</td>
+                    {comparableBids.map(bid => (
+                      <td key={bid.id} className="text-right text-slate-900 px-4 py-2 whitespace-nowrap">
+                        {bid.valid_until ? new Date(bid.valid_until).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }) : '—'}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="font-semibold text-slate-900 px-4 py-3">Total</td>
+                    {comparableBids.map(bid => (
+                      <td key={bid.id} className={`text-right font-bold px-4 py-3 ${bid.bid_amount === lowestTotal ? 'text-emerald-600' : 'text-slate-900'}`}>
+                        ${bid.bid_amount != null ? bid.bid_amount.toFixed(2) : '0.00'}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div className="space-y-4">
             {bids.map((bid) => (
               <div key={bid.id} className="bg-white border border-slate-200 rounded-2xl p-5 shadow-sm">
@@ -333,6 +394,38 @@ export default function CompareBids() {
                   </div>
                 </div>
 
+                {bid.line_items && bid.line_items.length > 0 && (
+                  <div className="mb-4 divide-y divide-slate-100 border border-slate-100 rounded-xl">
+                    {bid.line_items.map((item, index) => (
+                      <div key={index} className="flex items-center justify-between px-4 py-2 text-sm">
+                        <span className="text-slate-700">
+                          <span className="text-slate-500">{BID_LINE_KINDS[item.kind]}:</span> {item.description}
+                          {item.quantity !== 1 && (
+                            <span className="text-slate-500"> ({item.quantity} × ${Number(item.unit_price).toFixed(2)})</span>
+                          )}
+                        </span>
+                        <span className="font-medium text-slate-900">
+                          ${(item.quantity * item.unit_price).toFixed(2)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {(bid.eta_minutes != null || bid.valid_until) && (
+                  <div className="mb-4 flex flex-wrap gap-4 text-sm text-slate-600">
+                    {bid.eta_minutes != null && (
+                      <span className="flex items-center gap-1.5">
+                        <Clock className="h-4 w-4" />
+                        Can arrive in {formatEta(bid.eta_minutes)}
+                      </span>
+                    )}
+                    {bid.status === 'pending' && bid.valid_until && (
+                      <span>Offer valid until {new Date(bid.valid_until).toLocaleString()}</span>
+                    )}
+                  </div>
+                )}
+
                 {bid.message && (
                   <div className="mb-4 p-4 bg-slate-50 rounded-xl">
                     <p className="text-sm font-medium text-slate-700 mb-1">Message:</p>
@@ -353,7 +446,7 @@ export default function CompareBids() {
                     </span>
                   </div>
 
-                  {bid.status === 'pending' && (
+                  {bid.status === 'pending' && !isBidExpired(bid) && (
                     <button
                       onClick={() => handleAcceptBid(bid.id)}
                       disabled={accepting === bid.id}
@@ -26,6 +26,18 @@ interface Contractor {
   avatar_url?: string
 }
 
+interface DispatchInfo {
+  dispatch: {
+    status: 'searching' | 'accepted' | 'exhausted' | 'cancelled'
+    current_ring: number
+    current_radius_miles: number | null
+    next_escalation_at: string | null
+  } | null
+  ringCount?: number
+  currentRingOffered?: number
+  currentRingDeclined?: number
+}
+
 interface ContractorLocation {
   latitude: number
   longitude: number
@@ -48,6 +60,9 @@ export default function TrackContractorPage() {
   const [location, setLocation] = useState<ContractorLocation | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [dispatchInfo, setDispatchInfo] = useState<DispatchInfo | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [now, setNow] = useState(() => Date.now())
 
   const isNative = typeof window !== 'undefined' && Capacitor.isNativePlatform()
 
@@ -161,7 +176,11 @@ export default function TrackContractorPage() {
           .single()
 
         if (bidError || !bidData) {
-          setError('No accepted bid found')
+          // Emergency jobs are still being dispatched - show the cascade instead
+          const dispatch = await loadDispatch()
+          if (!dispatch?.dispatch) {
+            setError('No accepted bid found')
+          }
           setLoading(false)
           return
         }
@@ -192,7 +211,39 @@ export default function TrackContractorPage() {
     }
 
     fetchData()
-  }, [user, jobId])
+  }, [user, jobId, reloadKey])
+
+  const loadDispatch = async (): Promise<DispatchInfo | null> => {
+    const { data: { session } } = await supabase.auth.getSession()
+    const response = await fetch(`/api/jobs/${jobId}/dispatch`, {
+      headers: { 'Authorization': `Bearer ${session?.access_token}` }
+    })
+    if (!response.ok) return null
+
+    const info: DispatchInfo = await response.json()
+    setDispatchInfo(info)
+    return info
+  }
+
+  // Follow the dispatch cascade until a contractor accepts
+  useEffect(() => {
+    if (contractor || dispatchInfo?.dispatch?.status !== 'searching') return
+
+    const poll = setInterval(async () => {
+      const info = await loadDispatch()
+      if (info?.dispatch?.status === 'accepted') {
+        setLoading(true)
+        setReloadKey(k => k + 1)
+      }
+    }, 10000)
+
+    const tick = setInterval(() => setNow(Date.now()), 1000)
+
+    return () => {
+      clearInterval(poll)
+      clearInterval(tick)
+    }
+  }, [contractor, dispatchInfo?.dispatch?.status])
 
   const subscribeToLocation = (contractorId: string, jobData: Job) => {
     const channel = supabase
@@ -301,6 +352,13 @@ export default function TrackContractorPage() {
     return `${minutes} minutes`
   }
 
+  const escalationCountdown = () => {
+    const next = dispatchInfo?.dispatch?.next_escalation_at
+    if (!next) return null
+    const seconds = Math.max(0, Math.round((new Date(next).getTime() - now) / 1000))
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+  }
+
   const getStatusColor = (status?: string) => {
     switch (status) {
       case 'arrived':
@@ -373,9 +431,11 @@ export default function TrackContractorPage() {
           <div className="flex items-center gap-4">
             <div className={`w-3 h-3 rounded-full ${getStatusColor(location?.status)} animate-pulse`}></div>
             <div className="flex-1">
-              <p className="text-sm text-slate-600">{getStatusText(location?.status)}</p>
+              <p className="text-sm text-slate-600">{contractor ? getStatusText(location?.status) : 'Emergency dispatch'}</p>
               <p className="text-2xl font-bold text-slate-900">
-                {location?.status === 'arrived' ? 'Arrived!' : `${formatETA(location?.eta_minutes)} away`}
+                {!contractor
+                  ? (dispatchInfo?.dispatch?.status === 'searching' ? 'Contacting pros' : 'Waiting for a pro')
+                  : location?.status === 'arrived' ? 'Arrived!' : `${formatETA(location?.eta_minutes)} away`}
               </p>
             </div>
             {location?.distance_to_job_meters && (
@@ -398,6 +458,53 @@ export default function TrackContractorPage() {
       >
         <div className="p-4 pb-2">
           <div className="bg-white rounded-t-3xl shadow-2xl p-6 max-w-2xl mx-auto backdrop-blur-sm bg-white/95">
+          {!contractor && dispatchInfo?.dispatch && (
+            <div className="space-y-3">
+              {dispatchInfo.dispatch.status === 'searching' && (
+                <>
+                  <div className="flex items-center gap-3">
+                    <div className="w-3 h-3 rounded-full bg-red-500 animate-pulse"></div>
+                    <h3 className="text-xl font-bold text-slate-900">Finding your pro...</h3>
+                  </div>
+                  <p className="text-slate-600">
+                    Offered to {dispatchInfo.currentRingOffered} nearby pro{dispatchInfo.currentRingOffered === 1 ? '' : 's'}
+                    {dispatchInfo.dispatch.current_radius_miles ? ` within ${dispatchInfo.dispatch.current_radius_miles} miles` : ''}.
+                    {dispatchInfo.currentRingDeclined ? ` ${dispatchInfo.currentRingDeclined} declined.` : ''}
+                  </p>
+                  <div className="grid grid-cols-2 gap-4 text-center">
+                    <div className="bg-slate-50 rounded-xl p-3">
+                      <p className="text-2xl font-bold text-emerald-600">
+                        {dispatchInfo.dispatch.current_ring} / {dispatchInfo.ringCount}
+                      </p>
+                      <p className="text-xs text-slate-600 mt-1">Search ring</p>
+                    </div>
+                    <div className="bg-slate-50 rounded-xl p-3">
+                      <p className="text-2xl font-bold text-blue-600">{escalationCountdown() || '—'}</p>
+                      <p className="text-xs text-slate-600 mt-1">
+                        {dispatchInfo.dispatch.current_ring < (dispatchInfo.ringCount || 0) ? 'Until we widen the search' : 'Until the last offers expire'}
+                      </p>
+                    </div>
+                  </div>
+                </>
+              )}
+              {dispatchInfo.dispatch.status === 'exhausted' && (
+                <div className="bg-amber-50 border-2 border-amber-400 rounded-xl p-4 text-center">
+                  <p className="text-lg font-bold text-amber-900">No pro accepted yet</p>
+                  <p className="text-sm text-amber-700 mt-1">Your request stays open - you'll be notified as soon as someone bids.</p>
+                </div>
+              )}
+              {dispatchInfo.dispatch.status === 'cancelled' && (
+                <div className="bg-slate-50 border border-slate-300 rounded-xl p-4 text-center">
+                  <p className="text-lg font-bold text-slate-900">Request cancelled</p>
+                </div>
+              )}
+              <div className="bg-slate-50 rounded-xl p-4">
+                <p className="text-sm font-medium text-slate-700 mb-1">Job Location</p>
+                <p className="text-slate-900 font-semibold">{job?.title}</p>
+                <p className="text-sm text-slate-600 mt-1">{job?.address}</p>
+              </div>
+            </div>
+          )}
           {contractor && (
             <div className="space-y-4">
               {/* Contractor Info */}
@@ -455,6 +562,12 @@ export default function TrackContractorPage() {
                   <div className="text-4xl mb-2">🎉</div>
                   <p className="text-lg font-bold text-green-900">Contractor has arrived!</p>
                   <p className="text-sm text-green-700 mt-1">They should be knocking on your door soon</p>
+                  <button
+                    onClick={() => router.push(`/jobs/${jobId}/visit`)}
+                    className="text-sm text-green-800 underline mt-2"
+                  >
+                    View visit report
+                  </button>
                 </div>
               )}
             </div>
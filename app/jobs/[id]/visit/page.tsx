@@ -0,0 +1,293 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Download, MapPin, Pause, Play } from 'lucide-react'
+import { supabase } from '../../../../lib/supabaseClient'
+import type { VisitPoint, VisitSummary } from '../../../../lib/visitReport'
+import mapboxgl from 'mapbox-gl'
+import 'mapbox-gl/dist/mapbox-gl.css'
+
+type ExportFormat = 'json' | 'geojson' | 'gpx'
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+  return { 'Authorization': `Bearer ${session?.access_token}` }
+}
+
+function formatTime(value: string | null) {
+  return value ? new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' }) : '—'
+}
+
+export default function VisitReportPage() {
+  const { id: jobId } = useParams<{ id: string }>()
+  const router = useRouter()
+
+  const [summary, setSummary] = useState<VisitSummary | null>(null)
+  const [points, setPoints] = useState<VisitPoint[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  const mapContainer = useRef<HTMLDivElement>(null)
+  const map = useRef<mapboxgl.Map | null>(null)
+  const playbackMarker = useRef<mapboxgl.Marker | null>(null)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/visit-report`, { headers: await authHeaders() })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load visit report')
+
+        setSummary(data.summary)
+        setPoints(data.points)
+        setPosition(Math.max(data.points.length - 1, 0))
+      } catch (err: any) {
+        setError(err.message)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchReport()
+  }, [jobId])
+
+  // Initialize map with the full path, the job and the geofence arrival/departure points
+  useEffect(() => {
+    if (!mapContainer.current || map.current || !summary) return
+
+    const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN
+    if (!MAPBOX_TOKEN) {
+      setError('Map configuration missing')
+      return
+    }
+
+    mapboxgl.accessToken = MAPBOX_TOKEN
+
+    map.current = new mapboxgl.Map({
+      container: mapContainer.current,
+      style: 'mapbox://styles/mapbox/streets-v12',
+      center: [summary.job.longitude, summary.job.latitude],
+      zoom: 14,
+      attributionControl: false
+    })
+
+    const homeEl = document.createElement('div')
+    homeEl.className = 'w-10 h-10 bg-emerald-600 rounded-full flex items-center justify-center text-white text-xl shadow-lg border-2 border-white'
+    homeEl.textContent = '🏠'
+    new mapboxgl.Marker({ element: homeEl, anchor: 'center' })
+      .setLngLat([summary.job.longitude, summary.job.latitude])
+      .addTo(map.current)
+
+    const carEl = document.createElement('div')
+    carEl.className = 'w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center text-white shadow-lg border-2 border-white'
+    carEl.textContent = '🚗'
+    playbackMarker.current = new mapboxgl.Marker({ element: carEl, anchor: 'center' })
+
+    map.current.on('load', () => {
+      const coordinates = points.map(point => [point.longitude, point.latitude])
+
+      map.current?.addSource('path', {
+        type: 'geojson',
+        data: { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } }
+      })
+      map.current?.addLayer({
+        id: 'path',
+        type: 'line',
+        source: 'path',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#94a3b8', 'line-width': 4, 'line-opacity': 0.6 }
+      })
+
+      map.current?.addSource('played', {
+        type: 'geojson',
+        data: { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } }
+      })
+      map.current?.addLayer({
+        id: 'played',
+        type: 'line',
+        source: 'played',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: { 'line-color': '#059669', 'line-width': 5, 'line-opacity': 0.85 }
+      })
+
+      if (coordinates.length) {
+        const bounds = new mapboxgl.LngLatBounds()
+        coordinates.forEach(coordinate => bounds.extend(coordinate as [number, number]))
+        bounds.extend([summary.job.longitude, summary.job.latitude])
+        map.current?.fitBounds(bounds, { padding: 60, maxZoom: 16 })
+      }
+    })
+
+    return () => {
+      map.current?.remove()
+      map.current = null
+    }
+  }, [summary, points])
+
+  // Move the playback marker and redraw the driven part of the path
+  useEffect(() => {
+    const point = points[position]
+    if (!map.current || !point) return
+
+    playbackMarker.current?.setLngLat([point.longitude, point.latitude]).addTo(map.current)
+
+    const source = map.current.getSource('played') as mapboxgl.GeoJSONSource | undefined
+    source?.setData({
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'LineString',
+        coordinates: points.slice(0, position + 1).map(p => [p.longitude, p.latitude])
+      }
+    })
+  }, [position, points])
+
+  useEffect(() => {
+    if (!playing) return
+
+    if (position >= points.length - 1) {
+      setPlaying(false)
+      return
+    }
+
+    const timer = setTimeout(() => setPosition(position + 1), 150)
+    return () => clearTimeout(timer)
+  }, [playing, position, points.length])
+
+  const togglePlayback = () => {
+    if (!playing && position >= points.length - 1) setPosition(0)
+    setPlaying(!playing)
+  }
+
+  const downloadExport = async (format: ExportFormat) => {
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/visit-report?format=${format}&download=1`, { headers: await authHeaders() })
+      if (!response.ok) throw new Error('Export failed')
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `rushr-visit-${jobId}.${format === 'json' ? 'summary.json' : format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err: any) {
+      alert(err.message)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-slate-100">
+        <p className="text-slate-600">Loading visit report...</p>
+      </div>
+    )
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-slate-100">
+        <div className="bg-white rounded-xl shadow-lg p-8 max-w-md">
+          <p className="text-red-600 mb-4">{error || 'Visit report unavailable'}</p>
+          <button
+            onClick={() => router.back()}
+            className="w-full px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg transition-colors"
+          >
+            Go Back
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const current = points[position]
+
+  return (
+    <div className="min-h-screen bg-slate-100">
+      <div className="max-w-5xl mx-auto p-4 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <button onClick={() => router.back()} className="text-sm text-slate-600 hover:text-slate-900">← Back</button>
+            <h1 className="text-2xl font-bold text-slate-900">Visit report</h1>
+            <p className="text-slate-600">{summary.job.title}{summary.job.address ? ` · ${summary.job.address}` : ''}</p>
+          </div>
+          <div className="flex gap-2">
+            {(['json', 'geojson', 'gpx'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => downloadExport(format)}
+                className="flex items-center gap-1 px-3 py-2 bg-white border border-slate-200 hover:bg-slate-50 rounded-lg text-sm font-medium text-slate-700"
+              >
+                <Download className="w-4 h-4" />
+                {format === 'json' ? 'Summary' : format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            ['Arrived', formatTime(summary.arrivedAt)],
+            ['Left', summary.departedAt ? formatTime(summary.departedAt) : summary.arrivedAt ? 'Still on site' : '—'],
+            ['Time on site', `${summary.timeOnSiteMinutes} min`],
+            ['Drive', `${(summary.distanceDrivenMeters / 1000).toFixed(1)} km${summary.travelMinutes != null ? ` · ${summary.travelMinutes} min` : ''}`]
+          ].map(([label, value]) => (
+            <div key={label} className="bg-white rounded-2xl border border-gray-200 p-4">
+              <p className="text-xs text-slate-500">{label}</p>
+              <p className="text-lg font-semibold text-slate-900">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 overflow-hidden">
+          <div ref={mapContainer} className="h-[420px] w-full" />
+          {points.length > 0 ? (
+            <div className="p-4 flex items-center gap-4">
+              <button
+                onClick={togglePlayback}
+                className="w-10 h-10 bg-emerald-600 hover:bg-emerald-700 rounded-full flex items-center justify-center text-white"
+              >
+                {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={points.length - 1}
+                value={position}
+                onChange={e => { setPlaying(false); setPosition(Number(e.target.value)) }}
+                className="flex-1"
+              />
+              <p className="text-sm text-slate-600 w-44 text-right">{current ? formatTime(current.recorded_at) : ''}</p>
+            </div>
+          ) : (
+            <p className="p-4 text-sm text-slate-600">No location was recorded for this job.</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl border border-gray-200 p-4">
+          <h2 className="font-semibold text-slate-900 mb-3">Timeline</h2>
+          {summary.timeline.length === 0 ? (
+            <p className="text-sm text-slate-600">Nothing recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {summary.timeline.map((event, index) => (
+                <li key={`${event.type}-${index}`} className="flex items-start gap-3">
+                  <MapPin className={`w-4 h-4 mt-0.5 ${event.type === 'arrived' ? 'text-emerald-600' : event.type === 'departed' ? 'text-amber-600' : 'text-slate-400'}`} />
+                  <div>
+                    <p className="text-sm font-medium text-slate-900">{event.label}</p>
+                    <p className="text-xs text-slate-500">{formatTime(event.at)}</p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+          <p className="text-xs text-slate-400 mt-4">
+            Arrival and departure are when the contractor's device entered and left a {summary.geofenceRadiusMeters} m radius around the job. Based on {summary.pointCount} GPS fixes.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,16 +2,22 @@
 
 import React, { useEffect, useMemo, useRef, useState } from 'react'
 import Link from 'next/link'
+import dynamic from 'next/dynamic'
 import { useSearchParams } from 'next/navigation'
 import { RequireSignedIn } from '../../../lib/guards'
 import { useAuth } from '../../../lib/guards'
 import { useConversations, useConversation, useTypingIndicator } from '../../../lib/hooks/useMessaging'
 import type { Conversation, Message as DBMessage, MessageOffer } from '../../../lib/messaging'
 import { MessagingAPI } from '../../../lib/messaging'
+import { supabase } from '../../../lib/supabaseClient'
+
+const PaymentModal = dynamic(() => import('../../../components/PaymentModal'), { ssr: false })
 
 /* ======================== Types ======================== */
 type Role = 'homeowner' | 'pro'
-type OfferStatus = 'pending' | 'accepted' | 'declined' | 'countered'
+type OfferStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'expired'
+type OfferAction = 'accept' | 'decline' | 'counter'
+type CounterTerms = { price: number; delivery_days: number; notes?: string; expires_at?: string }
 type Attachment = {
   id: string
   kind: 'image' | 'file'
@@ -29,6 +35,11 @@ type Message = {
   status?: 'sent' | 'delivered' | 'seen'
   text?: string
   attachments?: Attachment[]
+  offerId?: string
+  parentOfferId?: string
+  offerBidId?: string
+  offerJobId?: string
+  offerExpiresAt?: string
   offerTitle?: string
   offerPrice?: number
   offerDays?: number
@@ -56,6 +67,9 @@ function transformMessage(dbMessage: DBMessage, currentUserId: string): Message
   }))
 
   const offer = dbMessage.offer
+  // The cron expires offers periodically; show them as expired right away
+  const offerExpired = offer?.status === 'pending' && !!offer.expires_at &&
+    new Date(offer.expires_at).getTime() <= Date.now()
   return {
     id: dbMessage.id,
     kind: dbMessage.message_type as MessageKind,
@@ -63,11 +77,16 @@ function transformMessage(dbMessage: DBMessage, currentUserId: string): Message
     time: new Date(dbMessage.created_at).toLocaleDateString() + ' ' + new Date(dbMessage.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
     text: isDeleted ? '[Message deleted]' : (dbMessage.content || undefined),
     attachments: isDeleted ? undefined : (attachments.length > 0 ? attachments : undefined),
+    offerId: offer?.id,
+    parentOfferId: offer?.parent_offer_id,
+    offerBidId: offer?.bid_id,
+    offerJobId: offer?.job_id,
+    offerExpiresAt: offer?.expires_at,
     offerTitle: offer?.title,
     offerPrice: offer?.price,
     offerDays: offer?.delivery_days,
     offerNotes: offer?.notes,
-    offerStatus: offer?.status as OfferStatus,
+    offerStatus: offerExpired ? 'expired' : offer?.status as OfferStatus,
     counterPrice: offer?.counter_price,
     counterDays: offer?.counter_days,
     counterNotes: offer?.counter_notes,
@@ -423,7 +442,7 @@ function ActiveConversation({
     sendMessage,
     sendMessageWithFiles,
     sendOffer,
-    updateOfferStatus,
+    respondToOffer,
     markAsRead,
     setTyping,
     deleteMessage,
@@ -440,6 +459,43 @@ function ActiveConversation({
     return dbMessages.map(msg => transformMessage(msg, user.id))
   }, [dbMessages, user?.id])
 
+  // Earlier offers in each negotiation (oldest first), keyed by the counter-offer's message
+  const offerHistory = useMemo(() => {
+    const byOfferId = new Map(messages.filter(m => m.offerId).map(m => [m.offerId!, m]))
+    const history = new Map<string, Message[]>()
+
+    for (const msg of messages) {
+      if (!msg.parentOfferId) continue
+      const chain: Message[] = []
+      let parent = byOfferId.get(msg.parentOfferId)
+      while (parent && !chain.includes(parent)) {
+        chain.unshift(parent)
+        parent = parent.parentOfferId ? byOfferId.get(parent.parentOfferId) : undefined
+      }
+      history.set(msg.id, chain)
+    }
+
+    return history
+  }, [messages])
+
+  const [payment, setPayment] = useState<{ bidId: string; jobId: string; amount: number; title: string } | null>(null)
+  const [heldBids, setHeldBids] = useState<Set<string>>(new Set())
+
+  // Accepted offers already paid into escrow don't need a pay button
+  const acceptedBidKey = messages
+    .filter(m => m.offerStatus === 'accepted' && m.offerBidId)
+    .map(m => m.offerBidId)
+    .join(',')
+
+  useEffect(() => {
+    if (!acceptedBidKey) return
+    supabase
+      .from('payment_holds')
+      .select('bid_id')
+      .in('bid_id', acceptedBidKey.split(','))
+      .then(({ data }) => setHeldBids(new Set((data || []).map(hold => hold.bid_id))))
+  }, [acceptedBidKey])
+
   const [text, setText] = useState('')
   const [showOffer, setShowOffer] = useState(false)
   const [dragOver, setDragOver] = useState(false)
@@ -484,6 +540,20 @@ function ActiveConversation({
     }
   }
 
+  const handleOfferResponse = async (msg: Message, action: OfferAction, counter?: CounterTerms) => {
+    const result = await respondToOffer(msg.offerId!, action, counter)
+
+    // A homeowner who accepts goes straight on to paying into escrow
+    if (result.status === 'accepted' && result.bidId && result.jobId && user?.id === conversation?.homeowner_id) {
+      setPayment({
+        bidId: result.bidId,
+        jobId: result.jobId,
+        amount: result.amount ?? msg.offerPrice ?? 0,
+        title: msg.offerTitle || 'Job'
+      })
+    }
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setDragOver(false)
@@ -599,6 +669,19 @@ function ActiveConversation({
             key={msg.id}
             message={msg}
             query={query}
+            offer={msg.kind === 'offer' ? {
+              history: offerHistory.get(msg.id) || [],
+              onRespond: (action, counter) => handleOfferResponse(msg, action, counter),
+              onPay: userRole === 'homeowner' && msg.offerStatus === 'accepted' && msg.offerBidId && msg.offerJobId &&
+                !heldBids.has(msg.offerBidId)
+                ? () => setPayment({
+                    bidId: msg.offerBidId!,
+                    jobId: msg.offerJobId!,
+                    amount: msg.offerPrice || 0,
+                    title: msg.offerTitle || 'Job'
+                  })
+                : undefined
+            } : undefined}
             onDelete={async () => {
               if (confirm('Delete this message? This action cannot be undone.')) {
                 try {
@@ -726,16 +809,41 @@ function ActiveConversation({
 
         <div className="mt-2 text-[11px] text-slate-500">Press Enter to send. Shift+Enter for a new line.</div>
       </div>
+
+      {payment && user && (
+        <PaymentModal
+          isOpen={!!payment}
+          onClose={() => setPayment(null)}
+          bidId={payment.bidId}
+          jobId={payment.jobId}
+          amount={payment.amount}
+          contractorName={conversation.pro_name || 'Contractor'}
+          jobTitle={payment.title}
+          homeownerId={user.id}
+          onPaymentSuccess={() => {
+            setHeldBids(prev => new Set(prev).add(payment.bidId))
+            setPayment(null)
+          }}
+        />
+      )}
     </>
   )
 }
 
 /* ======================== Message Bubble ======================== */
-function MessageBubble({ message, query }: { message: Message; query: string }) {
+type OfferControls = {
+  /** Earlier offers this one counters, oldest first */
+  history: Message[]
+  onRespond: (action: OfferAction, counter?: CounterTerms) => Promise<void>
+  /** Set for the homeowner while an accepted offer is not yet in escrow */
+  onPay?: () => void
+}
+
+function MessageBubble({ message, query, offer }: { message: Message; query: string; offer?: OfferControls }) {
   const isMe = message.fromMe
 
   if (message.kind === 'offer') {
-    return <OfferBubble message={message} query={query} />
+    return <OfferBubble message={message} query={query} controls={offer} />
   }
 
   if (message.kind === 'system') {
@@ -777,9 +885,28 @@ function MessageBubble({ message, query }: { message: Message; query: string })
 }
 
 /* ======================== Offer Bubble ======================== */
-function OfferBubble({ message, query }: { message: Message; query: string }) {
+function OfferBubble({ message, query, controls }: { message: Message; query: string; controls?: OfferControls }) {
   const isMe = message.fromMe
   const status = message.offerStatus || 'pending'
+  const history = controls?.history || []
+  const canRespond = !isMe && status === 'pending' && !!controls
+  const [responding, setResponding] = useState<OfferAction | null>(null)
+  const [showCounter, setShowCounter] = useState(false)
+
+  const respond = async (action: OfferAction, counter?: CounterTerms) => {
+    if (!controls || responding) return
+
+    setResponding(action)
+    try {
+      await controls.onRespond(action, counter)
+      setShowCounter(false)
+    } catch (error) {
+      console.error(`Failed to ${action} offer:`, error)
+      alert(error instanceof Error ? error.message : 'Failed to respond to offer. Please try again.')
+    } finally {
+      setResponding(null)
+    }
+  }
 
   return (
     <div className={classNames('mb-3 flex items-end gap-2', isMe ? 'justify-end' : 'justify-start')}>
@@ -788,10 +915,24 @@ function OfferBubble({ message, query }: { message: Message; query: string }) {
         isMe ? 'border-emerald-200' : 'border-slate-200')}>
         <div className="flex items-center gap-2 border-b bg-emerald-600 px-3 py-2 text-white">
           <FileTextIcon className="h-4 w-4" />
-          <div className="font-semibold">Quote</div>
+          <div className="font-semibold">{message.parentOfferId ? 'Counter-offer' : 'Quote'}</div>
           <div className="ml-auto text-xs opacity-90">{message.time}</div>
         </div>
         <div className="p-3">
+          {history.length > 0 && (
+            <div className="mb-3 space-y-1 rounded-md border bg-slate-50 p-2 text-[12px] text-slate-600">
+              <div className="font-semibold text-slate-700">Negotiation so far</div>
+              {history.map(prev => (
+                <div key={prev.id} className="flex items-center gap-2">
+                  <span>{prev.fromMe ? 'You' : 'They'} offered</span>
+                  <span className="font-semibold">${prev.offerPrice?.toLocaleString()}</span>
+                  <span>· {prev.offerDays} {prev.offerDays === 1 ? 'day' : 'days'}</span>
+                  <span className="ml-auto text-slate-400">{prev.time}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="mb-1 text-[13px] font-semibold text-slate-800">
             {highlight(message.offerTitle || 'Service Quote', query)}
           </div>
@@ -809,6 +950,11 @@ function OfferBubble({ message, query }: { message: Message; query: string }) {
               {highlight(message.offerNotes, query)}
             </p>
           )}
+          {status === 'pending' && message.offerExpiresAt && (
+            <div className="mt-2 text-[11px] text-slate-500">
+              Expires {new Date(message.offerExpiresAt).toLocaleString()}
+            </div>
+          )}
 
           {status === 'countered' && (
             <div className="mt-3 rounded-md border bg-amber-50 p-2 text-[13px] text-amber-900">
@@ -824,31 +970,152 @@ function OfferBubble({ message, query }: { message: Message; query: string }) {
               {message.counterNotes && <div className="mt-1 text-slate-700">{message.counterNotes}</div>}
             </div>
           )}
+
+          {canRespond && !showCounter && (
+            <div className="mt-3 flex items-center gap-2">
+              <button
+                onClick={() => respond('accept')}
+                disabled={!!responding}
+                className="rounded-md bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {responding === 'accept' ? 'Accepting...' : 'Accept'}
+              </button>
+              <button
+                onClick={() => setShowCounter(true)}
+                disabled={!!responding}
+                className="rounded-md border px-3 py-1.5 text-xs hover:bg-slate-50 disabled:opacity-50"
+              >
+                Counter
+              </button>
+              <button
+                onClick={() => respond('decline')}
+                disabled={!!responding}
+                className="rounded-md border px-3 py-1.5 text-xs text-rose-700 hover:bg-rose-50 disabled:opacity-50"
+              >
+                {responding === 'decline' ? 'Declining...' : 'Decline'}
+              </button>
+            </div>
+          )}
+
+          {canRespond && showCounter && (
+            <CounterOfferForm
+              initialPrice={message.offerPrice}
+              initialDays={message.offerDays}
+              submitting={responding === 'counter'}
+              onCancel={() => setShowCounter(false)}
+              onSubmit={counter => respond('counter', counter)}
+            />
+          )}
+
+          {controls?.onPay && (
+            <button
+              onClick={controls.onPay}
+              className="mt-3 w-full rounded-md bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-emerald-700"
+            >
+              Pay ${message.offerPrice?.toLocaleString()} into escrow
+            </button>
+          )}
         </div>
       </div>
     </div>
   )
 }
 
+function CounterOfferForm({ initialPrice, initialDays, submitting, onCancel, onSubmit }: {
+  initialPrice?: number
+  initialDays?: number
+  submitting: boolean
+  onCancel: () => void
+  onSubmit: (counter: CounterTerms) => void
+}) {
+  const [price, setPrice] = useState<string>(initialPrice ? String(initialPrice) : '')
+  const [days, setDays] = useState<string>(initialDays ? String(initialDays) : '1')
+  const [notes, setNotes] = useState('')
+
+  const priceNum = Number(price.replace(/[^\d.]/g, ''))
+  const daysNum = Number(days.replace(/[^\d]/g, ''))
+  const valid = priceNum > 0 && daysNum > 0
+
+  return (
+    <div className="mt-3 space-y-2 rounded-md border bg-amber-50/50 p-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="mb-1 block text-[11px] font-medium text-slate-600">Price (USD)</label>
+          <input
+            value={price}
+            onChange={e => setPrice(e.target.value)}
+            inputMode="decimal"
+            className="w-full rounded-md border px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-emerald-200"
+          />
+        </div>
+        <div>
+          <label className="mb-1 block text-[11px] font-medium text-slate-600">Delivery time (days)</label>
+          <input
+            value={days}
+            onChange={e => setDays(e.target.value)}
+            inputMode="numeric"
+            className="w-full rounded-md border px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-emerald-200"
+          />
+        </div>
+      </div>
+      <textarea
+        value={notes}
+        onChange={e => setNotes(e.target.value)}
+        rows={2}
+        placeholder="What changed?"
+        className="w-full rounded-md border px-2 py-1 text-sm outline-none focus:ring-2 focus:ring-emerald-200"
+      />
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={onCancel} className="rounded-md border px-3 py-1 text-xs hover:bg-slate-50">
+          Cancel
+        </button>
+        <button
+          disabled={!valid || submitting}
+          onClick={() => onSubmit({
+            price: priceNum,
+            delivery_days: daysNum,
+            notes: notes.trim() || undefined,
+            expires_at: offerExpiry(DEFAULT_OFFER_VALID_DAYS)
+          })}
+          className={classNames(
+            'rounded-md px-3 py-1 text-xs font-semibold text-white',
+            valid && !submitting ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-slate-300 cursor-not-allowed'
+          )}
+        >
+          {submitting ? 'Sending...' : 'Send Counter'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
 function StatusPill({ status }: { status: OfferStatus }) {
   const map: Record<OfferStatus, string> = {
     pending: 'bg-slate-100 text-slate-700',
     accepted: 'bg-emerald-100 text-emerald-800',
     declined: 'bg-rose-100 text-rose-800',
     countered: 'bg-amber-100 text-amber-800',
+    expired: 'bg-slate-100 text-slate-500',
   }
   return <span className={classNames('rounded-md px-2 py-0.5 text-[11px] font-semibold', map[status])}>{status}</span>
 }
 
 /* ======================== Offer Composer ======================== */
+const DEFAULT_OFFER_VALID_DAYS = 7
+
+function offerExpiry(days: number) {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString()
+}
+
 function OfferComposer({ onCancel, onSubmit }: {
   onCancel: () => void
-  onSubmit: (payload: { title: string; price: number; delivery_days: number; notes?: string }) => Promise<void>
+  onSubmit: (payload: { title: string; price: number; delivery_days: number; notes?: string; expires_at?: string }) => Promise<void>
 }) {
   const [title, setTitle] = useState('Diagnostic & Repair Visit')
   const [price, setPrice] = useState<string>('150')
   const [days, setDays] = useState<string>('1')
   const [notes, setNotes] = useState('Includes first hour on site. Parts/labor beyond that quoted before proceeding.')
+  const [validDays, setValidDays] = useState(DEFAULT_OFFER_VALID_DAYS)
   const [submitting, setSubmitting] = useState(false)
 
   const priceNum = Number(price.replace(/[^\d.]/g, ''))
@@ -864,7 +1131,8 @@ function OfferComposer({ onCancel, onSubmit }: {
         title: title.trim(),
         price: priceNum,
         delivery_days: daysNum,
-        notes: notes.trim() || undefined
+        notes: notes.trim() || undefined,
+        expires_at: offerExpiry(validDays)
       })
     } catch (error) {
       console.error('Failed to send offer:', error)
@@ -911,6 +1179,18 @@ function OfferComposer({ onCancel, onSubmit }: {
             placeholder="1"
           />
         </div>
+        <div>
+          <label className="mb-1 block text-xs font-medium text-slate-600">Quote valid for</label>
+          <select
+            value={validDays}
+            onChange={e => setValidDays(Number(e.target.value))}
+            className="w-full rounded-md border px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-200"
+          >
+            {[1, 3, 7, 14, 30].map(d => (
+              <option key={d} value={d}>{d} {d === 1 ? 'day' : 'days'}</option>
+            ))}
+          </select>
+        </div>
         <div className="md:col-span-3">
           <label className="mb-1 block text-xs font-medium text-slate-600">Notes / Scope</label>
           <textarea
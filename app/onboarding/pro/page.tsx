@@ -32,9 +32,15 @@ export default function ProOnboardingPage() {
       if (pro) {
         setCompanyName(pro.company_name ?? '')
         setTrade(pro.trade ?? TRADES[0])
-        // Convert comma-separated string back to array
-        const zipsFromDb = pro.service_area ? pro.service_area.split(',').map((zip: string) => zip.trim()).filter(Boolean) : []
-        setServiceAreaZips(zipsFromDb)
+      }
+
+      // Service-area ZIPs live on the contractor profile
+      const response = await fetch('/api/service-area', {
+        headers: { 'Authorization': `Bearer ${session.access_token}` }
+      })
+      if (response.ok) {
+        const { serviceArea } = await response.json()
+        setServiceAreaZips(serviceArea.service_area_zips || [])
       }
       setLoading(false)
     }
@@ -51,11 +57,25 @@ export default function ProOnboardingPage() {
     const { error: upsertErr } = await supabase.from('pro_profiles').upsert({
       user_id: session.user.id,
       company_name: companyName,
-      trade,
-      service_area: serviceAreaZips.join(', ')
+      trade
     })
     if (upsertErr) { setError(upsertErr.message); setSaving(false); return }
 
+    const areaResponse = await fetch('/api/service-area', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ zips: serviceAreaZips })
+    })
+    if (!areaResponse.ok) {
+      const result = await areaResponse.json()
+      setError(result.error || 'Failed to save service area')
+      setSaving(false)
+      return
+    }
+
     // Mark onboarding as pending review for now
     await supabase.from('profiles')
       .update({ pro_onboarding_status: 'pending_review' })
@@ -91,6 +111,8 @@ export default function ProOnboardingPage() {
               additionalZips={serviceAreaZips}
               onUpdateZips={setServiceAreaZips}
               className="w-full"
+              label="Service area ZIP codes"
+              description="Add the ZIP codes you serve. You can add a radius or draw areas later in service-area settings."
             />
           </div>
 
@@ -5,6 +5,8 @@ import { useSearchParams, useRouter } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { supabase } from '../../lib/supabaseClient'
 import { openAuth } from '../../components/AuthModal'
+import { coversLocation } from '../../lib/serviceArea'
+import { categoriesForJob, matchingCategories } from '../../lib/jobCategories'
 import { Capacitor } from '@capacitor/core'
 import { getCurrentLocation, reverseGeocode, isNativePlatform } from '../../lib/nativeLocation'
 import {
@@ -655,35 +657,14 @@ export default function PostJobInner({ userId }: Props) {
         const filterKey = emergencyType || category
 
         if (filterKey && contractors.length > 0) {
-          // Map emergency type/category keys to actual contractor category values
-          const emergencyTypeToCategory: Record<string, string[]> = {
-            // Specific emergency types
-            'plumbing': ['Plumbing'],
-            'electrical': ['Electrical'],
-            'hvac': ['HVAC'],
-            'roofing': ['Roofing'],
-            'water-damage': ['Plumbing', 'Water Damage'],
-            'locksmith': ['Locksmith'],
-            'appliance': ['Appliance Repair'],
-            // Broader categories - include multiple contractor types
-            'home': ['Plumbing', 'Electrical', 'HVAC', 'Roofing', 'Locksmith', 'Appliance Repair', 'Water Damage', 'General Contractor'],
-            'auto': ['Auto Repair', 'Towing', 'Locksmith'],
-          }
-
-          const targetCategories = emergencyTypeToCategory[filterKey]
+          const targetCategories = categoriesForJob(filterKey)
           console.log('[POST-JOB] Filtering by:', filterKey, '→ Categories:', targetCategories)
 
-          if (targetCategories && targetCategories.length > 0) {
-            contractors = contractors.filter(c => {
-              const cats = c.categories || []
-              // Case-insensitive match - check if contractor has ANY of the target categories
-              return Array.isArray(cats) && cats.some((cat: string) =>
-                targetCategories.some(targetCat =>
-                  cat.toLowerCase().includes(targetCat.toLowerCase()) ||
-                  targetCat.toLowerCase().includes(cat.toLowerCase())
-                )
-              )
-            })
+          if (targetCategories.length > 0) {
+            // Case-insensitive match - check if contractor has ANY of the target categories
+            contractors = contractors.filter(c =>
+              Array.isArray(c.categories) && matchingCategories(filterKey, c.categories).length > 0
+            )
             console.log('[POST-JOB] After category filter:', contractors.length, 'contractors match', filterKey)
           }
         }
@@ -694,42 +675,20 @@ export default function PostJobInner({ userId }: Props) {
 
           const DEFAULT_RADIUS_MILES = 15
 
-          // Filter contractors by radius if we have userLocation
-          let matchingContractors = contractors
-
-          if (userLocation) {
-            console.log('[POST-JOB] Filtering by userLocation:', userLocation)
-            // Filter by distance using lat/lng
-            matchingContractors = contractors.filter(c => {
-              // Check if contractor has lat/lng (support both field name formats)
-              const lat = c.latitude || c.lat
-              const lng = c.longitude || c.lng || c.lon
-
-              if (!lat || !lng) {
-                console.log(`[POST-JOB] Contractor ${c.id} missing location data`)
-                return false
-              }
-
-              const distance = calculateDistance(
-                userLocation[0],
-                userLocation[1],
-                Number(lat),
-                Number(lng)
-              )
-              console.log(`[POST-JOB] Contractor ${c.business_name || c.name}: ${distance.toFixed(2)} miles`)
-              return distance <= DEFAULT_RADIUS_MILES
-            })
-            console.log(`[POST-JOB] After radius filter: ${matchingContractors.length} contractors`)
-          } else if (homeownerZip) {
-            console.log('[POST-JOB] Filtering by ZIP:', homeownerZip)
-            // Fallback to ZIP matching if no userLocation
-            matchingContractors = contractors.filter(c => {
-              const serviceZips = c.service_area_zips || []
-              const baseZip = c.base_zip
-              return serviceZips.includes(homeownerZip) || baseZip === homeownerZip
-            })
-            console.log(`[POST-JOB] After ZIP filter: ${matchingContractors.length} contractors`)
+          // Keep contractors whose service area (ZIPs, radius or drawn areas) covers the job.
+          // Contractors without a radius fall back to the default search radius.
+          const jobLocation = {
+            zip: homeownerZip,
+            latitude: userLocation ? userLocation[0] : null,
+            longitude: userLocation ? userLocation[1] : null
           }
+          const matchingContractors = contractors.filter(c => coversLocation({
+            ...c,
+            latitude: c.latitude ?? c.lat ?? null,
+            longitude: c.longitude ?? c.lng ?? c.lon ?? null,
+            service_radius_miles: c.service_radius_miles ?? DEFAULT_RADIUS_MILES
+          }, jobLocation))
+          console.log(`[POST-JOB] After service-area filter: ${matchingContractors.length} contractors`)
 
           // Map database contractors to UI Contractor type with actual distances
           const mappedContractors: Contractor[] = matchingContractors.map((c) => {
@@ -982,6 +941,16 @@ export default function PostJobInner({ userId }: Props) {
 
       console.log('Job created successfully:', insertedJob)
 
+      // Alert matching contractors (in-app, email, SMS) - don't block the redirect
+      const { data: { session } } = await supabase.auth.getSession()
+      fetch(`/api/jobs/${insertedJob.id}/match`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        }
+      }).catch(err => console.error('Error matching contractors:', err))
+
       // Redirect to job success page with real-time bid notifications
       setSending(false)
       router.push(`/jobs/${insertedJob.job_number || insertedJob.id}/success`)
@@ -1,15 +1,52 @@
 'use client'
 import React, { useState } from 'react'
 import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { supabase } from '../../lib/supabaseClient'
+import { BILLING_PLANS, PaidPlan } from '../../lib/billingPlans'
 
 export default function PricingPage(){
+  const router = useRouter()
   const [annual, setAnnual] = useState(true)
+  const [checkoutPlan, setCheckoutPlan] = useState<PaidPlan | null>(null)
+  const [error, setError] = useState<string | null>(null)
 
-  // Pro Plus is the only paid subscription; homeowners & pros are free (success fee after completion)
-  const price = (monthly:number)=> annual ? Math.round(monthly * 12 * 0.83) : monthly
+  // Pro Plus and Pro Plus + Signals are the paid subscriptions; homeowners & pros are free (success fee after completion)
+  const price = (plan: PaidPlan)=> annual ? BILLING_PLANS[plan].annualPrice : BILLING_PLANS[plan].monthlyPrice
   const per = annual ? '/yr' : '/mo'
   const saveTag = annual ? 'Save ~17%' : undefined
 
+  const upgrade = async (plan: PaidPlan) => {
+    setError(null)
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      router.push('/pro/sign-in')
+      return
+    }
+
+    setCheckoutPlan(plan)
+    try {
+      const response = await fetch('/api/stripe/create-checkout-session', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ mode: 'subscription', plan, interval: annual ? 'year' : 'month' })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.url) {
+        throw new Error(result.error || 'Failed to start checkout')
+      }
+
+      window.location.href = result.url
+    } catch (err: any) {
+      setError(err.message || 'Failed to start checkout')
+      setCheckoutPlan(null)
+    }
+  }
+
   return (
     <section className="section">
       <div className="max-w-5xl mx-auto space-y-6">
@@ -43,7 +80,7 @@ export default function PricingPage(){
         </div>
 
         {/* Plans */}
-        <div className="grid md:grid-cols-3 gap-4 items-stretch">
+        <div className="grid md:grid-cols-2 xl:grid-cols-4 gap-4 items-stretch">
           {/* Homeowner (Free) */}
           <div className="card p-6 h-full flex flex-col">
             <div className="text-sm font-semibold text-emerald-700">Homeowner</div>
@@ -81,30 +118,42 @@ export default function PricingPage(){
             </div>
           </div>
 
-          {/* Pro Plus (Paid add-on) */}
-          <div className="card p-6 h-full flex flex-col">
-            <div className="text-sm font-semibold text-emerald-700">Pro Plus</div>
-            <div className="mt-1 flex items-end gap-2">
-              <h3 className="text-xl font-semibold text-ink">
-                ${price(99)}
-                <span className="text-sm text-slate-600">{per}</span>
-              </h3>
-            </div>
-            <p className="text-sm text-slate-700 mt-1">
-              Get priority access to new job opportunities and advanced professional tools.
-            </p>
-            <ul className="mt-4 text-sm space-y-2">
-              <li>• Priority job notifications</li>
-              <li>• Advanced search filters</li>
-              <li>• Analytics dashboard</li>
-              <li>• Priority support</li>
-            </ul>
-            <div className="mt-auto pt-4">
-              <Link href="/pro" className="btn-primary w-full text-center">Upgrade to Pro Plus</Link>
+          {/* Paid plans */}
+          {(Object.keys(BILLING_PLANS) as PaidPlan[]).map(plan => (
+            <div key={plan} className="card p-6 h-full flex flex-col">
+              <div className="text-sm font-semibold text-emerald-700">{BILLING_PLANS[plan].name}</div>
+              <div className="mt-1 flex items-end gap-2">
+                <h3 className="text-xl font-semibold text-ink">
+                  ${price(plan)}
+                  <span className="text-sm text-slate-600">{per}</span>
+                </h3>
+              </div>
+              <p className="text-sm text-slate-700 mt-1">
+                {BILLING_PLANS[plan].description}
+              </p>
+              <ul className="mt-4 text-sm space-y-2">
+                {BILLING_PLANS[plan].highlights.map(highlight => (
+                  <li key={highlight}>• {highlight}</li>
+                ))}
+              </ul>
+              <div className="mt-auto pt-4">
+                <button
+                  type="button"
+                  onClick={()=>upgrade(plan)}
+                  disabled={checkoutPlan !== null}
+                  className="btn-primary w-full text-center disabled:opacity-50"
+                >
+                  {checkoutPlan === plan ? 'Redirecting…' : `Upgrade to ${BILLING_PLANS[plan].name}`}
+                </button>
+              </div>
             </div>
-          </div>
+          ))}
         </div>
 
+        {error && (
+          <div className="card p-4 border-red-200 bg-red-50 text-sm text-red-700">{error}</div>
+        )}
+
         {/* Success fee explainer */}
         <div className="card p-4">
           <div className="font-semibold text-ink">About the success fee</div>
@@ -4,6 +4,9 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useProAuth } from '../../../contexts/ProAuthContext'
 import { supabase } from '../../../lib/supabaseClient'
+import KycResubmission, { uploadKycDocument } from '../../../components/KycResubmission'
+import { KYC_DOCUMENT_LABELS } from '../../../lib/kycDocuments'
+import type { KycDocument, KycDocumentType, KycHistoryEntry } from '../../../lib/kycDocuments'
 
 interface KYCFormData {
   firstName: string
@@ -19,16 +22,30 @@ interface KYCFormData {
   bankAccountNumber: string
   bankRoutingNumber: string
   taxId: string
+  identityDocumentType: KycDocumentType
   identityDocument: File | null
+  proofOfAddressType: KycDocumentType
   proofOfAddress: File | null
+  contractorLicense: File | null
+  contractorLicenseExpiresAt: string
+  insuranceCertificate: File | null
+  insuranceExpiresAt: string
+}
+
+interface KycDocumentsState {
+  documents: KycDocument[]
+  history: KycHistoryEntry[]
+  needsAction: KycDocument[]
+  expiringSoon: KycDocument[]
 }
 
 export default function KYCPage() {
-  const { user, contractorProfile, loading: authLoading, updateKYCStatus } = useProAuth()
+  const { user, contractorProfile, loading: authLoading } = useProAuth()
   const router = useRouter()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [step, setStep] = useState<'identity' | 'financial' | 'documents' | 'review'>('identity')
+  const [kycDocuments, setKycDocuments] = useState<KycDocumentsState | null>(null)
 
   const [formData, setFormData] = useState<KYCFormData>({
     firstName: '',
@@ -44,10 +61,45 @@ export default function KYCPage() {
     bankAccountNumber: '',
     bankRoutingNumber: '',
     taxId: '',
+    identityDocumentType: 'drivers_license',
     identityDocument: null,
-    proofOfAddress: null
+    proofOfAddressType: 'utility_bill',
+    proofOfAddress: null,
+    contractorLicense: null,
+    contractorLicenseExpiresAt: '',
+    insuranceCertificate: null,
+    insuranceExpiresAt: ''
   })
 
+  const fetchKycDocuments = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch('/api/kyc/documents', {
+        headers: { 'Authorization': `Bearer ${session?.access_token}` }
+      })
+      const result = await response.json()
+
+      if (!result.success) throw new Error(result.error)
+
+      setKycDocuments({
+        documents: result.documents,
+        history: result.history,
+        needsAction: result.summary.needsAction,
+        expiringSoon: result.expiringSoon
+      })
+    } catch (err) {
+      console.error('Error fetching KYC documents:', err)
+      setKycDocuments({ documents: [], history: [], needsAction: [], expiringSoon: [] })
+    }
+  }
+
+  useEffect(() => {
+    if (user) fetchKycDocuments()
+  }, [user])
+
+  const needsResubmission = !!kycDocuments &&
+    (kycDocuments.needsAction.length > 0 || kycDocuments.expiringSoon.length > 0)
+
   // Redirect if not authenticated or doesn't need KYC
   useEffect(() => {
     if (!authLoading) {
@@ -55,13 +107,15 @@ export default function KYCPage() {
         router.push('/pro/sign-in')
       } else if (!contractorProfile) {
         router.push('/pro/contractor-signup')
+      } else if (!kycDocuments || needsResubmission) {
+        // Wait for the documents; anything rejected or expiring is handled here
       } else if (contractorProfile.kyc_status === 'completed') {
         router.push('/dashboard/contractor')
       } else if (contractorProfile.kyc_status === 'in_progress') {
         router.push('/pro/kyc/status')
       }
     }
-  }, [user, contractorProfile, authLoading, router])
+  }, [user, contractorProfile, authLoading, router, kycDocuments, needsResubmission])
 
   const updateForm = (field: keyof KYCFormData, value: string | File | null) => {
     setFormData(prev => ({ ...prev, [field]: value }))
@@ -94,6 +148,8 @@ export default function KYCPage() {
     const errors: string[] = []
     if (!formData.identityDocument) errors.push('Identity document is required')
     if (!formData.proofOfAddress) errors.push('Proof of address is required')
+    if (formData.contractorLicense && !formData.contractorLicenseExpiresAt) errors.push('Contractor license expiry date is required')
+    if (formData.insuranceCertificate && !formData.insuranceExpiresAt) errors.push('Insurance expiry date is required')
     return errors
   }
 
@@ -182,13 +238,23 @@ export default function KYCPage() {
         return
       }
 
-      // Here you would normally submit to a KYC service like Plaid, Stripe, etc.
-      // For now, we'll simulate the process and mark as completed after a delay
-      setTimeout(async () => {
-        await updateKYCStatus('completed')
-        // Force refresh of contractor profile
-        window.location.href = '/dashboard/contractor'
-      }, 2000)
+      // Documents go to the admin review queue; the status page follows the review
+      await uploadKycDocument(user!.id, formData.identityDocument!, { documentType: formData.identityDocumentType })
+      await uploadKycDocument(user!.id, formData.proofOfAddress!, { documentType: formData.proofOfAddressType })
+      if (formData.contractorLicense) {
+        await uploadKycDocument(user!.id, formData.contractorLicense, {
+          documentType: 'contractor_license',
+          expiresAt: formData.contractorLicenseExpiresAt
+        })
+      }
+      if (formData.insuranceCertificate) {
+        await uploadKycDocument(user!.id, formData.insuranceCertificate, {
+          documentType: 'insurance_certificate',
+          expiresAt: formData.insuranceExpiresAt
+        })
+      }
+
+      router.push('/pro/kyc/status')
 
     } catch (err: any) {
       console.error('KYC submission error:', err)
@@ -198,12 +264,35 @@ export default function KYCPage() {
     }
   }
 
-  if (authLoading) {
+  if (authLoading || (user && !kycDocuments)) {
     return <div className="min-h-screen flex items-center justify-center">
       <div className="text-lg">Loading...</div>
     </div>
   }
 
+  if (needsResubmission) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-12">
+        <div className="max-w-2xl mx-auto px-4">
+          <div className="bg-white rounded-lg shadow-md p-8">
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Update Your Documents</h1>
+              <p className="text-gray-600">Only the documents below need your attention</p>
+            </div>
+
+            <KycResubmission
+              userId={user!.id}
+              needsAction={kycDocuments!.needsAction}
+              expiringSoon={kycDocuments!.expiringSoon}
+              history={kycDocuments!.history}
+              onSubmitted={fetchKycDocuments}
+            />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   const stepTitles = {
     identity: 'Personal Identity',
     financial: 'Financial Information',
@@ -413,6 +502,15 @@ export default function KYCPage() {
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Identity Document *</label>
                   <p className="text-xs text-gray-500 mb-2">Upload a clear photo of your driver's license, passport, or state ID</p>
+                  <select
+                    className="w-full mb-2 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    value={formData.identityDocumentType}
+                    onChange={(e) => updateForm('identityDocumentType', e.target.value)}
+                  >
+                    {(['drivers_license', 'passport', 'id_card'] as KycDocumentType[]).map(type => (
+                      <option key={type} value={type}>{KYC_DOCUMENT_LABELS[type]}</option>
+                    ))}
+                  </select>
                   <input
                     type="file"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
@@ -424,7 +522,16 @@ export default function KYCPage() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Proof of Address *</label>
-                  <p className="text-xs text-gray-500 mb-2">Upload a recent utility bill, bank statement, or lease agreement</p>
+                  <p className="text-xs text-gray-500 mb-2">Upload a recent utility bill or bank statement</p>
+                  <select
+                    className="w-full mb-2 px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    value={formData.proofOfAddressType}
+                    onChange={(e) => updateForm('proofOfAddressType', e.target.value)}
+                  >
+                    {(['utility_bill', 'bank_statement'] as KycDocumentType[]).map(type => (
+                      <option key={type} value={type}>{KYC_DOCUMENT_LABELS[type]}</option>
+                    ))}
+                  </select>
                   <input
                     type="file"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
@@ -433,6 +540,52 @@ export default function KYCPage() {
                     required
                   />
                 </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Contractor License</label>
+                    <p className="text-xs text-gray-500 mb-2">If your trade requires one</p>
+                    <input
+                      type="file"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      accept="image/*,.pdf"
+                      onChange={(e) => updateForm('contractorLicense', e.target.files?.[0] || null)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">License Expiry Date</label>
+                    <p className="text-xs text-gray-500 mb-2">We&apos;ll remind you before it expires</p>
+                    <input
+                      type="date"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={formData.contractorLicenseExpiresAt}
+                      onChange={(e) => updateForm('contractorLicenseExpiresAt', e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Certificate of Insurance</label>
+                    <p className="text-xs text-gray-500 mb-2">General liability coverage</p>
+                    <input
+                      type="file"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      accept="image/*,.pdf"
+                      onChange={(e) => updateForm('insuranceCertificate', e.target.files?.[0] || null)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Insurance Expiry Date</label>
+                    <p className="text-xs text-gray-500 mb-2">Policy end date on the certificate</p>
+                    <input
+                      type="date"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                      value={formData.insuranceExpiresAt}
+                      onChange={(e) => updateForm('insuranceExpiresAt', e.target.value)}
+                    />
+                  </div>
+                </div>
               </div>
             )}
 
@@ -5,6 +5,7 @@ import Link from 'next/link'
 import { useAuth } from '../../../contexts/AuthContext'
 import { useRouter } from 'next/navigation'
 import { supabase } from '../../../lib/supabaseClient'
+import NotificationPreferences from '../../../components/NotificationPreferences'
 import {
   User,
   Mail,
@@ -19,7 +20,6 @@ import {
   AlertCircle,
   Home,
   FileText,
-  Bell,
   Settings,
   Eye,
   EyeOff
@@ -35,11 +35,6 @@ interface ProfileFormData {
   zipCode: string
   emergencyContact: string
   emergencyPhone: string
-  notifications: {
-    email: boolean
-    sms: boolean
-    push: boolean
-  }
 }
 
 export default function ProfileSettingsPage() {
@@ -60,12 +55,7 @@ export default function ProfileSettingsPage() {
     state: (userProfile as any)?.state || '',
     zipCode: (userProfile as any)?.zip_code || '',
     emergencyContact: (userProfile as any)?.emergency_contact || '',
-    emergencyPhone: (userProfile as any)?.emergency_phone || '',
-    notifications: (userProfile as any)?.notification_preferences || {
-      email: true,
-      sms: false,
-      push: true
-    }
+    emergencyPhone: (userProfile as any)?.emergency_phone || ''
   })
 
   // Update form data when userProfile changes
@@ -80,12 +70,7 @@ export default function ProfileSettingsPage() {
         state: userProfile.state || '',
         zipCode: userProfile.zip_code || '',
         emergencyContact: userProfile.emergency_contact || '',
-        emergencyPhone: userProfile.emergency_phone || '',
-        notifications: userProfile.notification_preferences || {
-          email: true,
-          sms: false,
-          push: true
-        }
+        emergencyPhone: userProfile.emergency_phone || ''
       })
     }
   }, [userProfile, user])
@@ -124,16 +109,6 @@ export default function ProfileSettingsPage() {
     }))
   }
 
-  const handleNotificationChange = (type: keyof ProfileFormData['notifications'], value: boolean) => {
-    setFormData(prev => ({
-      ...prev,
-      notifications: {
-        ...prev.notifications,
-        [type]: value
-      }
-    }))
-  }
-
   const handleSave = async () => {
     setLoading(true)
     setError(null)
@@ -175,7 +150,6 @@ export default function ProfileSettingsPage() {
         zip_code: formData.zipCode.trim() || null,
         emergency_contact: formData.emergencyContact.trim() || null,
         emergency_phone: formData.emergencyPhone.trim() || null,
-        notification_preferences: formData.notifications,
         updated_at: new Date().toISOString()
       }
 
@@ -460,78 +434,7 @@ export default function ProfileSettingsPage() {
               )}
             </div>
 
-            {/* Notification Preferences */}
-            <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6">
-              <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 mb-4">Notification Preferences</h2>
-
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <Mail className="h-5 w-5 text-slate-400" />
-                    <div>
-                      <p className="font-medium text-slate-900 dark:text-slate-100">Email Notifications</p>
-                      <p className="text-sm text-slate-500">Service updates, job confirmations</p>
-                    </div>
-                  </div>
-                  <button
-                    onClick={() => handleNotificationChange('email', !formData.notifications.email)}
-                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                      formData.notifications.email ? 'bg-emerald-600' : 'bg-slate-300 dark:bg-slate-600'
-                    }`}
-                  >
-                    <span
-                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${
-                        formData.notifications.email ? 'translate-x-6' : 'translate-x-1'
-                      }`}
-                    />
-                  </button>
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <Phone className="h-5 w-5 text-slate-400" />
-                    <div>
-                      <p className="font-medium text-slate-900 dark:text-slate-100">SMS Notifications</p>
-                      <p className="text-sm text-slate-500">Emergency alerts, arrival notifications</p>
-                    </div>
-                  </div>
-                  <button
-                    onClick={() => handleNotificationChange('sms', !formData.notifications.sms)}
-                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                      formData.notifications.sms ? 'bg-emerald-600' : 'bg-slate-300 dark:bg-slate-600'
-                    }`}
-                  >
-                    <span
-                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${
-                        formData.notifications.sms ? 'translate-x-6' : 'translate-x-1'
-                      }`}
-                    />
-                  </button>
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <Bell className="h-5 w-5 text-slate-400" />
-                    <div>
-                      <p className="font-medium text-slate-900 dark:text-slate-100">Push Notifications</p>
-                      <p className="text-sm text-slate-500">Real-time updates on your device</p>
-                    </div>
-                  </div>
-                  <button
-                    onClick={() => handleNotificationChange('push', !formData.notifications.push)}
-                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                      formData.notifications.push ? 'bg-emerald-600' : 'bg-slate-300 dark:bg-slate-600'
-                    }`}
-                  >
-                    <span
-                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition ${
-                        formData.notifications.push ? 'translate-x-6' : 'translate-x-1'
-                      }`}
-                    />
-                  </button>
-                </div>
-              </div>
-            </div>
+            <NotificationPreferences audience="homeowner" />
 
             {/* Save Button */}
             <div className="flex justify-end gap-3">
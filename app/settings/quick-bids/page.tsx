@@ -1,50 +1,179 @@
 'use client'
-import React, { useState } from 'react'
-import { useApp } from '../../../lib/state'
+import React, { useEffect, useState } from 'react'
+import { useProAuth } from '../../../contexts/ProAuthContext'
+import { supabase } from '../../../lib/supabaseClient'
+import { BidTemplate, TEMPLATE_PLACEHOLDERS } from '../../../lib/bidTemplates'
+
+const CATEGORIES = ['Plumbing', 'Electrical', 'HVAC', 'Locksmith', 'Garage Door', 'Glass Repair', 'Appliance Repair', 'Handyman', 'Roofing', 'Fencing', 'Gas', 'Snow Removal', 'Security', 'Water Damage', 'Drywall']
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`
+  }
+}
 
 export default function QuickBidsSettings(){
-  const { state, addTemplate } = useApp()
+  const { user } = useProAuth()
+  const [templates, setTemplates] = useState<BidTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
   const [name, setName] = useState('')
   const [category, setCategory] = useState('HVAC')
   const [body, setBody] = useState('')
   const [price, setPrice] = useState<number|''>('')
+  const [isDefault, setIsDefault] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/bid-templates', { headers: await authHeaders() })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+      setTemplates(result.templates)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load templates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!user) return
+    fetchTemplates()
+  }, [user])
+
+  const resetForm = () => {
+    setEditingId(null)
+    setName(''); setBody(''); setPrice(''); setIsDefault(false)
+  }
+
+  const startEdit = (t: BidTemplate) => {
+    setEditingId(t.id)
+    setName(t.name)
+    setCategory(t.category)
+    setBody(t.body)
+    setPrice(t.default_price != null ? Number(t.default_price) : '')
+    setIsDefault(t.is_default)
+  }
+
+  const save = async () => {
+    if (!name || !body || saving) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(editingId ? `/api/bid-templates/${editingId}` : '/api/bid-templates', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          name,
+          category,
+          body,
+          defaultPrice: price === '' ? null : Number(price),
+          isDefault
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+
+      resetForm()
+      fetchTemplates()
+    } catch (err: any) {
+      setError(err.message || 'Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async (t: BidTemplate) => {
+    if (!confirm(`Delete template "${t.name}"?`)) return
+
+    const response = await fetch(`/api/bid-templates/${t.id}`, {
+      method: 'DELETE',
+      headers: await authHeaders()
+    })
+
+    if (!response.ok) {
+      const result = await response.json()
+      setError(result.error || 'Failed to delete template')
+      return
+    }
+
+    if (editingId === t.id) resetForm()
+    fetchTemplates()
+  }
 
   return (
     <section className="section">
       <h1 className="text-xl font-semibold text-ink mb-3">Quick-bid templates</h1>
+
+      {error && (
+        <div className="mb-3 p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+
       <div className="grid md:grid-cols-2 gap-4">
         <div className="card p-4">
-          <div className="font-medium mb-2">New template</div>
+          <div className="font-medium mb-2">{editingId ? 'Edit template' : 'New template'}</div>
           <label className="label">Name</label>
           <input className="input" value={name} onChange={e=>setName(e.target.value)} />
           <label className="label mt-2">Category</label>
           <select className="input" value={category} onChange={e=>setCategory(e.target.value)}>
-            {state.categories.map(c => <option key={c}>{c}</option>)}
+            {CATEGORIES.map(c => <option key={c}>{c}</option>)}
           </select>
           <label className="label mt-2">Body</label>
           <textarea className="input min-h-[120px]" value={body} onChange={e=>setBody(e.target.value)} />
+          <div className="text-xs text-slate-500 mt-1 space-y-0.5">
+            {TEMPLATE_PLACEHOLDERS.map(p => (
+              <div key={p.key}><code>{`{${p.key}}`}</code> — {p.label}</div>
+            ))}
+          </div>
           <label className="label mt-2">Default price</label>
           <input className="input" inputMode="numeric" value={price} onChange={e=>setPrice(e.target.value?Number(e.target.value):'')} />
-          <div className="mt-3 flex justify-end">
-            <button className="btn-primary" onClick={()=>{
-              if(!name||!body) return
-              addTemplate({ name, category, body, defaultPrice: price ? Number(price) : undefined })
-              setName(''); setBody(''); setPrice('')
-            }}>Save template</button>
+          <label className="flex items-center gap-2 mt-3 text-sm">
+            <input type="checkbox" checked={isDefault} onChange={e=>setIsDefault(e.target.checked)} />
+            Use by default for {category} jobs
+          </label>
+          <div className="mt-3 flex justify-end gap-2">
+            {editingId && (
+              <button className="btn btn-outline" onClick={resetForm} disabled={saving}>Cancel</button>
+            )}
+            <button className="btn-primary" onClick={save} disabled={!name || !body || saving}>
+              {saving ? 'Saving...' : 'Save template'}
+            </button>
           </div>
         </div>
 
         <div className="card p-4">
           <div className="font-medium mb-2">Your templates</div>
-          <ul className="space-y-2">
-            {state.contractorProfile.templates.map(t=>(
-              <li key={t.id} className="rounded-xl border border-slate-100 p-3">
-                <div className="font-medium">{t.name} <span className="text-xs text-slate-500">({t.category})</span></div>
-                <div className="text-sm text-slate-700 mt-1">{t.body}</div>
-                {t.defaultPrice && <div className="text-sm mt-1">Default: ${t.defaultPrice}</div>}
-              </li>
-            ))}
-          </ul>
+          {loading ? (
+            <div className="text-sm text-slate-500">Loading...</div>
+          ) : templates.length === 0 ? (
+            <div className="text-sm text-slate-500">No templates yet.</div>
+          ) : (
+            <ul className="space-y-2">
+              {templates.map(t=>(
+                <li key={t.id} className="rounded-xl border border-slate-100 p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="font-medium">
+                      {t.name} <span className="text-xs text-slate-500">({t.category})</span>
+                      {t.is_default && (
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700">Default</span>
+                      )}
+                    </div>
+                    <div className="flex gap-2 text-sm">
+                      <button className="text-blue-600 hover:underline" onClick={()=>startEdit(t)}>Edit</button>
+                      <button className="text-red-600 hover:underline" onClick={()=>remove(t)}>Delete</button>
+                    </div>
+                  </div>
+                  <div className="text-sm text-slate-700 mt-1 whitespace-pre-line">{t.body}</div>
+                  {t.default_price != null && <div className="text-sm mt-1">Default: ${t.default_price}</div>}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
     </section>
@@ -1,58 +1,205 @@
 'use client'
 export const dynamic = 'force-dynamic'
 
-import React, { useState } from 'react'
-import { useApp } from '../../../lib/state'
+import React, { useEffect, useMemo, useState } from 'react'
+import nextDynamic from 'next/dynamic'
+import type { FeatureCollection } from 'geojson'
+import { useProAuth } from '../../../contexts/ProAuthContext'
+import { supabase } from '../../../lib/supabaseClient'
+import { ServiceArea, MAX_SERVICE_RADIUS_MILES } from '../../../lib/serviceArea'
+import AdditionalZipCodes from '../../../components/AdditionalZipCodes'
+
+// MapLibre needs the browser
+const DrawCoverage = nextDynamic(() => import('../../../components/DrawCoverage'), { ssr: false })
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`
+  }
+}
 
 export default function ServiceAreaSettings() {
-  // Use loose local typing so we don't have to touch your global types
-  const app = useApp() as any
-  const state = (app?.state ?? {}) as any
-  const addToast: (msg: string, t?: string) => void =
-    typeof app?.addToast === 'function' ? app.addToast : () => {}
-
-  // Safe defaults if contractorProfile is missing or partial
-  const profile = (state?.contractorProfile ?? {}) as any
-  const initialZips = Array.isArray(profile.serviceZips) ? profile.serviceZips.join(', ') : ''
-  const initialFee =
-    typeof profile.travelFee === 'number' && Number.isFinite(profile.travelFee)
-      ? profile.travelFee
-      : ''
-
-  const [zips, setZips] = useState<string>(initialZips)
-  const [fee, setFee] = useState<number | ''>(initialFee)
+  const { user } = useProAuth()
+  const [area, setArea] = useState<ServiceArea | null>(null)
+  const [baseZip, setBaseZip] = useState('')
+  const [zips, setZips] = useState<string[]>([])
+  const [radius, setRadius] = useState<number | ''>('')
+  const [polygons, setPolygons] = useState<FeatureCollection | null>(null)
+  const [fee, setFee] = useState<number | ''>('')
+  const [drawing, setDrawing] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const applyArea = (a: ServiceArea) => {
+    setArea(a)
+    setBaseZip(a.base_zip || '')
+    setZips(a.service_area_zips || [])
+    setRadius(a.service_radius_miles != null ? Number(a.service_radius_miles) : '')
+    setPolygons(a.service_area_polygons)
+    setFee(a.travel_fee != null ? Number(a.travel_fee) : '')
+  }
+
+  useEffect(() => {
+    if (!user) return
+
+    const load = async () => {
+      try {
+        const response = await fetch('/api/service-area', { headers: await authHeaders() })
+        const result = await response.json()
+        if (!response.ok) throw new Error(result.error)
+        applyArea(result.serviceArea)
+      } catch (err: any) {
+        setError(err.message || 'Failed to load service area')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [user])
+
+  // Stable props so the map is not re-created on every render
+  const mapCenter = useMemo<[number, number]>(() => (
+    area?.latitude != null && area?.longitude != null
+      ? [Number(area.longitude), Number(area.latitude)]
+      : [-74.006, 40.7128]
+  ), [area?.latitude, area?.longitude])
+
+  const save = async () => {
+    if (saving) return
+    setSaving(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const response = await fetch('/api/service-area', {
+        method: 'PUT',
+        headers: await authHeaders(),
+        body: JSON.stringify({
+          baseZip: baseZip || null,
+          zips,
+          radiusMiles: radius === '' ? null : radius,
+          polygons,
+          travelFee: fee === '' ? null : fee
+        })
+      })
+      const result = await response.json()
+      if (!response.ok) throw new Error(result.error)
+
+      applyArea(result.serviceArea)
+      setNotice(result.warning || `Saved. Your service area covers ${result.serviceArea.coverage_zips?.length || 0} ZIP codes.`)
+    } catch (err: any) {
+      setError(err.message || 'Failed to save service area')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <section className="section"><div className="text-sm text-slate-500">Loading...</div></section>
+  }
+
+  const polygonCount = polygons?.features.length || 0
 
   return (
     <section className="section">
       <h1 className="text-xl font-semibold text-ink mb-3">Service area & travel</h1>
 
-      <div className="card p-4">
-        <label className="label">ZIP codes (comma separated)</label>
-        <input
-          className="input"
-          value={zips}
-          onChange={(e) => setZips(e.target.value)}
-          placeholder="11215, 11217, 11201"
-        />
+      {error && (
+        <div className="mb-3 p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700">{error}</div>
+      )}
+      {notice && (
+        <div className="mb-3 p-3 rounded-xl bg-emerald-50 border border-emerald-200 text-sm text-emerald-700">{notice}</div>
+      )}
 
-        <label className="label mt-3">Travel fee (optional)</label>
-        <input
-          className="input"
-          inputMode="numeric"
-          value={fee}
-          onChange={(e) => setFee(e.target.value ? Number(e.target.value) : '')}
-          placeholder="e.g., 25"
-        />
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="card p-4">
+          <div className="font-medium mb-2">Radius</div>
+          <label className="label">Base ZIP</label>
+          <input
+            className="input"
+            inputMode="numeric"
+            maxLength={5}
+            value={baseZip}
+            onChange={(e) => setBaseZip(e.target.value.trim())}
+            placeholder="11215"
+          />
+
+          <label className="label mt-3">Radius (miles)</label>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            max={MAX_SERVICE_RADIUS_MILES}
+            value={radius}
+            onChange={(e) => setRadius(e.target.value ? Number(e.target.value) : '')}
+            placeholder="e.g., 15"
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Measured from your business address, or from the base ZIP if no address is on file.
+          </p>
+
+          <div className="font-medium mt-5 mb-2">Drawn areas</div>
+          <p className="text-sm text-slate-600">
+            {polygonCount > 0 ? `${polygonCount} area${polygonCount > 1 ? 's' : ''} drawn` : 'No areas drawn yet'}
+          </p>
+          <div className="mt-2 flex gap-2">
+            <button className="btn btn-outline" onClick={() => setDrawing(true)}>
+              {polygonCount > 0 ? 'Edit on map' : 'Draw on map'}
+            </button>
+            {polygonCount > 0 && (
+              <button className="text-sm text-red-600 hover:underline" onClick={() => setPolygons(null)}>
+                Remove all
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="card p-4">
+          <AdditionalZipCodes
+            additionalZips={zips}
+            onUpdateZips={setZips}
+            label="ZIP codes you serve"
+            description="Jobs in these ZIP codes always match, even outside your radius or drawn areas."
+          />
 
-        <div className="mt-3 flex justify-end">
-          <button
-            className="btn-primary"
-            onClick={() => addToast('Saved (demo)', 'success')}
-          >
-            Save
-          </button>
+          <label className="label mt-4">Travel fee (optional)</label>
+          <input
+            className="input"
+            inputMode="numeric"
+            value={fee}
+            onChange={(e) => setFee(e.target.value ? Number(e.target.value) : '')}
+            placeholder="e.g., 25"
+          />
         </div>
       </div>
+
+      {area?.coverage_zips && area.coverage_zips.length > 0 && (
+        <div className="card p-4 mt-4">
+          <div className="font-medium mb-2">Covered ZIP codes ({area.coverage_zips.length})</div>
+          <div className="text-sm text-slate-600 break-words">{area.coverage_zips.join(', ')}</div>
+        </div>
+      )}
+
+      <div className="mt-3 flex justify-end">
+        <button className="btn-primary" onClick={save} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {drawing && (
+        <DrawCoverage
+          title="Draw your service area"
+          initialCenter={mapCenter}
+          initialGeojson={polygons}
+          onSave={({ geojson }) => setPolygons(geojson.features.length > 0 ? geojson : null)}
+          onClose={() => setDrawing(false)}
+        />
+      )}
     </section>
   )
 }
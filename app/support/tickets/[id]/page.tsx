@@ -0,0 +1,199 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { supabase } from '../../../../lib/supabaseClient'
+import LoadingSpinner from '../../../../components/LoadingSpinner'
+import SupportStatusBadge from '../../../../components/SupportStatusBadge'
+import {
+  MAX_REPLY_LENGTH,
+  SUPPORT_CATEGORIES,
+  SupportReply,
+  SupportTicket
+} from '../../../../lib/supportTickets'
+import { ArrowLeft, LifeBuoy, Send, User } from 'lucide-react'
+
+export default function SupportTicketPage() {
+  const { id } = useParams<{ id: string }>()
+  const [ticket, setTicket] = useState<SupportTicket | null>(null)
+  const [replies, setReplies] = useState<SupportReply[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [replyText, setReplyText] = useState('')
+  const [sending, setSending] = useState(false)
+
+  const loadTicket = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) {
+        setError('Sign in to view this ticket.')
+        return
+      }
+
+      const response = await fetch(`/api/support/tickets/${id}`, {
+        headers: { 'Authorization': `Bearer ${session.access_token}` }
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to load ticket')
+        return
+      }
+
+      setTicket(result.ticket)
+      setReplies(result.replies)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTicket()
+
+    const subscription = supabase
+      .channel(`support-ticket-${id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'support_ticket_replies', filter: `ticket_id=eq.${id}` },
+        (payload) => {
+          const reply = payload.new as SupportReply
+          setReplies((prev) => (prev.some((r) => r.id === reply.id) ? prev : [...prev, reply]))
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'support_tickets', filter: `id=eq.${id}` },
+        (payload) => setTicket(payload.new as SupportTicket)
+      )
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  }, [id])
+
+  const handleReply = async () => {
+    if (!replyText.trim()) return
+
+    setSending(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/api/support/tickets/${id}/replies`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ body: replyText.trim() })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert(result.error || 'Failed to send reply')
+        return
+      }
+
+      setReplyText('')
+      setTicket(result.ticket)
+      setReplies((prev) => (prev.some((r) => r.id === result.reply.id) ? prev : [...prev, result.reply]))
+    } finally {
+      setSending(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" text="Loading ticket..." />
+      </div>
+    )
+  }
+
+  if (!ticket) {
+    return (
+      <main className="container-max py-16 text-center">
+        <LifeBuoy className="h-12 w-12 text-slate-300 mx-auto mb-4" />
+        <p className="text-slate-600 mb-6">{error || 'Ticket not found'}</p>
+        <Link href="/support/tickets" className="btn btn-outline">Back to tickets</Link>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container-max py-8 md:py-10">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <Link href="/support/tickets" className="inline-flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900">
+          <ArrowLeft className="h-4 w-4" />
+          All tickets
+        </Link>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-xl font-semibold text-slate-900">{ticket.subject}</h1>
+              <p className="text-xs text-slate-500 mt-1">
+                Ticket #{ticket.id.slice(0, 8)} &middot; {SUPPORT_CATEGORIES[ticket.category]} &middot;{' '}
+                Opened {new Date(ticket.created_at).toLocaleString()}
+              </p>
+            </div>
+            <SupportStatusBadge status={ticket.status} />
+          </div>
+          {ticket.status === 'waiting' && (
+            <p className="mt-4 text-sm text-emerald-800 bg-emerald-50 border border-emerald-200 rounded-lg px-3 py-2">
+              Our team replied. Let us know below if you need anything else.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {replies.map((reply) => (
+            <div
+              key={reply.id}
+              className={`rounded-2xl border p-4 ${
+                reply.author_role === 'admin'
+                  ? 'mr-8 bg-emerald-50 border-emerald-200'
+                  : 'ml-8 bg-white border-slate-200'
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1 text-xs">
+                {reply.author_role === 'admin' ? (
+                  <LifeBuoy className="h-4 w-4 text-emerald-600" />
+                ) : (
+                  <User className="h-4 w-4 text-slate-400" />
+                )}
+                <span className="font-medium text-slate-700">
+                  {reply.author_role === 'admin' ? 'Rushr Support' : 'You'}
+                </span>
+                <span className="text-slate-500">{new Date(reply.created_at).toLocaleString()}</span>
+              </div>
+              <p className="text-sm text-slate-800 whitespace-pre-wrap">{reply.body}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 space-y-3">
+          {ticket.status === 'resolved' && (
+            <p className="text-sm text-slate-600">This ticket is resolved. Replying will reopen it.</p>
+          )}
+          <textarea
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            maxLength={MAX_REPLY_LENGTH}
+            rows={4}
+            placeholder="Write a reply..."
+            className="w-full rounded-md border px-3 py-2 text-sm"
+          />
+          <button
+            onClick={handleReply}
+            disabled={sending || !replyText.trim()}
+            className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            <Send className="h-4 w-4" />
+            {sending ? 'Sending...' : 'Send Reply'}
+          </button>
+        </div>
+      </div>
+    </main>
+  )
+}
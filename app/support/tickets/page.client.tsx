@@ -0,0 +1,246 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { supabase } from '../../../lib/supabaseClient'
+import LoadingSpinner from '../../../components/LoadingSpinner'
+import SupportStatusBadge from '../../../components/SupportStatusBadge'
+import {
+  MAX_REPLY_LENGTH,
+  MAX_SUBJECT_LENGTH,
+  SUPPORT_CATEGORIES,
+  SUPPORT_PRIORITIES,
+  SupportCategory,
+  SupportPriority,
+  SupportTicket
+} from '../../../lib/supportTickets'
+import { LifeBuoy, MessageSquare, Plus, ChevronRight } from 'lucide-react'
+
+export default function SupportTicketsInner() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const jobId = searchParams.get('jobId')
+  const paymentHoldId = searchParams.get('paymentHoldId')
+
+  const [signedIn, setSignedIn] = useState<boolean | null>(null)
+  const [tickets, setTickets] = useState<SupportTicket[]>([])
+  const [showForm, setShowForm] = useState(!!(jobId || paymentHoldId))
+  const [subject, setSubject] = useState('')
+  const [message, setMessage] = useState('')
+  const [category, setCategory] = useState<SupportCategory>(paymentHoldId ? 'payment' : jobId ? 'job' : 'other')
+  const [priority, setPriority] = useState<SupportPriority>('medium')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadTickets = async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    setSignedIn(!!session)
+    if (!session) return
+
+    const response = await fetch('/api/support/tickets', {
+      headers: { 'Authorization': `Bearer ${session.access_token}` }
+    })
+    if (!response.ok) return
+
+    const result = await response.json()
+    setTickets(result.tickets)
+  }
+
+  useEffect(() => {
+    loadTickets()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!subject.trim() || !message.trim()) {
+      setError('Please add a subject and describe the problem.')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch('/api/support/tickets', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ subject, message, category, priority, jobId, paymentHoldId })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to open ticket')
+        return
+      }
+
+      router.push(`/support/tickets/${result.ticket.id}`)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (signedIn === null) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <LoadingSpinner size="lg" text="Loading your tickets..." />
+      </div>
+    )
+  }
+
+  if (!signedIn) {
+    return (
+      <main className="container-max py-16 text-center">
+        <LifeBuoy className="h-12 w-12 text-emerald-600 mx-auto mb-4" />
+        <h1 className="text-2xl font-semibold text-slate-900 mb-2">Rushr Support</h1>
+        <p className="text-slate-600 mb-6">Sign in to open a support ticket and follow up on existing ones.</p>
+        <div className="flex justify-center gap-2">
+          <Link href="/sign-in" className="btn-primary">Sign In</Link>
+          <Link href="/contact" className="btn btn-outline">Contact us instead</Link>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="container-max py-8 md:py-10">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900 flex items-center gap-2">
+              <LifeBuoy className="h-6 w-6 text-emerald-600" />
+              Support Tickets
+            </h1>
+            <p className="text-sm text-slate-600 mt-1">Get help with your account, jobs and payments.</p>
+          </div>
+          {!showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              New Ticket
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="bg-white rounded-2xl border border-slate-200 p-6 grid gap-4">
+            <h2 className="text-lg font-semibold text-slate-900">Open a ticket</h2>
+
+            {(jobId || paymentHoldId) && (
+              <p className="text-sm text-slate-600 bg-slate-50 rounded-lg px-3 py-2">
+                This ticket will be linked to your {paymentHoldId ? 'payment' : 'job'} so our team can see the details.
+              </p>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="text-sm font-medium text-slate-700">
+                What is this about?
+                <select
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value as SupportCategory)}
+                  className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+                >
+                  {Object.entries(SUPPORT_CATEGORIES).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm font-medium text-slate-700">
+                How urgent is it?
+                <select
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value as SupportPriority)}
+                  className="mt-1 w-full rounded-md border px-3 py-2 text-sm capitalize"
+                >
+                  {SUPPORT_PRIORITIES.map((p) => (
+                    <option key={p} value={p}>{p}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label className="text-sm font-medium text-slate-700">
+              Subject
+              <input
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                maxLength={MAX_SUBJECT_LENGTH}
+                placeholder="A short summary"
+                className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+              />
+            </label>
+
+            <label className="text-sm font-medium text-slate-700">
+              Details
+              <textarea
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                maxLength={MAX_REPLY_LENGTH}
+                rows={6}
+                placeholder="Tell us what happened and what you need"
+                className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+              />
+            </label>
+
+            {error && (
+              <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+              >
+                {submitting ? 'Sending...' : 'Submit Ticket'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm border border-slate-300 rounded-lg hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {tickets.length === 0 ? (
+          !showForm && (
+            <div className="bg-white rounded-2xl border border-slate-200 p-12 text-center">
+              <MessageSquare className="h-10 w-10 text-slate-300 mx-auto mb-3" />
+              <p className="text-sm text-slate-600">You have no support tickets yet.</p>
+            </div>
+          )
+        ) : (
+          <div className="bg-white rounded-2xl border border-slate-200 divide-y divide-slate-100">
+            {tickets.map((ticket) => (
+              <Link
+                key={ticket.id}
+                href={`/support/tickets/${ticket.id}`}
+                className="flex items-center justify-between gap-4 px-5 py-4 hover:bg-slate-50"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-900 truncate">{ticket.subject}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {SUPPORT_CATEGORIES[ticket.category]} &middot; Updated {new Date(ticket.last_reply_at || ticket.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <SupportStatusBadge status={ticket.status} />
+                  <ChevronRight className="h-4 w-4 text-slate-400" />
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,12 @@
+// app/support/tickets/page.tsx
+export const dynamic = 'force-dynamic'
+import { Suspense } from 'react'
+import SupportTicketsInner from './page.client'
+
+export default function Page() {
+  return (
+    <Suspense fallback={null}>
+      <SupportTicketsInner />
+    </Suspense>
+  )
+}
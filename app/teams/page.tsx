@@ -1,180 +1,120 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
-import { motion, AnimatePresence } from 'motion/react'
+import React, { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card'
 import { Button } from '../../components/ui/button'
-import LoadingSpinner, { PageLoading } from '../../components/LoadingSpinner'
+import { PageLoading } from '../../components/LoadingSpinner'
+import { useProAuth } from '../../contexts/ProAuthContext'
+import { supabase } from '../../lib/supabaseClient'
+import {
+  COMPANY_ROLES,
+  CompanyRole,
+  ContractorStatus,
+  CrewBoard,
+  CrewJob,
+  ReceivedInvite,
+  canDispatch,
+  jobTechId
+} from '../../lib/companies'
 import {
   MapPin,
   Users,
   Clock,
-  AlertTriangle,
-  CheckCircle,
   Phone,
-  MessageSquare,
   Navigation,
   Activity,
-  Filter,
-  Search,
-  Settings,
-  Bell,
-  Zap,
   Truck,
   Wrench,
-  Battery,
-  Signal,
-  Eye,
-  Send,
-  Timer,
-  DollarSign,
-  TrendingUp,
-  Wifi,
-  WifiOff,
-  Radio,
   PlayCircle,
   PauseCircle,
-  RotateCcw,
-  Target,
-  Calendar,
-  Star,
-  ThermometerSun,
-  Droplets,
-  ShieldCheck,
+  UserPlus,
+  Trash2,
   AlertCircle,
-  CheckCircle2,
-  XCircle,
-  ArrowUp,
-  ArrowDown,
-  Maximize2,
-  Volume2,
-  VolumeX,
 } from 'lucide-react'
 
-type ContractorStatus = 'available' | 'en-route' | 'on-job' | 'break' | 'offline'
 type JobPriority = 'emergency' | 'urgent' | 'standard'
-type JobStatus = 'pending' | 'assigned' | 'in-progress' | 'completed'
-
-interface Contractor {
-  id: string
-  name: string
-  status: ContractorStatus
-  location: { lat: number; lng: number }
-  specialty: string
-  rating: number
-  jobsCompleted: number
-  responseTime: number
-  currentJob?: string
-  eta?: number
-  lastUpdate: Date
-  phone: string
-  hourlyRate: number
-  avatar: string
+
+const STATUS_LABELS: Record<ContractorStatus, string> = {
+  available: 'Available',
+  'en-route': 'En Route',
+  'on-job': 'On Job',
+  break: 'Break',
+  offline: 'Offline'
 }
 
-interface Job {
-  id: string
-  title: string
-  priority: JobPriority
-  status: JobStatus
-  location: { lat: number; lng: number; address: string }
-  customer: {
-    name: string
-    phone: string
-    rating: number
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`
   }
-  description: string
-  estimatedDuration: number
-  hourlyRate: number
-  assignedTo?: string
-  createdAt: Date
-  completedAt?: Date
-  category: string
-  emergencyLevel?: number
 }
 
 export default function TeamsPage() {
-  const [selectedContractor, setSelectedContractor] = useState<string | null>(null)
-  const [selectedJob, setSelectedJob] = useState<string | null>(null)
-  const [isFullscreen, setIsFullscreen] = useState(false)
-  const [soundEnabled, setSoundEnabled] = useState(true)
-  const [autoRefresh, setAutoRefresh] = useState(true)
-  const [timeFilter, setTimeFilter] = useState('today')
-  const [statusFilter, setStatusFilter] = useState('all')
+  const { user, loading: authLoading } = useProAuth()
+  const [board, setBoard] = useState<CrewBoard | null>(null)
+  const [invites, setInvites] = useState<ReceivedInvite[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [autoRefresh, setAutoRefresh] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<'all' | ContractorStatus>('all')
+  const [selectedContractor, setSelectedContractor] = useState<string | null>(null)
+  const [companyName, setCompanyName] = useState('')
+  const [newMemberEmail, setNewMemberEmail] = useState('')
+  const [newMemberRole, setNewMemberRole] = useState<CompanyRole>('tech')
+  const [saving, setSaving] = useState(false)
+  const [lastSync, setLastSync] = useState<Date>(new Date())
+  const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const loadBoard = async () => {
+    try {
+      const response = await fetch('/api/teams', { headers: await authHeaders() })
+      const result = await response.json()
+      if (response.ok) {
+        setBoard(result.board)
+        setInvites(result.invites || [])
+        setLastSync(new Date())
+      }
+    } catch (error) {
+      console.error('Error loading crew board:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
 
-  // Live signal data for major US cities
-  const [liveSignals, setLiveSignals] = useState([
-    { id: 'nyc', name: 'New York City', lat: 40.7128, lng: -74.0060, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'la', name: 'Los Angeles', lat: 34.0522, lng: -118.2437, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'chicago', name: 'Chicago', lat: 41.8781, lng: -87.6298, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'houston', name: 'Houston', lat: 29.7604, lng: -95.3698, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'phoenix', name: 'Phoenix', lat: 33.4484, lng: -112.0740, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'philly', name: 'Philadelphia', lat: 39.9526, lng: -75.1652, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'san-antonio', name: 'San Antonio', lat: 29.4241, lng: -98.4936, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'san-diego', name: 'San Diego', lat: 32.7157, lng: -117.1611, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'dallas', name: 'Dallas', lat: 32.7767, lng: -96.7970, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'san-jose', name: 'San Jose', lat: 37.3382, lng: -121.8863, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'austin', name: 'Austin', lat: 30.2672, lng: -97.7431, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'jacksonville', name: 'Jacksonville', lat: 30.3322, lng: -81.6557, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'fort-worth', name: 'Fort Worth', lat: 32.7555, lng: -97.3308, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'columbus', name: 'Columbus', lat: 39.9612, lng: -82.9988, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'charlotte', name: 'Charlotte', lat: 35.2271, lng: -80.8431, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'seattle', name: 'Seattle', lat: 47.6062, lng: -122.3321, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'denver', name: 'Denver', lat: 39.7392, lng: -104.9903, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'washington', name: 'Washington DC', lat: 38.9072, lng: -77.0369, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'boston', name: 'Boston', lat: 42.3601, lng: -71.0589, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'el-paso', name: 'El Paso', lat: 31.7619, lng: -106.4850, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'detroit', name: 'Detroit', lat: 42.3314, lng: -83.0458, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'nashville', name: 'Nashville', lat: 36.1627, lng: -86.7816, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'memphis', name: 'Memphis', lat: 35.1495, lng: -90.0490, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'portland', name: 'Portland', lat: 45.5152, lng: -122.6784, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'oklahoma-city', name: 'Oklahoma City', lat: 35.4676, lng: -97.5164, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'las-vegas', name: 'Las Vegas', lat: 36.1699, lng: -115.1398, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'louisville', name: 'Louisville', lat: 38.2527, lng: -85.7585, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'baltimore', name: 'Baltimore', lat: 39.2904, lng: -76.6122, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'milwaukee', name: 'Milwaukee', lat: 43.0389, lng: -87.9065, activeUsers: 0, lastUpdate: new Date() },
-    { id: 'albuquerque', name: 'Albuquerque', lat: 35.0844, lng: -106.6504, activeUsers: 0, lastUpdate: new Date() }
-  ])
-
-  // Real contractor data - loaded from API in production
-  const [contractors, setContractors] = useState<Contractor[]>([])
-
-  // Real job data - loaded from API in production
-  const [jobs, setJobs] = useState<Job[]>([])
-
-  // Initial loading simulation
   useEffect(() => {
-    const timer = setTimeout(() => {
+    if (authLoading) return
+    if (!user) {
       setIsLoading(false)
-    }, 1500) // Show loading for 1.5 seconds
+      return
+    }
+    loadBoard()
+  }, [user, authLoading])
 
-    return () => clearTimeout(timer)
-  }, [])
+  // Live updates: jobs, technician locations and availability toggles
+  const crewIds = board ? board.members.map(m => m.user_id).sort().join(',') : ''
 
-  // Real-time signal simulation
   useEffect(() => {
-    if (!autoRefresh) return
-
-    const interval = setInterval(() => {
-      // Simulate live activity on signals
-      setLiveSignals(prev => prev.map(signal => ({
-        ...signal,
-        activeUsers: Math.floor(Math.random() * 50) + Math.floor(Math.random() * 20), // Random activity between 0-69
-        lastUpdate: new Date()
-      })))
-    }, 3000) // Update every 3 seconds
+    if (!board || !autoRefresh) return
 
-    return () => clearInterval(interval)
-  }, [autoRefresh])
+    const scheduleReload = () => {
+      if (reloadTimer.current) clearTimeout(reloadTimer.current)
+      reloadTimer.current = setTimeout(loadBoard, 1000)
+    }
 
-  // Calculate metrics from live signals
-  const metrics = {
-    activeSignals: liveSignals.filter(s => s.activeUsers > 0).length,
-    totalUsers: liveSignals.reduce((sum, s) => sum + s.activeUsers, 0),
-    liveCities: liveSignals.length,
-    peakActivity: Math.max(...liveSignals.map(s => s.activeUsers))
-  }
+    const channel = supabase
+      .channel(`teams-${board.company.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'homeowner_jobs' }, scheduleReload)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'contractor_locations', filter: `contractor_id=in.(${crewIds})` }, scheduleReload)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'pro_contractors', filter: `id=in.(${crewIds})` }, scheduleReload)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'company_members', filter: `company_id=eq.${board.company.id}` }, scheduleReload)
+      .subscribe()
+
+    return () => {
+      if (reloadTimer.current) clearTimeout(reloadTimer.current)
+      supabase.removeChannel(channel)
+    }
+  }, [board?.company.id, crewIds, autoRefresh])
 
   const getStatusColor = (status: ContractorStatus) => {
     switch (status) {
@@ -194,6 +134,9 @@ export default function TeamsPage() {
     }
   }
 
+  const jobPriority = (job: CrewJob): JobPriority =>
+    job.priority === 'emergency' ? 'emergency' : job.priority === 'urgent' || job.priority === 'high' ? 'urgent' : 'standard'
+
   const formatTime = (date: Date) => {
     const diff = Date.now() - date.getTime()
     const minutes = Math.floor(diff / 60000)
@@ -203,18 +146,230 @@ export default function TeamsPage() {
     return `${minutes}m ago`
   }
 
+  const handleCreateCompany = async () => {
+    if (!companyName.trim()) return
+    setSaving(true)
+    try {
+      const response = await fetch('/api/teams', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ name: companyName })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert(result.error || 'Failed to create company')
+        return
+      }
+      await loadBoard()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleInviteMember = async () => {
+    if (!newMemberEmail.trim()) return
+    setSaving(true)
+    try {
+      const response = await fetch('/api/teams/members', {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ email: newMemberEmail, role: newMemberRole })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        alert(result.error || 'Failed to invite member')
+        return
+      }
+      setNewMemberEmail('')
+      await loadBoard()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRespondToInvite = async (inviteId: string, action: 'accept' | 'decline') => {
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/teams/invites/${inviteId}`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ action })
+      })
+      const result = await response.json()
+      if (!response.ok) alert(result.error || 'Failed to respond to invite')
+      await loadBoard()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevokeInvite = async (inviteId: string, name: string) => {
+    if (!confirm(`Withdraw the invite to ${name}?`)) return
+
+    const response = await fetch(`/api/teams/invites/${inviteId}`, {
+      method: 'DELETE',
+      headers: await authHeaders()
+    })
+    const result = await response.json()
+    if (!response.ok) alert(result.error || 'Failed to withdraw invite')
+    await loadBoard()
+  }
+
+  const handleChangeRole = async (memberId: string, role: CompanyRole) => {
+    const response = await fetch(`/api/teams/members/${memberId}`, {
+      method: 'PATCH',
+      headers: await authHeaders(),
+      body: JSON.stringify({ role })
+    })
+    const result = await response.json()
+    if (!response.ok) alert(result.error || 'Failed to change role')
+    await loadBoard()
+  }
+
+  const handleRemoveMember = async (memberId: string, name: string) => {
+    if (!confirm(`Remove ${name} from the team? Their open assignments go back to the queue.`)) return
+
+    const response = await fetch(`/api/teams/members/${memberId}`, {
+      method: 'DELETE',
+      headers: await authHeaders()
+    })
+    const result = await response.json()
+    if (!response.ok) alert(result.error || 'Failed to remove member')
+    await loadBoard()
+  }
+
+  const handleAssign = async (jobId: string, techId: string) => {
+    const response = await fetch(`/api/jobs/${jobId}/assign`, {
+      method: 'POST',
+      headers: await authHeaders(),
+      body: JSON.stringify({ techId })
+    })
+    const result = await response.json()
+    if (!response.ok) alert(result.error || 'Failed to assign job')
+    await loadBoard()
+  }
+
+  if (!isLoading && !user) {
+    return (
+      <div className="max-w-md mx-auto py-20 text-center">
+        <Users className="h-12 w-12 mx-auto text-slate-400 mb-4" />
+        <h1 className="text-2xl font-bold text-slate-900 mb-2">Rushr Teams</h1>
+        <p className="text-slate-600 mb-6">Sign in with your Rushr Pro account to dispatch your crew.</p>
+        <Link href="/pro/sign-in" className="btn-primary">Sign In</Link>
+      </div>
+    )
+  }
+
+  if (!isLoading && !board) {
+    return (
+      <div className="max-w-md mx-auto py-20 space-y-6">
+        {invites.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl flex items-center gap-2">
+                <UserPlus className="h-5 w-5 text-blue-600" />
+                Team invitations
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="divide-y">
+              {invites.map(invite => (
+                <div key={invite.id} className="flex items-center justify-between py-3 text-sm">
+                  <div>
+                    <div className="font-medium text-slate-900">{invite.company.name}</div>
+                    <div className="text-xs text-slate-500">Join as {COMPANY_ROLES[invite.role].toLowerCase()}</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleRespondToInvite(invite.id, 'decline')} disabled={saving}>
+                      Decline
+                    </Button>
+                    <Button size="sm" onClick={() => handleRespondToInvite(invite.id, 'accept')} disabled={saving}>
+                      Accept
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl flex items-center gap-2">
+              <Users className="h-5 w-5 text-emerald-600" />
+              Set up your company
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Create a company account to add dispatchers and technicians, and assign the jobs you win to your crew.
+              If you work for a company already, ask its owner to invite your email.
+            </p>
+            <input
+              value={companyName}
+              onChange={(e) => setCompanyName(e.target.value)}
+              placeholder="Company name"
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm"
+            />
+            <Button className="w-full" onClick={handleCreateCompany} disabled={saving || !companyName.trim()}>
+              {saving ? 'Creating...' : 'Create Company'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const members = board?.members || []
+  const jobs = board?.jobs || []
+  const role = board?.role || 'tech'
+  const isDispatcher = canDispatch(role)
+  const activeJobs = jobs.filter(j => ['bid_accepted', 'in_progress'].includes(j.status))
+  const memberName = (id: string | null) => members.find(m => m.user_id === id)?.name || 'Unassigned'
+
+  const metrics = {
+    available: members.filter(m => m.status === 'available').length,
+    enRoute: members.filter(m => m.status === 'en-route').length,
+    onJob: members.filter(m => m.status === 'on-job').length,
+    unassigned: activeJobs.filter(j => !j.assigned_tech_id).length
+  }
+
+  const visibleMembers = statusFilter === 'all' ? members : members.filter(m => m.status === statusFilter)
+
+  // Fit the crew and job markers into the map panel
+  const points = [
+    ...members.filter(m => m.location).map(m => ({ lat: m.location!.latitude, lng: m.location!.longitude })),
+    ...activeJobs.filter(j => j.latitude != null && j.longitude != null).map(j => ({ lat: Number(j.latitude), lng: Number(j.longitude) }))
+  ]
+  const bounds = points.length > 0 && {
+    minLat: Math.min(...points.map(p => p.lat)),
+    maxLat: Math.max(...points.map(p => p.lat)),
+    minLng: Math.min(...points.map(p => p.lng)),
+    maxLng: Math.max(...points.map(p => p.lng))
+  }
+  const project = (lat: number, lng: number) => {
+    if (!bounds) return { x: 50, y: 50 }
+    const lngSpan = Math.max(bounds.maxLng - bounds.minLng, 0.01)
+    const latSpan = Math.max(bounds.maxLat - bounds.minLat, 0.01)
+    return {
+      x: 10 + ((lng - bounds.minLng) / lngSpan) * 80,
+      y: 10 + ((bounds.maxLat - lat) / latSpan) * 80
+    }
+  }
+
   return (
-    <PageLoading isLoading={isLoading} loadingText="Loading live signals...">
-      <div className={`min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 ${isFullscreen ? 'fixed inset-0 z-50' : ''} -mx-3 sm:-mx-4 lg:-mx-6`}>
+    <PageLoading isLoading={isLoading} loadingText="Loading your crew...">
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 -mx-3 sm:-mx-4 lg:-mx-6">
       {/* Simplified Header */}
       <div className="border-b bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 flex items-center justify-between py-6">
           <div>
             <h1 className="text-3xl font-bold text-slate-900 flex items-center gap-2">
               <div className="w-3 h-3 bg-emerald-500 rounded-full animate-pulse"></div>
-              Rushr Teams
+              {board?.company.name || 'Rushr Teams'}
             </h1>
-            <p className="text-slate-600 mt-1">Dispatch Operations</p>
+            <p className="text-slate-600 mt-1">
+              Dispatch Operations · {COMPANY_ROLES[role]}
+            </p>
           </div>
 
           <div className="flex items-center gap-3">
@@ -225,29 +380,28 @@ export default function TeamsPage() {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setAutoRefresh(!autoRefresh)}
+              onClick={() => {
+                if (!autoRefresh) loadBoard()
+                setAutoRefresh(!autoRefresh)
+              }}
             >
               {autoRefresh ? <PauseCircle className="h-4 w-4" /> : <PlayCircle className="h-4 w-4" />}
             </Button>
-
-            <Button variant="outline" size="sm">
-              <Bell className="h-4 w-4" />
-            </Button>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 py-6">
-        {/* Live Signal Metrics */}
+        {/* Crew Metrics */}
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-white rounded-lg p-4 shadow-sm border border-slate-100">
             <div className="flex items-center gap-3">
               <div className="w-12 h-12 bg-emerald-100 rounded-lg flex items-center justify-center">
-                <Signal className="h-6 w-6 text-emerald-600" />
+                <Users className="h-6 w-6 text-emerald-600" />
               </div>
               <div>
-                <p className="text-sm text-slate-600">Live Signals</p>
-                <p className="text-2xl font-bold text-slate-900">{metrics.activeSignals}</p>
+                <p className="text-sm text-slate-600">Available</p>
+                <p className="text-2xl font-bold text-slate-900">{metrics.available}</p>
               </div>
             </div>
           </div>
@@ -255,60 +409,55 @@ export default function TeamsPage() {
           <div className="bg-white rounded-lg p-4 shadow-sm border border-slate-100">
             <div className="flex items-center gap-3">
               <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-                <Users className="h-6 w-6 text-blue-600" />
+                <Truck className="h-6 w-6 text-blue-600" />
               </div>
               <div>
-                <p className="text-sm text-slate-600">Active Users</p>
-                <p className="text-2xl font-bold text-slate-900">{metrics.totalUsers}</p>
+                <p className="text-sm text-slate-600">En Route</p>
+                <p className="text-2xl font-bold text-slate-900">{metrics.enRoute}</p>
               </div>
             </div>
           </div>
 
           <div className="bg-white rounded-lg p-4 shadow-sm border border-slate-100">
             <div className="flex items-center gap-3">
-              <div className="w-12 h-12 bg-purple-100 rounded-lg flex items-center justify-center">
-                <MapPin className="h-6 w-6 text-purple-600" />
+              <div className="w-12 h-12 bg-amber-100 rounded-lg flex items-center justify-center">
+                <Wrench className="h-6 w-6 text-amber-600" />
               </div>
               <div>
-                <p className="text-sm text-slate-600">Cities</p>
-                <p className="text-2xl font-bold text-slate-900">{metrics.liveCities}</p>
+                <p className="text-sm text-slate-600">On Job</p>
+                <p className="text-2xl font-bold text-slate-900">{metrics.onJob}</p>
               </div>
             </div>
           </div>
 
           <div className="bg-white rounded-lg p-4 shadow-sm border border-slate-100">
             <div className="flex items-center gap-3">
-              <div className="w-12 h-12 bg-amber-100 rounded-lg flex items-center justify-center">
-                <TrendingUp className="h-6 w-6 text-amber-600" />
+              <div className="w-12 h-12 bg-red-100 rounded-lg flex items-center justify-center">
+                <AlertCircle className="h-6 w-6 text-red-600" />
               </div>
               <div>
-                <p className="text-sm text-slate-600">Peak Activity</p>
-                <p className="text-2xl font-bold text-slate-900">{metrics.peakActivity}</p>
+                <p className="text-sm text-slate-600">Unassigned Jobs</p>
+                <p className="text-2xl font-bold text-slate-900">{metrics.unassigned}</p>
               </div>
             </div>
           </div>
         </div>
 
-        <div className="grid grid-cols-1 gap-4 pb-20">
-          {/* Live Signal Map */}
-          <div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 pb-20">
+          {/* Crew Map */}
+          <div className="lg:col-span-2">
             <Card className="h-[600px]">
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-lg flex items-center gap-2">
                     <MapPin className="h-5 w-5 text-blue-600" />
-                    Live Signal Map - United States
+                    Crew Map
                   </CardTitle>
-                  <div className="flex gap-2">
-                    <span className="text-xs bg-emerald-100 text-emerald-700 px-2 py-1 rounded">
-                      {liveSignals.filter(s => s.activeUsers > 0).length} Active
-                    </span>
-                  </div>
+                  <span className="text-xs text-slate-500">Updated {formatTime(lastSync)}</span>
                 </div>
               </CardHeader>
               <CardContent className="p-4">
                 <div className="relative h-[500px] bg-gradient-to-br from-blue-50 to-slate-100 rounded-lg overflow-hidden border">
-                  {/* US Map Background */}
                   <div className="absolute inset-0 opacity-10" style={{
                     backgroundImage: `
                       linear-gradient(rgba(59,130,246,0.2) 1px, transparent 1px),
@@ -317,171 +466,294 @@ export default function TeamsPage() {
                     backgroundSize: '30px 30px',
                   }} />
 
-                  {/* Live Signal Markers */}
-                  <div className="absolute inset-4">
-                    {liveSignals.map((signal, index) => {
-                      // Convert lat/lng to approximate positions on our map
-                      const x = ((signal.lng + 125) / 60) * 100; // Rough conversion for US longitude
-                      const y = ((50 - signal.lat) / 20) * 100; // Rough conversion for US latitude
-
-                      return (
-                        <div
-                          key={signal.id}
-                          className="absolute cursor-pointer group"
-                          style={{
-                            left: `${Math.max(5, Math.min(95, x))}%`,
-                            top: `${Math.max(5, Math.min(95, y))}%`
-                          }}
-                        >
-                          {signal.activeUsers > 0 ? (
-                            <>
-                              {/* Pulsing Ring for Active Signals */}
-                              <div className="absolute inset-0 w-6 h-6 bg-emerald-400 rounded-full animate-ping opacity-75"></div>
-                              <div className="relative w-6 h-6 bg-emerald-500 rounded-full border-2 border-white shadow-lg flex items-center justify-center">
-                                <div className="w-2 h-2 bg-white rounded-full"></div>
-                              </div>
-
-                              {/* Tooltip */}
-                              <div className="absolute -top-12 left-1/2 transform -translate-x-1/2 bg-slate-900 text-white px-2 py-1 rounded text-xs font-medium whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-                                {signal.name}: {signal.activeUsers} users
-                              </div>
-                            </>
-                          ) : (
-                            <div className="w-3 h-3 bg-slate-300 rounded-full border border-white shadow-sm"></div>
-                          )}
+                  {/* Job Markers */}
+                  {activeJobs.filter(j => j.latitude != null && j.longitude != null).map(job => {
+                    const { x, y } = project(Number(job.latitude), Number(job.longitude))
+                    return (
+                      <div key={job.id} className="absolute group" style={{ left: `${x}%`, top: `${y}%` }}>
+                        <div className={`w-4 h-4 rotate-45 ${getPriorityColor(jobPriority(job))} border-2 border-white shadow`} />
+                        <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-slate-900 text-white px-2 py-1 rounded text-xs whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                          {job.title} · {memberName(jobTechId(job))}
                         </div>
-                      );
-                    })}
-                  </div>
+                      </div>
+                    )
+                  })}
+
+                  {/* Technician Markers */}
+                  {members.filter(m => m.location).map(member => {
+                    const { x, y } = project(member.location!.latitude, member.location!.longitude)
+                    const selected = selectedContractor === member.user_id
+                    return (
+                      <div
+                        key={member.id}
+                        className="absolute cursor-pointer group"
+                        style={{ left: `${x}%`, top: `${y}%` }}
+                        onClick={() => setSelectedContractor(selected ? null : member.user_id)}
+                      >
+                        {member.status !== 'offline' && (
+                          <div className={`absolute inset-0 w-6 h-6 ${getStatusColor(member.status)} rounded-full animate-ping opacity-50`}></div>
+                        )}
+                        <div className={`relative w-6 h-6 ${getStatusColor(member.status)} rounded-full border-2 ${selected ? 'border-slate-900' : 'border-white'} shadow-lg flex items-center justify-center text-[10px] font-bold text-white`}>
+                          {member.name.charAt(0).toUpperCase()}
+                        </div>
+                        <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-slate-900 text-white px-2 py-1 rounded text-xs font-medium whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                          {member.name}: {STATUS_LABELS[member.status]}
+                        </div>
+                      </div>
+                    )
+                  })}
+
+                  {points.length === 0 && (
+                    <div className="absolute inset-0 flex items-center justify-center text-center text-slate-500">
+                      <div>
+                        <Navigation className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                        <div className="text-sm">No locations yet</div>
+                        <div className="text-xs">Technicians appear here once they share their location</div>
+                      </div>
+                    </div>
+                  )}
 
-                  {/* Live Data Legend */}
+                  {/* Legend */}
                   <div className="absolute top-4 left-4 bg-white p-3 rounded-lg shadow-sm">
-                    <div className="text-sm font-medium mb-2">Live Activity</div>
+                    <div className="text-sm font-medium mb-2">Crew Status</div>
                     <div className="space-y-1 text-xs">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 bg-emerald-500 rounded-full animate-pulse"></div>
-                        <span>Active Signals ({liveSignals.filter(s => s.activeUsers > 0).length})</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-2 h-2 bg-slate-300 rounded-full"></div>
-                        <span>Inactive ({liveSignals.filter(s => s.activeUsers === 0).length})</span>
-                      </div>
-                      <div className="pt-1 text-xs text-slate-500">
-                        Total: {liveSignals.reduce((sum, s) => sum + s.activeUsers, 0)} users online
+                      {(Object.keys(STATUS_LABELS) as ContractorStatus[]).map(status => (
+                        <div key={status} className="flex items-center gap-2">
+                          <div className={`w-3 h-3 ${getStatusColor(status)} rounded-full`}></div>
+                          <span>{STATUS_LABELS[status]} ({members.filter(m => m.status === status).length})</span>
+                        </div>
+                      ))}
+                      <div className="flex items-center gap-2 pt-1">
+                        <div className="w-3 h-3 rotate-45 bg-red-500"></div>
+                        <span>Active job</span>
                       </div>
                     </div>
                   </div>
 
-                  {/* Live Update Indicator */}
-                  <div className="absolute top-4 right-4 bg-emerald-500 text-white px-3 py-1 rounded-full text-xs font-medium">
-                    <div className="flex items-center gap-2">
-                      <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
-                      LIVE
+                  {autoRefresh && (
+                    <div className="absolute top-4 right-4 bg-emerald-500 text-white px-3 py-1 rounded-full text-xs font-medium">
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+                        LIVE
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
           </div>
 
-          {/* Activity Summary */}
-          <div className="lg:col-span-1 space-y-4">
+          {/* Crew List */}
+          <div className="space-y-4">
             <Card>
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
                   <CardTitle className="text-lg flex items-center gap-2">
-                    <TrendingUp className="h-5 w-5 text-green-600" />
-                    Top Active Cities
+                    <Activity className="h-5 w-5 text-green-600" />
+                    Crew
                   </CardTitle>
+                  <select
+                    value={statusFilter}
+                    onChange={(e) => setStatusFilter(e.target.value as 'all' | ContractorStatus)}
+                    className="text-xs border border-slate-200 rounded px-2 py-1"
+                  >
+                    <option value="all">All</option>
+                    {(Object.keys(STATUS_LABELS) as ContractorStatus[]).map(status => (
+                      <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
                 </div>
               </CardHeader>
-              <CardContent className="space-y-3 max-h-96 overflow-y-auto">
-                {liveSignals
-                  .filter(signal => signal.activeUsers > 0)
-                  .sort((a, b) => b.activeUsers - a.activeUsers)
-                  .slice(0, 10)
-                  .map((signal, index) => (
-                    <div key={signal.id} className="flex items-center justify-between p-2 rounded border bg-gradient-to-r from-emerald-50 to-white">
-                      <div className="flex items-center gap-3">
-                        <div className="w-6 h-6 bg-emerald-500 rounded-full flex items-center justify-center text-white text-xs font-bold">
-                          {index + 1}
-                        </div>
-                        <div>
-                          <div className="font-medium text-sm text-slate-900">{signal.name}</div>
-                          <div className="text-xs text-slate-500">Updated {formatTime(signal.lastUpdate)}</div>
+              <CardContent className="space-y-3 max-h-[480px] overflow-y-auto">
+                {visibleMembers.map(member => {
+                  const currentJob = jobs.find(j => j.id === member.currentJobId)
+                  return (
+                    <div
+                      key={member.id}
+                      onClick={() => setSelectedContractor(selectedContractor === member.user_id ? null : member.user_id)}
+                      className={`p-3 rounded border cursor-pointer ${selectedContractor === member.user_id ? 'border-slate-900 bg-slate-50' : 'bg-white'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <div className={`w-2.5 h-2.5 rounded-full ${getStatusColor(member.status)}`}></div>
+                          <span className="font-medium text-sm text-slate-900">{member.name}</span>
+                          <span className="text-xs text-slate-500">{COMPANY_ROLES[member.role]}</span>
                         </div>
+                        <span className="text-xs text-slate-600">{STATUS_LABELS[member.status]}</span>
                       </div>
-                      <div className="text-right">
-                        <div className="text-lg font-bold text-emerald-600">{signal.activeUsers}</div>
-                        <div className="text-xs text-slate-400">users</div>
+                      {currentJob && (
+                        <div className="text-xs text-slate-600 mt-1 flex items-center gap-1">
+                          <Wrench className="h-3 w-3" />
+                          {currentJob.title}
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between mt-1 text-xs text-slate-500">
+                        {member.phone ? (
+                          <a href={`tel:${member.phone}`} className="flex items-center gap-1 hover:text-blue-600" onClick={e => e.stopPropagation()}>
+                            <Phone className="h-3 w-3" />
+                            {member.phone}
+                          </a>
+                        ) : <span />}
+                        {member.location?.updatedAt && (
+                          <span className="flex items-center gap-1">
+                            <Clock className="h-3 w-3" />
+                            {formatTime(new Date(member.location.updatedAt))}
+                          </span>
+                        )}
                       </div>
                     </div>
-                  ))}
+                  )
+                })}
 
-                {liveSignals.filter(signal => signal.activeUsers > 0).length === 0 && (
-                  <div className="text-center py-8 text-slate-500">
-                    <Signal className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    <div className="text-sm">No active signals</div>
-                    <div className="text-xs">Waiting for user activity...</div>
-                  </div>
+                {visibleMembers.length === 0 && (
+                  <div className="text-center py-8 text-slate-500 text-sm">No technicians match this filter</div>
                 )}
               </CardContent>
             </Card>
+          </div>
 
-            <Card className="mt-4">
+          {/* Jobs */}
+          <div className="lg:col-span-2">
+            <Card>
               <CardHeader className="pb-3">
                 <CardTitle className="text-lg flex items-center gap-2">
-                  <Activity className="h-5 w-5 text-green-600" />
-                  Quick Actions
+                  <Wrench className="h-5 w-5 text-amber-600" />
+                  Jobs
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                <Button variant="outline" className="w-full justify-start h-auto p-3" size="sm">
-                  <div className="bg-red-500 text-white p-2 rounded mr-3">
-                    <Bell className="h-4 w-4" />
-                  </div>
-                  <div className="text-left">
-                    <div className="font-medium">Emergency Broadcast</div>
-                    <div className="text-xs text-slate-500">Alert all available team</div>
-                  </div>
-                </Button>
+                {jobs.map(job => {
+                  const assignable = ['bid_accepted', 'in_progress'].includes(job.status)
+                  const techId = jobTechId(job)
+                  return (
+                    <div
+                      key={job.id}
+                      className={`p-3 rounded border flex items-center justify-between gap-4 ${selectedContractor && techId === selectedContractor ? 'border-slate-900 bg-slate-50' : 'bg-white'}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className={`w-2 h-2 rounded-full ${getPriorityColor(jobPriority(job))}`}></span>
+                          <span className="font-medium text-sm text-slate-900 truncate">{job.title}</span>
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">
+                            {job.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                        <div className="text-xs text-slate-500 mt-1 truncate">
+                          {job.category}{job.address ? ` · ${job.address}` : ''}
+                        </div>
+                      </div>
+                      {isDispatcher && assignable ? (
+                        <select
+                          value={job.assigned_tech_id || ''}
+                          onChange={(e) => e.target.value && handleAssign(job.id, e.target.value)}
+                          className="text-sm border border-slate-200 rounded px-2 py-1"
+                        >
+                          <option value="">Assign tech...</option>
+                          {members.map(member => (
+                            <option key={member.user_id} value={member.user_id}>
+                              {member.name} ({STATUS_LABELS[member.status]})
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-sm text-slate-600 whitespace-nowrap">{memberName(techId)}</span>
+                      )}
+                    </div>
+                  )
+                })}
 
-                <Button variant="outline" className="w-full justify-start h-auto p-3" size="sm">
-                  <div className="bg-blue-500 text-white p-2 rounded mr-3">
-                    <Users className="h-4 w-4" />
-                  </div>
-                  <div className="text-left">
-                    <div className="font-medium">Team Check-in</div>
-                    <div className="text-xs text-slate-500">Status update request</div>
+                {jobs.length === 0 && (
+                  <div className="text-center py-8 text-slate-500 text-sm">
+                    No active jobs. Jobs your crew wins show up here.
                   </div>
-                </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
 
-                <Button variant="outline" className="w-full justify-start h-auto p-3" size="sm">
-                  <div className="bg-amber-500 text-white p-2 rounded mr-3">
-                    <Target className="h-4 w-4" />
-                  </div>
-                  <div className="text-left">
-                    <div className="font-medium">Route Optimization</div>
-                    <div className="text-xs text-slate-500">Optimize all routes</div>
+          {/* Team Management */}
+          {role === 'owner' && (
+            <div>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <UserPlus className="h-5 w-5 text-blue-600" />
+                    Manage Team
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="space-y-2">
+                    <input
+                      value={newMemberEmail}
+                      onChange={(e) => setNewMemberEmail(e.target.value)}
+                      placeholder="Technician's Rushr Pro email"
+                      className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm"
+                    />
+                    <div className="flex gap-2">
+                      <select
+                        value={newMemberRole}
+                        onChange={(e) => setNewMemberRole(e.target.value as CompanyRole)}
+                        className="flex-1 text-sm border border-slate-300 rounded-lg px-2 py-2"
+                      >
+                        <option value="tech">{COMPANY_ROLES.tech}</option>
+                        <option value="dispatcher">{COMPANY_ROLES.dispatcher}</option>
+                      </select>
+                      <Button size="sm" onClick={handleInviteMember} disabled={saving || !newMemberEmail.trim()}>
+                        Invite
+                      </Button>
+                    </div>
                   </div>
-                </Button>
 
-                <Button variant="outline" className="w-full justify-start h-auto p-3" size="sm">
-                  <div className="bg-purple-500 text-white p-2 rounded mr-3">
-                    <TrendingUp className="h-4 w-4" />
-                  </div>
-                  <div className="text-left">
-                    <div className="font-medium">Generate Report</div>
-                    <div className="text-xs text-slate-500">Performance analytics</div>
+                  <div className="divide-y border-t pt-2">
+                    {members.map(member => (
+                      <div key={member.id} className="flex items-center justify-between py-2 text-sm">
+                        <span className="text-slate-900">{member.name}</span>
+                        {member.role === 'owner' ? (
+                          <span className="text-xs text-slate-500">{COMPANY_ROLES.owner}</span>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <select
+                              value={member.role}
+                              onChange={(e) => handleChangeRole(member.id, e.target.value as CompanyRole)}
+                              className="text-xs border border-slate-200 rounded px-1 py-1"
+                            >
+                              <option value="tech">{COMPANY_ROLES.tech}</option>
+                              <option value="dispatcher">{COMPANY_ROLES.dispatcher}</option>
+                            </select>
+                            <button
+                              onClick={() => handleRemoveMember(member.id, member.name)}
+                              className="text-slate-400 hover:text-red-600"
+                              aria-label={`Remove ${member.name}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                    {(board?.invites || []).map(invite => (
+                      <div key={invite.id} className="flex items-center justify-between py-2 text-sm">
+                        <span className="text-slate-500">{invite.name}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-slate-400">Invited as {COMPANY_ROLES[invite.role].toLowerCase()}</span>
+                          <button
+                            onClick={() => handleRevokeInvite(invite.id, invite.name)}
+                            className="text-slate-400 hover:text-red-600"
+                            aria-label={`Withdraw invite to ${invite.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                </Button>
-              </CardContent>
-            </Card>
-
-          </div>
+                </CardContent>
+              </Card>
+            </div>
+          )}
         </div>
       </div>
       </div>
     </PageLoading>
   )
-}
\ No newline at end of file
+}
@@ -7,12 +7,16 @@ interface AdditionalZipCodesProps {
   additionalZips: string[]
   onUpdateZips: (zips: string[]) => void
   className?: string
+  label?: string
+  description?: string
 }
 
 export default function AdditionalZipCodes({
   additionalZips,
   onUpdateZips,
-  className = ''
+  className = '',
+  label = 'Additional ZIP Codes',
+  description = 'Add additional ZIP codes where you need emergency services. This helps contractors find you faster.'
 }: AdditionalZipCodesProps) {
   const [zipInput, setZipInput] = useState('')
   const [error, setError] = useState('')
@@ -66,12 +70,12 @@ export default function AdditionalZipCodes({
       <div className="flex items-center gap-2">
         <MapPin className="h-4 w-4 text-slate-500" />
         <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
-          Additional ZIP Codes
+          {label}
         </label>
       </div>
 
       <p className="text-xs text-slate-600 dark:text-slate-400">
-        Add additional ZIP codes where you need emergency services. This helps contractors find you faster.
+        {description}
       </p>
 
       {/* Input Field */}
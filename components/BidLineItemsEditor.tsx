@@ -0,0 +1,184 @@
+'use client'
+
+import React from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import {
+  BID_LINE_KINDS,
+  BidLineItem,
+  BidLineKind,
+  ContractorRates,
+  bidTotal,
+  laborRate,
+  lineItemTotal
+} from '../lib/bids'
+
+export interface BidDraft {
+  lineItems: BidLineItem[]
+  etaMinutes: string
+  validForHours: string
+}
+
+interface BidLineItemsEditorProps {
+  value: BidDraft
+  onChange: (value: BidDraft) => void
+  rates: ContractorRates
+}
+
+const VALIDITY_OPTIONS = [
+  { hours: '4', label: '4 hours' },
+  { hours: '24', label: '1 day' },
+  { hours: '48', label: '2 days' },
+  { hours: '168', label: '1 week' },
+]
+
+export default function BidLineItemsEditor({ value, onChange, rates }: BidLineItemsEditorProps) {
+  const { lineItems } = value
+
+  const updateLine = (index: number, patch: Partial<BidLineItem>) => {
+    onChange({
+      ...value,
+      lineItems: lineItems.map((item, i) => (i === index ? { ...item, ...patch } : item))
+    })
+  }
+
+  const addLine = (kind: BidLineKind) => {
+    const line: BidLineItem = kind === 'labor'
+      ? { kind, description: 'Labor (hours)', quantity: 1, unit_price: laborRate(rates, 'peak') ?? 0, rate_type: 'peak' }
+      : kind === 'diagnostic'
+        ? { kind, description: 'Diagnostic visit', quantity: 1, unit_price: Number(rates.diagnostic_fee ?? 0) }
+        : { kind, description: '', quantity: 1, unit_price: 0 }
+
+    onChange({ ...value, lineItems: [...lineItems, line] })
+  }
+
+  const removeLine = (index: number) => {
+    onChange({ ...value, lineItems: lineItems.filter((_, i) => i !== index) })
+  }
+
+  const setRateType = (index: number, rateType: 'peak' | 'surge') => {
+    const rate = laborRate(rates, rateType)
+    updateLine(index, { rate_type: rateType, ...(rate != null ? { unit_price: rate } : {}) })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-2">
+          Line Items <span className="text-red-500">*</span>
+        </label>
+
+        <div className="space-y-2">
+          {lineItems.map((item, index) => (
+            <div key={index} className="p-3 border border-slate-200 rounded-lg space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-slate-100 text-slate-700">
+                  {BID_LINE_KINDS[item.kind]}
+                </span>
+                <input
+                  type="text"
+                  value={item.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                  placeholder={item.kind === 'parts' ? 'Part or material' : 'Description'}
+                  className="flex-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeLine(index)}
+                  className="p-1.5 text-slate-400 hover:text-red-600"
+                  aria-label="Remove line"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-2 text-sm">
+                <input
+                  type="number"
+                  min="0"
+                  step={item.kind === 'labor' ? '0.25' : '1'}
+                  value={item.quantity}
+                  onChange={(e) => updateLine(index, { quantity: Number(e.target.value) })}
+                  className="w-20 px-2 py-1.5 border border-slate-300 rounded-lg"
+                />
+                <span className="text-slate-500">{item.kind === 'labor' ? 'hrs ×' : '×'}</span>
+                <div className="relative">
+                  <span className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400">$</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={item.unit_price}
+                    onChange={(e) => updateLine(index, { unit_price: Number(e.target.value) })}
+                    className="w-28 pl-5 pr-2 py-1.5 border border-slate-300 rounded-lg"
+                  />
+                </div>
+                {item.kind === 'labor' && (
+                  <select
+                    value={item.rate_type || 'peak'}
+                    onChange={(e) => setRateType(index, e.target.value as 'peak' | 'surge')}
+                    className="px-2 py-1.5 border border-slate-300 rounded-lg"
+                  >
+                    <option value="peak">Peak rate</option>
+                    <option value="surge">Surge rate</option>
+                  </select>
+                )}
+                <span className="ml-auto font-medium text-slate-900">
+                  ${lineItemTotal(item).toFixed(2)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-2">
+          {(Object.keys(BID_LINE_KINDS) as BidLineKind[]).map(kind => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => addLine(kind)}
+              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+            >
+              <Plus className="h-4 w-4" />
+              {BID_LINE_KINDS[kind]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mt-3 pt-3 border-t border-slate-200">
+          <span className="text-sm font-medium text-slate-700">Total</span>
+          <span className="text-lg font-bold text-slate-900">${bidTotal(lineItems).toFixed(2)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            ETA (minutes)
+          </label>
+          <input
+            type="number"
+            min="0"
+            placeholder="e.g. 45"
+            value={value.etaMinutes}
+            onChange={(e) => onChange({ ...value, etaMinutes: e.target.value })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            Bid valid for
+          </label>
+          <select
+            value={value.validForHours}
+            onChange={(e) => onChange({ ...value, validForHours: e.target.value })}
+            className="w-full px-3 py-2 border border-slate-300 rounded-lg"
+          >
+            {VALIDITY_OPTIONS.map(option => (
+              <option key={option.hours} value={option.hours}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@
 import { useEffect, useRef, useState } from 'react'
 import mapboxgl from 'mapbox-gl'
 import 'mapbox-gl/dist/mapbox-gl.css'
-import { supabase } from '../lib/supabaseClient'
+import { reportJobLocation } from '../lib/nativeLocation'
 
 mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || ''
 
@@ -38,6 +38,7 @@ export default function ContractorNavigationMap({
   const [eta, setEta] = useState<string>('')
   const [distance, setDistance] = useState<string>('')
   const watchId = useRef<number | null>(null)
+  const arrivedRef = useRef(false)
 
   useEffect(() => {
     if (!mapContainer.current || map.current) return
@@ -136,46 +137,26 @@ export default function ContractorNavigationMap({
       const distanceKm = (route.distance / 1000).toFixed(1)
       setEta(`${durationMinutes} min`)
       setDistance(`${distanceKm} km`)
+    }
 
-      // Check if arrived (within 50 meters)
-      const distanceToDestination = calculateDistance(
+    // Arrival is decided by the server's geofence and arrival are computed by the server
+    try {
+      const tracking = await reportJobLocation(jobId, {
         latitude,
         longitude,
-        jobLatitude,
-        jobLongitude
-      )
-
-      if (distanceToDestination < 50 && !hasArrived) {
+        accuracy,
+        heading,
+        speed,
+        timestamp: position.timestamp
+      })
+
+      if (tracking?.hasArrived && !arrivedRef.current) {
+        arrivedRef.current = true
         setHasArrived(true)
         onArrival?.()
-
-        // Update database
-        await supabase.rpc('update_contractor_location', {
-          p_job_id: jobId,
-          p_latitude: latitude,
-          p_longitude: longitude,
-          p_accuracy: accuracy,
-          p_heading: heading || null,
-          p_speed: speed || null,
-          p_is_en_route: true,
-          p_has_arrived: true,
-          p_distance: distanceToDestination
-        })
-      } else {
-        // Update database with current location
-        await supabase.rpc('update_contractor_location', {
-          p_job_id: jobId,
-          p_latitude: latitude,
-          p_longitude: longitude,
-          p_accuracy: accuracy,
-          p_heading: heading || null,
-          p_speed: speed || null,
-          p_is_en_route: true,
-          p_has_arrived: false,
-          p_eta: new Date(Date.now() + route.duration * 1000).toISOString(),
-          p_distance: distanceToDestination
-        })
       }
+    } catch (error) {
+      console.error('Error reporting location:', error)
     }
   }
 
@@ -231,21 +212,6 @@ export default function ContractorNavigationMap({
     })
   }
 
-  function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371e3 // Earth radius in meters
-    const φ1 = (lat1 * Math.PI) / 180
-    const φ2 = (lat2 * Math.PI) / 180
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-
-    return R * c // Distance in meters
-  }
-
   function openNativeMaps() {
     // Open native maps app for turn-by-turn navigation
     const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent)
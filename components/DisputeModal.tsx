@@ -0,0 +1,283 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { useAuth } from '../contexts/AuthContext'
+import { AlertCircle, Camera, X, Loader2 } from 'lucide-react'
+
+interface DisputeModalProps {
+  paymentHoldId: string
+  homeownerId: string
+  contractorId: string
+  userType: 'homeowner' | 'contractor'
+  onClose: () => void
+  onOpened?: () => void
+}
+
+interface ChatMessage {
+  id: string
+  sender_id: string
+  content: string | null
+  created_at: string
+}
+
+const REASONS: { value: string; label: string; for: Array<'homeowner' | 'contractor'> }[] = [
+  { value: 'work_incomplete', label: 'Work not completed', for: ['homeowner'] },
+  { value: 'poor_quality', label: 'Poor quality of work', for: ['homeowner'] },
+  { value: 'no_show', label: 'Contractor did not show up', for: ['homeowner'] },
+  { value: 'damage', label: 'Property damage', for: ['homeowner'] },
+  { value: 'payment_not_confirmed', label: 'Homeowner will not confirm completion', for: ['contractor'] },
+  { value: 'other', label: 'Other', for: ['homeowner', 'contractor'] },
+]
+
+export default function DisputeModal({
+  paymentHoldId,
+  homeownerId,
+  contractorId,
+  userType,
+  onClose,
+  onOpened
+}: DisputeModalProps) {
+  const { user } = useAuth()
+  const reasons = REASONS.filter(r => r.for.includes(userType))
+  const [reason, setReason] = useState(reasons[0].value)
+  const [description, setDescription] = useState('')
+  const [photos, setPhotos] = useState<File[]>([])
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [selectedMessages, setSelectedMessages] = useState<string[]>([])
+  const [attachVisitReport, setAttachVisitReport] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchConversationMessages()
+  }, [homeownerId, contractorId])
+
+  async function fetchConversationMessages() {
+    const { data: conversations } = await supabase
+      .from('conversations')
+      .select('id')
+      .eq('homeowner_id', homeownerId)
+      .eq('pro_id', contractorId)
+
+    const conversationIds = (conversations || []).map(c => c.id)
+    if (conversationIds.length === 0) return
+
+    const { data } = await supabase
+      .from('messages')
+      .select('id, sender_id, content, created_at')
+      .in('conversation_id', conversationIds)
+      .eq('message_type', 'text')
+      .order('created_at', { ascending: false })
+      .limit(30)
+
+    setMessages(data || [])
+  }
+
+  function toggleMessage(id: string) {
+    setSelectedMessages(prev =>
+      prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]
+    )
+  }
+
+  async function handleSubmit() {
+    if (!user || !description.trim()) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+
+      if (!session?.access_token) {
+        throw new Error('No session token available. Please log in again.')
+      }
+
+      const headers = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+
+      // 1. Open the dispute
+      const response = await fetch('/api/disputes', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ paymentHoldId, reason, description: description.trim() })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to open dispute')
+      }
+
+      const disputeId = result.dispute.id
+
+      // 2. Upload photos and attach them as evidence
+      for (const photo of photos) {
+        const fileExt = photo.name.split('.').pop()
+        const fileName = `${user.id}/${disputeId}/${Date.now()}.${fileExt}`
+
+        const { error: uploadError } = await supabase.storage
+          .from('dispute-evidence')
+          .upload(fileName, photo)
+
+        if (uploadError) {
+          console.error('Failed to upload evidence photo:', uploadError)
+          continue
+        }
+
+        await fetch(`/api/disputes/${disputeId}/evidence`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ type: 'photo', filePath: fileName })
+        })
+      }
+
+      // 3. Attach selected chat messages
+      for (const messageId of selectedMessages) {
+        await fetch(`/api/disputes/${disputeId}/evidence`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ type: 'message', messageId })
+        })
+      }
+
+      // 4. Snapshot the GPS visit report (fails quietly when nothing was tracked)
+      if (attachVisitReport) {
+        await fetch(`/api/disputes/${disputeId}/evidence`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ type: 'visit_report' })
+        })
+      }
+
+      onOpened?.()
+      onClose()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">Report a Problem</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Opening a dispute pauses the payment release. Our team will review the evidence from both sides and decide how the payment is settled.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">What went wrong?</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm"
+            >
+              {reasons.map(r => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Describe the issue</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Photos</label>
+            <label className="flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-gray-300 text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+              <Camera className="h-4 w-4" />
+              {photos.length > 0 ? `${photos.length} photo${photos.length > 1 ? 's' : ''} selected` : 'Add photos'}
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+              />
+            </label>
+          </div>
+
+          {messages.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Attach messages from your conversation
+              </label>
+              <div className="max-h-48 overflow-y-auto space-y-1 border border-gray-200 rounded-lg p-2">
+                {messages.map(message => (
+                  <label key={message.id} className="flex items-start gap-2 p-2 rounded hover:bg-gray-50 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedMessages.includes(message.id)}
+                      onChange={() => toggleMessage(message.id)}
+                      className="mt-1"
+                    />
+                    <span className="flex-1">
+                      <span className="text-xs text-gray-500 block">
+                        {message.sender_id === user?.id ? 'You' : userType === 'homeowner' ? 'Contractor' : 'Homeowner'}
+                        {' • '}
+                        {new Date(message.created_at).toLocaleString()}
+                      </span>
+                      <span className="text-gray-700">{message.content}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={attachVisitReport}
+              onChange={(e) => setAttachVisitReport(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              Attach the GPS visit report
+              <span className="text-xs text-gray-500 block">When the contractor arrived, how long they stayed and the route they drove</span>
+            </span>
+          </label>
+
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !description.trim()}
+            className="w-full bg-red-600 text-white py-3 px-4 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 font-medium"
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              'Open Dispute'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
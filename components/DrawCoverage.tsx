@@ -14,6 +14,7 @@ type Props = {
   title?: string
   initialCenter?: [number, number]            // [lng, lat]
   initialZoom?: number
+  initialGeojson?: GeoJSON.FeatureCollection | null  // previously saved shapes to edit
   onChange?: (stats: { areaSqKm: number; perimeterKm: number; count: number }) => void
   onSave?: (result: { geojson: GeoJSON.FeatureCollection }) => void
   onClose?: () => void
@@ -23,6 +24,7 @@ export default function DrawCoverage({
   title = 'Draw search area',
   initialCenter = [-74.006, 40.7128],
   initialZoom = 11,
+  initialGeojson,
   onChange,
   onSave,
   onClose,
@@ -30,7 +32,7 @@ export default function DrawCoverage({
   const mapContainerRef = useRef<HTMLDivElement>(null)
   const mapRef = useRef<maplibregl.Map | null>(null)
   const drawRef = useRef<MapboxDraw | null>(null)
-  const [geojson, setGeojson] = useState<GeoJSON.FeatureCollection | null>(null)
+  const [geojson, setGeojson] = useState<GeoJSON.FeatureCollection | null>(initialGeojson ?? null)
 
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return
@@ -81,6 +83,13 @@ export default function DrawCoverage({
     map.on('draw.update', update)
     map.on('draw.delete', update)
 
+    if (initialGeojson?.features.length) {
+      map.on('load', () => {
+        drawRef.current?.set(initialGeojson)
+        update()
+      })
+    }
+
     // Ensure proper sizing after mount
     setTimeout(() => map.resize(), 0)
 
@@ -0,0 +1,145 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Siren } from 'lucide-react'
+import { supabase } from '../lib/supabaseClient'
+
+interface Offer {
+  id: string
+  job_id: string
+  ring: number
+  rate_type: 'peak' | 'surge'
+  hourly_rate: number | null
+  distance_miles: number | null
+  expires_at: string
+  homeowner_jobs: {
+    id: string
+    title: string
+    category: string | null
+    address: string | null
+    zip_code: string | null
+  } | null
+}
+
+async function authHeaders() {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`
+  }
+}
+
+/**
+ * Open emergency dispatch offers for the signed-in contractor, with a
+ * countdown to each acknowledgement window
+ */
+export default function EmergencyOffers() {
+  const router = useRouter()
+  const [offers, setOffers] = useState<Offer[]>([])
+  const [responding, setResponding] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  const loadOffers = async () => {
+    const response = await fetch('/api/dispatch/offers', { headers: await authHeaders() })
+    if (!response.ok) return
+    const { offers } = await response.json()
+    setOffers(offers)
+  }
+
+  useEffect(() => {
+    loadOffers()
+    const poll = setInterval(loadOffers, 15000)
+    const tick = setInterval(() => setNow(Date.now()), 1000)
+
+    // New offers arrive as in-app notifications too; refresh right away
+    const channel = supabase
+      .channel('dispatch-offers')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'dispatch_offers' }, () => loadOffers())
+      .subscribe()
+
+    return () => {
+      clearInterval(poll)
+      clearInterval(tick)
+      supabase.removeChannel(channel)
+    }
+  }, [])
+
+  const respond = async (offer: Offer, action: 'accept' | 'decline') => {
+    setResponding(offer.id)
+    try {
+      const response = await fetch(`/api/dispatch/offers/${offer.id}`, {
+        method: 'POST',
+        headers: await authHeaders(),
+        body: JSON.stringify({ action })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert(result.error || 'Failed to respond to offer')
+      } else if (action === 'accept') {
+        router.push(`/dashboard/contractor/jobs/${result.jobId}`)
+        return
+      }
+      await loadOffers()
+    } finally {
+      setResponding(null)
+    }
+  }
+
+  const open = offers.filter(o => new Date(o.expires_at).getTime() > now)
+  if (open.length === 0) return null
+
+  return (
+    <div className="space-y-3 mb-6">
+      {open.map(offer => {
+        const seconds = Math.max(0, Math.round((new Date(offer.expires_at).getTime() - now) / 1000))
+        const job = offer.homeowner_jobs
+
+        return (
+          <div key={offer.id} className="rounded-xl border-2 border-red-300 bg-red-50 p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <Siren className="h-6 w-6 text-red-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold text-red-900">{job?.title || 'Emergency request'}</p>
+                  <p className="text-sm text-red-800">
+                    {job?.category}{job?.zip_code ? ` · ${job.zip_code}` : ''}
+                    {offer.distance_miles != null ? ` · ${offer.distance_miles} mi away` : ''}
+                  </p>
+                  {offer.hourly_rate != null && (
+                    <p className="text-sm text-red-800 mt-1">
+                      ${offer.hourly_rate}/hr {offer.rate_type === 'surge' && <span className="font-semibold">(surge rate)</span>}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-red-700">
+                  {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, '0')}
+                </p>
+                <p className="text-xs text-red-700">to respond</p>
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 mt-3">
+              <button
+                onClick={() => respond(offer, 'decline')}
+                disabled={responding === offer.id}
+                className="px-4 py-2 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50"
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => respond(offer, 'accept')}
+                disabled={responding === offer.id}
+                className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                {responding === offer.id ? 'Accepting...' : 'Accept job'}
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { supabase } from '../lib/supabaseClient'
 import { useAuth } from '../contexts/AuthContext'
+import DisputeModal from './DisputeModal'
 import {
   CheckCircle2,
   Clock,
@@ -17,6 +18,8 @@ interface PaymentHold {
   id: string
   job_id: string
   bid_id: string
+  homeowner_id: string
+  contractor_id: string
   amount: number
   contractor_payout: number
   status: string
@@ -25,6 +28,7 @@ interface PaymentHold {
   homeowner_confirmed_at?: string
   contractor_confirmed_at?: string
   released_at?: string
+  escrow_frozen?: boolean
   created_at: string
 }
 
@@ -46,6 +50,7 @@ export default function EscrowStatus({
   const [loading, setLoading] = useState(true)
   const [confirming, setConfirming] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [showDispute, setShowDispute] = useState(false)
 
   useEffect(() => {
     if (!user) return
@@ -225,7 +230,17 @@ export default function EscrowStatus({
               </div>
             </div>
 
-            {myConfirmation ? (
+            {paymentHold.escrow_frozen ? (
+              <div className="bg-amber-50 border border-amber-300 rounded-lg p-3">
+                <div className="flex items-center gap-2 text-amber-800">
+                  <AlertCircle className="h-5 w-5" />
+                  <span className="font-medium">Payment on hold - dispute under review</span>
+                </div>
+                <p className="text-sm text-amber-700 mt-1">
+                  Our team is reviewing this job. You'll be notified by email when it's resolved.
+                </p>
+              </div>
+            ) : myConfirmation ? (
               <div className="bg-emerald-100 border border-emerald-300 rounded-lg p-3">
                 <div className="flex items-center gap-2 text-emerald-800">
                   <CheckCircle2 className="h-5 w-5" />
@@ -265,8 +280,28 @@ export default function EscrowStatus({
               <Lock className="h-3 w-3 inline mr-1" />
               Payment will be automatically released when both parties confirm completion
             </p>
+
+            {!paymentHold.escrow_frozen && (
+              <button
+                onClick={() => setShowDispute(true)}
+                className="w-full text-xs text-gray-500 hover:text-red-600 mt-2 underline"
+              >
+                Problem with this job? Open a dispute
+              </button>
+            )}
           </div>
         </div>
+
+        {showDispute && (
+          <DisputeModal
+            paymentHoldId={paymentHold.id}
+            homeownerId={paymentHold.homeowner_id}
+            contractorId={paymentHold.contractor_id}
+            userType={userType}
+            onClose={() => setShowDispute(false)}
+            onOpened={fetchPaymentHold}
+          />
+        )}
       </div>
     )
   }
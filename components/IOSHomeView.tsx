@@ -983,7 +983,7 @@ function ProfileTab({ firstName, email, onSignOut }: { firstName: string; email:
               </div>
             </button>
             <div className="h-px bg-gray-100 ml-14" />
-            <button onClick={() => handleNavigation('/contact')} className="w-full">
+            <button onClick={() => handleNavigation('/support/tickets')} className="w-full">
               <div className="flex items-center justify-between py-3 px-4 active:bg-gray-50">
                 <div className="flex items-center gap-3">
                   <div className="w-8 h-8 rounded-lg bg-purple-100 flex items-center justify-center">
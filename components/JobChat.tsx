@@ -2,32 +2,30 @@
 
 import React, { useEffect, useState, useRef } from 'react'
 import { supabase } from '../lib/supabaseClient'
+import { MessagingAPI, Message } from '../lib/messaging'
 import { useAuth } from '../contexts/AuthContext'
 import { useProAuth } from '../contexts/ProAuthContext'
 
-interface ChatMessage {
-  id: string
-  job_id: string
-  sender_id: string
-  sender_role: 'homeowner' | 'contractor'
-  message: string
-  read_at: string | null
-  created_at: string
-}
-
 interface JobChatProps {
   jobId: string
+  jobTitle: string
+  homeownerId: string
+  contractorId: string
   contractorName?: string
   homeownerName?: string
 }
 
-export default function JobChat({ jobId, contractorName, homeownerName }: JobChatProps) {
+/**
+ * Live chat on the job page. It's the job's conversation in the shared
+ * messaging backend, so the same thread shows up in the messages inbox.
+ */
+export default function JobChat({ jobId, jobTitle, homeownerId, contractorId, contractorName, homeownerName }: JobChatProps) {
   const { user: homeownerUser } = useAuth()
   const { user: contractorUser } = useProAuth()
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<Message[]>([])
   const [newMessage, setNewMessage] = useState('')
   const [sending, setSending] = useState(false)
-  const [unreadCount, setUnreadCount] = useState(0)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const user = homeownerUser || contractorUser
   const userRole = homeownerUser ? 'homeowner' : 'contractor'
@@ -37,86 +35,59 @@ export default function JobChat({ jobId, contractorName, homeownerName }: JobCha
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
-  // Fetch messages
-  const fetchMessages = async () => {
-    const { data, error } = await supabase
-      .from('job_chat_messages')
-      .select('*')
-      .eq('job_id', jobId)
-      .order('created_at', { ascending: true })
+  // Open the job's conversation, load its messages and subscribe to new ones
+  useEffect(() => {
+    if (!user?.id) return
 
-    if (data && !error) {
-      setMessages(data)
-      scrollToBottom()
+    let cancelled = false
+    let channel: ReturnType<typeof MessagingAPI.subscribeToMessages> | null = null
 
-      // Mark unread messages as read
-      const unreadMessages = data.filter(m => m.sender_id !== user?.id && !m.read_at)
-      if (unreadMessages.length > 0) {
-        await supabase
-          .from('job_chat_messages')
-          .update({ read_at: new Date().toISOString() })
-          .in('id', unreadMessages.map(m => m.id))
-      }
-    }
-  }
+    const openConversation = async () => {
+      try {
+        const conversation = await MessagingAPI.createOrGetConversation(homeownerId, contractorId, jobTitle, jobId)
+        const history = await MessagingAPI.getMessages(conversation.id)
+        if (cancelled) return
 
-  // Subscribe to real-time messages
-  useEffect(() => {
-    fetchMessages()
-
-    const channel = supabase
-      .channel(`job-chat-${jobId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'job_chat_messages',
-          filter: `job_id=eq.${jobId}`
-        },
-        (payload) => {
-          console.log('[CHAT] New message:', payload)
-          const newMsg = payload.new as ChatMessage
-          setMessages(prev => [...prev, newMsg])
+        setConversationId(conversation.id)
+        setMessages(history)
+        scrollToBottom()
+        await MessagingAPI.markAsRead(conversation.id, user.id)
+
+        channel = MessagingAPI.subscribeToMessages(conversation.id, (message) => {
+          setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
           scrollToBottom()
 
-          // Mark as read if not sent by current user
-          if (newMsg.sender_id !== user?.id) {
-            supabase
-              .from('job_chat_messages')
-              .update({ read_at: new Date().toISOString() })
-              .eq('id', newMsg.id)
-              .then(() => console.log('[CHAT] Marked message as read'))
+          if (message.sender_id !== user.id) {
+            MessagingAPI.markAsRead(conversation.id, user.id, message.id)
+              .catch(err => console.error('[CHAT] Error marking message as read:', err))
           }
-        }
-      )
-      .subscribe()
+        })
+      } catch (error) {
+        console.error('[CHAT] Error opening conversation:', error)
+      }
+    }
+
+    openConversation()
 
     return () => {
-      supabase.removeChannel(channel)
+      cancelled = true
+      if (channel) supabase.removeChannel(channel)
     }
-  }, [jobId, user?.id])
+  }, [jobId, jobTitle, homeownerId, contractorId, user?.id])
 
   // Send message
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!newMessage.trim() || !user) return
+    if (!newMessage.trim() || !user || !conversationId) return
 
     setSending(true)
 
-    const { error } = await supabase
-      .from('job_chat_messages')
-      .insert({
-        job_id: jobId,
-        sender_id: user.id,
-        sender_role: userRole,
-        message: newMessage.trim(),
-        created_at: new Date().toISOString()
-      })
-
-    if (!error) {
+    try {
+      const message = await MessagingAPI.sendMessage(conversationId, user.id, newMessage.trim())
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message])
       setNewMessage('')
-    } else {
+      scrollToBottom()
+    } catch (error) {
       console.error('[CHAT] Error sending message:', error)
       alert('Failed to send message')
     }
@@ -155,6 +126,14 @@ export default function JobChat({ jobId, contractorName, homeownerName }: JobCha
           </div>
         ) : (
           messages.map((msg) => {
+            if (msg.message_type === 'system') {
+              return (
+                <div key={msg.id} className="text-center text-xs text-slate-500 px-6">
+                  {msg.content}
+                </div>
+              )
+            }
+
             const isOwnMessage = msg.sender_id === user?.id
             return (
               <div
@@ -168,7 +147,7 @@ export default function JobChat({ jobId, contractorName, homeownerName }: JobCha
                       : 'bg-slate-100 text-slate-900'
                   }`}
                 >
-                  <p className="text-sm whitespace-pre-wrap break-words">{msg.message}</p>
+                  <p className="text-sm whitespace-pre-wrap break-words">{msg.content}</p>
                   <div
                     className={`text-xs mt-1 ${
                       isOwnMessage ? 'text-emerald-100' : 'text-slate-500'
@@ -193,11 +172,11 @@ export default function JobChat({ jobId, contractorName, homeownerName }: JobCha
             onChange={(e) => setNewMessage(e.target.value)}
             placeholder="Type a message..."
             className="flex-1 px-4 py-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500 text-sm"
-            disabled={sending}
+            disabled={sending || !conversationId}
           />
           <button
             type="submit"
-            disabled={sending || !newMessage.trim()}
+            disabled={sending || !conversationId || !newMessage.trim()}
             className="px-4 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
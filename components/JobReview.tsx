@@ -0,0 +1,95 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { ReviewEligibility } from '../lib/reviews'
+import ReviewModal from './ReviewModal'
+import ReviewCard from './ReviewCard'
+import { Star } from 'lucide-react'
+
+interface JobReviewProps {
+  jobId: string
+  /** Name of the other party on the job */
+  otherPartyName: string
+}
+
+/**
+ * Review section for a job page: prompts each party to review the other
+ * once the payment is released, and shows the reviews already left
+ */
+export default function JobReview({ jobId, otherPartyName }: JobReviewProps) {
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(null)
+  const [showModal, setShowModal] = useState(false)
+
+  const loadEligibility = async () => {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session?.access_token) return
+
+    const response = await fetch(`/api/reviews?jobId=${jobId}`, {
+      headers: { 'Authorization': `Bearer ${session.access_token}` }
+    })
+    if (!response.ok) return
+
+    setEligibility(await response.json())
+  }
+
+  useEffect(() => {
+    loadEligibility()
+  }, [jobId])
+
+  // Nothing to show until the payment is released
+  if (!eligibility?.role) return null
+
+  const { canReview, role, myReview, theirReview } = eligibility
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-6">
+      <h2 className="text-lg font-semibold text-slate-900 mb-2 flex items-center gap-2">
+        <Star className="h-5 w-5 text-amber-500" />
+        Reviews
+      </h2>
+
+      {canReview && (
+        <div className="flex items-center justify-between gap-4 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <p className="text-sm text-amber-900">
+            The payment for this job has been released. How was your experience with {otherPartyName}?
+          </p>
+          <button
+            onClick={() => setShowModal(true)}
+            className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 whitespace-nowrap"
+          >
+            Leave a Review
+          </button>
+        </div>
+      )}
+
+      {myReview && (
+        <div className="border-b border-slate-100 last:border-b-0">
+          <p className="text-sm font-medium text-slate-700 mt-2">Your review of {otherPartyName}</p>
+          <ReviewCard review={myReview} />
+        </div>
+      )}
+
+      {theirReview && (
+        <div>
+          <p className="text-sm font-medium text-slate-700 mt-2">{otherPartyName}&apos;s review of you</p>
+          <ReviewCard
+            review={theirReview}
+            canReply={role === 'contractor' && theirReview.reviewer_role === 'homeowner'}
+            onReplied={review => setEligibility(prev => prev && { ...prev, theirReview: review })}
+          />
+        </div>
+      )}
+
+      {showModal && (
+        <ReviewModal
+          jobId={jobId}
+          role={role!}
+          revieweeName={otherPartyName}
+          onClose={() => setShowModal(false)}
+          onSubmitted={loadEligibility}
+        />
+      )}
+    </div>
+  )
+}
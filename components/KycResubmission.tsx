@@ -0,0 +1,201 @@
+'use client'
+
+import React, { useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { KYC_HISTORY_LABELS, documentLabel, isExpiringType } from '../lib/kycDocuments'
+import type { KycDocument, KycDocumentType, KycHistoryEntry } from '../lib/kycDocuments'
+
+/**
+ * Upload a file to the user's folder in the kyc-documents bucket and submit
+ * it for review. replacesDocumentId resubmits a rejected, expired or
+ * expiring document.
+ */
+export async function uploadKycDocument(
+  userId: string,
+  file: File,
+  options: { documentType: KycDocumentType; expiresAt?: string; replacesDocumentId?: string }
+) {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session?.access_token) {
+    throw new Error('No session token available. Please log in again.')
+  }
+
+  const fileExt = file.name.split('.').pop()
+  const fileName = `${userId}/${options.documentType}_${Date.now()}.${fileExt}`
+
+  const { error: uploadError } = await supabase.storage
+    .from('kyc-documents')
+    .upload(fileName, file)
+
+  if (uploadError) throw uploadError
+
+  const { data: urlData } = supabase.storage
+    .from('kyc-documents')
+    .getPublicUrl(fileName)
+
+  const response = await fetch('/api/kyc/documents', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({
+      documentType: options.documentType,
+      documentUrl: urlData.publicUrl,
+      expiresAt: options.expiresAt,
+      replacesDocumentId: options.replacesDocumentId
+    })
+  })
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to submit document')
+  }
+
+  return result
+}
+
+interface KycResubmissionProps {
+  userId: string
+  /** Documents that were rejected, need replacing or expired */
+  needsAction: KycDocument[]
+  /** Approved documents that expire soon and can be renewed now */
+  expiringSoon: KycDocument[]
+  history: KycHistoryEntry[]
+  onSubmitted: () => void
+}
+
+/**
+ * Asks only for the documents that need to be sent again, and shows every
+ * upload and decision so far
+ */
+export default function KycResubmission({ userId, needsAction, expiringSoon, history, onSubmitted }: KycResubmissionProps) {
+  const [files, setFiles] = useState<Record<string, File | null>>({})
+  const [expiryDates, setExpiryDates] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (doc: KycDocument) => {
+    const file = files[doc.id]
+    if (!file) {
+      setError(`Choose a new ${documentLabel(doc.document_type).toLowerCase()} to upload`)
+      return
+    }
+
+    setSubmitting(doc.id)
+    setError(null)
+
+    try {
+      await uploadKycDocument(userId, file, {
+        documentType: doc.document_type,
+        expiresAt: expiryDates[doc.id] || undefined,
+        replacesDocumentId: doc.id
+      })
+      onSubmitted()
+    } catch (err: any) {
+      console.error('KYC resubmission error:', err)
+      setError(err.message || 'Failed to upload document. Please try again.')
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const renderDocument = (doc: KycDocument, expiring: boolean) => (
+    <div key={doc.id} className="border border-gray-200 rounded-lg p-4">
+      <h3 className="font-medium text-gray-900">{documentLabel(doc.document_type)}</h3>
+      <p className={`text-sm ${expiring ? 'text-orange-600' : 'text-red-600'}`}>
+        {expiring
+          ? `Expires on ${new Date(`${doc.expires_at}T00:00:00`).toLocaleDateString()}`
+          : doc.status === 'expired'
+            ? `Expired on ${doc.expires_at ? new Date(`${doc.expires_at}T00:00:00`).toLocaleDateString() : 'its expiry date'}`
+            : doc.status === 'replacement_requested' ? 'Replacement requested' : 'Rejected'}
+      </p>
+
+      {doc.rejection_reason && (
+        <p className="mt-2 text-sm text-gray-700 bg-gray-50 rounded-md p-3">{doc.rejection_reason}</p>
+      )}
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className={isExpiringType(doc.document_type) ? '' : 'md:col-span-2'}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">New document *</label>
+          <input
+            type="file"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+            accept="image/*,.pdf"
+            onChange={(e) => setFiles(prev => ({ ...prev, [doc.id]: e.target.files?.[0] || null }))}
+          />
+        </div>
+        {isExpiringType(doc.document_type) && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Expiry date *</label>
+            <input
+              type="date"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              value={expiryDates[doc.id] || ''}
+              onChange={(e) => setExpiryDates(prev => ({ ...prev, [doc.id]: e.target.value }))}
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => handleSubmit(doc)}
+        disabled={submitting !== null}
+        className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {submitting === doc.id ? 'Uploading...' : 'Submit for Review'}
+      </button>
+    </div>
+  )
+
+  return (
+    <div className="space-y-8">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {needsAction.length > 0 && (
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            We couldn&apos;t verify the documents below. Upload a new copy of each; everything else you sent stays approved.
+          </p>
+          {needsAction.map(doc => renderDocument(doc, false))}
+        </div>
+      )}
+
+      {expiringSoon.length > 0 && (
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            These documents expire soon. Upload the renewed copy now to stay verified.
+          </p>
+          {expiringSoon.map(doc => renderDocument(doc, true))}
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 mb-3">Verification History</h2>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">No documents submitted yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {history.map(entry => (
+              <li key={entry.id} className="p-3 text-sm">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-medium text-gray-900">
+                    {documentLabel(entry.document_type)}: {KYC_HISTORY_LABELS[entry.action]}
+                  </span>
+                  <span className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+                </div>
+                {entry.reason && <p className="mt-1 text-gray-600">{entry.reason}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
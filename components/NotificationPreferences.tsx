@@ -0,0 +1,290 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationSettings,
+  PreferenceMatrix,
+  eventsFor,
+  loadNotificationPreferences,
+  saveNotificationPreferences
+} from '../lib/notificationPreferences'
+import { Bell, Mail, Moon, Phone, Save, Smartphone } from 'lucide-react'
+
+const CHANNEL_ORDER: NotificationChannel[] = ['in_app', 'email', 'sms', 'push']
+
+const MASTER_SWITCHES: { key: 'email_enabled' | 'sms_enabled' | 'push_enabled'; label: string; icon: React.ElementType }[] = [
+  { key: 'email_enabled', label: 'Email', icon: Mail },
+  { key: 'sms_enabled', label: 'Text messages (SMS)', icon: Phone },
+  { key: 'push_enabled', label: 'Push notifications', icon: Smartphone }
+]
+
+const TIMEZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu'
+]
+
+const DELIVERY_STATUS_COLORS: Record<NotificationDelivery['status'], string> = {
+  queued: 'bg-amber-100 text-amber-800',
+  sent: 'bg-green-100 text-green-800',
+  skipped: 'bg-slate-100 text-slate-700',
+  failed: 'bg-red-100 text-red-800'
+}
+
+const ACCENTS = {
+  homeowner: { checkbox: 'text-emerald-600 focus:ring-emerald-500', button: 'bg-emerald-600 hover:bg-emerald-700' },
+  contractor: { checkbox: 'text-blue-600 focus:ring-blue-500', button: 'bg-blue-600 hover:bg-blue-700' }
+}
+
+interface Props {
+  audience: 'homeowner' | 'contractor'
+}
+
+/**
+ * Which events reach the user on which channel, quiet hours, and a log of
+ * recent delivery attempts. Used on the homeowner and contractor settings pages.
+ */
+export default function NotificationPreferences({ audience }: Props) {
+  const accent = ACCENTS[audience]
+  const events = eventsFor(audience)
+
+  const [userId, setUserId] = useState<string | null>(null)
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS)
+  const [matrix, setMatrix] = useState<PreferenceMatrix | null>(null)
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([])
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session) return
+
+      setUserId(session.user.id)
+
+      const [preferences, { data: recent }] = await Promise.all([
+        loadNotificationPreferences(supabase, session.user.id),
+        supabase
+          .from('notification_deliveries')
+          .select('*')
+          .eq('user_id', session.user.id)
+          .order('created_at', { ascending: false })
+          .limit(20)
+      ])
+
+      setSettings(preferences.settings)
+      setMatrix(preferences.matrix)
+      setDeliveries(recent || [])
+    }
+
+    load()
+  }, [])
+
+  const updateSettings = (changes: Partial<NotificationSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }))
+    setSaved(false)
+  }
+
+  const toggle = (event: keyof PreferenceMatrix, channel: NotificationChannel) => {
+    setMatrix(prev => prev && {
+      ...prev,
+      [event]: { ...prev[event], [channel]: !prev[event][channel] }
+    })
+    setSaved(false)
+  }
+
+  const handleSave = async () => {
+    if (!userId || !matrix) return
+
+    setSaving(true)
+    try {
+      const shown = Object.fromEntries(events.map(event => [event, matrix[event]])) as Partial<PreferenceMatrix>
+      await saveNotificationPreferences(supabase, userId, settings, shown)
+      setSaved(true)
+    } catch (error: any) {
+      alert(error.message || 'Failed to save notification settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!matrix) return null
+
+  const masterOn = (channel: NotificationChannel) =>
+    channel === 'email' ? settings.email_enabled
+      : channel === 'sms' ? settings.sms_enabled
+        : channel === 'push' ? settings.push_enabled
+          : true
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <Bell className="h-5 w-5 text-slate-600" />
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">Notification Preferences</h2>
+      </div>
+
+      {/* Channel master switches */}
+      <div className="grid gap-3 sm:grid-cols-3">
+        {MASTER_SWITCHES.map(({ key, label, icon: Icon }) => (
+          <label key={key} className="flex items-center gap-2 rounded-lg border border-slate-200 dark:border-slate-700 px-3 py-2">
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(e) => updateSettings({ [key]: e.target.checked })}
+              className={`rounded border-gray-300 ${accent.checkbox}`}
+            />
+            <Icon className="h-4 w-4 text-slate-400" />
+            <span className="text-sm text-slate-700 dark:text-slate-300">{label}</span>
+          </label>
+        ))}
+      </div>
+
+      {/* Event x channel matrix */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="py-2 pr-4 font-medium">Notify me about</th>
+              {CHANNEL_ORDER.map(channel => (
+                <th key={channel} className="py-2 px-2 font-medium text-center">{NOTIFICATION_CHANNELS[channel]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+            {events.map(event => (
+              <tr key={event}>
+                <td className="py-3 pr-4">
+                  <p className="font-medium text-slate-900 dark:text-slate-100">{NOTIFICATION_EVENTS[event].label}</p>
+                  <p className="text-xs text-slate-500">{NOTIFICATION_EVENTS[event].description}</p>
+                </td>
+                {CHANNEL_ORDER.map(channel => (
+                  <td key={channel} className="py-3 px-2 text-center">
+                    {NOTIFICATION_EVENTS[event].channels.includes(channel) ? (
+                      <input
+                        type="checkbox"
+                        checked={!!matrix[event][channel]}
+                        disabled={!masterOn(channel)}
+                        onChange={() => toggle(event, channel)}
+                        className={`rounded border-gray-300 ${accent.checkbox} disabled:opacity-40`}
+                        aria-label={`${NOTIFICATION_EVENTS[event].label} by ${NOTIFICATION_CHANNELS[channel]}`}
+                      />
+                    ) : (
+                      <span className="text-slate-300">&mdash;</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Quiet hours */}
+      <div className="rounded-lg bg-slate-50 dark:bg-slate-900/40 p-4 space-y-3">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.quiet_hours_enabled}
+            onChange={(e) => updateSettings({ quiet_hours_enabled: e.target.checked })}
+            className={`rounded border-gray-300 ${accent.checkbox}`}
+          />
+          <Moon className="h-4 w-4 text-slate-500" />
+          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Quiet hours</span>
+        </label>
+        <p className="text-xs text-slate-500">No texts or push notifications during these hours. In-app and email still arrive.</p>
+
+        {settings.quiet_hours_enabled && (
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="text-sm text-slate-700 dark:text-slate-300">
+              From
+              <input
+                type="time"
+                value={settings.quiet_start}
+                onChange={(e) => updateSettings({ quiet_start: e.target.value })}
+                className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-slate-700 dark:text-slate-300">
+              Until
+              <input
+                type="time"
+                value={settings.quiet_end}
+                onChange={(e) => updateSettings({ quiet_end: e.target.value })}
+                className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+              />
+            </label>
+            <label className="text-sm text-slate-700 dark:text-slate-300">
+              Time zone
+              <select
+                value={settings.timezone}
+                onChange={(e) => updateSettings({ timezone: e.target.value })}
+                className="mt-1 w-full rounded-md border px-3 py-2 text-sm"
+              >
+                {[...new Set([settings.timezone, ...TIMEZONES])].map(zone => (
+                  <option key={zone} value={zone}>{zone.replace('_', ' ')}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 sm:col-span-3">
+              <input
+                type="checkbox"
+                checked={settings.emergency_override}
+                onChange={(e) => updateSettings({ emergency_override: e.target.checked })}
+                className={`rounded border-gray-300 ${accent.checkbox}`}
+              />
+              <span className="text-sm text-slate-700 dark:text-slate-300">Let emergency alerts through during quiet hours</span>
+            </label>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {saved && <span className="text-sm text-green-700">Saved</span>}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className={`px-4 py-2 text-sm ${accent.button} text-white rounded-lg disabled:opacity-50 flex items-center gap-2`}
+        >
+          <Save className="h-4 w-4" />
+          {saving ? 'Saving...' : 'Save Notification Settings'}
+        </button>
+      </div>
+
+      {/* Delivery log */}
+      {deliveries.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-slate-100 mb-2">Recent notifications</h3>
+          <ul className="divide-y divide-slate-100 dark:divide-slate-700 text-sm">
+            {deliveries.map(delivery => (
+              <li key={delivery.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-slate-800 dark:text-slate-200 truncate">
+                    {NOTIFICATION_EVENTS[delivery.event_type as keyof typeof NOTIFICATION_EVENTS]?.label || delivery.event_type.replace(/_/g, ' ')}
+                    {' '}&middot; {NOTIFICATION_CHANNELS[delivery.channel]}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {new Date(delivery.created_at).toLocaleString()}
+                    {delivery.reason && <> &middot; {delivery.reason}</>}
+                  </p>
+                </div>
+                <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium capitalize ${DELIVERY_STATUS_COLORS[delivery.status]}`}>
+                  {delivery.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
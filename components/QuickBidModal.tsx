@@ -1,7 +1,8 @@
 'use client'
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useProAuth } from '../contexts/ProAuthContext'
 import { supabase } from '../lib/supabaseClient'
+import { BidTemplate, defaultTemplateFor } from '../lib/bidTemplates'
 import Link from 'next/link'
 
 export default function QuickBidModal({
@@ -13,6 +14,49 @@ export default function QuickBidModal({
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isDuplicate, setIsDuplicate] = useState(false)
+  const [templates, setTemplates] = useState<BidTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+
+  // Load the contractor's templates for this category and apply the default
+  useEffect(() => {
+    if (!open || !user) return
+
+    const loadTemplates = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/api/bid-templates?category=${encodeURIComponent(category)}`, {
+        headers: { 'Authorization': `Bearer ${session?.access_token}` }
+      })
+      if (!response.ok) return
+
+      const { templates } = await response.json()
+      setTemplates(templates)
+
+      const fallback = defaultTemplateFor(templates, category)
+      if (fallback) applyTemplate(fallback.id)
+    }
+
+    loadTemplates()
+  }, [open, user, category])
+
+  const applyTemplate = async (id: string) => {
+    setTemplateId(id)
+    if (!id) return
+
+    const { data: { session } } = await supabase.auth.getSession()
+    const response = await fetch(`/api/bid-templates/${id}/apply`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token}`
+      },
+      body: JSON.stringify({ jobId })
+    })
+    if (!response.ok) return
+
+    const result = await response.json()
+    setMessage(result.body)
+    if (result.price != null) setPrice(result.price)
+  }
 
   const send = async () => {
     if (!price || !user || !contractorProfile || submitting) return
@@ -22,24 +66,30 @@ export default function QuickBidModal({
     setIsDuplicate(false)
 
     try {
-      const { error } = await supabase.rpc('submit_job_bid', {
-        p_job_id: jobId,
-        p_contractor_id: user.id,
-        p_bid_amount: Number(price),
-        p_description: message || `Fixed bid for $${price}`,
-        p_estimated_duration_hours: null,
-        p_available_date: null,
-        p_materials_included: false,
-        p_warranty_months: 12
+      const { data: { session } } = await supabase.auth.getSession()
+
+      // Quick bids are a single fixed-price labor line
+      const response = await fetch('/api/bids/submit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({
+          jobId,
+          lineItems: [{ kind: 'labor', description: 'Fixed price', quantity: 1, unit_price: Number(price) }],
+          message: message || `Fixed bid for $${price}`
+        })
       })
 
-      if (error) {
+      if (!response.ok) {
+        const result = await response.json()
         // Check if it's a duplicate bid error
-        if (error.message.includes('duplicate key') || error.message.includes('job_bids_job_id_contractor_id_key')) {
+        if (response.status === 409 && result.error?.includes('already submitted')) {
           setIsDuplicate(true)
           setError('You have already submitted a bid for this job')
         } else {
-          setError(error.message)
+          setError(result.error || 'Failed to submit bid')
         }
         return
       }
@@ -49,15 +99,7 @@ export default function QuickBidModal({
       setMessage('')
       onClose()
     } catch (err: any) {
-      const errorMsg = err.message || 'Failed to submit bid'
-
-      // Check if it's a duplicate bid error
-      if (errorMsg.includes('duplicate key') || errorMsg.includes('job_bids_job_id_contractor_id_key')) {
-        setIsDuplicate(true)
-        setError('You have already submitted a bid for this job')
-      } else {
-        setError(errorMsg)
-      }
+      setError(err.message || 'Failed to submit bid')
     } finally {
       setSubmitting(false)
     }
@@ -99,6 +141,18 @@ export default function QuickBidModal({
           </div>
         )}
 
+        {templates.length > 0 && (
+          <>
+            <label className="label mt-3">Template</label>
+            <select className="input" value={templateId} onChange={e=>applyTemplate(e.target.value)}>
+              <option value="">No template</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name}{t.is_default ? ' (default)' : ''}</option>
+              ))}
+            </select>
+          </>
+        )}
+
         <label className="label mt-3">Price (USD)</label>
         <input className="input" inputMode="numeric" value={price} onChange={e=>setPrice(e.target.value ? Number(e.target.value) : '')}/>
 
@@ -0,0 +1,122 @@
+'use client'
+
+import React, { useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { REVIEW_SUB_SCORES, Review, ReviewSubScore } from '../lib/reviews'
+import { MessageSquare, Star } from 'lucide-react'
+
+interface ReviewCardProps {
+  review: Review
+  reviewerName?: string
+  /** Show the reply form (the reviewed contractor, before replying) */
+  canReply?: boolean
+  onReplied?: (review: Review) => void
+}
+
+export function Stars({ value, size = 'h-4 w-4' }: { value: number; size?: string }) {
+  return (
+    <div className="flex">
+      {[1, 2, 3, 4, 5].map(n => (
+        <Star key={n} className={`${size} ${n <= Math.round(value) ? 'text-amber-500 fill-amber-500' : 'text-slate-300'}`} />
+      ))}
+    </div>
+  )
+}
+
+export default function ReviewCard({ review, reviewerName, canReply, onReplied }: ReviewCardProps) {
+  const [reply, setReply] = useState('')
+  const [replying, setReplying] = useState(false)
+
+  const subScores = (Object.keys(REVIEW_SUB_SCORES) as ReviewSubScore[]).filter(key => review[key] != null)
+
+  const handleReply = async () => {
+    if (!reply.trim()) return
+
+    setReplying(true)
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`/api/reviews/${review.id}/reply`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session?.access_token}`
+        },
+        body: JSON.stringify({ reply })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert(result.error || 'Failed to post reply')
+        return
+      }
+
+      onReplied?.(result.review)
+    } finally {
+      setReplying(false)
+    }
+  }
+
+  return (
+    <div className="py-4">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-2">
+          <Stars value={review.rating} />
+          {reviewerName && (
+            <span className="text-sm font-medium text-slate-900 dark:text-slate-100">{reviewerName}</span>
+          )}
+        </div>
+        <span className="text-xs text-slate-500 dark:text-slate-400">
+          {new Date(review.created_at).toLocaleDateString()}
+        </span>
+      </div>
+
+      {subScores.length > 0 && (
+        <div className="flex flex-wrap gap-3 text-xs text-slate-500 dark:text-slate-400 mb-2">
+          {subScores.map(key => (
+            <span key={key}>{REVIEW_SUB_SCORES[key]}: {review[key]}/5</span>
+          ))}
+        </div>
+      )}
+
+      {review.comment && (
+        <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{review.comment}</p>
+      )}
+
+      {review.photos?.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {review.photos.map((url, idx) => (
+            <a key={idx} href={url} target="_blank" rel="noopener noreferrer">
+              <img src={url} alt="Review photo" className="h-20 w-20 rounded-lg object-cover border border-slate-200 dark:border-slate-600" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {review.reply ? (
+        <div className="mt-3 ml-4 pl-3 border-l-2 border-slate-200 dark:border-slate-600">
+          <p className="text-xs font-medium text-slate-500 dark:text-slate-400 flex items-center gap-1 mb-1">
+            <MessageSquare className="h-3 w-3" />
+            Response from the contractor
+          </p>
+          <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{review.reply}</p>
+        </div>
+      ) : canReply && (
+        <div className="mt-3 flex gap-2">
+          <input
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Write a public reply..."
+            className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm"
+          />
+          <button
+            onClick={handleReply}
+            disabled={replying || !reply.trim()}
+            className="px-4 py-2 text-sm bg-slate-900 text-white rounded-lg hover:bg-slate-800 disabled:opacity-50"
+          >
+            {replying ? 'Posting...' : 'Reply'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import React, { useState } from 'react'
+import { supabase } from '../lib/supabaseClient'
+import { MAX_REVIEW_PHOTOS, REVIEW_SUB_SCORES, Review, ReviewSubScore, ReviewerRole } from '../lib/reviews'
+import { AlertCircle, Camera, Loader2, Star, X } from 'lucide-react'
+
+interface ReviewModalProps {
+  jobId: string
+  role: ReviewerRole
+  revieweeName: string
+  onClose: () => void
+  onSubmitted?: (review: Review) => void
+}
+
+function StarInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map(n => (
+        <button key={n} type="button" onClick={() => onChange(n)} aria-label={`${n} star${n > 1 ? 's' : ''}`}>
+          <Star className={`h-6 w-6 ${n <= value ? 'text-amber-500 fill-amber-500' : 'text-gray-300'}`} />
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export default function ReviewModal({
+  jobId,
+  role,
+  revieweeName,
+  onClose,
+  onSubmitted
+}: ReviewModalProps) {
+  const [rating, setRating] = useState(0)
+  const [subScores, setSubScores] = useState<Record<ReviewSubScore, number>>({
+    punctuality_rating: 0,
+    quality_rating: 0,
+    communication_rating: 0
+  })
+  const [comment, setComment] = useState('')
+  const [photos, setPhotos] = useState<File[]>([])
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleSubmit() {
+    if (rating === 0) return
+
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+
+      if (!session?.access_token) {
+        throw new Error('No session token available. Please log in again.')
+      }
+
+      const userId = session.user.id
+
+      // 1. Upload photos
+      const photoUrls: string[] = []
+      for (const photo of photos.slice(0, MAX_REVIEW_PHOTOS)) {
+        const fileExt = photo.name.split('.').pop()
+        const fileName = `${userId}/${jobId}/${Date.now()}-${photoUrls.length}.${fileExt}`
+
+        const { error: uploadError } = await supabase.storage
+          .from('review-photos')
+          .upload(fileName, photo)
+
+        if (uploadError) {
+          console.error('Failed to upload review photo:', uploadError)
+          continue
+        }
+
+        const { data: urlData } = supabase.storage
+          .from('review-photos')
+          .getPublicUrl(fileName)
+
+        photoUrls.push(urlData.publicUrl)
+      }
+
+      // 2. Submit the review
+      const response = await fetch('/api/reviews', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        body: JSON.stringify({
+          jobId,
+          rating,
+          punctuality_rating: subScores.punctuality_rating || null,
+          quality_rating: subScores.quality_rating || null,
+          communication_rating: subScores.communication_rating || null,
+          comment,
+          photos: photoUrls
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to submit review')
+      }
+
+      onSubmitted?.(result.review)
+      onClose()
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">Review {revieweeName}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-red-600 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Overall rating</label>
+            <StarInput value={rating} onChange={setRating} />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {(Object.keys(REVIEW_SUB_SCORES) as ReviewSubScore[]).map(key => (
+              <div key={key}>
+                <label className="block text-xs font-medium text-gray-600 mb-1">{REVIEW_SUB_SCORES[key]}</label>
+                <StarInput
+                  value={subScores[key]}
+                  onChange={value => setSubScores(prev => ({ ...prev, [key]: value }))}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {role === 'homeowner' ? 'How did the job go?' : 'How was working with this homeowner?'}
+            </label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Photos</label>
+            <label className="flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-gray-300 text-sm text-gray-600 cursor-pointer hover:bg-gray-50">
+              <Camera className="h-4 w-4" />
+              {photos.length > 0 ? `${photos.length} photo${photos.length > 1 ? 's' : ''} selected` : `Add up to ${MAX_REVIEW_PHOTOS} photos`}
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => setPhotos(Array.from(e.target.files || []).slice(0, MAX_REVIEW_PHOTOS))}
+              />
+            </label>
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || rating === 0}
+            className="w-full bg-emerald-600 text-white py-3 px-4 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 font-medium"
+          >
+            {submitting ? (
+              <>
+                <Loader2 className="h-5 w-5 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              'Submit Review'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
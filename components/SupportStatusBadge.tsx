@@ -0,0 +1,22 @@
+'use client'
+
+import React from 'react'
+import { SUPPORT_STATUS_LABELS, SupportStatus } from '../lib/supportTickets'
+
+const STATUS_COLORS: Record<SupportStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  open: 'bg-amber-100 text-amber-800',
+  waiting: 'bg-emerald-100 text-emerald-800',
+  resolved: 'bg-slate-100 text-slate-700'
+}
+
+/**
+ * A support ticket's status as its owner sees it
+ */
+export default function SupportStatusBadge({ status }: { status: SupportStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[status]}`}>
+      {SUPPORT_STATUS_LABELS[status]}
+    </span>
+  )
+}
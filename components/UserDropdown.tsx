@@ -6,7 +6,7 @@ import { useRouter } from 'next/navigation'
 import { useAuth } from '../contexts/AuthContext'
 import { useProAuth } from '../contexts/ProAuthContext'
 import { showGlobalToast } from './Toast'
-import { isAdminUser } from '../lib/adminConfig'
+import { useAdminRole } from '../lib/hooks/useAdminRole'
 
 function ChevronDown(props: any) {
   return (
@@ -79,6 +79,7 @@ export default function UserDropdown() {
   const user = isContractor ? contractorUser : homeownerUser
   const profile = isContractor ? contractorProfile : userProfile
   const signOut = isContractor ? contractorSignOut : homeownerSignOut
+  const { isAdmin } = useAdminRole(user?.id)
 
   useEffect(() => {
     if (!showDropdown) return
@@ -123,9 +124,6 @@ export default function UserDropdown() {
     return isContractor ? '/dashboard/contractor' : '/dashboard/homeowner'
   }
 
-  // Check if user is admin
-  const isAdmin = isAdminUser(userProfile?.email, userProfile?.role)
-
   const menuItems = [
     {
       icon: DashboardIcon,
@@ -3,6 +3,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react'
 import { User, Session } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabaseClient'
+import type { JobAlertPreferences } from '../lib/jobAlertPreferences'
 import { useRouter } from 'next/navigation'
 
 export interface ContractorProfile {
@@ -20,6 +21,10 @@ export interface ContractorProfile {
   service_area_zips?: string[]
   base_zip?: string
   service_radius_miles?: number
+  peak_rate?: number | null
+  surge_rate?: number | null
+  diagnostic_fee?: number | null
+  job_alert_preferences?: Partial<JobAlertPreferences> | null
   created_at: string
   profile_approved_at?: string
   kyc_completed_at?: string
@@ -0,0 +1,286 @@
+/**
+ * Admin Roles and Audit Log for Rushr
+ *
+ * Admin access is stored in admin_roles and checked server-side (see
+ * requireAdmin in lib/serverAuth.ts):
+ * - admin: admin dashboard and admin API routes
+ * - super_admin: also grants/revokes roles and runs setup routes
+ *
+ * Every admin change is recorded in admin_audit_log, which the database keeps
+ * append-only.
+ */
+
+import type { NextRequest } from 'next/server'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+
+export type AdminRole = 'admin' | 'super_admin'
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  admin: 'Admin',
+  super_admin: 'Super admin'
+}
+
+export interface AdminRoleGrant {
+  user_id: string
+  role: AdminRole
+  granted_by: string | null
+  granted_at: string
+  note: string | null
+}
+
+export interface AdminListEntry extends AdminRoleGrant {
+  name: string | null
+  email: string | null
+}
+
+export interface AdminAuditEntry {
+  id: string
+  actor_id: string
+  actor_email: string | null
+  action: string
+  target_type: string | null
+  target_id: string | null
+  details: Record<string, any>
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+export class AdminAuthError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'AdminAuthError'
+    this.status = status
+  }
+}
+
+/**
+ * super_admin includes everything admin can do
+ */
+export function roleSatisfies(role: AdminRole | null, required: AdminRole): boolean {
+  if (!role) return false
+  return required === 'admin' || role === 'super_admin'
+}
+
+export async function getAdminRole(supabase: SupabaseClient, userId: string): Promise<AdminRole | null> {
+  const { data } = await supabase
+    .from('admin_roles')
+    .select('role')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return (data?.role as AdminRole) || null
+}
+
+/**
+ * Everyone with an admin role, with their profile name and email
+ */
+export async function listAdmins(supabase: SupabaseClient): Promise<AdminListEntry[]> {
+  const { data: grants, error } = await supabase
+    .from('admin_roles')
+    .select('*')
+    .order('granted_at', { ascending: true })
+
+  if (error) throw error
+
+  const ids = (grants || []).map(grant => grant.user_id)
+  if (ids.length === 0) return []
+
+  const [{ data: profiles }, { data: contractors }] = await Promise.all([
+    supabase.from('user_profiles').select('id, name, email').in('id', ids),
+    supabase.from('pro_contractors').select('id, name, email').in('id', ids)
+  ])
+
+  const byId = new Map<string, { name: string | null; email: string | null }>()
+  for (const row of [...(contractors || []), ...(profiles || [])]) {
+    byId.set(row.id, { name: row.name || null, email: row.email || null })
+  }
+
+  return (grants || []).map(grant => ({
+    ...grant,
+    name: byId.get(grant.user_id)?.name || null,
+    email: byId.get(grant.user_id)?.email || null
+  }))
+}
+
+/**
+ * Record an admin action. The entry can never be edited or removed, so
+ * details should say what changed (before/after), not just that something did.
+ */
+export async function recordAdminAction(params: {
+  supabase: SupabaseClient
+  actor: User
+  action: string
+  targetType?: string
+  targetId?: string | null
+  details?: Record<string, any>
+  request?: NextRequest
+}): Promise<void> {
+  const { supabase, actor, action, targetType, targetId, details, request } = params
+
+  const { error } = await supabase
+    .from('admin_audit_log')
+    .insert({
+      actor_id: actor.id,
+      actor_email: actor.email || null,
+      action,
+      target_type: targetType || null,
+      target_id: targetId || null,
+      details: details || {},
+      ip_address: request?.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      user_agent: request?.headers.get('user-agent') || null
+    })
+
+  // The action already happened; a lost audit entry is logged loudly rather than undoing it
+  if (error) console.error(`[ADMIN AUDIT] Failed to record ${action} by ${actor.id}:`, error.message)
+}
+
+export async function listAdminAuditLog(params: {
+  supabase: SupabaseClient
+  actorId?: string
+  action?: string
+  targetId?: string
+  limit?: number
+}): Promise<AdminAuditEntry[]> {
+  const { supabase, actorId, action, targetId, limit = 100 } = params
+
+  let query = supabase
+    .from('admin_audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(limit, 500))
+
+  if (actorId) query = query.eq('actor_id', actorId)
+  if (action) query = query.like('action', `${action}%`)
+  if (targetId) query = query.eq('target_id', targetId)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return data || []
+}
+
+/**
+ * Give a user an admin role by email, or change the role they have
+ */
+export async function grantAdminRole(params: {
+  supabase: SupabaseClient
+  actor: User
+  email: string
+  role: AdminRole
+  note?: string
+  request?: NextRequest
+}): Promise<AdminRoleGrant> {
+  const { supabase, actor, role, note, request } = params
+  const email = params.email?.trim().toLowerCase()
+
+  if (!email) {
+    throw new AdminAuthError('Missing email')
+  }
+
+  if (!(role in ADMIN_ROLE_LABELS)) {
+    throw new AdminAuthError('Invalid role')
+  }
+
+  const [{ data: profile }, { data: contractor }] = await Promise.all([
+    supabase.from('user_profiles').select('id').ilike('email', email).maybeSingle(),
+    supabase.from('pro_contractors').select('id').ilike('email', email).maybeSingle()
+  ])
+
+  const userId = profile?.id || contractor?.id
+  if (!userId) {
+    throw new AdminAuthError('No Rushr account uses that email', 404)
+  }
+
+  const before = await getAdminRole(supabase, userId)
+  if (before === role) {
+    throw new AdminAuthError(`${email} is already ${ADMIN_ROLE_LABELS[role].toLowerCase()}`, 409)
+  }
+
+  if (before === 'super_admin' && role === 'admin') {
+    await ensureAnotherSuperAdmin(supabase, userId)
+  }
+
+  const { data: grant, error } = await supabase
+    .from('admin_roles')
+    .upsert({
+      user_id: userId,
+      role,
+      granted_by: actor.id,
+      granted_at: new Date().toISOString(),
+      note: note?.trim() || null
+    }, { onConflict: 'user_id' })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await recordAdminAction({
+    supabase,
+    actor,
+    action: 'admin_role.grant',
+    targetType: 'user',
+    targetId: userId,
+    details: { email, before, after: role, note: note?.trim() || null },
+    request
+  })
+
+  return grant
+}
+
+/**
+ * Remove a user's admin role. Admins cannot revoke themselves, and the last
+ * super admin cannot be removed.
+ */
+export async function revokeAdminRole(params: {
+  supabase: SupabaseClient
+  actor: User
+  userId: string
+  request?: NextRequest
+}): Promise<void> {
+  const { supabase, actor, userId, request } = params
+
+  if (userId === actor.id) {
+    throw new AdminAuthError('You cannot revoke your own admin role', 409)
+  }
+
+  const before = await getAdminRole(supabase, userId)
+  if (!before) {
+    throw new AdminAuthError('User is not an admin', 404)
+  }
+
+  if (before === 'super_admin') {
+    await ensureAnotherSuperAdmin(supabase, userId)
+  }
+
+  const { error } = await supabase
+    .from('admin_roles')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) throw error
+
+  await recordAdminAction({
+    supabase,
+    actor,
+    action: 'admin_role.revoke',
+    targetType: 'user',
+    targetId: userId,
+    details: { before, after: null },
+    request
+  })
+}
+
+async function ensureAnotherSuperAdmin(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { count } = await supabase
+    .from('admin_roles')
+    .select('user_id', { count: 'exact', head: true })
+    .eq('role', 'super_admin')
+    .neq('user_id', userId)
+
+  if (!count) {
+    throw new AdminAuthError('At least one super admin must remain', 409)
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Bid and Job Lifecycle for Rushr
+ *
+ * The single source of truth for job_bids / homeowner_jobs status changes:
+ * - Bids:  pending → accepted | rejected | withdrawn | expired
+ * - Jobs:  pending/bidding/bid_received → in_progress → completed | cancelled
+ *
+ * Server routes go through these helpers; every update is guarded on the
+ * current status so a concurrent change surfaces as a 409 instead of being
+ * silently overwritten. Accepting a bid runs in the accept_job_bid() database
+ * function so the competing bids are rejected in the same transaction.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type BidStatus = 'pending' | 'accepted' | 'rejected' | 'withdrawn' | 'expired'
+
+export type JobStatus =
+  | 'pending'
+  | 'bidding'
+  | 'bid_received'
+  | 'bid_accepted'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'expired'
+
+export const BID_TRANSITIONS: Record<BidStatus, BidStatus[]> = {
+  pending: ['accepted', 'rejected', 'withdrawn', 'expired'],
+  accepted: [],
+  rejected: [],
+  withdrawn: [],
+  expired: []
+}
+
+export const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  pending: ['bidding', 'bid_received', 'in_progress', 'cancelled', 'expired'],
+  bidding: ['bid_received', 'in_progress', 'cancelled', 'expired'],
+  bid_received: ['in_progress', 'cancelled', 'expired'],
+  bid_accepted: ['in_progress', 'completed', 'cancelled'], // legacy accept flow
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  expired: []
+}
+
+/** Job statuses that still accept bids */
+export const OPEN_JOB_STATUSES: JobStatus[] = ['pending', 'bidding', 'bid_received']
+
+export class LifecycleError extends Error {
+  status: number
+
+  constructor(message: string, status = 409) {
+    super(message)
+    this.name = 'LifecycleError'
+    this.status = status
+  }
+}
+
+export function canTransitionBid(from: string, to: BidStatus): boolean {
+  return BID_TRANSITIONS[from as BidStatus]?.includes(to) ?? false
+}
+
+export function canTransitionJob(from: string, to: JobStatus): boolean {
+  return JOB_TRANSITIONS[from as JobStatus]?.includes(to) ?? false
+}
+
+/**
+ * Move a bid to a new status. Throws LifecycleError (409) if the move is not
+ * allowed from the bid's current status or the bid changed underneath us.
+ */
+export async function transitionBid(
+  supabase: SupabaseClient,
+  bid: { id: string; status: string },
+  to: BidStatus,
+  fields: Record<string, any> = {}
+) {
+  if (!canTransitionBid(bid.status, to)) {
+    throw new LifecycleError(`Cannot change bid from ${bid.status} to ${to}`)
+  }
+
+  const { data, error } = await supabase
+    .from('job_bids')
+    .update({ ...fields, status: to, updated_at: new Date().toISOString() })
+    .eq('id', bid.id)
+    .eq('status', bid.status)
+    .select()
+
+  if (error) throw error
+
+  if (!data || data.length === 0) {
+    throw new LifecycleError('Bid status changed, please refresh and try again')
+  }
+
+  return data[0]
+}
+
+/**
+ * Move a job to a new status. Same guarantees as transitionBid.
+ */
+export async function transitionJob(
+  supabase: SupabaseClient,
+  job: { id: string; status: string },
+  to: JobStatus,
+  fields: Record<string, any> = {}
+) {
+  if (!canTransitionJob(job.status, to)) {
+    throw new LifecycleError(`Cannot change job from ${job.status} to ${to}`)
+  }
+
+  const { data, error } = await supabase
+    .from('homeowner_jobs')
+    .update({ ...fields, status: to, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .select()
+
+  if (error) throw error
+
+  if (!data || data.length === 0) {
+    throw new LifecycleError('Job status changed, please refresh and try again')
+  }
+
+  return data[0]
+}
+
+/**
+ * Accept a pending bid on the homeowner's open job. Competing pending bids
+ * are rejected (their contractors are notified by the on_bid_status_change
+ * trigger) and the job moves to in_progress, all in one transaction.
+ */
+export async function acceptBid(
+  supabase: SupabaseClient,
+  params: { bidId: string; homeownerId: string }
+) {
+  const { error } = await supabase.rpc('accept_job_bid', {
+    p_bid_id: params.bidId,
+    p_homeowner_id: params.homeownerId
+  })
+
+  if (error) {
+    switch (error.code) {
+      case 'P0002':
+        throw new LifecycleError(error.message, 404)
+      case '42501':
+        throw new LifecycleError(error.message, 403)
+      case '55000':
+        throw new LifecycleError(error.message, 409)
+      default:
+        throw error
+    }
+  }
+}
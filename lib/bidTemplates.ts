@@ -0,0 +1,105 @@
+/**
+ * Quick-Bid Templates for Rushr Contractors
+ *
+ * Templates are stored in bid_templates (one optional default per category).
+ * Bodies may reference job details through placeholders that are filled in
+ * when the template is applied to a specific job.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { distanceMiles } from './geo'
+
+export interface BidTemplate {
+  id: string
+  contractor_id: string
+  name: string
+  category: string
+  body: string
+  default_price: number | null
+  is_default: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type TemplateVariables = {
+  homeowner_name: string
+  job_title: string
+  distance_miles: string
+}
+
+export const TEMPLATE_PLACEHOLDERS: { key: keyof TemplateVariables; label: string }[] = [
+  { key: 'homeowner_name', label: "Homeowner's first name" },
+  { key: 'job_title', label: 'Job title' },
+  { key: 'distance_miles', label: 'Distance from you to the job (miles)' },
+]
+
+/**
+ * Replace {placeholder} tokens; unknown tokens are left as written
+ */
+export function renderBidTemplate(body: string, variables: Partial<TemplateVariables>): string {
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const value = variables[key as keyof TemplateVariables]
+    return value !== undefined ? value : match
+  })
+}
+
+/**
+ * Escape LIKE wildcards so a category can be matched with ilike() as a
+ * case-insensitive equality
+ */
+export function categoryPattern(category: string): string {
+  return category.replace(/[\\%_]/g, char => `\\${char}`)
+}
+
+/**
+ * The contractor's default template for a category, if any
+ */
+export function defaultTemplateFor(templates: BidTemplate[], category: string): BidTemplate | undefined {
+  const normalized = category.toLowerCase()
+  return templates.find(t => t.is_default && t.category.toLowerCase() === normalized)
+}
+
+/**
+ * Look up the placeholder values for a contractor bidding on a job.
+ * Uses a service-role client: contractors cannot read homeowner profiles.
+ */
+export async function getTemplateVariables(
+  supabase: SupabaseClient,
+  params: { contractorId: string; jobId: string }
+): Promise<TemplateVariables | null> {
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('title, homeowner_id, latitude, longitude')
+    .eq('id', params.jobId)
+    .single()
+
+  if (!job) return null
+
+  const { data: homeowner } = await supabase
+    .from('user_profiles')
+    .select('name')
+    .eq('id', job.homeowner_id)
+    .single()
+
+  const { data: contractor } = await supabase
+    .from('pro_contractors')
+    .select('latitude, longitude')
+    .eq('id', params.contractorId)
+    .single()
+
+  let distance = ''
+  if (job.latitude != null && job.longitude != null && contractor?.latitude != null && contractor?.longitude != null) {
+    distance = distanceMiles(
+      Number(contractor.latitude),
+      Number(contractor.longitude),
+      Number(job.latitude),
+      Number(job.longitude)
+    ).toFixed(1)
+  }
+
+  return {
+    homeowner_name: homeowner?.name?.split(' ')[0] || 'there',
+    job_title: job.title || 'your job',
+    distance_miles: distance
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Contractor Bids for Rushr
+ *
+ * Itemized bids (labor / parts / diagnostic), ETA and validity window.
+ * The pricing helpers are shared by the bid form and the compare page; the
+ * submit / withdraw / expire operations run server-side with a service-role
+ * client and go through the transitions in lib/bidLifecycle.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { LifecycleError, OPEN_JOB_STATUSES, transitionBid } from './bidLifecycle'
+
+export type BidLineKind = 'labor' | 'parts' | 'diagnostic'
+export type LaborRateType = 'peak' | 'surge'
+
+export interface BidLineItem {
+  kind: BidLineKind
+  description: string
+  quantity: number
+  unit_price: number
+  rate_type?: LaborRateType
+}
+
+export const BID_LINE_KINDS: Record<BidLineKind, string> = {
+  labor: 'Labor',
+  parts: 'Parts',
+  diagnostic: 'Diagnostic'
+}
+
+export const DEFAULT_BID_VALIDITY_HOURS = 48
+export const MAX_BID_VALIDITY_HOURS = 24 * 14
+
+/** Rate columns on pro_contractors used to price labor and diagnostic lines */
+export interface ContractorRates {
+  peak_rate?: number | null
+  surge_rate?: number | null
+  diagnostic_fee?: number | null
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function lineItemTotal(item: BidLineItem): number {
+  return roundCents(Number(item.quantity) * Number(item.unit_price))
+}
+
+export function bidTotal(items: BidLineItem[]): number {
+  return roundCents(items.reduce((sum, item) => sum + lineItemTotal(item), 0))
+}
+
+export function totalByKind(items: BidLineItem[], kind: BidLineKind): number {
+  return bidTotal(items.filter(item => item.kind === kind))
+}
+
+/**
+ * Hourly labor rate for a contractor: surge_rate for emergency jobs (falling
+ * back to peak_rate), peak_rate otherwise.
+ */
+export function laborRate(rates: ContractorRates, rateType: LaborRateType): number | null {
+  const rate = rateType === 'surge' ? rates.surge_rate ?? rates.peak_rate : rates.peak_rate
+  return rate != null ? Number(rate) : null
+}
+
+/**
+ * Starting lines for a new bid, priced from the contractor's profile
+ */
+export function defaultLineItems(rates: ContractorRates, emergency: boolean): BidLineItem[] {
+  const rateType: LaborRateType = emergency ? 'surge' : 'peak'
+  const items: BidLineItem[] = []
+
+  if (rates.diagnostic_fee != null) {
+    items.push({ kind: 'diagnostic', description: 'Diagnostic visit', quantity: 1, unit_price: Number(rates.diagnostic_fee) })
+  }
+
+  items.push({
+    kind: 'labor',
+    description: emergency ? 'Emergency labor (hours)' : 'Labor (hours)',
+    quantity: 1,
+    unit_price: laborRate(rates, rateType) ?? 0,
+    rate_type: rateType
+  })
+
+  return items
+}
+
+/**
+ * Validate submitted lines, filling unpriced labor / diagnostic lines from
+ * the contractor's rates.
+ */
+export function normalizeLineItems(input: any[], rates: ContractorRates): BidLineItem[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new LifecycleError('A bid needs at least one line item', 400)
+  }
+
+  return input.map((raw, index) => {
+    const kind = raw?.kind as BidLineKind
+
+    if (!BID_LINE_KINDS[kind]) {
+      throw new LifecycleError(`Line ${index + 1}: kind must be labor, parts or diagnostic`, 400)
+    }
+
+    const quantity = Number(raw.quantity ?? 1)
+    let unitPrice = raw.unit_price
+
+    const rateType: LaborRateType | undefined = kind === 'labor'
+      ? (raw.rate_type === 'surge' ? 'surge' : 'peak')
+      : undefined
+
+    if (unitPrice === undefined || unitPrice === null || unitPrice === '') {
+      unitPrice = kind === 'labor'
+        ? laborRate(rates, rateType!)
+        : kind === 'diagnostic' ? rates.diagnostic_fee : null
+    }
+
+    unitPrice = Number(unitPrice)
+
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new LifecycleError(`Line ${index + 1}: quantity must be greater than 0`, 400)
+    }
+
+    if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+      throw new LifecycleError(`Line ${index + 1}: a price is required`, 400)
+    }
+
+    return {
+      kind,
+      description: String(raw.description || BID_LINE_KINDS[kind]).slice(0, 200),
+      quantity,
+      unit_price: roundCents(unitPrice),
+      ...(rateType ? { rate_type: rateType } : {})
+    }
+  })
+}
+
+/**
+ * Submit a contractor's bid on an open job
+ */
+export async function submitContractorBid(params: {
+  supabase: SupabaseClient
+  contractorId: string
+  jobId: string
+  lineItems: any[]
+  etaMinutes?: number | null
+  validForHours?: number | null
+  message?: string | null
+  now?: Date
+}) {
+  const { supabase, contractorId, jobId } = params
+  const now = params.now || new Date()
+
+  // 1. Contractor must be approved
+  const { data: contractor } = await supabase
+    .from('pro_contractors')
+    .select('id, status, peak_rate, surge_rate, diagnostic_fee')
+    .eq('id', contractorId)
+    .single()
+
+  if (!contractor) {
+    throw new LifecycleError('Contractor profile not found', 404)
+  }
+
+  if (contractor.status !== 'approved') {
+    throw new LifecycleError('You must be approved by an administrator before you can place bids', 403)
+  }
+
+  // 2. Job must still be open for bidding
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('id, status, homeowner_id')
+    .eq('id', jobId)
+    .single()
+
+  if (!job) {
+    throw new LifecycleError('Job not found', 404)
+  }
+
+  if (!OPEN_JOB_STATUSES.includes(job.status)) {
+    throw new LifecycleError(`This job is no longer accepting bids (status: ${job.status})`)
+  }
+
+  // 3. One live bid per contractor per job; a withdrawn, rejected or
+  //    expired bid doesn't stop the contractor bidding again
+  const { data: existing } = await supabase
+    .from('job_bids')
+    .select('id, status')
+    .eq('job_id', jobId)
+    .eq('contractor_id', contractorId)
+    .in('status', ['pending', 'accepted'])
+    .limit(1)
+    .maybeSingle()
+
+  if (existing) {
+    throw new LifecycleError(`You have already submitted a bid for this job (status: ${existing.status})`)
+  }
+
+  // 4. Price the bid
+  const lineItems = normalizeLineItems(params.lineItems, contractor)
+  const total = bidTotal(lineItems)
+
+  if (total <= 0) {
+    throw new LifecycleError('Bid total must be greater than $0', 400)
+  }
+
+  const validForHours = Math.min(
+    Math.max(Number(params.validForHours) || DEFAULT_BID_VALIDITY_HOURS, 1),
+    MAX_BID_VALIDITY_HOURS
+  )
+
+  const etaMinutes = params.etaMinutes != null && Number(params.etaMinutes) > 0
+    ? Math.round(Number(params.etaMinutes))
+    : null
+
+  const laborHours = lineItems
+    .filter(item => item.kind === 'labor')
+    .reduce((sum, item) => sum + item.quantity, 0)
+
+  const { data: bid, error } = await supabase
+    .from('job_bids')
+    .insert({
+      job_id: jobId,
+      contractor_id: contractorId,
+      homeowner_id: job.homeowner_id,
+      bid_amount: total,
+      estimated_duration: laborHours > 0 ? Math.round(laborHours * 60) : null,
+      message: params.message || '',
+      line_items: lineItems,
+      eta_minutes: etaMinutes,
+      valid_until: new Date(now.getTime() + validForHours * 60 * 60 * 1000).toISOString(),
+      status: 'pending'
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new LifecycleError('You have already submitted a bid for this job')
+    }
+    throw error
+  }
+
+  return bid
+}
+
+/**
+ * Withdraw a contractor's own pending bid
+ */
+export async function withdrawContractorBid(
+  supabase: SupabaseClient,
+  params: { bidId: string; contractorId: string }
+) {
+  const { data: bid } = await supabase
+    .from('job_bids')
+    .select('id, status, contractor_id')
+    .eq('id', params.bidId)
+    .single()
+
+  if (!bid) {
+    throw new LifecycleError('Bid not found', 404)
+  }
+
+  if (bid.contractor_id !== params.contractorId) {
+    throw new LifecycleError('You can only withdraw your own bids', 403)
+  }
+
+  return transitionBid(supabase, bid, 'withdrawn', { withdrawn_at: new Date().toISOString() })
+}
+
+export function isBidExpired(bid: { status: string; valid_until?: string | null }, now = new Date()): boolean {
+  return bid.status === 'pending' && !!bid.valid_until && new Date(bid.valid_until) <= now
+}
+
+/**
+ * Expire every pending bid whose validity window has passed
+ */
+export async function expireStaleBids(supabase: SupabaseClient, now = new Date()): Promise<number> {
+  const { data, error } = await supabase
+    .from('job_bids')
+    .update({
+      status: 'expired',
+      expired_at: now.toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('status', 'pending')
+    .lte('valid_until', now.toISOString())
+    .select('id')
+
+  if (error) throw error
+
+  return data?.length || 0
+}
@@ -0,0 +1,628 @@
+/**
+ * Subscription Billing for Rushr
+ *
+ * Pro Plus and Pro Plus + Signals (lib/billingPlans.ts) are Stripe Billing
+ * subscriptions:
+ * - checkout: a Stripe Checkout session in subscription mode, with the
+ *   user's id in the subscription metadata
+ * - plan switches: the subscription item's price is swapped with prorations
+ *   invoiced straight away, so an upgrade is paid for up front and a
+ *   downgrade leaves a credit for the next invoice
+ * - the Stripe customer portal for cards, invoices and cancellation
+ * - the webhook (lib/stripeWebhook.ts) mirrors every subscription change
+ *   into billing_subscriptions and records failed and recovered renewals
+ *
+ * hasEntitlement() is the server-side gate for paid features. Callers pass
+ * in their own service-role Supabase client and Stripe instance.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import {
+  BILLING_PLANS,
+  BillingInterval,
+  BillingStatus,
+  BillingSubscription,
+  Entitlement,
+  PaidPlan,
+  entitlementsFor,
+  graceEndsAt,
+  isEntitled
+} from './billingPlans'
+import { notifySubscriptionPaymentFailed } from './emailService'
+import { dispatchNotification } from './notificationDispatcher'
+
+export interface BillingConfig {
+  /** Stripe price ids by plan and interval */
+  prices: Record<PaidPlan, Record<BillingInterval, string | undefined>>
+}
+
+export class BillingError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'BillingError'
+    this.status = status
+  }
+}
+
+/**
+ * Read the Stripe price ids from STRIPE_PRICE_PRO_MONTHLY,
+ * STRIPE_PRICE_PRO_ANNUAL, STRIPE_PRICE_SIGNALS_MONTHLY and
+ * STRIPE_PRICE_SIGNALS_ANNUAL
+ */
+export function getBillingConfig(): BillingConfig {
+  return {
+    prices: {
+      pro: {
+        month: process.env.STRIPE_PRICE_PRO_MONTHLY,
+        year: process.env.STRIPE_PRICE_PRO_ANNUAL
+      },
+      signals: {
+        month: process.env.STRIPE_PRICE_SIGNALS_MONTHLY,
+        year: process.env.STRIPE_PRICE_SIGNALS_ANNUAL
+      }
+    }
+  }
+}
+
+function priceIdFor(plan: PaidPlan, interval: BillingInterval, config: BillingConfig): string {
+  const priceId = config.prices[plan]?.[interval]
+  if (!priceId) {
+    throw new BillingError(`${BILLING_PLANS[plan].name} ${interval === 'year' ? 'annual' : 'monthly'} billing is not configured`, 503)
+  }
+  return priceId
+}
+
+/**
+ * The plan and interval a Stripe price id belongs to
+ */
+export function planForPrice(
+  priceId: string | null | undefined,
+  config: BillingConfig = getBillingConfig()
+): { plan: PaidPlan; interval: BillingInterval } | null {
+  if (!priceId) return null
+
+  for (const plan of Object.keys(config.prices) as PaidPlan[]) {
+    for (const interval of ['month', 'year'] as BillingInterval[]) {
+      if (config.prices[plan][interval] === priceId) return { plan, interval }
+    }
+  }
+  return null
+}
+
+/** Subscriptions that no longer block starting a new checkout */
+const ENDED_STATUSES: BillingStatus[] = ['canceled', 'incomplete', 'incomplete_expired']
+
+function billingUrl(): string {
+  const appUrl = process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_BASE_URL
+  return `${appUrl}/dashboard/contractor/billing`
+}
+
+/** Fields that older Stripe API versions put on the object itself */
+type LegacySubscriptionFields = { current_period_end?: number | null }
+type LegacyInvoiceFields = { subscription?: string | { id: string } | null }
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+export async function getBillingSubscription(supabase: SupabaseClient, userId: string): Promise<BillingSubscription | null> {
+  const { data, error } = await supabase
+    .from('billing_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as BillingSubscription | null
+}
+
+/**
+ * Whether the user's subscription currently unlocks a feature
+ */
+export async function hasEntitlement(
+  supabase: SupabaseClient,
+  user: { id: string },
+  feature: Entitlement,
+  now: Date = new Date()
+): Promise<boolean> {
+  const subscription = await getBillingSubscription(supabase, user.id)
+  return entitlementsFor(subscription, now).includes(feature)
+}
+
+/**
+ * The users among `userIds` whose subscription unlocks a feature, for
+ * batch jobs such as job and signal matching
+ */
+export async function usersWithEntitlement(
+  supabase: SupabaseClient,
+  userIds: string[],
+  feature: Entitlement,
+  now: Date = new Date()
+): Promise<Set<string>> {
+  const entitled = new Set<string>()
+
+  for (let i = 0; i < userIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('billing_subscriptions')
+      .select('user_id, plan, status, past_due_since')
+      .in('user_id', userIds.slice(i, i + 200))
+
+    if (error) throw error
+
+    for (const row of data || []) {
+      if (entitlementsFor(row as BillingSubscription, now).includes(feature)) entitled.add(row.user_id)
+    }
+  }
+
+  return entitled
+}
+
+/**
+ * Who is being billed. Contractors have a pro_contractors row and keep their
+ * Stripe customer id on it; anyone else is billed through user_profiles and
+ * stripe_customers.
+ */
+async function getBillingAccount(supabase: SupabaseClient, userId: string): Promise<{
+  contractor: boolean
+  name: string | null
+  email: string | null
+  role: string | null
+  stripeCustomerId: string | null
+} | null> {
+  const { data: contractor, error: contractorError } = await supabase
+    .from('pro_contractors')
+    .select('name, email, stripe_customer_id')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (contractorError) throw contractorError
+  if (contractor) {
+    return {
+      contractor: true,
+      name: contractor.name || null,
+      email: contractor.email || null,
+      role: 'contractor',
+      stripeCustomerId: contractor.stripe_customer_id || null
+    }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('name, email, role')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (profileError) throw profileError
+  if (!profile) return null
+
+  const { data: customer } = await supabase
+    .from('stripe_customers')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return {
+    contractor: false,
+    name: profile.name || null,
+    email: profile.email || null,
+    role: profile.role || null,
+    stripeCustomerId: customer?.stripe_customer_id || null
+  }
+}
+
+async function getOrCreateCustomer(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  user: { id: string; email?: string | null }
+}): Promise<string> {
+  const { supabase, stripe, user } = params
+
+  const account = await getBillingAccount(supabase, user.id)
+  if (!account) throw new BillingError('No profile found for this account', 404)
+  if (account.stripeCustomerId) return account.stripeCustomerId
+
+  const email = account.email || user.email || undefined
+  const customer = await stripe.customers.create({
+    email,
+    name: account.name || undefined,
+    metadata: {
+      user_id: user.id,
+      platform: 'rushr',
+      role: account.role || 'contractor'
+    }
+  })
+
+  const { error } = account.contractor
+    ? await supabase
+      .from('pro_contractors')
+      .update({ stripe_customer_id: customer.id })
+      .eq('id', user.id)
+    : await supabase
+      .from('stripe_customers')
+      .upsert({
+        user_id: user.id,
+        stripe_customer_id: customer.id,
+        email,
+        name: account.name,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' })
+
+  if (error) throw error
+  return customer.id
+}
+
+/**
+ * Start a Stripe Checkout session for a new subscription. Users who already
+ * have a live subscription switch plans instead.
+ */
+export async function createSubscriptionCheckout(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  user: { id: string; email?: string | null }
+  plan: PaidPlan
+  interval: BillingInterval
+  config?: BillingConfig
+}): Promise<{ sessionId: string; url: string | null }> {
+  const { supabase, stripe, user, plan, interval } = params
+  const config = params.config || getBillingConfig()
+  const priceId = priceIdFor(plan, interval, config)
+
+  const current = await getBillingSubscription(supabase, user.id)
+  if (current && !ENDED_STATUSES.includes(current.status)) {
+    throw new BillingError('You already have a subscription; change your plan from the billing page', 409)
+  }
+
+  const customerId = await getOrCreateCustomer({ supabase, stripe, user })
+
+  const session = await stripe.checkout.sessions.create({
+    mode: 'subscription',
+    customer: customerId,
+    client_reference_id: user.id,
+    line_items: [{ price: priceId, quantity: 1 }],
+    subscription_data: {
+      metadata: { user_id: user.id, plan }
+    },
+    allow_promotion_codes: true,
+    success_url: `${billingUrl()}?subscription=success&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${process.env.NEXT_PUBLIC_SITE_URL || process.env.NEXT_PUBLIC_BASE_URL}/pricing`
+  })
+
+  return { sessionId: session.id, url: session.url }
+}
+
+async function liveSubscription(supabase: SupabaseClient, stripe: Stripe, userId: string) {
+  const current = await getBillingSubscription(supabase, userId)
+  if (!current || ENDED_STATUSES.includes(current.status)) {
+    throw new BillingError('You have no active subscription', 404)
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(current.stripe_subscription_id)
+  const item = subscription.items.data[0]
+  if (!item) throw new BillingError('Subscription has no items', 409)
+
+  return { current, subscription, item }
+}
+
+/**
+ * What switching plan or interval costs today, after prorations
+ */
+export async function previewPlanChange(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  userId: string
+  plan: PaidPlan
+  interval: BillingInterval
+  config?: BillingConfig
+}): Promise<{ amountDue: number; currency: string }> {
+  const { supabase, stripe, userId, plan, interval } = params
+  const priceId = priceIdFor(plan, interval, params.config || getBillingConfig())
+  const { current, item } = await liveSubscription(supabase, stripe, userId)
+
+  if (item.price.id === priceId) {
+    throw new BillingError('You are already on this plan')
+  }
+
+  const invoice = await stripe.invoices.createPreview({
+    customer: current.stripe_customer_id,
+    subscription: current.stripe_subscription_id,
+    subscription_details: {
+      items: [{ id: item.id, price: priceId }],
+      proration_behavior: 'always_invoice'
+    }
+  })
+
+  return { amountDue: invoice.amount_due / 100, currency: invoice.currency }
+}
+
+/**
+ * Switch the subscription to another plan or interval. Prorations are
+ * invoiced and charged now; if the charge fails the switch is refused.
+ */
+export async function changeSubscriptionPlan(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  userId: string
+  plan: PaidPlan
+  interval: BillingInterval
+  config?: BillingConfig
+}): Promise<BillingSubscription | null> {
+  const { supabase, stripe, userId, plan, interval } = params
+  const config = params.config || getBillingConfig()
+  const priceId = priceIdFor(plan, interval, config)
+  const { current, item } = await liveSubscription(supabase, stripe, userId)
+
+  if (item.price.id === priceId) {
+    throw new BillingError('You are already on this plan')
+  }
+
+  if (current.status !== 'active' && current.status !== 'trialing') {
+    throw new BillingError('Update your payment method before changing plans', 409)
+  }
+
+  const updated = await stripe.subscriptions.update(current.stripe_subscription_id, {
+    items: [{ id: item.id, price: priceId }],
+    proration_behavior: 'always_invoice',
+    payment_behavior: 'error_if_incomplete',
+    cancel_at_period_end: false,
+    metadata: { user_id: userId, plan }
+  })
+
+  // The webhook will deliver the same change; sync now so the page updates
+  await syncStripeSubscription({ supabase, subscription: updated, config })
+  return getBillingSubscription(supabase, userId)
+}
+
+/**
+ * A Stripe customer portal session for updating cards, downloading invoices
+ * and canceling
+ */
+export async function createBillingPortalSession(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  userId: string
+}): Promise<{ url: string }> {
+  const { supabase, stripe, userId } = params
+
+  const account = await getBillingAccount(supabase, userId)
+  if (!account?.stripeCustomerId) {
+    throw new BillingError('You have no billing account yet', 404)
+  }
+
+  const session = await stripe.billingPortal.sessions.create({
+    customer: account.stripeCustomerId,
+    return_url: billingUrl()
+  })
+
+  return { url: session.url }
+}
+
+async function userIdForCustomer(supabase: SupabaseClient, customerId: string | null): Promise<string | null> {
+  if (!customerId) return null
+
+  const { data: contractor } = await supabase
+    .from('pro_contractors')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle()
+
+  if (contractor) return contractor.id
+
+  const { data } = await supabase
+    .from('stripe_customers')
+    .select('user_id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle()
+
+  return data?.user_id || null
+}
+
+/**
+ * Record the plan a user is entitled to on their pro_contractors row, or
+ * their user_profiles row if they are not a contractor
+ */
+async function setSubscriptionType(supabase: SupabaseClient, userId: string, type: PaidPlan | 'free'): Promise<void> {
+  const { data: contractors, error } = await supabase
+    .from('pro_contractors')
+    .update({ subscription_type: type })
+    .eq('id', userId)
+    .select('id')
+
+  if (error) throw error
+  if (contractors?.length) return
+
+  const { data: profiles, error: profileError } = await supabase
+    .from('user_profiles')
+    .update({ subscription_type: type })
+    .eq('id', userId)
+    .select('id')
+
+  if (profileError) throw profileError
+  if (!profiles?.length) console.warn('[BILLING] No contractor or profile row for user', userId)
+}
+
+/**
+ * Mirror a Stripe subscription into billing_subscriptions and set the
+ * user's subscription_type to match. Events older than the stored
+ * state are skipped, so out-of-order deliveries cannot roll it back.
+ */
+export async function syncStripeSubscription(params: {
+  supabase: SupabaseClient
+  subscription: Stripe.Subscription
+  /** When the event carrying the subscription was created */
+  eventAt?: string
+  config?: BillingConfig
+}): Promise<void> {
+  const { supabase, subscription } = params
+  const config = params.config || getBillingConfig()
+  const eventAt = params.eventAt || new Date().toISOString()
+  const customerId = idOf(subscription.customer)
+
+  const userId = subscription.metadata?.user_id || await userIdForCustomer(supabase, customerId)
+  if (!userId) {
+    console.warn('[BILLING] No user for subscription', subscription.id)
+    return
+  }
+
+  const item = subscription.items.data[0]
+  const priced = planForPrice(item?.price?.id, config)
+  const plan = priced?.plan || (subscription.metadata?.plan as PaidPlan | undefined)
+  if (!plan || !BILLING_PLANS[plan]) {
+    console.warn('[BILLING] Unknown price on subscription', subscription.id, item?.price?.id)
+    return
+  }
+
+  const existing = await getBillingSubscription(supabase, userId)
+
+  if (existing && existing.stripe_subscription_id !== subscription.id) {
+    // A stale subscription must not overwrite the user's current one
+    if (isEntitled(existing) && subscription.status !== 'active' && subscription.status !== 'trialing') return
+  }
+
+  if (existing?.last_stripe_event_at && new Date(existing.last_stripe_event_at) > new Date(eventAt)) return
+
+  const status = subscription.status as BillingStatus
+  // current_period_end moved onto subscription items in newer API versions
+  const periodEnd = item?.current_period_end ?? (subscription as Stripe.Subscription & LegacySubscriptionFields).current_period_end
+
+  const row = {
+    user_id: userId,
+    stripe_customer_id: customerId,
+    stripe_subscription_id: subscription.id,
+    stripe_price_id: item?.price?.id || null,
+    plan,
+    billing_interval: priced?.interval || item?.price?.recurring?.interval || 'month',
+    status,
+    current_period_end: periodEnd ? new Date(periodEnd * 1000).toISOString() : null,
+    cancel_at_period_end: !!subscription.cancel_at_period_end,
+    canceled_at: subscription.canceled_at ? new Date(subscription.canceled_at * 1000).toISOString() : null,
+    past_due_since: status === 'past_due' ? existing?.past_due_since || eventAt : null,
+    last_payment_error: status === 'past_due' || status === 'unpaid' ? existing?.last_payment_error || null : null,
+    last_stripe_event_at: eventAt,
+    updated_at: new Date().toISOString()
+  }
+
+  const { error } = await supabase
+    .from('billing_subscriptions')
+    .upsert(row, { onConflict: 'user_id' })
+
+  if (error) throw error
+
+  const entitled = isEntitled(row)
+  await setSubscriptionType(supabase, userId, entitled ? plan : 'free')
+
+  if (existing && isEntitled(existing) && !entitled) {
+    await dispatchNotification(supabase, {
+      userId,
+      event: 'billing_update',
+      inApp: {
+        type: 'warning',
+        title: `${BILLING_PLANS[plan].name} Ended`,
+        message: status === 'canceled'
+          ? `Your ${BILLING_PLANS[plan].name} subscription has ended. Resubscribe any time from the pricing page.`
+          : `Your ${BILLING_PLANS[plan].name} features are paused until the outstanding invoice is paid.`,
+        link: '/dashboard/contractor/billing'
+      }
+    })
+  }
+}
+
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  return idOf(invoice.parent?.subscription_details?.subscription) ||
+    idOf((invoice as Stripe.Invoice & LegacyInvoiceFields).subscription)
+}
+
+/**
+ * A renewal failed: start (or continue) dunning and tell the subscriber how
+ * long their features stay on
+ */
+export async function recordSubscriptionPaymentFailed(params: {
+  supabase: SupabaseClient
+  invoice: Stripe.Invoice
+  eventAt: string
+}): Promise<void> {
+  const { supabase, invoice, eventAt } = params
+  const subscriptionId = invoiceSubscriptionId(invoice)
+  if (!subscriptionId) return
+
+  const { data: current } = await supabase
+    .from('billing_subscriptions')
+    .select('*')
+    .eq('stripe_subscription_id', subscriptionId)
+    .maybeSingle()
+
+  if (!current) return
+
+  const reason = `Renewal payment failed (attempt ${invoice.attempt_count || 1})`
+  const pastDueSince = current.past_due_since || eventAt
+  const firstFailure = !current.past_due_since
+
+  const { error } = await supabase
+    .from('billing_subscriptions')
+    .update({
+      status: current.status === 'active' ? 'past_due' : current.status,
+      past_due_since: pastDueSince,
+      last_payment_error: reason,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', current.id)
+
+  if (error) throw error
+
+  // Stripe retries on its own schedule; only the first failure is announced
+  if (!firstFailure) return
+
+  const planName = BILLING_PLANS[current.plan as PaidPlan]?.name || 'subscription'
+  const endsAt = graceEndsAt({ status: 'past_due', past_due_since: pastDueSince })!.toISOString()
+
+  const account = await getBillingAccount(supabase, current.user_id)
+
+  await dispatchNotification(supabase, {
+    userId: current.user_id,
+    event: 'billing_update',
+    inApp: {
+      type: 'warning',
+      title: 'Subscription Payment Failed',
+      message: `We couldn't renew your ${planName}. Update your payment method by ${new Date(endsAt).toLocaleDateString()} to keep your features.`,
+      link: '/dashboard/contractor/billing'
+    },
+    email: {
+      to: account?.email || invoice.customer_email,
+      send: (to) => notifySubscriptionPaymentFailed({
+        recipientEmail: to,
+        recipientName: account?.name || 'there',
+        planName,
+        amount: invoice.amount_due / 100,
+        graceEndsAt: endsAt,
+        billingUrl: billingUrl()
+      })
+    }
+  })
+}
+
+/**
+ * A subscription invoice was paid: end any dunning cycle
+ */
+export async function recordSubscriptionPaymentSucceeded(params: {
+  supabase: SupabaseClient
+  invoice: Stripe.Invoice
+}): Promise<void> {
+  const { supabase, invoice } = params
+  const subscriptionId = invoiceSubscriptionId(invoice)
+  if (!subscriptionId) return
+
+  const { error } = await supabase
+    .from('billing_subscriptions')
+    .update({
+      past_due_since: null,
+      last_payment_error: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('stripe_subscription_id', subscriptionId)
+    .not('past_due_since', 'is', null)
+
+  if (error) throw error
+}
@@ -0,0 +1,156 @@
+/**
+ * Paid plans and entitlements for Rushr
+ *
+ * The plan catalog shown on /pricing and the billing page, and which
+ * features each plan unlocks. Kept free of Stripe and the email senders so
+ * pages can import it; checkout, plan switches and the webhook sync live in
+ * lib/billing.ts.
+ *
+ * Entitlements come from the user's billing_subscriptions row, never from
+ * user_profiles.subscription_type, which is only a display copy.
+ */
+
+export type PaidPlan = 'pro' | 'signals'
+export type BillingInterval = 'month' | 'year'
+export type Entitlement = 'priority_jobs' | 'signals' | 'advanced_analytics'
+
+/** Stripe subscription statuses */
+export type BillingStatus =
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'unpaid'
+  | 'canceled'
+  | 'paused'
+
+export interface BillingSubscription {
+  user_id: string
+  stripe_customer_id: string
+  stripe_subscription_id: string
+  stripe_price_id: string | null
+  plan: PaidPlan
+  billing_interval: BillingInterval
+  status: BillingStatus
+  current_period_end: string | null
+  cancel_at_period_end: boolean
+  canceled_at: string | null
+  past_due_since: string | null
+  last_payment_error: string | null
+  last_stripe_event_at: string | null
+  updated_at: string
+}
+
+export interface BillingPlan {
+  id: PaidPlan
+  name: string
+  description: string
+  /** Dollars per month when billed monthly */
+  monthlyPrice: number
+  /** Dollars per year when billed annually */
+  annualPrice: number
+  entitlements: Entitlement[]
+  highlights: string[]
+}
+
+/** Annual billing is about 17% off month-to-month */
+export function annualPrice(monthly: number): number {
+  return Math.round(monthly * 12 * 0.83)
+}
+
+export const BILLING_PLANS: Record<PaidPlan, BillingPlan> = {
+  pro: {
+    id: 'pro',
+    name: 'Pro Plus',
+    description: 'Get priority access to new job opportunities and advanced professional tools.',
+    monthlyPrice: 99,
+    annualPrice: annualPrice(99),
+    entitlements: ['priority_jobs', 'advanced_analytics'],
+    highlights: [
+      'Priority job notifications',
+      'Advanced search filters',
+      'Analytics dashboard',
+      'Priority support'
+    ]
+  },
+  signals: {
+    id: 'signals',
+    name: 'Pro Plus + Signals',
+    description: 'Everything in Pro Plus, plus permits, violations and leads in your area before a job is posted.',
+    monthlyPrice: 149,
+    annualPrice: annualPrice(149),
+    entitlements: ['priority_jobs', 'advanced_analytics', 'signals'],
+    highlights: [
+      'Everything in Pro Plus',
+      'Permit, violation and lead alerts',
+      'Custom signal subscriptions',
+      'Daily signal digest'
+    ]
+  }
+}
+
+export const ENTITLEMENT_LABELS: Record<Entitlement, string> = {
+  priority_jobs: 'Priority job access',
+  signals: 'Signals',
+  advanced_analytics: 'Advanced analytics'
+}
+
+export const BILLING_STATUS_LABELS: Record<BillingStatus, string> = {
+  incomplete: 'Awaiting payment',
+  incomplete_expired: 'Expired',
+  trialing: 'Trial',
+  active: 'Active',
+  past_due: 'Payment failed',
+  unpaid: 'Unpaid',
+  canceled: 'Canceled',
+  paused: 'Paused'
+}
+
+/** Days a past_due subscription keeps its features while Stripe retries */
+export const DUNNING_GRACE_DAYS = 7
+
+export function isPaidPlan(value: unknown): value is PaidPlan {
+  return value === 'pro' || value === 'signals'
+}
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return value === 'month' || value === 'year'
+}
+
+/**
+ * When a past_due subscription loses its features, or null when it is not
+ * in dunning
+ */
+export function graceEndsAt(subscription: Pick<BillingSubscription, 'status' | 'past_due_since'>): Date | null {
+  if (subscription.status !== 'past_due' || !subscription.past_due_since) return null
+  return new Date(new Date(subscription.past_due_since).getTime() + DUNNING_GRACE_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Whether a subscription currently unlocks its plan: active, trialing, or
+ * past_due within the grace period
+ */
+export function isEntitled(
+  subscription: Pick<BillingSubscription, 'status' | 'past_due_since'> | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!subscription) return false
+  if (subscription.status === 'active' || subscription.status === 'trialing') return true
+  if (subscription.status === 'past_due') {
+    const endsAt = graceEndsAt(subscription)
+    return !endsAt || endsAt > now
+  }
+  return false
+}
+
+/**
+ * The features a subscription unlocks right now
+ */
+export function entitlementsFor(
+  subscription: Pick<BillingSubscription, 'plan' | 'status' | 'past_due_since'> | null | undefined,
+  now: Date = new Date()
+): Entitlement[] {
+  if (!subscription || !isEntitled(subscription, now)) return []
+  return BILLING_PLANS[subscription.plan]?.entitlements || []
+}
@@ -0,0 +1,38 @@
+/**
+ * Injectable time source
+ *
+ * Long-running flows (the emergency dispatch cascade) take a Clock instead of
+ * calling `new Date()` so their timing can be driven step by step.
+ */
+
+export interface Clock {
+  now(): Date
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+}
+
+/**
+ * A clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  private current: Date
+
+  constructor(start: Date = new Date()) {
+    this.current = new Date(start)
+  }
+
+  now(): Date {
+    return new Date(this.current)
+  }
+
+  advance(ms: number): Date {
+    this.current = new Date(this.current.getTime() + ms)
+    return this.now()
+  }
+
+  set(date: Date) {
+    this.current = new Date(date)
+  }
+}
@@ -0,0 +1,648 @@
+/**
+ * Companies and Crews for Rushr Teams
+ *
+ * A company groups contractor accounts under one business. The owner invites
+ * contractors by email and they join when they accept (company_invites), so
+ * nobody lands on a crew board or is tied to a company without consenting.
+ * - owner: manages the roster and roles, and dispatches
+ * - dispatcher: assigns jobs won by any member to a technician
+ * - tech: works the jobs assigned to them
+ *
+ * Jobs keep contractor_id = the member whose bid won; assigned_tech_id is the
+ * technician actually sent. The crew board combines members' availability,
+ * their latest contractor_locations row and their active jobs.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type CompanyRole = 'owner' | 'dispatcher' | 'tech'
+export type InviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked'
+export type ContractorStatus = 'available' | 'en-route' | 'on-job' | 'break' | 'offline'
+
+export const COMPANY_ROLES: Record<CompanyRole, string> = {
+  owner: 'Owner',
+  dispatcher: 'Dispatcher',
+  tech: 'Technician'
+}
+
+/** Job statuses a technician can be dispatched on */
+export const ASSIGNABLE_JOB_STATUSES = ['bid_accepted', 'in_progress']
+
+export interface Company {
+  id: string
+  name: string
+  owner_id: string
+  created_at: string
+  updated_at: string
+}
+
+export interface CompanyMember {
+  id: string
+  company_id: string
+  user_id: string
+  role: CompanyRole
+  added_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CompanyInvite {
+  id: string
+  company_id: string
+  user_id: string
+  role: Exclude<CompanyRole, 'owner'>
+  status: InviteStatus
+  invited_by: string | null
+  responded_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** An invite addressed to the caller, with the company it is from */
+export interface ReceivedInvite extends CompanyInvite {
+  company: Company
+}
+
+/** An invite the company sent, with who it went to */
+export interface SentInvite extends CompanyInvite {
+  name: string
+  email: string | null
+}
+
+export interface Membership {
+  company: Company
+  member: CompanyMember
+}
+
+export interface CrewMember extends CompanyMember {
+  name: string
+  phone: string | null
+  email: string | null
+  availability: 'online' | 'busy' | 'offline' | null
+  rating: number | null
+  categories: string[]
+  status: ContractorStatus
+  location: { latitude: number; longitude: number; updatedAt: string | null } | null
+  currentJobId: string | null
+}
+
+export interface CrewJob {
+  id: string
+  title: string
+  category: string | null
+  priority: string | null
+  status: string
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  contractor_id: string | null
+  assigned_tech_id: string | null
+  assigned_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface CrewBoard {
+  company: Company
+  role: CompanyRole
+  members: CrewMember[]
+  /** Pending invites; only loaded for the owner */
+  invites: SentInvite[]
+  jobs: CrewJob[]
+}
+
+export class CompanyError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'CompanyError'
+    this.status = status
+  }
+}
+
+export function canDispatch(role: CompanyRole): boolean {
+  return role === 'owner' || role === 'dispatcher'
+}
+
+/**
+ * Dispatch status shown on the Teams page, derived from the technician's
+ * availability toggle, location feed and active job
+ */
+export function crewStatus(
+  availability: string | null,
+  activeJob: Pick<CrewJob, 'status'> | null,
+  location: { is_en_route?: boolean | null; has_arrived?: boolean | null } | null
+): ContractorStatus {
+  if (availability === 'offline') return 'offline'
+  if (location?.is_en_route && !location.has_arrived) return 'en-route'
+  if (activeJob) return 'on-job'
+  if (availability === 'busy') return 'break'
+  return 'available'
+}
+
+/** The technician working a job: the assigned tech, else the winning bidder */
+export function jobTechId(job: Pick<CrewJob, 'assigned_tech_id' | 'contractor_id'>): string | null {
+  return job.assigned_tech_id || job.contractor_id
+}
+
+export async function getMembership(supabase: SupabaseClient, userId: string): Promise<Membership | null> {
+  const { data } = await supabase
+    .from('company_members')
+    .select('*, company:companies(*)')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (!data) return null
+
+  const { company, ...member } = data as any
+  return { company, member }
+}
+
+/**
+ * Create a company with the caller as its owner
+ */
+export async function createCompany(params: {
+  supabase: SupabaseClient
+  ownerId: string
+  name: string
+}): Promise<Membership> {
+  const { supabase, ownerId } = params
+  const name = params.name?.trim()
+
+  if (!name) {
+    throw new CompanyError('Company name is required')
+  }
+
+  const { data: contractor } = await supabase
+    .from('pro_contractors')
+    .select('id')
+    .eq('id', ownerId)
+    .maybeSingle()
+
+  if (!contractor) {
+    throw new CompanyError('Only contractor accounts can create a company', 403)
+  }
+
+  if (await getMembership(supabase, ownerId)) {
+    throw new CompanyError('You already belong to a company', 409)
+  }
+
+  const { data: company, error } = await supabase
+    .from('companies')
+    .insert({ name, owner_id: ownerId })
+    .select()
+    .single()
+
+  if (error || !company) throw error
+
+  const { data: member, error: memberError } = await supabase
+    .from('company_members')
+    .insert({ company_id: company.id, user_id: ownerId, role: 'owner', added_by: ownerId })
+    .select()
+    .single()
+
+  if (memberError || !member) {
+    await supabase.from('companies').delete().eq('id', company.id)
+    if (memberError?.code === '23505') {
+      throw new CompanyError('You already belong to a company', 409)
+    }
+    throw memberError
+  }
+
+  return { company, member }
+}
+
+/**
+ * Invite an existing Rushr contractor account to the company by email.
+ * They join only once they accept (respondToInvite).
+ */
+export async function inviteMember(params: {
+  supabase: SupabaseClient
+  actor: Membership
+  email: string
+  role: CompanyRole
+}): Promise<CompanyInvite> {
+  const { supabase, actor, role } = params
+  const email = params.email?.trim().toLowerCase()
+
+  if (actor.member.role !== 'owner') {
+    throw new CompanyError('Only the company owner can invite members', 403)
+  }
+  if (!email) {
+    throw new CompanyError('Email is required')
+  }
+  if (role !== 'dispatcher' && role !== 'tech') {
+    throw new CompanyError('Role must be dispatcher or tech')
+  }
+
+  const { data: contractor } = await supabase
+    .from('pro_contractors')
+    .select('id, name')
+    .ilike('email', email)
+    .maybeSingle()
+
+  if (!contractor) {
+    throw new CompanyError('No Rushr Pro account uses that email. Ask them to sign up first.', 404)
+  }
+
+  const { data: existing } = await supabase
+    .from('company_members')
+    .select('id')
+    .eq('company_id', actor.company.id)
+    .eq('user_id', contractor.id)
+    .maybeSingle()
+
+  if (existing) {
+    throw new CompanyError('That contractor is already on your team', 409)
+  }
+
+  const { data: invite, error } = await supabase
+    .from('company_invites')
+    .insert({ company_id: actor.company.id, user_id: contractor.id, role, invited_by: actor.member.user_id })
+    .select()
+    .single()
+
+  if (error?.code === '23505') {
+    throw new CompanyError('That contractor already has a pending invite', 409)
+  }
+  if (error || !invite) throw error
+
+  await supabase.from('notifications').insert({
+    user_id: contractor.id,
+    type: 'info',
+    title: 'Team Invitation',
+    message: `${actor.company.name} invited you to join as a ${COMPANY_ROLES[role].toLowerCase()}. Accept or decline on the Teams page.`,
+    link: '/teams'
+  })
+
+  return invite
+}
+
+/**
+ * Pending invites addressed to a contractor
+ */
+export async function listInvites(supabase: SupabaseClient, userId: string): Promise<ReceivedInvite[]> {
+  const { data, error } = await supabase
+    .from('company_invites')
+    .select('*, company:companies(*)')
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return (data || []) as ReceivedInvite[]
+}
+
+/**
+ * The invited contractor accepts or declines. Accepting starts the
+ * membership; a contractor already on a team must leave it first.
+ */
+export async function respondToInvite(params: {
+  supabase: SupabaseClient
+  userId: string
+  inviteId: string
+  accept: boolean
+}): Promise<Membership | null> {
+  const { supabase, userId, inviteId, accept } = params
+
+  // Claim the invite (guarded so it is answered once)
+  const { data: claimed, error } = await supabase
+    .from('company_invites')
+    .update({ status: accept ? 'accepted' : 'declined', responded_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .eq('user_id', userId)
+    .eq('status', 'pending')
+    .select('*, company:companies(*)')
+
+  if (error) throw error
+
+  if (!claimed || claimed.length === 0) {
+    throw new CompanyError('Invite not found or already answered', 404)
+  }
+
+  const invite = claimed[0] as ReceivedInvite
+
+  if (accept) {
+    const { error: memberError } = await supabase
+      .from('company_members')
+      .insert({ company_id: invite.company_id, user_id: userId, role: invite.role, added_by: invite.invited_by })
+
+    if (memberError) {
+      await supabase
+        .from('company_invites')
+        .update({ status: 'pending', responded_at: null })
+        .eq('id', inviteId)
+
+      if (memberError.code === '23505') {
+        throw new CompanyError('You already belong to a company. Leave it before joining another.', 409)
+      }
+      throw memberError
+    }
+  }
+
+  if (invite.invited_by) {
+    const { data: contractor } = await supabase
+      .from('pro_contractors')
+      .select('name, business_name')
+      .eq('id', userId)
+      .maybeSingle()
+    const name = contractor?.name || contractor?.business_name || 'A contractor'
+
+    await supabase.from('notifications').insert({
+      user_id: invite.invited_by,
+      type: 'info',
+      title: accept ? 'Invite Accepted' : 'Invite Declined',
+      message: accept
+        ? `${name} joined ${invite.company.name} as a ${COMPANY_ROLES[invite.role].toLowerCase()}.`
+        : `${name} declined your invite to ${invite.company.name}.`,
+      link: '/teams'
+    })
+  }
+
+  return accept ? getMembership(supabase, userId) : null
+}
+
+/**
+ * Withdraw a pending invite (owner only)
+ */
+export async function revokeInvite(params: {
+  supabase: SupabaseClient
+  actor: Membership
+  inviteId: string
+}): Promise<void> {
+  const { supabase, actor, inviteId } = params
+
+  if (actor.member.role !== 'owner') {
+    throw new CompanyError('Only the company owner can withdraw invites', 403)
+  }
+
+  const { data: revoked, error } = await supabase
+    .from('company_invites')
+    .update({ status: 'revoked', responded_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .eq('company_id', actor.company.id)
+    .eq('status', 'pending')
+    .select('id')
+
+  if (error) throw error
+
+  if (!revoked || revoked.length === 0) {
+    throw new CompanyError('Invite not found or already answered', 404)
+  }
+}
+
+async function getCompanyMember(supabase: SupabaseClient, companyId: string, memberId: string): Promise<CompanyMember> {
+  const { data: member } = await supabase
+    .from('company_members')
+    .select('*')
+    .eq('id', memberId)
+    .eq('company_id', companyId)
+    .maybeSingle()
+
+  if (!member) {
+    throw new CompanyError('Member not found', 404)
+  }
+
+  return member
+}
+
+/**
+ * Change a member's role (owner only; the owner role cannot be reassigned)
+ */
+export async function updateMemberRole(params: {
+  supabase: SupabaseClient
+  actor: Membership
+  memberId: string
+  role: CompanyRole
+}): Promise<CompanyMember> {
+  const { supabase, actor, memberId, role } = params
+
+  if (actor.member.role !== 'owner') {
+    throw new CompanyError('Only the company owner can change roles', 403)
+  }
+  if (role !== 'dispatcher' && role !== 'tech') {
+    throw new CompanyError('Role must be dispatcher or tech')
+  }
+
+  const member = await getCompanyMember(supabase, actor.company.id, memberId)
+
+  if (member.role === 'owner') {
+    throw new CompanyError('The owner role cannot be changed', 409)
+  }
+
+  const { data: updated, error } = await supabase
+    .from('company_members')
+    .update({ role })
+    .eq('id', memberId)
+    .select()
+    .single()
+
+  if (error || !updated) throw error
+
+  return updated
+}
+
+/**
+ * Remove a member; their open assignments go back to the dispatcher queue
+ */
+export async function removeMember(params: {
+  supabase: SupabaseClient
+  actor: Membership
+  memberId: string
+}): Promise<void> {
+  const { supabase, actor, memberId } = params
+
+  const member = await getCompanyMember(supabase, actor.company.id, memberId)
+  const leaving = member.user_id === actor.member.user_id
+
+  if (actor.member.role !== 'owner' && !leaving) {
+    throw new CompanyError('Only the company owner can remove members', 403)
+  }
+  if (member.role === 'owner') {
+    throw new CompanyError('The owner cannot leave the company', 409)
+  }
+
+  const { error } = await supabase
+    .from('company_members')
+    .delete()
+    .eq('id', memberId)
+
+  if (error) throw error
+
+  await supabase
+    .from('homeowner_jobs')
+    .update({ assigned_tech_id: null, assigned_at: null, assigned_by: null })
+    .eq('company_id', actor.company.id)
+    .eq('assigned_tech_id', member.user_id)
+    .in('status', ASSIGNABLE_JOB_STATUSES)
+}
+
+/**
+ * Dispatch a job won by the company to one of its technicians
+ */
+export async function assignJob(params: {
+  supabase: SupabaseClient
+  actor: Membership
+  jobId: string
+  techId: string
+}): Promise<CrewJob> {
+  const { supabase, actor, jobId, techId } = params
+
+  if (!canDispatch(actor.member.role)) {
+    throw new CompanyError('Only owners and dispatchers can assign jobs', 403)
+  }
+
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('id, title, status, contractor_id, company_id, assigned_tech_id')
+    .eq('id', jobId)
+    .single()
+
+  if (!job) {
+    throw new CompanyError('Job not found', 404)
+  }
+
+  const { data: members } = await supabase
+    .from('company_members')
+    .select('user_id')
+    .eq('company_id', actor.company.id)
+
+  const memberIds = (members || []).map(m => m.user_id)
+
+  if (job.company_id !== actor.company.id && !memberIds.includes(job.contractor_id)) {
+    throw new CompanyError('This job was not won by your company', 403)
+  }
+  if (!memberIds.includes(techId)) {
+    throw new CompanyError('That technician is not on your crew')
+  }
+  if (!ASSIGNABLE_JOB_STATUSES.includes(job.status)) {
+    throw new CompanyError(`Cannot assign a job with status: ${job.status}`, 409)
+  }
+
+  const { data: updated, error } = await supabase
+    .from('homeowner_jobs')
+    .update({
+      company_id: actor.company.id,
+      assigned_tech_id: techId,
+      assigned_at: new Date().toISOString(),
+      assigned_by: actor.member.user_id
+    })
+    .eq('id', jobId)
+    .select('id, title, category, priority, status, address, latitude, longitude, contractor_id, assigned_tech_id, assigned_at, created_at, updated_at')
+    .single()
+
+  if (error || !updated) throw error
+
+  if (techId !== actor.member.user_id && techId !== job.assigned_tech_id) {
+    await supabase.from('notifications').insert({
+      user_id: techId,
+      type: 'info',
+      event_type: 'job_assigned',
+      title: 'New Job Assignment',
+      message: `${actor.company.name} assigned you to "${job.title}".`,
+      job_id: jobId,
+      link: `/dashboard/contractor/jobs/${jobId}`
+    })
+  }
+
+  return updated
+}
+
+/**
+ * Everything the Teams page needs: roster with live status, plus the jobs
+ * won by the crew that are active or were finished today
+ */
+export async function loadCrewBoard(supabase: SupabaseClient, membership: Membership): Promise<CrewBoard> {
+  const { company, member } = membership
+
+  const { data: rows, error } = await supabase
+    .from('company_members')
+    .select('*')
+    .eq('company_id', company.id)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  const memberIds = (rows || []).map(m => m.user_id)
+
+  const { data: profiles } = await supabase
+    .from('pro_contractors')
+    .select('*')
+    .in('id', memberIds)
+
+  const startOfDay = new Date()
+  startOfDay.setHours(0, 0, 0, 0)
+
+  const { data: jobs } = await supabase
+    .from('homeowner_jobs')
+    .select('id, title, category, priority, status, address, latitude, longitude, contractor_id, assigned_tech_id, assigned_at, created_at, updated_at')
+    .or(`company_id.eq.${company.id},contractor_id.in.(${memberIds.join(',')})`)
+    .order('created_at', { ascending: false })
+
+  const { data: locations } = await supabase
+    .from('contractor_locations')
+    .select('*')
+    .in('contractor_id', memberIds)
+
+  // Latest location row per technician
+  const latestLocation = new Map<string, any>()
+  for (const location of locations || []) {
+    const updatedAt = location.last_updated || location.last_updated_at
+    const current = latestLocation.get(location.contractor_id)
+    if (!current || (current.last_updated || current.last_updated_at) < updatedAt) {
+      latestLocation.set(location.contractor_id, location)
+    }
+  }
+
+  let invites: SentInvite[] = []
+  if (member.role === 'owner') {
+    const { data: pending } = await supabase
+      .from('company_invites')
+      .select('*, contractor:pro_contractors!company_invites_user_id_fkey(name, business_name, email)')
+      .eq('company_id', company.id)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+
+    invites = (pending || []).map(({ contractor, ...invite }: any) => ({
+      ...invite,
+      name: contractor?.name || contractor?.business_name || 'Contractor',
+      email: contractor?.email || null
+    }))
+  }
+
+  const crewJobs: CrewJob[] = (jobs || []).filter(j =>
+    ASSIGNABLE_JOB_STATUSES.includes(j.status) || new Date(j.updated_at) >= startOfDay
+  )
+  const activeJobs = crewJobs.filter(j => ASSIGNABLE_JOB_STATUSES.includes(j.status))
+
+  const members: CrewMember[] = (rows || []).map(row => {
+    const profile = (profiles || []).find(p => p.id === row.user_id) || {}
+    const location = latestLocation.get(row.user_id) || null
+    const activeJob = activeJobs.find(j => jobTechId(j) === row.user_id) || null
+    const latitude = location?.latitude ?? profile.latitude
+    const longitude = location?.longitude ?? profile.longitude
+
+    return {
+      ...row,
+      name: profile.name || profile.business_name || 'Technician',
+      phone: profile.phone || null,
+      email: profile.email || null,
+      availability: profile.availability || null,
+      rating: profile.rating ?? null,
+      categories: profile.categories || [],
+      status: crewStatus(profile.availability, activeJob, location),
+      location: latitude != null && longitude != null
+        ? {
+            latitude: Number(latitude),
+            longitude: Number(longitude),
+            updatedAt: location?.last_updated || location?.last_updated_at || null
+          }
+        : null,
+      currentJobId: activeJob?.id || null
+    }
+  })
+
+  return { company, role: member.role, members, invites, jobs: crewJobs }
+}
@@ -0,0 +1,128 @@
+/**
+ * Contractor Analytics for Rushr
+ *
+ * Win rate, response time and earnings for a contractor over a trailing
+ * window, overall and per job category. Part of the paid plans: the API
+ * route checks the advanced_analytics entitlement (lib/billing.ts) before
+ * calling in here.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface AnalyticsBid {
+  status: string
+  bid_amount: number | null
+  created_at: string
+  job: { category: string | null; created_at: string } | null
+}
+
+export interface BidStats {
+  bids: number
+  won: number
+  /** Share of decided bids (won or lost) that were won, 0-1 */
+  winRate: number | null
+  wonValue: number
+}
+
+export interface CategoryStats extends BidStats {
+  category: string
+}
+
+export interface ContractorAnalytics extends BidStats {
+  periodDays: number
+  /** Median minutes from a job being posted to this contractor's bid */
+  medianResponseMinutes: number | null
+  averageWonBid: number | null
+  /** Escrow released to the contractor in the window */
+  payouts: number
+  byCategory: CategoryStats[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function bidStats(bids: AnalyticsBid[]): BidStats {
+  const won = bids.filter(bid => bid.status === 'accepted')
+  const decided = bids.filter(bid => bid.status === 'accepted' || bid.status === 'rejected').length
+
+  return {
+    bids: bids.length,
+    won: won.length,
+    winRate: decided > 0 ? Math.round((won.length / decided) * 1000) / 1000 : null,
+    wonValue: Math.round(won.reduce((sum, bid) => sum + Number(bid.bid_amount || 0), 0) * 100) / 100
+  }
+}
+
+/**
+ * Summarize a contractor's bids. Pure, so the numbers can be checked
+ * without a database.
+ */
+export function summarizeBids(bids: AnalyticsBid[], periodDays: number, payouts = 0): ContractorAnalytics {
+  const overall = bidStats(bids)
+
+  const responseMinutes = bids
+    .filter(bid => bid.job?.created_at)
+    .map(bid => (new Date(bid.created_at).getTime() - new Date(bid.job!.created_at).getTime()) / 60000)
+    .filter(minutes => minutes >= 0)
+
+  const byCategory = new Map<string, AnalyticsBid[]>()
+  for (const bid of bids) {
+    const category = bid.job?.category || 'Other'
+    byCategory.set(category, [...(byCategory.get(category) || []), bid])
+  }
+
+  const medianResponse = median(responseMinutes)
+
+  return {
+    ...overall,
+    periodDays,
+    medianResponseMinutes: medianResponse != null ? Math.round(medianResponse) : null,
+    averageWonBid: overall.won > 0 ? Math.round((overall.wonValue / overall.won) * 100) / 100 : null,
+    payouts: Math.round(payouts * 100) / 100,
+    byCategory: Array.from(byCategory.entries())
+      .map(([category, categoryBids]) => ({ category, ...bidStats(categoryBids) }))
+      .sort((a, b) => b.bids - a.bids)
+  }
+}
+
+/**
+ * Load and summarize a contractor's bids and payouts from the last
+ * `periodDays` days
+ */
+export async function getContractorAnalytics(params: {
+  supabase: SupabaseClient
+  contractorId: string
+  periodDays?: number
+  now?: Date
+}): Promise<ContractorAnalytics> {
+  const { supabase, contractorId } = params
+  const periodDays = params.periodDays || 90
+  const now = params.now || new Date()
+  const since = new Date(now.getTime() - periodDays * DAY_MS).toISOString()
+
+  const [{ data: bids, error: bidsError }, { data: holds, error: holdsError }] = await Promise.all([
+    supabase
+      .from('job_bids')
+      .select('status, bid_amount, created_at, job:homeowner_jobs(category, created_at)')
+      .eq('contractor_id', contractorId)
+      .gte('created_at', since),
+    supabase
+      .from('payment_holds')
+      .select('contractor_payout')
+      .eq('contractor_id', contractorId)
+      .eq('status', 'released')
+      .gte('released_at', since)
+  ])
+
+  if (bidsError) throw bidsError
+  if (holdsError) throw holdsError
+
+  const payouts = (holds || []).reduce((sum, hold) => sum + Number(hold.contractor_payout || 0), 0)
+  return summarizeBids((bids || []) as unknown as AnalyticsBid[], periodDays, payouts)
+}
@@ -119,6 +119,9 @@ export interface Database {
           counter_days: number | null
           counter_notes: string | null
           expires_at: string | null
+          parent_offer_id: string | null
+          job_id: string | null
+          bid_id: string | null
           created_at: string
           updated_at: string
         }
@@ -134,6 +137,9 @@ export interface Database {
           counter_days?: number | null
           counter_notes?: string | null
           expires_at?: string | null
+          parent_offer_id?: string | null
+          job_id?: string | null
+          bid_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -149,6 +155,9 @@ export interface Database {
           counter_days?: number | null
           counter_notes?: string | null
           expires_at?: string | null
+          parent_offer_id?: string | null
+          job_id?: string | null
+          bid_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -308,6 +317,13 @@ export interface Database {
         }
         Returns: boolean
       }
+      mark_conversation_read: {
+        Args: {
+          conversation_id_param: string
+          last_message_id_param?: string
+        }
+        Returns: void
+      }
       cleanup_deleted_messages: {
         Args: {
           days_old?: number
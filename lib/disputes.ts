@@ -0,0 +1,484 @@
+/**
+ * Payment Dispute Resolution for Rushr Escrow
+ *
+ * When a homeowner and contractor disagree about completion, either party can
+ * open a dispute on the payment hold. The hold is frozen (no auto-release)
+ * until an admin resolves it:
+ * - release: contractor is paid in full
+ * - split: part of the payment is refunded, the rest is released
+ * - refund: homeowner is refunded in full
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { EscrowError, refundPaymentHold, releasePaymentHold } from './escrow'
+import { dispatchNotification } from './notificationDispatcher'
+import { describeVisit, getVisitReport, toGeoJSON } from './visitReport'
+
+export type DisputeReason =
+  | 'work_incomplete'
+  | 'poor_quality'
+  | 'no_show'
+  | 'damage'
+  | 'payment_not_confirmed'
+  | 'other'
+
+export type DisputeStatus = 'open' | 'under_review' | 'resolved' | 'cancelled'
+export type DisputeResolution = 'release' | 'split' | 'refund'
+export type EvidenceType = 'photo' | 'message' | 'note' | 'visit_report'
+
+export const DISPUTE_REASONS: Record<DisputeReason, string> = {
+  work_incomplete: 'Work not completed',
+  poor_quality: 'Poor quality of work',
+  no_show: 'Contractor did not show up',
+  damage: 'Property damage',
+  payment_not_confirmed: 'Homeowner will not confirm completion',
+  other: 'Other'
+}
+
+export interface PaymentDispute {
+  id: string
+  payment_hold_id: string
+  job_id: string | null
+  homeowner_id: string
+  contractor_id: string
+  opened_by: string
+  opened_by_role: 'homeowner' | 'contractor'
+  reason: DisputeReason
+  description: string
+  status: DisputeStatus
+  resolution: DisputeResolution | null
+  contractor_amount: number | null
+  refund_amount: number | null
+  resolution_rationale: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface DisputeEvidence {
+  id: string
+  dispute_id: string
+  submitted_by: string
+  evidence_type: EvidenceType
+  file_url: string | null
+  message_id: string | null
+  content: string | null
+  visit_report: any | null
+  created_at: string
+}
+
+const ACTIVE_STATUSES: DisputeStatus[] = ['open', 'under_review']
+
+export function isDisputeActive(dispute: Pick<PaymentDispute, 'status'>): boolean {
+  return ACTIVE_STATUSES.includes(dispute.status)
+}
+
+/**
+ * Open a dispute on a payment hold and freeze its release
+ */
+export async function openDispute(params: {
+  supabase: SupabaseClient
+  hold: any
+  userId: string
+  reason: DisputeReason
+  description: string
+}): Promise<PaymentDispute> {
+  const { supabase, hold, userId, reason, description } = params
+
+  const role = hold.homeowner_id === userId
+    ? 'homeowner'
+    : hold.contractor_id === userId
+      ? 'contractor'
+      : null
+
+  if (!role) {
+    throw new EscrowError('Only the homeowner or contractor on this job can open a dispute', 403)
+  }
+
+  if (!(reason in DISPUTE_REASONS)) {
+    throw new EscrowError('Invalid dispute reason')
+  }
+
+  const paidOut = hold.status === 'released' && hold.stripe_transfer_id
+  if (paidOut || !['authorized', 'captured', 'partial_refund', 'released'].includes(hold.status)) {
+    throw new EscrowError(`Cannot open a dispute on a payment with status: ${hold.status}`, 409)
+  }
+
+  if (hold.escrow_frozen) {
+    throw new EscrowError('A dispute is already open for this payment', 409)
+  }
+
+  const { data: dispute, error } = await supabase
+    .from('payment_disputes')
+    .insert({
+      payment_hold_id: hold.id,
+      job_id: hold.job_id,
+      homeowner_id: hold.homeowner_id,
+      contractor_id: hold.contractor_id,
+      opened_by: userId,
+      opened_by_role: role,
+      reason,
+      description,
+      status: 'open'
+    })
+    .select()
+    .single()
+
+  if (error?.code === '23505') {
+    throw new EscrowError('A dispute is already open for this payment', 409)
+  }
+  if (error || !dispute) throw error || new EscrowError('Failed to open dispute', 500)
+
+  // Freeze auto-release until an admin resolves the dispute
+  const { error: freezeError } = await supabase
+    .from('payment_holds')
+    .update({ escrow_frozen: true, active_dispute_id: dispute.id })
+    .eq('id', hold.id)
+
+  if (freezeError) {
+    // An unfrozen hold could be released mid-dispute; drop the dispute instead
+    await supabase.from('payment_disputes').delete().eq('id', dispute.id)
+    throw freezeError
+  }
+
+  if (hold.job_id) {
+    await supabase
+      .from('homeowner_jobs')
+      .update({ payment_status: 'disputed' })
+      .eq('id', hold.job_id)
+  }
+
+  const otherPartyId = role === 'homeowner' ? hold.contractor_id : hold.homeowner_id
+
+  await supabase.from('notifications').insert({
+    user_id: otherPartyId,
+    type: 'warning',
+    event_type: 'dispute_update',
+    title: 'Dispute Opened',
+    message: `The ${role} opened a dispute: ${DISPUTE_REASONS[reason]}. Payment is on hold until our team reviews it. You can add evidence from the job page.`,
+    job_id: hold.job_id,
+    bid_id: hold.bid_id
+  })
+
+  return dispute
+}
+
+/**
+ * Attach a photo, a message from the job conversation, a note, or the job's
+ * proof-of-visit report to a dispute. Photos are uploaded by the submitter to
+ * <their id>/<dispute id>/ in the private dispute-evidence bucket first.
+ */
+export async function addDisputeEvidence(params: {
+  supabase: SupabaseClient
+  dispute: PaymentDispute
+  userId: string
+  type: EvidenceType
+  filePath?: string
+  messageId?: string
+  content?: string
+}): Promise<DisputeEvidence> {
+  const { supabase, dispute, userId, type, filePath, messageId, content } = params
+
+  if (!isDisputeActive(dispute)) {
+    throw new EscrowError('This dispute is closed', 409)
+  }
+
+  const row: Record<string, any> = {
+    dispute_id: dispute.id,
+    submitted_by: userId,
+    evidence_type: type
+  }
+
+  if (type === 'photo') {
+    if (!filePath) throw new EscrowError('Missing filePath for photo evidence')
+    if (!filePath.startsWith(`${userId}/${dispute.id}/`)) {
+      throw new EscrowError('Photo must be uploaded to your folder for this dispute')
+    }
+    row.file_url = filePath
+    row.content = content || null
+  } else if (type === 'message') {
+    if (!messageId) throw new EscrowError('Missing messageId for message evidence')
+
+    const { data: message } = await supabase
+      .from('messages')
+      .select('id, sender_id, content, created_at, conversation:conversations(homeowner_id, pro_id, job_id)')
+      .eq('id', messageId)
+      .single()
+
+    const conversation: any = Array.isArray(message?.conversation)
+      ? message?.conversation[0]
+      : message?.conversation
+
+    const belongsToParties = conversation &&
+      conversation.homeowner_id === dispute.homeowner_id &&
+      conversation.pro_id === dispute.contractor_id
+
+    if (!message || !belongsToParties) {
+      throw new EscrowError('Message must come from the conversation between the homeowner and contractor')
+    }
+
+    if (dispute.job_id && conversation.job_id !== dispute.job_id) {
+      throw new EscrowError('Message must come from the conversation about the disputed job')
+    }
+
+    row.message_id = message.id
+    // Snapshot the content so later edits or deletions do not change the evidence
+    row.content = message.content
+  } else if (type === 'note') {
+    if (!content?.trim()) throw new EscrowError('Missing content for note evidence')
+    row.content = content.trim()
+  } else if (type === 'visit_report') {
+    if (!dispute.job_id) throw new EscrowError('This payment is not linked to a job')
+
+    // Access was checked by the caller; the report covers the disputed job only
+    const report = await getVisitReport({ supabase, jobId: dispute.job_id, viewerId: userId, viewerIsAdmin: true })
+
+    if (!report.points.length) {
+      throw new EscrowError('No location history was recorded for this job', 404)
+    }
+
+    // Snapshot the report so later fixes do not change the evidence
+    row.content = describeVisit(report.summary)
+    row.visit_report = { summary: report.summary, geojson: toGeoJSON(report) }
+  } else {
+    throw new EscrowError('Invalid evidence type')
+  }
+
+  const { data: evidence, error } = await supabase
+    .from('dispute_evidence')
+    .insert(row)
+    .select()
+    .single()
+
+  if (error || !evidence) throw error || new EscrowError('Failed to save evidence', 500)
+
+  return evidence
+}
+
+/**
+ * Swap stored photo paths for short-lived signed URLs before returning
+ * evidence to a party or admin
+ */
+export async function signEvidenceUrls(
+  supabase: SupabaseClient,
+  evidence: DisputeEvidence[]
+): Promise<DisputeEvidence[]> {
+  return Promise.all(evidence.map(async (item) => {
+    if (!item.file_url) return item
+
+    const { data } = await supabase.storage
+      .from('dispute-evidence')
+      .createSignedUrl(item.file_url, 3600) // 1 hour expiry
+
+    return { ...item, file_url: data?.signedUrl || null }
+  }))
+}
+
+/**
+ * Resolve a dispute as a full release, a split, or a full refund.
+ * The decided amounts are saved on the dispute before any money moves; the
+ * hold is only unfrozen and the dispute marked resolved once Stripe succeeds,
+ * so a failed payout leaves the dispute open and the hold frozen, and the
+ * next attempt resumes the saved resolution instead of recomputing it.
+ * contractorAmount is the share kept for the contractor before the platform fee.
+ */
+export async function resolveDispute(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  dispute: PaymentDispute
+  adminId: string
+  resolution: DisputeResolution
+  contractorAmount?: number
+  rationale: string
+}): Promise<PaymentDispute> {
+  const { supabase, stripe, dispute, adminId, resolution, rationale } = params
+
+  if (!isDisputeActive(dispute)) {
+    throw new EscrowError('This dispute is already closed', 409)
+  }
+
+  const { data: hold, error: holdError } = await supabase
+    .from('payment_holds')
+    .select('*')
+    .eq('id', dispute.payment_hold_id)
+    .single()
+
+  if (holdError || !hold) {
+    throw new EscrowError('Payment hold not found', 404)
+  }
+
+  const refundable = Math.round((Number(hold.amount) - Number(hold.refunded_amount || 0)) * 100) / 100
+  let contractorAmount = 0
+  let refundAmount = 0
+
+  if (dispute.resolution) {
+    // An earlier attempt failed part-way: finish what was decided then
+    if (resolution !== dispute.resolution) {
+      throw new EscrowError(`This dispute is already being resolved as a ${dispute.resolution}`, 409)
+    }
+    contractorAmount = Number(dispute.contractor_amount || 0)
+    refundAmount = Number(dispute.refund_amount || 0)
+  } else if (resolution === 'release') {
+    contractorAmount = refundable
+  } else if (resolution === 'refund') {
+    refundAmount = refundable
+  } else if (resolution === 'split') {
+    contractorAmount = Math.round(Number(params.contractorAmount) * 100) / 100
+    if (!(contractorAmount > 0 && contractorAmount < refundable)) {
+      throw new EscrowError(`Contractor amount must be between $0.01 and $${(refundable - 0.01).toFixed(2)}`)
+    }
+    refundAmount = Math.round((refundable - contractorAmount) * 100) / 100
+  } else {
+    throw new EscrowError('Invalid resolution')
+  }
+
+  // Check the payout can go through before moving any money
+  if (contractorAmount > 0) {
+    if (!['captured', 'partial_refund', 'released'].includes(hold.status)) {
+      throw new EscrowError(`Payment must be captured before it can be released (status: ${hold.status})`, 409)
+    }
+
+    const { data: connectAccount } = await supabase
+      .from('stripe_connect_accounts')
+      .select('payouts_enabled')
+      .eq('contractor_id', hold.contractor_id)
+      .maybeSingle()
+
+    if (!connectAccount?.payouts_enabled) {
+      throw new EscrowError('Contractor has not completed Stripe Connect onboarding')
+    }
+  }
+
+  // 1. Save the decision so a retry resumes it
+  if (!dispute.resolution) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('payment_disputes')
+      .update({
+        resolution,
+        contractor_amount: contractorAmount,
+        refund_amount: refundAmount,
+        resolution_rationale: rationale
+      })
+      .eq('id', dispute.id)
+      .is('resolution', null)
+      .select('id')
+
+    if (claimError) throw claimError
+    if (!claimed?.length) {
+      throw new EscrowError('This dispute is already being resolved', 409)
+    }
+  }
+
+  // 2. Refund the homeowner's share, unless an earlier attempt already did
+  const refundIssued = ['cancelled', 'refunded'].includes(hold.status) || refundable <= contractorAmount
+
+  if (refundAmount > 0 && !refundIssued) {
+    await refundPaymentHold({
+      supabase,
+      stripe,
+      hold,
+      amount: Math.round((refundable - contractorAmount) * 100) / 100,
+      reason: `Dispute resolution: ${rationale}`,
+      initiatedBy: adminId,
+      initiator: 'admin',
+      disputeId: dispute.id
+    })
+  }
+
+  // 3. Pay the contractor from what is left (payout is recomputed by the refund)
+  if (contractorAmount > 0) {
+    const { data: remainingHold, error: remainingError } = await supabase
+      .from('payment_holds')
+      .select('*')
+      .eq('id', hold.id)
+      .single()
+
+    if (remainingError || !remainingHold) {
+      throw remainingError || new EscrowError('Payment hold not found', 404)
+    }
+
+    if (!(remainingHold.status === 'released' && remainingHold.stripe_transfer_id)) {
+      await releasePaymentHold({ supabase, stripe, hold: remainingHold, disputeId: dispute.id })
+    }
+  }
+
+  // 4. The money has moved: unfreeze, and record the admin's decision as both confirmations
+  const now = new Date().toISOString()
+  const holdUpdate: Record<string, any> = { escrow_frozen: false, active_dispute_id: null }
+
+  if (contractorAmount > 0) {
+    Object.assign(holdUpdate, {
+      homeowner_confirmed_complete: true,
+      contractor_confirmed_complete: true,
+      homeowner_confirmed_at: hold.homeowner_confirmed_at || now,
+      contractor_confirmed_at: hold.contractor_confirmed_at || now
+    })
+  }
+
+  const { error: updateError } = await supabase
+    .from('payment_holds')
+    .update(holdUpdate)
+    .eq('id', hold.id)
+
+  if (updateError) throw updateError
+
+  if (contractorAmount > 0 && hold.job_id) {
+    await supabase
+      .from('homeowner_jobs')
+      .update({ status: 'completed', payment_status: 'released' })
+      .eq('id', hold.job_id)
+  }
+
+  // 5. Close the dispute
+  const { data: resolved, error: resolveError } = await supabase
+    .from('payment_disputes')
+    .update({
+      status: 'resolved',
+      resolution,
+      contractor_amount: contractorAmount,
+      refund_amount: refundAmount,
+      resolution_rationale: rationale,
+      resolved_by: adminId,
+      resolved_at: now
+    })
+    .eq('id', dispute.id)
+    .select()
+    .single()
+
+  if (resolveError || !resolved) throw resolveError || new EscrowError('Failed to close dispute', 500)
+
+  await notifyDisputeParties(supabase, resolved, hold)
+
+  return resolved
+}
+
+async function notifyDisputeParties(supabase: SupabaseClient, dispute: PaymentDispute, hold: any) {
+  const outcome = dispute.resolution === 'release'
+    ? 'Payment released to the contractor.'
+    : dispute.resolution === 'refund'
+      ? 'Payment refunded to the homeowner.'
+      : `$${Number(dispute.refund_amount).toFixed(2)} refunded, $${Number(dispute.contractor_amount).toFixed(2)} released to the contractor (before platform fees).`
+
+  // In-app to both parties, per their settings (non-blocking); the emails are
+  // queued by the payment_disputes trigger when the dispute is resolved
+  try {
+    for (const userId of [dispute.homeowner_id, dispute.contractor_id]) {
+      await dispatchNotification(supabase, {
+        userId,
+        event: 'dispute_update',
+        jobId: dispute.job_id,
+        inApp: {
+          type: 'info',
+          title: 'Dispute Resolved',
+          message: `${outcome} ${dispute.resolution_rationale}`,
+          job_id: dispute.job_id,
+          bid_id: hold.bid_id
+        }
+      })
+    }
+  } catch (notifyError) {
+    console.error('Failed to send dispute resolution notifications:', notifyError)
+  }
+}
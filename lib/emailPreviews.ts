@@ -0,0 +1,248 @@
+/**
+ * Sample data for every EmailType, rendered by /api/email-preview so copy and
+ * templates can be checked without triggering the real flow. Each preview
+ * calls the same notify* function production uses, with made-up values.
+ *
+ * The map is keyed by EmailType, so adding a type without a preview is a
+ * compile error. null marks a type that has no email yet.
+ */
+
+import {
+  EmailType,
+  notifyBidAccepted,
+  notifyBidReceived,
+  notifyConfirmCompletionReminder,
+  notifyDisputeResolved,
+  notifyKYCRefused,
+  notifyKycDocumentExpiring,
+  notifyNewJob,
+  notifyOnboardingConfirmation,
+  notifyPasswordReset,
+  notifyPaymentCompleted,
+  notifySignalDigest,
+  notifySignalMatches,
+  notifySubscriptionPaymentFailed,
+  notifySupportTicketReceived,
+  notifySupportTicketReply,
+  notifyWorkCompleted,
+  notifyWorkStarted
+} from './emailService'
+
+export interface EmailPreview {
+  description: string
+  render: () => Promise<unknown>
+}
+
+const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+const homeowner = { email: 'jordan.homeowner@example.com', name: 'Jordan Lee', phone: '(555) 201-4477' }
+const contractor = { email: 'sam.contractor@example.com', name: 'Sam Rivera' }
+const signal = {
+  title: 'HVAC violation at 1880 Grand Concourse',
+  category: 'HVAC',
+  location: 'Bronx, NY 10457',
+  urgencyScore: 88,
+  estimatedValue: null,
+  url: `${SITE_URL}/dashboard/contractor/signals?signal=sample-1`
+}
+const job = { title: 'Burst pipe under kitchen sink', category: 'Plumbing', address: '42 Elm Street, Springfield' }
+
+export const EMAIL_PREVIEWS: Record<EmailType, EmailPreview | null> = {
+  bid_received: {
+    description: 'Homeowner receives a bid',
+    render: () => notifyBidReceived({
+      homeownerEmail: homeowner.email,
+      homeownerName: homeowner.name,
+      contractorName: contractor.name,
+      jobTitle: job.title,
+      bidAmount: 185,
+      estimatedArrival: '45 minutes'
+    })
+  },
+  job_posted: {
+    description: 'Contractor hears about a new job nearby',
+    render: () => notifyNewJob({
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      jobTitle: job.title,
+      jobCategory: job.category,
+      jobAddress: job.address,
+      homeownerPhone: homeowner.phone
+    })
+  },
+  bid_accepted: {
+    description: 'Contractor learns their bid was accepted',
+    render: () => notifyBidAccepted({
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      jobTitle: job.title,
+      homeownerName: homeowner.name,
+      homeownerPhone: homeowner.phone,
+      jobAddress: job.address
+    })
+  },
+  payment_completed: {
+    description: 'Escrow released, sent to both parties',
+    render: () => notifyPaymentCompleted({
+      homeownerEmail: homeowner.email,
+      homeownerName: homeowner.name,
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      jobTitle: job.title,
+      amount: 185
+    })
+  },
+  work_started: {
+    description: 'Work has started, sent to both parties',
+    render: () => notifyWorkStarted({
+      homeownerEmail: homeowner.email,
+      homeownerName: homeowner.name,
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      jobTitle: job.title,
+      estimatedCompletion: '2 hours'
+    })
+  },
+  work_completed: {
+    description: 'Work is complete, sent to both parties',
+    render: () => notifyWorkCompleted({
+      homeownerEmail: homeowner.email,
+      homeownerName: homeowner.name,
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      jobTitle: job.title
+    })
+  },
+  // Cancellations only create in-app notifications so far
+  job_cancelled: null,
+  kyc_refused: {
+    description: 'Contractor identity verification declined',
+    render: () => notifyKYCRefused({
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      caseId: 'KYC-20931',
+      decisionDate: 'March 3, 2025',
+      reasonPrimary: 'Document image is unreadable',
+      reasonDetails: 'The photo of your driver\'s license is blurry and the expiry date cannot be read.',
+      requestedDocuments: 'A clear photo of the front and back of a government-issued ID'
+    })
+  },
+  onboarding_confirmation: {
+    description: 'New account, finish setting up',
+    render: () => notifyOnboardingConfirmation({
+      userEmail: homeowner.email,
+      userName: homeowner.name,
+      onboardingUrl: `${SITE_URL}/onboarding?token=sample`
+    })
+  },
+  password_reset: {
+    description: 'Password reset link',
+    render: () => notifyPasswordReset({
+      userEmail: homeowner.email,
+      userName: homeowner.name,
+      resetUrl: `${SITE_URL}/reset-password?token=sample`,
+      ipAddress: '203.0.113.24',
+      city: 'Springfield, IL',
+      device: 'Safari on iPhone',
+      requestTime: 'March 3, 2025 at 9:41 AM'
+    })
+  },
+  support_ticket: {
+    description: 'Support request received',
+    render: () => notifySupportTicketReceived({
+      userEmail: homeowner.email,
+      userName: homeowner.name,
+      ticketId: 'T-1042',
+      ticketSubject: 'Contractor did not show up',
+      ticketPriority: 'high',
+      ticketStatus: 'open'
+    })
+  },
+  support_reply: {
+    description: 'Support replied to a ticket',
+    render: () => notifySupportTicketReply({
+      recipientEmail: homeowner.email,
+      recipientName: homeowner.name,
+      ticketId: 'T-1042',
+      ticketSubject: 'Contractor did not show up',
+      ticketStatus: 'in_progress',
+      replyPreview: 'Sorry about that! We have contacted the contractor and will update you within the hour.',
+      fromSupport: true
+    })
+  },
+  dispute_resolved: {
+    description: 'Dispute outcome, homeowner copy',
+    render: () => notifyDisputeResolved({
+      recipientEmail: homeowner.email,
+      recipientName: homeowner.name,
+      recipientRole: 'homeowner',
+      jobTitle: job.title,
+      resolution: 'split',
+      contractorAmount: 120,
+      refundAmount: 65,
+      rationale: 'The leak was stopped but the cabinet repair was not finished.'
+    })
+  },
+  confirm_completion_reminder: {
+    description: 'Homeowner reminded to confirm before auto-release',
+    render: () => notifyConfirmCompletionReminder({
+      homeownerEmail: homeowner.email,
+      homeownerName: homeowner.name,
+      contractorName: contractor.name,
+      jobTitle: job.title,
+      amount: 185,
+      autoReleaseAt: 'March 6, 2025'
+    })
+  },
+  kyc_document_expiring: {
+    description: 'Contractor reminded to renew an expiring license or insurance',
+    render: () => notifyKycDocumentExpiring({
+      recipientEmail: contractor.email,
+      recipientName: contractor.name,
+      documentLabel: 'Certificate of Insurance',
+      expiresOn: '2025-04-02',
+      daysLeft: 30,
+      reviewUrl: `${SITE_URL}/pro/kyc`
+    })
+  },
+  signal_alert: {
+    description: 'Contractor alerted to a new signal matching their subscription',
+    render: () => notifySignalMatches({
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      signals: [signal],
+      signalsUrl: `${SITE_URL}/dashboard/contractor/signals`
+    })
+  },
+  signal_digest: {
+    description: "Contractor's daily summary of matched signals",
+    render: () => notifySignalDigest({
+      contractorEmail: contractor.email,
+      contractorName: contractor.name,
+      signals: [
+        signal,
+        {
+          title: 'Plumbing permit issued at 145 East 19 Street',
+          category: 'Plumbing',
+          location: 'Brooklyn, NY 11226',
+          urgencyScore: 58,
+          estimatedValue: 18500,
+          url: `${SITE_URL}/dashboard/contractor/signals?signal=sample-2`
+        }
+      ],
+      moreCount: 3,
+      signalsUrl: `${SITE_URL}/dashboard/contractor/signals`
+    })
+  },
+  subscription_payment_failed: {
+    description: 'Subscriber told their renewal payment failed',
+    render: () => notifySubscriptionPaymentFailed({
+      recipientEmail: contractor.email,
+      recipientName: contractor.name,
+      planName: 'Pro Plus',
+      amount: 99,
+      graceEndsAt: '2025-03-14T12:00:00Z',
+      billingUrl: `${SITE_URL}/dashboard/contractor/billing`
+    })
+  }
+}
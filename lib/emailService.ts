@@ -7,9 +7,17 @@
  * - Payment completed (to both)
  * - Work started/completed (to both)
  *
- * Uses Supabase Edge Function with Microsoft Exchange SMTP
+ * Emails are queued in the outbox (lib/outbox.ts) and delivered by its
+ * worker through the transport picked by EMAIL_TRANSPORT
+ * (lib/emailTransports.ts). The designed templates in supabase/*.html are
+ * rendered by lib/emailTemplates.ts; when an email has no text part, one is
+ * generated from its HTML.
  */
 
+import { AsyncLocalStorage } from 'async_hooks'
+import { QueueResult, enqueueMessage, getOutboxClient } from './outbox'
+import { htmlToText, renderEmailTemplate } from './emailTemplates'
+
 export type EmailType =
   | 'bid_received'          // Homeowner receives bid from contractor
   | 'job_posted'            // Contractor receives notification of new job
@@ -22,54 +30,74 @@ export type EmailType =
   | 'onboarding_confirmation' // New user onboarding confirmation
   | 'password_reset'        // Password reset request
   | 'support_ticket'        // Support ticket received confirmation
-
-interface EmailPayload {
+  | 'support_reply'         // New reply on a support ticket
+  | 'dispute_resolved'      // Both parties notified of a dispute outcome
+  | 'confirm_completion_reminder' // Homeowner reminded to confirm before auto-release
+  | 'kyc_document_expiring' // License or insurance on file is about to expire
+  | 'signal_alert'          // Contractor alerted to new signals matching a subscription
+  | 'signal_digest'         // Contractor's daily summary of matched signals
+  | 'subscription_payment_failed' // Subscriber's renewal payment failed
+
+export interface EmailPayload {
   to: string
   subject: string
   html: string
   text?: string
+  /** Emails with the same key are only sent once */
+  idempotencyKey?: string
+}
+
+const captureStore = new AsyncLocalStorage<EmailPayload[]>()
+
+/**
+ * Run a notify* function and collect the emails it would send instead of
+ * queueing them. Used by the email preview route.
+ */
+export async function captureEmails(run: () => Promise<unknown>): Promise<EmailPayload[]> {
+  const captured: EmailPayload[] = []
+  await captureStore.run(captured, run)
+  return captured
 }
 
 /**
- * Send an email notification using Supabase Edge Function with Microsoft Exchange SMTP
+ * Queue an email in the outbox; the outbox worker delivers it through the
+ * configured transport, retrying on failure
  */
-async function sendEmail(payload: EmailPayload): Promise<{ success: boolean; error?: string }> {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+export async function sendEmail(payload: EmailPayload): Promise<QueueResult> {
+  const text = payload.text || htmlToText(payload.html)
+  payload = { ...payload, text }
 
-  if (!supabaseUrl || !supabaseAnonKey) {
+  const captured = captureStore.getStore()
+  if (captured) {
+    captured.push(payload)
+    return { success: true }
+  }
+
+  const supabase = getOutboxClient()
+
+  if (!supabase) {
     console.error('[EMAIL] ❌ Supabase configuration missing')
     return { success: false, error: 'Email service not configured' }
   }
 
   try {
-    const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseAnonKey}`,
-      },
-      body: JSON.stringify({
-        to: payload.to,
-        subject: payload.subject,
-        html: payload.html,
-        text: payload.text || '',
-      }),
+    const messageId = await enqueueMessage({
+      supabase,
+      channel: 'email',
+      to: payload.to,
+      subject: payload.subject,
+      html: payload.html,
+      body: text,
+      idempotencyKey: payload.idempotencyKey
     })
 
-    const data = await response.json()
-
-    if (!response.ok) {
-      throw new Error(data.error || 'Failed to send email')
-    }
-
-    console.log('[EMAIL] ✅ Email sent successfully via Supabase SMTP:', {
+    console.log('[EMAIL] ✅ Email queued:', {
       subject: payload.subject,
       to: payload.to
     })
-    return { success: true }
+    return { success: true, messageId }
   } catch (err: any) {
-    console.error('[EMAIL] ❌ Failed to send email via Supabase SMTP:', {
+    console.error('[EMAIL] ❌ Failed to queue email:', {
       error: err.message,
       subject: payload.subject,
       to: payload.to
@@ -231,11 +259,16 @@ export async function notifyPaymentCompleted(params: {
   contractorName: string
   jobTitle: string
   amount: number
+  /** Email only this party; both when omitted */
+  recipient?: 'homeowner' | 'contractor'
+  /** Suffixed per party, so each is emailed once per key */
+  idempotencyKey?: string
 }) {
-  const { homeownerEmail, homeownerName, contractorEmail, contractorName, jobTitle, amount } = params
+  const { homeownerEmail, homeownerName, contractorEmail, contractorName, jobTitle, amount, recipient, idempotencyKey } = params
+  const results: { success: boolean; error?: string }[] = []
 
   // Email to homeowner
-  await sendEmail({
+  if (recipient !== 'contractor') results.push(await sendEmail({
     to: homeownerEmail,
     subject: `Payment Confirmed - "${jobTitle}"`,
     html: `
@@ -257,11 +290,12 @@ export async function notifyPaymentCompleted(params: {
         </p>
       </div>
     `,
-    text: `Payment confirmed: $${amount.toFixed(2)} for "${jobTitle}". ${contractorName} will begin work shortly.`
-  })
+    text: `Payment confirmed: $${amount.toFixed(2)} for "${jobTitle}". ${contractorName} will begin work shortly.`,
+    idempotencyKey: idempotencyKey && `${idempotencyKey}:homeowner`
+  }))
 
   // Email to contractor
-  await sendEmail({
+  if (recipient !== 'homeowner') results.push(await sendEmail({
     to: contractorEmail,
     subject: `Payment Received - "${jobTitle}"`,
     html: `
@@ -283,10 +317,11 @@ export async function notifyPaymentCompleted(params: {
         </p>
       </div>
     `,
-    text: `Payment received: $${amount.toFixed(2)} for "${jobTitle}" from ${homeownerName}. Start work and update job status.`
-  })
+    text: `Payment received: $${amount.toFixed(2)} for "${jobTitle}" from ${homeownerName}. Start work and update job status.`,
+    idempotencyKey: idempotencyKey && `${idempotencyKey}:contractor`
+  }))
 
-  return { success: true }
+  return results.find(r => !r.success) || { success: true }
 }
 
 /**
@@ -435,36 +470,25 @@ export async function notifyKYCRefused(params: {
   reasonPrimary: string
   reasonDetails: string
   requestedDocuments: string
+  reviewUrl?: string
 }) {
   const { contractorEmail, contractorName, caseId, decisionDate, reasonPrimary, reasonDetails, requestedDocuments } = params
 
-  // Read the HTML template
-  const fs = await import('fs/promises')
-  const path = await import('path')
-  const templatePath = path.join(process.cwd(), 'supabase', 'kyc-refused.html')
-  let html = await fs.readFile(templatePath, 'utf-8')
-
-  // Replace placeholders
-  const currentYear = new Date().getFullYear().toString()
-  const reviewUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/dashboard/contractor/kyc`
-
-  html = html
-    .replace(/{{user_name}}/g, contractorName)
-    .replace(/{{case_id}}/g, caseId)
-    .replace(/{{decision_date}}/g, decisionDate)
-    .replace(/{{kyc_reason_primary}}/g, reasonPrimary)
-    .replace(/{{kyc_reason_details}}/g, reasonDetails)
-    .replace(/{{requested_documents}}/g, requestedDocuments)
-    .replace(/{{review_url}}/g, reviewUrl)
-    .replace(/{{year}}/g, currentYear)
-
-  const subject = `Identity Verification Update - Case #${caseId}`
+  const { html, text } = await renderEmailTemplate('kyc-refused', {
+    user_name: contractorName,
+    case_id: caseId,
+    decision_date: decisionDate,
+    kyc_reason_primary: reasonPrimary,
+    kyc_reason_details: reasonDetails,
+    requested_documents: requestedDocuments,
+    review_url: params.reviewUrl || `${process.env.NEXT_PUBLIC_SITE_URL}/pro/kyc`
+  })
 
   return sendEmail({
     to: contractorEmail,
-    subject,
+    subject: `Identity Verification Update - Case #${caseId}`,
     html,
-    text: `Hi ${contractorName}, We were unable to verify your identity (Case #${caseId}). Reason: ${reasonPrimary}. ${reasonDetails}. Please review and resubmit at ${reviewUrl}`
+    text
   })
 }
 
@@ -478,27 +502,16 @@ export async function notifyOnboardingConfirmation(params: {
 }) {
   const { userEmail, userName, onboardingUrl } = params
 
-  // Read the HTML template
-  const fs = await import('fs/promises')
-  const path = await import('path')
-  const templatePath = path.join(process.cwd(), 'supabase', 'onboarding-confirmation.html')
-  let html = await fs.readFile(templatePath, 'utf-8')
-
-  // Replace placeholders
-  const currentYear = new Date().getFullYear().toString()
-
-  html = html
-    .replace(/{{user_name}}/g, userName)
-    .replace(/{{onboarding_url}}/g, onboardingUrl)
-    .replace(/{{year}}/g, currentYear)
-
-  const subject = `Welcome to Rushr - Complete Your Setup`
+  const { html, text } = await renderEmailTemplate('onboarding-confirmation', {
+    user_name: userName,
+    onboarding_url: onboardingUrl
+  })
 
   return sendEmail({
     to: userEmail,
-    subject,
+    subject: `Welcome to Rushr - Complete Your Setup`,
     html,
-    text: `Hi ${userName}, Welcome to Rushr! Your account has been created. Complete your setup at ${onboardingUrl} (expires in 60 minutes).`
+    text
   })
 }
 
@@ -516,28 +529,20 @@ export async function notifyPasswordReset(params: {
 }) {
   const { userEmail, userName, resetUrl, ipAddress, city, device, requestTime } = params
 
-  // Read the HTML template
-  const fs = await import('fs/promises')
-  const path = await import('path')
-  const templatePath = path.join(process.cwd(), 'supabase', 'password-reset.html')
-  let html = await fs.readFile(templatePath, 'utf-8')
-
-  // Replace placeholders
-  html = html
-    .replace(/{{user_name}}/g, userName)
-    .replace(/{{reset_url}}/g, resetUrl)
-    .replace(/{{ip_address}}/g, ipAddress)
-    .replace(/{{city}}/g, city)
-    .replace(/{{device}}/g, device)
-    .replace(/{{request_time}}/g, requestTime)
-
-  const subject = `Reset Your Rushr Password`
+  const { html, text } = await renderEmailTemplate('password-reset', {
+    user_name: userName,
+    reset_url: resetUrl,
+    ip_address: ipAddress,
+    city,
+    device,
+    request_time: requestTime
+  })
 
   return sendEmail({
     to: userEmail,
-    subject,
+    subject: `Reset Your Rushr Password`,
     html,
-    text: `Hi ${userName}, We received a request to reset your password. Reset your password at ${resetUrl} (expires in 60 minutes). If you didn't request this, please contact support@userushr.com`
+    text
   })
 }
 
@@ -554,30 +559,72 @@ export async function notifySupportTicketReceived(params: {
 }) {
   const { userEmail, userName, ticketId, ticketSubject, ticketPriority, ticketStatus } = params
 
-  // Read the HTML template
-  const fs = await import('fs/promises')
-  const path = await import('path')
-  const templatePath = path.join(process.cwd(), 'supabase', 'support-ticket.html')
-  let html = await fs.readFile(templatePath, 'utf-8')
+  const { html, text } = await renderEmailTemplate('support-ticket', {
+    user_name: userName,
+    ticket_id: ticketId,
+    ticket_subject: ticketSubject,
+    ticket_priority: ticketPriority,
+    ticket_status: ticketStatus,
+    ticket_url: `${process.env.NEXT_PUBLIC_SITE_URL}/support/tickets/${ticketId}`
+  })
 
-  // Replace placeholders
-  const ticketUrl = `${process.env.NEXT_PUBLIC_SITE_URL}/support/tickets/${ticketId}`
+  return sendEmail({
+    to: userEmail,
+    subject: `Support Ticket Received - #${ticketId}`,
+    html,
+    text
+  })
+}
 
-  html = html
-    .replace(/{{user_name}}/g, userName)
-    .replace(/{{ticket_id}}/g, ticketId)
-    .replace(/{{ticket_subject}}/g, ticketSubject)
-    .replace(/{{ticket_priority}}/g, ticketPriority)
-    .replace(/{{ticket_status}}/g, ticketStatus)
-    .replace(/{{ticket_url}}/g, ticketUrl)
+/**
+ * Notify the other side of a support ticket about a new reply
+ */
+export async function notifySupportTicketReply(params: {
+  recipientEmail: string
+  recipientName: string
+  ticketId: string
+  ticketSubject: string
+  ticketStatus: string
+  replyPreview: string
+  fromSupport: boolean
+}) {
+  const { recipientEmail, recipientName, ticketId, ticketSubject, ticketStatus, replyPreview, fromSupport } = params
+
+  const ticketUrl = fromSupport
+    ? `${process.env.NEXT_PUBLIC_SITE_URL}/support/tickets/${ticketId}`
+    : `${process.env.NEXT_PUBLIC_SITE_URL}/dashboard/admin/support?ticket=${ticketId}`
+  const heading = fromSupport ? 'Rushr Support replied to your ticket' : 'New reply on an assigned ticket'
+
+  const subject = `Re: ${ticketSubject} [Ticket #${ticketId.slice(0, 8)}]`
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #10B981;">${heading}</h2>
+      <p>Hi ${recipientName},</p>
+
+      <div style="background: #F3F4F6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 5px 0;"><strong>Ticket:</strong> ${ticketSubject}</p>
+        <p style="margin: 5px 0;"><strong>Status:</strong> ${ticketStatus}</p>
+        <p style="margin: 15px 0 5px; color: #374151; white-space: pre-wrap;">${replyPreview}</p>
+      </div>
+
+      <p>
+        <a href="${ticketUrl}"
+           style="background: #10B981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          View Ticket
+        </a>
+      </p>
 
-  const subject = `Support Ticket Received - #${ticketId}`
+      <p style="color: #6B7280; font-size: 14px; margin-top: 30px;">
+        Please reply from the ticket page so the whole conversation stays in one place.
+      </p>
+    </div>
+  `
 
   return sendEmail({
-    to: userEmail,
+    to: recipientEmail,
     subject,
     html,
-    text: `Hi ${userName}, We've received your support request. Ticket #${ticketId}: ${ticketSubject}. Priority: ${ticketPriority}. Status: ${ticketStatus}. View at ${ticketUrl}`
+    text: `Hi ${recipientName}, ${heading}: "${ticketSubject}" (${ticketStatus}). ${replyPreview} View at ${ticketUrl}`
   })
 }
 
@@ -820,3 +867,314 @@ export async function notifyCustomOffer(params: {
     text: `Hi ${contractorName}, ${homeownerName} sent you a direct job offer for "${jobTitle}" - $${offeredAmount.toFixed(2)}. ${jobDescription}. View at ${process.env.NEXT_PUBLIC_SITE_URL}/dashboard/contractor/offers`
   })
 }
+
+/**
+ * Notify one party when an admin resolves a payment dispute
+ */
+export async function notifyDisputeResolved(params: {
+  recipientEmail: string
+  recipientName: string
+  recipientRole: 'homeowner' | 'contractor'
+  jobTitle: string
+  resolution: 'release' | 'split' | 'refund'
+  contractorAmount: number
+  refundAmount: number
+  rationale: string
+}) {
+  const { recipientEmail, recipientName, recipientRole, jobTitle, resolution, contractorAmount, refundAmount, rationale } = params
+
+  const outcome = resolution === 'release'
+    ? 'The payment has been released to the contractor in full.'
+    : resolution === 'refund'
+      ? 'The payment has been refunded to the homeowner in full.'
+      : `The payment has been split: $${refundAmount.toFixed(2)} refunded to the homeowner and $${contractorAmount.toFixed(2)} released to the contractor (before platform fees).`
+
+  const dashboardPath = recipientRole === 'homeowner' ? '/dashboard/homeowner/jobs' : '/dashboard/contractor/jobs'
+  const color = recipientRole === 'homeowner' ? '#10B981' : '#2563EB'
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: ${color};">Dispute Resolved</h2>
+      <p>Hi ${recipientName},</p>
+      <p>Our team has reviewed the dispute for <strong>"${jobTitle}"</strong>.</p>
+
+      <div style="background: #F3F4F6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 5px 0;"><strong>Outcome:</strong> ${outcome}</p>
+        <p style="margin: 5px 0;"><strong>Rationale:</strong></p>
+        <p style="margin: 5px 0; color: #6B7280;">${rationale}</p>
+      </div>
+
+      <p>
+        <a href="${process.env.NEXT_PUBLIC_SITE_URL}${dashboardPath}"
+           style="background: ${color}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          View Job
+        </a>
+      </p>
+
+      <p style="color: #6B7280; font-size: 14px; margin-top: 30px;">
+        Questions about this decision? Reply to this email or contact support@userushr.com
+      </p>
+    </div>
+  `
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: `Dispute Resolved - "${jobTitle}"`,
+    html,
+    text: `Hi ${recipientName}, dispute resolved for "${jobTitle}". ${outcome} Rationale: ${rationale}`
+  })
+}
+
+/**
+ * Remind a homeowner to confirm completion before escrow is auto-released
+ */
+export async function notifyConfirmCompletionReminder(params: {
+  homeownerEmail: string
+  homeownerName: string
+  contractorName: string
+  jobTitle: string
+  amount: number
+  autoReleaseAt: string
+}) {
+  const { homeownerEmail, homeownerName, contractorName, jobTitle, amount, autoReleaseAt } = params
+  const releaseDate = new Date(autoReleaseAt).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  })
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #F59E0B;">Please Confirm Job Completion</h2>
+      <p>Hi ${homeownerName},</p>
+      <p><strong>${contractorName}</strong> has marked <strong>"${jobTitle}"</strong> as complete.</p>
+
+      <div style="background: #F3F4F6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 5px 0;"><strong>Amount held in escrow:</strong> $${amount.toFixed(2)}</p>
+        <p style="margin: 5px 0;"><strong>Automatic release:</strong> ${releaseDate}</p>
+      </div>
+
+      <p>If the work is done, confirm completion now. If something is wrong, open a dispute before the automatic release to keep the payment on hold.</p>
+
+      <p>
+        <a href="${process.env.NEXT_PUBLIC_SITE_URL}/dashboard/homeowner/jobs"
+           style="background: #F59E0B; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Review Job
+        </a>
+      </p>
+
+      <p style="color: #6B7280; font-size: 14px; margin-top: 30px;">
+        Questions? Reply to this email or contact support@userushr.com
+      </p>
+    </div>
+  `
+
+  return sendEmail({
+    to: homeownerEmail,
+    subject: `Confirm completion of "${jobTitle}"`,
+    html,
+    text: `Hi ${homeownerName}, ${contractorName} marked "${jobTitle}" as complete. Confirm completion or open a dispute before ${releaseDate}, when $${amount.toFixed(2)} will be released automatically.`
+  })
+}
+
+/**
+ * Remind a user that a license or insurance certificate on file expires soon
+ */
+export async function notifyKycDocumentExpiring(params: {
+  recipientEmail: string
+  recipientName: string
+  documentLabel: string
+  expiresOn: string
+  daysLeft: number
+  reviewUrl: string
+}) {
+  const { recipientEmail, recipientName, documentLabel, expiresOn, daysLeft, reviewUrl } = params
+  const expiryDate = new Date(`${expiresOn}T00:00:00`).toLocaleDateString('en-US', { dateStyle: 'long' })
+  const when = daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #F59E0B;">Your ${documentLabel} Expires Soon</h2>
+      <p>Hi ${recipientName},</p>
+      <p>The <strong>${documentLabel}</strong> on file with Rushr expires ${when}.</p>
+
+      <div style="background: #F3F4F6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 5px 0;"><strong>Expiry date:</strong> ${expiryDate}</p>
+      </div>
+
+      <p>Upload the renewed document before then. Once it expires your verification is paused until a new one is approved.</p>
+
+      <p>
+        <a href="${reviewUrl}"
+           style="background: #F59E0B; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Upload Renewal
+        </a>
+      </p>
+
+      <p style="color: #6B7280; font-size: 14px; margin-top: 30px;">
+        Questions? Reply to this email or contact support@userushr.com
+      </p>
+    </div>
+  `
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: `Your ${documentLabel} expires ${when}`,
+    html,
+    text: `Hi ${recipientName}, the ${documentLabel} on file with Rushr expires on ${expiryDate}. Upload the renewed document at ${reviewUrl} to keep your verification active.`
+  })
+}
+
+export interface SignalEmailItem {
+  title: string
+  category: string | null
+  location: string
+  urgencyScore: number
+  estimatedValue: number | null
+  url: string
+}
+
+function signalListHtml(signals: SignalEmailItem[]): string {
+  return signals.map(signal => `
+        <div style="background: #F3F4F6; padding: 16px 20px; border-radius: 8px; margin: 12px 0;">
+          <p style="margin: 0 0 6px 0;"><a href="${signal.url}" style="color: #1D4ED8; font-weight: bold; text-decoration: none;">${signal.title}</a></p>
+          <p style="margin: 0; color: #4B5563; font-size: 14px;">
+            ${[signal.category, signal.location].filter(Boolean).join(' &middot; ')}
+            &middot; Urgency ${signal.urgencyScore}/100${signal.estimatedValue ? ` &middot; Est. $${signal.estimatedValue.toLocaleString('en-US')}` : ''}
+          </p>
+        </div>`).join('')
+}
+
+function signalListText(signals: SignalEmailItem[]): string {
+  return signals.map(signal => `- ${signal.title} (${[signal.category, signal.location].filter(Boolean).join(', ')}) ${signal.url}`).join('\n')
+}
+
+/**
+ * Alert a contractor to new signals matching one of their subscriptions
+ */
+export async function notifySignalMatches(params: {
+  contractorEmail: string
+  contractorName: string
+  signals: SignalEmailItem[]
+  signalsUrl: string
+}) {
+  const { contractorEmail, contractorName, signals, signalsUrl } = params
+  const single = signals.length === 1
+  const heading = single ? 'New Signal in Your Area' : `${signals.length} New Signals in Your Area`
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563EB;">${heading}</h2>
+      <p>Hi ${contractorName},</p>
+      <p>${single ? 'A new signal matches' : 'New signals match'} your subscription. Reach out early to win the work.</p>
+      ${signalListHtml(signals)}
+      <p>
+        <a href="${single ? signals[0].url : signalsUrl}"
+           style="background: #2563EB; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          ${single ? 'View Signal' : 'View Signals'}
+        </a>
+      </p>
+
+      <p style="color: #6B7280; font-size: 14px; margin-top: 30px;">
+        Change what you are alerted about in your signal subscriptions: ${signalsUrl}
+      </p>
+    </div>
+  `
+
+  return sendEmail({
+    to: contractorEmail,
+    subject: single ? `New signal: ${signals[0].title}` : `${signals.length} new signals match your subscription`,
+    html,
+    text: `Hi ${contractorName}, ${single ? 'a new signal matches' : `${signals.length} new signals match`} your subscription:\n${signalListText(signals)}`
+  })
+}
+
+/**
+ * Send a contractor the day's matched signals
+ */
+export async function notifySignalDigest(params: {
+  contractorEmail: string
+  contractorName: string
+  signals: SignalEmailItem[]
+  /** Matches beyond those listed */
+  moreCount: number
+  signalsUrl: string
+}) {
+  const { contractorEmail, contractorName, signals, moreCount, signalsUrl } = params
+  const total = signals.length + moreCount
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563EB;">Your Daily Signals</h2>
+      <p>Hi ${contractorName},</p>
+      <p>${total === 1 ? '1 signal' : `${total} signals`} matched your subscriptions in the last day, most urgent first.</p>
+      ${signalListHtml(signals)}
+      ${moreCount > 0 ? `<p style="color: #4B5563;">And ${moreCount} more.</p>` : ''}
+      <p>
+        <a href="${signalsUrl}"
+           style="background: #2563EB; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          View All Signals
+        </a>
+      </p>
+
+      <p style="color: #6B7280; font-size: 14px; margin-top: 30px;">
+        Turn off the daily digest in your signal subscriptions: ${signalsUrl}
+      </p>
+    </div>
+  `
+
+  return sendEmail({
+    to: contractorEmail,
+    subject: `Your daily signals: ${total} new ${total === 1 ? 'match' : 'matches'}`,
+    html,
+    text: `Hi ${contractorName}, ${total} signals matched your subscriptions in the last day:\n${signalListText(signals)}${moreCount > 0 ? `\nAnd ${moreCount} more at ${signalsUrl}` : ''}`
+  })
+}
+
+/**
+ * Tell a subscriber their renewal payment failed and when their plan
+ * features switch off
+ */
+export async function notifySubscriptionPaymentFailed(params: {
+  recipientEmail: string
+  recipientName: string
+  planName: string
+  amount: number
+  graceEndsAt: string
+  billingUrl: string
+}) {
+  const { recipientEmail, recipientName, planName, amount, graceEndsAt, billingUrl } = params
+  const graceDate = new Date(graceEndsAt).toLocaleDateString('en-US', { dateStyle: 'long' })
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #DC2626;">Your ${planName} Payment Failed</h2>
+      <p>Hi ${recipientName},</p>
+      <p>We couldn't charge your card for your <strong>${planName}</strong> renewal.</p>
+
+      <div style="background: #F3F4F6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 5px 0;"><strong>Amount due:</strong> $${amount.toFixed(2)}</p>
+        <p style="margin: 5px 0;"><strong>Features stay on until:</strong> ${graceDate}</p>
+      </div>
+
+      <p>We'll retry the payment automatically. Update your card before ${graceDate} to keep your ${planName} features.</p>
+
+      <p>
+        <a href="${billingUrl}"
+           style="background: #DC2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+          Update Payment Method
+        </a>
+      </p>
+
+      <p style="color: #6B7280; font-size: 14px; margin-top: 30px;">
+        Questions? Reply to this email or contact support@userushr.com
+      </p>
+    </div>
+  `
+
+  return sendEmail({
+    to: recipientEmail,
+    subject: `Action needed: your ${planName} payment failed`,
+    html,
+    text: `Hi ${recipientName}, we couldn't charge $${amount.toFixed(2)} for your ${planName} renewal. Update your payment method at ${billingUrl} before ${graceDate} to keep your ${planName} features.`
+  })
+}
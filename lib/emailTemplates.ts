@@ -0,0 +1,167 @@
+/**
+ * Email Template Engine for Rushr
+ *
+ * Renders the designed HTML emails in supabase/*.html. Each template's
+ * {{placeholders}} are typed in EmailTemplateVariables, so a missing or
+ * misspelled variable is a compile error rather than a literal "{{user_name}}"
+ * in someone's inbox. Values are HTML-escaped, {{year}} is filled in, and the
+ * text/plain part is generated from the rendered HTML.
+ */
+
+export interface EmailTemplateVariables {
+  'kyc-refused': {
+    user_name: string
+    case_id: string
+    decision_date: string
+    kyc_reason_primary: string
+    kyc_reason_details: string
+    requested_documents: string
+    review_url: string
+  }
+  'onboarding-confirmation': {
+    user_name: string
+    onboarding_url: string
+  }
+  'password-reset': {
+    user_name: string
+    reset_url: string
+    ip_address: string
+    city: string
+    device: string
+    request_time: string
+  }
+  'support-ticket': {
+    user_name: string
+    ticket_id: string
+    ticket_subject: string
+    ticket_priority: string
+    ticket_status: string
+    ticket_url: string
+  }
+}
+
+export type EmailTemplateName = keyof EmailTemplateVariables
+
+export interface RenderedEmail {
+  html: string
+  text: string
+}
+
+export class EmailTemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmailTemplateError'
+  }
+}
+
+const PLACEHOLDER = /{{\s*([a-z_]+)\s*}}/g
+
+const templateCache = new Map<EmailTemplateName, string>()
+
+async function loadTemplate(name: EmailTemplateName): Promise<string> {
+  const cached = templateCache.get(name)
+  if (cached) return cached
+
+  const fs = await import('fs/promises')
+  const path = await import('path')
+  const source = await fs.readFile(path.join(process.cwd(), 'supabase', `${name}.html`), 'utf-8')
+
+  // Re-read on every render in development so template edits show up in the preview
+  if (process.env.NODE_ENV === 'production') {
+    templateCache.set(name, source)
+  }
+
+  return source
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Render one of the supabase/*.html templates. Throws when the template uses a
+ * placeholder that was not supplied.
+ */
+export async function renderEmailTemplate<N extends EmailTemplateName>(
+  name: N,
+  variables: EmailTemplateVariables[N]
+): Promise<RenderedEmail> {
+  const source = await loadTemplate(name)
+  const values: Record<string, string> = {
+    year: new Date().getFullYear().toString(),
+    ...variables
+  }
+
+  const html = source.replace(PLACEHOLDER, (_match, key: string) => {
+    if (!(key in values)) {
+      throw new EmailTemplateError(`Template "${name}" uses {{${key}}} but no value was given`)
+    }
+    return escapeHtml(String(values[key]))
+  })
+
+  return { html, text: htmlToText(html) }
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  middot: '·',
+  bull: '•',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“'
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Plain-text version of an HTML email: drops head, styles, Outlook-only
+ * conditional blocks and hidden preheaders, keeps link targets, and turns
+ * block elements into line breaks.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script|title)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<(div|span)\b[^>]*display:\s*none[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const linkText = label.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()
+      if (!linkText) return href
+      if (decodeEntities(linkText) === decodeEntities(href).replace(/^mailto:/, '')) return linkText
+      return `${linkText} (${href})`
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|tr|table|h[1-6]|li|ul|ol)>/gi, '\n')
+    .replace(/<(p|h[1-6])\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
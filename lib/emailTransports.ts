@@ -0,0 +1,222 @@
+/**
+ * Email transports for Rushr
+ *
+ * The outbox worker hands every queued email to one EmailTransport, picked by
+ * EMAIL_TRANSPORT:
+ * - supabase (default): the send-email Supabase Edge Function
+ * - smtp: any SMTP server through nodemailer (SMTP_HOST, SMTP_PORT, SMTP_USER,
+ *   SMTP_PASS, SMTP_SECURE)
+ * - sendgrid: the SendGrid API (SENDGRID_API_KEY)
+ * - file: writes each email to EMAIL_SINK_DIR (default .mailbox/) as .html and
+ *   .json instead of sending it, for local development
+ * - console: logs the plain-text part
+ *
+ * EMAIL_FROM sets the sender for smtp and sendgrid; the Edge Function uses its
+ * own FROM_EMAIL secret. Tests use MemoryMailbox.
+ */
+
+import type { OutboundEmail, SendResult } from './messageTransports'
+
+export type EmailTransport = (message: OutboundEmail) => Promise<SendResult>
+
+export type EmailTransportName = 'supabase' | 'smtp' | 'sendgrid' | 'file' | 'console'
+
+const DEFAULT_FROM = 'Rushr <noreply@userushr.com>'
+
+function senderAddress(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM
+}
+
+/**
+ * Send through the send-email Supabase Edge Function (Microsoft Exchange SMTP)
+ */
+export async function sendViaEdgeFunction(message: OutboundEmail): Promise<SendResult> {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return { success: false, error: 'Email service not configured' }
+  }
+
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseAnonKey}`,
+      },
+      body: JSON.stringify({
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text || '',
+      }),
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      return { success: false, error: data.error || `send-email responded ${response.status}` }
+    }
+
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message }
+  }
+}
+
+// Lazy initialization so a missing SMTP config only fails when smtp is selected
+let smtpClient: import('nodemailer').Transporter | null = null
+
+async function getSmtpClient() {
+  const host = process.env.SMTP_HOST
+
+  if (!host) return null
+
+  if (!smtpClient) {
+    const nodemailer = (await import('nodemailer')).default
+    const port = Number(process.env.SMTP_PORT) || 587
+
+    smtpClient = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    })
+  }
+
+  return smtpClient
+}
+
+/**
+ * Send through an SMTP server with nodemailer
+ */
+export async function sendViaSmtp(message: OutboundEmail): Promise<SendResult> {
+  const client = await getSmtpClient()
+
+  if (!client) {
+    return { success: false, error: 'SMTP not configured' }
+  }
+
+  try {
+    await client.sendMail({
+      from: senderAddress(),
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text || undefined,
+    })
+
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'SMTP send failed' }
+  }
+}
+
+/**
+ * Send through the SendGrid API
+ */
+export async function sendViaSendGrid(message: OutboundEmail): Promise<SendResult> {
+  const apiKey = process.env.SENDGRID_API_KEY
+
+  if (!apiKey) {
+    return { success: false, error: 'SendGrid not configured' }
+  }
+
+  try {
+    const sendgrid = (await import('@sendgrid/mail')).default
+    sendgrid.setApiKey(apiKey)
+
+    await sendgrid.send({
+      from: senderAddress(),
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text || undefined,
+    })
+
+    return { success: true }
+  } catch (err: any) {
+    const detail = err.response?.body?.errors?.[0]?.message
+    return { success: false, error: detail || err.message || 'SendGrid send failed' }
+  }
+}
+
+/**
+ * Write the email to EMAIL_SINK_DIR instead of sending it. Open the .html file
+ * in a browser; the .json file has the recipient, subject and text part.
+ */
+export async function sendToFileSink(message: OutboundEmail): Promise<SendResult> {
+  try {
+    const fs = await import('fs/promises')
+    const path = await import('path')
+    const dir = path.resolve(process.cwd(), process.env.EMAIL_SINK_DIR || '.mailbox')
+    const slug = message.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60)
+    const base = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug || 'email'}`)
+
+    await fs.mkdir(dir, { recursive: true })
+    await fs.writeFile(`${base}.html`, message.html, 'utf-8')
+    await fs.writeFile(`${base}.json`, JSON.stringify({ from: senderAddress(), ...message }, null, 2), 'utf-8')
+
+    console.log(`[EMAIL] 📥 Wrote "${message.subject}" for ${message.to} to ${base}.html`)
+    return { success: true }
+  } catch (err: any) {
+    return { success: false, error: err.message || 'Failed to write email' }
+  }
+}
+
+/**
+ * Log the email instead of sending it
+ */
+export async function sendToConsole(message: OutboundEmail): Promise<SendResult> {
+  console.log(`[EMAIL] ✉️ To: ${message.to}\nSubject: ${message.subject}\n\n${message.text || message.html}`)
+  return { success: true }
+}
+
+/**
+ * In-memory sink for tests: pass mailbox.transport to processOutbox and
+ * inspect mailbox.messages afterwards
+ */
+export class MemoryMailbox {
+  messages: OutboundEmail[] = []
+
+  transport: EmailTransport = async (message) => {
+    this.messages.push(message)
+    return { success: true }
+  }
+
+  to(address: string): OutboundEmail[] {
+    return this.messages.filter(message => message.to === address)
+  }
+
+  clear() {
+    this.messages = []
+  }
+}
+
+export const EMAIL_TRANSPORTS: Record<EmailTransportName, EmailTransport> = {
+  supabase: sendViaEdgeFunction,
+  smtp: sendViaSmtp,
+  sendgrid: sendViaSendGrid,
+  file: sendToFileSink,
+  console: sendToConsole
+}
+
+/**
+ * The transport selected by EMAIL_TRANSPORT. Unknown names fall back to the
+ * Edge Function with a warning rather than silently dropping mail.
+ */
+export function getEmailTransport(name = process.env.EMAIL_TRANSPORT): EmailTransport {
+  if (!name) return sendViaEdgeFunction
+
+  const transport = EMAIL_TRANSPORTS[name as EmailTransportName]
+
+  if (!transport) {
+    console.warn(`⚠️ Unknown EMAIL_TRANSPORT "${name}", using the Supabase Edge Function`)
+    return sendViaEdgeFunction
+  }
+
+  return transport
+}
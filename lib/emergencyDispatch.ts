@@ -0,0 +1,684 @@
+/**
+ * Emergency Dispatch Cascade for Rushr
+ *
+ * Emergency jobs are offered ring by ring rather than broadcast:
+ * - Ring 1 goes to the best-matched contractors whose service area covers the
+ *   job (scored by lib/jobMatching.ts), at their peak rate
+ * - Each ring has an acknowledgement window; when it closes without an
+ *   acceptance (or everyone declines) the next ring goes out with a wider
+ *   radius, ignoring declared service areas, at surge_rate
+ * - The first contractor to accept gets an auto-accepted bid and the cascade
+ *   stops; if every ring is exhausted the homeowner is told
+ *
+ * Time comes from an injectable Clock and side effects from an injectable
+ * notifier, so a cascade can be stepped through with a ManualClock.
+ * /api/cron/emergency-dispatch advances due cascades every minute.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Clock, systemClock } from './clock'
+import { LifecycleError, OPEN_JOB_STATUSES, acceptBid } from './bidLifecycle'
+import { LaborRateType, defaultLineItems, laborRate, submitContractorBid } from './bids'
+import { MatchDecision, getJobMatchConfig, rankContractors } from './jobMatching'
+import { dispatchNotification } from './notificationDispatcher'
+import { sendSMS } from './smsService'
+
+export type DispatchStatus = 'searching' | 'accepted' | 'exhausted' | 'cancelled'
+export type OfferStatus = 'offered' | 'accepted' | 'declined' | 'expired' | 'superseded'
+
+export interface DispatchConfig {
+  /** Seconds each ring has to accept before escalating */
+  ackWindowSeconds: number
+  /** Search radius per ring in miles; the cascade has one ring per entry */
+  ringRadiiMiles: number[]
+  /** Contractors offered the job per ring */
+  ringSize: number
+  /** First ring priced at surge_rate */
+  surgeFromRing: number
+}
+
+export interface EmergencyDispatch {
+  id: string
+  job_id: string
+  homeowner_id: string
+  status: DispatchStatus
+  current_ring: number
+  current_radius_miles: number | null
+  ring_started_at: string | null
+  next_escalation_at: string | null
+  accepted_contractor_id: string | null
+  accepted_offer_id: string | null
+  accepted_at: string | null
+  finished_at: string | null
+}
+
+export interface DispatchOffer {
+  id: string
+  dispatch_id: string
+  job_id: string
+  contractor_id: string
+  ring: number
+  score: number | null
+  distance_miles: number | null
+  rate_type: LaborRateType
+  hourly_rate: number | null
+  status: OfferStatus
+  offered_at: string
+  expires_at: string
+  responded_at: string | null
+}
+
+/** Side effects of the cascade; replace in tests */
+export interface DispatchNotifier {
+  offerMade(offer: DispatchOffer, contractor: any, job: any): Promise<void>
+  dispatchAccepted(dispatch: EmergencyDispatch, contractor: any, job: any): Promise<void>
+  dispatchExhausted(dispatch: EmergencyDispatch, job: any): Promise<void>
+}
+
+export interface DispatchDeps {
+  supabase: SupabaseClient
+  clock?: Clock
+  config?: DispatchConfig
+  notifier?: DispatchNotifier
+}
+
+export interface DispatchTickSummary {
+  checked: number
+  escalated: number
+  exhausted: number
+  cancelled: number
+}
+
+export class DispatchError extends Error {
+  status: number
+
+  constructor(message: string, status = 409) {
+    super(message)
+    this.name = 'DispatchError'
+    this.status = status
+  }
+}
+
+/**
+ * Read the cascade settings from the environment.
+ * EMERGENCY_ACK_WINDOW_SECONDS defaults to 120, EMERGENCY_RING_RADII to
+ * "10,20,35", EMERGENCY_RING_SIZE to 3 and EMERGENCY_SURGE_FROM_RING to 2.
+ */
+export function getDispatchConfig(): DispatchConfig {
+  const ringRadiiMiles = (process.env.EMERGENCY_RING_RADII || '10,20,35')
+    .split(',')
+    .map(r => Number(r.trim()))
+    .filter(r => Number.isFinite(r) && r > 0)
+
+  return {
+    ackWindowSeconds: Number(process.env.EMERGENCY_ACK_WINDOW_SECONDS) || 120,
+    ringRadiiMiles: ringRadiiMiles.length > 0 ? ringRadiiMiles : [10, 20, 35],
+    ringSize: Number(process.env.EMERGENCY_RING_SIZE) || 3,
+    surgeFromRing: Number(process.env.EMERGENCY_SURGE_FROM_RING) || 2
+  }
+}
+
+export function rateTypeForRing(ring: number, config: DispatchConfig): LaborRateType {
+  return ring >= config.surgeFromRing ? 'surge' : 'peak'
+}
+
+function resolve(deps: DispatchDeps) {
+  return {
+    supabase: deps.supabase,
+    clock: deps.clock || systemClock,
+    config: deps.config || getDispatchConfig(),
+    notifier: deps.notifier || defaultNotifier(deps.supabase)
+  }
+}
+
+/**
+ * Notifications through the dispatcher, per each user's preferences. Offers
+ * ignore emergency_only (they are always emergencies) and are sent as
+ * emergencies, so they can break through quiet hours.
+ */
+export function defaultNotifier(supabase: SupabaseClient): DispatchNotifier {
+  const homeownerPhone = async (homeownerId: string) => {
+    const { data } = await supabase.from('user_profiles').select('phone').eq('id', homeownerId).maybeSingle()
+    return data?.phone as string | null | undefined
+  }
+
+  return {
+    async offerMade(offer, contractor, job) {
+      const minutes = Math.max(1, Math.round((new Date(offer.expires_at).getTime() - new Date(offer.offered_at).getTime()) / 60000))
+      const rate = offer.hourly_rate != null ? ` at $${offer.hourly_rate}/hr${offer.rate_type === 'surge' ? ' (surge)' : ''}` : ''
+      const title = '🚨 Emergency request - respond now'
+      const message = `${job.category || 'Emergency'} job "${job.title}"${rate}. Accept within ${minutes} min before it goes to the next pro.`
+
+      await dispatchNotification(supabase, {
+        userId: contractor.id,
+        event: 'emergency_request',
+        emergency: true,
+        inApp: { type: 'job_request_received', title, message, job_id: job.id },
+        sms: {
+          to: contractor.phone,
+          send: (to) => sendSMS({
+            to,
+            message: `RUSHR EMERGENCY: "${job.title}"${rate}. Accept within ${minutes} min at https://rushr-main.vercel.app/dashboard/contractor`,
+            idempotencyKey: `dispatch-offer:${offer.id}`
+          })
+        },
+        push: { title, body: message, link: '/dashboard/contractor' }
+      })
+    },
+
+    async dispatchAccepted(dispatch, contractor, job) {
+      const name = contractor.business_name || contractor.name || 'A contractor'
+
+      await dispatchNotification(supabase, {
+        userId: dispatch.homeowner_id,
+        event: 'emergency_update',
+        emergency: true,
+        inApp: {
+          type: 'bid_accepted',
+          title: '🚨 Help is on the way',
+          message: `${name} accepted your emergency request "${job.title}".`,
+          job_id: job.id
+        },
+        sms: {
+          to: await homeownerPhone(dispatch.homeowner_id),
+          send: (to) => sendSMS({
+            to,
+            message: `Rushr: ${name} accepted your emergency request "${job.title}" and is on the way.`,
+            idempotencyKey: `dispatch-accepted:${dispatch.id}`
+          })
+        }
+      })
+    },
+
+    async dispatchExhausted(dispatch, job) {
+      await dispatchNotification(supabase, {
+        userId: dispatch.homeowner_id,
+        event: 'emergency_update',
+        emergency: true,
+        inApp: {
+          type: 'warning',
+          title: 'No contractor available yet',
+          message: `Nobody nearby accepted "${job.title}" in time. Your job stays open for bids.`,
+          job_id: job.id
+        },
+        sms: {
+          to: await homeownerPhone(dispatch.homeowner_id),
+          send: (to) => sendSMS({
+            to,
+            message: `Rushr: nobody nearby accepted "${job.title}" in time. Your job stays open for bids.`,
+            idempotencyKey: `dispatch-exhausted:${dispatch.id}`
+          })
+        }
+      })
+    }
+  }
+}
+
+/**
+ * Start the cascade for an emergency job. Idempotent: an existing dispatch
+ * for the job is returned as is.
+ */
+export async function startDispatch(deps: DispatchDeps, jobId: string): Promise<EmergencyDispatch> {
+  const { supabase, clock } = resolve(deps)
+
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (!job) {
+    throw new DispatchError('Job not found', 404)
+  }
+
+  if (!OPEN_JOB_STATUSES.includes(job.status)) {
+    throw new DispatchError(`Job is ${job.status}`)
+  }
+
+  const { data: dispatch, error } = await supabase
+    .from('emergency_dispatches')
+    .insert({
+      job_id: jobId,
+      homeowner_id: job.homeowner_id,
+      status: 'searching',
+      current_ring: 0,
+      created_at: clock.now().toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      const { data: existing } = await supabase
+        .from('emergency_dispatches')
+        .select('*')
+        .eq('job_id', jobId)
+        .single()
+      return existing as EmergencyDispatch
+    }
+    throw error
+  }
+
+  return openNextRing(deps, dispatch as EmergencyDispatch, job)
+}
+
+/**
+ * Offer the job to the next ring that has candidates, or mark the dispatch
+ * exhausted when no rings are left
+ */
+async function openNextRing(deps: DispatchDeps, dispatch: EmergencyDispatch, job: any): Promise<EmergencyDispatch> {
+  const { supabase, clock, config, notifier } = resolve(deps)
+  const now = clock.now()
+
+  const { data: previousOffers } = await supabase
+    .from('dispatch_offers')
+    .select('contractor_id')
+    .eq('dispatch_id', dispatch.id)
+
+  const alreadyOffered = new Set((previousOffers || []).map(o => o.contractor_id))
+
+  const { data: contractors, error } = await supabase
+    .from('pro_contractors')
+    .select('*')
+    .eq('status', 'approved')
+
+  if (error) throw error
+
+  const candidates = (contractors || []).filter(c => !alreadyOffered.has(c.id))
+  const byId = new Map(candidates.map(c => [c.id, c]))
+
+  for (let ring = dispatch.current_ring + 1; ring <= config.ringRadiiMiles.length; ring++) {
+    const radius = config.ringRadiiMiles[ring - 1]
+    const ranked: MatchDecision[] = rankContractors(
+      job,
+      candidates,
+      { ...getJobMatchConfig(), maxDistanceMiles: radius },
+      { ignoreServiceArea: ring > 1 }
+    )
+    const picked = ranked.filter(d => d.rank && d.rank <= config.ringSize)
+
+    if (picked.length === 0) continue
+
+    // 1. Move the dispatch to this ring (guarded against concurrent ticks)
+    const expiresAt = new Date(now.getTime() + config.ackWindowSeconds * 1000)
+
+    const { data: updated } = await supabase
+      .from('emergency_dispatches')
+      .update({
+        current_ring: ring,
+        current_radius_miles: radius,
+        ring_started_at: now.toISOString(),
+        next_escalation_at: expiresAt.toISOString()
+      })
+      .eq('id', dispatch.id)
+      .eq('status', 'searching')
+      .eq('current_ring', dispatch.current_ring)
+      .select()
+
+    if (!updated || updated.length === 0) {
+      // Another worker moved it, or a contractor accepted meanwhile
+      const { data: current } = await supabase.from('emergency_dispatches').select('*').eq('id', dispatch.id).single()
+      return current as EmergencyDispatch
+    }
+
+    // 2. Create the offers
+    const rateType = rateTypeForRing(ring, config)
+
+    const { data: offers, error: offerError } = await supabase
+      .from('dispatch_offers')
+      .insert(picked.map(d => ({
+        dispatch_id: dispatch.id,
+        job_id: job.id,
+        contractor_id: d.contractorId,
+        ring,
+        score: d.score,
+        distance_miles: d.distanceMiles,
+        rate_type: rateType,
+        hourly_rate: laborRate(byId.get(d.contractorId), rateType),
+        status: 'offered',
+        offered_at: now.toISOString(),
+        expires_at: expiresAt.toISOString()
+      })))
+      .select()
+
+    if (offerError) throw offerError
+
+    // 3. Alert the ring
+    for (const offer of (offers || []) as DispatchOffer[]) {
+      try {
+        await notifier.offerMade(offer, byId.get(offer.contractor_id), job)
+      } catch (err: any) {
+        console.error('[DISPATCH] Failed to notify contractor:', offer.contractor_id, err.message)
+      }
+    }
+
+    console.log(`[DISPATCH] Job ${job.id}: ring ${ring} (${radius} mi, ${rateType}) offered to ${picked.length}`)
+    return updated[0] as EmergencyDispatch
+  }
+
+  // No ring left with anyone to offer to
+  const { data: exhausted } = await supabase
+    .from('emergency_dispatches')
+    .update({
+      status: 'exhausted',
+      next_escalation_at: null,
+      finished_at: now.toISOString()
+    })
+    .eq('id', dispatch.id)
+    .eq('status', 'searching')
+    .select()
+
+  if (exhausted && exhausted.length > 0) {
+    console.log(`[DISPATCH] Job ${job.id}: cascade exhausted after ring ${dispatch.current_ring}`)
+    await notifier.dispatchExhausted(exhausted[0] as EmergencyDispatch, job).catch(err =>
+      console.error('[DISPATCH] Failed to notify homeowner:', err.message)
+    )
+    return exhausted[0] as EmergencyDispatch
+  }
+
+  const { data: current } = await supabase.from('emergency_dispatches').select('*').eq('id', dispatch.id).single()
+  return current as EmergencyDispatch
+}
+
+/**
+ * Close the current ring and move on to the next one
+ */
+async function escalate(deps: DispatchDeps, dispatch: EmergencyDispatch, job: any): Promise<EmergencyDispatch> {
+  const { supabase, clock } = resolve(deps)
+
+  await supabase
+    .from('dispatch_offers')
+    .update({ status: 'expired' })
+    .eq('dispatch_id', dispatch.id)
+    .eq('ring', dispatch.current_ring)
+    .eq('status', 'offered')
+
+  console.log(`[DISPATCH] Job ${job.id}: escalating from ring ${dispatch.current_ring} at ${clock.now().toISOString()}`)
+  return openNextRing(deps, dispatch, job)
+}
+
+/**
+ * Stop the cascade (job cancelled or filled another way)
+ */
+export async function cancelDispatch(deps: DispatchDeps, jobId: string): Promise<void> {
+  const { supabase, clock } = resolve(deps)
+  const now = clock.now().toISOString()
+
+  const { data: cancelled } = await supabase
+    .from('emergency_dispatches')
+    .update({ status: 'cancelled', next_escalation_at: null, finished_at: now })
+    .eq('job_id', jobId)
+    .eq('status', 'searching')
+    .select('id')
+
+  if (cancelled && cancelled.length > 0) {
+    await supabase
+      .from('dispatch_offers')
+      .update({ status: 'superseded' })
+      .eq('dispatch_id', cancelled[0].id)
+      .eq('status', 'offered')
+  }
+}
+
+/**
+ * Advance one dispatch if its acknowledgement window has closed
+ */
+async function advanceIfDue(deps: DispatchDeps, dispatch: EmergencyDispatch, summary?: DispatchTickSummary) {
+  const { supabase, clock } = resolve(deps)
+
+  if (dispatch.status !== 'searching') return dispatch
+  if (dispatch.next_escalation_at && new Date(dispatch.next_escalation_at) > clock.now()) return dispatch
+
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('*')
+    .eq('id', dispatch.job_id)
+    .single()
+
+  if (!job || !OPEN_JOB_STATUSES.includes(job.status)) {
+    await cancelDispatch(deps, dispatch.job_id)
+    if (summary) summary.cancelled++
+    return { ...dispatch, status: 'cancelled' as DispatchStatus }
+  }
+
+  const next = await escalate(deps, dispatch, job)
+  if (summary) {
+    if (next.status === 'exhausted') summary.exhausted++
+    else if (next.current_ring > dispatch.current_ring) summary.escalated++
+  }
+  return next
+}
+
+/**
+ * Escalate every cascade whose window has closed. Called by the cron route.
+ */
+export async function runDispatchTick(deps: DispatchDeps): Promise<DispatchTickSummary> {
+  const { supabase, clock } = resolve(deps)
+  const summary: DispatchTickSummary = { checked: 0, escalated: 0, exhausted: 0, cancelled: 0 }
+
+  const { data: due, error } = await supabase
+    .from('emergency_dispatches')
+    .select('*')
+    .eq('status', 'searching')
+    .lte('next_escalation_at', clock.now().toISOString())
+
+  if (error) throw error
+
+  for (const dispatch of (due || []) as EmergencyDispatch[]) {
+    summary.checked++
+    try {
+      await advanceIfDue(deps, dispatch, summary)
+    } catch (err: any) {
+      console.error('[DISPATCH] Failed to advance dispatch:', dispatch.id, err.message)
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Current cascade state for a job, advancing it first if it is overdue so the
+ * track page never waits on the next cron run
+ */
+export async function getDispatchStatus(deps: DispatchDeps, jobId: string) {
+  const { supabase } = resolve(deps)
+
+  const { data } = await supabase
+    .from('emergency_dispatches')
+    .select('*')
+    .eq('job_id', jobId)
+    .maybeSingle()
+
+  if (!data) return null
+
+  const dispatch = await advanceIfDue(deps, data as EmergencyDispatch)
+
+  const { data: offers } = await supabase
+    .from('dispatch_offers')
+    .select('ring, status')
+    .eq('dispatch_id', dispatch.id)
+
+  const currentRing = (offers || []).filter(o => o.ring === dispatch.current_ring)
+
+  return {
+    dispatch,
+    ringCount: resolve(deps).config.ringRadiiMiles.length,
+    offeredTotal: offers?.length || 0,
+    currentRingOffered: currentRing.length,
+    currentRingDeclined: currentRing.filter(o => o.status === 'declined').length
+  }
+}
+
+/**
+ * A contractor accepts or declines an offer. Accepting assigns the job
+ * (bid created at the offered rate and accepted on the homeowner's behalf)
+ * and stops the cascade; if the whole ring declines it escalates at once.
+ */
+export async function respondToOffer(
+  deps: DispatchDeps,
+  params: { offerId: string; contractorId: string; accept: boolean }
+): Promise<{ dispatch: EmergencyDispatch; offer: DispatchOffer; bidId?: string }> {
+  const { supabase, clock, notifier } = resolve(deps)
+  const now = clock.now()
+
+  // 1. Offer must be the contractor's, still open and inside its window
+  const { data: offer } = await supabase
+    .from('dispatch_offers')
+    .select('*')
+    .eq('id', params.offerId)
+    .single()
+
+  if (!offer) {
+    throw new DispatchError('Offer not found', 404)
+  }
+
+  if (offer.contractor_id !== params.contractorId) {
+    throw new DispatchError('This offer was made to another contractor', 403)
+  }
+
+  if (offer.status !== 'offered') {
+    throw new DispatchError(`This offer is ${offer.status}`)
+  }
+
+  if (new Date(offer.expires_at) <= now) {
+    throw new DispatchError('This offer has expired')
+  }
+
+  const { data: dispatch } = await supabase
+    .from('emergency_dispatches')
+    .select('*')
+    .eq('id', offer.dispatch_id)
+    .single()
+
+  if (!dispatch || dispatch.status !== 'searching') {
+    throw new DispatchError('This job has already been taken')
+  }
+
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('*')
+    .eq('id', offer.job_id)
+    .single()
+
+  // 2. Decline
+  if (!params.accept) {
+    const { data: declined } = await supabase
+      .from('dispatch_offers')
+      .update({ status: 'declined', responded_at: now.toISOString() })
+      .eq('id', offer.id)
+      .eq('status', 'offered')
+      .select()
+      .single()
+
+    const { count: stillOpen } = await supabase
+      .from('dispatch_offers')
+      .select('id', { count: 'exact', head: true })
+      .eq('dispatch_id', dispatch.id)
+      .eq('ring', dispatch.current_ring)
+      .eq('status', 'offered')
+
+    const next = stillOpen === 0 && job
+      ? await escalate(deps, dispatch as EmergencyDispatch, job)
+      : dispatch as EmergencyDispatch
+
+    return { dispatch: next, offer: (declined || offer) as DispatchOffer }
+  }
+
+  // 3. Accept: claim the dispatch first so only one contractor wins
+  const { data: claimed } = await supabase
+    .from('emergency_dispatches')
+    .update({
+      status: 'accepted',
+      accepted_contractor_id: params.contractorId,
+      accepted_offer_id: offer.id,
+      accepted_at: now.toISOString(),
+      next_escalation_at: null,
+      finished_at: now.toISOString()
+    })
+    .eq('id', dispatch.id)
+    .eq('status', 'searching')
+    .select()
+
+  if (!claimed || claimed.length === 0) {
+    throw new DispatchError('This job has already been taken')
+  }
+
+  try {
+    // 4. Assign the job through the normal bid path at the offered rate
+    const { data: contractor } = await supabase
+      .from('pro_contractors')
+      .select('*')
+      .eq('id', params.contractorId)
+      .single()
+
+    const { data: existingBid } = await supabase
+      .from('job_bids')
+      .select('id')
+      .eq('job_id', offer.job_id)
+      .eq('contractor_id', params.contractorId)
+      .eq('status', 'pending')
+      .maybeSingle()
+
+    let bidId = existingBid?.id || null
+
+    if (!bidId) {
+      const lineItems = defaultLineItems(contractor || {}, offer.rate_type === 'surge')
+      if (offer.hourly_rate != null) {
+        lineItems.forEach(item => { if (item.kind === 'labor') item.unit_price = Number(offer.hourly_rate) })
+      }
+
+      const bid = await submitContractorBid({
+        supabase,
+        contractorId: params.contractorId,
+        jobId: offer.job_id,
+        lineItems,
+        etaMinutes: offer.distance_miles != null ? Math.ceil(Number(offer.distance_miles) * 2) + 5 : null,
+        validForHours: 1,
+        message: 'Accepted your emergency request',
+        now
+      })
+      bidId = bid.id
+    }
+
+    await acceptBid(supabase, { bidId: bidId!, homeownerId: dispatch.homeowner_id })
+
+    // 5. Close out the other offers
+    const { data: accepted } = await supabase
+      .from('dispatch_offers')
+      .update({ status: 'accepted', responded_at: now.toISOString() })
+      .eq('id', offer.id)
+      .select()
+      .single()
+
+    await supabase
+      .from('dispatch_offers')
+      .update({ status: 'superseded' })
+      .eq('dispatch_id', dispatch.id)
+      .eq('status', 'offered')
+
+    await notifier.dispatchAccepted(claimed[0] as EmergencyDispatch, contractor || {}, job).catch(err =>
+      console.error('[DISPATCH] Failed to notify homeowner:', err.message)
+    )
+
+    return { dispatch: claimed[0] as EmergencyDispatch, offer: (accepted || offer) as DispatchOffer, bidId: bidId! }
+  } catch (error) {
+    // Give the cascade back so another contractor can still take the job
+    await supabase
+      .from('emergency_dispatches')
+      .update({
+        status: 'searching',
+        accepted_contractor_id: null,
+        accepted_offer_id: null,
+        accepted_at: null,
+        finished_at: null,
+        next_escalation_at: offer.expires_at
+      })
+      .eq('id', dispatch.id)
+      .eq('accepted_offer_id', offer.id)
+
+    if (error instanceof LifecycleError) {
+      throw new DispatchError(error.message, error.status)
+    }
+    throw error
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Escrow Operations for Rushr Payment Holds
+ *
+ * Server-side helpers shared by the /api/payments routes:
+ * - Fee calculation (platform fee / contractor payout)
+ * - Releasing funds to the contractor's Connect account
+ * - Refunds and authorization cancellation
+ *
+ * Callers pass in their own service-role Supabase client and Stripe instance.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+
+export const PLATFORM_FEE_RATE = 0.10 // 10%
+
+export type RefundInitiator = 'admin' | 'homeowner'
+
+export class EscrowError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'EscrowError'
+    this.status = status
+  }
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Split a charged amount into platform fee and contractor payout
+ */
+export function calculateFees(amount: number): { platformFee: number; contractorPayout: number } {
+  const platformFee = roundCents(amount * PLATFORM_FEE_RATE)
+  return {
+    platformFee,
+    contractorPayout: roundCents(amount - platformFee)
+  }
+}
+
+/**
+ * Hold statuses each initiator may refund from.
+ * Homeowners can only cancel an authorization that has not been captured;
+ * captured money goes back through an admin or a dispute. A hold frozen by
+ * an open dispute is only refunded as part of resolving that dispute.
+ */
+export function canRefund(hold: any, initiator: RefundInitiator, disputeId?: string): boolean {
+  if (hold.escrow_frozen && (!disputeId || hold.active_dispute_id !== disputeId)) return false
+
+  if (initiator === 'admin') {
+    return ['pending', 'authorized', 'captured', 'released', 'partial_refund'].includes(hold.status)
+  }
+
+  return ['pending', 'authorized'].includes(hold.status)
+}
+
+export interface ReleaseResult {
+  transferId: string
+  amount: number
+  releasedAt: string
+}
+
+/**
+ * Release a captured payment hold to the contractor via Stripe Connect transfer.
+ *
+ * Both parties must have confirmed completion and the hold must not be frozen
+ * by a dispute. A hold the auto-release trigger already flipped to 'released'
+ * without a transfer is still paid out. When resolving the dispute that froze
+ * the hold, the admin's decision stands in for both confirmations.
+ */
+export async function releasePaymentHold(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  hold: any
+  /** Set when resolving the dispute that froze the hold */
+  disputeId?: string
+}): Promise<ReleaseResult> {
+  const { supabase, stripe, hold } = params
+  const resolvingDispute = !!params.disputeId && hold.active_dispute_id === params.disputeId
+
+  if (hold.escrow_frozen && !resolvingDispute) {
+    throw new EscrowError('Payment is frozen by an open dispute', 409)
+  }
+
+  if (!resolvingDispute && (!hold.homeowner_confirmed_complete || !hold.contractor_confirmed_complete)) {
+    throw new EscrowError('Both parties must confirm completion before releasing payment')
+  }
+
+  if (hold.status === 'released' && hold.stripe_transfer_id) {
+    throw new EscrowError('Payment already released')
+  }
+
+  if (!['captured', 'partial_refund', 'released'].includes(hold.status)) {
+    throw new EscrowError(`Cannot release payment with status: ${hold.status}`, 409)
+  }
+
+  // 1. Get contractor's Stripe Connect account
+  const { data: connectAccount } = await supabase
+    .from('stripe_connect_accounts')
+    .select('stripe_account_id, payouts_enabled')
+    .eq('contractor_id', hold.contractor_id)
+    .single()
+
+  if (!connectAccount || !connectAccount.payouts_enabled) {
+    throw new EscrowError('Contractor has not completed Stripe Connect onboarding')
+  }
+
+  // 2. Create Stripe Transfer to contractor
+  const transfer = await stripe.transfers.create(
+    {
+      amount: Math.round(Number(hold.contractor_payout) * 100), // Convert to cents
+      currency: 'usd',
+      destination: connectAccount.stripe_account_id,
+      transfer_group: hold.job_id,
+      metadata: {
+        payment_hold_id: hold.id,
+        job_id: hold.job_id,
+        bid_id: hold.bid_id
+      },
+      description: `Payment for job completion`
+    },
+    { idempotencyKey: `release-${hold.id}` }
+  )
+
+  // 3. Update payment hold with transfer details
+  const releasedAt = hold.released_at || new Date().toISOString()
+
+  const { error: updateError } = await supabase
+    .from('payment_holds')
+    .update({
+      status: 'released',
+      stripe_transfer_id: transfer.id,
+      released_at: releasedAt
+    })
+    .eq('id', hold.id)
+
+  if (updateError) throw updateError
+
+  return {
+    transferId: transfer.id,
+    amount: Number(hold.contractor_payout),
+    releasedAt
+  }
+}
+
+export interface RefundResult {
+  status: 'cancelled' | 'refunded' | 'partial_refund'
+  refundedAmount: number
+  refundId?: string
+  transferReversalId?: string
+  platformFee: number
+  contractorPayout: number
+}
+
+/**
+ * Refund a payment hold in full or in part.
+ *
+ * - Uncaptured authorizations are cancelled (full amount only)
+ * - Captured charges are refunded through Stripe
+ * - If funds were already released, the contractor's share of the refund is
+ *   reversed from their Connect transfer
+ *
+ * platform_fee / contractor_payout are recomputed on the amount that remains
+ * charged, and a transactions row is recorded for each Stripe object created.
+ */
+export async function refundPaymentHold(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  hold: any
+  amount?: number
+  reason: string
+  initiatedBy: string
+  initiator: RefundInitiator
+  /** Set when resolving the dispute that froze the hold */
+  disputeId?: string
+}): Promise<RefundResult> {
+  const { supabase, stripe, hold, reason, initiatedBy, initiator } = params
+
+  if (hold.escrow_frozen && hold.active_dispute_id !== params.disputeId) {
+    throw new EscrowError('Payment is frozen by an open dispute', 409)
+  }
+
+  if (!canRefund(hold, initiator, params.disputeId)) {
+    throw new EscrowError(`Cannot refund payment with status: ${hold.status}`, 409)
+  }
+
+  const totalAmount = Number(hold.amount)
+  const alreadyRefunded = Number(hold.refunded_amount || 0)
+  const refundable = roundCents(totalAmount - alreadyRefunded)
+  const refundAmount = params.amount !== undefined ? roundCents(params.amount) : refundable
+
+  if (refundAmount <= 0 || refundAmount > refundable) {
+    throw new EscrowError(`Refund amount must be between $0.01 and $${refundable.toFixed(2)}`)
+  }
+
+  if (initiator === 'homeowner' && refundAmount !== refundable) {
+    throw new EscrowError('Partial refunds can only be issued by an admin', 403)
+  }
+
+  const now = new Date().toISOString()
+
+  // 1. Uncaptured authorization: cancel the PaymentIntent
+  if (['pending', 'authorized'].includes(hold.status)) {
+    if (refundAmount !== refundable) {
+      throw new EscrowError('Authorizations can only be cancelled in full')
+    }
+
+    if (hold.stripe_payment_intent_id) {
+      await stripe.paymentIntents.cancel(hold.stripe_payment_intent_id, {
+        cancellation_reason: 'requested_by_customer'
+      })
+    }
+
+    const { error } = await supabase
+      .from('payment_holds')
+      .update({
+        status: 'cancelled',
+        refund_reason: reason,
+        refunded_at: now
+      })
+      .eq('id', hold.id)
+
+    if (error) throw error
+
+    if (hold.job_id) {
+      await supabase
+        .from('homeowner_jobs')
+        .update({ payment_status: 'refunded' })
+        .eq('id', hold.job_id)
+    }
+
+    await recordRefundTransaction(supabase, hold, {
+      type: 'refund',
+      amount: refundAmount,
+      status: 'cancelled',
+      description: `Authorization cancelled: ${reason}`,
+      stripe_id: hold.stripe_payment_intent_id,
+      metadata: { reason, initiated_by: initiatedBy, initiator }
+    })
+
+    await notifyRefund(supabase, hold, refundAmount, reason, true)
+
+    return {
+      status: 'cancelled',
+      refundedAmount: refundAmount,
+      platformFee: 0,
+      contractorPayout: 0
+    }
+  }
+
+  // 2. Captured charge: refund through Stripe
+  const refund = await stripe.refunds.create(
+    {
+      payment_intent: hold.stripe_payment_intent_id,
+      amount: Math.round(refundAmount * 100),
+      reason: 'requested_by_customer',
+      metadata: {
+        payment_hold_id: hold.id,
+        job_id: hold.job_id || '',
+        initiated_by: initiatedBy,
+        refund_reason: reason
+      }
+    },
+    { idempotencyKey: `refund-${hold.id}-${Math.round(alreadyRefunded * 100)}-${Math.round(refundAmount * 100)}` }
+  )
+
+  const totalRefunded = roundCents(alreadyRefunded + refundAmount)
+  const remaining = roundCents(totalAmount - totalRefunded)
+  const { platformFee, contractorPayout } = calculateFees(remaining)
+  const fullyRefunded = remaining <= 0
+
+  // 3. Claw back the contractor's share if funds were already transferred
+  let transferReversal: Stripe.TransferReversal | null = null
+  const previousPayout = Number(hold.contractor_payout)
+  const reversalAmount = roundCents(previousPayout - contractorPayout)
+
+  if (hold.stripe_transfer_id && reversalAmount > 0) {
+    transferReversal = await stripe.transfers.createReversal(
+      hold.stripe_transfer_id,
+      {
+        amount: Math.round(reversalAmount * 100),
+        metadata: { payment_hold_id: hold.id, refund_id: refund.id }
+      },
+      { idempotencyKey: `reversal-${refund.id}` }
+    )
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('payment_holds')
+    .update({
+      status: fullyRefunded ? 'refunded' : 'partial_refund',
+      refunded_amount: totalRefunded,
+      refunded_at: now,
+      refund_reason: reason,
+      platform_fee: platformFee,
+      contractor_payout: contractorPayout,
+      ...(transferReversal
+        ? { transfer_reversed_amount: roundCents(Number(hold.transfer_reversed_amount || 0) + reversalAmount) }
+        : {})
+    })
+    .eq('id', hold.id)
+    .eq('refunded_amount', alreadyRefunded)
+    .select('id')
+
+  if (updateError) throw updateError
+
+  // Another refund was booked against this hold since it was read
+  if (!updated?.length) {
+    throw new EscrowError('Payment was refunded concurrently, reload and try again', 409)
+  }
+
+  if (hold.job_id && fullyRefunded) {
+    await supabase
+      .from('homeowner_jobs')
+      .update({ payment_status: 'refunded' })
+      .eq('id', hold.job_id)
+  }
+
+  await recordRefundTransaction(supabase, hold, {
+    type: 'refund',
+    amount: refundAmount,
+    status: refund.status === 'failed' ? 'failed' : 'completed',
+    description: `Refund issued: ${reason}`,
+    stripe_id: refund.id,
+    metadata: { reason, initiated_by: initiatedBy, initiator, platform_fee: platformFee, contractor_payout: contractorPayout }
+  })
+
+  if (transferReversal) {
+    await recordRefundTransaction(supabase, hold, {
+      user_id: hold.contractor_id,
+      user_type: 'contractor',
+      type: 'adjustment',
+      amount: -reversalAmount,
+      status: 'completed',
+      description: 'Payout reversed due to refund',
+      stripe_id: transferReversal.id,
+      metadata: { refund_id: refund.id }
+    })
+  }
+
+  await notifyRefund(supabase, hold, refundAmount, reason, fullyRefunded)
+
+  return {
+    status: fullyRefunded ? 'refunded' : 'partial_refund',
+    refundedAmount: refundAmount,
+    refundId: refund.id,
+    transferReversalId: transferReversal?.id,
+    platformFee,
+    contractorPayout
+  }
+}
+
+async function recordRefundTransaction(supabase: SupabaseClient, hold: any, row: Record<string, any>) {
+  // The webhook may book the same Stripe object; (type, stripe_id) is unique
+  const { error } = await supabase
+    .from('transactions')
+    .upsert(
+      {
+        user_id: hold.homeowner_id,
+        user_type: 'homeowner',
+        job_id: hold.job_id,
+        bid_id: hold.bid_id,
+        payment_hold_id: hold.id,
+        ...row
+      },
+      { onConflict: 'type,stripe_id', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    console.error('Failed to record refund transaction:', error)
+  }
+}
+
+async function notifyRefund(
+  supabase: SupabaseClient,
+  hold: any,
+  amount: number,
+  reason: string,
+  full: boolean
+) {
+  const label = full ? 'Payment Refunded' : 'Partial Refund Issued'
+
+  await supabase.from('notifications').insert([
+    {
+      user_id: hold.homeowner_id,
+      type: 'info',
+      title: label,
+      message: `$${amount.toFixed(2)} has been refunded to your payment method. Reason: ${reason}`,
+      job_id: hold.job_id,
+      bid_id: hold.bid_id
+    },
+    {
+      user_id: hold.contractor_id,
+      type: 'warning',
+      title: label,
+      message: `$${amount.toFixed(2)} of the escrow payment for this job was refunded to the homeowner. Reason: ${reason}`,
+      job_id: hold.job_id,
+      bid_id: hold.bid_id
+    }
+  ])
+}
@@ -0,0 +1,317 @@
+/**
+ * Automatic Escrow Release
+ *
+ * Once a contractor confirms completion, the homeowner has a grace window to
+ * confirm or open a dispute. The scheduled job (/api/cron/escrow-auto-release):
+ * - Sends the homeowner reminders at configured points inside the window
+ * - After the window, auto-confirms on the homeowner's behalf and releases
+ *   funds through releasePaymentHold, exactly like /api/payments/release
+ * - Never touches a hold that is frozen by a dispute
+ *
+ * Every automatic action is recorded in escrow_audit_log.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { releasePaymentHold } from './escrow'
+import { notifyConfirmCompletionReminder } from './emailService'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export type EscrowAuditAction =
+  | 'reminder_sent'
+  | 'auto_confirmed'
+  | 'auto_released'
+  | 'release_failed'
+  | 'skipped_dispute'
+
+export interface AutoReleaseConfig {
+  /** Hours after contractor confirmation before funds are auto-released */
+  graceHours: number
+  /** Hours after contractor confirmation at which a reminder is sent */
+  reminderHours: number[]
+}
+
+export interface AutoReleaseSummary {
+  checked: number
+  remindersSent: number
+  released: number
+  skipped: number
+  failed: number
+}
+
+/**
+ * Read the grace window and reminder schedule from the environment.
+ * ESCROW_AUTO_RELEASE_HOURS defaults to 72; ESCROW_REMINDER_HOURS is a
+ * comma-separated list and defaults to 24,48. Reminders at or past the grace
+ * window are dropped.
+ */
+export function getAutoReleaseConfig(): AutoReleaseConfig {
+  const graceHours = Number(process.env.ESCROW_AUTO_RELEASE_HOURS) || 72
+  const reminderHours = (process.env.ESCROW_REMINDER_HOURS || '24,48')
+    .split(',')
+    .map(h => Number(h.trim()))
+    .filter(h => Number.isFinite(h) && h > 0 && h < graceHours)
+    .sort((a, b) => a - b)
+
+  return { graceHours, reminderHours }
+}
+
+/**
+ * Process every captured hold still waiting on homeowner confirmation.
+ * `now` is injectable so the schedule can be exercised deterministically.
+ */
+export async function runEscrowAutoRelease(params: {
+  supabase: SupabaseClient
+  stripe: Stripe
+  now?: Date
+  config?: AutoReleaseConfig
+}): Promise<AutoReleaseSummary> {
+  const { supabase, stripe } = params
+  const now = params.now || new Date()
+  const config = params.config || getAutoReleaseConfig()
+
+  const summary: AutoReleaseSummary = { checked: 0, remindersSent: 0, released: 0, skipped: 0, failed: 0 }
+
+  const { data: holds, error } = await supabase
+    .from('payment_holds')
+    .select('*')
+    .eq('status', 'captured')
+    .eq('contractor_confirmed_complete', true)
+    .eq('homeowner_confirmed_complete', false)
+    .not('contractor_confirmed_at', 'is', null)
+
+  if (error) throw error
+
+  for (const hold of holds || []) {
+    summary.checked++
+
+    if (hold.escrow_frozen) {
+      summary.skipped++
+      continue
+    }
+
+    const confirmedAt = new Date(hold.contractor_confirmed_at).getTime()
+    const elapsedHours = (now.getTime() - confirmedAt) / HOUR_MS
+    const autoReleaseAt = new Date(confirmedAt + config.graceHours * HOUR_MS).toISOString()
+
+    try {
+      if (elapsedHours >= config.graceHours) {
+        const outcome = await autoConfirmAndRelease(supabase, stripe, hold, now)
+        summary[outcome]++
+        continue
+      }
+
+      const sent = Number(hold.auto_release_reminders_sent || 0)
+      const due = config.reminderHours.filter(h => elapsedHours >= h).length
+
+      if (due > sent) {
+        await sendReminder(supabase, hold, due, autoReleaseAt, now)
+        summary.remindersSent++
+      }
+    } catch (err: any) {
+      console.error(`Escrow auto-release failed for hold ${hold.id}:`, err)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+async function recordAudit(
+  supabase: SupabaseClient,
+  hold: any,
+  action: EscrowAuditAction,
+  details: Record<string, any> = {}
+) {
+  const { error } = await supabase.from('escrow_audit_log').insert({
+    payment_hold_id: hold.id,
+    job_id: hold.job_id,
+    action,
+    details
+  })
+
+  if (error) {
+    console.error('Failed to record escrow audit entry:', error)
+  }
+}
+
+async function hasActiveDispute(supabase: SupabaseClient, holdId: string): Promise<boolean> {
+  const { count } = await supabase
+    .from('payment_disputes')
+    .select('id', { count: 'exact', head: true })
+    .eq('payment_hold_id', holdId)
+    .in('status', ['open', 'under_review'])
+
+  return (count || 0) > 0
+}
+
+async function sendReminder(
+  supabase: SupabaseClient,
+  hold: any,
+  reminderNumber: number,
+  autoReleaseAt: string,
+  now: Date
+) {
+  // Guard on the counter so overlapping runs send each reminder once
+  const { data: updated, error } = await supabase
+    .from('payment_holds')
+    .update({
+      auto_release_reminders_sent: reminderNumber,
+      last_auto_release_reminder_at: now.toISOString()
+    })
+    .eq('id', hold.id)
+    .eq('auto_release_reminders_sent', hold.auto_release_reminders_sent || 0)
+    .select('id')
+
+  if (error) throw error
+  if (!updated || updated.length === 0) return
+
+  const releaseDate = new Date(autoReleaseAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })
+
+  await supabase.from('notifications').insert({
+    user_id: hold.homeowner_id,
+    type: 'warning',
+    title: 'Please Confirm Job Completion',
+    message: `The contractor marked this job complete. $${Number(hold.amount).toFixed(2)} will be released automatically on ${releaseDate} unless you confirm or open a dispute.`,
+    job_id: hold.job_id,
+    bid_id: hold.bid_id
+  })
+
+  try {
+    const { data: job } = await supabase
+      .from('homeowner_jobs')
+      .select('title')
+      .eq('id', hold.job_id)
+      .single()
+
+    const { data: homeownerAuth } = await supabase.auth.admin.getUserById(hold.homeowner_id)
+
+    const { data: homeowner } = await supabase
+      .from('user_profiles')
+      .select('name')
+      .eq('id', hold.homeowner_id)
+      .single()
+
+    const { data: contractor } = await supabase
+      .from('pro_contractors')
+      .select('name, business_name')
+      .eq('id', hold.contractor_id)
+      .single()
+
+    if (homeownerAuth?.user?.email && job) {
+      await notifyConfirmCompletionReminder({
+        homeownerEmail: homeownerAuth.user.email,
+        homeownerName: homeowner?.name || 'there',
+        contractorName: contractor?.business_name || contractor?.name || 'Your contractor',
+        jobTitle: job.title,
+        amount: Number(hold.amount),
+        autoReleaseAt
+      })
+    }
+  } catch (emailError) {
+    console.error('Failed to send completion reminder email:', emailError)
+  }
+
+  await recordAudit(supabase, hold, 'reminder_sent', {
+    reminder_number: reminderNumber,
+    auto_release_at: autoReleaseAt
+  })
+}
+
+async function autoConfirmAndRelease(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  hold: any,
+  now: Date
+): Promise<'released' | 'skipped' | 'failed'> {
+  // 1. A dispute may have been opened since the hold was loaded
+  if (await hasActiveDispute(supabase, hold.id)) {
+    await recordAudit(supabase, hold, 'skipped_dispute')
+    return 'skipped'
+  }
+
+  // 2. Re-read the hold so a confirmation or dispute that landed since it
+  //    was loaded wins
+  const { data: current, error: readError } = await supabase
+    .from('payment_holds')
+    .select('*')
+    .eq('id', hold.id)
+    .eq('status', 'captured')
+    .eq('homeowner_confirmed_complete', false)
+    .not('escrow_frozen', 'is', true)
+    .maybeSingle()
+
+  if (readError) throw readError
+
+  if (!current) {
+    return 'skipped'
+  }
+
+  // 3. Release funds exactly as /api/payments/release does, with the
+  //    homeowner's confirmation standing in for the expired window. The
+  //    confirmation is only stored once the transfer succeeds, so a failed
+  //    release leaves the hold in the next run's candidates.
+  let release
+  try {
+    release = await releasePaymentHold({
+      supabase,
+      stripe,
+      hold: { ...current, homeowner_confirmed_complete: true }
+    })
+  } catch (err: any) {
+    await recordAudit(supabase, hold, 'release_failed', { error: err.message })
+    return 'failed'
+  }
+
+  const { error: confirmError } = await supabase
+    .from('payment_holds')
+    .update({
+      homeowner_confirmed_complete: true,
+      homeowner_confirmed_at: now.toISOString(),
+      homeowner_auto_confirmed: true
+    })
+    .eq('id', hold.id)
+
+  if (confirmError) {
+    console.error('Failed to record auto-confirmation after release:', confirmError)
+  }
+
+  await recordAudit(supabase, hold, 'auto_confirmed', {
+    contractor_confirmed_at: hold.contractor_confirmed_at
+  })
+
+  await recordAudit(supabase, hold, 'auto_released', {
+    transfer_id: release.transferId,
+    amount: release.amount
+  })
+
+  // 4. Complete the job and tell both parties (the payment emails are queued
+  //    by the payment_holds trigger with the release)
+  await supabase
+    .from('homeowner_jobs')
+    .update({ status: 'completed' })
+    .eq('id', hold.job_id)
+
+  await supabase.from('notifications').insert([
+    {
+      user_id: hold.homeowner_id,
+      type: 'info',
+      title: 'Payment Released Automatically',
+      message: 'The confirmation window ended without a dispute, so the job was marked complete and payment was released to the contractor.',
+      job_id: hold.job_id,
+      bid_id: hold.bid_id
+    },
+    {
+      user_id: hold.contractor_id,
+      type: 'job_filled',
+      title: 'Job Complete - Payment Released!',
+      message: `The homeowner did not respond within the confirmation window. Payment of $${release.amount.toFixed(2)} has been released!`,
+      job_id: hold.job_id,
+      bid_id: hold.bid_id
+    }
+  ])
+
+  return 'released'
+}
+
@@ -0,0 +1,40 @@
+/**
+ * Geographic helpers shared by server routes
+ */
+
+const EARTH_RADIUS_MILES = 3959
+
+/**
+ * Great-circle distance between two points in miles (Haversine formula)
+ */
+export function distanceMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * Math.PI / 180
+  const dLon = (lon2 - lon1) * Math.PI / 180
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return EARTH_RADIUS_MILES * c
+}
+
+const EARTH_RADIUS_METERS = 6371000
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return distanceMiles(lat1, lon1, lat2, lon2) * (EARTH_RADIUS_METERS / EARTH_RADIUS_MILES)
+}
+
+/**
+ * Initial compass bearing from the first point to the second, 0-360 degrees
+ */
+export function bearingDegrees(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rLat1 = lat1 * Math.PI / 180
+  const rLat2 = lat2 * Math.PI / 180
+  const dLon = (lon2 - lon1) * Math.PI / 180
+  const y = Math.sin(dLon) * Math.cos(rLat2)
+  const x = Math.cos(rLat1) * Math.sin(rLat2) - Math.sin(rLat1) * Math.cos(rLat2) * Math.cos(dLon)
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360
+}
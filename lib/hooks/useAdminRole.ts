@@ -0,0 +1,43 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '../supabaseClient'
+import type { AdminRole } from '../adminRoles'
+
+/**
+ * The signed-in user's admin role, read from admin_roles (users can see their
+ * own row). Only decides what the UI shows; admin API routes check the role
+ * again server-side.
+ */
+export function useAdminRole(userId?: string | null) {
+  const [role, setRole] = useState<AdminRole | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!userId) {
+      setRole(null)
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    supabase
+      .from('admin_roles')
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (cancelled) return
+        setRole((data?.role as AdminRole) || null)
+        setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  return { role, isAdmin: role !== null, isSuperAdmin: role === 'super_admin', loading }
+}
@@ -3,7 +3,48 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { MessagingAPI, type Conversation, type Message, type ConversationParticipant } from '../messaging'
 import { useAuth } from '../../contexts/AuthContext'
-import { SupportMessagesAPI } from '../supportMessages'
+import { supabase } from '../supabaseClient'
+import { MAX_SUBJECT_LENGTH } from '../supportTickets'
+
+const RUSHR_SUPPORT_ID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Nobody answers the Rushr Support chat itself: messages sent there are
+ * added to the user's open support ticket, or open a new one
+ */
+async function forwardToSupportDesk(content: string) {
+  const { data: { session } } = await supabase.auth.getSession()
+  const headers = {
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${session?.access_token}`
+  }
+
+  const listResponse = await fetch('/api/support/tickets?status=active', { headers })
+  const list = await listResponse.json()
+  const activeTicket = listResponse.ok ? list.tickets?.[0] : null
+
+  const response = activeTicket
+    ? await fetch(`/api/support/tickets/${activeTicket.id}/replies`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ body: content })
+      })
+    : await fetch('/api/support/tickets', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          subject: content.split('\n')[0].slice(0, MAX_SUBJECT_LENGTH),
+          message: content,
+          category: 'other',
+          priority: 'medium'
+        })
+      })
+
+  if (!response.ok) {
+    const result = await response.json()
+    throw new Error(result.error || 'Failed to reach Rushr Support')
+  }
+}
 
 // Hook for managing conversations list
 export function useConversations(userId?: string, role?: 'homeowner' | 'pro') {
@@ -169,6 +210,11 @@ export function useConversation(conversationId: string | null, userId?: string)
         conversationId,
         (newMessage) => {
           setMessages(prev => [...prev, newMessage])
+
+          // Counter-offers and offer system messages change an earlier offer's status
+          if (newMessage.offer?.parent_offer_id || newMessage.metadata?.offer_id) {
+            loadConversation()
+          }
         }
       )
 
@@ -200,15 +246,8 @@ export function useConversation(conversationId: string | null, userId?: string)
       // Send message via API - real-time subscription will update the messages
       await MessagingAPI.sendMessage(conversationId, user.id, content.trim(), replyToId)
 
-      // Also send to support system if this is a Rushr Support conversation
-      if (conversation?.pro_id === '00000000-0000-0000-0000-000000000000' ||
-          conversation?.homeowner_id === '00000000-0000-0000-0000-000000000000') {
-        SupportMessagesAPI.addMessage(
-          user.id,
-          (user as any).email || 'Unknown User',
-          (user as any).email || '',
-          content.trim()
-        )
+      if (conversation?.pro_id === RUSHR_SUPPORT_ID || conversation?.homeowner_id === RUSHR_SUPPORT_ID) {
+        await forwardToSupportDesk(content.trim())
       }
     } catch (err) {
       console.error('Error sending message:', err)
@@ -253,6 +292,7 @@ export function useConversation(conversationId: string | null, userId?: string)
     price: number
     delivery_days: number
     notes?: string
+    expires_at?: string
   }) => {
     if (!conversationId || !user?.id) return
 
@@ -264,21 +304,23 @@ export function useConversation(conversationId: string | null, userId?: string)
     }
   }, [conversationId, user?.id])
 
-  const updateOfferStatus = useCallback(async (
+  const respondToOffer = useCallback(async (
     offerId: string,
-    status: 'accepted' | 'declined' | 'countered',
-    counterData?: {
-      counter_price?: number
-      counter_days?: number
-      counter_notes?: string
+    action: 'accept' | 'decline' | 'counter',
+    counter?: {
+      price: number
+      delivery_days: number
+      notes?: string
+      expires_at?: string
     }
   ) => {
     try {
-      await MessagingAPI.updateOfferStatus(offerId, status, counterData)
+      const result = await MessagingAPI.respondToOffer(offerId, action, counter)
       // Refresh conversation to get updated offer
       await loadConversation()
+      return result
     } catch (err) {
-      console.error('Error updating offer:', err)
+      console.error('Error responding to offer:', err)
       throw err
     }
   }, [loadConversation])
@@ -365,7 +407,7 @@ export function useConversation(conversationId: string | null, userId?: string)
     sendMessage,
     sendMessageWithFiles,
     sendOffer,
-    updateOfferStatus,
+    respondToOffer,
     markAsRead,
     setTyping,
     deleteMessage,
@@ -0,0 +1,20 @@
+/**
+ * New-job alert filter stored on pro_contractors.job_alert_preferences.
+ * Which channels the alerts go out on is a notification preference
+ * (lib/notificationPreferences.ts, event 'new_job_posted'). Kept separate
+ * from lib/jobMatching.ts so settings pages can import it without pulling
+ * in the email / SMS senders.
+ */
+
+export interface JobAlertPreferences {
+  /** Only alert for emergency-priority jobs */
+  emergency_only: boolean
+}
+
+export const DEFAULT_JOB_ALERT_PREFERENCES: JobAlertPreferences = {
+  emergency_only: false
+}
+
+export function alertPreferences(contractor: { job_alert_preferences?: Partial<JobAlertPreferences> | null }): JobAlertPreferences {
+  return { ...DEFAULT_JOB_ALERT_PREFERENCES, ...(contractor.job_alert_preferences || {}) }
+}
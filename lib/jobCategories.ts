@@ -0,0 +1,41 @@
+/**
+ * Job category matching
+ *
+ * Jobs posted through /post-job carry an emergency-type key ("plumbing",
+ * "water-damage", "home") while contractors list display categories
+ * ("Plumbing", "Water Damage"). These helpers translate between the two.
+ */
+
+// Emergency type / category keys → contractor category values
+export const JOB_CATEGORY_ALIASES: Record<string, string[]> = {
+  // Specific emergency types
+  'plumbing': ['Plumbing'],
+  'electrical': ['Electrical'],
+  'hvac': ['HVAC'],
+  'roofing': ['Roofing'],
+  'water-damage': ['Plumbing', 'Water Damage'],
+  'locksmith': ['Locksmith'],
+  'appliance': ['Appliance Repair'],
+  // Broader categories - include multiple contractor types
+  'home': ['Plumbing', 'Electrical', 'HVAC', 'Roofing', 'Locksmith', 'Appliance Repair', 'Water Damage', 'General Contractor'],
+  'auto': ['Auto Repair', 'Towing', 'Locksmith'],
+}
+
+/**
+ * Contractor categories that can take a job of the given category
+ */
+export function categoriesForJob(category: string | null | undefined): string[] {
+  if (!category) return []
+  return JOB_CATEGORY_ALIASES[category.toLowerCase()] || [category]
+}
+
+/**
+ * Contractor categories that overlap the job's (case-insensitive, partial)
+ */
+export function matchingCategories(jobCategory: string | null | undefined, contractorCategories: string[] | null | undefined): string[] {
+  const targets = categoriesForJob(jobCategory).map(c => c.toLowerCase())
+  return (contractorCategories || []).filter(cat => {
+    const value = cat.toLowerCase()
+    return targets.some(target => value.includes(target) || target.includes(value))
+  })
+}
@@ -0,0 +1,349 @@
+/**
+ * Job-to-Contractor Matching for Rushr
+ *
+ * When a homeowner posts a job, every approved contractor is scored for it:
+ * - Hard requirements: approved + KYC completed, category overlap, service
+ *   area coverage (lib/serviceArea.ts), within the maximum distance, and for
+ *   emergency jobs an emergency / 24-7 contractor who is not offline
+ * - Score (0-100): category, coverage, availability, emergency flags,
+ *   distance from the job and rating. Contractors whose plan includes
+ *   priority job access (lib/billing.ts) get 10 more, ahead of equal matches
+ *
+ * The top N eligible contractors are alerted through the notification
+ * dispatcher, on the channels their notification preferences allow
+ * (emergency_only in job_alert_preferences narrows this to emergency
+ * jobs). Every decision is written to
+ * job_match_log so "why wasn't I notified?" can be answered.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { OPEN_JOB_STATUSES } from './bidLifecycle'
+import { coverageZips, coversLocation } from './serviceArea'
+import { matchingCategories } from './jobCategories'
+import { distanceMiles } from './geo'
+import { notifyNewJob } from './emailService'
+import { sendNewJobSMS } from './smsService'
+import { alertPreferences } from './jobAlertPreferences'
+import { dispatchNotification } from './notificationDispatcher'
+import { usersWithEntitlement } from './billing'
+import type { NotificationChannel } from './notificationPreferences'
+
+export type AlertChannel = NotificationChannel
+
+export interface JobMatchConfig {
+  /** Contractors alerted for a normal job */
+  topN: number
+  /** Contractors alerted for an emergency job */
+  emergencyTopN: number
+  /** Contractors further than this from the job are never matched */
+  maxDistanceMiles: number
+}
+
+export interface MatchDecision {
+  contractorId: string
+  eligible: boolean
+  score: number
+  breakdown: Record<string, number>
+  rejectReason: string | null
+  distanceMiles: number | null
+  rank: number | null
+  channels: AlertChannel[]
+}
+
+export interface JobMatchSummary {
+  jobId: string
+  evaluated: number
+  eligible: number
+  notified: number
+  skipped?: string
+}
+
+/**
+ * Read matching limits from the environment. JOB_MATCH_TOP_N defaults to 10,
+ * JOB_MATCH_EMERGENCY_TOP_N to 20 and JOB_MATCH_MAX_DISTANCE_MILES to 50.
+ */
+export function getJobMatchConfig(): JobMatchConfig {
+  return {
+    topN: Number(process.env.JOB_MATCH_TOP_N) || 10,
+    emergencyTopN: Number(process.env.JOB_MATCH_EMERGENCY_TOP_N) || 20,
+    maxDistanceMiles: Number(process.env.JOB_MATCH_MAX_DISTANCE_MILES) || 50
+  }
+}
+
+export function isEmergencyJob(job: { priority?: string | null }): boolean {
+  return job.priority === 'emergency'
+}
+
+export interface ScoreOptions {
+  /**
+   * Match on distance alone, ignoring the contractor's declared service area.
+   * Used by the emergency dispatch cascade once it widens past the first ring.
+   */
+  ignoreServiceArea?: boolean
+  /** Contractors with priority job access, ranked ahead of equal matches */
+  priorityContractorIds?: Set<string>
+}
+
+/** Score bonus for priority job access */
+const PRIORITY_BONUS = 10
+
+/**
+ * Score one contractor for a job. Pure, so it can be reasoned about (and
+ * replayed from job_match_log) without a database.
+ */
+export function scoreContractor(job: any, contractor: any, config: JobMatchConfig, options: ScoreOptions = {}): MatchDecision {
+  const decision: MatchDecision = {
+    contractorId: contractor.id,
+    eligible: false,
+    score: 0,
+    breakdown: {},
+    rejectReason: null,
+    distanceMiles: null,
+    rank: null,
+    channels: []
+  }
+
+  const reject = (reason: string) => {
+    decision.rejectReason = reason
+    return decision
+  }
+
+  const emergency = isEmergencyJob(job)
+  // The wizard writes emergency_service, contractor settings emergency_services
+  const emergencyService = !!(contractor.emergency_service || contractor.emergency_services)
+
+  if (job.latitude != null && job.longitude != null && contractor.latitude != null && contractor.longitude != null) {
+    decision.distanceMiles = Math.round(distanceMiles(
+      Number(contractor.latitude),
+      Number(contractor.longitude),
+      Number(job.latitude),
+      Number(job.longitude)
+    ) * 10) / 10
+  }
+
+  // 1. Hard requirements
+  if (contractor.status !== 'approved') return reject('not approved')
+  if (contractor.kyc_status !== 'completed') return reject('KYC not completed')
+
+  const categories: string[] = contractor.categories || []
+  const overlap = matchingCategories(job.category, categories)
+  if (job.category && categories.length > 0 && overlap.length === 0) return reject('category mismatch')
+
+  const jobZips = [job.location_zip, job.zip_code]
+  const covered = coversLocation(contractor, { zips: jobZips, latitude: job.latitude, longitude: job.longitude })
+  if (options.ignoreServiceArea) {
+    if (decision.distanceMiles == null) return reject('location unknown')
+  } else if (!covered) {
+    return reject('outside service area')
+  }
+
+  if (decision.distanceMiles != null && decision.distanceMiles > config.maxDistanceMiles) {
+    return reject(`more than ${config.maxDistanceMiles} miles away`)
+  }
+
+  if (emergency && !emergencyService && !contractor.twenty_four_seven) {
+    return reject('no emergency service')
+  }
+
+  if (emergency && contractor.availability === 'offline') return reject('offline')
+
+  // 2. Score
+  const breakdown: Record<string, number> = {}
+
+  breakdown.category = overlap.length > 0 ? 25 : 10
+
+  const zipMatch = jobZips.some(zip => zip && coverageZips(contractor).includes(zip))
+  breakdown.coverage = zipMatch ? 15 : covered ? 10 : 0
+
+  breakdown.availability = contractor.availability === 'online' ? 20 : contractor.availability === 'busy' ? 5 : 0
+
+  breakdown.emergency = emergency
+    ? (contractor.twenty_four_seven ? 10 : 0) + (emergencyService ? 5 : 0)
+    : 0
+
+  breakdown.distance = decision.distanceMiles != null
+    ? Math.round(20 * Math.max(0, 1 - decision.distanceMiles / config.maxDistanceMiles) * 10) / 10
+    : 5
+
+  const rating = Number(contractor.rating)
+  breakdown.rating = rating > 0 ? Math.round((Math.min(rating, 5) / 5) * 10 * 10) / 10 : 5
+
+  if (options.priorityContractorIds?.has(contractor.id)) breakdown.priority = PRIORITY_BONUS
+
+  decision.eligible = true
+  decision.breakdown = breakdown
+  decision.score = Math.round(Object.values(breakdown).reduce((sum, v) => sum + v, 0) * 100) / 100
+  return decision
+}
+
+/**
+ * Score every approved contractor for a job, best first
+ */
+export function rankContractors(job: any, contractors: any[], config: JobMatchConfig, options: ScoreOptions = {}): MatchDecision[] {
+  const decisions = contractors.map(c => scoreContractor(job, c, config, options))
+
+  const eligible = decisions
+    .filter(d => d.eligible)
+    .sort((a, b) => b.score - a.score || (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity))
+
+  eligible.forEach((d, i) => { d.rank = i + 1 })
+
+  return [...eligible, ...decisions.filter(d => !d.eligible)]
+}
+
+/**
+ * Alert one matched contractor on the channels they opted into
+ */
+async function alertContractor(
+  supabase: SupabaseClient,
+  job: any,
+  contractor: any,
+  homeownerName: string
+): Promise<AlertChannel[]> {
+  const emergency = isEmergencyJob(job)
+  const contractorName = contractor.business_name || contractor.name || 'there'
+  const category = job.category || 'job'
+
+  if (alertPreferences(contractor).emergency_only && !emergency) return []
+
+  const result = await dispatchNotification(supabase, {
+    userId: contractor.id,
+    event: 'new_job_posted',
+    emergency,
+    jobId: job.id,
+    inApp: {
+      type: 'new_job_posted',
+      title: emergency ? '🚨 Emergency Job in Your Area' : '💼 New Job in Your Area',
+      message: `${homeownerName} posted a ${category} job: "${job.title}"`,
+      job_id: job.id
+    },
+    email: {
+      to: contractor.email,
+      send: (to) => notifyNewJob({
+        contractorEmail: to,
+        contractorName,
+        jobTitle: job.title,
+        jobCategory: category,
+        jobAddress: job.zip_code || job.location_zip || 'See job details',
+        homeownerPhone: 'Shared once your bid is accepted'
+      })
+    },
+    sms: {
+      to: contractor.phone,
+      send: (to) => sendNewJobSMS({
+        contractorPhone: to,
+        contractorName,
+        jobTitle: job.title,
+        jobCategory: category,
+        emergency
+      })
+    }
+  })
+
+  return result.delivered
+}
+
+/**
+ * Match a newly posted job and alert the top contractors. Runs once per job
+ * unless `force` is set; jobs sent to a specific contractor are not fanned out.
+ */
+export async function dispatchJobMatches(params: {
+  supabase: SupabaseClient
+  jobId: string
+  force?: boolean
+  config?: JobMatchConfig
+}): Promise<JobMatchSummary> {
+  const { supabase, jobId } = params
+  const config = params.config || getJobMatchConfig()
+  const summary: JobMatchSummary = { jobId, evaluated: 0, eligible: 0, notified: 0 }
+
+  // 1. Load the job
+  const { data: job, error: jobError } = await supabase
+    .from('homeowner_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single()
+
+  if (jobError || !job) {
+    throw new Error('Job not found')
+  }
+
+  if (!OPEN_JOB_STATUSES.includes(job.status)) {
+    return { ...summary, skipped: `job is ${job.status}` }
+  }
+
+  if (job.requested_contractor_id) {
+    return { ...summary, skipped: 'job was sent to a specific contractor' }
+  }
+
+  if (!params.force) {
+    const { count } = await supabase
+      .from('job_match_log')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+
+    if (count && count > 0) {
+      return { ...summary, skipped: 'already matched' }
+    }
+  }
+
+  // 2. Score every approved contractor
+  const { data: contractors, error: contractorsError } = await supabase
+    .from('pro_contractors')
+    .select('*')
+    .eq('status', 'approved')
+
+  if (contractorsError) throw contractorsError
+
+  const priorityContractorIds = await usersWithEntitlement(
+    supabase,
+    (contractors || []).map((c: any) => c.id),
+    'priority_jobs'
+  )
+
+  const decisions = rankContractors(job, contractors || [], config, { priorityContractorIds })
+  const byId = new Map((contractors || []).map((c: any) => [c.id, c]))
+
+  summary.evaluated = decisions.length
+  summary.eligible = decisions.filter(d => d.eligible).length
+
+  // 3. Alert the top N
+  const { data: homeowner } = await supabase
+    .from('user_profiles')
+    .select('name')
+    .eq('id', job.homeowner_id)
+    .single()
+
+  const limit = isEmergencyJob(job) ? config.emergencyTopN : config.topN
+
+  for (const decision of decisions) {
+    if (!decision.rank || decision.rank > limit) continue
+
+    try {
+      decision.channels = await alertContractor(supabase, job, byId.get(decision.contractorId), homeowner?.name || 'A homeowner')
+      if (decision.channels.length > 0) summary.notified++
+    } catch (error: any) {
+      console.error('[MATCH] Failed to alert contractor:', decision.contractorId, error.message)
+    }
+  }
+
+  // 4. Log every decision
+  if (decisions.length > 0) {
+    const { error: logError } = await supabase.from('job_match_log').insert(
+      decisions.map(d => ({
+        job_id: jobId,
+        contractor_id: d.contractorId,
+        eligible: d.eligible,
+        score: d.eligible ? d.score : null,
+        rank: d.rank,
+        score_breakdown: { ...d.breakdown, distance_miles: d.distanceMiles },
+        reject_reason: d.rejectReason || (d.rank && d.rank > limit ? `ranked below top ${limit}` : null),
+        notified_channels: d.channels
+      }))
+    )
+    if (logError) console.error('[MATCH] Failed to write match log:', logError.message)
+  }
+
+  console.log(`[MATCH] Job ${jobId}: ${summary.eligible}/${summary.evaluated} eligible, ${summary.notified} notified`)
+  return summary
+}
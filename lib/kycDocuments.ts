@@ -0,0 +1,158 @@
+/**
+ * KYC documents for Rushr
+ *
+ * The document types, what verification requires and how a user's overall
+ * status follows from their documents (a resubmission supersedes the
+ * document it replaces):
+ * - completed once an identity document and a proof of address are approved
+ * - failed while any document is rejected, needs replacing or has expired;
+ *   the user then resubmits only those documents
+ *
+ * Licenses and insurance certificates carry an expiry date. Kept free of the
+ * email / notification senders so pages can import it; reviews and the
+ * expiry sweep live in kycReview.ts.
+ */
+
+export type KycDocumentType =
+  | 'drivers_license'
+  | 'passport'
+  | 'id_card'
+  | 'utility_bill'
+  | 'bank_statement'
+  | 'business_license'
+  | 'contractor_license'
+  | 'insurance_certificate'
+
+export type KycDocumentStatus = 'pending' | 'under_review' | 'verified' | 'rejected' | 'replacement_requested' | 'expired'
+export type KycDecision = 'approve' | 'reject' | 'request_replacement'
+export type KycHistoryAction = 'submitted' | 'approved' | 'rejected' | 'replacement_requested' | 'expired'
+
+/** Same values as pro_contractors.kyc_status */
+export type KycOverallStatus = 'not_started' | 'in_progress' | 'completed' | 'failed'
+
+export const KYC_DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  drivers_license: "Driver's License",
+  passport: 'Passport',
+  id_card: 'State ID Card',
+  utility_bill: 'Utility Bill',
+  bank_statement: 'Bank Statement',
+  business_license: 'Business License',
+  contractor_license: 'Contractor License',
+  insurance_certificate: 'Certificate of Insurance'
+}
+
+/** Document types that must carry an expiry date */
+export const EXPIRING_DOCUMENT_TYPES: KycDocumentType[] = ['business_license', 'contractor_license', 'insurance_certificate']
+
+/** One approved document from each group completes verification */
+export const KYC_REQUIREMENTS: { key: string; label: string; types: KycDocumentType[] }[] = [
+  { key: 'identity', label: 'Government-issued photo ID', types: ['drivers_license', 'passport', 'id_card'] },
+  { key: 'address', label: 'Proof of address', types: ['utility_bill', 'bank_statement'] }
+]
+
+export const NEEDS_ACTION_STATUSES: KycDocumentStatus[] = ['rejected', 'replacement_requested', 'expired']
+
+export const KYC_HISTORY_LABELS: Record<KycHistoryAction, string> = {
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  replacement_requested: 'Replacement requested',
+  expired: 'Expired'
+}
+
+export interface KycDocument {
+  id: string
+  user_id: string
+  document_type: KycDocumentType
+  document_url: string
+  status: KycDocumentStatus
+  rejection_reason: string | null
+  verified_by: string | null
+  verified_at: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  expires_at: string | null
+  replaces_document_id: string | null
+  superseded_at: string | null
+  expiry_reminders_sent: number
+  created_at: string
+  updated_at: string
+}
+
+export interface KycHistoryEntry {
+  id: string
+  document_id: string
+  user_id: string
+  document_type: KycDocumentType
+  action: KycHistoryAction
+  reason: string | null
+  actor_id: string | null
+  created_at: string
+}
+
+export interface KycSummary {
+  status: KycOverallStatus
+  verified: boolean
+  /** Current documents that were rejected, need replacing or expired */
+  needsAction: KycDocument[]
+  /** Requirements with no document uploaded yet */
+  missing: { key: string; label: string }[]
+  /** What the user has to send, for notifyKYCRefused */
+  requestedDocuments: string | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function isExpiringType(type: KycDocumentType): boolean {
+  return EXPIRING_DOCUMENT_TYPES.includes(type)
+}
+
+export function documentLabel(type: string): string {
+  return KYC_DOCUMENT_LABELS[type as KycDocumentType] || type.replace(/_/g, ' ')
+}
+
+/** Whole days from today (UTC) until a YYYY-MM-DD date; negative once past */
+export function daysUntil(date: string, now: Date): number {
+  const today = Date.parse(now.toISOString().slice(0, 10))
+  return Math.round((Date.parse(date.slice(0, 10)) - today) / DAY_MS)
+}
+
+export function requirementFor(type: KycDocumentType) {
+  return KYC_REQUIREMENTS.find(requirement => requirement.types.includes(type)) || null
+}
+
+function describeRequestedDocument(doc: KycDocument): string {
+  const label = documentLabel(doc.document_type)
+
+  if (doc.status === 'expired') {
+    return `${label} (expired${doc.expires_at ? ` ${doc.expires_at}` : ''})`
+  }
+
+  return doc.rejection_reason ? `${label} (${doc.rejection_reason})` : label
+}
+
+/**
+ * Derive the overall status from a user's documents
+ */
+export function summarizeKyc(documents: KycDocument[]): KycSummary {
+  const current = documents.filter(doc => !doc.superseded_at)
+  const needsAction = current.filter(doc => NEEDS_ACTION_STATUSES.includes(doc.status))
+
+  const missing = KYC_REQUIREMENTS
+    .filter(requirement => !current.some(doc => requirement.types.includes(doc.document_type)))
+    .map(({ key, label }) => ({ key, label }))
+
+  const verified = needsAction.length === 0 && KYC_REQUIREMENTS.every(requirement =>
+    current.some(doc => requirement.types.includes(doc.document_type) && doc.status === 'verified')
+  )
+
+  const requested = [...needsAction.map(describeRequestedDocument), ...missing.map(requirement => requirement.label)]
+
+  return {
+    status: needsAction.length > 0 ? 'failed' : verified ? 'completed' : current.length > 0 ? 'in_progress' : 'not_started',
+    verified,
+    needsAction,
+    missing,
+    requestedDocuments: requested.length > 0 ? requested.join('; ') : null
+  }
+}
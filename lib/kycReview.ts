@@ -0,0 +1,544 @@
+/**
+ * KYC Document Review for Rushr
+ *
+ * Admins decide on each uploaded document: approve it, reject it with a
+ * reason, or ask for a replacement. Every upload and decision is kept in
+ * kyc_review_history, so the user and admins can see how a verification got
+ * where it is, and the overall status is stored back on pro_contractors and
+ * user_profiles after each change (see kycDocuments.ts for how it is derived).
+ *
+ * The expiry sweep reminds owners of licenses and insurance certificates
+ * ahead of the expiry date and marks the document expired once it passes,
+ * which sends them back through re-verification.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { notifyKYCRefused, notifyKycDocumentExpiring } from './emailService'
+import { dispatchNotification } from './notificationDispatcher'
+import {
+  KycDecision,
+  KycDocument,
+  KycDocumentStatus,
+  KycDocumentType,
+  KycHistoryAction,
+  KycHistoryEntry,
+  KycSummary,
+  KYC_DOCUMENT_LABELS,
+  daysUntil,
+  documentLabel,
+  isExpiringType,
+  requirementFor,
+  summarizeKyc
+} from './kycDocuments'
+
+const DECISION_STATUS: Record<KycDecision, KycDocumentStatus> = {
+  approve: 'verified',
+  reject: 'rejected',
+  request_replacement: 'replacement_requested'
+}
+
+const DECISION_ACTION: Record<KycDecision, KycHistoryAction> = {
+  approve: 'approved',
+  reject: 'rejected',
+  request_replacement: 'replacement_requested'
+}
+
+export interface KycExpiryConfig {
+  /** Days before expiry at which a reminder is sent */
+  reminderDays: number[]
+}
+
+export interface KycExpirySummary {
+  checked: number
+  remindersSent: number
+  expired: number
+  failed: number
+}
+
+export class KycReviewError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'KycReviewError'
+    this.status = status
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Read the reminder schedule from the environment. KYC_EXPIRY_REMINDER_DAYS
+ * is a comma-separated list and defaults to 30,7.
+ */
+export function getKycExpiryConfig(): KycExpiryConfig {
+  const reminderDays = (process.env.KYC_EXPIRY_REMINDER_DAYS || '30,7')
+    .split(',')
+    .map(value => Number(value.trim()))
+    .filter(value => Number.isFinite(value) && value > 0)
+    .sort((a, b) => b - a)
+
+  return { reminderDays }
+}
+
+/**
+ * Approved documents inside the reminder window, which can be renewed early
+ */
+export function findExpiringSoon(documents: KycDocument[], now: Date, config = getKycExpiryConfig()): KycDocument[] {
+  const window = Math.max(0, ...config.reminderDays)
+
+  return documents.filter(doc =>
+    !doc.superseded_at &&
+    doc.status === 'verified' &&
+    doc.expires_at !== null &&
+    daysUntil(doc.expires_at, now) <= window
+  )
+}
+
+export async function listKycDocuments(supabase: SupabaseClient, userId: string): Promise<KycDocument[]> {
+  const { data, error } = await supabase
+    .from('kyc_documents')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return data || []
+}
+
+export async function getKycHistory(supabase: SupabaseClient, userId: string): Promise<KycHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('kyc_review_history')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  return data || []
+}
+
+async function recordHistory(
+  supabase: SupabaseClient,
+  doc: KycDocument,
+  action: KycHistoryAction,
+  actorId: string | null,
+  reason?: string | null
+) {
+  const { error } = await supabase
+    .from('kyc_review_history')
+    .insert({
+      document_id: doc.id,
+      user_id: doc.user_id,
+      document_type: doc.document_type,
+      action,
+      reason: reason || null,
+      actor_id: actorId
+    })
+
+  if (error) throw error
+}
+
+/**
+ * Recompute the user's status from their documents and store it on
+ * pro_contractors (kyc_status) and user_profiles (kyc_verified). A contractor
+ * completed by other means (Stripe onboarding) stays completed unless a
+ * document now needs action.
+ */
+export async function syncKycStatus(supabase: SupabaseClient, userId: string, now = new Date()): Promise<KycSummary> {
+  const summary = summarizeKyc(await listKycDocuments(supabase, userId))
+
+  const { data: contractor } = await supabase
+    .from('pro_contractors')
+    .select('kyc_status')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (contractor) {
+    const next = contractor.kyc_status === 'completed' && summary.status !== 'failed' ? 'completed' : summary.status
+
+    if (next !== contractor.kyc_status) {
+      const { error } = await supabase
+        .from('pro_contractors')
+        .update({
+          kyc_status: next,
+          kyc_verified: next === 'completed',
+          ...(next === 'completed' ? { kyc_completed_at: now.toISOString() } : {}),
+          updated_at: now.toISOString()
+        })
+        .eq('id', userId)
+
+      if (error) throw error
+    }
+  }
+
+  if (summary.verified || summary.status === 'failed') {
+    await supabase
+      .from('user_profiles')
+      .update({ kyc_verified: summary.verified })
+      .eq('id', userId)
+  }
+
+  return summary
+}
+
+/**
+ * Record an admin's decision on one document
+ */
+export async function reviewKycDocument(params: {
+  supabase: SupabaseClient
+  documentId: string
+  reviewerId: string
+  decision: KycDecision
+  reason?: string
+  /** Expiry date read off the document; required to approve licenses and insurance */
+  expiresAt?: string | null
+  now?: Date
+}): Promise<{ before: KycDocument; document: KycDocument; summary: KycSummary }> {
+  const { supabase, documentId, reviewerId, decision } = params
+  const now = params.now || new Date()
+  const reason = params.reason?.trim() || null
+
+  if (!(decision in DECISION_STATUS)) {
+    throw new KycReviewError('Invalid decision. Must be approve, reject or request_replacement')
+  }
+
+  if (decision !== 'approve' && !reason) {
+    throw new KycReviewError('A reason is required to reject a document or request a replacement')
+  }
+
+  const { data: before } = await supabase
+    .from('kyc_documents')
+    .select('*')
+    .eq('id', documentId)
+    .maybeSingle()
+
+  if (!before) {
+    throw new KycReviewError('Document not found', 404)
+  }
+
+  if (before.superseded_at) {
+    throw new KycReviewError('A newer upload has replaced this document', 409)
+  }
+
+  const expiresAt = params.expiresAt !== undefined ? params.expiresAt : before.expires_at
+
+  if (decision === 'approve' && isExpiringType(before.document_type)) {
+    if (!expiresAt) {
+      throw new KycReviewError('Enter the expiry date shown on the document to approve it')
+    }
+    if (daysUntil(expiresAt, now) <= 0) {
+      throw new KycReviewError('This document has already expired')
+    }
+  }
+
+  const { data: document, error } = await supabase
+    .from('kyc_documents')
+    .update({
+      status: DECISION_STATUS[decision],
+      rejection_reason: decision === 'approve' ? null : reason,
+      reviewed_by: reviewerId,
+      reviewed_at: now.toISOString(),
+      expires_at: expiresAt || null,
+      ...(decision === 'approve'
+        ? { verified_by: reviewerId, verified_at: now.toISOString(), expiry_reminders_sent: 0 }
+        : {}),
+      updated_at: now.toISOString()
+    })
+    .eq('id', documentId)
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await recordHistory(supabase, document, DECISION_ACTION[decision], reviewerId, reason)
+
+  const summary = await syncKycStatus(supabase, document.user_id, now)
+
+  if (decision !== 'approve') {
+    await sendKycRefusal({
+      supabase,
+      userId: document.user_id,
+      summary,
+      reasonPrimary: decision === 'reject'
+        ? `${documentLabel(document.document_type)} was rejected`
+        : `A new ${documentLabel(document.document_type)} is needed`,
+      reasonDetails: reason!,
+      now
+    })
+  }
+
+  return { before, document, summary }
+}
+
+/**
+ * Add a document the user has uploaded to the kyc-documents bucket. A
+ * resubmission names the document it replaces, which must be the user's own
+ * and of the same kind.
+ */
+export async function submitKycDocument(params: {
+  supabase: SupabaseClient
+  userId: string
+  documentType: KycDocumentType
+  documentUrl: string
+  expiresAt?: string | null
+  replacesDocumentId?: string | null
+  now?: Date
+}): Promise<{ document: KycDocument; summary: KycSummary }> {
+  const { supabase, userId, documentType, documentUrl, replacesDocumentId } = params
+  const now = params.now || new Date()
+  const expiresAt = params.expiresAt || null
+
+  if (!(documentType in KYC_DOCUMENT_LABELS)) {
+    throw new KycReviewError('Invalid document type')
+  }
+
+  if (!documentUrl?.includes(`/kyc-documents/${userId}/`)) {
+    throw new KycReviewError('Upload the file to your own KYC folder first')
+  }
+
+  if (isExpiringType(documentType) && !expiresAt) {
+    throw new KycReviewError(`Enter the expiry date of your ${documentLabel(documentType).toLowerCase()}`)
+  }
+
+  if (expiresAt && (Number.isNaN(Date.parse(expiresAt)) || daysUntil(expiresAt, now) <= 0)) {
+    throw new KycReviewError('The expiry date must be in the future')
+  }
+
+  let replaced: KycDocument | null = null
+
+  if (replacesDocumentId) {
+    const { data } = await supabase
+      .from('kyc_documents')
+      .select('*')
+      .eq('id', replacesDocumentId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (!data) {
+      throw new KycReviewError('Document to replace not found', 404)
+    }
+
+    if (data.superseded_at) {
+      throw new KycReviewError('That document has already been replaced', 409)
+    }
+
+    const sameKind = data.document_type === documentType ||
+      (requirementFor(data.document_type) !== null && requirementFor(data.document_type) === requirementFor(documentType))
+
+    if (!sameKind) {
+      throw new KycReviewError(`Replace your ${documentLabel(data.document_type).toLowerCase()} with a document of the same kind`)
+    }
+
+    replaced = data
+  }
+
+  const { data: document, error } = await supabase
+    .from('kyc_documents')
+    .insert({
+      user_id: userId,
+      document_type: documentType,
+      document_url: documentUrl,
+      status: 'pending',
+      expires_at: expiresAt,
+      replaces_document_id: replaced?.id || null
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  if (replaced) {
+    const { error: supersedeError } = await supabase
+      .from('kyc_documents')
+      .update({ superseded_at: now.toISOString(), updated_at: now.toISOString() })
+      .eq('id', replaced.id)
+
+    if (supersedeError) throw supersedeError
+  }
+
+  await recordHistory(supabase, document, 'submitted', userId)
+
+  return { document, summary: await syncKycStatus(supabase, userId, now) }
+}
+
+/**
+ * Tell a user which documents to send again, in-app and with the KYC refusal
+ * email. requestedDocuments defaults to what the documents say is needed.
+ */
+export async function sendKycRefusal(params: {
+  supabase: SupabaseClient
+  userId: string
+  summary: KycSummary
+  reasonPrimary: string
+  reasonDetails: string
+  requestedDocuments?: string
+  now?: Date
+}): Promise<void> {
+  const { supabase, userId, summary, reasonPrimary, reasonDetails } = params
+  const now = params.now || new Date()
+  const requestedDocuments = params.requestedDocuments ||
+    summary.requestedDocuments ||
+    'Valid government-issued ID, Business license (if applicable), Proof of insurance'
+
+  const [{ data: contractor }, { data: profile }, { data: auth }] = await Promise.all([
+    supabase.from('pro_contractors').select('name, business_name').eq('id', userId).maybeSingle(),
+    supabase.from('user_profiles').select('name').eq('id', userId).maybeSingle(),
+    supabase.auth.admin.getUserById(userId)
+  ])
+
+  const link = contractor ? '/pro/kyc' : '/profile/kyc'
+
+  await dispatchNotification(supabase, {
+    userId,
+    event: 'kyc_update',
+    inApp: {
+      type: 'warning',
+      title: reasonPrimary,
+      message: `Please resubmit: ${requestedDocuments}`,
+      link
+    },
+    email: {
+      to: auth?.user?.email,
+      send: (to) => notifyKYCRefused({
+        contractorEmail: to,
+        contractorName: contractor?.business_name || contractor?.name || profile?.name || 'there',
+        caseId: `KYC-${userId.slice(0, 8).toUpperCase()}`,
+        decisionDate: now.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+        reasonPrimary,
+        reasonDetails,
+        requestedDocuments,
+        reviewUrl: `${process.env.NEXT_PUBLIC_SITE_URL}${link}`
+      })
+    }
+  })
+}
+
+/**
+ * Scheduled job: remind owners of licenses and insurance certificates that
+ * expire soon, and mark the ones past their date expired
+ */
+export async function runKycExpirySweep(params: {
+  supabase: SupabaseClient
+  config?: KycExpiryConfig
+  now?: Date
+}): Promise<KycExpirySummary> {
+  const { supabase } = params
+  const config = params.config || getKycExpiryConfig()
+  const now = params.now || new Date()
+  const summary: KycExpirySummary = { checked: 0, remindersSent: 0, expired: 0, failed: 0 }
+
+  const horizon = new Date(now.getTime() + Math.max(0, ...config.reminderDays) * DAY_MS)
+
+  const { data: documents, error } = await supabase
+    .from('kyc_documents')
+    .select('*')
+    .eq('status', 'verified')
+    .is('superseded_at', null)
+    .not('expires_at', 'is', null)
+    .lte('expires_at', horizon.toISOString().slice(0, 10))
+
+  if (error) throw error
+
+  for (const doc of (documents || []) as KycDocument[]) {
+    summary.checked++
+
+    try {
+      const daysLeft = daysUntil(doc.expires_at!, now)
+
+      if (daysLeft <= 0) {
+        if (await expireDocument(supabase, doc, now)) summary.expired++
+        continue
+      }
+
+      const due = config.reminderDays.filter(days => daysLeft <= days).length
+      if (due > (doc.expiry_reminders_sent || 0) && await sendExpiryReminder(supabase, doc, due, daysLeft)) {
+        summary.remindersSent++
+      }
+    } catch (err) {
+      console.error(`KYC expiry sweep failed for document ${doc.id}:`, err)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+async function expireDocument(supabase: SupabaseClient, doc: KycDocument, now: Date): Promise<boolean> {
+  // Guard on the status so overlapping runs expire each document once
+  const { data: updated, error } = await supabase
+    .from('kyc_documents')
+    .update({ status: 'expired', updated_at: now.toISOString() })
+    .eq('id', doc.id)
+    .eq('status', 'verified')
+    .select('id')
+
+  if (error) throw error
+  if (!updated || updated.length === 0) return false
+
+  await recordHistory(supabase, doc, 'expired', null, `Expired on ${doc.expires_at}`)
+
+  const summary = await syncKycStatus(supabase, doc.user_id, now)
+
+  await sendKycRefusal({
+    supabase,
+    userId: doc.user_id,
+    summary,
+    reasonPrimary: `Your ${documentLabel(doc.document_type)} has expired`,
+    reasonDetails: `The ${documentLabel(doc.document_type).toLowerCase()} on file expired on ${doc.expires_at}. Upload the renewed document to restore your verification.`,
+    now
+  })
+
+  return true
+}
+
+async function sendExpiryReminder(
+  supabase: SupabaseClient,
+  doc: KycDocument,
+  reminderNumber: number,
+  daysLeft: number
+): Promise<boolean> {
+  const { data: updated, error } = await supabase
+    .from('kyc_documents')
+    .update({ expiry_reminders_sent: reminderNumber })
+    .eq('id', doc.id)
+    .eq('expiry_reminders_sent', doc.expiry_reminders_sent || 0)
+    .select('id')
+
+  if (error) throw error
+  if (!updated || updated.length === 0) return false
+
+  const [{ data: contractor }, { data: profile }, { data: auth }] = await Promise.all([
+    supabase.from('pro_contractors').select('name, business_name').eq('id', doc.user_id).maybeSingle(),
+    supabase.from('user_profiles').select('name').eq('id', doc.user_id).maybeSingle(),
+    supabase.auth.admin.getUserById(doc.user_id)
+  ])
+
+  const label = documentLabel(doc.document_type)
+  const link = contractor ? '/pro/kyc' : '/profile/kyc'
+
+  await dispatchNotification(supabase, {
+    userId: doc.user_id,
+    event: 'kyc_update',
+    inApp: {
+      type: 'warning',
+      title: `${label} expires soon`,
+      message: `Your ${label.toLowerCase()} expires on ${doc.expires_at}. Upload the renewed document to stay verified.`,
+      link
+    },
+    email: {
+      to: auth?.user?.email,
+      send: (to) => notifyKycDocumentExpiring({
+        recipientEmail: to,
+        recipientName: contractor?.business_name || contractor?.name || profile?.name || 'there',
+        documentLabel: label,
+        expiresOn: doc.expires_at!,
+        daysLeft,
+        reviewUrl: `${process.env.NEXT_PUBLIC_SITE_URL}${link}`
+      })
+    }
+  })
+
+  return true
+}
@@ -0,0 +1,551 @@
+/**
+ * Live Contractor Tracking for Rushr
+ *
+ * Contractors' devices post GPS fixes to /api/jobs/[id]/location while they
+ * are on a job; everything the homeowner sees is computed here rather than
+ * trusted from the client:
+ * - Fixes are validated (range, accuracy, timestamp, implausible jumps) and
+ *   rate-limited per contractor and job
+ * - Every accepted fix is appended to location_history
+ * - Distance and ETA come from how fast the contractor has actually been
+ *   closing in on the job over the recent history, then from the reported
+ *   speed and heading, and finally from a straight-line estimate
+ * - A geofence around the job's lat/lng detects arrival: the job is stamped
+ *   contractor_arrived_at (legacy bid_accepted jobs move to in_progress) and
+ *   the homeowner is notified once
+ *
+ * The results are written to contractor_locations and
+ * contractor_location_tracking, which the tracking map and the Teams page
+ * read. Time and notifications are injectable.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Clock, systemClock } from './clock'
+import { bearingDegrees, distanceMeters } from './geo'
+import { LifecycleError, transitionJob } from './bidLifecycle'
+import { dispatchNotification } from './notificationDispatcher'
+import { sendSMS } from './smsService'
+
+export type TrackingStatus = 'en_route' | 'arrived'
+export type EtaMethod = 'history' | 'heading' | 'straight_line'
+
+/** A validated GPS fix; speed in m/s, heading in degrees */
+export interface LocationFix {
+  latitude: number
+  longitude: number
+  accuracy: number | null
+  heading: number | null
+  speed: number | null
+  recordedAt: Date
+}
+
+export interface HistoryPoint {
+  latitude: number
+  longitude: number
+  accuracy: number | null
+  heading: number | null
+  speed: number | null
+  recorded_at: string
+}
+
+export interface EtaEstimate {
+  distanceMeters: number
+  etaSeconds: number
+  method: EtaMethod
+}
+
+export interface TrackingConfig {
+  /** Shortest allowed gap between two fixes from one device */
+  minIntervalSeconds: number
+  /** Fixes less accurate than this are rejected */
+  maxAccuracyMeters: number
+  /** Faster implied movement between fixes is treated as a GPS glitch */
+  maxSpeedMps: number
+  /** Fixes recorded longer ago than this are rejected */
+  maxFixAgeSeconds: number
+  /** Radius of the arrival geofence around the job */
+  arrivalRadiusMeters: number
+  /** Speed assumed when there is nothing better to go on (~40 km/h) */
+  fallbackSpeedMps: number
+  /** Road distance over straight-line distance for the fallback estimate */
+  detourFactor: number
+  /** How far back the history-based ETA looks */
+  historyWindowSeconds: number
+}
+
+export interface IngestResult {
+  status: TrackingStatus
+  hasArrived: boolean
+  /** True only for the fix that tripped the geofence */
+  arrivedNow: boolean
+  distanceMeters: number
+  etaMinutes: number
+  estimatedArrivalAt: string
+  etaMethod: EtaMethod
+  nextUpdateInSeconds: number
+}
+
+/** Side effects of an arrival; replace in tests */
+export interface TrackingNotifier {
+  contractorArrived(job: TrackedJob, contractorName: string): Promise<void>
+}
+
+export interface TrackingDeps {
+  supabase: SupabaseClient
+  clock?: Clock
+  config?: TrackingConfig
+  notifier?: TrackingNotifier
+}
+
+interface TrackedJob {
+  id: string
+  title: string
+  status: string
+  homeowner_id: string
+  contractor_id: string | null
+  assigned_tech_id: string | null
+  latitude: number | null
+  longitude: number | null
+  contractor_en_route_at: string | null
+  contractor_arrived_at: string | null
+}
+
+/** Job statuses during which a contractor can be tracked */
+export const TRACKABLE_JOB_STATUSES = ['bid_accepted', 'in_progress']
+
+export class TrackingError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'TrackingError'
+    this.status = status
+  }
+}
+
+/**
+ * Read tracking settings from the environment.
+ * TRACKING_ARRIVAL_RADIUS_METERS defaults to 75, TRACKING_MIN_INTERVAL_SECONDS
+ * to 3 and TRACKING_MAX_ACCURACY_METERS to 150.
+ */
+export function getTrackingConfig(): TrackingConfig {
+  return {
+    minIntervalSeconds: Number(process.env.TRACKING_MIN_INTERVAL_SECONDS) || 3,
+    maxAccuracyMeters: Number(process.env.TRACKING_MAX_ACCURACY_METERS) || 150,
+    maxSpeedMps: 70,
+    maxFixAgeSeconds: 120,
+    arrivalRadiusMeters: Number(process.env.TRACKING_ARRIVAL_RADIUS_METERS) || 75,
+    fallbackSpeedMps: 11,
+    detourFactor: 1.3,
+    historyWindowSeconds: 180
+  }
+}
+
+function resolve(deps: TrackingDeps) {
+  return {
+    supabase: deps.supabase,
+    clock: deps.clock || systemClock,
+    config: deps.config || getTrackingConfig(),
+    notifier: deps.notifier || defaultNotifier(deps.supabase)
+  }
+}
+
+/**
+ * Tell the homeowner their contractor is at the door, per their preferences
+ */
+export function defaultNotifier(supabase: SupabaseClient): TrackingNotifier {
+  return {
+    async contractorArrived(job, contractorName) {
+      const { data: homeowner } = await supabase
+        .from('user_profiles')
+        .select('phone')
+        .eq('id', job.homeowner_id)
+        .maybeSingle()
+
+      const message = `${contractorName} has arrived for "${job.title}".`
+
+      await dispatchNotification(supabase, {
+        userId: job.homeowner_id,
+        event: 'contractor_arrival',
+        jobId: job.id,
+        inApp: {
+          type: 'info',
+          title: 'Your contractor has arrived',
+          message,
+          job_id: job.id,
+          link: `/jobs/${job.id}/track`
+        },
+        sms: {
+          to: homeowner?.phone,
+          send: (to) => sendSMS({
+            to,
+            message: `Rushr: ${message}`,
+            idempotencyKey: `contractor-arrived:${job.id}`
+          })
+        },
+        push: { title: 'Your contractor has arrived', body: message, link: `/jobs/${job.id}/track` }
+      })
+    }
+  }
+}
+
+function optionalNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * Validate a fix posted by a device. `timestamp` may be epoch milliseconds
+ * (what watchPosition reports) or an ISO string; it defaults to now.
+ */
+export function parseLocationFix(input: any, now: Date, config: TrackingConfig): LocationFix {
+  const latitude = optionalNumber(input?.latitude)
+  const longitude = optionalNumber(input?.longitude)
+
+  if (latitude === null || longitude === null || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    throw new TrackingError('latitude and longitude are required and must be valid coordinates')
+  }
+  if (latitude === 0 && longitude === 0) {
+    throw new TrackingError('Location fix is not a real position')
+  }
+
+  const accuracy = optionalNumber(input.accuracy)
+  if (accuracy !== null && (accuracy < 0 || accuracy > config.maxAccuracyMeters)) {
+    throw new TrackingError(`Location fix is too inaccurate (±${Math.round(accuracy)} m)`)
+  }
+
+  const speed = optionalNumber(input.speed)
+  const heading = optionalNumber(input.heading)
+
+  let recordedAt = now
+  if (input.timestamp !== undefined && input.timestamp !== null) {
+    recordedAt = new Date(typeof input.timestamp === 'number' ? input.timestamp : String(input.timestamp))
+    if (isNaN(recordedAt.getTime())) {
+      throw new TrackingError('timestamp is not a valid time')
+    }
+  }
+
+  const ageSeconds = (now.getTime() - recordedAt.getTime()) / 1000
+  if (ageSeconds < -60) {
+    throw new TrackingError('timestamp is in the future')
+  }
+  if (ageSeconds > config.maxFixAgeSeconds) {
+    throw new TrackingError('Location fix is too old')
+  }
+
+  return {
+    latitude,
+    longitude,
+    accuracy,
+    speed: speed !== null && speed >= 0 ? speed : null,
+    heading: heading !== null && heading >= 0 && heading <= 360 ? heading : null,
+    recordedAt
+  }
+}
+
+/**
+ * Distance and time to the job. Prefers the rate at which the distance has
+ * actually been shrinking over the recent history (which already includes
+ * turns and traffic), then the reported speed projected onto the direction
+ * of the job, then a straight-line estimate at an assumed city speed.
+ * `history` is newest first and does not include `fix`.
+ */
+export function estimateEta(
+  fix: LocationFix,
+  destination: { latitude: number; longitude: number },
+  history: HistoryPoint[],
+  config: TrackingConfig
+): EtaEstimate {
+  const distance = distanceMeters(fix.latitude, fix.longitude, destination.latitude, destination.longitude)
+
+  if (distance <= config.arrivalRadiusMeters) {
+    return { distanceMeters: distance, etaSeconds: 0, method: 'straight_line' }
+  }
+
+  // Closing speed against the oldest fix in the window that is far enough back to be meaningful
+  const windowStart = fix.recordedAt.getTime() - config.historyWindowSeconds * 1000
+  const baseline = [...history]
+    .reverse()
+    .find(point => {
+      const at = new Date(point.recorded_at).getTime()
+      return at >= windowStart && fix.recordedAt.getTime() - at >= 15000
+    })
+
+  if (baseline) {
+    const elapsed = (fix.recordedAt.getTime() - new Date(baseline.recorded_at).getTime()) / 1000
+    const before = distanceMeters(baseline.latitude, baseline.longitude, destination.latitude, destination.longitude)
+    const closingSpeed = (before - distance) / elapsed
+
+    if (closingSpeed >= 1) {
+      return { distanceMeters: distance, etaSeconds: distance / closingSpeed, method: 'history' }
+    }
+  }
+
+  if (fix.speed !== null && fix.speed >= 1 && fix.heading !== null) {
+    const bearing = bearingDegrees(fix.latitude, fix.longitude, destination.latitude, destination.longitude)
+    const offCourse = (Math.abs(fix.heading - bearing) % 360) * Math.PI / 180
+    const approachSpeed = fix.speed * Math.cos(offCourse)
+
+    if (approachSpeed >= 1) {
+      return { distanceMeters: distance, etaSeconds: (distance * config.detourFactor) / approachSpeed, method: 'heading' }
+    }
+  }
+
+  return {
+    distanceMeters: distance,
+    etaSeconds: (distance * config.detourFactor) / config.fallbackSpeedMps,
+    method: 'straight_line'
+  }
+}
+
+/**
+ * Whether a fix is inside the arrival geofence. The fix's accuracy counts in
+ * the contractor's favour, up to the size of the fence itself.
+ */
+export function insideGeofence(
+  point: { latitude: number; longitude: number; accuracy?: number | null },
+  destination: { latitude: number; longitude: number },
+  config: TrackingConfig
+): boolean {
+  const distance = distanceMeters(point.latitude, point.longitude, destination.latitude, destination.longitude)
+  const slack = Math.min(point.accuracy ?? 0, config.arrivalRadiusMeters)
+  return distance - slack <= config.arrivalRadiusMeters
+}
+
+/**
+ * Arrival needs the fix inside the geofence and either the previous fix
+ * inside too or the contractor slowed down, so driving past the house does
+ * not count.
+ */
+export function detectArrival(
+  fix: LocationFix,
+  previous: HistoryPoint | null,
+  destination: { latitude: number; longitude: number },
+  config: TrackingConfig
+): boolean {
+  if (!insideGeofence(fix, destination, config)) return false
+  if (previous && insideGeofence(previous, destination, config)) return true
+  return fix.speed === null || fix.speed < 2
+}
+
+async function loadTrackedJob(supabase: SupabaseClient, jobId: string, contractorId: string): Promise<TrackedJob> {
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('id, title, status, homeowner_id, contractor_id, assigned_tech_id, latitude, longitude, contractor_en_route_at, contractor_arrived_at')
+    .eq('id', jobId)
+    .maybeSingle()
+
+  if (!job) {
+    throw new TrackingError('Job not found', 404)
+  }
+
+  // Jobs accepted before contractor_id was recorded fall back to the accepted bid
+  let jobContractorId = job.contractor_id
+
+  if (!jobContractorId) {
+    const { data: acceptedBid } = await supabase
+      .from('job_bids')
+      .select('contractor_id')
+      .eq('job_id', jobId)
+      .eq('status', 'accepted')
+      .maybeSingle()
+
+    jobContractorId = acceptedBid?.contractor_id ?? null
+  }
+
+  if (jobContractorId !== contractorId && job.assigned_tech_id !== contractorId) {
+    throw new TrackingError('Only the assigned contractor can share their location for this job', 403)
+  }
+
+  if (!TRACKABLE_JOB_STATUSES.includes(job.status)) {
+    throw new TrackingError(`Location is not tracked for a job with status: ${job.status}`, 409)
+  }
+
+  if (job.latitude == null || job.longitude == null) {
+    throw new TrackingError('Job has no coordinates to track against', 409)
+  }
+
+  return { ...job, contractor_id: jobContractorId } as TrackedJob
+}
+
+/**
+ * Validate, store and evaluate one fix from the contractor's device
+ */
+export async function ingestLocation(
+  deps: TrackingDeps,
+  params: { jobId: string; contractorId: string; input: any }
+): Promise<IngestResult> {
+  const { supabase, clock, config, notifier } = resolve(deps)
+  const { jobId, contractorId, input } = params
+  const now = clock.now()
+
+  const job = await loadTrackedJob(supabase, jobId, contractorId)
+  const destination = { latitude: Number(job.latitude), longitude: Number(job.longitude) }
+  const fix = parseLocationFix(input, now, config)
+
+  const [{ data: current }, { data: recent }] = await Promise.all([
+    supabase
+      .from('contractor_locations')
+      .select('has_arrived, last_updated')
+      .eq('contractor_id', contractorId)
+      .eq('job_id', jobId)
+      .maybeSingle(),
+    supabase
+      .from('location_history')
+      .select('latitude, longitude, accuracy, heading, speed, recorded_at')
+      .eq('contractor_id', contractorId)
+      .eq('job_id', jobId)
+      .gte('recorded_at', new Date(fix.recordedAt.getTime() - config.historyWindowSeconds * 1000).toISOString())
+      .order('recorded_at', { ascending: false })
+      .limit(30)
+  ])
+
+  if (current?.last_updated && now.getTime() - new Date(current.last_updated).getTime() < config.minIntervalSeconds * 1000) {
+    throw new TrackingError(`Send at most one location every ${config.minIntervalSeconds} seconds`, 429)
+  }
+
+  const history = ((recent || []) as any[]).map(point => ({
+    latitude: Number(point.latitude),
+    longitude: Number(point.longitude),
+    accuracy: optionalNumber(point.accuracy),
+    heading: optionalNumber(point.heading),
+    speed: optionalNumber(point.speed),
+    recorded_at: point.recorded_at
+  })) as HistoryPoint[]
+  const previous = history[0] || null
+
+  if (previous) {
+    const elapsed = (fix.recordedAt.getTime() - new Date(previous.recorded_at).getTime()) / 1000
+
+    if (elapsed <= 0) {
+      throw new TrackingError('Location fix is older than the last one recorded', 409)
+    }
+
+    const moved = distanceMeters(previous.latitude, previous.longitude, fix.latitude, fix.longitude)
+    const noise = (previous.accuracy ?? 0) + (fix.accuracy ?? 0)
+
+    if (moved > noise && (moved - noise) / elapsed > config.maxSpeedMps) {
+      throw new TrackingError('Location jumped further than is possible since the last fix')
+    }
+  }
+
+  const eta = estimateEta(fix, destination, history, config)
+  const alreadyArrived = !!job.contractor_arrived_at || !!current?.has_arrived
+  const hasArrived = alreadyArrived || detectArrival(fix, previous, destination, config)
+  const status: TrackingStatus = hasArrived ? 'arrived' : 'en_route'
+  const etaSeconds = hasArrived ? 0 : eta.etaSeconds
+  const estimatedArrivalAt = new Date(now.getTime() + etaSeconds * 1000).toISOString()
+  const nowIso = now.toISOString()
+
+  const { error: historyError } = await supabase
+    .from('location_history')
+    .insert({
+      contractor_id: contractorId,
+      job_id: jobId,
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      accuracy: fix.accuracy,
+      heading: fix.heading,
+      speed: fix.speed,
+      recorded_at: fix.recordedAt.toISOString()
+    })
+
+  if (historyError) throw historyError
+
+  const position = {
+    contractor_id: contractorId,
+    job_id: jobId,
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    accuracy: fix.accuracy,
+    heading: fix.heading,
+    speed: fix.speed
+  }
+
+  const [{ error: locationError }, { error: trackingError }] = await Promise.all([
+    supabase
+      .from('contractor_locations')
+      .upsert({
+        ...position,
+        is_active: true,
+        is_tracking_enabled: true,
+        is_en_route: !hasArrived,
+        has_arrived: hasArrived,
+        estimated_arrival_time: estimatedArrivalAt,
+        distance_to_destination: Math.round(eta.distanceMeters * 100) / 100,
+        last_updated: nowIso,
+        last_updated_at: nowIso
+      }, { onConflict: 'contractor_id,job_id' }),
+    supabase
+      .from('contractor_location_tracking')
+      .upsert({
+        ...position,
+        distance_to_job_meters: Math.round(eta.distanceMeters),
+        eta_minutes: Math.ceil(etaSeconds / 60),
+        estimated_arrival_time: estimatedArrivalAt,
+        status,
+        is_moving: fix.speed === null || fix.speed > 0.5,
+        last_update_at: nowIso,
+        updated_at: nowIso
+      }, { onConflict: 'contractor_id,job_id' })
+  ])
+
+  if (locationError) throw locationError
+  if (trackingError) throw trackingError
+
+  if (!job.contractor_en_route_at) {
+    await supabase
+      .from('homeowner_jobs')
+      .update({ contractor_en_route_at: nowIso })
+      .eq('id', jobId)
+      .is('contractor_en_route_at', null)
+  }
+
+  let arrivedNow = false
+
+  if (hasArrived && !job.contractor_arrived_at) {
+    // Guarded on contractor_arrived_at so two racing fixes notify only once
+    const { data: stamped } = await supabase
+      .from('homeowner_jobs')
+      .update({ contractor_arrived_at: nowIso })
+      .eq('id', jobId)
+      .is('contractor_arrived_at', null)
+      .select('id')
+
+    arrivedNow = !!stamped && stamped.length > 0
+
+    if (arrivedNow) {
+      if (job.status === 'bid_accepted') {
+        try {
+          await transitionJob(supabase, job, 'in_progress')
+        } catch (error) {
+          if (!(error instanceof LifecycleError)) throw error
+        }
+      }
+
+      try {
+        const { data: contractor } = await supabase
+          .from('pro_contractors')
+          .select('name, business_name')
+          .eq('id', contractorId)
+          .maybeSingle()
+
+        await notifier.contractorArrived(job, contractor?.business_name || contractor?.name || 'Your contractor')
+      } catch (error) {
+        console.error('Failed to send arrival notification:', error)
+      }
+    }
+  }
+
+  return {
+    status,
+    hasArrived,
+    arrivedNow,
+    distanceMeters: Math.round(eta.distanceMeters),
+    etaMinutes: Math.ceil(etaSeconds / 60),
+    estimatedArrivalAt,
+    etaMethod: eta.method,
+    nextUpdateInSeconds: config.minIntervalSeconds
+  }
+}
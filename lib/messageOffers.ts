@@ -0,0 +1,136 @@
+/**
+ * In-Chat Offers for Rushr
+ *
+ * Offers sent in a conversation (message_offers) move
+ * pending → accepted | declined | countered | expired. Every response runs in
+ * a database function so the status check and its side effects happen in one
+ * transaction:
+ * - Accepting turns the offer into an accepted bid on the conversation's job
+ *   (creating the job for chats that have none) through accept_job_bid(); the
+ *   homeowner then pays into escrow via /api/payments/create-hold
+ * - Countering marks the offer countered and posts a new pending offer that
+ *   points back at it, so the negotiation can be shown as a chain
+ * - /api/cron/expire-bids expires offers whose expires_at has passed
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type OfferResponse = 'accept' | 'decline' | 'counter'
+
+export interface CounterTerms {
+  price: number
+  deliveryDays: number
+  notes?: string | null
+  expiresAt?: string | null
+}
+
+export interface AcceptedOffer {
+  offerId: string
+  jobId: string
+  bidId: string
+  homeownerId: string
+  contractorId: string
+  amount: number
+}
+
+export class MessageOfferError extends Error {
+  status: number
+
+  constructor(message: string, status = 409) {
+    super(message)
+    this.name = 'MessageOfferError'
+    this.status = status
+  }
+}
+
+function toOfferError(error: { code?: string; message: string }): Error {
+  switch (error.code) {
+    case 'P0002':
+      return new MessageOfferError(error.message, 404)
+    case '42501':
+      return new MessageOfferError(error.message, 403)
+    case '55000':
+      return new MessageOfferError(error.message, 409)
+    case '23505':
+      return new MessageOfferError('The pro already has a live bid on this job', 409)
+    case '22023':
+      return new MessageOfferError(error.message, 400)
+    default:
+      return error as Error
+  }
+}
+
+/**
+ * Accept an offer on behalf of the participant who received it
+ * @throws MessageOfferError 404/403/409 mapped from the database function
+ */
+export async function acceptMessageOffer(
+  supabase: SupabaseClient,
+  params: { offerId: string; userId: string }
+): Promise<AcceptedOffer> {
+  const { data, error } = await supabase.rpc('accept_message_offer', {
+    p_offer_id: params.offerId,
+    p_user_id: params.userId
+  })
+
+  if (error) throw toOfferError(error)
+
+  return {
+    offerId: data.offer_id,
+    jobId: data.job_id,
+    bidId: data.bid_id,
+    homeownerId: data.homeowner_id,
+    contractorId: data.contractor_id,
+    amount: Number(data.amount)
+  }
+}
+
+/**
+ * Counter an offer with new terms; returns the id of the new pending offer
+ */
+export async function counterMessageOffer(
+  supabase: SupabaseClient,
+  params: { offerId: string; userId: string; terms: CounterTerms }
+): Promise<string> {
+  const { terms } = params
+
+  if (terms.expiresAt && new Date(terms.expiresAt).getTime() <= Date.now()) {
+    throw new MessageOfferError('Expiry must be in the future', 400)
+  }
+
+  const { data, error } = await supabase.rpc('counter_message_offer', {
+    p_offer_id: params.offerId,
+    p_user_id: params.userId,
+    p_price: terms.price,
+    p_delivery_days: terms.deliveryDays,
+    p_notes: terms.notes || null,
+    p_expires_at: terms.expiresAt || null
+  })
+
+  if (error) throw toOfferError(error)
+
+  return data as string
+}
+
+export async function declineMessageOffer(
+  supabase: SupabaseClient,
+  params: { offerId: string; userId: string }
+): Promise<void> {
+  const { error } = await supabase.rpc('decline_message_offer', {
+    p_offer_id: params.offerId,
+    p_user_id: params.userId
+  })
+
+  if (error) throw toOfferError(error)
+}
+
+/**
+ * Expire every pending offer whose expires_at has passed
+ */
+export async function expireMessageOffers(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc('expire_message_offers')
+
+  if (error) throw error
+
+  return data || 0
+}
@@ -0,0 +1,90 @@
+/**
+ * Message transports: the code that actually hands an email or SMS to a
+ * provider. Only the outbox worker (lib/outbox.ts) calls these; everything
+ * else enqueues through sendEmail / sendSMS. Email goes through the transport
+ * picked by EMAIL_TRANSPORT (lib/emailTransports.ts). Tests pass their own
+ * MessageTransports to processOutbox instead of these defaults.
+ */
+
+import twilio from 'twilio'
+import { getEmailTransport } from './emailTransports'
+
+export type SendResult = { success: boolean; error?: string }
+
+export interface OutboundEmail {
+  to: string
+  subject: string
+  html: string
+  text?: string
+}
+
+export interface OutboundSMS {
+  to: string
+  body: string
+}
+
+export interface MessageTransports {
+  email(message: OutboundEmail): Promise<SendResult>
+  sms(message: OutboundSMS): Promise<SendResult>
+}
+
+const accountSid = process.env.TWILIO_ACCOUNT_SID
+const authToken = process.env.TWILIO_AUTH_TOKEN
+const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER
+
+// Lazy initialization to avoid build errors when credentials aren't set
+let client: ReturnType<typeof twilio> | null = null
+
+function getTwilioClient() {
+  if (!accountSid || !authToken) {
+    console.warn('⚠️ Twilio credentials not configured. SMS notifications will not be sent.')
+    return null
+  }
+
+  // Validate accountSid format (must start with AC, not SK which is an API key)
+  if (!accountSid.startsWith('AC')) {
+    console.warn('⚠️ Invalid Twilio Account SID format. Must start with AC, not SK (API key).')
+    return null
+  }
+
+  if (!client) {
+    try {
+      client = twilio(accountSid, authToken)
+    } catch (error) {
+      console.error('⚠️ Failed to initialize Twilio client:', error)
+      return null
+    }
+  }
+
+  return client
+}
+
+/**
+ * Send an SMS message via Twilio
+ */
+export async function sendViaTwilio(message: OutboundSMS): Promise<SendResult> {
+  const twilioClient = getTwilioClient()
+
+  if (!twilioClient || !twilioPhoneNumber) {
+    return { success: false, error: 'SMS service not configured' }
+  }
+
+  try {
+    const result = await twilioClient.messages.create({
+      body: message.body,
+      from: twilioPhoneNumber,
+      to: message.to,
+    })
+
+    console.log(`✅ SMS sent successfully to ${message.to}. SID: ${result.sid}`)
+    return { success: true }
+  } catch (error: any) {
+    return { success: false, error: error.message || 'Failed to send SMS' }
+  }
+}
+
+export const defaultTransports: MessageTransports = {
+  // Resolved per message so EMAIL_TRANSPORT is read at send time
+  email: (message) => getEmailTransport()(message),
+  sms: sendViaTwilio
+}
@@ -58,10 +58,23 @@ export interface MessageOffer {
   counter_days?: number
   counter_notes?: string
   expires_at?: string
+  parent_offer_id?: string
+  job_id?: string
+  bid_id?: string
   created_at: string
   updated_at: string
 }
 
+// Result of accepting, declining or countering an offer
+export interface OfferResponseResult {
+  status: 'accepted' | 'declined' | 'countered'
+  jobId?: string
+  bidId?: string
+  homeownerId?: string
+  amount?: number
+  counterOfferId?: string
+}
+
 export interface ConversationParticipant {
   id: string
   conversation_id: string
@@ -106,8 +119,17 @@ export class MessagingAPI {
       return null
     }
 
-    // Get messages for this conversation
-    const { data: messages, error: msgError } = await supabase
+    try {
+      return { conversation, messages: await this.getMessages(conversationId) }
+    } catch (msgError) {
+      console.error('Error fetching messages:', msgError)
+      return { conversation, messages: [] }
+    }
+  }
+
+  // Get the messages in a conversation, oldest first
+  static async getMessages(conversationId: string): Promise<Message[]> {
+    const { data: messages, error } = await supabase
       .from('messages')
       .select(`
         *,
@@ -117,22 +139,38 @@ export class MessagingAPI {
       .eq('conversation_id', conversationId)
       .order('created_at', { ascending: true })
 
-    if (msgError) {
-      console.error('Error fetching messages:', msgError)
-      return { conversation, messages: [] }
-    }
+    if (error) throw error
 
     // Transform messages to include nested data
-    const transformedMessages: Message[] = (messages || []).map(msg => ({
+    return (messages || []).map(msg => ({
       ...msg,
       attachments: msg.message_attachments || [],
       offer: msg.message_offers?.[0] || undefined
     }))
+  }
 
-    return {
-      conversation,
-      messages: transformedMessages
-    }
+  // Find an existing conversation between homeowner and pro. Job chats are
+  // the conversation for that job; direct offer and welcome chats have no job.
+  static async findConversation(
+    homeownerId: string,
+    proId: string,
+    jobId?: string
+  ): Promise<Conversation | null> {
+    let query = supabase
+      .from('conversations')
+      .select('*')
+      .eq('homeowner_id', homeownerId)
+      .eq('pro_id', proId)
+
+    query = jobId ? query.eq('job_id', jobId) : query.is('job_id', null)
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    return data
   }
 
   // Create or get existing conversation between homeowner and pro
@@ -142,14 +180,7 @@ export class MessagingAPI {
     title: string,
     jobId?: string
   ): Promise<Conversation> {
-    // Try to find existing conversation
-    const { data: existing } = await supabase
-      .from('conversations')
-      .select('*')
-      .eq('homeowner_id', homeownerId)
-      .eq('pro_id', proId)
-      .eq('job_id', jobId || '')
-      .single()
+    const existing = await this.findConversation(homeownerId, proId, jobId)
 
     if (existing) {
       return existing
@@ -167,7 +198,14 @@ export class MessagingAPI {
       .select()
       .single()
 
-    if (error) throw error
+    if (error) {
+      // The other side opened it first (unique homeowner/pro/job)
+      if (error.code === '23505') {
+        const created = await this.findConversation(homeownerId, proId, jobId)
+        if (created) return created
+      }
+      throw error
+    }
     return data
   }
 
@@ -275,43 +313,42 @@ export class MessagingAPI {
     return { ...message, offer: offerData }
   }
 
-  // Update offer status (accept, decline, counter)
-  static async updateOfferStatus(
+  // Accept, decline or counter an offer. Status changes run server-side so
+  // an accepted offer becomes a job and bid in the same transaction.
+  static async respondToOffer(
     offerId: string,
-    status: MessageOffer['status'],
-    counterData?: {
-      counter_price?: number
-      counter_days?: number
-      counter_notes?: string
-    }
-  ): Promise<MessageOffer> {
-    const updateData: any = { status }
-
-    if (counterData) {
-      Object.assign(updateData, counterData)
+    action: 'accept' | 'decline' | 'counter',
+    counter?: {
+      price: number
+      delivery_days: number
+      notes?: string
+      expires_at?: string
     }
+  ): Promise<OfferResponseResult> {
+    const { data: { session } } = await supabase.auth.getSession()
+
+    const response = await fetch(`/api/message-offers/${offerId}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token}`
+      },
+      body: JSON.stringify({ action, ...counter })
+    })
 
-    const { data, error } = await supabase
-      .from('message_offers')
-      .update(updateData)
-      .eq('id', offerId)
-      .select()
-      .single()
+    const result = await response.json()
+    if (!response.ok) throw new Error(result.error || 'Failed to respond to offer')
 
-    if (error) throw error
-    return data
+    return result
   }
 
-  // Mark messages as read
+  // Mark messages as read for the signed-in user: read receipts, the inbox
+  // unread badge and their last read position
   static async markAsRead(conversationId: string, userId: string, messageId?: string): Promise<void> {
-    const { error } = await supabase
-      .from('conversation_participants')
-      .update({
-        last_read_message_id: messageId,
-        last_read_at: new Date().toISOString()
-      })
-      .eq('conversation_id', conversationId)
-      .eq('user_id', userId)
+    const { error } = await supabase.rpc('mark_conversation_read', {
+      conversation_id_param: conversationId,
+      last_message_id_param: messageId
+    })
 
     if (error) throw error
   }
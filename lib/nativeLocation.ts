@@ -2,11 +2,17 @@
 // Native location helper for iOS/Android using Capacitor Geolocation
 import { Capacitor } from '@capacitor/core'
 import { Geolocation, PermissionStatus } from '@capacitor/geolocation'
+import { supabase } from './supabaseClient'
+import type { IngestResult } from './liveTracking'
 
 export interface LocationCoordinates {
   latitude: number
   longitude: number
   accuracy?: number
+  heading?: number | null
+  speed?: number | null
+  /** When the fix was taken, epoch milliseconds */
+  timestamp?: number
 }
 
 export interface LocationResult {
@@ -184,7 +190,10 @@ export function watchPosition(
           onSuccess({
             latitude: position.coords.latitude,
             longitude: position.coords.longitude,
-            accuracy: position.coords.accuracy
+            accuracy: position.coords.accuracy,
+            heading: position.coords.heading,
+            speed: position.coords.speed,
+            timestamp: position.timestamp
           })
         }
       }
@@ -209,7 +218,10 @@ export function watchPosition(
         onSuccess({
           latitude: position.coords.latitude,
           longitude: position.coords.longitude,
-          accuracy: position.coords.accuracy
+          accuracy: position.coords.accuracy,
+          heading: position.coords.heading,
+          speed: position.coords.speed,
+          timestamp: position.timestamp
         })
       },
       (error) => {
@@ -224,6 +236,71 @@ export function watchPosition(
   }
 }
 
+// Earliest time the server accepts the next fix, per job
+const nextReportAt = new Map<string, number>()
+
+/**
+ * Send a fix to the location ingest API for a job the contractor is working.
+ * Fixes arriving before the server's rate limit allows are skipped (null).
+ * Returns the server-computed distance, ETA and arrival status.
+ */
+export async function reportJobLocation(
+  jobId: string,
+  coords: LocationCoordinates
+): Promise<IngestResult | null> {
+  if (Date.now() < (nextReportAt.get(jobId) || 0)) {
+    return null
+  }
+
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.access_token) {
+    throw new Error('Not signed in')
+  }
+
+  const response = await fetch(`/api/jobs/${jobId}/location`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`
+    },
+    body: JSON.stringify(coords)
+  })
+
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('Retry-After')) || 3
+    nextReportAt.set(jobId, Date.now() + retryAfter * 1000)
+    return null
+  }
+
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to report location')
+  }
+
+  nextReportAt.set(jobId, Date.now() + result.tracking.nextUpdateInSeconds * 1000)
+  return result.tracking
+}
+
+/**
+ * Watch the device position and report it for a job until the returned
+ * function is called
+ */
+export function startLocationReporting(
+  jobId: string,
+  onUpdate: (tracking: IngestResult) => void,
+  onError: (error: string) => void
+): () => void {
+  return watchPosition(
+    (coords) => {
+      reportJobLocation(jobId, coords)
+        .then(tracking => tracking && onUpdate(tracking))
+        .catch(error => onError(error.message))
+    },
+    onError
+  )
+}
+
 /**
  * Reverse geocode coordinates to an address
  */
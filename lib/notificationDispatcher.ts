@@ -0,0 +1,289 @@
+/**
+ * Notification dispatcher (server-side)
+ *
+ * Every notification event goes through dispatchNotification(): it loads the
+ * recipient's preferences, decides channel by channel whether to send, sends,
+ * and records each attempt in notification_deliveries with the reason it was
+ * skipped or failed ("why didn't I get a text?").
+ *
+ * In-app rows are inserted into notifications, where the database gate
+ * applies the in-app preference and writes the delivery log entry; that way
+ * rows inserted by triggers are covered too. Email and SMS content stays with
+ * the callers (emailService / smsService); they pass the recipient address
+ * and a send function. A send that only queued the message in the outbox is
+ * logged as 'queued', and the outbox worker records whether it was finally
+ * sent or failed. During quiet hours SMS and push are skipped (logged
+ * as 'Quiet hours', not sent later; in-app and email still carry the event)
+ * unless it is an emergency and the user allows emergencies through.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Clock, systemClock } from './clock'
+import {
+  DeliveryStatus,
+  INTERRUPTING_CHANNELS,
+  NOTIFICATION_EVENTS,
+  NotificationChannel,
+  NotificationEventType,
+  channelEnabled,
+  inQuietHours,
+  loadNotificationPreferences
+} from './notificationPreferences'
+
+/** messageId is set when the message was queued in the outbox rather than sent */
+type SendResult = { success: boolean; error?: string; messageId?: string }
+
+/** An email or SMS to send; `to` is null when the user has no address on file */
+export interface ChannelMessage {
+  to: string | null | undefined
+  send: (to: string) => Promise<SendResult>
+}
+
+export interface InAppMessage {
+  title: string
+  message: string
+  /** notifications.type; defaults to the event type */
+  type?: string
+  job_id?: string | null
+  bid_id?: string | null
+  conversation_id?: string | null
+  link?: string | null
+}
+
+export interface PushMessage {
+  title: string
+  body: string
+  link?: string
+}
+
+export interface NotificationRequest {
+  userId: string
+  event: NotificationEventType
+  /** Emergencies may break through quiet hours */
+  emergency?: boolean
+  jobId?: string | null
+  inApp?: InAppMessage
+  email?: ChannelMessage
+  sms?: ChannelMessage
+  push?: PushMessage
+}
+
+export interface ChannelOutcome {
+  status: DeliveryStatus
+  reason?: string
+}
+
+export interface DispatchResult {
+  delivered: NotificationChannel[]
+  outcomes: Partial<Record<NotificationChannel, ChannelOutcome>>
+}
+
+/**
+ * Sends push notifications; none is configured until the mobile app
+ * registers device tokens
+ */
+export type PushSender = (userId: string, message: PushMessage) => Promise<SendResult>
+
+let pushSender: PushSender | null = null
+
+export function setPushSender(sender: PushSender | null) {
+  pushSender = sender
+}
+
+const MISSING_ADDRESS: Partial<Record<NotificationChannel, string>> = {
+  email: 'No email address on file',
+  sms: 'No phone number on file'
+}
+
+/**
+ * Decide whether a channel may be used right now, or why not
+ */
+function gateChannel(
+  channel: NotificationChannel,
+  allowed: boolean,
+  quiet: boolean,
+  request: NotificationRequest,
+  emergencyOverride: boolean
+): string | null {
+  if (!allowed) return 'Turned off in notification settings'
+
+  if (quiet && INTERRUPTING_CHANNELS.includes(channel)) {
+    if (!request.emergency) return 'Quiet hours'
+    if (!emergencyOverride) return 'Quiet hours (emergency override off)'
+  }
+
+  return null
+}
+
+/**
+ * Send one notification event to one user on every channel they allow
+ */
+export async function dispatchNotification(
+  supabase: SupabaseClient,
+  request: NotificationRequest,
+  clock: Clock = systemClock
+): Promise<DispatchResult> {
+  const info = NOTIFICATION_EVENTS[request.event]
+  const result: DispatchResult = { delivered: [], outcomes: {} }
+  const jobId = request.jobId ?? request.inApp?.job_id ?? null
+
+  const { settings, matrix } = await loadNotificationPreferences(supabase, request.userId)
+  const quiet = inQuietHours(settings, clock.now())
+  const log: { channel: NotificationChannel; status: DeliveryStatus; reason?: string; outboxMessageId?: string }[] = []
+
+  const record = (channel: NotificationChannel, status: DeliveryStatus, reason?: string) => {
+    result.outcomes[channel] = { status, reason }
+    if (status === 'sent' || status === 'queued') result.delivered.push(channel)
+  }
+
+  // In-app: the notifications gate applies the preference and logs
+  if (request.inApp && info.channels.includes('in_app')) {
+    const { type, ...content } = request.inApp
+    const { data, error } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: request.userId,
+        type: type || request.event,
+        event_type: request.event,
+        ...content
+      })
+      .select('id')
+
+    if (error) {
+      console.error('[NOTIFY] In-app insert failed:', request.event, error.message)
+      record('in_app', 'failed', error.message)
+      log.push({ channel: 'in_app', status: 'failed', reason: error.message })
+    } else if (data && data.length > 0) {
+      record('in_app', 'sent')
+    } else {
+      record('in_app', 'skipped', 'Turned off in notification settings')
+    }
+  }
+
+  for (const channel of ['email', 'sms'] as const) {
+    const message = request[channel]
+    if (!message || !info.channels.includes(channel)) continue
+
+    const allowed = channelEnabled(settings, channel) && !!matrix[request.event][channel]
+    const blocked = gateChannel(channel, allowed, quiet, request, settings.emergency_override)
+      || (!message.to ? MISSING_ADDRESS[channel]! : null)
+
+    if (blocked) {
+      record(channel, 'skipped', blocked)
+      log.push({ channel, status: 'skipped', reason: blocked })
+      continue
+    }
+
+    try {
+      const sent = await message.send(message.to!)
+      const status: DeliveryStatus = !sent.success ? 'failed' : sent.messageId ? 'queued' : 'sent'
+      record(channel, status, sent.error)
+      log.push({ channel, status, reason: sent.error, outboxMessageId: sent.messageId })
+    } catch (error: any) {
+      record(channel, 'failed', error.message)
+      log.push({ channel, status: 'failed', reason: error.message })
+    }
+  }
+
+  if (request.push && info.channels.includes('push')) {
+    const allowed = channelEnabled(settings, 'push') && !!matrix[request.event].push
+    const blocked = gateChannel('push', allowed, quiet, request, settings.emergency_override)
+      || (!pushSender ? 'Push notifications are not set up' : null)
+
+    if (blocked) {
+      record('push', 'skipped', blocked)
+      log.push({ channel: 'push', status: 'skipped', reason: blocked })
+    } else {
+      try {
+        const sent = await pushSender!(request.userId, request.push)
+        const status: DeliveryStatus = sent.success ? 'sent' : 'failed'
+        record('push', status, sent.error)
+        log.push({ channel: 'push', status, reason: sent.error })
+      } catch (error: any) {
+        record('push', 'failed', error.message)
+        log.push({ channel: 'push', status: 'failed', reason: error.message })
+      }
+    }
+  }
+
+  if (log.length > 0) {
+    const { error } = await supabase.from('notification_deliveries').insert(
+      log.map(entry => ({
+        user_id: request.userId,
+        event_type: request.event,
+        channel: entry.channel,
+        status: entry.status,
+        reason: entry.reason || null,
+        emergency: !!request.emergency,
+        job_id: jobId,
+        outbox_message_id: entry.outboxMessageId || null
+      }))
+    )
+    if (error) console.error('[NOTIFY] Failed to log deliveries:', error.message)
+  }
+
+  return result
+}
+
+/**
+ * Why an email or SMS queued on a user's behalf should not go out now, or
+ * null when it may. The outbox worker checks this for messages the database
+ * queued, which never passed through dispatchNotification().
+ */
+export async function channelBlockedReason(
+  supabase: SupabaseClient,
+  params: { userId: string; event: NotificationEventType; channel: 'email' | 'sms' },
+  clock: Clock = systemClock
+): Promise<string | null> {
+  const info = NOTIFICATION_EVENTS[params.event]
+  if (!info?.channels.includes(params.channel)) return `Event has no ${params.channel} channel`
+
+  const { settings, matrix } = await loadNotificationPreferences(supabase, params.userId)
+  const allowed = channelEnabled(settings, params.channel) && !!matrix[params.event][params.channel]
+
+  return gateChannel(
+    params.channel,
+    allowed,
+    inQuietHours(settings, clock.now()),
+    { userId: params.userId, event: params.event },
+    settings.emergency_override
+  )
+}
+
+/**
+ * Find the user behind an email address, for callers (such as the database
+ * webhooks) that only know the recipient's email
+ */
+export async function findUserIdByEmail(supabase: SupabaseClient, email: string): Promise<string | null> {
+  const [{ data: profile }, { data: contractor }] = await Promise.all([
+    supabase.from('user_profiles').select('id').eq('email', email).maybeSingle(),
+    supabase.from('pro_contractors').select('id').eq('email', email).maybeSingle()
+  ])
+
+  return profile?.id || contractor?.id || null
+}
+
+/**
+ * Send an email that a caller only has the address for. Known users go
+ * through their preferences; addresses without an account are sent as is.
+ */
+export async function dispatchEmailByAddress(
+  supabase: SupabaseClient,
+  params: { event: NotificationEventType; email: string; jobId?: string | null; send: ChannelMessage['send'] }
+): Promise<ChannelOutcome> {
+  const userId = await findUserIdByEmail(supabase, params.email)
+
+  if (!userId) {
+    const sent = await params.send(params.email)
+    return { status: !sent.success ? 'failed' : sent.messageId ? 'queued' : 'sent', reason: sent.error }
+  }
+
+  const result = await dispatchNotification(supabase, {
+    userId,
+    event: params.event,
+    jobId: params.jobId,
+    email: { to: params.email, send: params.send }
+  })
+
+  return result.outcomes.email || { status: 'skipped', reason: 'Event has no email channel' }
+}
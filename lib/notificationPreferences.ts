@@ -0,0 +1,390 @@
+/**
+ * Notification preferences for Rushr
+ *
+ * The catalog of notification events, which channels each one can use and
+ * which are on by default, plus the user's overrides and quiet hours.
+ * notification_preferences rows only store overrides of these defaults;
+ * in-app is on by default for every event (the database gate on the
+ * notifications table relies on that). Kept free of the email / SMS senders
+ * so settings pages can import it; sending happens in notificationDispatcher.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type NotificationChannel = 'in_app' | 'email' | 'sms' | 'push'
+export type NotificationAudience = 'homeowner' | 'contractor' | 'all'
+export type DeliveryStatus = 'queued' | 'sent' | 'skipped' | 'failed'
+
+export type NotificationEventType =
+  | 'new_job_posted'
+  | 'emergency_request'
+  | 'job_request_received'
+  | 'bid_received'
+  | 'bid_accepted'
+  | 'bid_rejected'
+  | 'job_assigned'
+  | 'emergency_update'
+  | 'contractor_arrival'
+  | 'new_message'
+  | 'work_started'
+  | 'work_completed'
+  | 'payment_completed'
+  | 'dispute_update'
+  | 'review_received'
+  | 'support_reply'
+  | 'kyc_update'
+  | 'signal_match'
+  | 'signal_digest'
+  | 'billing_update'
+
+export interface NotificationEventInfo {
+  label: string
+  description: string
+  audience: NotificationAudience
+  /** Channels this event can be sent on */
+  channels: NotificationChannel[]
+  /** Channels on until the user turns them off */
+  defaults: NotificationChannel[]
+}
+
+export const NOTIFICATION_CHANNELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  email: 'Email',
+  sms: 'Text',
+  push: 'Push'
+}
+
+/** Channels skipped during quiet hours; in-app and email never interrupt */
+export const INTERRUPTING_CHANNELS: NotificationChannel[] = ['sms', 'push']
+
+export const NOTIFICATION_EVENTS: Record<NotificationEventType, NotificationEventInfo> = {
+  new_job_posted: {
+    label: 'New jobs near you',
+    description: 'A job matching your categories and service area is posted',
+    audience: 'contractor',
+    channels: ['in_app', 'email', 'sms', 'push'],
+    defaults: ['in_app', 'email']
+  },
+  emergency_request: {
+    label: 'Emergency requests',
+    description: 'You are offered an emergency job with a short window to accept',
+    audience: 'contractor',
+    channels: ['in_app', 'sms', 'push'],
+    defaults: ['in_app', 'sms', 'push']
+  },
+  job_request_received: {
+    label: 'Direct job offers',
+    description: 'A homeowner sends a job straight to you',
+    audience: 'contractor',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  },
+  bid_received: {
+    label: 'Bids on your jobs',
+    description: 'A contractor bids on one of your jobs',
+    audience: 'homeowner',
+    channels: ['in_app', 'email', 'sms', 'push'],
+    defaults: ['in_app', 'email', 'sms']
+  },
+  bid_accepted: {
+    label: 'Bid accepted',
+    description: 'A homeowner accepts your bid',
+    audience: 'contractor',
+    channels: ['in_app', 'email', 'sms', 'push'],
+    defaults: ['in_app', 'email', 'sms']
+  },
+  bid_rejected: {
+    label: 'Bid not selected',
+    description: 'A homeowner picks another bid',
+    audience: 'contractor',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app']
+  },
+  job_assigned: {
+    label: 'Crew assignments',
+    description: 'Your dispatcher assigns you a job',
+    audience: 'contractor',
+    channels: ['in_app', 'sms', 'push'],
+    defaults: ['in_app', 'sms']
+  },
+  emergency_update: {
+    label: 'Emergency request updates',
+    description: 'A contractor accepts your emergency request, or nobody is available',
+    audience: 'homeowner',
+    channels: ['in_app', 'sms', 'push'],
+    defaults: ['in_app', 'sms', 'push']
+  },
+  contractor_arrival: {
+    label: 'Contractor arrival',
+    description: 'Your contractor reaches the job address',
+    audience: 'homeowner',
+    channels: ['in_app', 'sms', 'push'],
+    defaults: ['in_app', 'sms', 'push']
+  },
+  new_message: {
+    label: 'Messages',
+    description: 'Someone sends you a message',
+    audience: 'all',
+    channels: ['in_app', 'email', 'push'],
+    defaults: ['in_app', 'email']
+  },
+  work_started: {
+    label: 'Work started',
+    description: 'Work begins on a job',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  },
+  work_completed: {
+    label: 'Work completed',
+    description: 'A job is marked complete',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  },
+  payment_completed: {
+    label: 'Payments',
+    description: 'A payment is captured, released or refunded',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  },
+  dispute_update: {
+    label: 'Disputes',
+    description: 'A payment dispute is opened or resolved',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  },
+  review_received: {
+    label: 'Reviews',
+    description: 'Someone reviews you after a job',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app']
+  },
+  support_reply: {
+    label: 'Support replies',
+    description: 'Rushr Support answers one of your tickets',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  },
+  kyc_update: {
+    label: 'Verification',
+    description: 'A verification document is reviewed or about to expire',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  },
+  signal_match: {
+    label: 'Signal alerts',
+    description: 'A new permit, violation or lead matches one of your signal subscriptions',
+    audience: 'contractor',
+    channels: ['in_app', 'email', 'sms', 'push'],
+    defaults: ['in_app', 'email', 'sms']
+  },
+  signal_digest: {
+    label: 'Daily signal digest',
+    description: 'A summary of the day\'s matched signals',
+    audience: 'contractor',
+    channels: ['email'],
+    defaults: ['email']
+  },
+  billing_update: {
+    label: 'Subscription billing',
+    description: 'A subscription payment fails or your plan ends',
+    audience: 'all',
+    channels: ['in_app', 'email'],
+    defaults: ['in_app', 'email']
+  }
+}
+
+export interface NotificationSettings {
+  email_enabled: boolean
+  sms_enabled: boolean
+  push_enabled: boolean
+  quiet_hours_enabled: boolean
+  /** HH:MM in the user's timezone */
+  quiet_start: string
+  quiet_end: string
+  timezone: string
+  emergency_override: boolean
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  email_enabled: true,
+  sms_enabled: true,
+  push_enabled: true,
+  quiet_hours_enabled: false,
+  quiet_start: '22:00',
+  quiet_end: '07:00',
+  timezone: 'America/New_York',
+  emergency_override: true
+}
+
+export interface NotificationPreferenceRow {
+  event_type: string
+  channel: NotificationChannel
+  enabled: boolean
+}
+
+export interface NotificationDelivery {
+  id: string
+  user_id: string
+  event_type: string
+  channel: NotificationChannel
+  status: DeliveryStatus
+  reason: string | null
+  emergency: boolean
+  notification_id: string | null
+  /** Email / SMS handed to the outbox; the worker updates status when it is sent */
+  outbox_message_id: string | null
+  job_id: string | null
+  created_at: string
+}
+
+/** Event -> channel -> on/off */
+export type PreferenceMatrix = Record<NotificationEventType, Partial<Record<NotificationChannel, boolean>>>
+
+/**
+ * Events shown to a homeowner or a contractor
+ */
+export function eventsFor(audience: 'homeowner' | 'contractor'): NotificationEventType[] {
+  return (Object.keys(NOTIFICATION_EVENTS) as NotificationEventType[])
+    .filter(event => [audience, 'all'].includes(NOTIFICATION_EVENTS[event].audience))
+}
+
+/**
+ * Apply a user's overrides to the catalog defaults
+ */
+export function resolvePreferences(rows: NotificationPreferenceRow[]): PreferenceMatrix {
+  const matrix = {} as PreferenceMatrix
+
+  for (const [event, info] of Object.entries(NOTIFICATION_EVENTS) as [NotificationEventType, NotificationEventInfo][]) {
+    matrix[event] = {}
+    for (const channel of info.channels) {
+      matrix[event][channel] = info.defaults.includes(channel)
+    }
+  }
+
+  for (const row of rows) {
+    const channels = matrix[row.event_type as NotificationEventType]
+    if (channels && row.channel in channels) {
+      channels[row.channel] = row.enabled
+    }
+  }
+
+  return matrix
+}
+
+/**
+ * Whether the master switch for a channel is on (in-app has none)
+ */
+export function channelEnabled(settings: NotificationSettings, channel: NotificationChannel): boolean {
+  switch (channel) {
+    case 'email': return settings.email_enabled
+    case 'sms': return settings.sms_enabled
+    case 'push': return settings.push_enabled
+    default: return true
+  }
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+/**
+ * Whether `now` falls inside the user's quiet hours, in their timezone.
+ * Windows may wrap past midnight (22:00 - 07:00).
+ */
+export function inQuietHours(settings: NotificationSettings, now: Date = new Date()): boolean {
+  if (!settings.quiet_hours_enabled) return false
+
+  let local: string
+  try {
+    local = new Intl.DateTimeFormat('en-GB', {
+      timeZone: settings.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).format(now)
+  } catch {
+    local = `${now.getUTCHours()}:${now.getUTCMinutes()}`
+  }
+
+  const current = minutesOf(local)
+  const start = minutesOf(settings.quiet_start)
+  const end = minutesOf(settings.quiet_end)
+
+  if (start === end) return false
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end
+}
+
+/**
+ * Load a user's settings and preference matrix
+ */
+export async function loadNotificationPreferences(supabase: SupabaseClient, userId: string): Promise<{
+  settings: NotificationSettings
+  matrix: PreferenceMatrix
+}> {
+  const [{ data: settings }, { data: rows }] = await Promise.all([
+    supabase.from('notification_settings').select('*').eq('user_id', userId).maybeSingle(),
+    supabase.from('notification_preferences').select('event_type, channel, enabled').eq('user_id', userId)
+  ])
+
+  return {
+    settings: {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...(settings || {}),
+      // TIME columns come back as HH:MM:SS
+      quiet_start: (settings?.quiet_start || DEFAULT_NOTIFICATION_SETTINGS.quiet_start).slice(0, 5),
+      quiet_end: (settings?.quiet_end || DEFAULT_NOTIFICATION_SETTINGS.quiet_end).slice(0, 5)
+    },
+    matrix: resolvePreferences(rows || [])
+  }
+}
+
+/**
+ * Save a user's settings and preference matrix. Only choices that differ
+ * from the defaults are stored, so later default changes still reach them.
+ */
+export async function saveNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+  settings: NotificationSettings,
+  matrix: Partial<PreferenceMatrix>
+) {
+  const { error: settingsError } = await supabase
+    .from('notification_settings')
+    .upsert({ user_id: userId, ...settings })
+
+  if (settingsError) throw settingsError
+
+  const events = Object.keys(matrix) as NotificationEventType[]
+  const overrides: (NotificationPreferenceRow & { user_id: string })[] = []
+
+  for (const event of events) {
+    for (const [channel, enabled] of Object.entries(matrix[event] || {}) as [NotificationChannel, boolean][]) {
+      if (enabled !== NOTIFICATION_EVENTS[event].defaults.includes(channel)) {
+        overrides.push({ user_id: userId, event_type: event, channel, enabled })
+      }
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('notification_preferences')
+    .delete()
+    .eq('user_id', userId)
+    .in('event_type', events)
+
+  if (deleteError) throw deleteError
+
+  if (overrides.length > 0) {
+    const { error } = await supabase.from('notification_preferences').insert(overrides)
+    if (error) throw error
+  }
+}
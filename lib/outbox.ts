@@ -0,0 +1,337 @@
+/**
+ * Outbound Message Queue (Outbox) for Rushr
+ *
+ * sendEmail / sendSMS enqueue into message_outbox instead of calling the
+ * provider inline, so a failed fetch no longer loses the message:
+ * - The worker (/api/cron/outbox, every minute) claims due messages and hands
+ *   them to a transport (lib/messageTransports.ts)
+ * - Failures are retried with exponential backoff; after max_attempts the
+ *   message is dead-lettered and shows up in /dashboard/admin/outbox, where an
+ *   admin can resend it
+ * - Messages with the same idempotency key are queued once, so a flow that
+ *   runs twice does not email twice
+ *
+ * Notifications caused by a database write are queued by triggers on that
+ * write (enqueue_notification()), in the same transaction, as a template
+ * plus data; the worker checks the user's notification settings on the
+ * first attempt and renders them through lib/outboxTemplates.ts. Either way
+ * the notification_deliveries row logged as 'queued' is updated once the
+ * message is sent, skipped or dead. Time and transports are injectable.
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { Clock, systemClock } from './clock'
+import { MessageTransports, SendResult, defaultTransports } from './messageTransports'
+import { channelBlockedReason } from './notificationDispatcher'
+import type { DeliveryStatus, NotificationEventType } from './notificationPreferences'
+import { renderOutboxTemplate } from './outboxTemplates'
+
+export type OutboxChannel = 'email' | 'sms'
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'skipped' | 'dead'
+
+/** What sendEmail / sendSMS report: the message was queued, not yet sent */
+export type QueueResult = { success: boolean; error?: string; messageId?: string }
+
+export interface OutboxMessage {
+  id: string
+  channel: OutboxChannel
+  recipient: string
+  subject: string | null
+  html: string | null
+  body: string
+  idempotency_key: string | null
+  /** Set for messages queued by the database; rendered at delivery */
+  template: string | null
+  template_data: Record<string, any> | null
+  user_id: string | null
+  event_type: string | null
+  status: OutboxStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  locked_until: string | null
+  last_error: string | null
+  sent_at: string | null
+  resent_by: string | null
+  resent_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface OutboxConfig {
+  /** Delay before the first retry; doubles on every attempt */
+  baseDelaySeconds: number
+  /** Longest wait between two attempts */
+  maxDelaySeconds: number
+  /** Messages claimed per worker run */
+  batchSize: number
+  /** How long a claim holds before another run may pick the message up */
+  lockSeconds: number
+}
+
+export interface OutboxRunSummary {
+  claimed: number
+  sent: number
+  skipped: number
+  retrying: number
+  dead: number
+}
+
+export class OutboxError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'OutboxError'
+    this.status = status
+  }
+}
+
+/**
+ * Read retry settings from the environment. OUTBOX_RETRY_BASE_SECONDS
+ * defaults to 60 and OUTBOX_RETRY_MAX_SECONDS to 6 hours, so with the default
+ * of 5 attempts a message is retried over roughly 15 minutes.
+ */
+export function getOutboxConfig(): OutboxConfig {
+  return {
+    baseDelaySeconds: Number(process.env.OUTBOX_RETRY_BASE_SECONDS) || 60,
+    maxDelaySeconds: Number(process.env.OUTBOX_RETRY_MAX_SECONDS) || 6 * 60 * 60,
+    batchSize: Number(process.env.OUTBOX_BATCH_SIZE) || 25,
+    lockSeconds: 120
+  }
+}
+
+/**
+ * Seconds to wait after the given (1-based) failed attempt
+ */
+export function retryDelaySeconds(attempt: number, config: OutboxConfig): number {
+  return Math.min(config.baseDelaySeconds * 2 ** Math.max(0, attempt - 1), config.maxDelaySeconds)
+}
+
+let serviceClient: SupabaseClient | null = null
+
+/**
+ * Service-role client for senders that are not handed one (emailService,
+ * smsService). Null when Supabase is not configured.
+ */
+export function getOutboxClient(): SupabaseClient | null {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !key) return null
+
+  if (!serviceClient) {
+    serviceClient = createClient(url, key)
+  }
+
+  return serviceClient
+}
+
+/**
+ * Queue one message. Returns the id of the queued message, or of the one
+ * already queued under the same idempotency key.
+ */
+export async function enqueueMessage(params: {
+  supabase: SupabaseClient
+  channel: OutboxChannel
+  to: string
+  body: string
+  subject?: string
+  html?: string
+  idempotencyKey?: string
+}): Promise<string> {
+  const { supabase, channel, to, body, subject, html, idempotencyKey } = params
+
+  if (!to) {
+    throw new OutboxError('Message has no recipient')
+  }
+
+  const { data, error } = await supabase.rpc('enqueue_outbound_message', {
+    p_channel: channel,
+    p_recipient: to,
+    p_body: body,
+    p_subject: subject ?? null,
+    p_html: html ?? null,
+    p_idempotency_key: idempotencyKey ?? null
+  })
+
+  if (error) throw error
+
+  return data as string
+}
+
+/**
+ * Record the final outcome on the notification_deliveries row logged when
+ * the message was queued
+ */
+async function recordDelivery(
+  supabase: SupabaseClient,
+  messageId: string,
+  status: DeliveryStatus,
+  reason: string | null = null
+) {
+  const { error } = await supabase
+    .from('notification_deliveries')
+    .update({ status, reason })
+    .eq('outbox_message_id', messageId)
+
+  if (error) console.error('[OUTBOX] Failed to update delivery log:', error.message)
+}
+
+async function deliver(message: OutboxMessage, transports: MessageTransports): Promise<SendResult> {
+  try {
+    return message.channel === 'email'
+      ? await transports.email({
+          to: message.recipient,
+          subject: message.subject || '',
+          html: message.html || '',
+          text: message.body
+        })
+      : await transports.sms({ to: message.recipient, body: message.body })
+  } catch (error: any) {
+    return { success: false, error: error.message || 'Transport threw' }
+  }
+}
+
+/**
+ * Deliver every due message once. Failed messages are rescheduled with
+ * backoff, or dead-lettered when they have used up their attempts.
+ */
+export async function processOutbox(params: {
+  supabase: SupabaseClient
+  transports?: MessageTransports
+  clock?: Clock
+  config?: OutboxConfig
+}): Promise<OutboxRunSummary> {
+  const { supabase } = params
+  const transports = params.transports || defaultTransports
+  const clock = params.clock || systemClock
+  const config = params.config || getOutboxConfig()
+  const summary: OutboxRunSummary = { claimed: 0, sent: 0, skipped: 0, retrying: 0, dead: 0 }
+
+  const { data: claimed, error } = await supabase.rpc('claim_outbox_messages', {
+    p_limit: config.batchSize,
+    p_lock_seconds: config.lockSeconds,
+    p_now: clock.now().toISOString()
+  })
+
+  if (error) throw error
+
+  for (const queued of (claimed || []) as OutboxMessage[]) {
+    summary.claimed++
+    let message = queued
+    let result: SendResult
+
+    // Queued by the database: the user's settings apply when it first goes out
+    const blocked = message.template && message.user_id && message.event_type && message.attempts === 1
+      ? await channelBlockedReason(
+          supabase,
+          { userId: message.user_id, event: message.event_type as NotificationEventType, channel: message.channel },
+          clock
+        )
+      : null
+
+    if (blocked) {
+      await supabase
+        .from('message_outbox')
+        .update({ status: 'skipped', locked_until: null, last_error: blocked })
+        .eq('id', message.id)
+      await recordDelivery(supabase, message.id, 'skipped', blocked)
+      summary.skipped++
+      continue
+    }
+
+    try {
+      if (message.template) {
+        message = { ...message, ...(await renderOutboxTemplate(message.template, message.recipient, message.template_data)) }
+      }
+      result = await deliver(message, transports)
+    } catch (error: any) {
+      result = { success: false, error: error.message || 'Failed to render message' }
+    }
+
+    const now = clock.now()
+    const content = message.template ? { subject: message.subject, html: message.html, body: message.body } : {}
+
+    if (result.success) {
+      await supabase
+        .from('message_outbox')
+        .update({ ...content, status: 'sent', sent_at: now.toISOString(), locked_until: null, last_error: null })
+        .eq('id', message.id)
+      await recordDelivery(supabase, message.id, 'sent')
+      summary.sent++
+      continue
+    }
+
+    const lastError = result.error || 'Unknown error'
+
+    if (message.attempts >= message.max_attempts) {
+      await supabase
+        .from('message_outbox')
+        .update({ ...content, status: 'dead', locked_until: null, last_error: lastError })
+        .eq('id', message.id)
+      await recordDelivery(supabase, message.id, 'failed', lastError)
+      console.error(`[OUTBOX] ${message.channel} to ${message.recipient} dead after ${message.attempts} attempts:`, lastError)
+      summary.dead++
+      continue
+    }
+
+    const retryAt = new Date(now.getTime() + retryDelaySeconds(message.attempts, config) * 1000)
+    await supabase
+      .from('message_outbox')
+      .update({ status: 'pending', locked_until: null, last_error: lastError, next_attempt_at: retryAt.toISOString() })
+      .eq('id', message.id)
+    summary.retrying++
+  }
+
+  return summary
+}
+
+/**
+ * Put a dead-lettered message back in the queue with a fresh set of attempts
+ */
+export async function resendMessage(params: {
+  supabase: SupabaseClient
+  messageId: string
+  adminId: string
+  clock?: Clock
+}): Promise<OutboxMessage> {
+  const { supabase, messageId, adminId } = params
+  const now = (params.clock || systemClock).now().toISOString()
+
+  const { data: message } = await supabase
+    .from('message_outbox')
+    .select('*')
+    .eq('id', messageId)
+    .maybeSingle()
+
+  if (!message) {
+    throw new OutboxError('Message not found', 404)
+  }
+
+  if (message.status !== 'dead') {
+    throw new OutboxError(`Message is ${message.status}; only failed messages can be resent`, 409)
+  }
+
+  const { data: requeued, error } = await supabase
+    .from('message_outbox')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: now,
+      resent_by: adminId,
+      resent_at: now
+    })
+    .eq('id', messageId)
+    .eq('status', 'dead')
+    .select()
+    .single()
+
+  if (error || !requeued) {
+    throw new OutboxError('Message was already resent', 409)
+  }
+
+  await recordDelivery(supabase, messageId, 'queued')
+
+  return requeued as OutboxMessage
+}
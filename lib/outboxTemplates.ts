@@ -0,0 +1,89 @@
+/**
+ * Templates for messages queued by the database
+ *
+ * Triggers queue notifications through enqueue_notification() in the same
+ * transaction as the write that caused them (bid accepted, payment released,
+ * dispute resolved). They store a template name and its data rather than
+ * rendered content; the outbox worker renders them here right before
+ * delivery, with the same templates the app sends.
+ */
+
+import { captureEmails, notifyBidAccepted, notifyDisputeResolved, notifyPaymentCompleted } from './emailService'
+import { bidAcceptedSMSText } from './smsService'
+
+export interface RenderedMessage {
+  subject: string | null
+  html: string | null
+  body: string
+}
+
+type TemplateRenderer = (to: string, data: Record<string, any>) => Promise<RenderedMessage>
+
+async function renderEmail(send: () => Promise<unknown>): Promise<RenderedMessage> {
+  const [email] = await captureEmails(send)
+
+  if (!email) {
+    throw new Error('Template produced no email')
+  }
+
+  return { subject: email.subject, html: email.html, body: email.text || '' }
+}
+
+const TEMPLATES: Record<string, TemplateRenderer> = {
+  bid_accepted: (to, data) => renderEmail(() => notifyBidAccepted({
+    contractorEmail: to,
+    contractorName: data.contractorName,
+    jobTitle: data.jobTitle,
+    homeownerName: data.homeownerName,
+    homeownerPhone: data.homeownerPhone,
+    jobAddress: data.jobAddress
+  })),
+
+  bid_accepted_sms: async (_to, data) => ({
+    subject: null,
+    html: null,
+    body: bidAcceptedSMSText({
+      contractorName: data.contractorName,
+      homeownerName: data.homeownerName,
+      jobTitle: data.jobTitle
+    })
+  }),
+
+  payment_completed: (to, data) => renderEmail(() => notifyPaymentCompleted({
+    homeownerEmail: to,
+    homeownerName: data.homeownerName,
+    contractorEmail: to,
+    contractorName: data.contractorName,
+    jobTitle: data.jobTitle,
+    amount: Number(data.amount),
+    recipient: data.recipient
+  })),
+
+  dispute_resolved: (to, data) => renderEmail(() => notifyDisputeResolved({
+    recipientEmail: to,
+    recipientName: data.recipientName,
+    recipientRole: data.recipientRole,
+    jobTitle: data.jobTitle,
+    resolution: data.resolution,
+    contractorAmount: Number(data.contractorAmount),
+    refundAmount: Number(data.refundAmount),
+    rationale: data.rationale
+  }))
+}
+
+/**
+ * Render a queued message's template for its recipient
+ */
+export async function renderOutboxTemplate(
+  template: string,
+  to: string,
+  data: Record<string, any> | null
+): Promise<RenderedMessage> {
+  const render = TEMPLATES[template]
+
+  if (!render) {
+    throw new Error(`Unknown message template: ${template}`)
+  }
+
+  return render(to, data || {})
+}
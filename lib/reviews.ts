@@ -0,0 +1,297 @@
+/**
+ * Ratings and Reviews for Rushr
+ *
+ * Reviews are two-sided and tied to escrow: once the payment hold for a job
+ * is 'released', the homeowner can review the contractor and the contractor
+ * can review the homeowner, once each. The contractor may post one public
+ * reply to a review they received. Rating aggregates are recomputed by the
+ * on_review_change_recompute trigger.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type ReviewerRole = 'homeowner' | 'contractor'
+export type ReviewSubScore = 'punctuality_rating' | 'quality_rating' | 'communication_rating'
+
+export const REVIEW_SUB_SCORES: Record<ReviewSubScore, string> = {
+  punctuality_rating: 'Punctuality',
+  quality_rating: 'Quality',
+  communication_rating: 'Communication'
+}
+
+export const MAX_REVIEW_PHOTOS = 6
+export const MAX_REVIEW_LENGTH = 2000
+
+export interface Review {
+  id: string
+  job_id: string
+  payment_hold_id: string | null
+  homeowner_id: string
+  contractor_id: string
+  reviewer_id: string
+  reviewee_id: string
+  reviewer_role: ReviewerRole
+  rating: number
+  punctuality_rating: number | null
+  quality_rating: number | null
+  communication_rating: number | null
+  comment: string | null
+  photos: string[]
+  reply: string | null
+  replied_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReviewInput {
+  rating: number
+  punctuality_rating?: number | null
+  quality_rating?: number | null
+  communication_rating?: number | null
+  comment?: string | null
+  photos?: string[]
+}
+
+export interface ReviewEligibility {
+  canReview: boolean
+  reason?: string
+  role?: ReviewerRole
+  revieweeId?: string
+  paymentHoldId?: string
+  myReview: Review | null
+  theirReview: Review | null
+}
+
+export interface ReviewSummary {
+  count: number
+  average: number
+  subScores: Record<ReviewSubScore, number | null>
+}
+
+export class ReviewError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'ReviewError'
+    this.status = status
+  }
+}
+
+function isScore(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5
+}
+
+/**
+ * Validate a review body; throws ReviewError on bad input
+ */
+export function normalizeReviewInput(input: any): ReviewInput {
+  if (!isScore(input?.rating)) {
+    throw new ReviewError('Rating must be a whole number from 1 to 5')
+  }
+
+  const review: ReviewInput = { rating: input.rating }
+
+  for (const key of Object.keys(REVIEW_SUB_SCORES) as ReviewSubScore[]) {
+    const value = input[key]
+    if (value === undefined || value === null) {
+      review[key] = null
+    } else if (isScore(value)) {
+      review[key] = value
+    } else {
+      throw new ReviewError(`${REVIEW_SUB_SCORES[key]} must be a whole number from 1 to 5`)
+    }
+  }
+
+  const comment = typeof input.comment === 'string' ? input.comment.trim() : ''
+  if (comment.length > MAX_REVIEW_LENGTH) {
+    throw new ReviewError(`Reviews are limited to ${MAX_REVIEW_LENGTH} characters`)
+  }
+  review.comment = comment || null
+
+  const photos = Array.isArray(input.photos) ? input.photos.filter((p: unknown) => typeof p === 'string' && p) : []
+  if (photos.length > MAX_REVIEW_PHOTOS) {
+    throw new ReviewError(`Up to ${MAX_REVIEW_PHOTOS} photos can be attached`)
+  }
+  review.photos = photos
+
+  return review
+}
+
+/**
+ * Average rating and sub-scores across a set of reviews
+ */
+export function summarizeReviews(reviews: Review[]): ReviewSummary {
+  const average = (values: number[]) =>
+    values.length ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : null
+
+  const subScores = {} as Record<ReviewSubScore, number | null>
+  for (const key of Object.keys(REVIEW_SUB_SCORES) as ReviewSubScore[]) {
+    subScores[key] = average(reviews.map(r => r[key]).filter((v): v is number => v != null))
+  }
+
+  return {
+    count: reviews.length,
+    average: average(reviews.map(r => r.rating)) ?? 0,
+    subScores
+  }
+}
+
+/**
+ * Whether a user can review the other party on a job, plus any reviews
+ * already left on it
+ */
+export async function getReviewEligibility(params: {
+  supabase: SupabaseClient
+  jobId: string
+  userId: string
+}): Promise<ReviewEligibility> {
+  const { supabase, jobId, userId } = params
+
+  const { data: hold } = await supabase
+    .from('payment_holds')
+    .select('id, homeowner_id, contractor_id, status')
+    .eq('job_id', jobId)
+    .eq('status', 'released')
+    .order('released_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: reviews } = await supabase
+    .from('reviews')
+    .select('*')
+    .eq('job_id', jobId)
+
+  const myReview = (reviews || []).find(r => r.reviewer_id === userId) || null
+  const theirReview = (reviews || []).find(r => r.reviewee_id === userId) || null
+
+  if (!hold) {
+    return { canReview: false, reason: 'Reviews open once the payment for this job is released', myReview, theirReview }
+  }
+
+  const role: ReviewerRole | null = hold.homeowner_id === userId
+    ? 'homeowner'
+    : hold.contractor_id === userId
+      ? 'contractor'
+      : null
+
+  if (!role) {
+    return {
+      canReview: false,
+      reason: 'Only the homeowner or contractor on this job can leave a review',
+      paymentHoldId: hold.id,
+      myReview,
+      theirReview
+    }
+  }
+
+  return {
+    canReview: !myReview,
+    reason: myReview ? 'You already reviewed this job' : undefined,
+    role,
+    revieweeId: role === 'homeowner' ? hold.contractor_id : hold.homeowner_id,
+    paymentHoldId: hold.id,
+    myReview,
+    theirReview
+  }
+}
+
+/**
+ * Leave a review of the other party on a job whose payment was released
+ */
+export async function createReview(params: {
+  supabase: SupabaseClient
+  jobId: string
+  userId: string
+  input: ReviewInput
+}): Promise<Review> {
+  const { supabase, jobId, userId, input } = params
+
+  const eligibility = await getReviewEligibility({ supabase, jobId, userId })
+
+  if (!eligibility.paymentHoldId) {
+    throw new ReviewError(eligibility.reason!, 409)
+  }
+  if (!eligibility.role) {
+    throw new ReviewError(eligibility.reason!, 403)
+  }
+  if (!eligibility.canReview) {
+    throw new ReviewError(eligibility.reason!, 409)
+  }
+
+  const isHomeowner = eligibility.role === 'homeowner'
+
+  const { data: review, error } = await supabase
+    .from('reviews')
+    .insert({
+      job_id: jobId,
+      payment_hold_id: eligibility.paymentHoldId,
+      homeowner_id: isHomeowner ? userId : eligibility.revieweeId,
+      contractor_id: isHomeowner ? eligibility.revieweeId : userId,
+      reviewer_id: userId,
+      reviewee_id: eligibility.revieweeId,
+      reviewer_role: eligibility.role,
+      ...input
+    })
+    .select()
+    .single()
+
+  if (error?.code === '23505') {
+    throw new ReviewError('You already reviewed this job', 409)
+  }
+  if (error || !review) throw error
+
+  return review
+}
+
+/**
+ * Post the contractor's public reply to a homeowner review (once)
+ */
+export async function replyToReview(params: {
+  supabase: SupabaseClient
+  reviewId: string
+  contractorId: string
+  reply: string
+}): Promise<Review> {
+  const { supabase, reviewId, contractorId } = params
+  const reply = params.reply?.trim()
+
+  if (!reply) {
+    throw new ReviewError('Reply cannot be empty')
+  }
+  if (reply.length > MAX_REVIEW_LENGTH) {
+    throw new ReviewError(`Replies are limited to ${MAX_REVIEW_LENGTH} characters`)
+  }
+
+  const { data: review } = await supabase
+    .from('reviews')
+    .select('id, contractor_id, reviewer_role, reply')
+    .eq('id', reviewId)
+    .single()
+
+  if (!review) {
+    throw new ReviewError('Review not found', 404)
+  }
+  if (review.reviewer_role !== 'homeowner' || review.contractor_id !== contractorId) {
+    throw new ReviewError('Only the reviewed contractor can reply', 403)
+  }
+  if (review.reply) {
+    throw new ReviewError('You already replied to this review', 409)
+  }
+
+  // Guard on reply IS NULL so a concurrent reply is not overwritten
+  const { data: updated, error } = await supabase
+    .from('reviews')
+    .update({ reply, replied_at: new Date().toISOString() })
+    .eq('id', reviewId)
+    .is('reply', null)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!updated) {
+    throw new ReviewError('You already replied to this review', 409)
+  }
+
+  return updated
+}
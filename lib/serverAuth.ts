@@ -0,0 +1,62 @@
+/**
+ * Server-side request authentication for API routes
+ *
+ * Resolves the Supabase user behind a request from the Bearer token
+ * (or the rushr-auth-token cookie) instead of trusting ids in the body.
+ * Admin access comes from the admin_roles table (lib/adminRoles.ts).
+ */
+
+import type { NextRequest } from 'next/server'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { AdminAuthError, AdminRole, getAdminRole, roleSatisfies } from './adminRoles'
+
+/**
+ * Get the JWT sent with a request, if any
+ */
+export function getRequestToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization')
+  return authHeader?.split(' ')[1] || request.cookies.get('rushr-auth-token')?.value || null
+}
+
+/**
+ * Verify the request's JWT and return the authenticated user
+ * @returns null when the token is missing or invalid
+ */
+export async function getRequestUser(request: NextRequest, supabase: SupabaseClient): Promise<User | null> {
+  const token = getRequestToken(request)
+  if (!token) return null
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data?.user) return null
+
+  return data.user
+}
+
+/**
+ * Check whether an authenticated user has an admin role
+ */
+export async function isAdmin(supabase: SupabaseClient, user: User): Promise<boolean> {
+  return (await getAdminRole(supabase, user.id)) !== null
+}
+
+/**
+ * Guard for admin-only routes: verifies the JWT and the caller's role
+ * @throws AdminAuthError 401 without a valid session, 403 without the role
+ */
+export async function requireAdmin(
+  request: NextRequest,
+  supabase: SupabaseClient,
+  required: AdminRole = 'admin'
+): Promise<{ user: User; role: AdminRole }> {
+  const user = await getRequestUser(request, supabase)
+  if (!user) {
+    throw new AdminAuthError('Unauthorized', 401)
+  }
+
+  const role = await getAdminRole(supabase, user.id)
+  if (!role || !roleSatisfies(role, required)) {
+    throw new AdminAuthError(required === 'super_admin' ? 'Super admin access required' : 'Admin access required', 403)
+  }
+
+  return { user, role }
+}
@@ -0,0 +1,225 @@
+/**
+ * Contractor Service Areas for Rushr
+ *
+ * A service area is the union of an explicit ZIP list, a radius around the
+ * contractor's base ZIP / coordinates and polygons drawn in DrawCoverage.
+ * Everything lives on pro_contractors; coverage_zips is the resolved ZIP set
+ * (see lib/zcta.ts) so jobs can be matched by ZIP alone. coversLocation()
+ * mirrors service_area_covers() in the database and is safe to use in the
+ * browser.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { FeatureCollection } from 'geojson'
+import * as turf from '@turf/turf'
+import { distanceMiles } from './geo'
+
+export const SERVICE_AREA_COLUMNS =
+  'base_zip, service_area_zips, service_radius_miles, latitude, longitude, service_area_polygons, travel_fee, coverage_zips, coverage_resolved_at'
+
+export const MAX_SERVICE_RADIUS_MILES = 100
+
+export interface ServiceArea {
+  base_zip: string | null
+  service_area_zips: string[] | null
+  service_radius_miles: number | null
+  latitude: number | null
+  longitude: number | null
+  service_area_polygons: FeatureCollection | null
+  travel_fee: number | null
+  coverage_zips: string[] | null
+  coverage_resolved_at?: string | null
+}
+
+export interface ServiceAreaInput {
+  baseZip?: string | null
+  zips?: string[]
+  radiusMiles?: number | null
+  polygons?: FeatureCollection | null
+  travelFee?: number | null
+}
+
+export interface ServiceLocation {
+  zip?: string | null
+  zips?: (string | null | undefined)[]
+  latitude?: number | null
+  longitude?: number | null
+}
+
+export class ServiceAreaError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'ServiceAreaError'
+    this.status = status
+  }
+}
+
+export function isValidZip(zip: string): boolean {
+  return /^\d{5}$/.test(zip)
+}
+
+/**
+ * Explicit ZIPs plus the base ZIP, de-duplicated
+ */
+export function explicitZips(area: Pick<ServiceArea, 'base_zip' | 'service_area_zips'>): string[] {
+  const zips = [...(area.service_area_zips || []), area.base_zip]
+  return Array.from(new Set(zips.filter((zip): zip is string => !!zip)))
+}
+
+/**
+ * Every ZIP the contractor serves. Falls back to the explicit ZIPs when the
+ * radius and polygons have not been resolved yet.
+ */
+export function coverageZips(area: Pick<ServiceArea, 'base_zip' | 'service_area_zips' | 'coverage_zips'>): string[] {
+  return Array.from(new Set([...(area.coverage_zips || []), ...explicitZips(area)]))
+}
+
+/**
+ * Whether a service area covers a job location
+ */
+export function coversLocation(area: Partial<ServiceArea>, location: ServiceLocation): boolean {
+  const zips = [location.zip, ...(location.zips || [])].filter((zip): zip is string => !!zip)
+  const covered = coverageZips({
+    base_zip: area.base_zip ?? null,
+    service_area_zips: area.service_area_zips ?? null,
+    coverage_zips: area.coverage_zips ?? null
+  })
+
+  if (zips.some(zip => covered.includes(zip))) return true
+
+  if (location.latitude == null || location.longitude == null) return false
+
+  const radius = Number(area.service_radius_miles || 0)
+  if (radius > 0 && area.latitude != null && area.longitude != null) {
+    const distance = distanceMiles(
+      Number(area.latitude),
+      Number(area.longitude),
+      Number(location.latitude),
+      Number(location.longitude)
+    )
+    if (distance <= radius) return true
+  }
+
+  const point = turf.point([Number(location.longitude), Number(location.latitude)])
+  return (area.service_area_polygons?.features || []).some(feature => {
+    try {
+      return turf.booleanPointInPolygon(point, feature as any)
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Validate a service-area update coming from the client
+ */
+export function normalizeServiceAreaInput(input: any): ServiceAreaInput {
+  const result: ServiceAreaInput = {}
+
+  if (input.baseZip !== undefined) {
+    const baseZip = input.baseZip ? String(input.baseZip).trim() : null
+    if (baseZip && !isValidZip(baseZip)) {
+      throw new ServiceAreaError('Base ZIP must be a 5-digit ZIP code')
+    }
+    result.baseZip = baseZip
+  }
+
+  if (input.zips !== undefined) {
+    if (!Array.isArray(input.zips)) {
+      throw new ServiceAreaError('zips must be an array of ZIP codes')
+    }
+    const zips = input.zips.map((zip: any) => String(zip).trim()).filter(Boolean)
+    const invalid = zips.find((zip: string) => !isValidZip(zip))
+    if (invalid) {
+      throw new ServiceAreaError(`Invalid ZIP code: ${invalid}`)
+    }
+    result.zips = Array.from(new Set<string>(zips))
+  }
+
+  if (input.radiusMiles !== undefined) {
+    const radius = input.radiusMiles === null || input.radiusMiles === '' ? null : Number(input.radiusMiles)
+    if (radius !== null && (!Number.isFinite(radius) || radius < 0 || radius > MAX_SERVICE_RADIUS_MILES)) {
+      throw new ServiceAreaError(`Radius must be between 0 and ${MAX_SERVICE_RADIUS_MILES} miles`)
+    }
+    result.radiusMiles = radius
+  }
+
+  if (input.polygons !== undefined) {
+    const polygons = input.polygons
+    if (polygons !== null && (polygons?.type !== 'FeatureCollection' || !Array.isArray(polygons.features))) {
+      throw new ServiceAreaError('polygons must be a GeoJSON FeatureCollection')
+    }
+    const features = (polygons?.features || []).filter((f: any) =>
+      f?.geometry?.type === 'Polygon' || f?.geometry?.type === 'MultiPolygon'
+    )
+    result.polygons = features.length > 0 ? { type: 'FeatureCollection', features } : null
+  }
+
+  if (input.travelFee !== undefined) {
+    const fee = input.travelFee === null || input.travelFee === '' ? null : Number(input.travelFee)
+    if (fee !== null && (!Number.isFinite(fee) || fee < 0)) {
+      throw new ServiceAreaError('Travel fee must be a positive amount')
+    }
+    result.travelFee = fee
+  }
+
+  return result
+}
+
+/**
+ * Apply a validated update on top of the stored service area
+ */
+export function mergeServiceArea(current: ServiceArea, input: ServiceAreaInput): ServiceArea {
+  return {
+    ...current,
+    base_zip: input.baseZip !== undefined ? input.baseZip : current.base_zip,
+    service_area_zips: input.zips !== undefined ? input.zips : current.service_area_zips,
+    service_radius_miles: input.radiusMiles !== undefined ? input.radiusMiles : current.service_radius_miles,
+    service_area_polygons: input.polygons !== undefined ? input.polygons : current.service_area_polygons,
+    travel_fee: input.travelFee !== undefined ? input.travelFee : current.travel_fee
+  }
+}
+
+export async function getServiceArea(supabase: SupabaseClient, contractorId: string): Promise<ServiceArea | null> {
+  const { data, error } = await supabase
+    .from('pro_contractors')
+    .select(SERVICE_AREA_COLUMNS)
+    .eq('id', contractorId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as ServiceArea | null
+}
+
+/**
+ * Persist a service area together with its resolved coverage ZIPs
+ */
+export async function saveServiceArea(
+  supabase: SupabaseClient,
+  contractorId: string,
+  area: ServiceArea,
+  resolved: { coverageZips: string[]; resolvedAt: string | null }
+): Promise<ServiceArea> {
+  const { data, error } = await supabase
+    .from('pro_contractors')
+    .update({
+      base_zip: area.base_zip,
+      service_area_zips: area.service_area_zips || [],
+      service_radius_miles: area.service_radius_miles,
+      latitude: area.latitude,
+      longitude: area.longitude,
+      service_area_polygons: area.service_area_polygons,
+      travel_fee: area.travel_fee,
+      coverage_zips: resolved.coverageZips,
+      coverage_resolved_at: resolved.resolvedAt,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', contractorId)
+    .select(SERVICE_AREA_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return data as ServiceArea
+}
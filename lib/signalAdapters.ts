@@ -0,0 +1,433 @@
+/**
+ * Signal source adapters for Rushr
+ *
+ * Server-only. Every row in signal_sources names the adapter that reads it in
+ * its type column, with the adapter's settings in config:
+ * - file_drop: CSV or JSON files dropped at config.path (a file or a
+ *   directory, relative to the app root)
+ * - rest: a generic JSON poller for api_endpoint. config.recordsPath points at
+ *   the record array, config.sinceParam and config.cursorField page through
+ *   new records, and config.headers values written as "env:NAME" are read
+ *   from the environment
+ * - permit_feed: a Socrata building permit feed such as NYC DOB NOW approved
+ *   permits, with the field mapping and "since" filter built in
+ *
+ * Adapters only read; lib/signalIngest.ts normalizes, geocodes, dedupes and
+ * stores what they return. rest and permit_feed read config.fixture instead
+ * of the network when it is set, and offline runs never call the network, so
+ * every source can be exercised against the files in data/signals/.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/** Signal columns an adapter can fill from a source record */
+export const SIGNAL_FIELDS = [
+  'external_id',
+  'title',
+  'description',
+  'signal_type',
+  'category',
+  'address',
+  'city',
+  'state',
+  'zip_code',
+  'latitude',
+  'longitude',
+  'estimated_value',
+  'urgency_score',
+  'signal_date',
+  'expires_at',
+  'source_url'
+] as const
+
+export type SignalField = typeof SIGNAL_FIELDS[number]
+
+export type SignalAdapterType = 'file_drop' | 'rest' | 'permit_feed'
+
+export interface SignalSourceConfig {
+  /** file_drop: file or directory to read, relative to the app root */
+  path?: string
+  /** rest, permit_feed: local JSON file read instead of api_endpoint */
+  fixture?: string
+  /** rest: dot path to the record array in the response, e.g. "data.items" */
+  recordsPath?: string
+  /** rest: query parameter that receives the stored cursor */
+  sinceParam?: string
+  /** rest, permit_feed: record field whose highest value becomes the cursor */
+  cursorField?: string
+  /** rest, permit_feed: request headers; "env:NAME" reads process.env.NAME */
+  headers?: Record<string, string>
+  /** Signal field → source field (dot paths allowed) */
+  fieldMap?: Partial<Record<SignalField, string>>
+  /** Values used when a record has none, e.g. { signal_type: 'VIOLATION' } */
+  defaults?: Partial<Record<SignalField, string | number>>
+  /** Days a signal stays active when the source gives no expiry */
+  ttlDays?: number
+  /** Most records to take per run */
+  limit?: number
+}
+
+export interface SignalSource {
+  id: string
+  name: string
+  type: string
+  source_url: string | null
+  api_endpoint: string | null
+  is_active: boolean
+  config: SignalSourceConfig | null
+  last_polled_at?: string | null
+  last_cursor?: string | null
+}
+
+/** One record as read from a source, mapped onto signal fields but not yet cleaned */
+export interface SourceRecord {
+  fields: Partial<Record<SignalField, unknown>>
+  raw: Record<string, unknown>
+}
+
+export interface AdapterContext {
+  /** Cursor stored by the previous run */
+  since: string | null
+  /** Read fixtures only; never call the network */
+  offline: boolean
+  fetch: typeof fetch
+}
+
+export interface AdapterResult {
+  records: SourceRecord[]
+  /** Cursor to store for the next run */
+  cursor: string | null
+}
+
+export interface SignalAdapter {
+  type: SignalAdapterType
+  read(source: SignalSource, context: AdapterContext): Promise<AdapterResult>
+}
+
+export class SignalSourceError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'SignalSourceError'
+    this.status = status
+  }
+}
+
+/**
+ * Parse CSV text with a header row. Handles quoted fields, doubled quotes and
+ * line breaks inside quotes.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(value => value.trim() !== ''))
+  if (!header) return []
+
+  const keys = header.map(key => key.trim())
+  return body.map(values => {
+    const record: Record<string, string> = {}
+    keys.forEach((key, index) => { record[key] = (values[index] ?? '').trim() })
+    return record
+  })
+}
+
+/**
+ * Read a value by dot path ("location.zip")
+ */
+export function valueAt(record: unknown, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined
+    return (value as Record<string, unknown>)[key]
+  }, record)
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+}
+
+/**
+ * Map a source record onto signal fields. Fields without an entry in fieldMap
+ * are read from the column of the same name; defaults fill the gaps.
+ */
+export function mapRecord(
+  raw: Record<string, unknown>,
+  fieldMap: Partial<Record<SignalField, string>> = {},
+  defaults: Partial<Record<SignalField, string | number>> = {}
+): SourceRecord {
+  const fields: SourceRecord['fields'] = {}
+
+  for (const field of SIGNAL_FIELDS) {
+    const value = valueAt(raw, fieldMap[field] || field)
+    if (!isBlank(value)) {
+      fields[field] = value
+    } else if (defaults[field] !== undefined) {
+      fields[field] = defaults[field]
+    }
+  }
+
+  return { fields, raw }
+}
+
+/**
+ * Resolve a path from config against the app root
+ */
+export function resolveDataPath(file: string): string {
+  return path.isAbsolute(file) ? file : path.join(process.cwd(), file)
+}
+
+async function readJson(file: string): Promise<unknown> {
+  const resolved = resolveDataPath(file)
+  try {
+    return JSON.parse(await fs.readFile(resolved, 'utf8'))
+  } catch (error: any) {
+    throw new SignalSourceError(`Could not read ${resolved}: ${error.message}`)
+  }
+}
+
+function recordsAt(payload: unknown, recordsPath?: string): Record<string, unknown>[] {
+  const records = recordsPath ? valueAt(payload, recordsPath) : payload
+  if (!Array.isArray(records)) {
+    throw new SignalSourceError(`Expected an array of records${recordsPath ? ` at "${recordsPath}"` : ''}`)
+  }
+  return records.filter(item => item && typeof item === 'object') as Record<string, unknown>[]
+}
+
+function resolveHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const resolved: Record<string, string> = { Accept: 'application/json' }
+  for (const [name, value] of Object.entries(headers)) {
+    resolved[name] = value.startsWith('env:') ? process.env[value.slice(4)] || '' : value
+  }
+  return resolved
+}
+
+/**
+ * Drop records at or before the stored cursor and return the new cursor.
+ * Cursor values compare as strings, so use ISO dates or zero-padded ids.
+ * Filtering here as well keeps fixtures and servers that ignore the "since"
+ * parameter from re-reading old records.
+ */
+function applyCursor(records: SourceRecord[], cursorField: string | undefined, since: string | null): AdapterResult {
+  if (!cursorField) return { records, cursor: since }
+
+  let cursor = since
+  const fresh = records.filter(record => {
+    const value = valueAt(record.raw, cursorField)
+    if (isBlank(value)) return true
+    const key = String(value)
+    if (!cursor || key > cursor) cursor = key
+    return !since || key > since
+  })
+
+  return { records: fresh, cursor }
+}
+
+function applyLimit(result: AdapterResult, limit?: number): AdapterResult {
+  if (!limit || result.records.length <= limit) return result
+  return { ...result, records: result.records.slice(0, limit) }
+}
+
+async function fetchJson(url: URL, source: SignalSource, context: AdapterContext): Promise<unknown> {
+  const response = await context.fetch(url.toString(), { headers: resolveHeaders(source.config?.headers) })
+  if (!response.ok) {
+    throw new SignalSourceError(`${source.name} responded with ${response.status}`, 502)
+  }
+  return response.json()
+}
+
+function requireEndpoint(source: SignalSource, context: AdapterContext): URL {
+  if (context.offline) {
+    throw new SignalSourceError(`${source.name} has no fixture to read offline`)
+  }
+  if (!source.api_endpoint) {
+    throw new SignalSourceError(`${source.name} has no api_endpoint`)
+  }
+  return new URL(source.api_endpoint)
+}
+
+async function listDropFiles(target: string): Promise<string[]> {
+  const resolved = resolveDataPath(target)
+  let stat
+  try {
+    stat = await fs.stat(resolved)
+  } catch {
+    throw new SignalSourceError(`Drop path not found: ${resolved}`)
+  }
+
+  if (!stat.isDirectory()) return [resolved]
+
+  const entries = await fs.readdir(resolved)
+  return entries
+    .filter(name => /\.(csv|json)$/i.test(name))
+    .sort()
+    .map(name => path.join(resolved, name))
+}
+
+const fileDropAdapter: SignalAdapter = {
+  type: 'file_drop',
+  async read(source, context) {
+    const config = source.config || {}
+    if (!config.path) {
+      throw new SignalSourceError(`${source.name} has no config.path to read`)
+    }
+
+    const records: SourceRecord[] = []
+    for (const file of await listDropFiles(config.path)) {
+      const rows = /\.csv$/i.test(file)
+        ? parseCsv(await fs.readFile(file, 'utf8'))
+        : recordsAt(await readJson(file), config.recordsPath)
+      records.push(...rows.map(row => mapRecord(row, config.fieldMap, config.defaults)))
+    }
+
+    return applyLimit(applyCursor(records, config.cursorField, context.since), config.limit)
+  }
+}
+
+const restAdapter: SignalAdapter = {
+  type: 'rest',
+  async read(source, context) {
+    const config = source.config || {}
+
+    let payload: unknown
+    if (config.fixture) {
+      payload = await readJson(config.fixture)
+    } else {
+      const url = requireEndpoint(source, context)
+      if (config.sinceParam && context.since) url.searchParams.set(config.sinceParam, context.since)
+      payload = await fetchJson(url, source, context)
+    }
+
+    const records = recordsAt(payload, config.recordsPath)
+      .map(row => mapRecord(row, config.fieldMap, config.defaults))
+
+    return applyLimit(applyCursor(records, config.cursorField, context.since), config.limit)
+  }
+}
+
+// DOB NOW approved permits (data.cityofnewyork.us rbx6-tga4) column names
+const PERMIT_FEED_FIELDS: Partial<Record<SignalField, string>> = {
+  external_id: 'work_permit',
+  description: 'job_description',
+  category: 'work_type',
+  city: 'borough',
+  zip_code: 'zip_code',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  estimated_value: 'estimated_job_costs',
+  signal_date: 'issued_date',
+  expires_at: 'expired_date'
+}
+
+const PERMIT_FEED_CURSOR = 'issued_date'
+const PERMIT_FEED_PAGE_SIZE = 500
+
+function titleCase(value: string): string {
+  return value.toLowerCase().replace(/\b[a-z]/g, letter => letter.toUpperCase())
+}
+
+function permitRecord(raw: Record<string, unknown>, config: SignalSourceConfig): SourceRecord {
+  const record = mapRecord(raw, { ...PERMIT_FEED_FIELDS, ...config.fieldMap }, {
+    signal_type: 'PERMIT',
+    ...config.defaults
+  })
+  const { fields } = record
+
+  if (isBlank(fields.address)) {
+    const street = [raw.house_no, raw.street_name].filter(part => !isBlank(part)).join(' ')
+    if (street) fields.address = titleCase(street)
+  }
+  if (typeof fields.city === 'string') {
+    fields.city = fields.city.toUpperCase() === 'MANHATTAN' ? 'New York' : titleCase(fields.city)
+  }
+  if (isBlank(fields.title)) {
+    const work = isBlank(raw.work_type) ? 'Building' : String(raw.work_type)
+    fields.title = `${work} permit issued${fields.address ? ` at ${fields.address}` : ''}`
+  }
+
+  return record
+}
+
+const permitFeedAdapter: SignalAdapter = {
+  type: 'permit_feed',
+  async read(source, context) {
+    const config = source.config || {}
+    const cursorField = config.cursorField || PERMIT_FEED_CURSOR
+
+    let payload: unknown
+    if (config.fixture) {
+      payload = await readJson(config.fixture)
+    } else {
+      const url = requireEndpoint(source, context)
+      url.searchParams.set('$order', `${cursorField} ASC`)
+      url.searchParams.set('$limit', String(config.limit || PERMIT_FEED_PAGE_SIZE))
+      if (context.since) url.searchParams.set('$where', `${cursorField} > '${context.since.replace(/'/g, "''")}'`)
+      payload = await fetchJson(url, source, context)
+    }
+
+    const records = recordsAt(payload, config.recordsPath).map(row => permitRecord(row, config))
+
+    return applyLimit(applyCursor(records, cursorField, context.since), config.limit)
+  }
+}
+
+const ADAPTERS: Record<SignalAdapterType, SignalAdapter> = {
+  file_drop: fileDropAdapter,
+  rest: restAdapter,
+  permit_feed: permitFeedAdapter
+}
+
+export function isAdapterType(type: string): type is SignalAdapterType {
+  return type in ADAPTERS
+}
+
+/**
+ * The adapter for a source's type
+ */
+export function getSignalAdapter(source: SignalSource): SignalAdapter {
+  if (!isAdapterType(source.type)) {
+    throw new SignalSourceError(
+      `${source.name} has type "${source.type}"; expected one of ${Object.keys(ADAPTERS).join(', ')}`
+    )
+  }
+  return ADAPTERS[source.type]
+}
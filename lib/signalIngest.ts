@@ -0,0 +1,668 @@
+/**
+ * Signal Ingestion for Rushr
+ *
+ * Reads every active signal source through its adapter (see signalAdapters.ts)
+ * and keeps the signals table in step with it:
+ * 1. normalize: trim text, parse numbers and dates, clean ZIPs and states, map
+ *    categories onto contractor categories and fill in a missing title
+ * 2. dedupe on (source_id, external_id), within the batch and against stored
+ *    rows. Records whose content hash has not changed only get last_seen_at
+ *    bumped
+ * 3. geocode new and changed records: the source's own coordinates, else the
+ *    ZIP centroid from data/zcta.geojson, else Mapbox when online
+ * 4. score urgency from 0 to 100 by type, wording, recency and value
+ * 5. expire signals past expires_at, or older than the TTL when the source
+ *    gave no expiry
+ * 6. match the new signals against contractor subscriptions and send instant
+ *    alerts (lib/signalMatching.ts)
+ *
+ * SIGNAL_TTL_DAYS (default 30) sets the TTL and SIGNAL_INGEST_OFFLINE=true
+ * keeps every run off the network. previewSignalIngest runs steps 1-4 without
+ * a database, for scripts/ingest-signals.ts --dry-run.
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ZctaDatasetError, zipCentroid } from './zcta'
+import { matchPendingSignals } from './signalMatching'
+import {
+  SignalSource,
+  SignalSourceError,
+  SourceRecord,
+  getSignalAdapter
+} from './signalAdapters'
+
+export type GeocodeSource = 'source' | 'zip_centroid' | 'mapbox'
+
+export interface SignalIngestConfig {
+  /** Days a signal stays active when its source gives no expiry */
+  ttlDays: number
+  /** Read fixtures only; never call source APIs or Mapbox */
+  offline: boolean
+  mapboxToken: string | null
+}
+
+export interface NormalizedSignal {
+  source_id: string
+  external_id: string
+  title: string
+  description: string | null
+  signal_type: string
+  category: string | null
+  address: string | null
+  city: string | null
+  state: string | null
+  zip_code: string | null
+  latitude: number | null
+  longitude: number | null
+  estimated_value: number | null
+  urgency_score: number
+  raw_data: Record<string, unknown>
+  source_url: string | null
+  signal_date: string | null
+  expires_at: string
+  is_active: boolean
+  content_hash: string
+  geocode_source: GeocodeSource | null
+}
+
+export interface SourceIngestSummary {
+  sourceId: string
+  sourceName: string
+  fetched: number
+  inserted: number
+  updated: number
+  unchanged: number
+  skipped: number
+  cursor: string | null
+  error?: string
+}
+
+export interface SignalIngestSummary {
+  sources: SourceIngestSummary[]
+  expired: number
+  /** Contractor matches made for the new signals */
+  matched: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BATCH_SIZE = 200
+
+// Checked in order; the first match wins
+const CATEGORY_KEYWORDS: Array<[RegExp, string]> = [
+  [/water damage|flood/i, 'Water Damage'],
+  [/plumb|sprinkler|standpipe|sewer|drain|water main/i, 'Plumbing'],
+  [/electric|solar|wiring/i, 'Electrical'],
+  [/hvac|mechanical|boiler|heating|furnace|air condition|ventilation/i, 'HVAC'],
+  [/roof/i, 'Roofing'],
+  [/locksmith|lock/i, 'Locksmith'],
+  [/appliance/i, 'Appliance Repair'],
+  [/general construction|structural|foundation|alteration|renovation|demolition/i, 'General Contractor']
+]
+
+const TYPE_URGENCY: Record<string, number> = {
+  VIOLATION: 65,
+  COMPLAINT: 60,
+  INSPECTION: 60,
+  PERMIT: 40
+}
+
+const URGENT_WORDS = ['emergency', 'immediate', 'hazard', 'unsafe', 'leak', 'gas', 'fire', 'flood', 'no heat', 'collapse', 'vacate', 'stop work']
+
+/**
+ * Read the ingest settings from the environment
+ */
+export function getSignalIngestConfig(): SignalIngestConfig {
+  const ttlDays = Number(process.env.SIGNAL_TTL_DAYS)
+  return {
+    ttlDays: Number.isFinite(ttlDays) && ttlDays > 0 ? ttlDays : 30,
+    offline: process.env.SIGNAL_INGEST_OFFLINE === 'true',
+    mapboxToken: process.env.MAPBOX_TOKEN || process.env.NEXT_PUBLIC_MAPBOX_TOKEN || null
+  }
+}
+
+function text(value: unknown): string | null {
+  if (value === null || value === undefined) return null
+  const trimmed = String(value).replace(/\s+/g, ' ').trim()
+  return trimmed || null
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[$,\s]/g, ''))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null
+  // Epoch values in seconds or milliseconds
+  const numeric = typeof value === 'number' ? value : null
+  const time = numeric !== null
+    ? (numeric < 1e12 ? numeric * 1000 : numeric)
+    : Date.parse(String(value))
+  return Number.isFinite(time) ? new Date(time).toISOString() : null
+}
+
+function toZip(value: unknown): string | null {
+  const match = text(value)?.match(/\b(\d{5})(?:-\d{4})?\b/)
+  return match ? match[1] : null
+}
+
+function toState(value: unknown): string | null {
+  const state = text(value)?.toUpperCase()
+  return state && /^[A-Z]{2}$/.test(state) ? state : null
+}
+
+function validCoordinates(lat: number | null, lng: number | null): boolean {
+  return lat !== null && lng !== null &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180 &&
+    (lat !== 0 || lng !== 0)
+}
+
+/**
+ * Map a source's category or work type onto a contractor category
+ * ("PLUMBING WORK" → "Plumbing"). Unknown categories are kept as given.
+ */
+export function normalizeSignalCategory(value: unknown): string | null {
+  const category = text(value)
+  if (!category) return null
+  const match = CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(category))
+  return match ? match[1] : category
+}
+
+/**
+ * Urgency from 0 to 100. A score supplied by the source wins; otherwise it
+ * starts from the signal type and rises with urgent wording, recency and
+ * estimated value.
+ */
+export function scoreUrgency(
+  signal: Pick<NormalizedSignal, 'signal_type' | 'title' | 'description' | 'signal_date' | 'estimated_value'>,
+  now: Date,
+  sourceScore: number | null = null
+): number {
+  if (sourceScore !== null) {
+    return Math.round(Math.min(100, Math.max(0, sourceScore)))
+  }
+
+  let score = TYPE_URGENCY[signal.signal_type] ?? 50
+
+  const wording = `${signal.title} ${signal.description || ''}`.toLowerCase()
+  const urgentWords = URGENT_WORDS.filter(word => wording.includes(word)).length
+  score += Math.min(24, urgentWords * 8)
+
+  if (signal.signal_date) {
+    const ageDays = (now.getTime() - new Date(signal.signal_date).getTime()) / DAY_MS
+    if (ageDays <= 1) score += 15
+    else if (ageDays <= 3) score += 10
+    else if (ageDays <= 7) score += 5
+    else if (ageDays > 30) score -= 10
+  }
+
+  const value = signal.estimated_value || 0
+  if (value >= 50000) score += 10
+  else if (value >= 10000) score += 5
+
+  return Math.round(Math.min(100, Math.max(0, score)))
+}
+
+function hashSignal(values: unknown[]): string {
+  return createHash('sha1').update(JSON.stringify(values)).digest('hex')
+}
+
+/**
+ * Clean one adapter record into a signal row, or give the reason it was
+ * skipped. Records without an external_id get one derived from their
+ * content, so re-reading the same file still dedupes.
+ */
+export function normalizeRecord(
+  source: SignalSource,
+  record: SourceRecord,
+  options: { now: Date; ttlDays: number }
+): { signal: NormalizedSignal; sourceScore: number | null } | { reason: string } {
+  const { fields } = record
+
+  const signalType = (text(fields.signal_type) || 'OTHER').toUpperCase().replace(/\s+/g, '_')
+  const address = text(fields.address)
+  const category = normalizeSignalCategory(fields.category)
+  const title = text(fields.title) ||
+    (address ? `${category || 'Signal'} ${signalType.toLowerCase().replace(/_/g, ' ')} at ${address}` : null)
+
+  if (!title) {
+    return { reason: 'no title or address' }
+  }
+
+  let latitude = toNumber(fields.latitude)
+  let longitude = toNumber(fields.longitude)
+  if (!validCoordinates(latitude, longitude)) {
+    latitude = null
+    longitude = null
+  }
+
+  const signalDate = toIsoDate(fields.signal_date)
+  const ttlDays = source.config?.ttlDays || options.ttlDays
+  const expiresAt = toIsoDate(fields.expires_at) ||
+    new Date(new Date(signalDate || options.now).getTime() + ttlDays * DAY_MS).toISOString()
+  const sourceScore = toNumber(fields.urgency_score)
+
+  const content = {
+    title,
+    description: text(fields.description),
+    signal_type: signalType,
+    category,
+    address,
+    city: text(fields.city),
+    state: toState(fields.state),
+    zip_code: toZip(fields.zip_code) || toZip(address),
+    latitude,
+    longitude,
+    estimated_value: toNumber(fields.estimated_value),
+    source_url: text(fields.source_url) || source.source_url,
+    signal_date: signalDate,
+    expires_at: expiresAt
+  }
+  const contentHash = hashSignal([...Object.values(content), sourceScore])
+  const externalId = text(fields.external_id) || `derived:${contentHash.slice(0, 16)}`
+
+  return {
+    signal: {
+      source_id: source.id,
+      external_id: externalId,
+      ...content,
+      urgency_score: 50,
+      raw_data: record.raw,
+      is_active: new Date(expiresAt) > options.now,
+      content_hash: contentHash,
+      geocode_source: latitude !== null ? 'source' : null
+    },
+    sourceScore
+  }
+}
+
+interface Geocoder {
+  offline: boolean
+  mapboxToken: string | null
+  fetch: typeof fetch
+  zctaAvailable: boolean
+  cache: Map<string, { latitude: number; longitude: number; zip: string | null } | null>
+}
+
+function createGeocoder(config: SignalIngestConfig, offline: boolean, fetchImpl: typeof fetch): Geocoder {
+  return {
+    offline,
+    mapboxToken: config.mapboxToken,
+    fetch: fetchImpl,
+    zctaAvailable: true,
+    cache: new Map()
+  }
+}
+
+async function geocodeWithMapbox(geocoder: Geocoder, query: string) {
+  if (geocoder.cache.has(query)) return geocoder.cache.get(query)!
+
+  const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(query)}.json` +
+    `?access_token=${geocoder.mapboxToken}&country=US&types=address&limit=1`
+
+  let result = null
+  try {
+    const response = await geocoder.fetch(url)
+    if (response.ok) {
+      const feature = (await response.json()).features?.[0]
+      if (feature?.center) {
+        const postcode = (feature.context || []).find((item: any) => String(item.id).startsWith('postcode'))
+        result = { longitude: feature.center[0], latitude: feature.center[1], zip: postcode?.text || null }
+      }
+    }
+  } catch (error) {
+    console.error('[Signals] Mapbox geocoding failed:', error)
+  }
+
+  geocoder.cache.set(query, result)
+  return result
+}
+
+/**
+ * Fill in coordinates for a signal that arrived without them
+ */
+async function geocodeSignal(signal: NormalizedSignal, geocoder: Geocoder): Promise<void> {
+  if (signal.geocode_source) return
+
+  if (signal.zip_code && geocoder.zctaAvailable) {
+    try {
+      const centroid = await zipCentroid(signal.zip_code)
+      if (centroid) {
+        signal.longitude = centroid[0]
+        signal.latitude = centroid[1]
+        signal.geocode_source = 'zip_centroid'
+        return
+      }
+    } catch (error) {
+      if (!(error instanceof ZctaDatasetError)) throw error
+      geocoder.zctaAvailable = false
+    }
+  }
+
+  if (geocoder.offline || !geocoder.mapboxToken || !signal.address) return
+
+  const query = [signal.address, signal.city, signal.state, signal.zip_code].filter(Boolean).join(', ')
+  const result = await geocodeWithMapbox(geocoder, query)
+  if (!result) return
+
+  signal.latitude = result.latitude
+  signal.longitude = result.longitude
+  signal.zip_code = signal.zip_code || result.zip
+  signal.geocode_source = 'mapbox'
+}
+
+interface CollectedSignals {
+  fetched: number
+  skipped: number
+  cursor: string | null
+  signals: Map<string, { signal: NormalizedSignal; sourceScore: number | null }>
+}
+
+/**
+ * Read a source and normalize its records, keeping the last record for each
+ * external_id
+ */
+async function collectSignals(
+  source: SignalSource,
+  options: { offline: boolean; now: Date; ttlDays: number; fetch: typeof fetch }
+): Promise<CollectedSignals> {
+  const adapter = getSignalAdapter(source)
+  const { records, cursor } = await adapter.read(source, {
+    since: source.last_cursor || null,
+    offline: options.offline,
+    fetch: options.fetch
+  })
+
+  const signals: CollectedSignals['signals'] = new Map()
+  let skipped = 0
+
+  for (const record of records) {
+    const result = normalizeRecord(source, record, options)
+    if ('reason' in result) {
+      skipped++
+      continue
+    }
+    signals.set(result.signal.external_id, result)
+  }
+
+  return { fetched: records.length, skipped, cursor, signals }
+}
+
+async function finishSignals(
+  entries: Array<{ signal: NormalizedSignal; sourceScore: number | null }>,
+  geocoder: Geocoder,
+  now: Date
+): Promise<NormalizedSignal[]> {
+  const signals: NormalizedSignal[] = []
+  for (const { signal, sourceScore } of entries) {
+    await geocodeSignal(signal, geocoder)
+    signal.urgency_score = scoreUrgency(signal, now, sourceScore)
+    signals.push(signal)
+  }
+  return signals
+}
+
+function chunk<T>(items: T[], size = BATCH_SIZE): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+/**
+ * Ingest one source: read, normalize, dedupe against stored signals, geocode
+ * and score what is new or changed, and upsert it. The run is recorded in
+ * signal_ingest_runs and the cursor stored on the source. Errors are returned
+ * in the summary so one broken source does not stop the others.
+ */
+export async function ingestSignalSource(params: {
+  supabase: SupabaseClient
+  source: SignalSource
+  offline?: boolean
+  now?: Date
+  fetchImpl?: typeof fetch
+  config?: SignalIngestConfig
+}): Promise<SourceIngestSummary> {
+  const { supabase, source } = params
+  const config = params.config || getSignalIngestConfig()
+  const offline = params.offline ?? config.offline
+  const now = params.now || new Date()
+  const fetchImpl = params.fetchImpl || fetch
+
+  const summary: SourceIngestSummary = {
+    sourceId: source.id,
+    sourceName: source.name,
+    fetched: 0,
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    cursor: source.last_cursor || null
+  }
+
+  const { data: run } = await supabase
+    .from('signal_ingest_runs')
+    .insert({ source_id: source.id, started_at: now.toISOString() })
+    .select('id')
+    .single()
+
+  try {
+    const collected = await collectSignals(source, { offline, now, ttlDays: config.ttlDays, fetch: fetchImpl })
+    summary.fetched = collected.fetched
+    summary.skipped = collected.skipped
+    summary.cursor = collected.cursor
+
+    const stored = new Map<string, { id: string; content_hash: string | null }>()
+    for (const ids of chunk(Array.from(collected.signals.keys()))) {
+      const { data, error } = await supabase
+        .from('signals')
+        .select('id, external_id, content_hash')
+        .eq('source_id', source.id)
+        .in('external_id', ids)
+
+      if (error) throw error
+      for (const row of data || []) stored.set(row.external_id, row)
+    }
+
+    const unchangedIds: string[] = []
+    const changed: Array<{ signal: NormalizedSignal; sourceScore: number | null }> = []
+
+    collected.signals.forEach((entry, externalId) => {
+      const existing = stored.get(externalId)
+      if (existing && existing.content_hash === entry.signal.content_hash) {
+        unchangedIds.push(existing.id)
+      } else {
+        changed.push(entry)
+        if (existing) summary.updated++
+        else summary.inserted++
+      }
+    })
+    summary.unchanged = unchangedIds.length
+
+    const seenAt = now.toISOString()
+
+    for (const ids of chunk(unchangedIds)) {
+      const { error } = await supabase
+        .from('signals')
+        .update({ last_seen_at: seenAt })
+        .in('id', ids)
+
+      if (error) throw error
+    }
+
+    const geocoder = createGeocoder(config, offline, fetchImpl)
+    const signals = await finishSignals(changed, geocoder, now)
+
+    for (const rows of chunk(signals)) {
+      const { error } = await supabase
+        .from('signals')
+        .upsert(
+          rows.map(signal => ({ ...signal, last_seen_at: seenAt, updated_at: seenAt })),
+          { onConflict: 'source_id,external_id' }
+        )
+
+      if (error) throw error
+    }
+
+    await supabase
+      .from('signal_sources')
+      .update({ last_polled_at: seenAt, last_cursor: summary.cursor, last_error: null })
+      .eq('id', source.id)
+
+    if (run) {
+      await supabase
+        .from('signal_ingest_runs')
+        .update({
+          status: 'succeeded',
+          finished_at: new Date().toISOString(),
+          fetched: summary.fetched,
+          inserted: summary.inserted,
+          updated: summary.updated,
+          unchanged: summary.unchanged,
+          skipped: summary.skipped
+        })
+        .eq('id', run.id)
+    }
+
+  } catch (error: any) {
+    console.error(`[Signals] Ingest failed for ${source.name}:`, error)
+    summary.error = error.message || 'Ingest failed'
+
+    await supabase
+      .from('signal_sources')
+      .update({ last_polled_at: now.toISOString(), last_error: summary.error })
+      .eq('id', source.id)
+
+    if (run) {
+      await supabase
+        .from('signal_ingest_runs')
+        .update({ status: 'failed', finished_at: new Date().toISOString(), error: summary.error })
+        .eq('id', run.id)
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Deactivate signals past their expiry, and signals older than the TTL that
+ * have no expiry (rows loaded before ingestion stored one)
+ */
+export async function expireStaleSignals(
+  supabase: SupabaseClient,
+  now = new Date(),
+  config = getSignalIngestConfig()
+): Promise<number> {
+  const updatedAt = now.toISOString()
+
+  const { data: expired, error } = await supabase
+    .from('signals')
+    .update({ is_active: false, updated_at: updatedAt })
+    .eq('is_active', true)
+    .lt('expires_at', updatedAt)
+    .select('id')
+
+  if (error) throw error
+
+  const cutoff = new Date(now.getTime() - config.ttlDays * DAY_MS).toISOString()
+  const { data: stale, error: staleError } = await supabase
+    .from('signals')
+    .update({ is_active: false, updated_at: updatedAt })
+    .eq('is_active', true)
+    .is('expires_at', null)
+    .lt('signal_date', cutoff)
+    .select('id')
+
+  if (staleError) throw staleError
+
+  return (expired?.length || 0) + (stale?.length || 0)
+}
+
+/**
+ * Ingest every active source (or the given ones) in turn, expire stale
+ * signals, then match what is new. Signals left unmatched by a failed match
+ * are picked up by the next run.
+ */
+export async function runSignalIngest(params: {
+  supabase: SupabaseClient
+  sourceIds?: string[]
+  offline?: boolean
+  now?: Date
+}): Promise<SignalIngestSummary> {
+  const { supabase } = params
+  const now = params.now || new Date()
+  const config = getSignalIngestConfig()
+
+  let query = supabase.from('signal_sources').select('*').order('name')
+  query = params.sourceIds?.length ? query.in('id', params.sourceIds) : query.eq('is_active', true)
+
+  const { data: sources, error } = await query
+  if (error) throw error
+
+  if (params.sourceIds?.length && (sources || []).length === 0) {
+    throw new SignalSourceError('Signal source not found', 404)
+  }
+
+  const summaries: SourceIngestSummary[] = []
+  for (const source of (sources || []) as SignalSource[]) {
+    summaries.push(await ingestSignalSource({ supabase, source, offline: params.offline, now, config }))
+  }
+
+  const expired = await expireStaleSignals(supabase, now, config)
+
+  let matched = 0
+  try {
+    matched = (await matchPendingSignals({ supabase, now })).matched
+  } catch (error: any) {
+    console.error('[SIGNALS] Matching failed:', error.message)
+  }
+
+  return { sources: summaries, expired, matched }
+}
+
+/**
+ * Read and prepare signals without a database. Nothing is stored, not even
+ * the cursor, and every record counts as new. Offline unless told otherwise.
+ */
+export async function previewSignalIngest(params: {
+  sources: SignalSource[]
+  offline?: boolean
+  now?: Date
+}): Promise<{ sources: SourceIngestSummary[]; signals: NormalizedSignal[] }> {
+  const now = params.now || new Date()
+  const offline = params.offline ?? true
+  const config = getSignalIngestConfig()
+  const geocoder = createGeocoder(config, offline, fetch)
+
+  const summaries: SourceIngestSummary[] = []
+  const signals: NormalizedSignal[] = []
+
+  for (const source of params.sources) {
+    const summary: SourceIngestSummary = {
+      sourceId: source.id,
+      sourceName: source.name,
+      fetched: 0,
+      inserted: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+      cursor: source.last_cursor || null
+    }
+
+    try {
+      const collected = await collectSignals(source, { offline, now, ttlDays: config.ttlDays, fetch })
+      summary.fetched = collected.fetched
+      summary.skipped = collected.skipped
+      summary.cursor = collected.cursor
+      summary.inserted = collected.signals.size
+      signals.push(...await finishSignals(Array.from(collected.signals.values()), geocoder, now))
+    } catch (error: any) {
+      summary.error = error.message || 'Ingest failed'
+    }
+
+    summaries.push(summary)
+  }
+
+  return { sources: summaries, signals }
+}
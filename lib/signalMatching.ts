@@ -0,0 +1,694 @@
+/**
+ * Signal-to-Subscription Matching for Rushr
+ *
+ * After each ingest run (lib/signalIngest.ts) every signal not matched yet is
+ * checked against the active subscriptions of contractors whose plan
+ * includes Signals (lib/billing.ts):
+ * - signal type, category (lib/jobCategories.ts), area (listed ZIP or within
+ *   max_distance_miles of the contractor), value bounds and minimum urgency
+ * - each signal is matched to a contractor at most once, through the first
+ *   subscription that accepts it (one with instant alerts wins)
+ *
+ * Instant alerts go through the notification dispatcher as 'signal_match',
+ * grouped per contractor so a large run sends one message, with email and SMS
+ * only when the subscription turns them on. The daily digest collects the
+ * last day's matches for subscriptions with daily_digest. Opening and
+ * converting a matched signal bump signals_received and signals_acted_on on
+ * the subscription that matched it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { distanceMiles } from './geo'
+import { matchingCategories } from './jobCategories'
+import { isValidZip } from './serviceArea'
+import { SignalEmailItem, notifySignalDigest, notifySignalMatches } from './emailService'
+import { sendSignalAlertSMS } from './smsService'
+import { dispatchNotification } from './notificationDispatcher'
+import type { NotificationChannel } from './notificationPreferences'
+import {
+  MAX_SIGNAL_DISTANCE_MILES,
+  MatchedSignal,
+  SignalEngagement,
+  SignalMatch,
+  SignalSubscription,
+  SignalSubscriptionInput
+} from './signalSubscriptions'
+import { hasEntitlement, usersWithEntitlement } from './billing'
+
+export interface SignalMatchConfig {
+  /** Signals listed in an alert or digest email; the rest are counted */
+  emailListLimit: number
+  /** Subscriptions one contractor may keep */
+  maxSubscriptions: number
+}
+
+export interface SignalMatchDecision {
+  matched: boolean
+  reason: string | null
+  distanceMiles: number | null
+}
+
+export interface SignalMatchSummary {
+  signals: number
+  matched: number
+  alerted: number
+}
+
+export interface SignalDigestSummary {
+  contractors: number
+  sent: number
+  failed: number
+}
+
+export class SignalMatchError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'SignalMatchError'
+    this.status = status
+  }
+}
+
+interface SignalContractor {
+  id: string
+  name: string | null
+  business_name: string | null
+  email: string | null
+  phone: string | null
+  latitude: number | null
+  longitude: number | null
+}
+
+type SignalRow = MatchedSignal & { latitude: number | null; longitude: number | null }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const BATCH_SIZE = 200
+// The digest cron runs daily; skip contractors digested less than this ago
+const DIGEST_MIN_INTERVAL_MS = 20 * 60 * 60 * 1000
+
+const SIGNAL_COLUMNS =
+  'id, title, description, signal_type, category, address, city, state, zip_code, latitude, longitude, estimated_value, urgency_score, signal_date, expires_at, source_url, is_active'
+
+/**
+ * Read matching limits from the environment. SIGNAL_EMAIL_LIST_LIMIT
+ * defaults to 10 and SIGNAL_MAX_SUBSCRIPTIONS to 10.
+ */
+export function getSignalMatchConfig(): SignalMatchConfig {
+  return {
+    emailListLimit: Number(process.env.SIGNAL_EMAIL_LIST_LIMIT) || 10,
+    maxSubscriptions: Number(process.env.SIGNAL_MAX_SUBSCRIPTIONS) || 10
+  }
+}
+
+function signalsPath(signalId?: string): string {
+  return `/dashboard/contractor/signals${signalId ? `?signal=${signalId}` : ''}`
+}
+
+function signalsUrl(signalId?: string): string {
+  return `${process.env.NEXT_PUBLIC_SITE_URL}${signalsPath(signalId)}`
+}
+
+function contractorName(contractor: SignalContractor): string {
+  return contractor.business_name || contractor.name || 'there'
+}
+
+function chunk<T>(items: T[], size = BATCH_SIZE): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+/**
+ * Check one signal against one subscription. Pure, so a decision can be
+ * reasoned about without a database. Signals without an estimated value pass
+ * the value bounds.
+ */
+export function evaluateSubscription(
+  signal: SignalRow,
+  subscription: SignalSubscription,
+  contractor: Pick<SignalContractor, 'latitude' | 'longitude'>,
+  now: Date
+): SignalMatchDecision {
+  const decision: SignalMatchDecision = { matched: false, reason: null, distanceMiles: null }
+  const reject = (reason: string) => ({ ...decision, reason })
+
+  if (signal.latitude != null && signal.longitude != null && contractor.latitude != null && contractor.longitude != null) {
+    decision.distanceMiles = Math.round(distanceMiles(
+      Number(contractor.latitude),
+      Number(contractor.longitude),
+      Number(signal.latitude),
+      Number(signal.longitude)
+    ) * 10) / 10
+  }
+
+  if (!subscription.is_active) return reject('subscription paused')
+  if (!signal.is_active || (signal.expires_at && new Date(signal.expires_at) <= now)) return reject('signal expired')
+
+  const types = (subscription.signal_types || []).map(type => type.toUpperCase())
+  if (types.length > 0 && !types.includes(signal.signal_type)) return reject('signal type')
+
+  const categories = subscription.categories || []
+  if (categories.length > 0 && matchingCategories(signal.category, categories).length === 0) {
+    return reject('category')
+  }
+
+  const zips = subscription.zip_codes || []
+  const zipMatch = !!signal.zip_code && zips.includes(signal.zip_code)
+  const radius = Number(subscription.max_distance_miles) || 0
+  const withinRadius = decision.distanceMiles != null && radius > 0 && decision.distanceMiles <= radius
+  if (!zipMatch && !withinRadius) return reject('outside area')
+
+  const value = signal.estimated_value != null ? Number(signal.estimated_value) : null
+  if (value != null && subscription.min_estimated_value != null && value < Number(subscription.min_estimated_value)) {
+    return reject('value below minimum')
+  }
+  if (value != null && subscription.max_estimated_value != null && value > Number(subscription.max_estimated_value)) {
+    return reject('value above maximum')
+  }
+
+  if ((signal.urgency_score ?? 0) < (subscription.min_urgency_score || 0)) return reject('urgency below minimum')
+
+  return { ...decision, matched: true }
+}
+
+/**
+ * Active subscriptions of contractors whose plan includes Signals, with the
+ * contractors
+ */
+async function loadSubscribers(supabase: SupabaseClient, filter?: { dailyDigest: boolean }) {
+  let query = supabase
+    .from('contractor_signal_subscriptions')
+    .select('*')
+    .eq('is_active', true)
+    .order('created_at')
+
+  if (filter?.dailyDigest) query = query.eq('daily_digest', true)
+
+  const { data: subscriptions, error } = await query
+  if (error) throw error
+
+  const contractorIds = Array.from(new Set((subscriptions || []).map((s: SignalSubscription) => s.contractor_id)))
+  const contractors = new Map<string, SignalContractor>()
+
+  const onPlan = await usersWithEntitlement(supabase, contractorIds, 'signals')
+
+  for (const ids of chunk(Array.from(onPlan))) {
+    const { data: rows, error: contractorsError } = await supabase
+      .from('pro_contractors')
+      .select('id, name, business_name, email, phone, latitude, longitude')
+      .in('id', ids)
+
+    if (contractorsError) throw contractorsError
+    for (const row of rows || []) contractors.set(row.id, row)
+  }
+
+  const byContractor = new Map<string, SignalSubscription[]>()
+  for (const subscription of (subscriptions || []) as SignalSubscription[]) {
+    if (!contractors.has(subscription.contractor_id)) continue
+    const list = byContractor.get(subscription.contractor_id) || []
+    list.push(subscription)
+    byContractor.set(subscription.contractor_id, list)
+  }
+
+  return { contractors, byContractor }
+}
+
+function emailItem(signal: MatchedSignal): SignalEmailItem {
+  const place = [signal.city, [signal.state, signal.zip_code].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+  return {
+    title: signal.title,
+    category: signal.category,
+    location: place || signal.address || 'Location on request',
+    urgencyScore: signal.urgency_score,
+    estimatedValue: signal.estimated_value != null ? Number(signal.estimated_value) : null,
+    url: signalsUrl(signal.id)
+  }
+}
+
+/**
+ * Alert one contractor to their new matches, most urgent first
+ */
+async function alertContractor(
+  supabase: SupabaseClient,
+  contractor: SignalContractor,
+  signals: MatchedSignal[],
+  subscriptions: SignalSubscription[],
+  config: SignalMatchConfig
+): Promise<NotificationChannel[]> {
+  const sorted = [...signals].sort((a, b) => b.urgency_score - a.urgency_score)
+  const top = sorted[0]
+  const name = contractorName(contractor)
+  const path = sorted.length === 1 ? signalsPath(top.id) : signalsPath()
+
+  const result = await dispatchNotification(supabase, {
+    userId: contractor.id,
+    event: 'signal_match',
+    inApp: {
+      type: 'info',
+      title: sorted.length === 1 ? '📡 New Signal in Your Area' : `📡 ${sorted.length} New Signals in Your Area`,
+      message: sorted.length === 1 ? top.title : `Including "${top.title}"`,
+      link: path
+    },
+    email: subscriptions.some(s => s.email_notifications)
+      ? {
+          to: contractor.email,
+          send: (to) => notifySignalMatches({
+            contractorEmail: to,
+            contractorName: name,
+            signals: sorted.slice(0, config.emailListLimit).map(emailItem),
+            signalsUrl: signalsUrl()
+          })
+        }
+      : undefined,
+    sms: subscriptions.some(s => s.sms_notifications)
+      ? {
+          to: contractor.phone,
+          send: (to) => sendSignalAlertSMS({
+            contractorPhone: to,
+            contractorName: name,
+            signalTitle: top.title,
+            count: sorted.length,
+            url: `${process.env.NEXT_PUBLIC_SITE_URL}${path}`
+          })
+        }
+      : undefined
+  })
+
+  return result.delivered
+}
+
+/**
+ * Match the given signals against every subscription and alert the
+ * contractors with instant notifications. A signal already matched to a
+ * contractor is never matched or alerted again.
+ */
+export async function matchSignals(params: {
+  supabase: SupabaseClient
+  signalIds: string[]
+  now?: Date
+  config?: SignalMatchConfig
+}): Promise<SignalMatchSummary> {
+  const { supabase } = params
+  const now = params.now || new Date()
+  const config = params.config || getSignalMatchConfig()
+  const summary: SignalMatchSummary = { signals: 0, matched: 0, alerted: 0 }
+
+  if (params.signalIds.length === 0) return summary
+
+  // 1. Load the signals and subscribers
+  const signals: SignalRow[] = []
+  for (const ids of chunk(params.signalIds)) {
+    const { data, error } = await supabase
+      .from('signals')
+      .select(SIGNAL_COLUMNS)
+      .in('id', ids)
+      .eq('is_active', true)
+
+    if (error) throw error
+    signals.push(...((data || []) as SignalRow[]))
+  }
+  summary.signals = signals.length
+
+  const { contractors, byContractor } = await loadSubscribers(supabase)
+
+  // 2. Pick the subscription that matches each signal for each contractor
+  const rows: { signal_id: string; contractor_id: string; subscription_id: string; distance_miles: number | null; matched_at: string }[] = []
+
+  for (const signal of signals) {
+    byContractor.forEach((subscriptions, contractorId) => {
+      const contractor = contractors.get(contractorId)!
+      const accepted = subscriptions
+        .map(subscription => ({ subscription, decision: evaluateSubscription(signal, subscription, contractor, now) }))
+        .filter(({ decision }) => decision.matched)
+        .sort((a, b) => Number(b.subscription.instant_notifications) - Number(a.subscription.instant_notifications))
+
+      if (accepted.length === 0) return
+
+      rows.push({
+        signal_id: signal.id,
+        contractor_id: contractorId,
+        subscription_id: accepted[0].subscription.id,
+        distance_miles: accepted[0].decision.distanceMiles,
+        matched_at: now.toISOString()
+      })
+    })
+  }
+
+  // 3. Record the matches; only rows that did not exist yet come back
+  const created: { id: string; signal_id: string; contractor_id: string; subscription_id: string }[] = []
+  for (const batch of chunk(rows)) {
+    const { data, error } = await supabase
+      .from('signal_matches')
+      .upsert(batch, { onConflict: 'signal_id,contractor_id', ignoreDuplicates: true })
+      .select('id, signal_id, contractor_id, subscription_id')
+
+    if (error) throw error
+    created.push(...(data || []))
+  }
+  summary.matched = created.length
+
+  // 4. Alert instant subscribers, one message per contractor
+  const signalsById = new Map(signals.map(signal => [signal.id, signal]))
+  const subscriptionsById = new Map<string, SignalSubscription>()
+  byContractor.forEach(list => list.forEach(s => subscriptionsById.set(s.id, s)))
+
+  const instant = new Map<string, typeof created>()
+  for (const match of created) {
+    if (!subscriptionsById.get(match.subscription_id)?.instant_notifications) continue
+    const list = instant.get(match.contractor_id) || []
+    list.push(match)
+    instant.set(match.contractor_id, list)
+  }
+
+  for (const [contractorId, matches] of Array.from(instant.entries())) {
+    try {
+      const channels = await alertContractor(
+        supabase,
+        contractors.get(contractorId)!,
+        matches.map(match => signalsById.get(match.signal_id)!),
+        Array.from(new Set(matches.map(match => subscriptionsById.get(match.subscription_id)!))),
+        config
+      )
+
+      await supabase
+        .from('signal_matches')
+        .update({ alerted_at: new Date().toISOString(), alerted_channels: channels })
+        .in('id', matches.map(match => match.id))
+
+      if (channels.length > 0) summary.alerted++
+    } catch (error: any) {
+      console.error('[SIGNALS] Failed to alert contractor:', contractorId, error.message)
+    }
+  }
+
+  console.log(`[SIGNALS] ${summary.matched} matches for ${summary.signals} signals, ${summary.alerted} contractors alerted`)
+  return summary
+}
+
+/**
+ * Match every signal stored since the last run and mark it matched
+ */
+export async function matchPendingSignals(params: {
+  supabase: SupabaseClient
+  now?: Date
+}): Promise<SignalMatchSummary> {
+  const { supabase } = params
+  const now = params.now || new Date()
+
+  const { data: pending, error } = await supabase
+    .from('signals')
+    .select('id')
+    .is('matched_at', null)
+    .order('created_at')
+    .limit(1000)
+
+  if (error) throw error
+
+  const signalIds = (pending || []).map(row => row.id)
+  const summary = await matchSignals({ supabase, signalIds, now })
+
+  for (const ids of chunk(signalIds)) {
+    await supabase
+      .from('signals')
+      .update({ matched_at: now.toISOString() })
+      .in('id', ids)
+  }
+
+  return summary
+}
+
+/**
+ * Email each digest subscriber the signals matched for them in the last day.
+ * The digest goes out even if instant email alerts are off; daily_digest is
+ * the choice.
+ */
+export async function sendSignalDigests(params: {
+  supabase: SupabaseClient
+  now?: Date
+  config?: SignalMatchConfig
+}): Promise<SignalDigestSummary> {
+  const { supabase } = params
+  const now = params.now || new Date()
+  const config = params.config || getSignalMatchConfig()
+  const summary: SignalDigestSummary = { contractors: 0, sent: 0, failed: 0 }
+
+  const { contractors, byContractor } = await loadSubscribers(supabase, { dailyDigest: true })
+  const since = new Date(now.getTime() - DAY_MS).toISOString()
+
+  for (const [contractorId, subscriptions] of Array.from(byContractor.entries())) {
+    const lastDigest = Math.max(...subscriptions.map(s => (s.last_digest_at ? new Date(s.last_digest_at).getTime() : 0)))
+    if (now.getTime() - lastDigest < DIGEST_MIN_INTERVAL_MS) continue
+
+    const subscriptionIds = subscriptions.map(s => s.id)
+
+    try {
+      const { data: matches, error } = await supabase
+        .from('signal_matches')
+        .select(`id, signal:signals(${SIGNAL_COLUMNS})`)
+        .in('subscription_id', subscriptionIds)
+        .is('digest_sent_at', null)
+        .gte('matched_at', since)
+
+      if (error) throw error
+
+      const signals = (matches || [])
+        .map((match: any) => match.signal as SignalRow | null)
+        .filter((signal): signal is SignalRow => !!signal && signal.is_active)
+        .sort((a, b) => b.urgency_score - a.urgency_score)
+
+      if (signals.length === 0) continue
+      summary.contractors++
+
+      const contractor = contractors.get(contractorId)!
+      const listed = signals.slice(0, config.emailListLimit)
+
+      const result = await dispatchNotification(supabase, {
+        userId: contractorId,
+        event: 'signal_digest',
+        email: {
+          to: contractor.email,
+          send: (to) => notifySignalDigest({
+            contractorEmail: to,
+            contractorName: contractorName(contractor),
+            signals: listed.map(emailItem),
+            moreCount: signals.length - listed.length,
+            signalsUrl: signalsUrl()
+          })
+        }
+      })
+
+      const sentAt = now.toISOString()
+      await Promise.all([
+        supabase
+          .from('signal_matches')
+          .update({ digest_sent_at: sentAt })
+          .in('id', (matches || []).map((match: any) => match.id)),
+        supabase
+          .from('contractor_signal_subscriptions')
+          .update({ last_digest_at: sentAt })
+          .in('id', subscriptionIds)
+      ])
+
+      if (result.delivered.includes('email')) summary.sent++
+    } catch (error: any) {
+      summary.failed++
+      console.error('[SIGNALS] Failed to send digest:', contractorId, error.message)
+    }
+  }
+
+  return summary
+}
+
+/**
+ * A contractor's matched signals, newest first
+ */
+export async function listSignalMatches(
+  supabase: SupabaseClient,
+  contractorId: string,
+  limit = 100
+): Promise<SignalMatch[]> {
+  const { data, error } = await supabase
+    .from('signal_matches')
+    .select(`id, signal_id, subscription_id, distance_miles, matched_at, alerted_channels, opened_at, acted_on_at, signal:signals(${SIGNAL_COLUMNS})`)
+    .eq('contractor_id', contractorId)
+    .order('matched_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return ((data || []) as any[]).filter(match => match.signal) as SignalMatch[]
+}
+
+/**
+ * Record that a contractor opened or converted a matched signal. Each is
+ * counted once per match.
+ */
+export async function recordSignalEngagement(params: {
+  supabase: SupabaseClient
+  contractorId: string
+  signalId: string
+  action: SignalEngagement
+}): Promise<{ recorded: boolean }> {
+  const { supabase, contractorId, signalId, action } = params
+
+  if (action !== 'opened' && action !== 'acted_on') {
+    throw new SignalMatchError("action must be 'opened' or 'acted_on'")
+  }
+
+  const { data: match } = await supabase
+    .from('signal_matches')
+    .select('id')
+    .eq('signal_id', signalId)
+    .eq('contractor_id', contractorId)
+    .maybeSingle()
+
+  if (!match) {
+    throw new SignalMatchError('This signal was not matched to you', 404)
+  }
+
+  const { data: recorded, error } = await supabase.rpc('record_signal_engagement', {
+    p_match_id: match.id,
+    p_action: action
+  })
+
+  if (error) throw error
+  return { recorded: !!recorded }
+}
+
+/**
+ * Only contractors whose plan includes Signals may manage subscriptions
+ */
+export async function requireSignalsPlan(supabase: SupabaseClient, userId: string): Promise<void> {
+  if (!(await hasEntitlement(supabase, { id: userId }, 'signals'))) {
+    throw new SignalMatchError('Signal subscriptions are part of the Pro Plus + Signals plan', 403)
+  }
+}
+
+export async function listSignalSubscriptions(supabase: SupabaseClient, contractorId: string): Promise<SignalSubscription[]> {
+  const { data, error } = await supabase
+    .from('contractor_signal_subscriptions')
+    .select('*')
+    .eq('contractor_id', contractorId)
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as SignalSubscription[]
+}
+
+function optionalNumber(value: unknown, label: string, min: number, max: number): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new SignalMatchError(`${label} must be between ${min} and ${max}`)
+  }
+  return number
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return Array.from(new Set(value.map(item => String(item).trim()).filter(Boolean)))
+}
+
+/**
+ * Check and clean a subscription from the editor
+ */
+export function validateSubscriptionInput(input: Partial<SignalSubscriptionInput>): SignalSubscriptionInput {
+  const zipCodes = stringList(input.zip_codes)
+  const invalidZip = zipCodes.find(zip => !isValidZip(zip))
+  if (invalidZip) {
+    throw new SignalMatchError(`"${invalidZip}" is not a 5-digit ZIP code`)
+  }
+
+  const minValue = optionalNumber(input.min_estimated_value, 'Minimum value', 0, 100000000)
+  const maxValue = optionalNumber(input.max_estimated_value, 'Maximum value', 0, 100000000)
+  if (minValue != null && maxValue != null && minValue > maxValue) {
+    throw new SignalMatchError('Minimum value cannot be more than the maximum value')
+  }
+
+  return {
+    name: input.name?.trim() || null,
+    is_active: input.is_active !== false,
+    signal_types: stringList(input.signal_types).map(type => type.toUpperCase()),
+    categories: stringList(input.categories),
+    zip_codes: zipCodes,
+    max_distance_miles: optionalNumber(input.max_distance_miles, 'Distance', 0, MAX_SIGNAL_DISTANCE_MILES),
+    min_estimated_value: minValue,
+    max_estimated_value: maxValue,
+    min_urgency_score: optionalNumber(input.min_urgency_score, 'Minimum urgency', 0, 100) ?? 0,
+    email_notifications: input.email_notifications !== false,
+    sms_notifications: !!input.sms_notifications,
+    instant_notifications: input.instant_notifications !== false,
+    daily_digest: !!input.daily_digest
+  }
+}
+
+/**
+ * Create a subscription, or update one of the contractor's own
+ */
+export async function saveSignalSubscription(params: {
+  supabase: SupabaseClient
+  contractorId: string
+  subscriptionId?: string
+  input: Partial<SignalSubscriptionInput>
+  config?: SignalMatchConfig
+}): Promise<SignalSubscription> {
+  const { supabase, contractorId, subscriptionId } = params
+  const config = params.config || getSignalMatchConfig()
+  const values = validateSubscriptionInput(params.input)
+
+  if (values.zip_codes.length === 0) {
+    const { data: contractor } = await supabase
+      .from('pro_contractors')
+      .select('latitude, longitude')
+      .eq('id', contractorId)
+      .maybeSingle()
+
+    if (contractor?.latitude == null || contractor?.longitude == null || !values.max_distance_miles) {
+      throw new SignalMatchError('Add ZIP codes, or set a distance and your base location in settings')
+    }
+  }
+
+  if (subscriptionId) {
+    const { data, error } = await supabase
+      .from('contractor_signal_subscriptions')
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', subscriptionId)
+      .eq('contractor_id', contractorId)
+      .select('*')
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) throw new SignalMatchError('Subscription not found', 404)
+    return data as SignalSubscription
+  }
+
+  const { count } = await supabase
+    .from('contractor_signal_subscriptions')
+    .select('id', { count: 'exact', head: true })
+    .eq('contractor_id', contractorId)
+
+  if ((count || 0) >= config.maxSubscriptions) {
+    throw new SignalMatchError(`You can keep up to ${config.maxSubscriptions} subscriptions`)
+  }
+
+  const { data, error } = await supabase
+    .from('contractor_signal_subscriptions')
+    .insert({ ...values, contractor_id: contractorId })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as SignalSubscription
+}
+
+export async function deleteSignalSubscription(supabase: SupabaseClient, contractorId: string, subscriptionId: string) {
+  const { data, error } = await supabase
+    .from('contractor_signal_subscriptions')
+    .delete()
+    .eq('id', subscriptionId)
+    .eq('contractor_id', contractorId)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) throw new SignalMatchError('Subscription not found', 404)
+}
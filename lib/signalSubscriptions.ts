@@ -0,0 +1,124 @@
+/**
+ * Signal subscriptions (contractor_signal_subscriptions) and the matched
+ * signals shown to contractors whose plan includes Signals. Kept separate
+ * from lib/signalMatching.ts so the subscription editor can import it
+ * without pulling in the email / SMS senders.
+ *
+ * Empty signal_types, categories or zip_codes mean "any". A signal is in
+ * the subscription's area when its ZIP is listed or it lies within
+ * max_distance_miles of the contractor's location.
+ */
+
+export interface SignalSubscription {
+  id: string
+  contractor_id: string
+  name: string | null
+  is_active: boolean
+  signal_types: string[]
+  categories: string[]
+  zip_codes: string[]
+  max_distance_miles: number | null
+  min_estimated_value: number | null
+  max_estimated_value: number | null
+  min_urgency_score: number
+  email_notifications: boolean
+  sms_notifications: boolean
+  instant_notifications: boolean
+  daily_digest: boolean
+  signals_received: number
+  signals_acted_on: number
+  last_digest_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** The fields a contractor edits */
+export type SignalSubscriptionInput = Pick<SignalSubscription,
+  | 'name'
+  | 'is_active'
+  | 'signal_types'
+  | 'categories'
+  | 'zip_codes'
+  | 'max_distance_miles'
+  | 'min_estimated_value'
+  | 'max_estimated_value'
+  | 'min_urgency_score'
+  | 'email_notifications'
+  | 'sms_notifications'
+  | 'instant_notifications'
+  | 'daily_digest'
+>
+
+export interface MatchedSignal {
+  id: string
+  title: string
+  description: string | null
+  signal_type: string
+  category: string | null
+  address: string | null
+  city: string | null
+  state: string | null
+  zip_code: string | null
+  estimated_value: number | null
+  urgency_score: number
+  signal_date: string | null
+  expires_at: string | null
+  source_url: string | null
+  is_active: boolean
+}
+
+export interface SignalMatch {
+  id: string
+  signal_id: string
+  subscription_id: string | null
+  distance_miles: number | null
+  matched_at: string
+  alerted_channels: string[]
+  opened_at: string | null
+  acted_on_at: string | null
+  signal: MatchedSignal
+}
+
+export type SignalEngagement = 'opened' | 'acted_on'
+
+export const SIGNAL_TYPE_LABELS: Record<string, string> = {
+  PERMIT: 'Permits',
+  INSPECTION: 'Inspections',
+  VIOLATION: 'Violations',
+  COMPLAINT: 'Complaints',
+  LEAD: 'Leads'
+}
+
+/** Categories signals are normalized to on ingest (lib/signalIngest.ts) */
+export const SIGNAL_CATEGORIES = [
+  'Plumbing',
+  'Electrical',
+  'HVAC',
+  'Roofing',
+  'Water Damage',
+  'Locksmith',
+  'Appliance Repair',
+  'General Contractor'
+]
+
+export const MAX_SIGNAL_DISTANCE_MILES = 100
+
+export const DEFAULT_SIGNAL_SUBSCRIPTION: SignalSubscriptionInput = {
+  name: null,
+  is_active: true,
+  signal_types: [],
+  categories: [],
+  zip_codes: [],
+  max_distance_miles: 25,
+  min_estimated_value: null,
+  max_estimated_value: null,
+  min_urgency_score: 0,
+  email_notifications: true,
+  sms_notifications: false,
+  instant_notifications: true,
+  daily_digest: false
+}
+
+export function signalTypeLabel(type: string): string {
+  return SIGNAL_TYPE_LABELS[type] || type.charAt(0) + type.slice(1).toLowerCase().replace(/_/g, ' ')
+}
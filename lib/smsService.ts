@@ -1,64 +1,30 @@
-import twilio from 'twilio'
-
-const accountSid = process.env.TWILIO_ACCOUNT_SID
-const authToken = process.env.TWILIO_AUTH_TOKEN
-const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER
-
-// Lazy initialization to avoid build errors when credentials aren't set
-let client: ReturnType<typeof twilio> | null = null
-
-function getTwilioClient() {
-  if (!accountSid || !authToken) {
-    console.warn('⚠️ Twilio credentials not configured. SMS notifications will not be sent.')
-    return null
-  }
-
-  // Validate accountSid format (must start with AC, not SK which is an API key)
-  if (!accountSid.startsWith('AC')) {
-    console.warn('⚠️ Invalid Twilio Account SID format. Must start with AC, not SK (API key).')
-    return null
-  }
-
-  if (!client) {
-    try {
-      client = twilio(accountSid, authToken)
-    } catch (error) {
-      console.error('⚠️ Failed to initialize Twilio client:', error)
-      return null
-    }
-  }
-
-  return client
-}
+import { QueueResult, enqueueMessage, getOutboxClient } from './outbox'
 
 interface SendSMSParams {
   to: string
   message: string
+  /** Texts with the same key are only sent once */
+  idempotencyKey?: string
 }
 
 /**
- * Send an SMS message via Twilio
+ * Queue an SMS in the outbox; the outbox worker delivers it via Twilio,
+ * retrying on failure
  */
-export async function sendSMS({ to, message }: SendSMSParams): Promise<{ success: boolean; error?: string }> {
-  const twilioClient = getTwilioClient()
+export async function sendSMS({ to, message, idempotencyKey }: SendSMSParams): Promise<QueueResult> {
+  const supabase = getOutboxClient()
 
-  if (!twilioClient || !twilioPhoneNumber) {
-    console.error('Twilio client not configured')
+  if (!supabase) {
+    console.error('Supabase not configured; cannot queue SMS')
     return { success: false, error: 'SMS service not configured' }
   }
 
   try {
-    const result = await twilioClient.messages.create({
-      body: message,
-      from: twilioPhoneNumber,
-      to: to,
-    })
-
-    console.log(`✅ SMS sent successfully to ${to}. SID: ${result.sid}`)
-    return { success: true }
+    const messageId = await enqueueMessage({ supabase, channel: 'sms', to, body: message, idempotencyKey })
+    return { success: true, messageId }
   } catch (error: any) {
-    console.error('❌ Error sending SMS:', error)
-    return { success: false, error: error.message || 'Failed to send SMS' }
+    console.error('❌ Error queueing SMS:', error)
+    return { success: false, error: error.message || 'Failed to queue SMS' }
   }
 }
 
@@ -77,7 +43,7 @@ export async function sendBidReceivedSMS({
   contractorName: string
   jobTitle: string
   bidAmount: number
-}): Promise<{ success: boolean; error?: string }> {
+}): Promise<QueueResult> {
   const message = `Hi ${homeownerName}! You received a new bid from ${contractorName} for "${jobTitle}" - $${bidAmount}. View details at https://rushr-main.vercel.app/dashboard/homeowner`
 
   return sendSMS({ to: homeownerPhone, message })
@@ -96,8 +62,66 @@ export async function sendBidAcceptedSMS({
   contractorName: string
   homeownerName: string
   jobTitle: string
-}): Promise<{ success: boolean; error?: string }> {
-  const message = `Congratulations ${contractorName}! ${homeownerName} accepted your bid for "${jobTitle}". View job details at https://rushr-main.vercel.app/dashboard/contractor`
+}): Promise<QueueResult> {
+  return sendSMS({ to: contractorPhone, message: bidAcceptedSMSText({ contractorName, homeownerName, jobTitle }) })
+}
+
+/**
+ * Text of the bid accepted SMS; also rendered by the outbox for texts queued
+ * by the database
+ */
+export function bidAcceptedSMSText({
+  contractorName,
+  homeownerName,
+  jobTitle,
+}: {
+  contractorName: string
+  homeownerName: string
+  jobTitle: string
+}): string {
+  return `Congratulations ${contractorName}! ${homeownerName} accepted your bid for "${jobTitle}". View job details at https://rushr-main.vercel.app/dashboard/contractor`
+}
+
+/**
+ * Send SMS notification to contractor when a matching job is posted
+ */
+export async function sendNewJobSMS({
+  contractorPhone,
+  contractorName,
+  jobTitle,
+  jobCategory,
+  emergency,
+}: {
+  contractorPhone: string
+  contractorName: string
+  jobTitle: string
+  jobCategory: string
+  emergency: boolean
+}): Promise<QueueResult> {
+  const message = `${emergency ? 'EMERGENCY: ' : ''}Hi ${contractorName}, a new ${jobCategory} job matches your service area: "${jobTitle}". Bid now at https://rushr-main.vercel.app/dashboard/contractor/jobs`
+
+  return sendSMS({ to: contractorPhone, message })
+}
+
+/**
+ * Send SMS alert to contractor when new signals match their subscription
+ */
+export async function sendSignalAlertSMS({
+  contractorPhone,
+  contractorName,
+  signalTitle,
+  count,
+  url,
+}: {
+  contractorPhone: string
+  contractorName: string
+  signalTitle: string
+  count: number
+  url: string
+}): Promise<QueueResult> {
+  const message = count === 1
+    ? `Hi ${contractorName}, new signal in your area: "${signalTitle}". View it at ${url}`
+    : `Hi ${contractorName}, ${count} new signals match your subscription, including "${signalTitle}". View them at ${url}`
 
   return sendSMS({ to: contractorPhone, message })
 }
@@ -0,0 +1,590 @@
+/**
+ * Stripe Webhook Processing for Rushr Escrow
+ *
+ * Applies verified Stripe events to our escrow tables:
+ * - payment_holds (authorized, captured, failed, refunded, disputed...)
+ * - transactions (charge, refund and adjustment rows)
+ * - homeowner_jobs.payment_status
+ * - stripe_connect_accounts
+ * - billing_subscriptions, through lib/billing.ts
+ *
+ * Every event is stored in stripe_webhook_events before it is applied, so
+ * duplicate deliveries are skipped and failed events can be replayed.
+ * Handlers only take a Supabase client and the event payload, which lets
+ * them run against recorded event fixtures without any network access.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import {
+  recordSubscriptionPaymentFailed,
+  recordSubscriptionPaymentSucceeded,
+  syncStripeSubscription
+} from './billing'
+
+export type PaymentHoldStatus =
+  | 'pending'
+  | 'authorized'
+  | 'captured'
+  | 'released'
+  | 'refunded'
+  | 'partial_refund'
+  | 'disputed'
+  | 'failed'
+  | 'cancelled'
+
+export type WebhookEventStatus = 'received' | 'processed' | 'ignored' | 'failed'
+
+export interface ProcessEventResult {
+  eventId: string
+  status: WebhookEventStatus | 'duplicate'
+  error?: string
+}
+
+type EventHandler = (supabase: SupabaseClient, event: Stripe.Event) => Promise<void>
+
+export class WebhookReplayError extends Error {
+  status: number
+
+  constructor(message: string, status = 404) {
+    super(message)
+    this.name = 'WebhookReplayError'
+    this.status = status
+  }
+}
+
+/**
+ * Stripe amounts are in cents; our tables store dollars
+ */
+function toDollars(cents: number): number {
+  return Math.round(cents) / 100
+}
+
+function eventTime(event: Stripe.Event): string {
+  return new Date(event.created * 1000).toISOString()
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+async function findHoldByPaymentIntent(supabase: SupabaseClient, paymentIntentId: string | null) {
+  if (!paymentIntentId) return null
+
+  const { data } = await supabase
+    .from('payment_holds')
+    .select('*')
+    .eq('stripe_payment_intent_id', paymentIntentId)
+    .maybeSingle()
+
+  return data
+}
+
+/**
+ * Update a payment hold only if its current status is one of `from`.
+ * The status guard makes every transition idempotent and safe against
+ * out-of-order deliveries (e.g. a late amount_capturable_updated after capture).
+ * Handlers also run their follow-up writes when the hold was already in the
+ * target status, so replaying an event that failed halfway finishes the job.
+ */
+async function transitionHold(
+  supabase: SupabaseClient,
+  holdId: string,
+  from: PaymentHoldStatus[],
+  fields: Record<string, any>
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('payment_holds')
+    .update(fields)
+    .eq('id', holdId)
+    .in('status', from)
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+async function updateJobPaymentStatus(
+  supabase: SupabaseClient,
+  jobId: string | null,
+  fields: Record<string, any>
+) {
+  if (!jobId) return
+
+  const { error } = await supabase
+    .from('homeowner_jobs')
+    .update(fields)
+    .eq('id', jobId)
+
+  if (error) throw error
+}
+
+/**
+ * Insert a transaction row keyed on (type, stripe_id) so replays never double-book
+ */
+async function recordTransaction(supabase: SupabaseClient, row: Record<string, any>) {
+  const { error } = await supabase
+    .from('transactions')
+    .upsert(row, { onConflict: 'type,stripe_id', ignoreDuplicates: true })
+
+  if (error) throw error
+}
+
+// =============================================================================
+// PAYMENT INTENT EVENTS
+// =============================================================================
+
+async function handleAmountCapturableUpdated(supabase: SupabaseClient, event: Stripe.Event) {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent
+  const hold = await findHoldByPaymentIntent(supabase, paymentIntent.id)
+  if (!hold) return
+
+  const changed = await transitionHold(supabase, hold.id, ['pending'], {
+    status: 'authorized',
+    last_stripe_event_at: eventTime(event)
+  })
+
+  if (changed || hold.status === 'authorized') {
+    await updateJobPaymentStatus(supabase, hold.job_id, {
+      payment_status: 'authorized',
+      payment_authorized_at: eventTime(event)
+    })
+  }
+}
+
+async function handlePaymentIntentSucceeded(supabase: SupabaseClient, event: Stripe.Event) {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent
+  const hold = await findHoldByPaymentIntent(supabase, paymentIntent.id)
+  if (!hold) return
+
+  const chargeId = idOf(paymentIntent.latest_charge)
+
+  const changed = await transitionHold(supabase, hold.id, ['pending', 'authorized', 'failed'], {
+    status: 'captured',
+    stripe_charge_id: chargeId,
+    failure_reason: null,
+    last_stripe_event_at: eventTime(event)
+  })
+
+  if (changed || hold.status === 'captured') {
+    await updateJobPaymentStatus(supabase, hold.job_id, {
+      payment_status: 'paid',
+      payment_captured_at: eventTime(event)
+    })
+  }
+
+  await recordTransaction(supabase, {
+    user_id: hold.homeowner_id,
+    user_type: 'homeowner',
+    job_id: hold.job_id,
+    bid_id: hold.bid_id,
+    payment_hold_id: hold.id,
+    type: 'charge',
+    amount: -toDollars(paymentIntent.amount_received),
+    status: 'completed',
+    description: 'Escrow payment captured',
+    stripe_id: chargeId || paymentIntent.id
+  })
+}
+
+async function handlePaymentIntentFailed(supabase: SupabaseClient, event: Stripe.Event) {
+  const paymentIntent = event.data.object as Stripe.PaymentIntent
+  const hold = await findHoldByPaymentIntent(supabase, paymentIntent.id)
+  if (!hold) return
+
+  const reason = paymentIntent.last_payment_error?.message || 'Payment failed'
+
+  const changed = await transitionHold(supabase, hold.id, ['pending', 'authorized'], {
+    status: 'failed',
+    failure_reason: reason,
+    last_stripe_event_at: eventTime(event)
+  })
+
+  if (changed) {
+    await supabase.from('notifications').insert({
+      user_id: hold.homeowner_id,
+      type: 'warning',
+      title: 'Payment Failed',
+      message: `Your payment of $${hold.amount} could not be processed: ${reason}`,
+      job_id: hold.job_id,
+      bid_id: hold.bid_id
+    })
+  }
+}
+
+// =============================================================================
+// CHARGE EVENTS (REFUNDS AND DISPUTES)
+// =============================================================================
+
+async function handleChargeRefunded(supabase: SupabaseClient, event: Stripe.Event) {
+  const charge = event.data.object as Stripe.Charge
+  const hold = await findHoldByPaymentIntent(supabase, idOf(charge.payment_intent))
+  if (!hold) return
+
+  const refundedAmount = toDollars(charge.amount_refunded)
+  const fullyRefunded = charge.refunded || charge.amount_refunded >= charge.amount
+
+  await transitionHold(supabase, hold.id, ['authorized', 'captured', 'released', 'partial_refund', 'disputed'], {
+    status: fullyRefunded ? 'refunded' : 'partial_refund',
+    refunded_amount: refundedAmount,
+    refunded_at: eventTime(event),
+    last_stripe_event_at: eventTime(event)
+  })
+
+  if (fullyRefunded) {
+    await updateJobPaymentStatus(supabase, hold.job_id, { payment_status: 'refunded' })
+  }
+
+  for (const refund of charge.refunds?.data || []) {
+    if (refund.status !== 'succeeded') continue
+
+    await recordTransaction(supabase, {
+      user_id: hold.homeowner_id,
+      user_type: 'homeowner',
+      job_id: hold.job_id,
+      bid_id: hold.bid_id,
+      payment_hold_id: hold.id,
+      type: 'refund',
+      amount: toDollars(refund.amount),
+      status: 'completed',
+      description: refund.reason ? `Refund (${refund.reason})` : 'Refund issued',
+      stripe_id: refund.id
+    })
+  }
+}
+
+async function handleDisputeCreated(supabase: SupabaseClient, event: Stripe.Event) {
+  const dispute = event.data.object as Stripe.Dispute
+  const hold = await findHoldByPaymentIntent(supabase, idOf(dispute.payment_intent))
+  if (!hold) return
+
+  const changed = await transitionHold(
+    supabase,
+    hold.id,
+    ['authorized', 'captured', 'released', 'partial_refund'],
+    {
+      status: 'disputed',
+      status_before_dispute: hold.status,
+      stripe_dispute_id: dispute.id,
+      disputed_at: eventTime(event),
+      last_stripe_event_at: eventTime(event)
+    }
+  )
+
+  if (changed || hold.status === 'disputed') {
+    await updateJobPaymentStatus(supabase, hold.job_id, { payment_status: 'disputed' })
+  }
+}
+
+async function handleDisputeClosed(supabase: SupabaseClient, event: Stripe.Event) {
+  const dispute = event.data.object as Stripe.Dispute
+  const hold = await findHoldByPaymentIntent(supabase, idOf(dispute.payment_intent))
+  if (!hold) return
+
+  if (dispute.status === 'won' || dispute.status === 'warning_closed') {
+    const restored = (hold.status_before_dispute || 'captured') as PaymentHoldStatus
+
+    const changed = await transitionHold(supabase, hold.id, ['disputed'], {
+      status: restored,
+      last_stripe_event_at: eventTime(event)
+    })
+
+    if (changed || hold.status === restored) {
+      await updateJobPaymentStatus(supabase, hold.job_id, {
+        payment_status: restored === 'released' ? 'released' : 'paid'
+      })
+    }
+    return
+  }
+
+  // Lost disputes are settled by Stripe as a full refund to the cardholder
+  const changed = await transitionHold(supabase, hold.id, ['disputed'], {
+    status: 'refunded',
+    refunded_amount: hold.amount,
+    refunded_at: eventTime(event),
+    refund_reason: `Chargeback lost (${dispute.reason})`,
+    last_stripe_event_at: eventTime(event)
+  })
+
+  if (changed || hold.status === 'refunded') {
+    await updateJobPaymentStatus(supabase, hold.job_id, { payment_status: 'refunded' })
+  }
+
+  await recordTransaction(supabase, {
+    user_id: hold.homeowner_id,
+    user_type: 'homeowner',
+    job_id: hold.job_id,
+    bid_id: hold.bid_id,
+    payment_hold_id: hold.id,
+    type: 'refund',
+    amount: toDollars(dispute.amount),
+    status: 'completed',
+    description: 'Chargeback refunded to cardholder',
+    stripe_id: dispute.id
+  })
+}
+
+// =============================================================================
+// CONNECT EVENTS (TRANSFERS AND ACCOUNTS)
+// =============================================================================
+
+async function findHoldByTransfer(supabase: SupabaseClient, transfer: Stripe.Transfer) {
+  const holdId = transfer.metadata?.payment_hold_id
+
+  const query = supabase.from('payment_holds').select('*')
+  const { data } = holdId
+    ? await query.eq('id', holdId).maybeSingle()
+    : await query.eq('stripe_transfer_id', transfer.id).maybeSingle()
+
+  return data
+}
+
+async function handleTransferCreated(supabase: SupabaseClient, event: Stripe.Event) {
+  const transfer = event.data.object as Stripe.Transfer
+  const hold = await findHoldByTransfer(supabase, transfer)
+  if (!hold) return
+
+  // The release trigger books the 'release' transaction when status flips
+  await transitionHold(supabase, hold.id, ['captured'], {
+    status: 'released',
+    stripe_transfer_id: transfer.id,
+    released_at: hold.released_at || eventTime(event),
+    last_stripe_event_at: eventTime(event)
+  })
+
+  if (!hold.stripe_transfer_id) {
+    await supabase
+      .from('payment_holds')
+      .update({ stripe_transfer_id: transfer.id })
+      .eq('id', hold.id)
+      .is('stripe_transfer_id', null)
+  }
+}
+
+async function handleTransferReversed(supabase: SupabaseClient, event: Stripe.Event) {
+  const transfer = event.data.object as Stripe.Transfer
+  const hold = await findHoldByTransfer(supabase, transfer)
+  if (!hold) return
+
+  const { error } = await supabase
+    .from('payment_holds')
+    .update({
+      transfer_reversed_amount: toDollars(transfer.amount_reversed),
+      last_stripe_event_at: eventTime(event)
+    })
+    .eq('id', hold.id)
+
+  if (error) throw error
+
+  for (const reversal of transfer.reversals?.data || []) {
+    await recordTransaction(supabase, {
+      user_id: hold.contractor_id,
+      user_type: 'contractor',
+      job_id: hold.job_id,
+      bid_id: hold.bid_id,
+      payment_hold_id: hold.id,
+      type: 'adjustment',
+      amount: -toDollars(reversal.amount),
+      status: 'completed',
+      description: 'Payout reversed',
+      stripe_id: reversal.id
+    })
+  }
+}
+
+async function handleAccountUpdated(supabase: SupabaseClient, event: Stripe.Event) {
+  const account = event.data.object as Stripe.Account
+
+  const { error } = await supabase
+    .from('stripe_connect_accounts')
+    .update({
+      onboarding_complete: account.details_submitted || false,
+      charges_enabled: account.charges_enabled || false,
+      payouts_enabled: account.payouts_enabled || false,
+      account_type: account.type,
+      country: account.country,
+      requirements_currently_due: account.requirements?.currently_due || [],
+      requirements_eventually_due: account.requirements?.eventually_due || []
+    })
+    .eq('stripe_account_id', account.id)
+
+  if (error) throw error
+}
+
+// =============================================================================
+// BILLING EVENTS (PRO PLUS SUBSCRIPTIONS)
+// =============================================================================
+
+async function handleSubscriptionChanged(supabase: SupabaseClient, event: Stripe.Event) {
+  const subscription = event.data.object as Stripe.Subscription
+  await syncStripeSubscription({ supabase, subscription, eventAt: eventTime(event) })
+}
+
+async function handleInvoicePaymentFailed(supabase: SupabaseClient, event: Stripe.Event) {
+  const invoice = event.data.object as Stripe.Invoice
+  await recordSubscriptionPaymentFailed({ supabase, invoice, eventAt: eventTime(event) })
+}
+
+async function handleInvoicePaid(supabase: SupabaseClient, event: Stripe.Event) {
+  const invoice = event.data.object as Stripe.Invoice
+  await recordSubscriptionPaymentSucceeded({ supabase, invoice })
+}
+
+const handlers: Record<string, EventHandler> = {
+  'payment_intent.amount_capturable_updated': handleAmountCapturableUpdated,
+  'payment_intent.succeeded': handlePaymentIntentSucceeded,
+  'payment_intent.payment_failed': handlePaymentIntentFailed,
+  'charge.refunded': handleChargeRefunded,
+  'charge.dispute.created': handleDisputeCreated,
+  'charge.dispute.closed': handleDisputeClosed,
+  'transfer.created': handleTransferCreated,
+  'transfer.updated': handleTransferReversed,
+  'transfer.reversed': handleTransferReversed,
+  'account.updated': handleAccountUpdated,
+  'customer.subscription.created': handleSubscriptionChanged,
+  'customer.subscription.updated': handleSubscriptionChanged,
+  'customer.subscription.deleted': handleSubscriptionChanged,
+  'invoice.payment_failed': handleInvoicePaymentFailed,
+  'invoice.paid': handleInvoicePaid
+}
+
+export function isHandledEventType(type: string): boolean {
+  return type in handlers
+}
+
+/**
+ * Apply a single event without touching stripe_webhook_events.
+ * Returns false if the event type is not handled.
+ */
+export async function applyStripeEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<boolean> {
+  const handler = handlers[event.type]
+  if (!handler) return false
+
+  await handler(supabase, event)
+  return true
+}
+
+async function runStoredEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  attempts: number
+): Promise<ProcessEventResult> {
+  try {
+    const handled = await applyStripeEvent(supabase, event)
+    const status: WebhookEventStatus = handled ? 'processed' : 'ignored'
+
+    await supabase
+      .from('stripe_webhook_events')
+      .update({
+        status,
+        attempts: attempts + 1,
+        last_error: null,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', event.id)
+
+    return { eventId: event.id, status }
+  } catch (error: any) {
+    console.error(`[STRIPE WEBHOOK] ❌ Failed to apply ${event.type} (${event.id}):`, error)
+
+    await supabase
+      .from('stripe_webhook_events')
+      .update({
+        status: 'failed',
+        attempts: attempts + 1,
+        last_error: error.message || String(error)
+      })
+      .eq('id', event.id)
+
+    return { eventId: event.id, status: 'failed', error: error.message }
+  }
+}
+
+/**
+ * Record and apply a verified Stripe event.
+ * Events already processed or ignored are reported as duplicates and skipped;
+ * failed events are retried on redelivery.
+ */
+export async function processStripeEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event
+): Promise<ProcessEventResult> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('stripe_webhook_events')
+    .select('id, status, attempts')
+    .eq('id', event.id)
+    .maybeSingle()
+
+  if (fetchError) throw fetchError
+
+  if (existing && (existing.status === 'processed' || existing.status === 'ignored')) {
+    return { eventId: event.id, status: 'duplicate' }
+  }
+
+  if (!existing) {
+    const { error: insertError } = await supabase.from('stripe_webhook_events').insert({
+      id: event.id,
+      type: event.type,
+      livemode: event.livemode,
+      api_version: event.api_version,
+      payload: event,
+      status: 'received',
+      stripe_created_at: eventTime(event)
+    })
+
+    // A concurrent delivery inserted it first; let that one apply it
+    if (insertError?.code === '23505') {
+      return { eventId: event.id, status: 'duplicate' }
+    }
+    if (insertError) throw insertError
+  }
+
+  return runStoredEvent(supabase, event, existing?.attempts || 0)
+}
+
+/**
+ * Re-apply a stored event from its saved payload, regardless of its status.
+ * Handlers are idempotent, so replaying a processed event is safe.
+ * Admins trigger this through /api/admin/stripe-events/replay.
+ * @throws WebhookReplayError 404 if the event was never received
+ */
+export async function replayStripeEvent(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<ProcessEventResult> {
+  const { data: stored, error } = await supabase
+    .from('stripe_webhook_events')
+    .select('payload, attempts')
+    .eq('id', eventId)
+    .single()
+
+  if (error || !stored) {
+    throw new WebhookReplayError(`Stripe event ${eventId} not found`)
+  }
+
+  return runStoredEvent(supabase, stored.payload as Stripe.Event, stored.attempts || 0)
+}
+
+/**
+ * Replay every stored event that failed, oldest first
+ */
+export async function replayFailedStripeEvents(
+  supabase: SupabaseClient,
+  limit = 50
+): Promise<ProcessEventResult[]> {
+  const { data: failed, error } = await supabase
+    .from('stripe_webhook_events')
+    .select('id')
+    .eq('status', 'failed')
+    .order('stripe_created_at', { ascending: true })
+    .limit(limit)
+
+  if (error) throw error
+
+  const results: ProcessEventResult[] = []
+  for (const row of failed || []) {
+    results.push(await replayStripeEvent(supabase, row.id))
+  }
+  return results
+}
@@ -0,0 +1,397 @@
+/**
+ * Support desk operations (server-side)
+ *
+ * Opens tickets, threads replies between users and admins, and applies admin
+ * triage (status, priority, assignment). Emails go out through emailService:
+ * a confirmation when a ticket is opened, the user on every admin reply, and
+ * the assigned admin on every user reply.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { listAdmins } from './adminRoles'
+import { notifySupportTicketReceived, notifySupportTicketReply } from './emailService'
+import { dispatchNotification } from './notificationDispatcher'
+import {
+  MAX_REPLY_LENGTH,
+  SUPPORT_CATEGORIES,
+  SUPPORT_PRIORITIES,
+  SUPPORT_STATUSES,
+  SupportAuthorRole,
+  SupportCategory,
+  SupportError,
+  SupportPriority,
+  SupportReply,
+  SupportStatus,
+  SupportTicket,
+  SupportTicketInput,
+  slaDeadlines
+} from './supportTickets'
+
+export interface SupportAdmin {
+  id: string
+  name: string | null
+  email: string
+}
+
+export interface TicketUpdate {
+  status?: SupportStatus
+  priority?: SupportPriority
+  category?: SupportCategory
+  assignedAdminId?: string | null
+}
+
+/**
+ * Display name for a homeowner or contractor
+ */
+async function getUserName(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data: contractor } = await supabase
+    .from('pro_contractors')
+    .select('name, business_name')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (contractor) return contractor.business_name || contractor.name
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('name')
+    .eq('id', userId)
+    .maybeSingle()
+
+  return profile?.name || null
+}
+
+/**
+ * Make sure the job or payment hold a ticket refers to belongs to the user
+ */
+async function checkLinks(supabase: SupabaseClient, userId: string, input: SupportTicketInput) {
+  let jobId = input.jobId || null
+
+  if (input.paymentHoldId) {
+    const { data: hold } = await supabase
+      .from('payment_holds')
+      .select('id, job_id, homeowner_id, contractor_id')
+      .eq('id', input.paymentHoldId)
+      .maybeSingle()
+
+    if (!hold || (hold.homeowner_id !== userId && hold.contractor_id !== userId)) {
+      throw new SupportError('Payment not found', 404)
+    }
+    jobId = jobId || hold.job_id
+  }
+
+  if (jobId) {
+    const { data: job } = await supabase
+      .from('homeowner_jobs')
+      .select('id, homeowner_id, contractor_id, assigned_tech_id')
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (!job || ![job.homeowner_id, job.contractor_id, job.assigned_tech_id].includes(userId)) {
+      throw new SupportError('Job not found', 404)
+    }
+  }
+
+  return { jobId, paymentHoldId: input.paymentHoldId || null }
+}
+
+/**
+ * Open a ticket with the user's first message and send the confirmation email
+ */
+export async function openTicket(params: {
+  supabase: SupabaseClient
+  userId: string
+  userEmail: string
+  input: SupportTicketInput
+}): Promise<SupportTicket> {
+  const { supabase, userId, userEmail, input } = params
+
+  const links = await checkLinks(supabase, userId, input)
+  const userName = (await getUserName(supabase, userId)) || userEmail.split('@')[0]
+  const now = new Date()
+
+  const { data: ticket, error } = await supabase
+    .from('support_tickets')
+    .insert({
+      user_id: userId,
+      user_email: userEmail,
+      user_name: userName,
+      subject: input.subject,
+      category: input.category,
+      priority: input.priority,
+      job_id: links.jobId,
+      payment_hold_id: links.paymentHoldId,
+      ...slaDeadlines(input.priority, now),
+      last_reply_at: now.toISOString(),
+      last_reply_role: 'user'
+    })
+    .select()
+    .single()
+
+  if (error || !ticket) throw error
+
+  const { error: replyError } = await supabase
+    .from('support_ticket_replies')
+    .insert({
+      ticket_id: ticket.id,
+      author_id: userId,
+      author_role: 'user',
+      body: input.message
+    })
+
+  if (replyError) {
+    await supabase.from('support_tickets').delete().eq('id', ticket.id)
+    throw replyError
+  }
+
+  try {
+    await notifySupportTicketReceived({
+      userEmail,
+      userName,
+      ticketId: ticket.id,
+      ticketSubject: ticket.subject,
+      ticketPriority: ticket.priority,
+      ticketStatus: ticket.status
+    })
+  } catch (emailError) {
+    console.error('Failed to send support ticket confirmation:', emailError)
+  }
+
+  return ticket
+}
+
+/**
+ * Load a ticket and its thread for its owner or an admin
+ */
+export async function getTicket(params: {
+  supabase: SupabaseClient
+  ticketId: string
+  userId: string
+  admin: boolean
+}): Promise<{ ticket: SupportTicket; replies: SupportReply[] }> {
+  const { supabase, ticketId, userId, admin } = params
+
+  const { data: ticket } = await supabase
+    .from('support_tickets')
+    .select('*')
+    .eq('id', ticketId)
+    .maybeSingle()
+
+  if (!ticket || (!admin && ticket.user_id !== userId)) {
+    throw new SupportError('Ticket not found', 404)
+  }
+
+  const { data: replies, error } = await supabase
+    .from('support_ticket_replies')
+    .select('*')
+    .eq('ticket_id', ticketId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  return { ticket, replies: replies || [] }
+}
+
+/**
+ * Add a reply to a ticket's thread and move its status along.
+ * Admin replies put the ticket in 'waiting' (or 'resolved' when `resolve`
+ * is set) and stop the first-response timer; user replies reopen it.
+ */
+export async function replyToTicket(params: {
+  supabase: SupabaseClient
+  ticketId: string
+  authorId: string
+  role: SupportAuthorRole
+  body: string
+  resolve?: boolean
+}): Promise<{ ticket: SupportTicket; reply: SupportReply }> {
+  const { supabase, ticketId, authorId, role } = params
+  const body = params.body?.trim()
+
+  if (!body) {
+    throw new SupportError('Reply cannot be empty')
+  }
+  if (body.length > MAX_REPLY_LENGTH) {
+    throw new SupportError(`Replies are limited to ${MAX_REPLY_LENGTH} characters`)
+  }
+
+  const { ticket } = await getTicket({ supabase, ticketId, userId: authorId, admin: role === 'admin' })
+
+  const { data: reply, error } = await supabase
+    .from('support_ticket_replies')
+    .insert({ ticket_id: ticketId, author_id: authorId, author_role: role, body })
+    .select()
+    .single()
+
+  if (error || !reply) throw error
+
+  const now = new Date().toISOString()
+  const changes: Record<string, any> = { last_reply_at: now, last_reply_role: role }
+
+  if (role === 'admin') {
+    changes.status = params.resolve ? 'resolved' : 'waiting'
+    changes.first_responded_at = ticket.first_responded_at || now
+    changes.resolved_at = params.resolve ? now : null
+    // First admin to answer an unassigned ticket picks it up
+    if (!ticket.assigned_admin_id) {
+      changes.assigned_admin_id = authorId
+      changes.assigned_at = now
+    }
+  } else {
+    changes.status = ticket.status === 'new' ? 'new' : 'open'
+    changes.resolved_at = null
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('support_tickets')
+    .update(changes)
+    .eq('id', ticketId)
+    .select()
+    .single()
+
+  if (updateError || !updated) throw updateError
+
+  await notifyReply(supabase, updated, reply)
+
+  return { ticket: updated, reply }
+}
+
+async function notifyReply(supabase: SupabaseClient, ticket: SupportTicket, reply: SupportReply) {
+  const replyPreview = reply.body.length > 500 ? `${reply.body.slice(0, 500)}...` : reply.body
+
+  try {
+    if (reply.author_role === 'admin') {
+      const sendEmail = (to: string) => notifySupportTicketReply({
+        recipientEmail: to,
+        recipientName: ticket.user_name,
+        ticketId: ticket.id,
+        ticketSubject: ticket.subject,
+        ticketStatus: ticket.status,
+        replyPreview,
+        fromSupport: true
+      })
+
+      if (!ticket.user_id) {
+        await sendEmail(ticket.user_email)
+        return
+      }
+
+      await dispatchNotification(supabase, {
+        userId: ticket.user_id,
+        event: 'support_reply',
+        jobId: ticket.job_id,
+        inApp: {
+          type: 'info',
+          title: 'Support replied to your ticket',
+          message: ticket.subject,
+          job_id: ticket.job_id,
+          link: `/support/tickets/${ticket.id}`
+        },
+        email: { to: ticket.user_email, send: sendEmail }
+      })
+    } else if (ticket.assigned_admin_id) {
+      const { data: adminAuth } = await supabase.auth.admin.getUserById(ticket.assigned_admin_id)
+      if (!adminAuth?.user?.email) return
+
+      await notifySupportTicketReply({
+        recipientEmail: adminAuth.user.email,
+        recipientName: (await getUserName(supabase, ticket.assigned_admin_id)) || 'there',
+        ticketId: ticket.id,
+        ticketSubject: ticket.subject,
+        ticketStatus: ticket.status,
+        replyPreview,
+        fromSupport: false
+      })
+    }
+  } catch (emailError) {
+    console.error('Failed to send support reply notification:', emailError)
+  }
+}
+
+/**
+ * Admins who can be assigned tickets
+ */
+export async function listSupportAdmins(supabase: SupabaseClient): Promise<SupportAdmin[]> {
+  const admins = await listAdmins(supabase)
+
+  return admins
+    .map(admin => ({ id: admin.user_id, name: admin.name, email: admin.email || '' }))
+    .sort((a, b) => (a.name || a.email).localeCompare(b.name || b.email))
+}
+
+/**
+ * Admin triage: change status, priority, category or assignee.
+ * A priority change recomputes the SLA deadlines from when the ticket opened.
+ */
+export async function updateTicket(params: {
+  supabase: SupabaseClient
+  ticketId: string
+  update: TicketUpdate
+}): Promise<SupportTicket> {
+  const { supabase, ticketId, update } = params
+
+  const { data: ticket } = await supabase
+    .from('support_tickets')
+    .select('*')
+    .eq('id', ticketId)
+    .maybeSingle()
+
+  if (!ticket) {
+    throw new SupportError('Ticket not found', 404)
+  }
+
+  const now = new Date().toISOString()
+  const changes: Record<string, any> = {}
+
+  if (update.status !== undefined) {
+    if (!SUPPORT_STATUSES.includes(update.status)) {
+      throw new SupportError('Invalid status')
+    }
+    changes.status = update.status
+    changes.resolved_at = update.status === 'resolved' ? (ticket.resolved_at || now) : null
+  }
+
+  if (update.category !== undefined) {
+    if (!(update.category in SUPPORT_CATEGORIES)) {
+      throw new SupportError('Invalid category')
+    }
+    changes.category = update.category
+  }
+
+  if (update.priority !== undefined && update.priority !== ticket.priority) {
+    if (!SUPPORT_PRIORITIES.includes(update.priority)) {
+      throw new SupportError('Invalid priority')
+    }
+    changes.priority = update.priority
+    Object.assign(changes, slaDeadlines(update.priority, new Date(ticket.created_at)))
+  }
+
+  if (update.assignedAdminId !== undefined && update.assignedAdminId !== ticket.assigned_admin_id) {
+    if (update.assignedAdminId) {
+      const admins = await listSupportAdmins(supabase)
+      if (!admins.some(a => a.id === update.assignedAdminId)) {
+        throw new SupportError('Tickets can only be assigned to admins')
+      }
+    }
+    changes.assigned_admin_id = update.assignedAdminId
+    changes.assigned_at = update.assignedAdminId ? now : null
+  }
+
+  // Picking a new ticket up counts as opening it
+  if (ticket.status === 'new' && changes.status === undefined && changes.assigned_admin_id) {
+    changes.status = 'open'
+  }
+
+  if (Object.keys(changes).length === 0) return ticket
+
+  const { data: updated, error } = await supabase
+    .from('support_tickets')
+    .update(changes)
+    .eq('id', ticketId)
+    .select()
+    .single()
+
+  if (error || !updated) throw error
+
+  return updated
+}
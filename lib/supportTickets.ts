@@ -0,0 +1,181 @@
+/**
+ * Support Tickets for Rushr
+ *
+ * Shared types and SLA rules for the support desk. A ticket's priority sets
+ * two deadlines when it is opened: the first admin reply and the resolution.
+ * Replies are threaded between the user and admins; an admin reply puts the
+ * ticket in 'waiting' (on the user) and a user reply moves it back to 'open'.
+ * The server-side operations live in supportDesk.ts.
+ */
+
+export type SupportCategory = 'account' | 'billing' | 'job' | 'payment' | 'technical' | 'safety' | 'other'
+export type SupportPriority = 'low' | 'medium' | 'high' | 'urgent'
+export type SupportStatus = 'new' | 'open' | 'waiting' | 'resolved'
+export type SupportAuthorRole = 'user' | 'admin'
+export type SlaState = 'on_track' | 'due_soon' | 'breached' | 'met'
+
+export const SUPPORT_CATEGORIES: Record<SupportCategory, string> = {
+  account: 'Account & sign-in',
+  billing: 'Billing & subscription',
+  job: 'A job or contractor',
+  payment: 'A payment or refund',
+  technical: 'Something is broken',
+  safety: 'Safety concern',
+  other: 'Something else'
+}
+
+export const SUPPORT_PRIORITIES: SupportPriority[] = ['low', 'medium', 'high', 'urgent']
+export const SUPPORT_STATUSES: SupportStatus[] = ['new', 'open', 'waiting', 'resolved']
+
+/** Status wording shown to the user who opened the ticket */
+export const SUPPORT_STATUS_LABELS: Record<SupportStatus, string> = {
+  new: 'Received',
+  open: 'In progress',
+  waiting: 'Awaiting your reply',
+  resolved: 'Resolved'
+}
+
+/** SLA targets in hours, by priority */
+export const SUPPORT_SLA_HOURS: Record<SupportPriority, { firstResponse: number; resolution: number }> = {
+  urgent: { firstResponse: 1, resolution: 24 },
+  high: { firstResponse: 4, resolution: 48 },
+  medium: { firstResponse: 24, resolution: 72 },
+  low: { firstResponse: 48, resolution: 120 }
+}
+
+/** Safety reports are never filed below high priority */
+const MIN_PRIORITY: Partial<Record<SupportCategory, SupportPriority>> = {
+  safety: 'high'
+}
+
+export const MAX_SUBJECT_LENGTH = 120
+export const MAX_REPLY_LENGTH = 5000
+
+/** Share of an SLA window left before a timer is flagged as due soon */
+const DUE_SOON_FRACTION = 0.25
+
+export interface SupportTicket {
+  id: string
+  user_id: string | null
+  user_email: string
+  user_name: string
+  subject: string
+  category: SupportCategory
+  priority: SupportPriority
+  status: SupportStatus
+  job_id: string | null
+  payment_hold_id: string | null
+  assigned_admin_id: string | null
+  assigned_at: string | null
+  first_response_due_at: string
+  first_responded_at: string | null
+  resolution_due_at: string
+  resolved_at: string | null
+  last_reply_at: string | null
+  last_reply_role: SupportAuthorRole | null
+  created_at: string
+  updated_at: string
+}
+
+export interface SupportReply {
+  id: string
+  ticket_id: string
+  author_id: string | null
+  author_role: SupportAuthorRole
+  body: string
+  created_at: string
+}
+
+export interface SupportTicketInput {
+  subject: string
+  message: string
+  category: SupportCategory
+  priority: SupportPriority
+  jobId?: string | null
+  paymentHoldId?: string | null
+}
+
+export class SupportError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'SupportError'
+    this.status = status
+  }
+}
+
+/**
+ * Validate a new ticket body; throws SupportError on bad input
+ */
+export function normalizeTicketInput(input: any): SupportTicketInput {
+  const subject = typeof input?.subject === 'string' ? input.subject.trim() : ''
+  const message = typeof input?.message === 'string' ? input.message.trim() : ''
+
+  if (!subject) {
+    throw new SupportError('Subject is required')
+  }
+  if (subject.length > MAX_SUBJECT_LENGTH) {
+    throw new SupportError(`Subjects are limited to ${MAX_SUBJECT_LENGTH} characters`)
+  }
+  if (!message) {
+    throw new SupportError('Please describe the problem')
+  }
+  if (message.length > MAX_REPLY_LENGTH) {
+    throw new SupportError(`Messages are limited to ${MAX_REPLY_LENGTH} characters`)
+  }
+
+  const category: SupportCategory = input.category in SUPPORT_CATEGORIES ? input.category : 'other'
+  let priority: SupportPriority = SUPPORT_PRIORITIES.includes(input.priority) ? input.priority : 'medium'
+
+  const minimum = MIN_PRIORITY[category]
+  if (minimum && SUPPORT_PRIORITIES.indexOf(priority) < SUPPORT_PRIORITIES.indexOf(minimum)) {
+    priority = minimum
+  }
+
+  return {
+    subject,
+    message,
+    category,
+    priority,
+    jobId: input.jobId || null,
+    paymentHoldId: input.paymentHoldId || null
+  }
+}
+
+/**
+ * SLA deadlines for a ticket opened at `openedAt`
+ */
+export function slaDeadlines(priority: SupportPriority, openedAt: Date) {
+  const hours = SUPPORT_SLA_HOURS[priority]
+  const at = (h: number) => new Date(openedAt.getTime() + h * 60 * 60 * 1000).toISOString()
+
+  return {
+    first_response_due_at: at(hours.firstResponse),
+    resolution_due_at: at(hours.resolution)
+  }
+}
+
+function timerState(openedAt: string, dueAt: string, doneAt: string | null, now: Date): SlaState {
+  const due = new Date(dueAt).getTime()
+
+  if (doneAt) {
+    return new Date(doneAt).getTime() <= due ? 'met' : 'breached'
+  }
+
+  const left = due - now.getTime()
+  if (left < 0) return 'breached'
+
+  const window = due - new Date(openedAt).getTime()
+  return left <= window * DUE_SOON_FRACTION ? 'due_soon' : 'on_track'
+}
+
+/**
+ * Where a ticket stands against its first-response and resolution SLAs
+ */
+export function ticketSla(ticket: SupportTicket, now: Date = new Date()) {
+  return {
+    firstResponse: timerState(ticket.created_at, ticket.first_response_due_at, ticket.first_responded_at, now),
+    resolution: timerState(ticket.created_at, ticket.resolution_due_at, ticket.resolved_at, now)
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * Route Playback and Proof of Visit for Rushr
+ *
+ * Rebuilds what happened on a job from location_history: when the contractor
+ * set off, the path they drove, when they reached the job's geofence, how
+ * long they stayed and when they left. Used for disputes ("they never showed
+ * up") and for our own records.
+ *
+ * The report can be exported as a summary JSON, GeoJSON (path, job and
+ * arrival/departure points) or GPX, and snapshotted onto a dispute as
+ * evidence. Visible to the homeowner, the contractor or technician on the
+ * job, and admins.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { distanceMeters } from './geo'
+import { TrackingConfig, getTrackingConfig, insideGeofence } from './liveTracking'
+
+export interface VisitPoint {
+  contractor_id: string
+  latitude: number
+  longitude: number
+  accuracy: number | null
+  speed: number | null
+  recorded_at: string
+}
+
+export interface SiteVisit {
+  arrivedAt: string
+  departedAt: string | null
+  minutes: number
+}
+
+export type TimelineEventType = 'en_route' | 'arrived' | 'departed' | 'work_started' | 'work_completed'
+
+export interface TimelineEvent {
+  type: TimelineEventType
+  at: string
+  label: string
+}
+
+export interface VisitSummary {
+  job: {
+    id: string
+    title: string
+    address: string | null
+    latitude: number
+    longitude: number
+  }
+  contractorIds: string[]
+  enRouteAt: string | null
+  arrivedAt: string | null
+  departedAt: string | null
+  /** Total minutes inside the geofence across all visits */
+  timeOnSiteMinutes: number
+  /** Minutes from setting off to first arrival */
+  travelMinutes: number | null
+  /** Path length from the first fix to first arrival */
+  distanceDrivenMeters: number
+  visits: SiteVisit[]
+  timeline: TimelineEvent[]
+  pointCount: number
+  firstFixAt: string | null
+  lastFixAt: string | null
+  geofenceRadiusMeters: number
+  generatedAt: string
+}
+
+export interface VisitReport {
+  summary: VisitSummary
+  points: VisitPoint[]
+}
+
+export class VisitReportError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'VisitReportError'
+    this.status = status
+  }
+}
+
+/** Leaving the geofence for less than this is treated as GPS jitter */
+const REENTRY_GRACE_MS = 5 * 60 * 1000
+
+const MAX_POINTS = 10000
+
+function minutesBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000)
+}
+
+/**
+ * Split the fixes into stays inside the job's geofence. A departure is the
+ * first fix outside the fence after a stay; a stay still going on at the
+ * last fix has no departure yet.
+ */
+export function findSiteVisits(
+  points: VisitPoint[],
+  destination: { latitude: number; longitude: number },
+  config: TrackingConfig
+): SiteVisit[] {
+  const visits: { arrivedAt: string; lastInsideAt: string; departedAt: string | null }[] = []
+  let current: (typeof visits)[number] | null = null
+
+  for (const point of points) {
+    const inside = insideGeofence(point, destination, config)
+
+    if (inside) {
+      const previous = visits[visits.length - 1]
+      const resumed = !current && previous?.departedAt &&
+        new Date(point.recorded_at).getTime() - new Date(previous.departedAt).getTime() < REENTRY_GRACE_MS
+
+      if (resumed) {
+        previous.departedAt = null
+        current = previous
+      } else if (!current) {
+        current = { arrivedAt: point.recorded_at, lastInsideAt: point.recorded_at, departedAt: null }
+        visits.push(current)
+      }
+
+      current.lastInsideAt = point.recorded_at
+    } else if (current) {
+      current.departedAt = point.recorded_at
+      current = null
+    }
+  }
+
+  return visits.map(visit => ({
+    arrivedAt: visit.arrivedAt,
+    departedAt: visit.departedAt,
+    minutes: minutesBetween(visit.arrivedAt, visit.departedAt || visit.lastInsideAt)
+  }))
+}
+
+/**
+ * Summarize a job's fixes. Job timestamps fill in what the fixes cannot
+ * show (contractor_en_route_at before the first fix, work start/completion).
+ */
+export function summarizeVisit(job: any, points: VisitPoint[], config: TrackingConfig, now: Date): VisitSummary {
+  const destination = { latitude: Number(job.latitude), longitude: Number(job.longitude) }
+  const visits = findSiteVisits(points, destination, config)
+  const arrivedAt = visits[0]?.arrivedAt || job.contractor_arrived_at || null
+  const lastVisit = visits[visits.length - 1]
+  const departedAt = lastVisit?.departedAt || null
+  const enRouteAt = job.contractor_en_route_at || points[0]?.recorded_at || null
+
+  let distanceDriven = 0
+  for (let i = 1; i < points.length; i++) {
+    if (arrivedAt && points[i].recorded_at > arrivedAt) break
+    distanceDriven += distanceMeters(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude)
+  }
+
+  const timeline: TimelineEvent[] = []
+  if (enRouteAt) timeline.push({ type: 'en_route', at: enRouteAt, label: 'Contractor on the way' })
+  visits.forEach((visit, index) => {
+    timeline.push({ type: 'arrived', at: visit.arrivedAt, label: index === 0 ? 'Arrived at the job' : 'Returned to the job' })
+    if (visit.departedAt) {
+      timeline.push({ type: 'departed', at: visit.departedAt, label: `Left after ${visit.minutes} min` })
+    }
+  })
+  if (!visits.length && job.contractor_arrived_at) {
+    timeline.push({ type: 'arrived', at: job.contractor_arrived_at, label: 'Arrived at the job' })
+  }
+  if (job.work_started_at) timeline.push({ type: 'work_started', at: job.work_started_at, label: 'Work started' })
+  if (job.work_completed_at) timeline.push({ type: 'work_completed', at: job.work_completed_at, label: 'Work marked complete' })
+  timeline.sort((a, b) => a.at.localeCompare(b.at))
+
+  return {
+    job: {
+      id: job.id,
+      title: job.title,
+      address: job.address || null,
+      latitude: destination.latitude,
+      longitude: destination.longitude
+    },
+    contractorIds: [...new Set(points.map(point => point.contractor_id))],
+    enRouteAt,
+    arrivedAt,
+    departedAt,
+    timeOnSiteMinutes: visits.reduce((total, visit) => total + visit.minutes, 0),
+    travelMinutes: enRouteAt && arrivedAt ? minutesBetween(enRouteAt, arrivedAt) : null,
+    distanceDrivenMeters: Math.round(distanceDriven),
+    visits,
+    timeline,
+    pointCount: points.length,
+    firstFixAt: points[0]?.recorded_at || null,
+    lastFixAt: points[points.length - 1]?.recorded_at || null,
+    geofenceRadiusMeters: config.arrivalRadiusMeters,
+    generatedAt: now.toISOString()
+  }
+}
+
+/**
+ * Build the report for a job the viewer is allowed to see
+ */
+export async function getVisitReport(params: {
+  supabase: SupabaseClient
+  jobId: string
+  viewerId: string
+  viewerIsAdmin?: boolean
+  config?: TrackingConfig
+  now?: Date
+}): Promise<VisitReport> {
+  const { supabase, jobId, viewerId, viewerIsAdmin } = params
+  const config = params.config || getTrackingConfig()
+
+  const { data: job } = await supabase
+    .from('homeowner_jobs')
+    .select('id, title, address, latitude, longitude, homeowner_id, contractor_id, assigned_tech_id, contractor_en_route_at, contractor_arrived_at, work_started_at, work_completed_at')
+    .eq('id', jobId)
+    .maybeSingle()
+
+  if (!job) {
+    throw new VisitReportError('Job not found', 404)
+  }
+
+  const { data: points, error } = await supabase
+    .from('location_history')
+    .select('contractor_id, latitude, longitude, accuracy, speed, recorded_at')
+    .eq('job_id', jobId)
+    .order('recorded_at', { ascending: true })
+    .limit(MAX_POINTS)
+
+  if (error) throw error
+
+  const trackedIds = new Set((points || []).map(point => point.contractor_id))
+  const isParty = viewerId === job.homeowner_id ||
+    viewerId === job.contractor_id ||
+    viewerId === job.assigned_tech_id ||
+    trackedIds.has(viewerId)
+
+  if (!isParty && !viewerIsAdmin) {
+    throw new VisitReportError('Access denied', 403)
+  }
+
+  if (job.latitude == null || job.longitude == null) {
+    throw new VisitReportError('Job has no coordinates', 409)
+  }
+
+  const normalized: VisitPoint[] = (points || []).map(point => ({
+    contractor_id: point.contractor_id,
+    latitude: Number(point.latitude),
+    longitude: Number(point.longitude),
+    accuracy: point.accuracy != null ? Number(point.accuracy) : null,
+    speed: point.speed != null ? Number(point.speed) : null,
+    recorded_at: point.recorded_at
+  }))
+
+  return {
+    summary: summarizeVisit(job, normalized, config, params.now || new Date()),
+    points: normalized
+  }
+}
+
+/**
+ * GeoJSON FeatureCollection: the driven path (with per-point times), the job
+ * location and each arrival/departure
+ */
+export function toGeoJSON(report: VisitReport) {
+  const { summary, points } = report
+  const features: any[] = []
+
+  if (points.length > 1) {
+    features.push({
+      type: 'Feature',
+      properties: {
+        kind: 'path',
+        coordTimes: points.map(point => point.recorded_at)
+      },
+      geometry: {
+        type: 'LineString',
+        coordinates: points.map(point => [point.longitude, point.latitude])
+      }
+    })
+  }
+
+  features.push({
+    type: 'Feature',
+    properties: { kind: 'job', title: summary.job.title, address: summary.job.address, radiusMeters: summary.geofenceRadiusMeters },
+    geometry: { type: 'Point', coordinates: [summary.job.longitude, summary.job.latitude] }
+  })
+
+  const pointAt = (at: string) => points.find(point => point.recorded_at === at)
+
+  for (const visit of summary.visits) {
+    for (const [kind, at] of [['arrival', visit.arrivedAt], ['departure', visit.departedAt]] as const) {
+      const point = at ? pointAt(at) : undefined
+      if (!point) continue
+
+      features.push({
+        type: 'Feature',
+        properties: { kind, at },
+        geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] }
+      })
+    }
+  }
+
+  return {
+    type: 'FeatureCollection',
+    properties: {
+      jobId: summary.job.id,
+      arrivedAt: summary.arrivedAt,
+      departedAt: summary.departedAt,
+      timeOnSiteMinutes: summary.timeOnSiteMinutes
+    },
+    features
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * GPX 1.1 track of the driven path with the job as a waypoint
+ */
+export function toGpx(report: VisitReport): string {
+  const { summary, points } = report
+  const name = escapeXml(summary.job.title || 'Rushr job')
+
+  const trackPoints = points
+    .map(point => `      <trkpt lat="${point.latitude}" lon="${point.longitude}"><time>${new Date(point.recorded_at).toISOString()}</time></trkpt>`)
+    .join('\n')
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Rushr" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${name}</name><time>${summary.generatedAt}</time></metadata>`,
+    `  <wpt lat="${summary.job.latitude}" lon="${summary.job.longitude}"><name>${name}</name>${summary.job.address ? `<desc>${escapeXml(summary.job.address)}</desc>` : ''}</wpt>`,
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <trkseg>',
+    trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * One-line description of a visit, used as the text of dispute evidence
+ */
+export function describeVisit(summary: VisitSummary): string {
+  if (!summary.arrivedAt) {
+    return summary.pointCount > 0
+      ? `Contractor was tracked (${summary.pointCount} fixes) but never entered the job's ${summary.geofenceRadiusMeters} m geofence.`
+      : 'No location was recorded for this job.'
+  }
+
+  const arrived = new Date(summary.arrivedAt).toLocaleString('en-US')
+  const departed = summary.departedAt ? new Date(summary.departedAt).toLocaleString('en-US') : 'still on site at the last fix'
+  return `Arrived ${arrived}, left ${departed}; ${summary.timeOnSiteMinutes} min on site over ${summary.visits.length || 1} visit(s).`
+}
@@ -0,0 +1,168 @@
+/**
+ * ZCTA (ZIP Code Tabulation Area) polygons for Rushr
+ *
+ * Server-only. Loads a Census TIGER/Line ZCTA GeoJSON file from disk once per
+ * process (ZCTA_GEOJSON_PATH, default data/zcta.geojson) and resolves drawn
+ * polygons and radius circles to the ZIPs they touch. See data/README.md for
+ * how to build the file.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import * as turf from '@turf/turf'
+import type { BBox, Feature, FeatureCollection, Geometry } from 'geojson'
+import { ServiceArea, explicitZips } from './serviceArea'
+
+interface ZctaEntry {
+  zip: string
+  bbox: BBox
+  feature: Feature<Geometry>
+}
+
+// TIGER/Line 2020 and 2010 field names, plus common re-exports
+const ZIP_PROPERTIES = ['ZCTA5CE20', 'ZCTA5CE10', 'GEOID20', 'GEOID10', 'ZCTA', 'ZIP']
+
+let datasetPromise: Promise<ZctaEntry[]> | null = null
+
+export class ZctaDatasetError extends Error {
+  status = 503
+
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZctaDatasetError'
+  }
+}
+
+export function getZctaDatasetPath(): string {
+  return process.env.ZCTA_GEOJSON_PATH || path.join(process.cwd(), 'data', 'zcta.geojson')
+}
+
+function zipOf(feature: Feature): string | null {
+  const props = (feature.properties || {}) as Record<string, unknown>
+  for (const key of ZIP_PROPERTIES) {
+    if (props[key]) return String(props[key]).padStart(5, '0')
+  }
+  return null
+}
+
+async function loadDataset(): Promise<ZctaEntry[]> {
+  const file = getZctaDatasetPath()
+
+  let raw: string
+  try {
+    raw = await fs.readFile(file, 'utf8')
+  } catch {
+    throw new ZctaDatasetError(`ZCTA dataset not found at ${file}. Set ZCTA_GEOJSON_PATH or see data/README.md.`)
+  }
+
+  const collection = JSON.parse(raw) as FeatureCollection
+  const entries: ZctaEntry[] = []
+
+  for (const feature of collection.features || []) {
+    const zip = zipOf(feature)
+    if (!zip || !feature.geometry) continue
+    entries.push({ zip, bbox: turf.bbox(feature) as BBox, feature: feature as Feature<Geometry> })
+  }
+
+  return entries
+}
+
+async function getDataset(): Promise<ZctaEntry[]> {
+  if (!datasetPromise) {
+    datasetPromise = loadDataset().catch(error => {
+      // Allow a retry once the file is in place
+      datasetPromise = null
+      throw error
+    })
+  }
+  return datasetPromise
+}
+
+function bboxesOverlap(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1]
+}
+
+/**
+ * ZCTA polygons whose bounding box overlaps the given bbox
+ */
+export async function loadZctaPolys(bbox?: BBox): Promise<Feature<Geometry>[]> {
+  const dataset = await getDataset()
+  return dataset
+    .filter(entry => !bbox || bboxesOverlap(entry.bbox, bbox))
+    .map(entry => entry.feature)
+}
+
+/**
+ * ZIPs whose ZCTA polygon intersects any of the given shapes
+ */
+export async function zipsIntersecting(shapes: FeatureCollection): Promise<string[]> {
+  const features = shapes.features.filter(f => f.geometry)
+  if (features.length === 0) return []
+
+  const bbox = turf.bbox(shapes) as BBox
+  const dataset = await getDataset()
+  const zips = new Set<string>()
+
+  for (const entry of dataset) {
+    if (!bboxesOverlap(entry.bbox, bbox)) continue
+    try {
+      if (features.some(shape => turf.booleanIntersects(entry.feature as any, shape as any))) {
+        zips.add(entry.zip)
+      }
+    } catch {
+      // Skip malformed geometries safely
+    }
+  }
+
+  return Array.from(zips).sort()
+}
+
+/**
+ * Centroid of a ZIP's ZCTA polygon as [longitude, latitude]
+ */
+export async function zipCentroid(zip: string): Promise<[number, number] | null> {
+  const dataset = await getDataset()
+  const entry = dataset.find(e => e.zip === zip)
+  if (!entry) return null
+
+  const props = (entry.feature.properties || {}) as Record<string, unknown>
+  const lat = Number(props.INTPTLAT20 ?? props.INTPTLAT10)
+  const lng = Number(props.INTPTLON20 ?? props.INTPTLON10)
+  if (Number.isFinite(lat) && Number.isFinite(lng) && (lat !== 0 || lng !== 0)) {
+    return [lng, lat]
+  }
+
+  return turf.centroid(entry.feature as any).geometry.coordinates as [number, number]
+}
+
+/**
+ * Resolve a service area to every ZIP it touches. The radius is centred on the
+ * contractor's coordinates, falling back to the base ZIP's centroid (which is
+ * then returned so it can be stored).
+ */
+export async function resolveCoverage(area: ServiceArea): Promise<{
+  coverageZips: string[]
+  center: [number, number] | null
+}> {
+  const shapes: Feature[] = [...(area.service_area_polygons?.features || [])]
+
+  let center: [number, number] | null = area.latitude != null && area.longitude != null
+    ? [Number(area.longitude), Number(area.latitude)]
+    : null
+
+  if (!center && area.base_zip) {
+    center = await zipCentroid(area.base_zip)
+  }
+
+  const radius = Number(area.service_radius_miles || 0)
+  if (center && radius > 0) {
+    shapes.push(turf.circle(center, radius, { units: 'miles', steps: 64 }))
+  }
+
+  const resolved = await zipsIntersecting({ type: 'FeatureCollection', features: shapes })
+
+  return {
+    coverageZips: Array.from(new Set([...explicitZips(area), ...resolved])).sort(),
+    center
+  }
+}
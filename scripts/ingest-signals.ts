@@ -0,0 +1,101 @@
+// Run the signal ingestion pipeline from the command line
+//
+//   npx tsx scripts/ingest-signals.ts --dry-run            fixtures only, no database
+//   npx tsx scripts/ingest-signals.ts --dry-run --verbose  ...and print every signal
+//   npx tsx scripts/ingest-signals.ts --seed --offline     load data/signals/sources.json, ingest from fixtures
+//   npx tsx scripts/ingest-signals.ts                      ingest every active source in the database
+//
+// Other flags: --sources <file> (default data/signals/sources.json),
+// --source <id> (one source only), --now <ISO date> (pin the clock so the
+// fixtures give the same result every time), --online (let --dry-run call
+// source APIs and Mapbox).
+require('dotenv').config({ path: '.env.local' })
+
+import { promises as fs } from 'fs'
+import { createClient } from '@supabase/supabase-js'
+import { resolveDataPath } from '../lib/signalAdapters'
+import type { SignalSource } from '../lib/signalAdapters'
+import { previewSignalIngest, runSignalIngest } from '../lib/signalIngest'
+import type { SourceIngestSummary } from '../lib/signalIngest'
+
+const args = process.argv.slice(2)
+
+function flag(name: string): boolean {
+  return args.includes(`--${name}`)
+}
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`)
+  return index >= 0 ? args[index + 1] : undefined
+}
+
+function printSummary(summaries: SourceIngestSummary[]) {
+  for (const s of summaries) {
+    const counts = `fetched ${s.fetched}, new ${s.inserted}, updated ${s.updated}, unchanged ${s.unchanged}, skipped ${s.skipped}`
+    console.log(`${s.error ? '❌' : '✅'} ${s.sourceName}: ${s.error || counts}`)
+  }
+}
+
+async function loadSources(): Promise<SignalSource[]> {
+  const file = resolveDataPath(option('sources') || 'data/signals/sources.json')
+  const sources = JSON.parse(await fs.readFile(file, 'utf8')) as SignalSource[]
+  const only = option('source')
+  return only ? sources.filter(source => source.id === only) : sources
+}
+
+async function main() {
+  const now = option('now') ? new Date(option('now')!) : new Date()
+  if (Number.isNaN(now.getTime())) throw new Error(`Invalid --now: ${option('now')}`)
+
+  if (flag('dry-run')) {
+    const { sources, signals } = await previewSignalIngest({
+      sources: await loadSources(),
+      offline: !flag('online'),
+      now
+    })
+
+    printSummary(sources)
+
+    if (flag('verbose')) {
+      for (const signal of signals) {
+        console.log(
+          `  [${signal.urgency_score}] ${signal.signal_type} ${signal.category || '-'} | ${signal.title}` +
+          ` | ${signal.zip_code || 'no zip'} (${signal.geocode_source || 'not geocoded'})` +
+          `${signal.is_active ? '' : ' | expired'}`
+        )
+      }
+    }
+    return
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  )
+
+  if (flag('seed')) {
+    const sources = await loadSources()
+    const { error } = await supabase
+      .from('signal_sources')
+      .upsert(sources.map(({ last_polled_at, last_cursor, ...source }) => source), { onConflict: 'id' })
+
+    if (error) throw error
+    console.log(`🌱 Seeded ${sources.length} signal sources`)
+  }
+
+  const summary = await runSignalIngest({
+    supabase,
+    sourceIds: option('source') ? [option('source')!] : undefined,
+    offline: flag('offline') || undefined,
+    now
+  })
+
+  printSummary(summary.sources)
+  console.log(`⏰ Expired ${summary.expired} stale signals`)
+  console.log(`📡 Made ${summary.matched} contractor matches`)
+}
+
+main().catch(error => {
+  console.error('Signal ingest failed:', error.message || error)
+  process.exit(1)
+})
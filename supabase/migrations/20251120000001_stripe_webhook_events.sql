@@ -0,0 +1,134 @@
+-- =============================================================================
+-- STRIPE WEBHOOK EVENTS
+-- Stores every verified Stripe event so deliveries can be deduplicated and
+-- replayed. payment_holds state is driven from these events by
+-- /api/stripe/webhook instead of only by our own optimistic writes.
+-- =============================================================================
+
+-- 1. CREATE STRIPE_WEBHOOK_EVENTS TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id TEXT PRIMARY KEY, -- Stripe event ID (evt_...)
+  type TEXT NOT NULL,
+  livemode BOOLEAN DEFAULT false,
+  api_version TEXT,
+  payload JSONB NOT NULL,
+  status TEXT CHECK (status IN ('received', 'processed', 'ignored', 'failed')) DEFAULT 'received',
+  attempts INTEGER DEFAULT 0,
+  last_error TEXT,
+  stripe_created_at TIMESTAMPTZ,
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_type ON stripe_webhook_events(type);
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status ON stripe_webhook_events(status);
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_created ON stripe_webhook_events(created_at DESC);
+
+-- 2. ADD WEBHOOK-DRIVEN COLUMNS TO PAYMENT_HOLDS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE payment_holds
+ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10,2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS refund_reason TEXT,
+ADD COLUMN IF NOT EXISTS failure_reason TEXT,
+ADD COLUMN IF NOT EXISTS stripe_dispute_id TEXT,
+ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS status_before_dispute TEXT,
+ADD COLUMN IF NOT EXISTS transfer_reversed_amount DECIMAL(10,2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_stripe_event_at TIMESTAMPTZ;
+
+-- 3. DEDUPLICATE TRANSACTIONS WRITTEN FROM STRIPE OBJECTS
+-- -----------------------------------------------------------------------------
+-- NULL stripe_id values stay distinct, so manual adjustments are unaffected.
+-- Rows booked twice for the same Stripe object before this index existed are
+-- collapsed to the earliest one first, or the index cannot be built.
+
+DELETE FROM transactions
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (PARTITION BY type, stripe_id ORDER BY created_at NULLS LAST, id) AS copy
+    FROM transactions
+    WHERE stripe_id IS NOT NULL
+  ) booked
+  WHERE copy > 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_type_stripe_id
+  ON transactions(type, stripe_id);
+
+-- The release trigger books the contractor credit when a hold becomes
+-- 'released'. A won chargeback restores a released hold from 'disputed',
+-- which is not a new release, and a transfer already booked must not make
+-- the hold update fail on the index above.
+CREATE OR REPLACE FUNCTION create_release_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'released'
+       AND (OLD.status IS NULL OR OLD.status NOT IN ('released', 'disputed')) THEN
+        INSERT INTO transactions (
+            user_id,
+            user_type,
+            job_id,
+            bid_id,
+            payment_hold_id,
+            type,
+            amount,
+            description,
+            stripe_id
+        ) VALUES (
+            NEW.contractor_id,
+            'contractor',
+            NEW.job_id,
+            NEW.bid_id,
+            NEW.id,
+            'release',
+            NEW.contractor_payout,
+            'Payment released from escrow',
+            NEW.stripe_transfer_id
+        )
+        ON CONFLICT (type, stripe_id) DO NOTHING;
+
+        UPDATE homeowner_jobs
+        SET payment_status = 'released'
+        WHERE id = NEW.job_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Only the service role (webhook route) reads and writes events.
+
+ALTER TABLE stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view Stripe webhook events" ON stripe_webhook_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- 5. CREATE TRIGGER FOR UPDATED_AT
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_stripe_webhook_events_updated_at BEFORE UPDATE ON stripe_webhook_events
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- 6. ADD COMMENTS
+-- -----------------------------------------------------------------------------
+
+COMMENT ON TABLE stripe_webhook_events IS 'Verified Stripe webhook events, used for dedup and replay';
+COMMENT ON COLUMN stripe_webhook_events.status IS 'received, processed, ignored (unhandled type) or failed (will be retried)';
+COMMENT ON COLUMN payment_holds.status_before_dispute IS 'Status to restore when a dispute is closed in our favour';
+COMMENT ON COLUMN payment_holds.last_stripe_event_at IS 'created timestamp of the last Stripe event applied to this hold';
+
+SELECT 'Stripe webhook events table created successfully!' as status;
@@ -0,0 +1,177 @@
+-- =============================================================================
+-- PAYMENT DISPUTES
+-- Either party can open a dispute on a payment hold when they disagree about
+-- job completion. An open dispute freezes automatic release until an admin
+-- resolves it as a full release, a split, or a refund.
+-- =============================================================================
+
+-- 1. CREATE PAYMENT_DISPUTES TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS payment_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_hold_id UUID NOT NULL REFERENCES payment_holds(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES homeowner_jobs(id) ON DELETE SET NULL,
+  homeowner_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  contractor_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  opened_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  opened_by_role TEXT CHECK (opened_by_role IN ('homeowner', 'contractor')) NOT NULL,
+  reason TEXT CHECK (reason IN (
+    'work_incomplete', 'poor_quality', 'no_show', 'damage', 'payment_not_confirmed', 'other'
+  )) NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT CHECK (status IN ('open', 'under_review', 'resolved', 'cancelled')) DEFAULT 'open',
+
+  -- Resolution
+  resolution TEXT CHECK (resolution IN ('release', 'split', 'refund')),
+  contractor_amount DECIMAL(10,2), -- Portion of the hold kept for the contractor (split)
+  refund_amount DECIMAL(10,2), -- Portion returned to the homeowner
+  resolution_rationale TEXT,
+  resolved_by UUID REFERENCES user_profiles(id),
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only one active dispute per payment hold
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_disputes_one_active
+  ON payment_disputes(payment_hold_id)
+  WHERE status IN ('open', 'under_review');
+
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_status ON payment_disputes(status);
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_homeowner ON payment_disputes(homeowner_id);
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_contractor ON payment_disputes(contractor_id);
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_created ON payment_disputes(created_at DESC);
+
+-- 2. CREATE DISPUTE_EVIDENCE TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dispute_evidence (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES payment_disputes(id) ON DELETE CASCADE,
+  submitted_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  evidence_type TEXT CHECK (evidence_type IN ('photo', 'message', 'note')) NOT NULL,
+  file_url TEXT, -- photo: object path in the dispute-evidence bucket
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL, -- message from the job conversation
+  content TEXT, -- note text, or a snapshot of the message content
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_evidence_dispute ON dispute_evidence(dispute_id);
+
+-- 3. FREEZE AUTO-RELEASE WHILE A DISPUTE IS OPEN
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE payment_holds
+ADD COLUMN IF NOT EXISTS escrow_frozen BOOLEAN DEFAULT false,
+ADD COLUMN IF NOT EXISTS active_dispute_id UUID REFERENCES payment_disputes(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION check_auto_release_payment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.homeowner_confirmed_complete = true
+       AND NEW.contractor_confirmed_complete = true
+       AND NEW.status = 'captured'
+       AND COALESCE(NEW.escrow_frozen, false) = false
+       AND (OLD.homeowner_confirmed_complete = false OR OLD.contractor_confirmed_complete = false)
+    THEN
+        NEW.status = 'released';
+        NEW.released_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 4. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE payment_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_evidence ENABLE ROW LEVEL SECURITY;
+
+-- Parties can view their disputes (writes go through /api/disputes)
+CREATE POLICY "Parties can view their disputes" ON payment_disputes
+  FOR SELECT USING (auth.uid() = homeowner_id OR auth.uid() = contractor_id);
+
+CREATE POLICY "Admins can view all disputes" ON payment_disputes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Parties can view dispute evidence" ON dispute_evidence
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM payment_disputes d
+      WHERE d.id = dispute_id
+        AND (auth.uid() = d.homeowner_id OR auth.uid() = d.contractor_id)
+    )
+  );
+
+CREATE POLICY "Admins can view all dispute evidence" ON dispute_evidence
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- 5. CREATE STORAGE BUCKET FOR EVIDENCE PHOTOS
+-- -----------------------------------------------------------------------------
+
+-- Private: files are stored as <uploader id>/<dispute id>/<file> and served
+-- through signed URLs from /api/disputes/[id]
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('dispute-evidence', 'dispute-evidence', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Users can upload their own dispute evidence" ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'dispute-evidence' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Parties can view dispute evidence files" ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'dispute-evidence' AND
+    EXISTS (
+      SELECT 1 FROM payment_disputes d
+      WHERE d.id::text = (storage.foldername(name))[2]
+        AND (auth.uid() = d.homeowner_id OR auth.uid() = d.contractor_id)
+    )
+  );
+
+CREATE POLICY "Admins can view dispute evidence files" ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'dispute-evidence' AND
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- 6. CREATE TRIGGER FOR UPDATED_AT
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_payment_disputes_updated_at BEFORE UPDATE ON payment_disputes
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- 7. GRANT PERMISSIONS
+-- -----------------------------------------------------------------------------
+
+GRANT SELECT ON payment_disputes TO authenticated;
+GRANT SELECT ON dispute_evidence TO authenticated;
+
+-- 8. ADD COMMENTS
+-- -----------------------------------------------------------------------------
+
+COMMENT ON TABLE payment_disputes IS 'Completion disputes on escrowed payments, adjudicated by admins';
+COMMENT ON COLUMN payment_disputes.resolution IS 'release: full payout to contractor, split: partial refund + payout, refund: full refund to homeowner';
+COMMENT ON COLUMN payment_holds.escrow_frozen IS 'When true, payment is not released automatically (open dispute)';
+
+SELECT 'Payment disputes system created successfully!' as status;
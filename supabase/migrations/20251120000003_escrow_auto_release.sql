@@ -0,0 +1,76 @@
+-- =============================================================================
+-- ESCROW AUTO-RELEASE
+-- When the contractor confirms completion but the homeowner never does, the
+-- /api/cron/escrow-auto-release job reminds the homeowner and, after a grace
+-- window, auto-confirms and releases the payment. Every automatic action is
+-- written to escrow_audit_log.
+-- =============================================================================
+
+-- 1. TRACK REMINDERS AND AUTO-CONFIRMATION ON PAYMENT_HOLDS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE payment_holds
+ADD COLUMN IF NOT EXISTS auto_release_reminders_sent INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_auto_release_reminder_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS homeowner_auto_confirmed BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_payment_holds_awaiting_homeowner
+  ON payment_holds(contractor_confirmed_at)
+  WHERE status = 'captured'
+    AND contractor_confirmed_complete = true
+    AND homeowner_confirmed_complete = false;
+
+-- 2. CREATE ESCROW_AUDIT_LOG TABLE
+-- -----------------------------------------------------------------------------
+-- Append-only: rows are never updated or deleted.
+
+CREATE TABLE IF NOT EXISTS escrow_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_hold_id UUID NOT NULL REFERENCES payment_holds(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES homeowner_jobs(id) ON DELETE SET NULL,
+  action TEXT CHECK (action IN (
+    'reminder_sent',
+    'auto_confirmed',
+    'auto_released',
+    'release_failed',
+    'skipped_dispute'
+  )) NOT NULL,
+  actor TEXT NOT NULL DEFAULT 'system',
+  details JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_escrow_audit_log_hold ON escrow_audit_log(payment_hold_id);
+CREATE INDEX IF NOT EXISTS idx_escrow_audit_log_created ON escrow_audit_log(created_at DESC);
+
+-- 3. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE escrow_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parties can view escrow audit log" ON escrow_audit_log
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM payment_holds h
+      WHERE h.id = payment_hold_id
+        AND (auth.uid() = h.homeowner_id OR auth.uid() = h.contractor_id)
+    )
+  );
+
+CREATE POLICY "Admins can view escrow audit log" ON escrow_audit_log
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+GRANT SELECT ON escrow_audit_log TO authenticated;
+
+-- 4. ADD COMMENTS
+-- -----------------------------------------------------------------------------
+
+COMMENT ON TABLE escrow_audit_log IS 'Append-only trail of automatic escrow actions (reminders, auto-confirm, auto-release)';
+COMMENT ON COLUMN payment_holds.homeowner_auto_confirmed IS 'True when homeowner confirmation was set by the auto-release job';
+
+SELECT 'Escrow auto-release tracking created successfully!' as status;
@@ -0,0 +1,154 @@
+-- =============================================================================
+-- BID LIFECYCLE
+-- Adds the 'expired' bid status and makes accept_job_bid() the single atomic
+-- path for accepting a bid: it locks the job, checks that the caller owns it,
+-- that the bid is still pending and that no other bid was accepted, then
+-- accepts the bid, rejects the competing ones and moves the job to
+-- in_progress. Transition rules are mirrored in lib/bidLifecycle.ts, and
+-- clients can no longer update bid status directly.
+-- =============================================================================
+
+-- 1. ALLOW 'expired' BIDS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE job_bids DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE job_bids ADD CONSTRAINT valid_status
+  CHECK (status IN ('pending', 'accepted', 'rejected', 'withdrawn', 'expired'));
+
+COMMENT ON COLUMN job_bids.status IS 'Bid status: pending, accepted, rejected, withdrawn, expired';
+
+-- 2. ATOMIC ACCEPT
+-- -----------------------------------------------------------------------------
+-- Errors use standard SQLSTATEs so callers can map them:
+--   P0002 (no_data_found)                  -> 404
+--   42501 (insufficient_privilege)         -> 403
+--   55000 (object_not_in_prerequisite_state) -> 409
+
+CREATE OR REPLACE FUNCTION accept_job_bid(
+  p_bid_id UUID,
+  p_homeowner_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_job_id UUID;
+  v_contractor_id UUID;
+  v_bid_amount DECIMAL(10,2);
+  v_bid_status TEXT;
+  v_job_homeowner_id UUID;
+  v_job_status TEXT;
+  v_job_title TEXT;
+  v_conversation_id UUID;
+BEGIN
+  SELECT job_id, contractor_id, bid_amount, status
+  INTO v_job_id, v_contractor_id, v_bid_amount, v_bid_status
+  FROM job_bids
+  WHERE id = p_bid_id;
+
+  IF v_job_id IS NULL THEN
+    RAISE EXCEPTION 'Bid not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the job so concurrent accepts serialize
+  SELECT homeowner_id, status, title
+  INTO v_job_homeowner_id, v_job_status, v_job_title
+  FROM homeowner_jobs
+  WHERE id = v_job_id
+  FOR UPDATE;
+
+  IF v_job_homeowner_id IS DISTINCT FROM p_homeowner_id THEN
+    RAISE EXCEPTION 'Only the homeowner who posted this job can accept bids' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_job_status NOT IN ('pending', 'bidding', 'bid_received') THEN
+    RAISE EXCEPTION 'Cannot accept a bid on a job with status: %', v_job_status USING ERRCODE = '55000';
+  END IF;
+
+  -- Re-read the bid under the job lock
+  SELECT status INTO v_bid_status FROM job_bids WHERE id = p_bid_id FOR UPDATE;
+
+  IF v_bid_status != 'pending' THEN
+    RAISE EXCEPTION 'Cannot accept a bid with status: %', v_bid_status USING ERRCODE = '55000';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM job_bids WHERE job_id = v_job_id AND status = 'accepted') THEN
+    RAISE EXCEPTION 'Another bid has already been accepted for this job' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE job_bids
+  SET
+    status = 'accepted',
+    accepted_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_bid_id;
+
+  -- Competing bids are rejected (on_bid_status_change notifies their contractors)
+  UPDATE job_bids
+  SET
+    status = 'rejected',
+    updated_at = NOW()
+  WHERE job_id = v_job_id AND id != p_bid_id AND status = 'pending';
+
+  UPDATE homeowner_jobs
+  SET
+    status = 'in_progress',
+    accepted_bid_id = p_bid_id,
+    contractor_id = v_contractor_id,
+    final_cost = v_bid_amount,
+    updated_at = NOW()
+  WHERE id = v_job_id;
+
+  INSERT INTO conversations (
+    homeowner_id,
+    pro_id,
+    job_id,
+    title,
+    status,
+    created_at,
+    updated_at
+  ) VALUES (
+    p_homeowner_id,
+    v_contractor_id,
+    v_job_id::TEXT,
+    v_job_title,
+    'active',
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (homeowner_id, pro_id, job_id) DO NOTHING
+  RETURNING id INTO v_conversation_id;
+
+  IF v_conversation_id IS NOT NULL THEN
+    INSERT INTO messages (
+      conversation_id,
+      sender_id,
+      message_type,
+      content,
+      created_at
+    ) VALUES (
+      v_conversation_id,
+      NULL, -- System message
+      'system',
+      'Bid accepted for "' || v_job_title || '". You can now communicate directly about the project details.',
+      NOW()
+    );
+  END IF;
+END;
+$$;
+
+-- p_homeowner_id is trusted, so only the server (service role) may call it;
+-- /api/bids/accept passes the authenticated user
+REVOKE EXECUTE ON FUNCTION accept_job_bid(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION accept_job_bid IS 'Atomically accept a pending bid, reject competing bids, start the job and open a conversation';
+
+-- 3. BID STATUS IS WRITTEN BY THE SERVER ONLY
+-- -----------------------------------------------------------------------------
+-- Accept, reject, withdraw and expire go through /api/bids/* and
+-- lib/bidLifecycle.ts; direct updates would skip the transition rules.
+
+DROP POLICY IF EXISTS "Contractors can update own bids" ON job_bids;
+DROP POLICY IF EXISTS "Homeowners can update bid status" ON job_bids;
+
+SELECT 'Bid lifecycle created successfully!' as status;
@@ -0,0 +1,33 @@
+-- =============================================================================
+-- ITEMIZED CONTRACTOR BIDS
+-- Contractors submit bids through /api/bids/submit with labor / parts /
+-- diagnostic lines, an ETA and a validity window. Labor and diagnostic lines
+-- are priced from the contractor's pro_contractors.peak_rate / surge_rate /
+-- diagnostic_fee unless the contractor overrides them. Pending bids past
+-- valid_until are expired by /api/cron/expire-bids.
+-- =============================================================================
+
+-- 1. ADD BID DETAIL COLUMNS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE job_bids
+ADD COLUMN IF NOT EXISTS line_items JSONB DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS eta_minutes INTEGER,
+ADD COLUMN IF NOT EXISTS valid_until TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS expired_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_job_bids_pending_valid_until
+  ON job_bids(valid_until)
+  WHERE status = 'pending';
+
+-- 2. ADD COMMENTS
+-- -----------------------------------------------------------------------------
+
+COMMENT ON COLUMN job_bids.line_items IS 'Itemized bid: [{kind: labor|parts|diagnostic, description, quantity, unit_price, rate_type?: peak|surge}]';
+COMMENT ON COLUMN job_bids.eta_minutes IS 'Minutes until the contractor can be on site';
+COMMENT ON COLUMN job_bids.valid_until IS 'Pending bid expires after this time';
+COMMENT ON COLUMN job_bids.withdrawn_at IS 'When the contractor withdrew the bid';
+COMMENT ON COLUMN job_bids.expired_at IS 'When the bid was expired for passing valid_until';
+
+SELECT 'Itemized bids created successfully!' as status;
@@ -0,0 +1,62 @@
+-- =============================================================================
+-- QUICK-BID TEMPLATES
+-- Contractors save reusable bid text and prices per service category. Bodies
+-- may contain {homeowner_name}, {job_title} and {distance_miles}, filled in
+-- by /api/bid-templates/[id]/apply when a template is used on a job.
+-- =============================================================================
+
+-- 1. CREATE BID_TEMPLATES TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS bid_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contractor_id UUID NOT NULL REFERENCES pro_contractors(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  body TEXT NOT NULL,
+  default_price NUMERIC(10, 2) CHECK (default_price IS NULL OR default_price >= 0),
+  is_default BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bid_templates_contractor ON bid_templates(contractor_id, category);
+
+-- One default template per contractor per category (categories compare
+-- case-insensitively, as /api/bid-templates does)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bid_templates_one_default
+  ON bid_templates(contractor_id, lower(category))
+  WHERE is_default = true;
+
+DROP TRIGGER IF EXISTS update_bid_templates_updated_at ON bid_templates;
+CREATE TRIGGER update_bid_templates_updated_at
+  BEFORE UPDATE ON bid_templates
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- 2. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE bid_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contractors can view own bid templates" ON bid_templates
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+CREATE POLICY "Contractors can insert own bid templates" ON bid_templates
+  FOR INSERT WITH CHECK (auth.uid() = contractor_id);
+
+CREATE POLICY "Contractors can update own bid templates" ON bid_templates
+  FOR UPDATE USING (auth.uid() = contractor_id);
+
+CREATE POLICY "Contractors can delete own bid templates" ON bid_templates
+  FOR DELETE USING (auth.uid() = contractor_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON bid_templates TO authenticated;
+
+-- 3. ADD COMMENTS
+-- -----------------------------------------------------------------------------
+
+COMMENT ON TABLE bid_templates IS 'Contractor quick-bid templates with placeholder variables';
+COMMENT ON COLUMN bid_templates.body IS 'Bid message; supports {homeowner_name}, {job_title}, {distance_miles}';
+COMMENT ON COLUMN bid_templates.is_default IS 'Applied automatically when quick-bidding on a job in this category';
+
+SELECT 'Bid templates created successfully!' as status;
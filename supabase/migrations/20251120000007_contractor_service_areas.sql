@@ -0,0 +1,141 @@
+-- =============================================================================
+-- CONTRACTOR SERVICE AREAS
+-- A contractor's service area is the union of an explicit ZIP list, a radius
+-- around base_zip (or the geocoded latitude/longitude) and polygons drawn on
+-- the coverage map, plus an optional travel fee. /api/service-area resolves
+-- the radius and polygons against the ZCTA dataset into coverage_zips so the
+-- whole area can be matched by ZIP; service_area_covers() is the single check
+-- used by job matching. The same rules live in lib/serviceArea.ts.
+-- =============================================================================
+
+-- 1. SERVICE AREA COLUMNS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE pro_contractors
+  ADD COLUMN IF NOT EXISTS service_area_polygons JSONB,
+  ADD COLUMN IF NOT EXISTS travel_fee NUMERIC(10, 2) CHECK (travel_fee IS NULL OR travel_fee >= 0),
+  ADD COLUMN IF NOT EXISTS coverage_zips TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS coverage_resolved_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_pro_contractors_coverage_zips
+  ON pro_contractors USING GIN (coverage_zips);
+
+COMMENT ON COLUMN pro_contractors.service_area_polygons IS 'GeoJSON FeatureCollection of polygons drawn on the coverage map';
+COMMENT ON COLUMN pro_contractors.travel_fee IS 'Flat fee added for travel to a job inside the service area';
+COMMENT ON COLUMN pro_contractors.coverage_zips IS 'Every ZIP in the service area: explicit ZIPs, base ZIP and ZCTAs inside the radius or polygons';
+COMMENT ON COLUMN pro_contractors.coverage_resolved_at IS 'When coverage_zips was last resolved against the ZCTA dataset';
+
+-- Existing contractors start with their explicit ZIPs as coverage
+UPDATE pro_contractors
+SET coverage_zips = ARRAY(
+  SELECT DISTINCT z
+  FROM unnest(COALESCE(service_area_zips, '{}') || ARRAY[base_zip]) AS z
+  WHERE z IS NOT NULL AND z <> ''
+)
+WHERE coverage_zips IS NULL OR coverage_zips = '{}';
+
+-- 2. COVERAGE CHECK
+-- -----------------------------------------------------------------------------
+-- True when any of the job's ZIPs is in the contractor's coverage, or the job's
+-- coordinates are within service_radius_miles of the contractor's location.
+
+CREATE OR REPLACE FUNCTION service_area_covers(
+  pc pro_contractors,
+  p_zips TEXT[],
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_distance DOUBLE PRECISION;
+BEGIN
+  IF p_zips && (
+    COALESCE(pc.coverage_zips, '{}')
+    || COALESCE(pc.service_area_zips, '{}')
+    || ARRAY[pc.base_zip]
+  ) THEN
+    RETURN true;
+  END IF;
+
+  IF p_latitude IS NULL OR p_longitude IS NULL
+     OR pc.latitude IS NULL OR pc.longitude IS NULL
+     OR COALESCE(pc.service_radius_miles, 0) <= 0 THEN
+    RETURN false;
+  END IF;
+
+  -- Haversine distance in miles
+  v_distance := 3959 * 2 * asin(sqrt(
+    power(sin(radians(p_latitude - pc.latitude) / 2), 2)
+    + cos(radians(pc.latitude)) * cos(radians(p_latitude))
+      * power(sin(radians(p_longitude - pc.longitude) / 2), 2)
+  ));
+
+  RETURN v_distance <= pc.service_radius_miles;
+END;
+$$;
+
+COMMENT ON FUNCTION service_area_covers IS 'Whether a contractor''s service area covers a job location (ZIPs and/or coordinates)';
+
+-- 3. MATCH NEW JOBS AGAINST SERVICE AREAS
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION notify_contractors_new_job()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_matching_contractor RECORD;
+    v_homeowner_name TEXT;
+BEGIN
+    -- Only trigger for new jobs in 'pending' or 'bidding' status
+    IF NEW.status IN ('pending', 'bidding') AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('pending', 'bidding')) THEN
+
+        -- Get homeowner name
+        SELECT name INTO v_homeowner_name
+        FROM user_profiles
+        WHERE id = NEW.homeowner_id;
+
+        -- Find contractors whose service area covers the job and match the category
+        FOR v_matching_contractor IN
+            SELECT DISTINCT pc.id, COALESCE(pc.business_name, pc.name) as contractor_name
+            FROM pro_contractors pc
+            WHERE pc.status = 'approved'
+            AND pc.kyc_status = 'completed'
+            AND service_area_covers(
+                pc,
+                ARRAY_REMOVE(ARRAY[NEW.location_zip, NEW.zip_code], NULL),
+                NEW.latitude,
+                NEW.longitude
+            )
+            AND (
+                -- Check if job category matches contractor's categories
+                NEW.category = ANY(pc.categories)
+                OR pc.categories IS NULL
+                OR array_length(pc.categories, 1) IS NULL
+            )
+            LIMIT 50 -- Don't spam too many contractors
+        LOOP
+            -- Create notification for each matching contractor
+            INSERT INTO notifications (
+                user_id,
+                type,
+                title,
+                message,
+                job_id
+            ) VALUES (
+                v_matching_contractor.id,
+                'new_job_posted',
+                '💼 New Job in Your Area',
+                v_homeowner_name || ' posted a ' || COALESCE(NEW.category, 'job') || ' job: "' || NEW.title || '"',
+                NEW.id
+            );
+        END LOOP;
+
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Contractor service areas created successfully!' as status;
@@ -0,0 +1,61 @@
+-- =============================================================================
+-- JOB MATCHING
+-- New jobs are matched to contractors by lib/jobMatching.ts instead of the
+-- notify_contractors_new_job() trigger: contractors are scored on category,
+-- service-area coverage, availability, emergency flags, distance, KYC and
+-- rating, and the top matches are notified in-app, by email and by SMS
+-- according to their job alert preferences. Every decision is logged in
+-- job_match_log for debugging.
+-- =============================================================================
+
+-- 1. JOB ALERT PREFERENCES
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE pro_contractors
+  ADD COLUMN IF NOT EXISTS job_alert_preferences JSONB
+    DEFAULT '{"in_app": true, "email": true, "sms": false, "emergency_only": false}'::jsonb;
+
+COMMENT ON COLUMN pro_contractors.job_alert_preferences IS 'New-job alert channels: in_app, email, sms; emergency_only limits alerts to emergency jobs';
+
+-- 2. CREATE JOB_MATCH_LOG TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS job_match_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES homeowner_jobs(id) ON DELETE CASCADE,
+  contractor_id UUID NOT NULL REFERENCES pro_contractors(id) ON DELETE CASCADE,
+  eligible BOOLEAN NOT NULL,
+  score NUMERIC(6, 2),
+  rank INTEGER,
+  score_breakdown JSONB DEFAULT '{}'::jsonb,
+  reject_reason TEXT,
+  notified_channels TEXT[] DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_match_log_job ON job_match_log(job_id, rank);
+CREATE INDEX IF NOT EXISTS idx_job_match_log_contractor ON job_match_log(contractor_id, created_at DESC);
+
+COMMENT ON TABLE job_match_log IS 'One row per contractor evaluated when a job was matched';
+COMMENT ON COLUMN job_match_log.rank IS 'Position among eligible contractors (1 = best); NULL when not eligible';
+COMMENT ON COLUMN job_match_log.notified_channels IS 'Channels the contractor was alerted on: in_app, email, sms';
+
+-- 3. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Written by the service role only
+
+ALTER TABLE job_match_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view job match log" ON job_match_log
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- 4. RETIRE THE SQL FAN-OUT
+-- -----------------------------------------------------------------------------
+-- The matcher sends the in-app notifications; keeping the trigger would alert
+-- contractors twice.
+
+DROP TRIGGER IF EXISTS on_new_job_notify_contractors ON homeowner_jobs;
+
+SELECT 'Job matching created successfully!' as status;
@@ -0,0 +1,104 @@
+-- =============================================================================
+-- EMERGENCY DISPATCH CASCADE
+-- Emergency jobs are offered ring by ring instead of broadcast: the best
+-- matched contractors get an offer with an acknowledgement window; if nobody
+-- accepts in time the next ring goes out with a wider radius and surge
+-- pricing. The first contractor to accept is assigned and the cascade stops.
+-- Driven by lib/emergencyDispatch.ts and /api/cron/emergency-dispatch.
+-- =============================================================================
+
+-- 1. CREATE EMERGENCY_DISPATCHES TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS emergency_dispatches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL UNIQUE REFERENCES homeowner_jobs(id) ON DELETE CASCADE,
+  homeowner_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'searching'
+    CHECK (status IN ('searching', 'accepted', 'exhausted', 'cancelled')),
+  current_ring INTEGER NOT NULL DEFAULT 0,
+  current_radius_miles NUMERIC(6, 1),
+  ring_started_at TIMESTAMPTZ,
+  next_escalation_at TIMESTAMPTZ,
+  accepted_contractor_id UUID REFERENCES pro_contractors(id),
+  accepted_offer_id UUID,
+  accepted_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_dispatches_due
+  ON emergency_dispatches(next_escalation_at)
+  WHERE status = 'searching';
+
+DROP TRIGGER IF EXISTS update_emergency_dispatches_updated_at ON emergency_dispatches;
+CREATE TRIGGER update_emergency_dispatches_updated_at
+  BEFORE UPDATE ON emergency_dispatches
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE emergency_dispatches IS 'Dispatch cascade state for an emergency job';
+COMMENT ON COLUMN emergency_dispatches.current_ring IS 'Ring currently being offered (1 = closest / best matched)';
+COMMENT ON COLUMN emergency_dispatches.next_escalation_at IS 'When the current ring''s acknowledgement window closes';
+
+-- 2. CREATE DISPATCH_OFFERS TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dispatch_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispatch_id UUID NOT NULL REFERENCES emergency_dispatches(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES homeowner_jobs(id) ON DELETE CASCADE,
+  contractor_id UUID NOT NULL REFERENCES pro_contractors(id) ON DELETE CASCADE,
+  ring INTEGER NOT NULL,
+  score NUMERIC(6, 2),
+  distance_miles NUMERIC(6, 1),
+  rate_type TEXT NOT NULL DEFAULT 'peak' CHECK (rate_type IN ('peak', 'surge')),
+  hourly_rate NUMERIC(10, 2),
+  status TEXT NOT NULL DEFAULT 'offered'
+    CHECK (status IN ('offered', 'accepted', 'declined', 'expired', 'superseded')),
+  offered_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (dispatch_id, contractor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispatch_offers_contractor
+  ON dispatch_offers(contractor_id, status);
+CREATE INDEX IF NOT EXISTS idx_dispatch_offers_dispatch
+  ON dispatch_offers(dispatch_id, ring);
+
+COMMENT ON TABLE dispatch_offers IS 'One offer of an emergency job to a contractor within a dispatch ring';
+COMMENT ON COLUMN dispatch_offers.rate_type IS 'peak for the first ring, surge (surge_rate) once the cascade escalates';
+
+-- 3. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Written by the service role only
+
+ALTER TABLE emergency_dispatches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispatch_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Homeowners can view own dispatches" ON emergency_dispatches
+  FOR SELECT USING (auth.uid() = homeowner_id);
+
+CREATE POLICY "Admins can view all dispatches" ON emergency_dispatches
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Contractors can view own dispatch offers" ON dispatch_offers
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+CREATE POLICY "Admins can view all dispatch offers" ON dispatch_offers
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- 4. REALTIME
+-- -----------------------------------------------------------------------------
+-- The track page follows the dispatch live; contractors see new offers
+
+ALTER PUBLICATION supabase_realtime ADD TABLE emergency_dispatches;
+ALTER PUBLICATION supabase_realtime ADD TABLE dispatch_offers;
+
+SELECT 'Emergency dispatch created successfully!' as status;
@@ -0,0 +1,219 @@
+-- =============================================================================
+-- RATINGS AND REVIEWS
+-- Once the escrowed payment for a job is released, the homeowner and the
+-- contractor can each leave one review of the other: an overall rating,
+-- punctuality / quality / communication sub-scores, a comment and photos.
+-- The contractor can post a single public reply to a review they received.
+-- Aggregates are recomputed into pro_contractors.rating, user_profiles
+-- (homeowner side) and trusted_contractors.average_rating on every change.
+-- =============================================================================
+
+-- 1. CREATE REVIEWS TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES homeowner_jobs(id) ON DELETE CASCADE,
+  payment_hold_id UUID REFERENCES payment_holds(id) ON DELETE SET NULL,
+  homeowner_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  contractor_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  reviewer_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  reviewee_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+  reviewer_role TEXT CHECK (reviewer_role IN ('homeowner', 'contractor')) NOT NULL,
+
+  -- Scores
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  punctuality_rating INTEGER CHECK (punctuality_rating BETWEEN 1 AND 5),
+  quality_rating INTEGER CHECK (quality_rating BETWEEN 1 AND 5),
+  communication_rating INTEGER CHECK (communication_rating BETWEEN 1 AND 5),
+
+  -- Content
+  comment TEXT,
+  photos TEXT[] DEFAULT '{}',
+
+  -- Contractor's public reply (homeowner reviews only, set once)
+  reply TEXT,
+  replied_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(job_id, reviewer_id),
+  CHECK (reviewer_id <> reviewee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewee ON reviews(reviewee_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_contractor ON reviews(contractor_id, reviewer_role);
+CREATE INDEX IF NOT EXISTS idx_reviews_job ON reviews(job_id);
+
+COMMENT ON TABLE reviews IS 'Two-sided reviews between the homeowner and contractor of a job whose payment was released';
+COMMENT ON COLUMN reviews.reviewer_role IS 'homeowner: review of the contractor, contractor: review of the homeowner';
+COMMENT ON COLUMN reviews.reply IS 'Single public reply by the contractor to a homeowner review';
+
+-- 2. AGGREGATE COLUMNS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE pro_contractors
+  ADD COLUMN IF NOT EXISTS rating DECIMAL(3,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_reviews INTEGER DEFAULT 0;
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS homeowner_rating DECIMAL(3,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS homeowner_review_count INTEGER DEFAULT 0;
+
+COMMENT ON COLUMN pro_contractors.total_reviews IS 'Number of homeowner reviews; rating is their average';
+COMMENT ON COLUMN user_profiles.homeowner_rating IS 'Average rating contractors gave this user as a homeowner';
+
+-- 3. RECOMPUTE AGGREGATES
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION recompute_review_aggregates(
+  p_homeowner_id UUID,
+  p_contractor_id UUID
+)
+RETURNS VOID AS $$
+BEGIN
+  -- Contractor rating from every homeowner review
+  UPDATE pro_contractors
+  SET
+    rating = COALESCE((
+      SELECT ROUND(AVG(rating)::numeric, 2) FROM reviews
+      WHERE contractor_id = p_contractor_id AND reviewer_role = 'homeowner'
+    ), 0),
+    total_reviews = (
+      SELECT COUNT(*) FROM reviews
+      WHERE contractor_id = p_contractor_id AND reviewer_role = 'homeowner'
+    )
+  WHERE id = p_contractor_id;
+
+  -- Homeowner rating from every contractor review
+  UPDATE user_profiles
+  SET
+    homeowner_rating = COALESCE((
+      SELECT ROUND(AVG(rating)::numeric, 2) FROM reviews
+      WHERE homeowner_id = p_homeowner_id AND reviewer_role = 'contractor'
+    ), 0),
+    homeowner_review_count = (
+      SELECT COUNT(*) FROM reviews
+      WHERE homeowner_id = p_homeowner_id AND reviewer_role = 'contractor'
+    )
+  WHERE id = p_homeowner_id;
+
+  -- This homeowner's own average for the contractor
+  UPDATE trusted_contractors
+  SET average_rating = COALESCE((
+    SELECT ROUND(AVG(rating)::numeric, 2) FROM reviews
+    WHERE homeowner_id = p_homeowner_id
+      AND contractor_id = p_contractor_id
+      AND reviewer_role = 'homeowner'
+  ), 0)
+  WHERE homeowner_id = p_homeowner_id AND contractor_id = p_contractor_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION handle_review_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM recompute_review_aggregates(OLD.homeowner_id, OLD.contractor_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM recompute_review_aggregates(NEW.homeowner_id, NEW.contractor_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_review_change_recompute ON reviews;
+CREATE TRIGGER on_review_change_recompute
+  AFTER INSERT OR DELETE OR UPDATE OF rating ON reviews
+  FOR EACH ROW EXECUTE FUNCTION handle_review_change();
+
+-- 4. REVIEW RECEIVED NOTIFICATION
+-- -----------------------------------------------------------------------------
+-- Replaces the contractor-only version from 20251111000006: reviews now go
+-- both ways, so the reviewee is notified.
+
+CREATE OR REPLACE FUNCTION notify_review_received()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_reviewer_name TEXT;
+BEGIN
+    SELECT name INTO v_reviewer_name
+    FROM user_profiles
+    WHERE id = NEW.reviewer_id;
+
+    INSERT INTO notifications (
+        user_id,
+        type,
+        title,
+        message,
+        job_id,
+        link
+    ) VALUES (
+        NEW.reviewee_id,
+        'review_received',
+        '⭐ New Review',
+        COALESCE(v_reviewer_name, 'Someone') || ' left you a ' || NEW.rating || '-star review!' ||
+        CASE WHEN NEW.rating >= 4 THEN ' Great job!' ELSE '' END,
+        NEW.job_id,
+        CASE WHEN NEW.reviewer_role = 'homeowner'
+          THEN '/contractors/' || NEW.contractor_id
+          ELSE NULL
+        END
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_review_created ON reviews;
+CREATE TRIGGER on_review_created
+  AFTER INSERT ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_review_received();
+
+-- 5. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Writes go through /api/reviews
+
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Contractor reviews are public" ON reviews
+  FOR SELECT USING (reviewer_role = 'homeowner');
+
+CREATE POLICY "Parties can view their reviews" ON reviews
+  FOR SELECT USING (auth.uid() = homeowner_id OR auth.uid() = contractor_id);
+
+CREATE POLICY "Admins can view all reviews" ON reviews
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+GRANT SELECT ON reviews TO anon, authenticated;
+
+-- 6. CREATE STORAGE BUCKET FOR REVIEW PHOTOS
+-- -----------------------------------------------------------------------------
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own review photos" ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'review-photos' AND
+    (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Review photos are readable" ON storage.objects
+  FOR SELECT
+  USING (bucket_id = 'review-photos');
+
+-- 7. CREATE TRIGGER FOR UPDATED_AT
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+SELECT 'Reviews system created successfully!' as status;
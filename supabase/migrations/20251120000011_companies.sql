@@ -0,0 +1,201 @@
+-- =============================================================================
+-- COMPANIES AND CREWS
+-- A company account groups several contractor users under one business.
+-- The owner invites contractors by email; they join once they accept.
+-- Members have a role: the owner manages the roster, dispatchers and the
+-- owner assign jobs won by any member to a specific technician, and techs
+-- work the jobs assigned to them. The Teams page reads the crew's jobs,
+-- locations and availability through these tables in realtime.
+-- =============================================================================
+
+-- 1. CREATE COMPANIES TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS companies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES pro_contractors(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_companies_owner ON companies(owner_id);
+
+COMMENT ON TABLE companies IS 'Contractor businesses with several technician accounts';
+
+-- 2. CREATE COMPANY_MEMBERS TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS company_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES pro_contractors(id) ON DELETE CASCADE,
+  role TEXT CHECK (role IN ('owner', 'dispatcher', 'tech')) NOT NULL DEFAULT 'tech',
+  added_by UUID REFERENCES pro_contractors(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- A contractor works for one company at a time
+  UNIQUE(user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_company_members_company ON company_members(company_id, role);
+
+COMMENT ON COLUMN company_members.role IS 'owner: manages the roster, dispatcher: assigns jobs, tech: works assigned jobs';
+
+-- 3. CREATE COMPANY_INVITES TABLE
+-- -----------------------------------------------------------------------------
+-- Membership only starts when the invited contractor accepts, so an owner
+-- cannot see someone's location or lock them out of other companies by
+-- knowing their email.
+
+CREATE TABLE IF NOT EXISTS company_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES pro_contractors(id) ON DELETE CASCADE,
+  role TEXT CHECK (role IN ('dispatcher', 'tech')) NOT NULL DEFAULT 'tech',
+  status TEXT CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')) NOT NULL DEFAULT 'pending',
+  invited_by UUID REFERENCES pro_contractors(id) ON DELETE SET NULL,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open invite per contractor per company
+CREATE UNIQUE INDEX IF NOT EXISTS idx_company_invites_one_pending
+  ON company_invites(company_id, user_id)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_company_invites_user ON company_invites(user_id, status);
+
+COMMENT ON TABLE company_invites IS 'Invitations to join a company; accepted invites become company_members rows';
+
+-- 4. JOB ASSIGNMENT
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE homeowner_jobs
+  ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_tech_id UUID REFERENCES pro_contractors(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS assigned_by UUID REFERENCES pro_contractors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_homeowner_jobs_company ON homeowner_jobs(company_id, status);
+CREATE INDEX IF NOT EXISTS idx_homeowner_jobs_assigned_tech ON homeowner_jobs(assigned_tech_id);
+
+COMMENT ON COLUMN homeowner_jobs.company_id IS 'Company of the contractor who won the job';
+COMMENT ON COLUMN homeowner_jobs.assigned_tech_id IS 'Technician the company dispatched to the job';
+
+-- Stamp the company when a member's bid is accepted
+CREATE OR REPLACE FUNCTION set_job_company()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.contractor_id IS NOT NULL
+     AND NEW.contractor_id IS DISTINCT FROM OLD.contractor_id THEN
+    SELECT company_id INTO NEW.company_id
+    FROM company_members
+    WHERE user_id = NEW.contractor_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_job_contractor_set_company ON homeowner_jobs;
+CREATE TRIGGER on_job_contractor_set_company
+  BEFORE UPDATE OF contractor_id ON homeowner_jobs
+  FOR EACH ROW EXECUTE FUNCTION set_job_company();
+
+-- 5. ROLE HELPERS
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER so policies can consult company_members without recursing
+-- through its own RLS.
+
+CREATE OR REPLACE FUNCTION is_company_member(p_company_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM company_members
+    WHERE company_id = p_company_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION dispatches_for(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM company_members me
+    JOIN company_members them ON them.company_id = me.company_id
+    WHERE me.user_id = auth.uid()
+      AND me.role IN ('owner', 'dispatcher')
+      AND them.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 6. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Roster changes and assignments go through /api/teams
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE company_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their company" ON companies
+  FOR SELECT USING (is_company_member(id));
+
+CREATE POLICY "Members can view their crew" ON company_members
+  FOR SELECT USING (is_company_member(company_id));
+
+CREATE POLICY "Contractors can view their invites" ON company_invites
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Members can view their company's invites" ON company_invites
+  FOR SELECT USING (is_company_member(company_id));
+
+CREATE POLICY "Admins can view all companies" ON companies
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can view all company members" ON company_members
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- Dispatchers follow their crew's jobs and locations; techs only see the
+-- jobs assigned to them (below)
+CREATE POLICY "Dispatchers can view crew jobs" ON homeowner_jobs
+  FOR SELECT USING (
+    dispatches_for(contractor_id) OR dispatches_for(assigned_tech_id)
+  );
+
+CREATE POLICY "Assigned techs can view their jobs" ON homeowner_jobs
+  FOR SELECT USING (assigned_tech_id = auth.uid());
+
+CREATE POLICY "Dispatchers can view crew locations" ON contractor_locations
+  FOR SELECT USING (dispatches_for(contractor_id));
+
+GRANT SELECT ON companies TO authenticated;
+GRANT SELECT ON company_members TO authenticated;
+GRANT SELECT ON company_invites TO authenticated;
+
+-- 7. REALTIME
+-- -----------------------------------------------------------------------------
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE pro_contractors;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 8. CREATE TRIGGERS FOR UPDATED_AT
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_companies_updated_at BEFORE UPDATE ON companies
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_company_members_updated_at BEFORE UPDATE ON company_members
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_company_invites_updated_at BEFORE UPDATE ON company_invites
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+SELECT 'Companies and crews created successfully!' as status;
@@ -0,0 +1,156 @@
+-- =============================================================================
+-- SUPPORT TICKETS
+-- Persisted support desk replacing the in-memory SupportMessagesAPI and the
+-- single-reply support_messages table. A ticket has a category, a priority
+-- that sets its SLA due times, a threaded conversation between the user and
+-- admins, an assigned admin, and an optional link to a job or payment hold.
+-- Status runs new -> open -> waiting (on the user) -> resolved; a user reply
+-- reopens a waiting or resolved ticket.
+-- =============================================================================
+
+-- 1. CREATE SUPPORT_TICKETS TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS support_tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT NOT NULL,
+  user_name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  category TEXT CHECK (category IN ('account', 'billing', 'job', 'payment', 'technical', 'safety', 'other')) NOT NULL DEFAULT 'other',
+  priority TEXT CHECK (priority IN ('low', 'medium', 'high', 'urgent')) NOT NULL DEFAULT 'medium',
+  status TEXT CHECK (status IN ('new', 'open', 'waiting', 'resolved')) NOT NULL DEFAULT 'new',
+
+  -- What the ticket is about
+  job_id UUID REFERENCES homeowner_jobs(id) ON DELETE SET NULL,
+  payment_hold_id UUID REFERENCES payment_holds(id) ON DELETE SET NULL,
+
+  assigned_admin_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMPTZ,
+
+  -- SLA timers, set from the priority when the ticket is opened
+  first_response_due_at TIMESTAMPTZ NOT NULL,
+  first_responded_at TIMESTAMPTZ,
+  resolution_due_at TIMESTAMPTZ NOT NULL,
+  resolved_at TIMESTAMPTZ,
+
+  last_reply_at TIMESTAMPTZ DEFAULT NOW(),
+  last_reply_role TEXT CHECK (last_reply_role IN ('user', 'admin')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_tickets_status ON support_tickets(status, priority);
+CREATE INDEX IF NOT EXISTS idx_support_tickets_user ON support_tickets(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_support_tickets_assigned ON support_tickets(assigned_admin_id) WHERE status <> 'resolved';
+CREATE INDEX IF NOT EXISTS idx_support_tickets_job ON support_tickets(job_id) WHERE job_id IS NOT NULL;
+
+COMMENT ON TABLE support_tickets IS 'Support requests from homeowners and contractors';
+COMMENT ON COLUMN support_tickets.status IS 'new: untouched, open: being worked, waiting: on the user, resolved: closed out';
+COMMENT ON COLUMN support_tickets.first_response_due_at IS 'SLA deadline for the first admin reply';
+COMMENT ON COLUMN support_tickets.resolution_due_at IS 'SLA deadline for resolving the ticket';
+
+-- 2. CREATE SUPPORT_TICKET_REPLIES TABLE
+-- -----------------------------------------------------------------------------
+-- The first reply holds the user's original message
+
+CREATE TABLE IF NOT EXISTS support_ticket_replies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES support_tickets(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_role TEXT CHECK (author_role IN ('user', 'admin')) NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_support_ticket_replies_ticket ON support_ticket_replies(ticket_id, created_at);
+
+-- 3. CARRY OVER LEGACY SUPPORT MESSAGES
+-- -----------------------------------------------------------------------------
+-- support_messages was created by COMPLETE-DATABASE-SETUP.sql on some
+-- projects; copy its rows over once if it exists.
+
+DO $$
+BEGIN
+  IF to_regclass('public.support_messages') IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM support_tickets) THEN
+
+    EXECUTE $copy$
+      INSERT INTO support_tickets (
+        id, user_id, user_email, user_name, subject, priority, status,
+        first_response_due_at, first_responded_at, resolution_due_at, resolved_at,
+        last_reply_at, last_reply_role, created_at, updated_at
+      )
+      SELECT
+        id, user_id, user_email, user_name, LEFT(message, 80), COALESCE(priority, 'medium'),
+        CASE status WHEN 'read' THEN 'open' WHEN 'responded' THEN 'waiting' WHEN 'closed' THEN 'resolved' ELSE 'new' END,
+        created_at + INTERVAL '24 hours', admin_reply_timestamp, created_at + INTERVAL '72 hours',
+        CASE WHEN status = 'closed' THEN updated_at END,
+        COALESCE(admin_reply_timestamp, created_at),
+        CASE WHEN admin_reply IS NOT NULL THEN 'admin' ELSE 'user' END,
+        created_at, updated_at
+      FROM support_messages
+    $copy$;
+
+    EXECUTE $copy$
+      INSERT INTO support_ticket_replies (ticket_id, author_id, author_role, body, created_at)
+      SELECT id, user_id, 'user', message, created_at FROM support_messages
+      UNION ALL
+      SELECT id, NULL, 'admin', admin_reply, admin_reply_timestamp
+      FROM support_messages WHERE admin_reply IS NOT NULL
+    $copy$;
+  END IF;
+END $$;
+
+-- 4. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Tickets and replies are written through /api/support/tickets
+
+ALTER TABLE support_tickets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE support_ticket_replies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own support tickets" ON support_tickets
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view replies on own tickets" ON support_ticket_replies
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM support_tickets WHERE id = ticket_id AND user_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can view all support tickets" ON support_tickets
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE POLICY "Admins can view all support ticket replies" ON support_ticket_replies
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+GRANT SELECT ON support_tickets TO authenticated;
+GRANT SELECT ON support_ticket_replies TO authenticated;
+
+-- 5. REALTIME
+-- -----------------------------------------------------------------------------
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE support_tickets;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE support_ticket_replies;
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 6. CREATE TRIGGERS FOR UPDATED_AT
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_support_tickets_updated_at BEFORE UPDATE ON support_tickets
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+SELECT 'Support tickets created successfully!' as status;
@@ -0,0 +1,194 @@
+-- =============================================================================
+-- NOTIFICATION PREFERENCES AND DELIVERY LOG
+-- Every notification goes through lib/notificationDispatcher.ts, which checks
+-- the user's preferences per event type and channel (in_app, email, sms,
+-- push) and their quiet hours before sending. notification_preferences only
+-- stores overrides of the defaults in lib/notificationPreferences.ts.
+--
+-- In-app rows that database triggers insert directly are gated here as well:
+-- a BEFORE INSERT trigger on notifications drops rows for events the user
+-- turned off in-app. Each attempt on each channel lands in
+-- notification_deliveries with the reason it was skipped or failed.
+-- =============================================================================
+
+-- 1. CREATE NOTIFICATION_PREFERENCES TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  channel TEXT CHECK (channel IN ('in_app', 'email', 'sms', 'push')) NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(user_id, event_type, channel)
+);
+
+COMMENT ON TABLE notification_preferences IS 'Per-user overrides of the default channels for each notification event';
+
+-- 2. CREATE NOTIFICATION_SETTINGS TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS notification_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Channel master switches
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  sms_enabled BOOLEAN NOT NULL DEFAULT true,
+  push_enabled BOOLEAN NOT NULL DEFAULT true,
+
+  -- SMS and push during quiet hours are skipped, not sent later; emergencies can override
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_start TIME NOT NULL DEFAULT '22:00',
+  quiet_end TIME NOT NULL DEFAULT '07:00',
+  timezone TEXT NOT NULL DEFAULT 'America/New_York',
+  emergency_override BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN notification_settings.emergency_override IS 'Emergency alerts still send SMS and push during quiet hours';
+
+-- 3. CREATE NOTIFICATION_DELIVERIES TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  channel TEXT CHECK (channel IN ('in_app', 'email', 'sms', 'push')) NOT NULL,
+  status TEXT CHECK (status IN ('queued', 'sent', 'skipped', 'failed')) NOT NULL,
+  reason TEXT,
+  emergency BOOLEAN DEFAULT false,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+  job_id UUID REFERENCES homeowner_jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user ON notification_deliveries(user_id, created_at DESC);
+
+COMMENT ON TABLE notification_deliveries IS 'Every notification attempt per channel, with why it was skipped or failed';
+COMMENT ON COLUMN notification_deliveries.status IS 'queued = handed to the outbox; the outbox worker moves it to sent, skipped or failed';
+COMMENT ON COLUMN notification_deliveries.reason IS 'Why the attempt was skipped or failed, e.g. quiet hours or no phone on file';
+
+-- 4. GATE IN-APP NOTIFICATIONS
+-- -----------------------------------------------------------------------------
+-- event_type lets one notification type (e.g. 'info') carry a finer event;
+-- it defaults to the notification type.
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS event_type TEXT;
+
+CREATE OR REPLACE FUNCTION gate_in_app_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.event_type := COALESCE(NEW.event_type, NEW.type);
+
+  IF EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = NEW.user_id
+      AND event_type = NEW.event_type
+      AND channel = 'in_app'
+      AND enabled = false
+  ) THEN
+    INSERT INTO notification_deliveries (user_id, event_type, channel, status, reason, job_id)
+    VALUES (NEW.user_id, NEW.event_type, 'in_app', 'skipped', 'Turned off in notification settings', NEW.job_id);
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION log_in_app_delivery()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_deliveries (user_id, event_type, channel, status, notification_id, job_id)
+  VALUES (NEW.user_id, NEW.event_type, 'in_app', 'sent', NEW.id, NEW.job_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_notification_gate ON notifications;
+CREATE TRIGGER on_notification_gate
+  BEFORE INSERT ON notifications
+  FOR EACH ROW EXECUTE FUNCTION gate_in_app_notification();
+
+DROP TRIGGER IF EXISTS on_notification_logged ON notifications;
+CREATE TRIGGER on_notification_logged
+  AFTER INSERT ON notifications
+  FOR EACH ROW EXECUTE FUNCTION log_in_app_delivery();
+
+-- 5. CARRY OVER EXISTING PREFERENCES
+-- -----------------------------------------------------------------------------
+
+-- New-job alert channels move from pro_contractors.job_alert_preferences;
+-- emergency_only stays there as a matching filter
+INSERT INTO notification_preferences (user_id, event_type, channel, enabled)
+SELECT pc.id, 'new_job_posted', prefs.key, (prefs.value)::boolean
+FROM pro_contractors pc
+CROSS JOIN LATERAL jsonb_each_text(pc.job_alert_preferences) AS prefs(key, value)
+WHERE pc.job_alert_preferences IS NOT NULL
+  AND prefs.key IN ('in_app', 'email', 'sms')
+ON CONFLICT (user_id, event_type, channel) DO NOTHING;
+
+COMMENT ON COLUMN pro_contractors.job_alert_preferences IS 'emergency_only limits new-job alerts to emergency jobs; channels live in notification_preferences';
+
+-- Channel toggles from user_profiles.notification_preferences, where that
+-- column exists, become the master switches
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'user_profiles' AND column_name = 'notification_preferences'
+  ) THEN
+    EXECUTE $copy$
+      INSERT INTO notification_settings (user_id, email_enabled, sms_enabled, push_enabled)
+      SELECT id,
+        COALESCE((notification_preferences->>'email')::boolean, true),
+        COALESCE((notification_preferences->>'sms')::boolean, true),
+        COALESCE((notification_preferences->>'push')::boolean, true)
+      FROM user_profiles
+      WHERE notification_preferences IS NOT NULL
+      ON CONFLICT (user_id) DO NOTHING
+    $copy$;
+  END IF;
+END $$;
+
+-- 6. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own notification preferences" ON notification_preferences
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users manage own notification settings" ON notification_settings
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own notification deliveries" ON notification_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all notification deliveries" ON notification_deliveries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON notification_preferences TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON notification_settings TO authenticated;
+GRANT SELECT ON notification_deliveries TO authenticated;
+
+-- 7. CREATE TRIGGERS FOR UPDATED_AT
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_notification_settings_updated_at BEFORE UPDATE ON notification_settings
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+SELECT 'Notification preferences created successfully!' as status;
@@ -0,0 +1,333 @@
+-- =============================================================================
+-- OUTBOUND MESSAGE QUEUE (OUTBOX)
+-- Email and SMS are no longer sent inline. sendEmail / sendSMS enqueue a row
+-- here and the worker (/api/cron/outbox) delivers it, retrying with
+-- exponential backoff and dead-lettering after max_attempts. Rows with the
+-- same idempotency key are only ever queued once.
+--
+-- Notifications that follow a database write (bid accepted, payment
+-- released, dispute resolved) are queued by triggers on that write through
+-- enqueue_notification(), so they commit or roll back with it. These rows
+-- carry a template and its data; the worker renders them (lib/outboxTemplates.ts)
+-- and applies the recipient's notification settings before sending.
+-- =============================================================================
+
+-- 1. CREATE MESSAGE_OUTBOX TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS message_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  channel TEXT CHECK (channel IN ('email', 'sms')) NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT,
+  html TEXT,
+  body TEXT NOT NULL DEFAULT '',
+  idempotency_key TEXT UNIQUE,
+
+  -- Queued by a trigger: rendered and checked against the user's settings at delivery
+  template TEXT,
+  template_data JSONB,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT,
+
+  status TEXT CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'dead')) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+
+  -- Manual resend of a dead-lettered message
+  resent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resent_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_outbox_due ON message_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_message_outbox_status ON message_outbox(status, created_at DESC);
+
+COMMENT ON TABLE message_outbox IS 'Queued email and SMS; delivered by /api/cron/outbox with retries';
+COMMENT ON COLUMN message_outbox.idempotency_key IS 'Messages with the same key are queued and sent once';
+COMMENT ON COLUMN message_outbox.locked_until IS 'A worker claimed the row until then; expired claims are picked up again';
+COMMENT ON COLUMN message_outbox.status IS 'dead = gave up after max_attempts; an admin can resend it. skipped = the user turned the channel off';
+COMMENT ON COLUMN message_outbox.template IS 'Rendered by lib/outboxTemplates.ts when subject and html are not stored';
+
+-- Deliveries logged by the notification dispatcher point at the queued
+-- message, so the worker can record what finally happened to it
+ALTER TABLE notification_deliveries
+ADD COLUMN IF NOT EXISTS outbox_message_id UUID REFERENCES message_outbox(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_outbox ON notification_deliveries(outbox_message_id)
+  WHERE outbox_message_id IS NOT NULL;
+
+-- 2. ENQUEUE FUNCTION
+-- -----------------------------------------------------------------------------
+-- Returns the id of the queued message, or of the message already queued
+-- under the same idempotency key.
+
+DROP FUNCTION IF EXISTS enqueue_outbound_message(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION enqueue_outbound_message(
+  p_channel TEXT,
+  p_recipient TEXT,
+  p_body TEXT,
+  p_subject TEXT DEFAULT NULL,
+  p_html TEXT DEFAULT NULL,
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_template TEXT DEFAULT NULL,
+  p_template_data JSONB DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL,
+  p_event_type TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO message_outbox (
+    channel, recipient, body, subject, html, idempotency_key,
+    template, template_data, user_id, event_type
+  )
+  VALUES (
+    p_channel, p_recipient, COALESCE(p_body, ''), p_subject, p_html, p_idempotency_key,
+    p_template, p_template_data, p_user_id, p_event_type
+  )
+  ON CONFLICT (idempotency_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NULL THEN
+    SELECT id INTO v_id FROM message_outbox WHERE idempotency_key = p_idempotency_key;
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 3. CLAIM FUNCTION
+-- -----------------------------------------------------------------------------
+-- Claims due messages for one worker run. SKIP LOCKED keeps overlapping runs
+-- from sending the same message twice; a claim that outlives p_lock_seconds
+-- (the worker died mid-send) is picked up again.
+
+CREATE OR REPLACE FUNCTION claim_outbox_messages(
+  p_limit INTEGER DEFAULT 25,
+  p_lock_seconds INTEGER DEFAULT 120,
+  p_now TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS SETOF message_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE message_outbox
+  SET status = 'sending',
+      attempts = attempts + 1,
+      locked_until = p_now + make_interval(secs => p_lock_seconds)
+  WHERE id IN (
+    SELECT id FROM message_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= p_now)
+       OR (status = 'sending' AND locked_until < p_now)
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION enqueue_outbound_message(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, JSONB, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_outbox_messages(INTEGER, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- 4. QUEUE NOTIFICATIONS FROM THE DATABASE
+-- -----------------------------------------------------------------------------
+-- Queues one templated email or SMS for a user inside the caller's
+-- transaction and logs it in notification_deliveries as 'queued' (or
+-- 'skipped' when there is no address on file).
+
+CREATE OR REPLACE FUNCTION enqueue_notification(
+  p_user_id UUID,
+  p_event_type TEXT,
+  p_channel TEXT,
+  p_template TEXT,
+  p_data JSONB,
+  p_idempotency_key TEXT,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_recipient TEXT;
+  v_id UUID;
+BEGIN
+  IF p_channel = 'email' THEN
+    SELECT email INTO v_recipient FROM auth.users WHERE id = p_user_id;
+  ELSE
+    SELECT phone INTO v_recipient FROM pro_contractors WHERE id = p_user_id;
+    IF v_recipient IS NULL THEN
+      SELECT phone INTO v_recipient FROM user_profiles WHERE id = p_user_id;
+    END IF;
+  END IF;
+
+  IF COALESCE(v_recipient, '') = '' THEN
+    INSERT INTO notification_deliveries (user_id, event_type, channel, status, reason, job_id)
+    VALUES (
+      p_user_id, p_event_type, p_channel, 'skipped',
+      CASE p_channel WHEN 'email' THEN 'No email address on file' ELSE 'No phone number on file' END,
+      p_job_id
+    );
+    RETURN NULL;
+  END IF;
+
+  v_id := enqueue_outbound_message(
+    p_channel, v_recipient, '', NULL, NULL, p_idempotency_key,
+    p_template, p_data, p_user_id, p_event_type
+  );
+
+  -- A repeated key returns the message already queued and logged
+  IF NOT EXISTS (SELECT 1 FROM notification_deliveries WHERE outbox_message_id = v_id) THEN
+    INSERT INTO notification_deliveries (user_id, event_type, channel, status, job_id, outbox_message_id)
+    VALUES (p_user_id, p_event_type, p_channel, 'queued', p_job_id, v_id);
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION enqueue_notification(UUID, TEXT, TEXT, TEXT, JSONB, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Bid accepted (accept_job_bid, accept_message_offer): email and text the contractor
+CREATE OR REPLACE FUNCTION enqueue_bid_accepted_messages()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_data JSONB;
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+    SELECT jsonb_build_object(
+      'contractorName', COALESCE(pc.business_name, pc.name, 'Contractor'),
+      'homeownerName', COALESCE(up.name, 'The homeowner'),
+      'homeownerPhone', COALESCE(up.phone, 'Not provided'),
+      'jobTitle', j.title,
+      'jobAddress', COALESCE(j.address, 'Address in job details')
+    )
+    INTO v_data
+    FROM homeowner_jobs j
+    LEFT JOIN user_profiles up ON up.id = j.homeowner_id
+    LEFT JOIN pro_contractors pc ON pc.id = NEW.contractor_id
+    WHERE j.id = NEW.job_id;
+
+    IF v_data IS NOT NULL THEN
+      PERFORM enqueue_notification(NEW.contractor_id, 'bid_accepted', 'email', 'bid_accepted',
+        v_data, 'bid-accepted:' || NEW.id || ':email', NEW.job_id);
+      PERFORM enqueue_notification(NEW.contractor_id, 'bid_accepted', 'sms', 'bid_accepted_sms',
+        v_data, 'bid-accepted:' || NEW.id || ':sms', NEW.job_id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_bid_accepted_enqueue ON job_bids;
+CREATE TRIGGER on_bid_accepted_enqueue
+  AFTER UPDATE ON job_bids
+  FOR EACH ROW EXECUTE FUNCTION enqueue_bid_accepted_messages();
+
+-- Payment released (transfer, auto-release, both parties confirming): email
+-- both parties. A won chargeback restoring a released hold is not a release.
+CREATE OR REPLACE FUNCTION enqueue_payment_released_messages()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_data JSONB;
+BEGIN
+  IF NEW.status = 'released' AND (OLD.status IS NULL OR OLD.status NOT IN ('released', 'disputed')) THEN
+    SELECT jsonb_build_object(
+      'homeownerName', COALESCE(up.name, 'there'),
+      'contractorName', COALESCE(pc.business_name, pc.name, 'Contractor'),
+      'jobTitle', j.title,
+      'amount', NEW.contractor_payout
+    )
+    INTO v_data
+    FROM homeowner_jobs j
+    LEFT JOIN user_profiles up ON up.id = NEW.homeowner_id
+    LEFT JOIN pro_contractors pc ON pc.id = NEW.contractor_id
+    WHERE j.id = NEW.job_id;
+
+    IF v_data IS NOT NULL THEN
+      PERFORM enqueue_notification(NEW.homeowner_id, 'payment_completed', 'email', 'payment_completed',
+        v_data || jsonb_build_object('recipient', 'homeowner'), 'payment-completed:' || NEW.id || ':homeowner', NEW.job_id);
+      PERFORM enqueue_notification(NEW.contractor_id, 'payment_completed', 'email', 'payment_completed',
+        v_data || jsonb_build_object('recipient', 'contractor'), 'payment-completed:' || NEW.id || ':contractor', NEW.job_id);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_payment_released_enqueue ON payment_holds;
+CREATE TRIGGER on_payment_released_enqueue
+  AFTER UPDATE ON payment_holds
+  FOR EACH ROW EXECUTE FUNCTION enqueue_payment_released_messages();
+
+-- Dispute resolved: email both parties the outcome and the admin's rationale
+CREATE OR REPLACE FUNCTION enqueue_dispute_resolved_messages()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_data JSONB;
+BEGIN
+  IF NEW.status = 'resolved' AND OLD.status IS DISTINCT FROM 'resolved' THEN
+    v_data := jsonb_build_object(
+      'jobTitle', COALESCE((SELECT title FROM homeowner_jobs WHERE id = NEW.job_id), 'your job'),
+      'resolution', NEW.resolution,
+      'contractorAmount', COALESCE(NEW.contractor_amount, 0),
+      'refundAmount', COALESCE(NEW.refund_amount, 0),
+      'rationale', COALESCE(NEW.resolution_rationale, '')
+    );
+
+    PERFORM enqueue_notification(NEW.homeowner_id, 'dispute_update', 'email', 'dispute_resolved',
+      v_data || jsonb_build_object(
+        'recipientRole', 'homeowner',
+        'recipientName', COALESCE((SELECT name FROM user_profiles WHERE id = NEW.homeowner_id), 'there')
+      ),
+      'dispute-resolved:' || NEW.id || ':homeowner', NEW.job_id);
+
+    PERFORM enqueue_notification(NEW.contractor_id, 'dispute_update', 'email', 'dispute_resolved',
+      v_data || jsonb_build_object(
+        'recipientRole', 'contractor',
+        'recipientName', COALESCE(
+          (SELECT COALESCE(business_name, name) FROM pro_contractors WHERE id = NEW.contractor_id),
+          'Contractor'
+        )
+      ),
+      'dispute-resolved:' || NEW.id || ':contractor', NEW.job_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_dispute_resolved_enqueue ON payment_disputes;
+CREATE TRIGGER on_dispute_resolved_enqueue
+  AFTER UPDATE ON payment_disputes
+  FOR EACH ROW EXECUTE FUNCTION enqueue_dispute_resolved_messages();
+
+-- 5. ENABLE ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Only the service role writes; admins can look at failed deliveries.
+
+ALTER TABLE message_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the outbox" ON message_outbox
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+GRANT SELECT ON message_outbox TO authenticated;
+
+-- 6. CREATE TRIGGERS FOR UPDATED_AT
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_message_outbox_updated_at BEFORE UPDATE ON message_outbox
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+SELECT 'Message outbox created successfully!' as status;
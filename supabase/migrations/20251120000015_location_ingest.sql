@@ -0,0 +1,83 @@
+-- =============================================================================
+-- SERVER-SIDE LOCATION INGEST
+-- Contractors' devices now post GPS fixes to /api/jobs/[id]/location, which
+-- validates them, appends them to location_history and computes distance,
+-- ETA and arrival before writing contractor_locations and
+-- contractor_location_tracking with the service role.
+--
+-- Both tables are upserted on (contractor_id, job_id). The earlier tracking
+-- migrations did not agree on that key (20251022000004 recreated
+-- contractor_locations without it), so duplicates are collapsed and the
+-- constraint added where it is missing.
+-- =============================================================================
+
+-- 1. ONE LIVE ROW PER CONTRACTOR AND JOB
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE contractor_locations ADD COLUMN IF NOT EXISTS is_tracking_enabled BOOLEAN DEFAULT false;
+ALTER TABLE contractor_locations ADD COLUMN IF NOT EXISTS last_updated_at TIMESTAMPTZ DEFAULT NOW();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname IN ('contractor_locations_contractor_id_job_id_key', 'contractor_locations_contractor_job_key')
+  ) THEN
+    DELETE FROM contractor_locations a
+    USING contractor_locations b
+    WHERE a.contractor_id = b.contractor_id
+      AND a.job_id = b.job_id
+      AND a.created_at < b.created_at;
+
+    ALTER TABLE contractor_locations
+      ADD CONSTRAINT contractor_locations_contractor_job_key UNIQUE (contractor_id, job_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'unique_contractor_job_tracking'
+  ) THEN
+    ALTER TABLE contractor_location_tracking
+      ADD CONSTRAINT unique_contractor_job_tracking UNIQUE (contractor_id, job_id);
+  END IF;
+END $$;
+
+-- 2. LOCATION HISTORY
+-- -----------------------------------------------------------------------------
+-- The ingest reads the recent fixes of one contractor on one job for the ETA
+-- and the rate limit.
+
+CREATE INDEX IF NOT EXISTS idx_location_history_job_contractor
+  ON location_history(job_id, contractor_id, recorded_at DESC);
+
+COMMENT ON COLUMN location_history.recorded_at IS 'When the device took the fix (validated by the ingest API)';
+
+-- 3. ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Fixes are written by the ingest API only; devices no longer write directly,
+-- so the computed ETA and arrival cannot be forged from the client. The
+-- contractor write policies from the earlier tracking migrations are dropped
+-- (20251111000007 granted FOR ALL, so own-row reads are re-granted).
+
+DROP POLICY IF EXISTS "Contractors can insert location history" ON location_history;
+
+DROP POLICY IF EXISTS "Contractors can update own location" ON contractor_locations;
+DROP POLICY IF EXISTS contractor_update_own_location ON contractor_locations;
+DROP POLICY IF EXISTS contractor_insert_own_location ON contractor_locations;
+
+DROP POLICY IF EXISTS "Contractors can view own location" ON contractor_locations;
+CREATE POLICY "Contractors can view own location" ON contractor_locations
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+DROP POLICY IF EXISTS "Contractors can update own location" ON contractor_location_tracking;
+
+DROP POLICY IF EXISTS "Contractors can view own location history" ON location_history;
+CREATE POLICY "Contractors can view own location history" ON location_history
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+DROP POLICY IF EXISTS "Admins can view location history" ON location_history;
+CREATE POLICY "Admins can view location history" ON location_history
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+SELECT 'Location ingest created successfully!' as status;
@@ -0,0 +1,28 @@
+-- =============================================================================
+-- PROOF-OF-VISIT REPORTS
+-- /api/jobs/[id]/visit-report rebuilds a job's timeline (en route, arrival,
+-- time on site, departure) and driven path from location_history. A snapshot
+-- of the report can be attached to a payment dispute as evidence.
+-- =============================================================================
+
+-- 1. DISPUTE EVIDENCE
+-- -----------------------------------------------------------------------------
+-- visit_report rows keep the summary and GeoJSON path as they were when the
+-- evidence was submitted.
+
+ALTER TABLE dispute_evidence ADD COLUMN IF NOT EXISTS visit_report JSONB;
+
+ALTER TABLE dispute_evidence DROP CONSTRAINT IF EXISTS dispute_evidence_evidence_type_check;
+ALTER TABLE dispute_evidence ADD CONSTRAINT dispute_evidence_evidence_type_check
+  CHECK (evidence_type IN ('photo', 'message', 'note', 'visit_report'));
+
+COMMENT ON COLUMN dispute_evidence.visit_report IS 'Snapshot of the job visit report (summary and GeoJSON) for visit_report evidence';
+
+-- 2. LOCATION HISTORY
+-- -----------------------------------------------------------------------------
+-- Reports read the whole history of a job in order.
+
+CREATE INDEX IF NOT EXISTS idx_location_history_job_recorded
+  ON location_history(job_id, recorded_at);
+
+SELECT 'Visit reports created successfully!' as status;
@@ -0,0 +1,182 @@
+-- =============================================================================
+-- ADMIN ROLES AND AUDIT LOG
+-- Admin access used to come from a hardcoded email list checked in the
+-- browser, plus user_profiles.role = 'admin'. It now lives in admin_roles and
+-- is checked server-side on every admin API route and by is_admin() in RLS.
+-- user_profiles.role is writable by its owner, so it grants nothing:
+-- - admin: can use the admin dashboard and admin API routes
+-- - super_admin: can also grant and revoke admin roles and run setup routes
+--
+-- Every admin change is written to admin_audit_log, which cannot be updated
+-- or deleted, not even with the service role.
+-- =============================================================================
+
+-- 1. CREATE ADMIN_ROLES TABLE
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS admin_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT CHECK (role IN ('admin', 'super_admin')) NOT NULL DEFAULT 'admin',
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  granted_at TIMESTAMPTZ DEFAULT NOW(),
+  note TEXT
+);
+
+COMMENT ON TABLE admin_roles IS 'Users with admin access; revoking deletes the row (the audit log keeps the history)';
+
+-- Seed from the old hardcoded list. Profiles marked admin are not carried
+-- over: users can set their own user_profiles.role.
+INSERT INTO admin_roles (user_id, role, note)
+SELECT id, 'super_admin', 'Migrated from ADMIN_EMAILS'
+FROM auth.users
+WHERE lower(email) IN (
+  'admin@userushr.com',
+  'lorenzo.vanza@hotmail.com',
+  'zac@spgrp.com',
+  'jake@spgrp.com',
+  'zac.schwartz212@gmail.com',
+  'jakezpodolsky@gmail.com'
+)
+ON CONFLICT (user_id) DO NOTHING;
+
+-- 2. IS_ADMIN HELPER
+-- -----------------------------------------------------------------------------
+-- For RLS policies
+
+CREATE OR REPLACE FUNCTION is_admin(check_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM admin_roles WHERE user_id = check_user_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3. CREATE ADMIN_AUDIT_LOG TABLE
+-- -----------------------------------------------------------------------------
+-- actor_id has no foreign key so deleting an admin's account cannot rewrite
+-- their entries
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID NOT NULL,
+  actor_email TEXT,
+  action TEXT NOT NULL,
+  target_type TEXT,
+  target_id TEXT,
+  details JSONB DEFAULT '{}'::jsonb,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id);
+
+COMMENT ON TABLE admin_audit_log IS 'Append-only record of admin actions';
+COMMENT ON COLUMN admin_audit_log.action IS 'Dotted action name, e.g. kyc.update_status, admin_role.grant';
+COMMENT ON COLUMN admin_audit_log.details IS 'What changed, usually { before, after } plus request parameters';
+
+CREATE OR REPLACE FUNCTION prevent_admin_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_immutable ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_immutable
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+DROP TRIGGER IF EXISTS admin_audit_log_no_truncate ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_no_truncate
+  BEFORE TRUNCATE ON admin_audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+-- 4. ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Writes go through the admin API with the service role
+
+ALTER TABLE admin_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own admin role" ON admin_roles;
+CREATE POLICY "Users can view own admin role" ON admin_roles
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view admin roles" ON admin_roles;
+CREATE POLICY "Admins can view admin roles" ON admin_roles
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view audit log" ON admin_audit_log;
+CREATE POLICY "Admins can view audit log" ON admin_audit_log
+  FOR SELECT USING (is_admin());
+
+-- 5. ADMIN POLICIES FROM EARLIER MIGRATIONS
+-- -----------------------------------------------------------------------------
+-- The admin SELECT policies created earlier in this series checked
+-- user_profiles.role = 'admin'; they are recreated on is_admin().
+
+DROP POLICY IF EXISTS "Admins can view Stripe webhook events" ON stripe_webhook_events;
+CREATE POLICY "Admins can view Stripe webhook events" ON stripe_webhook_events
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all disputes" ON payment_disputes;
+CREATE POLICY "Admins can view all disputes" ON payment_disputes
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all dispute evidence" ON dispute_evidence;
+CREATE POLICY "Admins can view all dispute evidence" ON dispute_evidence
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view dispute evidence files" ON storage.objects;
+CREATE POLICY "Admins can view dispute evidence files" ON storage.objects
+  FOR SELECT USING (bucket_id = 'dispute-evidence' AND is_admin());
+
+DROP POLICY IF EXISTS "Admins can view escrow audit log" ON escrow_audit_log;
+CREATE POLICY "Admins can view escrow audit log" ON escrow_audit_log
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view job match log" ON job_match_log;
+CREATE POLICY "Admins can view job match log" ON job_match_log
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all dispatches" ON emergency_dispatches;
+CREATE POLICY "Admins can view all dispatches" ON emergency_dispatches
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all dispatch offers" ON dispatch_offers;
+CREATE POLICY "Admins can view all dispatch offers" ON dispatch_offers
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all reviews" ON reviews;
+CREATE POLICY "Admins can view all reviews" ON reviews
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all companies" ON companies;
+CREATE POLICY "Admins can view all companies" ON companies
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all company members" ON company_members;
+CREATE POLICY "Admins can view all company members" ON company_members
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all support tickets" ON support_tickets;
+CREATE POLICY "Admins can view all support tickets" ON support_tickets
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all support ticket replies" ON support_ticket_replies;
+CREATE POLICY "Admins can view all support ticket replies" ON support_ticket_replies
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view all notification deliveries" ON notification_deliveries;
+CREATE POLICY "Admins can view all notification deliveries" ON notification_deliveries
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view the outbox" ON message_outbox;
+CREATE POLICY "Admins can view the outbox" ON message_outbox
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can view location history" ON location_history;
+CREATE POLICY "Admins can view location history" ON location_history
+  FOR SELECT USING (is_admin());
+
+SELECT 'Admin roles created successfully!' as status;
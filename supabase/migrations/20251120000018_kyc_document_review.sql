@@ -0,0 +1,113 @@
+-- =============================================================================
+-- KYC DOCUMENT REVIEW
+-- Admins decide on each document (approve, reject with a reason, or request a
+-- replacement) through /api/kyc/documents/[id]/review. Users resubmit only the
+-- documents that need it; the new upload points at the one it replaces, which
+-- is marked superseded. Every upload and decision is kept in
+-- kyc_review_history.
+--
+-- Licenses and insurance certificates carry an expiry date; the
+-- /api/cron/kyc-expiry sweep sends reminders ahead of it and marks the
+-- document expired once it passes.
+-- =============================================================================
+
+-- 1. NEW STATUSES AND DOCUMENT TYPES
+-- -----------------------------------------------------------------------------
+
+ALTER TYPE kyc_status ADD VALUE IF NOT EXISTS 'replacement_requested';
+ALTER TYPE kyc_status ADD VALUE IF NOT EXISTS 'expired';
+
+ALTER TYPE document_type ADD VALUE IF NOT EXISTS 'contractor_license';
+ALTER TYPE document_type ADD VALUE IF NOT EXISTS 'insurance_certificate';
+
+-- 2. DOCUMENT REVIEW COLUMNS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE kyc_documents ADD COLUMN IF NOT EXISTS expires_at DATE;
+ALTER TABLE kyc_documents ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id);
+ALTER TABLE kyc_documents ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+ALTER TABLE kyc_documents ADD COLUMN IF NOT EXISTS replaces_document_id UUID REFERENCES kyc_documents(id) ON DELETE SET NULL;
+ALTER TABLE kyc_documents ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMPTZ;
+ALTER TABLE kyc_documents ADD COLUMN IF NOT EXISTS expiry_reminders_sent INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_kyc_documents_expires_at
+  ON kyc_documents(expires_at)
+  WHERE expires_at IS NOT NULL AND superseded_at IS NULL;
+
+COMMENT ON COLUMN kyc_documents.status IS 'Verification status: pending, under_review, verified, rejected, replacement_requested, expired';
+COMMENT ON COLUMN kyc_documents.rejection_reason IS 'Why the document was rejected or a replacement was requested';
+COMMENT ON COLUMN kyc_documents.expires_at IS 'Expiry date shown on licenses and insurance certificates';
+COMMENT ON COLUMN kyc_documents.replaces_document_id IS 'The rejected or expiring document this upload replaces';
+COMMENT ON COLUMN kyc_documents.superseded_at IS 'When a newer upload replaced this document';
+COMMENT ON COLUMN kyc_documents.expiry_reminders_sent IS 'Expiry reminders already sent for the current expiry date';
+
+-- 3. REVIEW HISTORY
+-- -----------------------------------------------------------------------------
+-- actor_id is the uploader for 'submitted', the admin for decisions and NULL
+-- when the expiry sweep marks a document expired.
+
+CREATE TABLE IF NOT EXISTS kyc_review_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES kyc_documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('submitted', 'approved', 'rejected', 'replacement_requested', 'expired')),
+  reason TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kyc_review_history_user ON kyc_review_history(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_kyc_review_history_document ON kyc_review_history(document_id);
+
+COMMENT ON TABLE kyc_review_history IS 'Every KYC document upload and review decision, written by the KYC API';
+
+-- Existing decisions become the start of the history
+INSERT INTO kyc_review_history (document_id, user_id, document_type, action, reason, actor_id, created_at)
+SELECT id, user_id, document_type::text, 'submitted', NULL, user_id, created_at
+FROM kyc_documents
+WHERE NOT EXISTS (SELECT 1 FROM kyc_review_history h WHERE h.document_id = kyc_documents.id);
+
+INSERT INTO kyc_review_history (document_id, user_id, document_type, action, reason, actor_id, created_at)
+SELECT id, user_id, document_type::text,
+  CASE WHEN status = 'verified' THEN 'approved' ELSE 'rejected' END,
+  rejection_reason, verified_by, COALESCE(verified_at, updated_at)
+FROM kyc_documents
+WHERE status IN ('verified', 'rejected')
+  AND NOT EXISTS (
+    SELECT 1 FROM kyc_review_history h WHERE h.document_id = kyc_documents.id AND h.action <> 'submitted'
+  );
+
+-- 4. ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+-- Decisions go through the review API so each one lands in the history;
+-- admins no longer update documents directly. Uploads from the client must
+-- start out pending.
+
+ALTER TABLE kyc_review_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own KYC history" ON kyc_review_history;
+CREATE POLICY "Users can view their own KYC history" ON kyc_review_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all KYC history" ON kyc_review_history;
+CREATE POLICY "Admins can view all KYC history" ON kyc_review_history
+  FOR SELECT USING (is_admin());
+
+GRANT SELECT ON kyc_review_history TO authenticated;
+
+DROP POLICY IF EXISTS "Users can upload their own KYC documents" ON kyc_documents;
+CREATE POLICY "Users can upload their own KYC documents" ON kyc_documents
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+DROP POLICY IF EXISTS "Admins can view all KYC documents" ON kyc_documents;
+CREATE POLICY "Admins can view all KYC documents" ON kyc_documents
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can update all KYC documents" ON kyc_documents;
+
+DROP POLICY IF EXISTS "Admins can view all KYC documents in storage" ON storage.objects;
+CREATE POLICY "Admins can view all KYC documents in storage" ON storage.objects
+  FOR SELECT USING (bucket_id = 'kyc-documents' AND is_admin());
+
+SELECT 'KYC document review created successfully!' as status;
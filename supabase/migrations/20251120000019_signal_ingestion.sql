@@ -0,0 +1,125 @@
+-- =============================================================================
+-- SIGNAL INGESTION
+-- Signals (permits, inspections, violations) are pulled from the rows in
+-- signal_sources by lib/signalIngest.ts. Each source's type picks the adapter
+-- that reads it (file_drop, rest or permit_feed) and config holds the
+-- adapter's settings. Records are upserted on (source_id, external_id), so a
+-- record seen again updates the existing signal instead of duplicating it,
+-- and signals past expires_at are deactivated at the end of each run.
+--
+-- The tables are created here as well so this migration works on databases
+-- where signals-database-setup.sql was never run.
+-- =============================================================================
+
+-- 1. BASE TABLES
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS signal_sources (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  type TEXT NOT NULL,
+  source_url TEXT,
+  api_endpoint TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS signals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id UUID REFERENCES signal_sources(id),
+  title TEXT NOT NULL,
+  description TEXT,
+  signal_type TEXT NOT NULL,
+  category TEXT,
+  address TEXT,
+  city TEXT,
+  state TEXT,
+  zip_code TEXT,
+  latitude DECIMAL(10, 6),
+  longitude DECIMAL(11, 6),
+  external_id TEXT,
+  estimated_value DECIMAL(10,2),
+  urgency_score INTEGER DEFAULT 50,
+  raw_data JSONB,
+  source_url TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  expires_at TIMESTAMPTZ,
+  signal_date TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE signal_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE signals ENABLE ROW LEVEL SECURITY;
+
+-- 2. SOURCE CONFIGURATION AND POLLING STATE
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS config JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS last_polled_at TIMESTAMPTZ;
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS last_cursor TEXT;
+ALTER TABLE signal_sources ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+COMMENT ON COLUMN signal_sources.type IS 'Adapter that reads the source: file_drop, rest or permit_feed (older rows may say government)';
+COMMENT ON COLUMN signal_sources.config IS 'Adapter settings: path, fixture, recordsPath, fieldMap, defaults, ttlDays...';
+COMMENT ON COLUMN signal_sources.last_cursor IS 'Highest cursor value seen, sent as the "since" filter on the next poll';
+
+-- 3. DEDUPE AND CHANGE TRACKING
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS geocode_source TEXT;
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN signals.content_hash IS 'Hash of the normalized record; unchanged records are not rewritten';
+COMMENT ON COLUMN signals.geocode_source IS 'Where the coordinates came from: source, zip_centroid or mapbox';
+
+-- Keep the newest row of any existing duplicates before adding the constraint
+DELETE FROM signals s
+USING signals newer
+WHERE s.source_id = newer.source_id
+  AND s.external_id = newer.external_id
+  AND (s.created_at, s.id) < (newer.created_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signals_source_external
+  ON signals(source_id, external_id);
+
+CREATE INDEX IF NOT EXISTS idx_signals_expires_at
+  ON signals(expires_at)
+  WHERE is_active = true;
+
+-- 4. INGEST RUNS
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS signal_ingest_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_id UUID REFERENCES signal_sources(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  fetched INTEGER NOT NULL DEFAULT 0,
+  inserted INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  unchanged INTEGER NOT NULL DEFAULT 0,
+  skipped INTEGER NOT NULL DEFAULT 0,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_signal_ingest_runs_source
+  ON signal_ingest_runs(source_id, started_at DESC);
+
+ALTER TABLE signal_ingest_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view signal ingest runs" ON signal_ingest_runs;
+CREATE POLICY "Admins can view signal ingest runs" ON signal_ingest_runs
+  FOR SELECT USING (is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage signal sources" ON signal_sources;
+CREATE POLICY "Admins can manage signal sources" ON signal_sources
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+COMMENT ON TABLE signal_ingest_runs IS 'One row per source per ingest run with the record counts';
+
+SELECT 'Signal ingestion tables created successfully!' as status;
@@ -0,0 +1,167 @@
+-- =============================================================================
+-- SIGNAL MATCHING
+-- Each new signal is checked against every active contractor signal
+-- subscription (lib/signalMatching.ts). A match is recorded once per signal
+-- and contractor in signal_matches, alerted right away when the subscription
+-- asks for instant notifications, and collected into the daily digest email
+-- otherwise (or as well).
+--
+-- Opening a matched signal and converting it are recorded on the match;
+-- record_signal_engagement() stamps the match and bumps signals_received /
+-- signals_acted_on on the subscription in one call, and only the first
+-- time.
+--
+-- Subscriptions are written through /api/signals/subscriptions, which checks
+-- the Signals plan, so contractors keep read-only access here.
+-- =============================================================================
+
+-- 1. SUBSCRIPTIONS
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS contractor_signal_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  contractor_id UUID,
+  is_active BOOLEAN DEFAULT TRUE,
+  signal_types TEXT[] DEFAULT '{}',
+  categories TEXT[] DEFAULT '{}',
+  zip_codes TEXT[] DEFAULT '{}',
+  max_distance_miles INTEGER DEFAULT 25,
+  min_estimated_value DECIMAL(10,2),
+  max_estimated_value DECIMAL(10,2),
+  min_urgency_score INTEGER DEFAULT 0,
+  email_notifications BOOLEAN DEFAULT TRUE,
+  sms_notifications BOOLEAN DEFAULT FALSE,
+  instant_notifications BOOLEAN DEFAULT TRUE,
+  daily_digest BOOLEAN DEFAULT FALSE,
+  signals_received INTEGER DEFAULT 0,
+  signals_acted_on INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- contractor_id is the contractor's user id; contractors live in pro_contractors
+ALTER TABLE contractor_signal_subscriptions
+  DROP CONSTRAINT IF EXISTS contractor_signal_subscriptions_contractor_id_fkey;
+
+ALTER TABLE contractor_signal_subscriptions
+  ADD CONSTRAINT contractor_signal_subscriptions_contractor_id_fkey
+  FOREIGN KEY (contractor_id) REFERENCES pro_contractors(id) ON DELETE CASCADE NOT VALID;
+
+ALTER TABLE contractor_signal_subscriptions ADD COLUMN IF NOT EXISTS name TEXT;
+ALTER TABLE contractor_signal_subscriptions ADD COLUMN IF NOT EXISTS last_digest_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_contractor_subscriptions_contractor
+  ON contractor_signal_subscriptions(contractor_id);
+
+COMMENT ON COLUMN contractor_signal_subscriptions.signals_received IS 'Matched signals the contractor has opened';
+COMMENT ON COLUMN contractor_signal_subscriptions.signals_acted_on IS 'Matched signals the contractor has converted';
+COMMENT ON COLUMN contractor_signal_subscriptions.last_digest_at IS 'When the last daily digest including this subscription was sent';
+
+ALTER TABLE contractor_signal_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contractors can view own subscriptions" ON contractor_signal_subscriptions;
+DROP POLICY IF EXISTS "Contractors can insert own subscriptions" ON contractor_signal_subscriptions;
+DROP POLICY IF EXISTS "Contractors can update own subscriptions" ON contractor_signal_subscriptions;
+DROP POLICY IF EXISTS "Contractors can delete own subscriptions" ON contractor_signal_subscriptions;
+DROP POLICY IF EXISTS "Admins can view signal subscriptions" ON contractor_signal_subscriptions;
+
+CREATE POLICY "Contractors can view own subscriptions" ON contractor_signal_subscriptions
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+CREATE POLICY "Admins can view signal subscriptions" ON contractor_signal_subscriptions
+  FOR SELECT USING (is_admin());
+
+-- 2. MATCHES
+-- -----------------------------------------------------------------------------
+
+-- Signals are matched once, after the ingest run that stored them
+ALTER TABLE signals ADD COLUMN IF NOT EXISTS matched_at TIMESTAMPTZ;
+
+-- Signals loaded before matching existed are not alerted on
+UPDATE signals SET matched_at = NOW() WHERE matched_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_signals_unmatched
+  ON signals(created_at)
+  WHERE matched_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS signal_matches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  signal_id UUID NOT NULL REFERENCES signals(id) ON DELETE CASCADE,
+  contractor_id UUID NOT NULL REFERENCES pro_contractors(id) ON DELETE CASCADE,
+  subscription_id UUID REFERENCES contractor_signal_subscriptions(id) ON DELETE SET NULL,
+  distance_miles NUMERIC(6,1),
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  alerted_at TIMESTAMPTZ,
+  alerted_channels TEXT[] NOT NULL DEFAULT '{}',
+  digest_sent_at TIMESTAMPTZ,
+  opened_at TIMESTAMPTZ,
+  acted_on_at TIMESTAMPTZ,
+  UNIQUE (signal_id, contractor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_signal_matches_contractor
+  ON signal_matches(contractor_id, matched_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_signal_matches_digest
+  ON signal_matches(subscription_id)
+  WHERE digest_sent_at IS NULL;
+
+ALTER TABLE signal_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Contractors can view own signal matches" ON signal_matches;
+CREATE POLICY "Contractors can view own signal matches" ON signal_matches
+  FOR SELECT USING (auth.uid() = contractor_id);
+
+DROP POLICY IF EXISTS "Admins can view signal matches" ON signal_matches;
+CREATE POLICY "Admins can view signal matches" ON signal_matches
+  FOR SELECT USING (is_admin());
+
+COMMENT ON TABLE signal_matches IS 'Signals matched to a contractor by one of their subscriptions, with alert, digest and engagement times';
+
+-- 3. ENGAGEMENT COUNTERS
+-- -----------------------------------------------------------------------------
+
+-- p_action is 'opened' or 'acted_on'. Acting on a signal also opens it.
+-- Returns false when the match does not exist or was already stamped.
+CREATE OR REPLACE FUNCTION record_signal_engagement(p_match_id UUID, p_action TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_subscription UUID;
+  v_opened BOOLEAN := false;
+  v_acted BOOLEAN := false;
+BEGIN
+  IF p_action NOT IN ('opened', 'acted_on') THEN
+    RAISE EXCEPTION 'Unknown signal engagement: %', p_action;
+  END IF;
+
+  SELECT subscription_id INTO v_subscription FROM signal_matches WHERE id = p_match_id;
+
+  UPDATE signal_matches
+  SET opened_at = NOW()
+  WHERE id = p_match_id AND opened_at IS NULL;
+  v_opened := FOUND;
+
+  IF p_action = 'acted_on' THEN
+    UPDATE signal_matches
+    SET acted_on_at = NOW()
+    WHERE id = p_match_id AND acted_on_at IS NULL;
+    v_acted := FOUND;
+  END IF;
+
+  IF v_subscription IS NOT NULL AND (v_opened OR v_acted) THEN
+    UPDATE contractor_signal_subscriptions
+    SET signals_received = COALESCE(signals_received, 0) + CASE WHEN v_opened THEN 1 ELSE 0 END,
+        signals_acted_on = COALESCE(signals_acted_on, 0) + CASE WHEN v_acted THEN 1 ELSE 0 END,
+        updated_at = NOW()
+    WHERE id = v_subscription;
+  END IF;
+
+  RETURN v_opened OR v_acted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_signal_engagement(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION record_signal_engagement(UUID, TEXT) IS 'Stamps a signal match as opened or acted on and bumps the subscription counters once';
+
+SELECT 'Signal matching tables created successfully!' as status;
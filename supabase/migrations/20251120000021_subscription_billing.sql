@@ -0,0 +1,110 @@
+-- =============================================================================
+-- SUBSCRIPTION BILLING
+-- Pro Plus and Pro Plus + Signals are sold as Stripe Billing subscriptions.
+-- Checkout, plan switches and the customer portal go through Stripe
+-- (lib/billing.ts); the webhook mirrors each subscription into
+-- billing_subscriptions and keeps subscription_type at the plan the user is
+-- entitled to, or 'free'.
+--
+-- Subscribers are contractors, who have a pro_contractors row but no
+-- user_profiles row, so subscriptions are keyed on auth.users and
+-- contractors keep their Stripe customer id on pro_contractors.
+-- stripe_customers (user_profiles only) still holds everyone else's.
+--
+-- Dunning: a failed renewal leaves the subscription past_due while Stripe
+-- retries. Features stay on for a grace period from past_due_since
+-- (DUNNING_GRACE_DAYS in lib/billingPlans.ts); unpaid or canceled
+-- subscriptions lose them.
+-- =============================================================================
+
+-- 1. SUBSCRIPTIONS
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS billing_subscriptions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  stripe_customer_id TEXT NOT NULL,
+  stripe_subscription_id TEXT NOT NULL UNIQUE,
+  stripe_price_id TEXT,
+  plan TEXT NOT NULL CHECK (plan IN ('pro', 'signals')),
+  billing_interval TEXT NOT NULL CHECK (billing_interval IN ('month', 'year')),
+  status TEXT NOT NULL CHECK (status IN (
+    'incomplete',
+    'incomplete_expired',
+    'trialing',
+    'active',
+    'past_due',
+    'unpaid',
+    'canceled',
+    'paused'
+  )),
+  current_period_end TIMESTAMPTZ,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  canceled_at TIMESTAMPTZ,
+  -- Dunning
+  past_due_since TIMESTAMPTZ,
+  last_payment_error TEXT,
+  -- Stripe may deliver subscription events out of order; older ones are skipped
+  last_stripe_event_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_customer
+  ON billing_subscriptions(stripe_customer_id);
+
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_status
+  ON billing_subscriptions(status);
+
+COMMENT ON TABLE billing_subscriptions IS 'Each user''s Stripe Billing subscription, mirrored from webhook events';
+COMMENT ON COLUMN billing_subscriptions.past_due_since IS 'When the first failed renewal of the current dunning cycle happened';
+
+-- 2. CONTRACTOR BILLING ACCOUNTS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE pro_contractors
+ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT UNIQUE,
+ADD COLUMN IF NOT EXISTS subscription_type TEXT NOT NULL DEFAULT 'free'
+  CHECK (subscription_type IN ('free', 'pro', 'signals'));
+
+COMMENT ON COLUMN pro_contractors.stripe_customer_id IS 'Stripe customer used for the contractor''s subscription billing';
+COMMENT ON COLUMN pro_contractors.subscription_type IS 'Plan the contractor''s subscription currently entitles them to, kept in sync by the billing webhook';
+
+-- Contractors may edit their own row; these columns are only written by the
+-- server (service role)
+CREATE OR REPLACE FUNCTION protect_contractor_billing_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.stripe_customer_id := NULL;
+      NEW.subscription_type := 'free';
+    ELSE
+      NEW.stripe_customer_id := OLD.stripe_customer_id;
+      NEW.subscription_type := OLD.subscription_type;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_contractor_billing_columns ON pro_contractors;
+CREATE TRIGGER protect_contractor_billing_columns
+  BEFORE INSERT OR UPDATE ON pro_contractors
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_contractor_billing_columns();
+
+-- 3. ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE billing_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own billing subscription" ON billing_subscriptions;
+CREATE POLICY "Users can view own billing subscription" ON billing_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view billing subscriptions" ON billing_subscriptions;
+CREATE POLICY "Admins can view billing subscriptions" ON billing_subscriptions
+  FOR SELECT USING (is_admin());
+
+SELECT 'Subscription billing tables created successfully!' as status;
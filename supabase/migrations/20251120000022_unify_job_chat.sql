@@ -0,0 +1,238 @@
+-- =============================================================================
+-- UNIFY JOB CHAT INTO CONVERSATIONS
+-- Job chats, direct offer threads and welcome chats all live in
+-- conversations/messages. A job chat is the conversation keyed by
+-- (homeowner_id, pro_id, job_id), the same one notify_homeowner_bid_accepted()
+-- opens when a bid is accepted, so the job page and the inbox show the same
+-- thread.
+--
+-- This moves every job_chat_messages row into messages, gives all clients a
+-- single way to mark a conversation read, and retires job_chat_messages.
+-- =============================================================================
+
+-- 1. JOB CONVERSATIONS
+-- -----------------------------------------------------------------------------
+-- One thread per job that has chat history. The contractor is the accepted
+-- bidder, or whoever answered in the chat if no bid is accepted any more.
+
+CREATE TEMP TABLE job_chat_threads AS
+SELECT
+  j.id AS job_id,
+  j.homeowner_id,
+  COALESCE(
+    (SELECT b.contractor_id FROM job_bids b
+     WHERE b.job_id = j.id AND b.status = 'accepted'
+     ORDER BY b.accepted_at DESC NULLS LAST
+     LIMIT 1),
+    (SELECT m.sender_id FROM job_chat_messages m
+     WHERE m.job_id = j.id AND m.sender_role = 'contractor'
+     ORDER BY m.created_at
+     LIMIT 1)
+  ) AS pro_id,
+  j.title,
+  NULL::UUID AS conversation_id
+FROM homeowner_jobs j
+WHERE EXISTS (SELECT 1 FROM job_chat_messages m WHERE m.job_id = j.id);
+
+INSERT INTO conversations (homeowner_id, pro_id, job_id, title, status, created_at, updated_at)
+SELECT homeowner_id, pro_id, job_id::TEXT, title, 'active', NOW(), NOW()
+FROM job_chat_threads
+WHERE pro_id IS NOT NULL
+ON CONFLICT (homeowner_id, pro_id, job_id) DO NOTHING;
+
+UPDATE job_chat_threads t
+SET conversation_id = c.id
+FROM conversations c
+WHERE c.homeowner_id = t.homeowner_id
+  AND c.pro_id = t.pro_id
+  AND c.job_id = t.job_id::TEXT;
+
+-- Report what cannot be moved: jobs whose chat has no contractor to key the
+-- thread on, and messages from someone who is neither the homeowner nor the
+-- thread's contractor. Those rows stay in job_chat_messages_archive.
+DO $$
+DECLARE
+  v_threads INTEGER;
+  v_thread_messages INTEGER;
+  v_outside_senders INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_threads
+  FROM job_chat_threads
+  WHERE pro_id IS NULL;
+
+  SELECT COUNT(*) INTO v_thread_messages
+  FROM job_chat_messages m
+  JOIN job_chat_threads t ON t.job_id = m.job_id
+  WHERE t.pro_id IS NULL;
+
+  SELECT COUNT(*) INTO v_outside_senders
+  FROM job_chat_messages m
+  JOIN job_chat_threads t ON t.job_id = m.job_id
+  WHERE t.pro_id IS NOT NULL
+    AND m.sender_id NOT IN (t.homeowner_id, t.pro_id);
+
+  RAISE NOTICE 'Job chat move: % message(s) in % job(s) with no contractor, % message(s) from senders outside the thread are not moved',
+    v_thread_messages, v_threads, v_outside_senders;
+END $$;
+
+-- 2. MOVE MESSAGES
+-- -----------------------------------------------------------------------------
+-- The notification and unread-count triggers are off while history is copied,
+-- so nobody is emailed about old messages; unread counts are carried over
+-- from read_at instead. metadata.job_chat_message_id points back at the
+-- original row.
+
+ALTER TABLE messages DISABLE TRIGGER on_message_notify_recipient;
+ALTER TABLE messages DISABLE TRIGGER on_message_update_unread;
+
+CREATE TEMP TABLE moved_job_chat_messages (
+  conversation_id UUID,
+  sender_type TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+);
+
+WITH moved AS (
+  INSERT INTO messages (
+    conversation_id,
+    sender_id,
+    sender_type,
+    message_type,
+    content,
+    metadata,
+    read_at,
+    created_at,
+    updated_at
+  )
+  SELECT
+    t.conversation_id,
+    m.sender_id,
+    m.sender_role,
+    'text',
+    m.message,
+    jsonb_build_object('job_chat_message_id', m.id),
+    m.read_at,
+    m.created_at,
+    m.created_at
+  FROM job_chat_messages m
+  JOIN job_chat_threads t ON t.job_id = m.job_id
+  WHERE t.conversation_id IS NOT NULL
+    AND m.sender_id IN (t.homeowner_id, t.pro_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM messages x
+      WHERE x.metadata->>'job_chat_message_id' = m.id::TEXT
+    )
+  ORDER BY m.created_at
+  RETURNING conversation_id, sender_type, read_at, created_at
+)
+INSERT INTO moved_job_chat_messages
+SELECT conversation_id, sender_type, read_at, created_at FROM moved;
+
+UPDATE conversations c
+SET
+  homeowner_unread_count = COALESCE(c.homeowner_unread_count, 0) + u.homeowner_unread,
+  contractor_unread_count = COALESCE(c.contractor_unread_count, 0) + u.contractor_unread,
+  last_message_at = GREATEST(c.last_message_at, u.last_message_at)
+FROM (
+  SELECT
+    conversation_id,
+    COUNT(*) FILTER (WHERE sender_type = 'contractor' AND read_at IS NULL) AS homeowner_unread,
+    COUNT(*) FILTER (WHERE sender_type = 'homeowner' AND read_at IS NULL) AS contractor_unread,
+    MAX(created_at) AS last_message_at
+  FROM moved_job_chat_messages
+  GROUP BY conversation_id
+) u
+WHERE c.id = u.conversation_id;
+
+ALTER TABLE messages ENABLE TRIGGER on_message_notify_recipient;
+ALTER TABLE messages ENABLE TRIGGER on_message_update_unread;
+
+DROP TABLE moved_job_chat_messages;
+DROP TABLE job_chat_threads;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_job_id
+  ON conversations(job_id) WHERE job_id IS NOT NULL;
+
+-- 3. READ STATE
+-- -----------------------------------------------------------------------------
+-- Conversations track reads three ways: messages.read_at (read receipts),
+-- the per-side unread counters on conversations (inbox badges) and
+-- conversation_participants.last_read_at. This updates all three for the
+-- caller in one go.
+
+CREATE OR REPLACE FUNCTION mark_conversation_read(
+  conversation_id_param UUID,
+  last_message_id_param UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_conversation conversations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_conversation FROM conversations WHERE id = conversation_id_param;
+
+  IF NOT FOUND OR auth.uid() IS NULL
+     OR auth.uid() NOT IN (v_conversation.homeowner_id, v_conversation.pro_id) THEN
+    RAISE EXCEPTION 'Not a participant in this conversation';
+  END IF;
+
+  UPDATE messages
+  SET read_at = NOW()
+  WHERE conversation_id = conversation_id_param
+    AND sender_id IS DISTINCT FROM auth.uid()
+    AND read_at IS NULL;
+
+  UPDATE conversations
+  SET
+    homeowner_unread_count = CASE WHEN homeowner_id = auth.uid() THEN 0 ELSE homeowner_unread_count END,
+    contractor_unread_count = CASE WHEN pro_id = auth.uid() THEN 0 ELSE contractor_unread_count END
+  WHERE id = conversation_id_param;
+
+  UPDATE conversation_participants
+  SET
+    last_read_at = NOW(),
+    last_read_message_id = COALESCE(last_message_id_param, last_read_message_id)
+  WHERE conversation_id = conversation_id_param
+    AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_conversation_read(UUID, UUID) TO authenticated;
+
+-- Unread messages for a user in a job's conversation
+CREATE OR REPLACE FUNCTION get_unread_message_count(p_job_id UUID, p_user_id UUID)
+RETURNS INTEGER AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  WHERE c.job_id = p_job_id::TEXT
+    AND p_user_id IN (c.homeowner_id, c.pro_id)
+    AND m.sender_id IS DISTINCT FROM p_user_id
+    AND m.read_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- p_user_id is trusted, so only the server (service role) may call it
+REVOKE EXECUTE ON FUNCTION get_unread_message_count(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- 4. RETIRE job_chat_messages
+-- -----------------------------------------------------------------------------
+-- Kept read-only under a new name so the move can be checked (and the rows
+-- reported above recovered); nothing reads or writes it any more.
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'job_chat_messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE job_chat_messages;
+  END IF;
+END $$;
+
+DROP POLICY IF EXISTS job_participants_send_messages ON job_chat_messages;
+DROP POLICY IF EXISTS job_participants_mark_read ON job_chat_messages;
+
+ALTER TABLE job_chat_messages RENAME TO job_chat_messages_archive;
+
+COMMENT ON TABLE job_chat_messages_archive IS 'Retired job chat; its messages were copied into messages (metadata.job_chat_message_id)';
+
+SELECT 'Job chat moved into conversations successfully!' as status;
@@ -0,0 +1,383 @@
+-- =============================================================================
+-- IN-CHAT OFFERS
+-- Offers sent in a conversation (message_offers) can be accepted, declined or
+-- countered, and expire once expires_at passes. Accepting an offer turns it
+-- into a job: the conversation's job (or a new one for chats without a job)
+-- gets a bid from the pro at the offer price, and accept_job_bid() accepts it,
+-- which starts the job and asks the homeowner to pay into escrow.
+--
+-- Status changes go through the functions below, called by
+-- /api/message-offers/[id] and the expire-bids cron; clients only insert
+-- new pending offers.
+-- =============================================================================
+
+-- 1. OFFER COLUMNS
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE message_offers
+  ADD COLUMN IF NOT EXISTS parent_offer_id UUID REFERENCES message_offers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES homeowner_jobs(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS bid_id UUID REFERENCES job_bids(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_offers_message_id ON message_offers(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_offers_parent ON message_offers(parent_offer_id)
+  WHERE parent_offer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_offers_pending_expiry ON message_offers(expires_at)
+  WHERE status = 'pending' AND expires_at IS NOT NULL;
+
+COMMENT ON COLUMN message_offers.parent_offer_id IS 'The offer this one counters';
+COMMENT ON COLUMN message_offers.job_id IS 'Job the offer was accepted into';
+COMMENT ON COLUMN message_offers.bid_id IS 'Accepted bid created from the offer';
+
+-- 2. POLICIES
+-- -----------------------------------------------------------------------------
+-- Participants could previously update any offer in their conversations,
+-- including accepting their own. New offers must come from the sender of
+-- their message and start out pending and unlinked.
+
+DROP POLICY IF EXISTS "Users can update offers in their conversations" ON message_offers;
+
+DROP POLICY IF EXISTS "Users can create offers in their conversations" ON message_offers;
+CREATE POLICY "Users can create offers in their conversations" ON message_offers
+  FOR INSERT WITH CHECK (
+    status = 'pending'
+    AND parent_offer_id IS NULL
+    AND job_id IS NULL
+    AND bid_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM messages
+      JOIN conversations ON messages.conversation_id = conversations.id
+      WHERE messages.id = message_offers.message_id
+      AND messages.sender_id = auth.uid()
+      AND (conversations.homeowner_id = auth.uid() OR conversations.pro_id = auth.uid())
+    )
+  );
+
+-- 3. RESPONDING TO AN OFFER
+-- -----------------------------------------------------------------------------
+-- Errors use the same SQLSTATEs as accept_job_bid():
+--   P0002 (no_data_found)                    -> 404
+--   42501 (insufficient_privilege)           -> 403
+--   55000 (object_not_in_prerequisite_state) -> 409
+--   22023 (invalid_parameter_value)          -> 400
+
+-- Lock a pending offer the user may respond to: they are in the conversation
+-- but did not send the offer
+CREATE OR REPLACE FUNCTION lock_pending_message_offer(
+  p_offer_id UUID,
+  p_user_id UUID
+)
+RETURNS message_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer message_offers%ROWTYPE;
+  v_sender_id UUID;
+  v_homeowner_id UUID;
+  v_pro_id UUID;
+BEGIN
+  SELECT * INTO v_offer FROM message_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT m.sender_id, c.homeowner_id, c.pro_id
+  INTO v_sender_id, v_homeowner_id, v_pro_id
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  WHERE m.id = v_offer.message_id;
+
+  IF p_user_id IS NULL OR p_user_id NOT IN (v_homeowner_id, v_pro_id) THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_sender_id = p_user_id THEN
+    RAISE EXCEPTION 'You cannot respond to your own offer' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_offer.status != 'pending' THEN
+    RAISE EXCEPTION 'Cannot respond to an offer with status: %', v_offer.status USING ERRCODE = '55000';
+  END IF;
+
+  IF v_offer.expires_at IS NOT NULL AND v_offer.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This offer has expired' USING ERRCODE = '55000';
+  END IF;
+
+  RETURN v_offer;
+END;
+$$;
+
+-- Accept an offer into the conversation's job. Returns what the homeowner
+-- needs to pay into escrow.
+CREATE OR REPLACE FUNCTION accept_message_offer(
+  p_offer_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer message_offers%ROWTYPE;
+  v_conversation conversations%ROWTYPE;
+  v_job_id UUID;
+  v_bid_id UUID;
+  v_bid_message TEXT;
+BEGIN
+  v_offer := lock_pending_message_offer(p_offer_id, p_user_id);
+
+  SELECT c.* INTO v_conversation
+  FROM conversations c
+  JOIN messages m ON m.conversation_id = c.id
+  WHERE m.id = v_offer.message_id
+  FOR UPDATE OF c;
+
+  v_bid_message := 'Agreed in chat: ' || v_offer.title || ' (' || v_offer.delivery_days || ' days)'
+    || COALESCE(E'\n' || v_offer.notes, '');
+
+  IF v_conversation.job_id IS NOT NULL THEN
+    v_job_id := v_conversation.job_id::UUID;
+
+    -- Reuse the pro's pending bid on the job, repriced to the offer
+    SELECT id INTO v_bid_id
+    FROM job_bids
+    WHERE job_id = v_job_id
+      AND contractor_id = v_conversation.pro_id
+      AND status = 'pending'
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  ELSE
+    -- Chats without a job get one. It starts as bid_received so it is open for
+    -- accept_job_bid() without being announced to other contractors.
+    INSERT INTO homeowner_jobs (
+      homeowner_id,
+      title,
+      description,
+      estimated_cost,
+      status
+    ) VALUES (
+      v_conversation.homeowner_id,
+      v_offer.title,
+      v_offer.notes,
+      v_offer.price,
+      'bid_received'
+    )
+    RETURNING id INTO v_job_id;
+
+    UPDATE conversations
+    SET job_id = v_job_id::TEXT, updated_at = NOW()
+    WHERE id = v_conversation.id;
+  END IF;
+
+  IF v_bid_id IS NOT NULL THEN
+    UPDATE job_bids
+    SET
+      bid_amount = v_offer.price,
+      message = v_bid_message,
+      updated_at = NOW()
+    WHERE id = v_bid_id;
+  ELSE
+    INSERT INTO job_bids (
+      job_id,
+      contractor_id,
+      homeowner_id,
+      bid_amount,
+      message,
+      status
+    ) VALUES (
+      v_job_id,
+      v_conversation.pro_id,
+      v_conversation.homeowner_id,
+      v_offer.price,
+      v_bid_message,
+      'pending'
+    )
+    RETURNING id INTO v_bid_id;
+  END IF;
+
+  PERFORM accept_job_bid(v_bid_id, v_conversation.homeowner_id);
+
+  UPDATE message_offers
+  SET
+    status = 'accepted',
+    job_id = v_job_id,
+    bid_id = v_bid_id,
+    updated_at = NOW()
+  WHERE id = p_offer_id;
+
+  INSERT INTO messages (
+    conversation_id,
+    sender_id,
+    message_type,
+    content,
+    metadata,
+    created_at
+  ) VALUES (
+    v_conversation.id,
+    NULL, -- System message
+    'system',
+    'Offer "' || v_offer.title || '" accepted for $' || v_offer.price
+      || '. The job starts once the payment is held in escrow.',
+    jsonb_build_object('offer_id', p_offer_id, 'job_id', v_job_id, 'bid_id', v_bid_id),
+    NOW()
+  );
+
+  RETURN jsonb_build_object(
+    'offer_id', p_offer_id,
+    'job_id', v_job_id,
+    'bid_id', v_bid_id,
+    'homeowner_id', v_conversation.homeowner_id,
+    'contractor_id', v_conversation.pro_id,
+    'amount', v_offer.price
+  );
+END;
+$$;
+
+-- Counter an offer: the original is marked countered with the new terms and
+-- a new pending offer from the caller links back to it
+CREATE OR REPLACE FUNCTION counter_message_offer(
+  p_offer_id UUID,
+  p_user_id UUID,
+  p_price DECIMAL(10,2),
+  p_delivery_days INTEGER,
+  p_notes TEXT DEFAULT NULL,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_offer message_offers%ROWTYPE;
+  v_conversation_id UUID;
+  v_message_id UUID;
+  v_counter_id UUID;
+BEGIN
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Counter price must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_delivery_days IS NULL OR p_delivery_days <= 0 THEN
+    RAISE EXCEPTION 'Delivery days must be greater than zero' USING ERRCODE = '22023';
+  END IF;
+
+  v_offer := lock_pending_message_offer(p_offer_id, p_user_id);
+
+  SELECT conversation_id INTO v_conversation_id FROM messages WHERE id = v_offer.message_id;
+
+  UPDATE message_offers
+  SET
+    status = 'countered',
+    counter_price = p_price,
+    counter_days = p_delivery_days,
+    counter_notes = p_notes,
+    updated_at = NOW()
+  WHERE id = p_offer_id;
+
+  INSERT INTO messages (
+    conversation_id,
+    sender_id,
+    message_type,
+    content
+  ) VALUES (
+    v_conversation_id,
+    p_user_id,
+    'offer',
+    'Counter-offer: ' || v_offer.title || ' - $' || p_price
+  )
+  RETURNING id INTO v_message_id;
+
+  INSERT INTO message_offers (
+    message_id,
+    parent_offer_id,
+    title,
+    price,
+    delivery_days,
+    notes,
+    expires_at
+  ) VALUES (
+    v_message_id,
+    p_offer_id,
+    v_offer.title,
+    p_price,
+    p_delivery_days,
+    p_notes,
+    p_expires_at
+  )
+  RETURNING id INTO v_counter_id;
+
+  RETURN v_counter_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_message_offer(
+  p_offer_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM lock_pending_message_offer(p_offer_id, p_user_id);
+
+  UPDATE message_offers
+  SET status = 'declined', updated_at = NOW()
+  WHERE id = p_offer_id;
+END;
+$$;
+
+-- 4. EXPIRY
+-- -----------------------------------------------------------------------------
+-- Run by the expire-bids cron. Each expired offer gets a system message in
+-- its conversation.
+
+CREATE OR REPLACE FUNCTION expire_message_offers()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE message_offers
+    SET status = 'expired', updated_at = NOW()
+    WHERE status = 'pending'
+      AND expires_at IS NOT NULL
+      AND expires_at <= NOW()
+    RETURNING id, message_id, title
+  )
+  INSERT INTO messages (conversation_id, sender_id, message_type, content, metadata)
+  SELECT
+    m.conversation_id,
+    NULL, -- System message
+    'system',
+    'Offer "' || e.title || '" expired without a response.',
+    jsonb_build_object('offer_id', e.id)
+  FROM expired e
+  JOIN messages m ON m.id = e.message_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_pending_message_offer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION accept_message_offer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION counter_message_offer(UUID, UUID, DECIMAL, INTEGER, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION decline_message_offer(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_message_offers() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION accept_message_offer IS 'Accept an in-chat offer: create or reuse the job, accept the pro''s bid at the offer price and post a system message';
+COMMENT ON FUNCTION expire_message_offers IS 'Expire pending in-chat offers past expires_at';
+
+SELECT 'In-chat offer acceptance created successfully!' as status;
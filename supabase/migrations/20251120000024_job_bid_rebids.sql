@@ -0,0 +1,18 @@
+-- =============================================================================
+-- RE-BIDDING
+-- The original job_bids table allowed one bid per contractor per job, ever.
+-- A withdrawn, rejected or expired bid should not stop the contractor bidding
+-- again (lib/bids.ts), and accept_message_offer() inserts a fresh bid when the
+-- pro's earlier one is closed. Only live bids stay unique.
+-- =============================================================================
+
+-- 1. ONE LIVE BID PER CONTRACTOR PER JOB
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE job_bids DROP CONSTRAINT IF EXISTS job_bids_job_id_contractor_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_bids_one_live_per_contractor
+  ON job_bids(job_id, contractor_id)
+  WHERE status IN ('pending', 'accepted');
+
+SELECT 'Job bid re-bidding enabled successfully!' as status;
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type Stripe from 'stripe'
+import { FakeSupabase } from './helpers/fakeSupabase'
+import { BillingConfig, createBillingPortalSession, createSubscriptionCheckout, syncStripeSubscription } from '../lib/billing'
+
+const config: BillingConfig = {
+  prices: {
+    pro: { month: 'price_pro_month', year: 'price_pro_year' },
+    signals: { month: 'price_signals_month', year: 'price_signals_year' }
+  }
+}
+
+/** Contractors have a pro_contractors row and no user_profiles row */
+function contractorDb() {
+  return new FakeSupabase({
+    pro_contractors: [{ id: 'contractor_1', name: 'Ace Plumbing', email: 'ace@example.com', stripe_customer_id: null, subscription_type: 'free' }]
+  })
+}
+
+function fakeStripe() {
+  const customers: Array<Record<string, unknown>> = []
+  const stripe = {
+    customers: {
+      create: async (params: Record<string, unknown>) => {
+        customers.push(params)
+        return { id: `cus_${customers.length}` }
+      }
+    },
+    checkout: {
+      sessions: {
+        create: async (params: { customer: string }) => ({ id: 'cs_1', url: `https://checkout.stripe.test/${params.customer}` })
+      }
+    },
+    billingPortal: {
+      sessions: {
+        create: async (params: { customer: string }) => ({ url: `https://billing.stripe.test/${params.customer}` })
+      }
+    }
+  }
+  return { stripe: stripe as unknown as Stripe, customers }
+}
+
+function subscription(overrides: Partial<Stripe.Subscription> = {}): Stripe.Subscription {
+  return {
+    id: 'sub_1',
+    customer: 'cus_1',
+    status: 'active',
+    metadata: {},
+    cancel_at_period_end: false,
+    canceled_at: null,
+    items: { data: [{ price: { id: 'price_pro_month', recurring: { interval: 'month' } }, current_period_end: 1767225600 }] },
+    ...overrides
+  } as unknown as Stripe.Subscription
+}
+
+describe('contractor billing', () => {
+  it('stores the Stripe customer on pro_contractors and reuses it', async () => {
+    const db = contractorDb()
+    const { stripe, customers } = fakeStripe()
+    const user = { id: 'contractor_1' }
+
+    const checkout = await createSubscriptionCheckout({ supabase: db.client, stripe, user, plan: 'pro', interval: 'month', config })
+    const portal = await createBillingPortalSession({ supabase: db.client, stripe, userId: user.id })
+
+    assert.equal(customers.length, 1)
+    assert.equal(customers[0].email, 'ace@example.com')
+    assert.equal(db.table('pro_contractors')[0].stripe_customer_id, 'cus_1')
+    assert.equal(db.table('stripe_customers').length, 0)
+    assert.equal(checkout.url, 'https://checkout.stripe.test/cus_1')
+    assert.equal(portal.url, 'https://billing.stripe.test/cus_1')
+  })
+
+  it('finds the contractor by customer and mirrors the plan onto pro_contractors', async () => {
+    const db = contractorDb()
+    db.table('pro_contractors')[0].stripe_customer_id = 'cus_1'
+
+    await syncStripeSubscription({ supabase: db.client, subscription: subscription(), config })
+
+    assert.equal(db.table('billing_subscriptions')[0].user_id, 'contractor_1')
+    assert.equal(db.table('billing_subscriptions')[0].plan, 'pro')
+    assert.equal(db.table('pro_contractors')[0].subscription_type, 'pro')
+
+    await syncStripeSubscription({ supabase: db.client, subscription: subscription({ status: 'canceled' }), config })
+
+    assert.equal(db.table('pro_contractors')[0].subscription_type, 'free')
+  })
+})
@@ -0,0 +1,218 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type Stripe from 'stripe'
+import { FakeSupabase } from './helpers/fakeSupabase'
+import { EscrowError } from '../lib/escrow'
+import { PaymentDispute, addDisputeEvidence, openDispute, resolveDispute } from '../lib/disputes'
+
+function fakeStripe(options: { failTransfer?: boolean } = {}) {
+  const calls: string[] = []
+  const stripe = {
+    refunds: {
+      create: async (params: { amount: number }) => {
+        calls.push(`refund:${params.amount}`)
+        return { id: 're_1', status: 'succeeded' }
+      }
+    },
+    transfers: {
+      create: async (params: { amount: number }) => {
+        if (options.failTransfer) throw new Error('Stripe is unavailable')
+        calls.push(`transfer:${params.amount}`)
+        return { id: 'tr_1' }
+      },
+      createReversal: async () => ({ id: 'trr_1' })
+    },
+    paymentIntents: {
+      cancel: async () => {
+        calls.push('cancel')
+        return { id: 'pi_1' }
+      }
+    }
+  }
+  return { stripe: stripe as unknown as Stripe, calls }
+}
+
+const dispute: PaymentDispute = {
+  id: 'dispute_1',
+  payment_hold_id: 'hold_1',
+  job_id: 'job_1',
+  homeowner_id: 'homeowner_1',
+  contractor_id: 'contractor_1',
+  opened_by: 'homeowner_1',
+  opened_by_role: 'homeowner',
+  reason: 'poor_quality',
+  description: 'Leak came back',
+  status: 'open',
+  resolution: null,
+  contractor_amount: null,
+  refund_amount: null,
+  resolution_rationale: null,
+  resolved_by: null,
+  resolved_at: null,
+  created_at: '2025-11-20T00:00:00Z',
+  updated_at: '2025-11-20T00:00:00Z'
+}
+
+function disputeDb(holdStatus: string) {
+  const db = new FakeSupabase({
+    payment_holds: [{
+      id: 'hold_1',
+      job_id: 'job_1',
+      bid_id: 'bid_1',
+      homeowner_id: 'homeowner_1',
+      contractor_id: 'contractor_1',
+      amount: 200,
+      platform_fee: 20,
+      contractor_payout: 180,
+      refunded_amount: 0,
+      status: holdStatus,
+      stripe_payment_intent_id: 'pi_1',
+      escrow_frozen: true,
+      active_dispute_id: 'dispute_1',
+      homeowner_confirmed_complete: false,
+      contractor_confirmed_complete: true
+    }],
+    payment_disputes: [{ ...dispute }],
+    homeowner_jobs: [{ id: 'job_1', status: 'in_progress' }],
+    stripe_connect_accounts: [{ contractor_id: 'contractor_1', stripe_account_id: 'acct_1', payouts_enabled: true }]
+  })
+  db.unique.transactions = [['type', 'stripe_id']]
+  return db
+}
+
+const resolve = (db: FakeSupabase, stripe: Stripe, resolution: 'release' | 'split' | 'refund', contractorAmount?: number) =>
+  resolveDispute({
+    supabase: db.client,
+    stripe,
+    dispute,
+    adminId: 'admin_1',
+    resolution,
+    contractorAmount,
+    rationale: 'Reviewed photos'
+  })
+
+describe('resolveDispute', () => {
+  it('refuses to release an authorization that was never captured, changing nothing', async () => {
+    const db = disputeDb('authorized')
+    const { stripe, calls } = fakeStripe()
+
+    await assert.rejects(resolve(db, stripe, 'release'), (error: unknown) =>
+      error instanceof EscrowError && error.status === 409)
+
+    const hold = db.table('payment_holds')[0]
+    assert.equal(hold.escrow_frozen, true)
+    assert.equal(hold.homeowner_confirmed_complete, false)
+    assert.deepEqual(calls, [])
+    assert.equal(db.table('payment_disputes')[0].status, 'open')
+  })
+
+  it('keeps the hold frozen and the dispute open when the payout fails', async () => {
+    const db = disputeDb('captured')
+    const { stripe } = fakeStripe({ failTransfer: true })
+
+    await assert.rejects(resolve(db, stripe, 'release'), /Stripe is unavailable/)
+
+    const hold = db.table('payment_holds')[0]
+    assert.equal(hold.escrow_frozen, true)
+    assert.equal(hold.active_dispute_id, 'dispute_1')
+    assert.equal(hold.homeowner_confirmed_complete, false)
+    assert.equal(db.table('payment_disputes')[0].status, 'open')
+  })
+
+  it('splits a captured payment, then unfreezes and closes the dispute', async () => {
+    const db = disputeDb('captured')
+    const { stripe, calls } = fakeStripe()
+
+    const resolved = await resolve(db, stripe, 'split', 120)
+
+    // $80 back to the homeowner; the contractor gets $120 less the 10% fee
+    assert.deepEqual(calls, ['refund:8000', 'transfer:10800'])
+    const hold = db.table('payment_holds')[0]
+    assert.equal(hold.status, 'released')
+    assert.equal(hold.escrow_frozen, false)
+    assert.equal(hold.active_dispute_id, null)
+    assert.equal(hold.homeowner_confirmed_complete, true)
+    assert.equal(resolved.status, 'resolved')
+    assert.equal(resolved.refund_amount, 80)
+    assert.equal(db.table('homeowner_jobs')[0].status, 'completed')
+  })
+
+  it('resumes a split whose payout failed without refunding twice', async () => {
+    const db = disputeDb('captured')
+
+    await assert.rejects(resolve(db, fakeStripe({ failTransfer: true }).stripe, 'split', 120), /Stripe is unavailable/)
+
+    const saved = db.table('payment_disputes')[0]
+    assert.equal(saved.status, 'open')
+    assert.equal(saved.resolution, 'split')
+    assert.equal(saved.refund_amount, 80)
+    assert.equal(db.table('payment_holds')[0].refunded_amount, 80)
+
+    const { stripe, calls } = fakeStripe()
+    const resolved = await resolveDispute({
+      supabase: db.client,
+      stripe,
+      dispute: { ...saved } as PaymentDispute,
+      adminId: 'admin_1',
+      resolution: 'split',
+      contractorAmount: 120,
+      rationale: 'Reviewed photos'
+    })
+
+    assert.deepEqual(calls, ['transfer:10800'])
+    assert.equal(resolved.status, 'resolved')
+    assert.equal(resolved.contractor_amount, 120)
+    assert.equal(db.table('payment_holds')[0].escrow_frozen, false)
+  })
+
+  it('cancels an uncaptured authorization on a full refund', async () => {
+    const db = disputeDb('authorized')
+    const { stripe, calls } = fakeStripe()
+
+    await resolve(db, stripe, 'refund')
+
+    assert.deepEqual(calls, ['cancel'])
+    assert.equal(db.table('payment_holds')[0].status, 'cancelled')
+    assert.equal(db.table('payment_holds')[0].escrow_frozen, false)
+  })
+})
+
+describe('openDispute', () => {
+  it('drops the dispute when the hold cannot be frozen', async () => {
+    const db = disputeDb('captured')
+    db.table('payment_disputes').length = 0
+    Object.assign(db.table('payment_holds')[0], { escrow_frozen: false, active_dispute_id: null })
+    db.failNext('payment_holds', 'update')
+
+    await assert.rejects(openDispute({
+      supabase: db.client,
+      hold: db.table('payment_holds')[0],
+      userId: 'homeowner_1',
+      reason: 'poor_quality',
+      description: 'Leak came back'
+    }))
+
+    assert.equal(db.table('payment_disputes').length, 0)
+    assert.equal(db.table('payment_holds')[0].escrow_frozen, false)
+    assert.equal(db.table('notifications').length, 0)
+  })
+})
+
+describe('addDisputeEvidence', () => {
+  it('only accepts messages from the conversation about the disputed job', async () => {
+    const db = new FakeSupabase({
+      messages: [{
+        id: 'message_1',
+        sender_id: 'homeowner_1',
+        content: 'See you Tuesday',
+        created_at: '2025-11-01T00:00:00Z',
+        conversation: { homeowner_id: 'homeowner_1', pro_id: 'contractor_1', job_id: 'job_2' }
+      }]
+    })
+
+    await assert.rejects(
+      addDisputeEvidence({ supabase: db.client, dispute, userId: 'homeowner_1', type: 'message', messageId: 'message_1' }),
+      /disputed job/
+    )
+  })
+})
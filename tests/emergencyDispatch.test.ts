@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { FakeSupabase } from './helpers/fakeSupabase'
+import { ManualClock } from '../lib/clock'
+import {
+  DispatchConfig,
+  DispatchDeps,
+  DispatchNotifier,
+  DispatchOffer,
+  EmergencyDispatch,
+  runDispatchTick,
+  startDispatch
+} from '../lib/emergencyDispatch'
+
+const config: DispatchConfig = {
+  ackWindowSeconds: 120,
+  ringRadiiMiles: [10, 20, 35],
+  ringSize: 3,
+  surgeFromRing: 2
+}
+
+const WINDOW_MS = config.ackWindowSeconds * 1000
+
+/** A contractor `miles` due north of the job */
+function contractor(id: string, miles: number, extra: Record<string, any> = {}) {
+  return {
+    id,
+    status: 'approved',
+    kyc_status: 'completed',
+    categories: ['Plumbing'],
+    emergency_service: true,
+    availability: 'online',
+    latitude: 40 + miles / 69,
+    longitude: -75,
+    peak_rate: 100,
+    surge_rate: 150,
+    ...extra
+  }
+}
+
+function dispatchDb() {
+  const db = new FakeSupabase({
+    homeowner_jobs: [{
+      id: 'job_1',
+      homeowner_id: 'homeowner_1',
+      title: 'Burst pipe',
+      category: 'Plumbing',
+      priority: 'emergency',
+      status: 'pending',
+      zip_code: '19103',
+      latitude: 40,
+      longitude: -75
+    }],
+    pro_contractors: [
+      contractor('near', 2, { service_area_zips: ['19103'] }),
+      contractor('mid', 15),
+      contractor('far', 30)
+    ]
+  })
+  db.unique.emergency_dispatches = [['job_id']]
+  return db
+}
+
+function recordingNotifier() {
+  const events: string[] = []
+  const notifier: DispatchNotifier = {
+    offerMade: async (offer: DispatchOffer) => {
+      events.push(`offer:${offer.ring}:${offer.contractor_id}:${offer.rate_type}`)
+    },
+    dispatchAccepted: async (_dispatch: EmergencyDispatch, contractor: any) => {
+      events.push(`accepted:${contractor.id}`)
+    },
+    dispatchExhausted: async (dispatch: EmergencyDispatch) => {
+      events.push(`exhausted:${dispatch.current_ring}`)
+    }
+  }
+  return { notifier, events }
+}
+
+const dispatchRow = (db: FakeSupabase) => db.table('emergency_dispatches')[0]
+const offerStatuses = (db: FakeSupabase) =>
+  Object.fromEntries(db.table('dispatch_offers').map(o => [o.contractor_id, o.status]))
+
+describe('emergency dispatch escalation', () => {
+  it('widens ring by ring as each window closes, then reports exhaustion', async () => {
+    const db = dispatchDb()
+    const clock = new ManualClock(new Date('2025-11-20T12:00:00Z'))
+    const { notifier, events } = recordingNotifier()
+    const deps: DispatchDeps = { supabase: db.client, clock, config, notifier }
+
+    const started = await startDispatch(deps, 'job_1')
+
+    assert.equal(started.current_ring, 1)
+    assert.equal(started.next_escalation_at, '2025-11-20T12:02:00.000Z')
+    assert.deepEqual(events, ['offer:1:near:peak'])
+
+    // Inside the window nothing is due
+    clock.advance(WINDOW_MS - 1000)
+    assert.deepEqual(await runDispatchTick(deps), { checked: 0, escalated: 0, exhausted: 0, cancelled: 0 })
+    assert.equal(dispatchRow(db).current_ring, 1)
+
+    // Ring 2 drops the service-area requirement and prices at surge
+    clock.advance(1000)
+    assert.equal((await runDispatchTick(deps)).escalated, 1)
+    assert.equal(dispatchRow(db).current_ring, 2)
+    assert.equal(dispatchRow(db).current_radius_miles, 20)
+    assert.equal(dispatchRow(db).next_escalation_at, '2025-11-20T12:04:00.000Z')
+    assert.deepEqual(offerStatuses(db), { near: 'expired', mid: 'offered' })
+
+    clock.advance(WINDOW_MS)
+    assert.equal((await runDispatchTick(deps)).escalated, 1)
+    assert.equal(dispatchRow(db).current_ring, 3)
+    assert.deepEqual(offerStatuses(db), { near: 'expired', mid: 'expired', far: 'offered' })
+
+    clock.advance(WINDOW_MS)
+    assert.equal((await runDispatchTick(deps)).exhausted, 1)
+    assert.equal(dispatchRow(db).status, 'exhausted')
+    assert.equal(dispatchRow(db).finished_at, '2025-11-20T12:06:00.000Z')
+    assert.equal(dispatchRow(db).next_escalation_at, null)
+
+    assert.deepEqual(events, [
+      'offer:1:near:peak',
+      'offer:2:mid:surge',
+      'offer:3:far:surge',
+      'exhausted:3'
+    ])
+    assert.deepEqual(
+      db.table('dispatch_offers').map(o => o.hourly_rate),
+      [100, 150, 150]
+    )
+  })
+
+  it('skips rings with nobody new in range', async () => {
+    const db = dispatchDb()
+    db.tables.pro_contractors = [
+      contractor('near', 2, { service_area_zips: ['19103'] }),
+      contractor('far', 30)
+    ]
+    const clock = new ManualClock(new Date('2025-11-20T12:00:00Z'))
+    const { notifier, events } = recordingNotifier()
+    const deps: DispatchDeps = { supabase: db.client, clock, config, notifier }
+
+    await startDispatch(deps, 'job_1')
+    clock.advance(WINDOW_MS)
+    await runDispatchTick(deps)
+
+    assert.equal(dispatchRow(db).current_ring, 3)
+    assert.deepEqual(events, ['offer:1:near:peak', 'offer:3:far:surge'])
+  })
+
+  it('cancels the cascade once the job is no longer open', async () => {
+    const db = dispatchDb()
+    const clock = new ManualClock(new Date('2025-11-20T12:00:00Z'))
+    const { notifier } = recordingNotifier()
+    const deps: DispatchDeps = { supabase: db.client, clock, config, notifier }
+
+    await startDispatch(deps, 'job_1')
+    db.table('homeowner_jobs')[0].status = 'cancelled'
+    clock.advance(WINDOW_MS)
+
+    assert.equal((await runDispatchTick(deps)).cancelled, 1)
+    assert.equal(dispatchRow(db).status, 'cancelled')
+    assert.deepEqual(offerStatuses(db), { near: 'superseded' })
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type Stripe from 'stripe'
+import { FakeSupabase } from './helpers/fakeSupabase'
+import { EscrowError, calculateFees, canRefund, refundPaymentHold } from '../lib/escrow'
+
+describe('canRefund', () => {
+  it('lets homeowners cancel only uncaptured authorizations', () => {
+    assert.equal(canRefund({ status: 'pending' }, 'homeowner'), true)
+    assert.equal(canRefund({ status: 'authorized' }, 'homeowner'), true)
+    assert.equal(canRefund({ status: 'captured', contractor_confirmed_complete: false }, 'homeowner'), false)
+    assert.equal(canRefund({ status: 'released' }, 'homeowner'), false)
+  })
+
+  it('lets admins refund captured and released payments', () => {
+    assert.equal(canRefund({ status: 'captured' }, 'admin'), true)
+    assert.equal(canRefund({ status: 'released' }, 'admin'), true)
+    assert.equal(canRefund({ status: 'refunded' }, 'admin'), false)
+  })
+
+  it('refuses frozen holds except for the dispute that froze them', () => {
+    const hold = { status: 'authorized', escrow_frozen: true, active_dispute_id: 'dispute_1' }
+
+    assert.equal(canRefund(hold, 'homeowner'), false)
+    assert.equal(canRefund({ ...hold, status: 'captured' }, 'admin'), false)
+    assert.equal(canRefund({ ...hold, status: 'captured' }, 'admin', 'dispute_2'), false)
+    assert.equal(canRefund({ ...hold, status: 'captured' }, 'admin', 'dispute_1'), true)
+  })
+})
+
+describe('calculateFees', () => {
+  it('splits off the platform fee to the cent', () => {
+    assert.deepEqual(calculateFees(250), { platformFee: 25, contractorPayout: 225 })
+    assert.deepEqual(calculateFees(99.99), { platformFee: 10, contractorPayout: 89.99 })
+  })
+})
+
+describe('refundPaymentHold', () => {
+  it('refuses to book a refund over one that landed since the hold was read', async () => {
+    const stripe = {
+      refunds: { create: async () => ({ id: 're_2', status: 'succeeded' }) }
+    } as unknown as Stripe
+    const staleHold = {
+      id: 'hold_1',
+      job_id: 'job_1',
+      amount: 200,
+      platform_fee: 20,
+      contractor_payout: 180,
+      refunded_amount: 0,
+      status: 'captured',
+      stripe_payment_intent_id: 'pi_1'
+    }
+    const db = new FakeSupabase({
+      payment_holds: [{ ...staleHold, status: 'partial_refund', refunded_amount: 50 }]
+    })
+
+    await assert.rejects(
+      refundPaymentHold({
+        supabase: db.client,
+        stripe,
+        hold: staleHold,
+        amount: 50,
+        reason: 'Second refund',
+        initiatedBy: 'admin_1',
+        initiator: 'admin'
+      }),
+      (error: unknown) => error instanceof EscrowError && error.status === 409
+    )
+    assert.equal(db.table('payment_holds')[0].refunded_amount, 50)
+    assert.equal(db.table('transactions').length, 0)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type Stripe from 'stripe'
+import { FakeSupabase } from './helpers/fakeSupabase'
+import { runEscrowAutoRelease } from '../lib/escrowAutoRelease'
+
+const config = { graceHours: 72, reminderHours: [24, 48] }
+const now = new Date('2025-11-24T00:00:00Z')
+
+function fakeStripe(options: { failTransfer?: boolean } = {}) {
+  const transfers: number[] = []
+  const stripe = {
+    transfers: {
+      create: async (params: { amount: number }) => {
+        if (options.failTransfer) throw new Error('Stripe is unavailable')
+        transfers.push(params.amount)
+        return { id: `tr_${transfers.length}` }
+      }
+    }
+  }
+  return { stripe: stripe as unknown as Stripe, transfers }
+}
+
+function escrowDb(overrides: Record<string, any> = {}) {
+  return new FakeSupabase({
+    payment_holds: [{
+      id: 'hold_1',
+      job_id: 'job_1',
+      bid_id: 'bid_1',
+      homeowner_id: 'homeowner_1',
+      contractor_id: 'contractor_1',
+      amount: 200,
+      contractor_payout: 180,
+      status: 'captured',
+      escrow_frozen: false,
+      contractor_confirmed_complete: true,
+      contractor_confirmed_at: '2025-11-20T00:00:00Z',
+      homeowner_confirmed_complete: false,
+      auto_release_reminders_sent: 2,
+      ...overrides
+    }],
+    homeowner_jobs: [{ id: 'job_1', status: 'in_progress' }],
+    stripe_connect_accounts: [{ contractor_id: 'contractor_1', stripe_account_id: 'acct_1', payouts_enabled: true }]
+  })
+}
+
+const hold = (db: FakeSupabase) => db.table('payment_holds')[0]
+const auditActions = (db: FakeSupabase) => db.table('escrow_audit_log').map(entry => entry.action)
+
+describe('runEscrowAutoRelease', () => {
+  it('auto-confirms and releases once the grace window has passed', async () => {
+    const db = escrowDb()
+    const { stripe, transfers } = fakeStripe()
+
+    const summary = await runEscrowAutoRelease({ supabase: db.client, stripe, now, config })
+
+    assert.equal(summary.released, 1)
+    assert.deepEqual(transfers, [18000])
+    assert.equal(hold(db).status, 'released')
+    assert.equal(hold(db).homeowner_confirmed_complete, true)
+    assert.equal(hold(db).homeowner_auto_confirmed, true)
+    assert.equal(db.table('homeowner_jobs')[0].status, 'completed')
+    assert.deepEqual(auditActions(db), ['auto_confirmed', 'auto_released'])
+  })
+
+  it('leaves a hold whose release failed for the next run to retry', async () => {
+    const db = escrowDb()
+
+    const failed = await runEscrowAutoRelease({ supabase: db.client, stripe: fakeStripe({ failTransfer: true }).stripe, now, config })
+
+    assert.equal(failed.failed, 1)
+    assert.equal(hold(db).status, 'captured')
+    assert.equal(hold(db).homeowner_confirmed_complete, false)
+    assert.deepEqual(auditActions(db), ['release_failed'])
+
+    const { stripe, transfers } = fakeStripe()
+    const retried = await runEscrowAutoRelease({ supabase: db.client, stripe, now, config })
+
+    assert.equal(retried.released, 1)
+    assert.deepEqual(transfers, [18000])
+    assert.equal(hold(db).status, 'released')
+    assert.equal(hold(db).homeowner_confirmed_complete, true)
+  })
+
+  it('does not release a hold frozen by a dispute', async () => {
+    const db = escrowDb({ escrow_frozen: true })
+    const { stripe, transfers } = fakeStripe()
+
+    const summary = await runEscrowAutoRelease({ supabase: db.client, stripe, now, config })
+
+    assert.equal(summary.skipped, 1)
+    assert.deepEqual(transfers, [])
+    assert.equal(hold(db).status, 'captured')
+  })
+})
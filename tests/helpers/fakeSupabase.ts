@@ -0,0 +1,299 @@
+/**
+ * In-memory stand-in for the slice of the Supabase query builder our
+ * server libraries use (select/insert/update/upsert/delete, the common
+ * filters, order/limit, single/maybeSingle and rpc). Tables are plain
+ * arrays so tests can seed rows and assert on them directly.
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+type Row = Record<string, any>
+type QueryError = { code?: string; message: string }
+type QueryResult = { data: any; error: QueryError | null }
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {}
+  /** Unique constraints per table, as lists of column names */
+  unique: Record<string, string[][]> = {}
+  rpcHandlers: Record<string, (args: Row) => any> = {}
+  /**
+   * Row-level AFTER UPDATE triggers per table. Returning an error fails the
+   * statement and rolls its rows back, as Postgres would.
+   */
+  triggers: Record<string, Array<(oldRow: Row, newRow: Row) => QueryError | null | void>> = {}
+  /** auth.users by id, for auth.admin.getUserById */
+  users: Record<string, Row> = {}
+  auth = {
+    admin: {
+      getUserById: async (id: string) => ({ data: { user: this.users[id] ?? null }, error: null })
+    }
+  }
+  private failures: Array<{ table: string; operation: Operation; error: QueryError }> = []
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables[table] = rows.map(row => ({ ...row }))
+    }
+  }
+
+  table(name: string): Row[] {
+    if (!this.tables[name]) this.tables[name] = []
+    return this.tables[name]
+  }
+
+  /** Make the next `operation` on `table` return an error */
+  failNext(table: string, operation: Operation, message = 'simulated failure') {
+    this.failures.push({ table, operation, error: { message } })
+  }
+
+  takeFailure(table: string, operation: Operation): QueryError | null {
+    const index = this.failures.findIndex(f => f.table === table && f.operation === operation)
+    if (index === -1) return null
+    return this.failures.splice(index, 1)[0].error
+  }
+
+  from(table: string) {
+    return new FakeQuery(this, table)
+  }
+
+  async rpc(name: string, args: Row = {}): Promise<QueryResult> {
+    const handler = this.rpcHandlers[name]
+    if (!handler) return { data: null, error: { code: '42883', message: `function ${name} does not exist` } }
+
+    try {
+      return { data: await handler(args), error: null }
+    } catch (error: any) {
+      return { data: null, error: { code: error.code, message: error.message } }
+    }
+  }
+
+  get client(): SupabaseClient {
+    return this as unknown as SupabaseClient
+  }
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  return a < b ? -1 : 1
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private operation: Operation = 'select'
+  private payload: Row[] = []
+  private onConflict: string[] | null = null
+  private ignoreDuplicates = false
+  private returning = false
+  private filters: Array<(row: Row) => boolean> = []
+  private ordering: Array<{ column: string; ascending: boolean }> = []
+  private limitCount: number | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(private db: FakeSupabase, private tableName: string) {}
+
+  select(_columns?: string) {
+    if (this.operation !== 'select') this.returning = true
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = 'insert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}) {
+    this.operation = 'upsert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    this.onConflict = (options.onConflict || 'id').split(',').map(c => c.trim())
+    this.ignoreDuplicates = !!options.ignoreDuplicates
+    return this
+  }
+
+  update(fields: Row) {
+    this.operation = 'update'
+    this.payload = [fields]
+    return this
+  }
+
+  delete() {
+    this.operation = 'delete'
+    return this
+  }
+
+  eq(column: string, value: any) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: any) {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: any[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(row => (row[column] ?? null) === value)
+    return this
+  }
+
+  /** Negates `is` and `eq`, the operators our queries pass to .not() */
+  not(column: string, operator: 'is' | 'eq', value: any) {
+    this.filters.push(row =>
+      operator === 'is' ? (row[column] ?? null) !== value : row[column] !== value
+    )
+    return this
+  }
+
+  lt(column: string, value: any) {
+    this.filters.push(row => row[column] != null && compare(row[column], value) < 0)
+    return this
+  }
+
+  lte(column: string, value: any) {
+    this.filters.push(row => row[column] != null && compare(row[column], value) <= 0)
+    return this
+  }
+
+  gt(column: string, value: any) {
+    this.filters.push(row => row[column] != null && compare(row[column], value) > 0)
+    return this
+  }
+
+  gte(column: string, value: any) {
+    this.filters.push(row => row[column] != null && compare(row[column], value) >= 0)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering.push({ column, ascending: options.ascending !== false })
+    return this
+  }
+
+  limit(count: number) {
+    this.limitCount = count
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private matches(row: Row) {
+    return this.filters.every(filter => filter(row))
+  }
+
+  private conflictsWith(row: Row, columns: string[]) {
+    return this.db.table(this.tableName).find(existing =>
+      columns.every(column => row[column] != null && existing[column] === row[column])
+    )
+  }
+
+  private uniqueViolation(row: Row): boolean {
+    const constraints = [['id'], ...(this.db.unique[this.tableName] || [])]
+    return constraints.some(columns => !!this.conflictsWith(row, columns))
+  }
+
+  private execute(): QueryResult {
+    const failure = this.db.takeFailure(this.tableName, this.operation)
+    if (failure) return { data: null, error: failure }
+
+    const table = this.db.table(this.tableName)
+    let affected: Row[] = []
+
+    switch (this.operation) {
+      case 'select':
+        affected = table.filter(row => this.matches(row))
+        break
+
+      case 'insert':
+        for (const input of this.payload) {
+          const row = { id: randomUUID(), ...input }
+          if (this.uniqueViolation(row)) {
+            return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } }
+          }
+          table.push(row)
+          affected.push(row)
+        }
+        break
+
+      case 'upsert':
+        for (const input of this.payload) {
+          const existing = this.conflictsWith(input, this.onConflict!)
+          if (existing) {
+            if (!this.ignoreDuplicates) {
+              Object.assign(existing, input)
+              affected.push(existing)
+            }
+            continue
+          }
+          const row = { id: randomUUID(), ...input }
+          table.push(row)
+          affected.push(row)
+        }
+        break
+
+      case 'update': {
+        affected = table.filter(row => this.matches(row))
+        const before = affected.map(row => ({ ...row }))
+        for (const row of affected) Object.assign(row, this.payload[0])
+
+        for (const [index, row] of affected.entries()) {
+          for (const trigger of this.db.triggers[this.tableName] || []) {
+            const triggerError = trigger(before[index], row)
+            if (triggerError) {
+              affected.forEach((changed, i) => {
+                for (const key of Object.keys(changed)) delete changed[key]
+                Object.assign(changed, before[i])
+              })
+              return { data: null, error: triggerError }
+            }
+          }
+        }
+        break
+      }
+
+      case 'delete':
+        affected = table.filter(row => this.matches(row))
+        this.db.tables[this.tableName] = table.filter(row => !affected.includes(row))
+        break
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null }
+    }
+
+    let rows = affected.map(row => ({ ...row }))
+    for (const { column, ascending } of [...this.ordering].reverse()) {
+      rows.sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1))
+    }
+    if (this.limitCount !== null) rows = rows.slice(0, this.limitCount)
+
+    if (this.mode === 'many') return { data: rows, error: null }
+
+    if (rows.length > 1 || (rows.length === 0 && this.mode === 'single')) {
+      return { data: null, error: { code: 'PGRST116', message: `Expected one row, found ${rows.length}` } }
+    }
+    return { data: rows[0] ?? null, error: null }
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  HistoryPoint,
+  LocationFix,
+  TrackingConfig,
+  TrackingError,
+  detectArrival,
+  estimateEta,
+  parseLocationFix
+} from '../lib/liveTracking'
+
+const config: TrackingConfig = {
+  minIntervalSeconds: 3,
+  maxAccuracyMeters: 150,
+  maxSpeedMps: 70,
+  maxFixAgeSeconds: 120,
+  arrivalRadiusMeters: 75,
+  fallbackSpeedMps: 11,
+  detourFactor: 1.3,
+  historyWindowSeconds: 180
+}
+
+const now = new Date('2025-11-20T12:00:00Z')
+const job = { latitude: 40, longitude: -75 }
+
+/** Meters per degree of latitude at the radius lib/geo.ts uses */
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180
+
+/** A position `meters` due north of the job */
+const north = (meters: number) => ({ latitude: job.latitude + meters / METERS_PER_DEGREE, longitude: job.longitude })
+
+function fix(meters: number, extra: Partial<LocationFix> = {}): LocationFix {
+  return { ...north(meters), accuracy: 10, heading: null, speed: null, recordedAt: now, ...extra }
+}
+
+function point(meters: number, secondsAgo: number, extra: Partial<HistoryPoint> = {}): HistoryPoint {
+  return {
+    ...north(meters),
+    accuracy: 10,
+    heading: null,
+    speed: null,
+    recorded_at: new Date(now.getTime() - secondsAgo * 1000).toISOString(),
+    ...extra
+  }
+}
+
+const rejects = (input: any, message: RegExp) =>
+  assert.throws(
+    () => parseLocationFix(input, now, config),
+    (error: unknown) => error instanceof TrackingError && error.status === 400 && message.test(error.message)
+  )
+
+describe('parseLocationFix', () => {
+  it('accepts a fix and drops nonsensical speed and heading', () => {
+    const parsed = parseLocationFix(
+      { latitude: '40.01', longitude: -75, accuracy: 12, speed: -1, heading: 400, timestamp: now.getTime() - 5000 },
+      now,
+      config
+    )
+
+    assert.equal(parsed.latitude, 40.01)
+    assert.equal(parsed.longitude, -75)
+    assert.equal(parsed.accuracy, 12)
+    assert.equal(parsed.speed, null)
+    assert.equal(parsed.heading, null)
+    assert.equal(parsed.recordedAt.toISOString(), '2025-11-20T11:59:55.000Z')
+  })
+
+  it('defaults the time of the fix to now', () => {
+    assert.equal(parseLocationFix({ latitude: 40, longitude: -75 }, now, config).recordedAt.getTime(), now.getTime())
+  })
+
+  it('rejects fixes that are not real positions', () => {
+    rejects({ longitude: -75 }, /latitude and longitude are required/)
+    rejects({ latitude: 91, longitude: -75 }, /latitude and longitude are required/)
+    rejects({ latitude: 0, longitude: 0 }, /not a real position/)
+    rejects({ latitude: 40, longitude: -75, accuracy: 500 }, /too inaccurate/)
+  })
+
+  it('rejects fixes with a bad timestamp', () => {
+    rejects({ latitude: 40, longitude: -75, timestamp: 'yesterday-ish' }, /not a valid time/)
+    rejects({ latitude: 40, longitude: -75, timestamp: now.getTime() + 5 * 60000 }, /in the future/)
+    rejects({ latitude: 40, longitude: -75, timestamp: now.getTime() - 10 * 60000 }, /too old/)
+  })
+})
+
+describe('estimateEta', () => {
+  it('is zero inside the arrival radius', () => {
+    const eta = estimateEta(fix(50), job, [], config)
+
+    assert.equal(eta.etaSeconds, 0)
+    assert.equal(Math.round(eta.distanceMeters), 50)
+  })
+
+  it('uses the closing speed over the recent history', () => {
+    const eta = estimateEta(fix(1000), job, [point(1300, 10), point(1600, 60)], config)
+
+    // 600 m closed in 60 s; the fix 10 s ago is too recent to be the baseline
+    assert.equal(eta.method, 'history')
+    assert.equal(Math.round(eta.etaSeconds), 100)
+  })
+
+  it('ignores history older than the window', () => {
+    const eta = estimateEta(fix(1000), job, [point(5000, 600)], config)
+
+    assert.equal(eta.method, 'straight_line')
+  })
+
+  it('projects the reported speed onto the direction of the job', () => {
+    const eta = estimateEta(fix(1000, { speed: 10, heading: 180 }), job, [], config)
+
+    assert.equal(eta.method, 'heading')
+    assert.equal(Math.round(eta.etaSeconds), 130)
+  })
+
+  it('falls back to a straight line at city speed when heading away', () => {
+    const eta = estimateEta(fix(1100, { speed: 10, heading: 0 }), job, [], config)
+
+    assert.equal(eta.method, 'straight_line')
+    assert.equal(Math.round(eta.etaSeconds), 130)
+  })
+})
+
+describe('detectArrival', () => {
+  it('needs the fix inside the geofence', () => {
+    assert.equal(detectArrival(fix(200), null, job, config), false)
+  })
+
+  it('counts the fix accuracy towards the geofence', () => {
+    assert.equal(detectArrival(fix(100, { accuracy: 40 }), null, job, config), true)
+    assert.equal(detectArrival(fix(200, { accuracy: 500 }), null, job, config), false)
+  })
+
+  it('does not count driving past the house', () => {
+    assert.equal(detectArrival(fix(30, { speed: 15 }), point(400, 20), job, config), false)
+  })
+
+  it('counts a fast fix when the previous one was already inside', () => {
+    assert.equal(detectArrival(fix(30, { speed: 15 }), point(60, 20), job, config), true)
+  })
+
+  it('counts a contractor who has slowed down', () => {
+    assert.equal(detectArrival(fix(30, { speed: 1 }), point(400, 20), job, config), true)
+  })
+})
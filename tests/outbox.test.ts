@@ -0,0 +1,181 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { FakeSupabase } from './helpers/fakeSupabase'
+import { ManualClock } from '../lib/clock'
+import { OutboxConfig, enqueueMessage, processOutbox } from '../lib/outbox'
+import type { MessageTransports, OutboundEmail, OutboundSMS } from '../lib/messageTransports'
+
+const START = new Date('2025-11-20T15:00:00Z')
+const config: OutboxConfig = { baseDelaySeconds: 60, maxDelaySeconds: 3600, batchSize: 10, lockSeconds: 120 }
+
+/** message_outbox with enqueue_outbound_message() and claim_outbox_messages() */
+function outboxDb() {
+  const db = new FakeSupabase()
+
+  db.rpcHandlers.enqueue_outbound_message = (args) => {
+    const existing = db.table('message_outbox').find(m => args.p_idempotency_key && m.idempotency_key === args.p_idempotency_key)
+    if (existing) return existing.id
+
+    const id = `msg_${db.table('message_outbox').length + 1}`
+    db.table('message_outbox').push({
+      id,
+      channel: args.p_channel,
+      recipient: args.p_recipient,
+      body: args.p_body ?? '',
+      subject: args.p_subject ?? null,
+      html: args.p_html ?? null,
+      idempotency_key: args.p_idempotency_key ?? null,
+      template: args.p_template ?? null,
+      template_data: args.p_template_data ?? null,
+      user_id: args.p_user_id ?? null,
+      event_type: args.p_event_type ?? null,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: 3,
+      next_attempt_at: START.toISOString(),
+      locked_until: null,
+      last_error: null,
+      sent_at: null
+    })
+    return id
+  }
+
+  db.rpcHandlers.claim_outbox_messages = (args) => {
+    const now = new Date(args.p_now)
+    const due = db.table('message_outbox')
+      .filter(m => (m.status === 'pending' && new Date(m.next_attempt_at) <= now) ||
+        (m.status === 'sending' && new Date(m.locked_until) < now))
+      .slice(0, args.p_limit)
+
+    for (const message of due) {
+      message.status = 'sending'
+      message.attempts++
+      message.locked_until = new Date(now.getTime() + args.p_lock_seconds * 1000).toISOString()
+    }
+    return due.map(message => ({ ...message }))
+  }
+
+  return db
+}
+
+/** Transports that fail the first `failures` sends */
+function fakeTransports(failures = 0) {
+  const sent: Array<OutboundEmail | OutboundSMS> = []
+  let calls = 0
+  const send = async (message: OutboundEmail | OutboundSMS) => {
+    calls++
+    if (calls <= failures) return { success: false, error: 'Provider unavailable' }
+    sent.push(message)
+    return { success: true }
+  }
+  const transports: MessageTransports = { email: send, sms: send }
+  return { transports, sent, calls: () => calls }
+}
+
+/** The delivery logged by the dispatcher when it queued the message */
+function logQueued(db: FakeSupabase, messageId: string) {
+  db.table('notification_deliveries').push({
+    id: `delivery_${messageId}`,
+    user_id: 'user_1',
+    event_type: 'work_started',
+    channel: 'email',
+    status: 'queued',
+    reason: null,
+    outbox_message_id: messageId
+  })
+}
+
+describe('enqueueMessage', () => {
+  it('queues a message once per idempotency key', async () => {
+    const db = outboxDb()
+    const message = { supabase: db.client, channel: 'email' as const, to: 'pat@example.com', subject: 'Work started', body: 'Hi', idempotencyKey: 'work-started:job_1' }
+
+    const first = await enqueueMessage(message)
+    const second = await enqueueMessage(message)
+
+    assert.equal(second, first)
+    assert.equal(db.table('message_outbox').length, 1)
+  })
+})
+
+describe('processOutbox', () => {
+  it('retries with exponential backoff, then dead-letters and logs the failure', async () => {
+    const db = outboxDb()
+    const clock = new ManualClock(START)
+    const { transports, calls } = fakeTransports(Infinity)
+    const id = await enqueueMessage({ supabase: db.client, channel: 'sms', to: '+15555550100', body: 'On my way' })
+    logQueued(db, id)
+    const run = () => processOutbox({ supabase: db.client, transports, clock, config })
+
+    assert.equal((await run()).retrying, 1)
+    assert.equal(db.table('message_outbox')[0].next_attempt_at, '2025-11-20T15:01:00.000Z')
+
+    // Not due again until the first backoff has passed
+    clock.advance(30 * 1000)
+    assert.equal((await run()).claimed, 0)
+
+    clock.advance(30 * 1000)
+    assert.equal((await run()).retrying, 1)
+    assert.equal(db.table('message_outbox')[0].next_attempt_at, '2025-11-20T15:03:00.000Z')
+    assert.equal(db.table('notification_deliveries')[0].status, 'queued')
+
+    clock.advance(120 * 1000)
+    assert.equal((await run()).dead, 1)
+
+    const message = db.table('message_outbox')[0]
+    assert.equal(message.status, 'dead')
+    assert.equal(message.last_error, 'Provider unavailable')
+    assert.equal(calls(), 3)
+    assert.equal(db.table('notification_deliveries')[0].status, 'failed')
+    assert.equal(db.table('notification_deliveries')[0].reason, 'Provider unavailable')
+  })
+
+  it('marks the queued delivery sent once a retry goes through', async () => {
+    const db = outboxDb()
+    const clock = new ManualClock(START)
+    const { transports, sent } = fakeTransports(1)
+    const id = await enqueueMessage({ supabase: db.client, channel: 'email', to: 'pat@example.com', subject: 'Work started', html: '<p>Hi</p>', body: 'Hi' })
+    logQueued(db, id)
+
+    await processOutbox({ supabase: db.client, transports, clock, config })
+    clock.advance(60 * 1000)
+    const summary = await processOutbox({ supabase: db.client, transports, clock, config })
+
+    assert.equal(summary.sent, 1)
+    assert.equal(sent.length, 1)
+    assert.equal(db.table('message_outbox')[0].status, 'sent')
+    assert.equal(db.table('notification_deliveries')[0].status, 'sent')
+  })
+
+  it('renders messages queued by the database and skips channels the user turned off', async () => {
+    const db = outboxDb()
+    const clock = new ManualClock(START)
+    const { transports, sent } = fakeTransports()
+    const data = { contractorName: 'Ace Plumbing', homeownerName: 'Pat', homeownerPhone: '555-0100', jobTitle: 'Fix leak', jobAddress: '1 Main St' }
+    db.table('notification_preferences').push({ user_id: 'contractor_1', event_type: 'bid_accepted', channel: 'sms', enabled: false })
+
+    for (const [channel, template] of [['email', 'bid_accepted'], ['sms', 'bid_accepted_sms']] as const) {
+      await db.client.rpc('enqueue_outbound_message', {
+        p_channel: channel,
+        p_recipient: channel === 'email' ? 'ace@example.com' : '+15555550100',
+        p_body: '',
+        p_idempotency_key: `bid-accepted:bid_1:${channel}`,
+        p_template: template,
+        p_template_data: data,
+        p_user_id: 'contractor_1',
+        p_event_type: 'bid_accepted'
+      })
+    }
+
+    const summary = await processOutbox({ supabase: db.client, transports, clock, config })
+
+    assert.deepEqual({ sent: summary.sent, skipped: summary.skipped }, { sent: 1, skipped: 1 })
+    assert.equal(sent.length, 1)
+    assert.match((sent[0] as OutboundEmail).subject, /Fix leak/)
+    const [email, sms] = db.table('message_outbox')
+    assert.equal(email.status, 'sent')
+    assert.match(email.html, /Ace Plumbing/)
+    assert.equal(sms.status, 'skipped')
+    assert.equal(sms.last_error, 'Turned off in notification settings')
+  })
+})
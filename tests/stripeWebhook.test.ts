@@ -0,0 +1,202 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import type Stripe from 'stripe'
+import { FakeSupabase } from './helpers/fakeSupabase'
+import {
+  WebhookReplayError,
+  processStripeEvent,
+  replayFailedStripeEvents,
+  replayStripeEvent
+} from '../lib/stripeWebhook'
+
+function fixture(name: string): Stripe.Event {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'stripe', `${name}.json`), 'utf8'))
+}
+
+function escrowDb() {
+  const db = new FakeSupabase({
+    payment_holds: [{
+      id: 'hold_1',
+      job_id: 'job_1',
+      bid_id: 'bid_1',
+      homeowner_id: 'homeowner_1',
+      contractor_id: 'contractor_1',
+      amount: 250,
+      status: 'pending',
+      stripe_payment_intent_id: 'pi_3QHmT2LkdIwHu7ix0a8sBv1c'
+    }],
+    homeowner_jobs: [{ id: 'job_1', payment_status: 'pending' }]
+  })
+  db.unique.transactions = [['type', 'stripe_id']]
+  return db
+}
+
+/** Mirrors create_release_transaction() (20251120000001) */
+function installReleaseTrigger(db: FakeSupabase) {
+  db.triggers.payment_holds = [(before, after) => {
+    if (after.status !== 'released' || ['released', 'disputed'].includes(before.status)) return
+    const booked = db.table('transactions').some(t => t.type === 'release' && t.stripe_id === after.stripe_transfer_id)
+    if (booked) return
+    db.table('transactions').push({
+      id: `txn_release_${db.table('transactions').length}`,
+      type: 'release',
+      amount: after.contractor_payout,
+      payment_hold_id: after.id,
+      stripe_id: after.stripe_transfer_id
+    })
+  }]
+}
+
+const hold = (db: FakeSupabase) => db.table('payment_holds')[0]
+const storedEvent = (db: FakeSupabase, id: string) => db.table('stripe_webhook_events').find(e => e.id === id)
+
+describe('processStripeEvent', () => {
+  it('authorizes then captures a hold and books the charge once', async () => {
+    const db = escrowDb()
+
+    const authorized = await processStripeEvent(db.client, fixture('payment_intent.amount_capturable_updated'))
+    assert.equal(authorized.status, 'processed')
+    assert.equal(hold(db).status, 'authorized')
+    assert.equal(db.table('homeowner_jobs')[0].payment_status, 'authorized')
+
+    const captured = await processStripeEvent(db.client, fixture('payment_intent.succeeded'))
+    assert.equal(captured.status, 'processed')
+    assert.equal(hold(db).status, 'captured')
+    assert.equal(hold(db).stripe_charge_id, 'ch_3QHmT2LkdIwHu7ix0Gx2kP7q')
+    assert.equal(db.table('homeowner_jobs')[0].payment_status, 'paid')
+
+    const charges = db.table('transactions').filter(t => t.type === 'charge')
+    assert.equal(charges.length, 1)
+    assert.equal(charges[0].amount, -250)
+  })
+
+  it('reports redeliveries as duplicates without applying them again', async () => {
+    const db = escrowDb()
+    const event = fixture('payment_intent.succeeded')
+
+    await processStripeEvent(db.client, event)
+    const again = await processStripeEvent(db.client, event)
+
+    assert.equal(again.status, 'duplicate')
+    assert.equal(db.table('stripe_webhook_events').length, 1)
+    assert.equal(db.table('transactions').length, 1)
+  })
+
+  it('ignores late authorizations once the hold is captured', async () => {
+    const db = escrowDb()
+
+    await processStripeEvent(db.client, fixture('payment_intent.succeeded'))
+    await processStripeEvent(db.client, fixture('payment_intent.amount_capturable_updated'))
+
+    assert.equal(hold(db).status, 'captured')
+    assert.equal(db.table('homeowner_jobs')[0].payment_status, 'paid')
+  })
+
+  it('marks a failed payment and notifies the homeowner', async () => {
+    const db = escrowDb()
+
+    await processStripeEvent(db.client, fixture('payment_intent.payment_failed'))
+
+    assert.equal(hold(db).status, 'failed')
+    assert.equal(hold(db).failure_reason, 'Your card has insufficient funds.')
+    assert.equal(db.table('notifications').length, 1)
+    assert.equal(db.table('notifications')[0].user_id, 'homeowner_1')
+  })
+
+  it('books a partial refund and restores the hold when a dispute is won', async () => {
+    const db = escrowDb()
+
+    await processStripeEvent(db.client, fixture('payment_intent.succeeded'))
+    await processStripeEvent(db.client, fixture('charge.refunded'))
+
+    assert.equal(hold(db).status, 'partial_refund')
+    assert.equal(hold(db).refunded_amount, 50)
+    const refunds = db.table('transactions').filter(t => t.type === 'refund')
+    assert.deepEqual(refunds.map(r => [r.stripe_id, r.amount]), [['re_3QHmT2LkdIwHu7ix0m4TqZ8d', 50]])
+
+    await processStripeEvent(db.client, fixture('charge.dispute.created'))
+    assert.equal(hold(db).status, 'disputed')
+    assert.equal(hold(db).status_before_dispute, 'partial_refund')
+    assert.equal(db.table('homeowner_jobs')[0].payment_status, 'disputed')
+
+    await processStripeEvent(db.client, fixture('charge.dispute.closed'))
+    assert.equal(hold(db).status, 'partial_refund')
+    assert.equal(db.table('homeowner_jobs')[0].payment_status, 'paid')
+  })
+
+  it('restores a released hold after a won dispute without booking the release again', async () => {
+    const db = escrowDb()
+    installReleaseTrigger(db)
+    Object.assign(hold(db), { status: 'captured', contractor_payout: 225, stripe_charge_id: 'ch_3QHmT2LkdIwHu7ix0Gx2kP7q' })
+
+    // Funds go out to the contractor
+    const { error } = await db.client
+      .from('payment_holds')
+      .update({ status: 'released', stripe_transfer_id: 'tr_1QHmZ4LkdIwHu7ixq9Rt3Lw2' })
+      .eq('id', 'hold_1')
+    assert.equal(error, null)
+
+    await processStripeEvent(db.client, fixture('charge.dispute.created'))
+    assert.equal(hold(db).status, 'disputed')
+    assert.equal(hold(db).status_before_dispute, 'released')
+
+    const closed = await processStripeEvent(db.client, fixture('charge.dispute.closed'))
+
+    assert.equal(closed.status, 'processed')
+    assert.equal(hold(db).status, 'released')
+    assert.equal(db.table('homeowner_jobs')[0].payment_status, 'released')
+    assert.equal(db.table('transactions').filter(t => t.type === 'release').length, 1)
+  })
+
+  it('stores unhandled event types as ignored', async () => {
+    const db = escrowDb()
+
+    const result = await processStripeEvent(db.client, fixture('customer.created'))
+
+    assert.equal(result.status, 'ignored')
+    assert.equal(storedEvent(db, 'evt_1QHm9yLkdIwHu7ixuV3kWn0c')?.status, 'ignored')
+  })
+})
+
+describe('replaying stored events', () => {
+  it('records a failure and applies the event on replay', async () => {
+    const db = escrowDb()
+    const event = fixture('payment_intent.succeeded')
+
+    db.failNext('homeowner_jobs', 'update', 'connection reset')
+    const first = await processStripeEvent(db.client, event)
+
+    assert.equal(first.status, 'failed')
+    assert.equal(storedEvent(db, event.id)?.status, 'failed')
+    assert.equal(storedEvent(db, event.id)?.last_error, 'connection reset')
+
+    const results = await replayFailedStripeEvents(db.client)
+
+    assert.deepEqual(results, [{ eventId: event.id, status: 'processed' }])
+    assert.equal(storedEvent(db, event.id)?.status, 'processed')
+    assert.equal(storedEvent(db, event.id)?.attempts, 2)
+    assert.equal(db.table('homeowner_jobs')[0].payment_status, 'paid')
+  })
+
+  it('does not double-book when a processed event is replayed', async () => {
+    const db = escrowDb()
+    const event = fixture('charge.refunded')
+
+    await processStripeEvent(db.client, fixture('payment_intent.succeeded'))
+    await processStripeEvent(db.client, event)
+    await replayStripeEvent(db.client, event.id)
+
+    assert.equal(db.table('transactions').filter(t => t.type === 'refund').length, 1)
+  })
+
+  it('rejects events that were never received', async () => {
+    const db = escrowDb()
+
+    await assert.rejects(
+      replayStripeEvent(db.client, 'evt_missing'),
+      (error: unknown) => error instanceof WebhookReplayError && error.status === 404
+    )
+  })
+})